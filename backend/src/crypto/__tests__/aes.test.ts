@@ -0,0 +1,74 @@
+/**
+ * Тесты для версионированного шифрования AES-256-GCM
+ *
+ * Проверяет:
+ * - Конверт с id ключа и расшифровку старых значений без префикса
+ * - Расшифровку любым ключом из набора и перешифровку активным
+ * - Ошибки конфигурации ключей
+ */
+
+import crypto from "crypto";
+import { decryptWithKeyring, encryptWithKeyring, getPayloadKeyId, loadKeyring, reencryptWithKeyring } from "../aes";
+
+const OLD_HEX = "11".repeat(32);
+const NEW_HEX = "22".repeat(32);
+
+// Старый формат "iv.tag.data" без id ключа
+function legacyEncrypt(text: string, hex: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", Buffer.from(hex, "hex"), iv);
+  const data = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+  return [iv.toString("base64"), cipher.getAuthTag().toString("base64"), data.toString("base64")].join(".");
+}
+
+describe("aes keyring", () => {
+  it("should write versioned envelopes and read legacy payloads", () => {
+    const keyring = loadKeyring({ TELEGRAM_SESSION_SECRET: OLD_HEX });
+    const payload = encryptWithKeyring(keyring, "session");
+    expect(getPayloadKeyId(payload)).toBe("legacy");
+    expect(decryptWithKeyring(keyring, payload)).toBe("session");
+    expect(decryptWithKeyring(keyring, legacyEncrypt("old session", OLD_HEX))).toBe("old session");
+  });
+
+  it("should decrypt with any configured key and re-encrypt with the active one", () => {
+    const before = loadKeyring({ CRYPTO_KEYS: `k1:${OLD_HEX}` });
+    const oldPayload = encryptWithKeyring(before, "token");
+
+    const rotated = loadKeyring({ CRYPTO_KEYS: `k2:${NEW_HEX},k1:${OLD_HEX}`, TELEGRAM_SESSION_SECRET: OLD_HEX });
+    expect(rotated.activeKeyId).toBe("k2");
+    expect(decryptWithKeyring(rotated, oldPayload)).toBe("token");
+
+    const fresh = reencryptWithKeyring(rotated, oldPayload);
+    expect(fresh === null ? null : getPayloadKeyId(fresh)).toBe("k2");
+    expect(reencryptWithKeyring(rotated, fresh as string)).toBeNull();
+
+    const legacy = reencryptWithKeyring(rotated, legacyEncrypt("legacy", OLD_HEX)) as string;
+    expect(getPayloadKeyId(legacy)).toBe("k2");
+    expect(decryptWithKeyring(loadKeyring({ CRYPTO_KEYS: `k2:${NEW_HEX}` }), legacy)).toBe("legacy");
+  });
+
+  it("should reject invalid configuration", () => {
+    const errors = [
+      { CRYPTO_KEYS: "k1:abcd" },
+      { CRYPTO_KEYS: `k1:${OLD_HEX},k1:${NEW_HEX}` },
+      { CRYPTO_KEYS: `k1:${OLD_HEX}`, CRYPTO_ACTIVE_KEY_ID: "k9" }
+    ].map((env) => {
+      try {
+        loadKeyring(env);
+        return null;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+    expect(errors.every((message) => message !== null)).toBe(true);
+
+    const payload = encryptWithKeyring(loadKeyring({ CRYPTO_KEYS: `k1:${OLD_HEX}` }), "x");
+    let missingKeyError: string | null = null;
+    try {
+      decryptWithKeyring(loadKeyring({ CRYPTO_KEYS: `k2:${NEW_HEX}` }), payload);
+    } catch (error) {
+      missingKeyError = (error as Error).message;
+    }
+    expect(missingKeyError).not.toBeNull();
+  });
+});
@@ -2,36 +2,110 @@ import crypto from "crypto";
 
 const ALGO = "aes-256-gcm";
 
-const secret = process.env.TELEGRAM_SESSION_SECRET ?? "";
-const key = Buffer.from(secret, "hex");
+/**
+ * Версионированный конверт: "v1:<keyId>:<iv>.<tag>.<data>" (base64).
+ * Старые значения без префикса ("<iv>.<tag>.<data>") расшифровываются ключом TELEGRAM_SESSION_SECRET.
+ *
+ * Ключи задаются в CRYPTO_KEYS="k2:<hex>,k1:<hex>": шифруем активным ключом
+ * (CRYPTO_ACTIVE_KEY_ID или первый в списке), расшифровываем любым из списка.
+ * Без CRYPTO_KEYS единственным ключом остаётся TELEGRAM_SESSION_SECRET с id "legacy".
+ */
+const ENVELOPE_VERSION = "v1";
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+export const LEGACY_KEY_ID = "legacy";
 
-if (secret && key.length !== 32) {
-  throw new Error(
-    "TELEGRAM_SESSION_SECRET must be 32 bytes hex (64 hex chars) for AES-256-GCM"
-  );
+export interface CryptoKeyring {
+  activeKeyId: string | null;
+  keys: Map<string, Buffer>;
+  legacyKey: Buffer | null; // ключ для значений без префикса
 }
 
-export function encrypt(text: string): string {
-  if (!secret) {
-    throw new Error("TELEGRAM_SESSION_SECRET is not set");
+function parseHexKey(hex: string, name: string): Buffer {
+  const key = Buffer.from(hex.trim(), "hex");
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes hex (64 hex chars) for AES-256-GCM`);
+  }
+  return key;
+}
+
+/**
+ * Собирает набор ключей из окружения. Бросает ошибку при неверной конфигурации.
+ */
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): CryptoKeyring {
+  const keys = new Map<string, Buffer>();
+  const legacySecret = env.TELEGRAM_SESSION_SECRET ?? "";
+  const legacyKey = legacySecret ? parseHexKey(legacySecret, "TELEGRAM_SESSION_SECRET") : null;
+
+  for (const entry of (env.CRYPTO_KEYS ?? "").split(",").map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const keyId = separator > 0 ? entry.slice(0, separator) : "";
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(`CRYPTO_KEYS: invalid key id in "${keyId || entry.slice(0, 8)}..." (expected <id>:<hex>)`);
+    }
+    if (keys.has(keyId)) {
+      throw new Error(`CRYPTO_KEYS: duplicate key id "${keyId}"`);
+    }
+    keys.set(keyId, parseHexKey(entry.slice(separator + 1), `CRYPTO_KEYS[${keyId}]`));
+  }
+
+  if (legacyKey && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, legacyKey);
+  }
+
+  const requestedActive = env.CRYPTO_ACTIVE_KEY_ID?.trim();
+  if (requestedActive && !keys.has(requestedActive)) {
+    throw new Error(`CRYPTO_ACTIVE_KEY_ID "${requestedActive}" is not present in CRYPTO_KEYS`);
+  }
+  const activeKeyId = requestedActive || keys.keys().next().value || null;
+
+  return { activeKeyId, keys, legacyKey };
+}
+
+/**
+ * Id ключа, которым зашифровано значение; null — старый формат без префикса
+ */
+export function getPayloadKeyId(payload: string): string | null {
+  const match = payload.match(/^v\d+:([A-Za-z0-9_-]+):/);
+  return match ? match[1] : null;
+}
+
+export function encryptWithKeyring(keyring: CryptoKeyring, text: string): string {
+  const keyId = keyring.activeKeyId;
+  const key = keyId ? keyring.keys.get(keyId) : undefined;
+  if (!keyId || !key) {
+    throw new Error("Encryption key is not configured (set CRYPTO_KEYS or TELEGRAM_SESSION_SECRET)");
   }
   const iv = crypto.randomBytes(12);
   const cipher = crypto.createCipheriv(ALGO, key, iv);
   const encrypted = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
   const authTag = cipher.getAuthTag();
 
-  return [
-    iv.toString("base64"),
-    authTag.toString("base64"),
-    encrypted.toString("base64")
-  ].join(".");
+  const body = [iv.toString("base64"), authTag.toString("base64"), encrypted.toString("base64")].join(".");
+  return `${ENVELOPE_VERSION}:${keyId}:${body}`;
 }
 
-export function decrypt(payload: string): string {
-  if (!secret) {
-    throw new Error("TELEGRAM_SESSION_SECRET is not set");
+export function decryptWithKeyring(keyring: CryptoKeyring, payload: string): string {
+  const keyId = getPayloadKeyId(payload);
+  let key: Buffer | null | undefined;
+  let body = payload;
+
+  if (keyId) {
+    if (!payload.startsWith(`${ENVELOPE_VERSION}:`)) {
+      throw new Error("Unsupported encrypted payload version");
+    }
+    key = keyring.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
+    body = payload.slice(ENVELOPE_VERSION.length + keyId.length + 2);
+  } else {
+    key = keyring.legacyKey;
+    if (!key) {
+      throw new Error("TELEGRAM_SESSION_SECRET is not set");
+    }
   }
-  const [ivB64, tagB64, dataB64] = payload.split(".");
+
+  const [ivB64, tagB64, dataB64] = body.split(".");
   if (!ivB64 || !tagB64 || !dataB64) {
     throw new Error("Invalid encrypted payload format");
   }
@@ -41,17 +115,43 @@ export function decrypt(payload: string): string {
 
   const decipher = crypto.createDecipheriv(ALGO, key, iv);
   decipher.setAuthTag(authTag);
-  const decrypted = Buffer.concat([
-    decipher.update(encrypted),
-    decipher.final()
-  ]);
+  const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
 
   return decrypted.toString("utf8");
 }
 
+/**
+ * Перешифровывает значение активным ключом. Возвращает null, если оно уже зашифровано им.
+ */
+export function reencryptWithKeyring(keyring: CryptoKeyring, payload: string): string | null {
+  const keyId = getPayloadKeyId(payload);
+  if (keyId && keyId === keyring.activeKeyId) {
+    return null;
+  }
+  return encryptWithKeyring(keyring, decryptWithKeyring(keyring, payload));
+}
 
+const keyring = loadKeyring();
 
+export function encrypt(text: string): string {
+  return encryptWithKeyring(keyring, text);
+}
 
+export function decrypt(payload: string): string {
+  return decryptWithKeyring(keyring, payload);
+}
 
+export function reencrypt(payload: string): string | null {
+  return reencryptWithKeyring(keyring, payload);
+}
 
-
+/**
+ * Id ключей без самих ключей — для диагностики ротации
+ */
+export function describeKeyring(): { activeKeyId: string | null; keyIds: string[]; hasLegacyKey: boolean } {
+  return {
+    activeKeyId: keyring.activeKeyId,
+    keyIds: Array.from(keyring.keys.keys()),
+    hasLegacyKey: Boolean(keyring.legacyKey)
+  };
+}
@@ -35,12 +35,17 @@ import debugRoutes from "./routes/debugRoutes";
 import testFirestoreRoutes from "./routes/testFirestoreRoutes";
 import authRoutes from "./routes/authRoutes";
 import channelRoutes from "./routes/channelRoutes";
+import channelTemplateRoutes from "./routes/channelTemplateRoutes";
 import scheduleRoutes from "./routes/scheduleRoutes";
 import notificationRoutes from "./routes/notificationRoutes";
 import adminRoutes from "./routes/adminRoutes";
 import helpRoutes from "./routes/helpRoutes";
 import userSettingsRoutes from "./routes/userSettingsRoutes";
+import llmRoutes from "./routes/llmRoutes";
+import secretRoutes from "./routes/secretRoutes";
 import errorLogsRoutes from "./routes/errorLogsRoutes";
+import videoGeneratorRoutes from "./routes/videoGeneratorRoutes";
+import publisherRoutes from "./routes/publisherRoutes";
 import { processAutoSendTick } from "./services/autoSendScheduler";
 import { Logger } from "./utils/logger";
 import { getFirestoreInfo, isFirestoreAvailable } from "./services/firebaseAdmin";
@@ -98,12 +103,17 @@ app.use("/api/debug", debugRoutes);
 app.use("/api/test", testFirestoreRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/channels", channelRoutes);
+app.use("/api/channel-templates", channelTemplateRoutes);
 app.use("/api/schedule", scheduleRoutes);
 app.use("/api/notifications", notificationRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api/help", helpRoutes);
 app.use("/api/user-settings", userSettingsRoutes);
+app.use("/api/llm", llmRoutes);
+app.use("/api/secrets", secretRoutes);
 app.use("/api/error-logs", errorLogsRoutes);
+app.use("/api/video-generators", videoGeneratorRoutes);
+app.use("/api/publishers", publisherRoutes);
 
 // Логируем подключенные маршруты для диагностики
 Logger.info("Backend routes registered", {
@@ -162,6 +172,23 @@ if (process.env.ENABLE_CRON_SCHEDULER !== "false") {
   Logger.info("Cron scheduler disabled: use /api/cron/manual-tick with Cloud Scheduler");
 }
 
+// Запускаем воркер персистентной очереди задач каждую минуту
+// Для Cloud Run используйте HTTP-эндпоинт /api/cron/job-tick с Cloud Scheduler
+if (process.env.ENABLE_CRON_SCHEDULER !== "false") {
+  import("./services/jobWorker").then(({ processJobWorkerTick }) => {
+    cron.schedule("* * * * *", async () => {
+      try {
+        await processJobWorkerTick();
+      } catch (error) {
+        Logger.error("Cron scheduler: error in job worker tick", error);
+      }
+    });
+    Logger.info("Cron scheduler enabled: job worker will run every minute");
+  }).catch((error) => {
+    Logger.error("Failed to load job worker", error);
+  });
+}
+
 // Запускаем мониторинг Blottata каждую минуту
 if (process.env.ENABLE_CRON_SCHEDULER !== "false") {
   import("./services/blottataDriveMonitor").then(({ processBlottataTick }) => {
@@ -35,6 +35,22 @@ export async function getClientForUser(
     }
   }
 
+  const client = await connectClientForUser(userId);
+
+  // Сохраняем в кэш
+  clientCache.set(userId, {
+    client,
+    lastUsed: Date.now()
+  });
+
+  return client;
+}
+
+/**
+ * Создаёт новое подключение с личной сессией пользователя, минуя кэш.
+ * Нужен долгоживущим слушателям (ответы SyntX), которые сами отключают клиента.
+ */
+export async function connectClientForUser(userId: string): Promise<TelegramClient> {
   // Загружаем интеграцию из БД
   const integration = await findTelegramIntegrationByUserId(userId);
   
@@ -75,12 +91,6 @@ export async function getClientForUser(
     throw error;
   }
 
-  // Сохраняем в кэш
-  clientCache.set(userId, {
-    client,
-    lastUsed: Date.now()
-  });
-
   return client;
 }
 
@@ -0,0 +1,56 @@
+import type { Request, Response, NextFunction } from "express";
+import { Logger } from "../utils/logger";
+
+interface RateLimitOptions {
+  name: string; // для логов
+  windowMs: number;
+  max: () => number; // читается при каждом запросе, чтобы лимит можно было менять через окружение
+}
+
+/**
+ * Ограничение частоты запросов на пользователя (скользящее окно, хранится в памяти процесса).
+ * Ставится после authRequired. При нескольких инстансах лимит действует на каждый инстанс отдельно.
+ *
+ * При превышении возвращает 429 { error, code: "RATE_LIMITED", retryAfterSec } и заголовок Retry-After.
+ */
+export function userRateLimit(options: RateLimitOptions) {
+  const hits = new Map<string, number[]>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const userId = req.user?.uid;
+    if (!userId) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    const windowStart = now - options.windowMs;
+    const recent = (hits.get(userId) ?? []).filter((at) => at > windowStart);
+    const max = options.max();
+
+    if (recent.length >= max) {
+      const retryAfterSec = Math.max(1, Math.ceil((recent[0] + options.windowMs - now) / 1000));
+      hits.set(userId, recent);
+      Logger.warn("Rate limit exceeded", { limiter: options.name, userId, max, retryAfterSec });
+      res.setHeader("Retry-After", String(retryAfterSec));
+      res.status(429).json({
+        error: `Слишком много запросов. Повторите через ${retryAfterSec} с.`,
+        code: "RATE_LIMITED",
+        retryAfterSec
+      });
+      return;
+    }
+
+    recent.push(now);
+    hits.set(userId, recent);
+
+    // Не даём карте расти бесконечно: убираем пользователей без запросов в текущем окне
+    if (hits.size > 1000) {
+      for (const [key, times] of hits) {
+        if (times[times.length - 1] <= windowStart) hits.delete(key);
+      }
+    }
+
+    next();
+  };
+}
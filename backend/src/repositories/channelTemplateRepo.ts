@@ -0,0 +1,50 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { ChannelTemplate } from "../types/channelTemplate";
+
+export const MAX_CHANNEL_TEMPLATES = 50;
+
+function getChannelTemplatesCollection(userId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection("users").doc(userId).collection("channelTemplates");
+}
+
+/**
+ * Шаблоны пользователя, новые первыми
+ */
+export async function listChannelTemplates(userId: string): Promise<ChannelTemplate[]> {
+  const snapshot = await getChannelTemplatesCollection(userId)
+    .orderBy("createdAt", "desc")
+    .limit(MAX_CHANNEL_TEMPLATES)
+    .get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ChannelTemplate);
+}
+
+export async function countChannelTemplates(userId: string): Promise<number> {
+  const snapshot = await getChannelTemplatesCollection(userId).count().get();
+  return snapshot.data().count;
+}
+
+export async function createChannelTemplate(
+  userId: string,
+  template: Omit<ChannelTemplate, "id">
+): Promise<ChannelTemplate> {
+  const ref = getChannelTemplatesCollection(userId).doc();
+  // Firestore не принимает undefined — убираем такие поля
+  await ref.set(JSON.parse(JSON.stringify(template)));
+  return { id: ref.id, ...template };
+}
+
+/**
+ * Удаляет шаблон. Возвращает false, если шаблона нет
+ */
+export async function deleteChannelTemplate(userId: string, templateId: string): Promise<boolean> {
+  const ref = getChannelTemplatesCollection(userId).doc(templateId);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return false;
+  }
+  await ref.delete();
+  return true;
+}
@@ -35,6 +35,7 @@ export async function findGoogleDriveIntegrationByUserId(
       status: data.status || "active",
       lastError: data.lastError || null,
       scopesVersion: data.scopesVersion || 1, // Старые интеграции имеют версию 1
+      youtubeUploadGranted: data.youtubeUploadGranted === true,
       createdAt: data.createdAt?.toDate() || new Date(),
       updatedAt: data.updatedAt?.toDate() || new Date()
     } as GoogleDriveIntegration;
@@ -50,7 +51,8 @@ export async function createGoogleDriveIntegration(
   refreshToken: string,
   expiryDate: number,
   email?: string,
-  scopesVersion?: number
+  scopesVersion?: number,
+  youtubeUploadGranted = false
 ): Promise<GoogleDriveIntegration> {
   try {
     if (!isFirestoreAvailable() || !db) {
@@ -67,6 +69,7 @@ export async function createGoogleDriveIntegration(
       status: "active" as GoogleDriveIntegrationStatus,
       lastError: null,
       scopesVersion: scopesVersion || 2, // Новая версия по умолчанию
+      youtubeUploadGranted,
       createdAt: now,
       updatedAt: now
     };
@@ -99,6 +102,7 @@ export async function updateGoogleDriveIntegration(
     status: GoogleDriveIntegrationStatus;
     lastError: string | null;
     scopesVersion: number;
+    youtubeUploadGranted: boolean;
   }>
 ): Promise<void> {
   try {
@@ -131,6 +135,9 @@ export async function updateGoogleDriveIntegration(
     if (updates.scopesVersion !== undefined) {
       updateData.scopesVersion = updates.scopesVersion;
     }
+    if (updates.youtubeUploadGranted !== undefined) {
+      updateData.youtubeUploadGranted = updates.youtubeUploadGranted;
+    }
 
     await db.collection(COLLECTION).doc(integrationId).update(updateData);
 
@@ -0,0 +1,331 @@
+import crypto from "crypto";
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { Job, JobStatus } from "../types/job";
+import { Logger } from "../utils/logger";
+
+const COLLECTION = "jobs";
+// Документ на каждый dedupeKey с id последней задачи: через него транзакции постановки
+// с одинаковым ключом сериализуются и не создают дубликатов
+const DEDUPE_COLLECTION = "jobDedupeKeys";
+
+// Статусы, в которых задача считается активной (может быть выполнена)
+const ACTIVE_STATUSES: JobStatus[] = ["pending", "running"];
+
+/**
+ * Хранилище очереди задач.
+ * Реализации: Firestore (production) и in-memory (локальный запуск и тесты).
+ */
+/**
+ * Результат постановки задачи с dedupeKey:
+ * created — создана новая, rescheduled — перепланирована ожидающая, running — активная уже выполняется
+ */
+export type DedupedInsertOutcome = "created" | "rescheduled" | "running";
+
+export interface JobStore {
+  insert(job: Omit<Job, "id">): Promise<Job>;
+  /**
+   * Атомарно ставит задачу с dedupeKey: если активная задача с тем же ключом ждёт (pending),
+   * переносит её на job.availableAt с новым payload, если выполняется — возвращает её как есть,
+   * иначе создаёт новую.
+   */
+  insertOrReschedule(job: Omit<Job, "id">): Promise<{ job: Job; outcome: DedupedInsertOutcome }>;
+  findById(jobId: string): Promise<Job | null>;
+  findActiveByDedupeKey(dedupeKey: string): Promise<Job | null>;
+  /**
+   * Возвращает кандидатов на выполнение: pending/running с availableAt <= now.
+   * Захват всё равно нужно подтвердить через tryClaim.
+   */
+  findClaimable(now: Date, limit: number): Promise<Job[]>;
+  /**
+   * Атомарно захватывает задачу: переводит в running, увеличивает attempts
+   * и выставляет lease до now + leaseMs. Возвращает null, если задачу уже забрали.
+   * Если попытки исчерпаны (воркер падал или не укладывался в lease), задача
+   * не захватывается, а переводится в dead и возвращается со статусом dead.
+   */
+  tryClaim(jobId: string, workerId: string, now: Date, leaseMs: number): Promise<Job | null>;
+  update(jobId: string, updates: Partial<Omit<Job, "id">>): Promise<void>;
+  /**
+   * Атомарно обновляет задачу, только если она всё ещё захвачена workerId.
+   * Возвращает false, если lease истёк и задачу забрал другой воркер.
+   */
+  updateIfLeased(jobId: string, workerId: string, updates: Partial<Omit<Job, "id">>): Promise<boolean>;
+  list(options?: { status?: JobStatus; channelId?: string; limit?: number }): Promise<Job[]>;
+}
+
+function isClaimable(job: Job, now: Date): boolean {
+  return ACTIVE_STATUSES.includes(job.status) && job.availableAt <= now.toISOString();
+}
+
+function rescheduleUpdates(job: Omit<Job, "id">): Partial<Job> {
+  return {
+    payload: job.payload,
+    runAt: job.runAt,
+    availableAt: job.availableAt,
+    updatedAt: job.updatedAt
+  };
+}
+
+function isLeasedBy(job: Job, workerId: string): boolean {
+  return job.status === "running" && job.leaseOwner === workerId;
+}
+
+function claimUpdates(job: Job, workerId: string, now: Date, leaseMs: number): Partial<Job> {
+  if (job.attempts >= job.maxAttempts) {
+    return {
+      status: "dead",
+      leaseOwner: null,
+      lastError: `Lease expired after ${job.attempts} attempts: worker did not finish the job`,
+      updatedAt: now.toISOString()
+    };
+  }
+  return {
+    status: "running",
+    attempts: job.attempts + 1,
+    leaseOwner: workerId,
+    availableAt: new Date(now.getTime() + leaseMs).toISOString(),
+    updatedAt: now.toISOString()
+  };
+}
+
+/**
+ * Firestore не принимает undefined в документах — убираем такие поля (включая payload)
+ */
+function stripUndefined<T extends Record<string, unknown>>(data: T): T {
+  return JSON.parse(JSON.stringify(data)) as T;
+}
+
+/**
+ * Firestore-реализация. Задачи лежат в корневой коллекции jobs.
+ *
+ * ТРЕБУЕТСЯ ИНДЕКС В FIRESTORE:
+ * Collection: jobs
+ * Fields:
+ *   - status (Ascending)
+ *   - availableAt (Ascending)
+ */
+export function createFirestoreJobStore(): JobStore {
+  const getCollection = () => {
+    if (!isFirestoreAvailable() || !db) {
+      throw new Error("Firestore is not available");
+    }
+    return db.collection(COLLECTION);
+  };
+
+  const toJob = (doc: FirebaseFirestore.DocumentSnapshot): Job =>
+    ({ id: doc.id, ...doc.data() }) as Job;
+
+  return {
+    async insert(job) {
+      const docRef = getCollection().doc();
+      const data = stripUndefined(job);
+      await docRef.set(data);
+      return { id: docRef.id, ...data };
+    },
+
+    async insertOrReschedule(job) {
+      const collection = getCollection();
+      const dedupeKey = job.dedupeKey!;
+      const keyRef = collection.firestore
+        .collection(DEDUPE_COLLECTION)
+        .doc(crypto.createHash("sha256").update(dedupeKey).digest("hex"));
+
+      return collection.firestore.runTransaction(async (tx) => {
+        const keyDoc = await tx.get(keyRef);
+        let existing: Job | null = null;
+        if (keyDoc.exists) {
+          const existingDoc = await tx.get(collection.doc(keyDoc.get("jobId")));
+          existing = existingDoc.exists ? toJob(existingDoc) : null;
+        } else {
+          // Задачи, поставленные до появления jobDedupeKeys, ищем по полю
+          const snapshot = await tx.get(
+            collection.where("dedupeKey", "==", dedupeKey).where("status", "in", ACTIVE_STATUSES).limit(1)
+          );
+          existing = snapshot.empty ? null : toJob(snapshot.docs[0]);
+        }
+
+        if (existing?.status === "running") {
+          return { job: existing, outcome: "running" as const };
+        }
+        if (existing?.status === "pending") {
+          const updates = stripUndefined(rescheduleUpdates(job));
+          tx.update(collection.doc(existing.id), updates);
+          tx.set(keyRef, { dedupeKey, jobId: existing.id, updatedAt: job.updatedAt });
+          return { job: { ...existing, ...updates }, outcome: "rescheduled" as const };
+        }
+
+        const docRef = collection.doc();
+        const data = stripUndefined(job);
+        tx.set(docRef, data);
+        tx.set(keyRef, { dedupeKey, jobId: docRef.id, updatedAt: job.updatedAt });
+        return { job: { id: docRef.id, ...data }, outcome: "created" as const };
+      });
+    },
+
+    async findById(jobId) {
+      const doc = await getCollection().doc(jobId).get();
+      return doc.exists ? toJob(doc) : null;
+    },
+
+    async findActiveByDedupeKey(dedupeKey) {
+      const snapshot = await getCollection()
+        .where("dedupeKey", "==", dedupeKey)
+        .where("status", "in", ACTIVE_STATUSES)
+        .limit(1)
+        .get();
+      return snapshot.empty ? null : toJob(snapshot.docs[0]);
+    },
+
+    async findClaimable(now, limit) {
+      const snapshot = await getCollection()
+        .where("status", "in", ACTIVE_STATUSES)
+        .where("availableAt", "<=", now.toISOString())
+        .orderBy("availableAt", "asc")
+        .limit(limit)
+        .get();
+      return snapshot.docs.map(toJob);
+    },
+
+    async tryClaim(jobId, workerId, now, leaseMs) {
+      const collection = getCollection();
+      const docRef = collection.doc(jobId);
+      try {
+        return await collection.firestore.runTransaction(async (tx) => {
+          const doc = await tx.get(docRef);
+          if (!doc.exists) {
+            return null;
+          }
+          const job = toJob(doc);
+          if (!isClaimable(job, now)) {
+            return null;
+          }
+          const updates = claimUpdates(job, workerId, now, leaseMs);
+          tx.update(docRef, updates);
+          return { ...job, ...updates };
+        });
+      } catch (error) {
+        Logger.warn("jobStore.tryClaim: transaction failed, job left for another worker", {
+          jobId,
+          workerId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return null;
+      }
+    },
+
+    async update(jobId, updates) {
+      await getCollection().doc(jobId).update(stripUndefined(updates));
+    },
+
+    async updateIfLeased(jobId, workerId, updates) {
+      const collection = getCollection();
+      const docRef = collection.doc(jobId);
+      return collection.firestore.runTransaction(async (tx) => {
+        const doc = await tx.get(docRef);
+        if (!doc.exists || !isLeasedBy(toJob(doc), workerId)) {
+          return false;
+        }
+        tx.update(docRef, stripUndefined(updates));
+        return true;
+      });
+    },
+
+    async list(options = {}) {
+      let query: FirebaseFirestore.Query = getCollection();
+      if (options.status) {
+        query = query.where("status", "==", options.status);
+      }
+      if (options.channelId) {
+        query = query.where("channelId", "==", options.channelId);
+      }
+      const snapshot = await query.limit(options.limit ?? 100).get();
+      return snapshot.docs.map(toJob);
+    }
+  };
+}
+
+/**
+ * In-memory реализация с той же семантикой захвата.
+ * Задачи не переживают перезапуск процесса — только для локального запуска и тестов.
+ */
+export function createInMemoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>();
+  let sequence = 0;
+
+  return {
+    async insert(job) {
+      const created: Job = { id: `job_${Date.now()}_${++sequence}`, ...job };
+      jobs.set(created.id, created);
+      return { ...created };
+    },
+
+    async insertOrReschedule(job) {
+      const existing = Array.from(jobs.values()).find(
+        (j) => j.dedupeKey === job.dedupeKey && ACTIVE_STATUSES.includes(j.status)
+      );
+      if (existing?.status === "running") {
+        return { job: { ...existing }, outcome: "running" };
+      }
+      if (existing) {
+        const rescheduled = { ...existing, ...rescheduleUpdates(job) };
+        jobs.set(existing.id, rescheduled);
+        return { job: { ...rescheduled }, outcome: "rescheduled" };
+      }
+      return { job: await this.insert(job), outcome: "created" };
+    },
+
+    async findById(jobId) {
+      const job = jobs.get(jobId);
+      return job ? { ...job } : null;
+    },
+
+    async findActiveByDedupeKey(dedupeKey) {
+      const job = Array.from(jobs.values()).find(
+        (j) => j.dedupeKey === dedupeKey && ACTIVE_STATUSES.includes(j.status)
+      );
+      return job ? { ...job } : null;
+    },
+
+    async findClaimable(now, limit) {
+      return Array.from(jobs.values())
+        .filter((j) => isClaimable(j, now))
+        .sort((a, b) => a.availableAt.localeCompare(b.availableAt))
+        .slice(0, limit)
+        .map((j) => ({ ...j }));
+    },
+
+    async tryClaim(jobId, workerId, now, leaseMs) {
+      const job = jobs.get(jobId);
+      if (!job || !isClaimable(job, now)) {
+        return null;
+      }
+      const claimed = { ...job, ...claimUpdates(job, workerId, now, leaseMs) };
+      jobs.set(jobId, claimed);
+      return { ...claimed };
+    },
+
+    async update(jobId, updates) {
+      const job = jobs.get(jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+      jobs.set(jobId, { ...job, ...updates });
+    },
+
+    async updateIfLeased(jobId, workerId, updates) {
+      const job = jobs.get(jobId);
+      if (!job || !isLeasedBy(job, workerId)) {
+        return false;
+      }
+      jobs.set(jobId, { ...job, ...updates });
+      return true;
+    },
+
+    async list(options = {}) {
+      return Array.from(jobs.values())
+        .filter((j) => !options.status || j.status === options.status)
+        .filter((j) => !options.channelId || j.channelId === options.channelId)
+        .slice(0, options.limit ?? 100)
+        .map((j) => ({ ...j }));
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { LlmUsagePeriod, LlmUsageRecord, LlmUsageTotals } from "../types/llmUsage";
+import { emptyUsageTotals, getUsagePeriodKeys } from "../utils/llmUsage";
+
+function getUserDoc(userId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection("users").doc(userId);
+}
+
+function emptyPeriod(period: string): LlmUsagePeriod {
+  return { period, ...emptyUsageTotals(), channels: {}, models: {} };
+}
+
+function addTotals(target: LlmUsageTotals | undefined, record: Omit<LlmUsageRecord, "id">): LlmUsageTotals {
+  const totals = target ?? emptyUsageTotals();
+  return {
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    costUsd: Math.round((totals.costUsd + record.costUsd) * 1_000_000) / 1_000_000
+  };
+}
+
+function addToPeriod(period: LlmUsagePeriod, record: Omit<LlmUsageRecord, "id">): LlmUsagePeriod {
+  const channelKey = record.channelId || "none";
+  const modelKey = `${record.provider}/${record.model}`;
+  return {
+    ...period,
+    ...addTotals(period, record),
+    channels: { ...period.channels, [channelKey]: addTotals(period.channels[channelKey], record) },
+    models: { ...period.models, [modelKey]: addTotals(period.models[modelKey], record) }
+  };
+}
+
+/**
+ * Сохраняет вызов и атомарно обновляет дневную и месячную сводки
+ */
+export async function addLlmUsageRecord(userId: string, record: Omit<LlmUsageRecord, "id">): Promise<void> {
+  const userDoc = getUserDoc(userId);
+  const statsCollection = userDoc.collection("llmUsageStats");
+  const { day, month } = getUsagePeriodKeys(new Date(record.createdAt));
+  const dayRef = statsCollection.doc(`day_${day}`);
+  const monthRef = statsCollection.doc(`month_${month}`);
+  const recordRef = userDoc.collection("llmUsage").doc();
+
+  await userDoc.firestore.runTransaction(async (tx) => {
+    const [daySnap, monthSnap] = await Promise.all([tx.get(dayRef), tx.get(monthRef)]);
+    const currentDay = daySnap.exists ? (daySnap.data() as LlmUsagePeriod) : emptyPeriod(day);
+    const currentMonth = monthSnap.exists ? (monthSnap.data() as LlmUsagePeriod) : emptyPeriod(month);
+
+    tx.set(dayRef, addToPeriod(currentDay, record));
+    tx.set(monthRef, addToPeriod(currentMonth, record));
+    tx.set(recordRef, record);
+  });
+}
+
+/**
+ * Сводки за текущие день и месяц (UTC)
+ */
+export async function getCurrentLlmUsage(
+  userId: string,
+  now = new Date()
+): Promise<{ day: LlmUsagePeriod; month: LlmUsagePeriod }> {
+  const statsCollection = getUserDoc(userId).collection("llmUsageStats");
+  const { day, month } = getUsagePeriodKeys(now);
+  const [daySnap, monthSnap] = await Promise.all([
+    statsCollection.doc(`day_${day}`).get(),
+    statsCollection.doc(`month_${month}`).get()
+  ]);
+  return {
+    day: daySnap.exists ? (daySnap.data() as LlmUsagePeriod) : emptyPeriod(day),
+    month: monthSnap.exists ? (monthSnap.data() as LlmUsagePeriod) : emptyPeriod(month)
+  };
+}
+
+/**
+ * Дневные сводки за период включительно ("YYYY-MM-DD"), по возрастанию даты.
+ * Дни без вызовов не возвращаются.
+ */
+export async function listLlmUsageDays(userId: string, fromDay: string, toDay: string): Promise<LlmUsagePeriod[]> {
+  const snapshot = await getUserDoc(userId)
+    .collection("llmUsageStats")
+    .orderBy("__name__")
+    .startAt(`day_${fromDay}`)
+    .endAt(`day_${toDay}`)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as LlmUsagePeriod);
+}
+
+/**
+ * Последние вызовы, новые первыми
+ */
+export async function listLlmUsageRecords(userId: string, limit = 50): Promise<LlmUsageRecord[]> {
+  const snapshot = await getUserDoc(userId)
+    .collection("llmUsage")
+    .orderBy("createdAt", "desc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as LlmUsageRecord);
+}
@@ -0,0 +1,75 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { MissedRunDecision } from "../types/missedRunDecision";
+
+function getMissedRunsCollection(userId: string, channelId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .collection("missedRuns");
+}
+
+export function getMissedRunDecisionId(scheduleId: string, slotAt: string): string {
+  return `${scheduleId}_${slotAt.replace(/[:.]/g, "-")}`;
+}
+
+/**
+ * Сохраняет решения по пропущенным слотам, которых ещё нет в хранилище.
+ * Решение уже принятого слота (другим экземпляром или прошлым тиком) не перезаписывается.
+ * @returns Решения, созданные этим вызовом, — только их можно выполнять
+ */
+export async function createMissedRunDecisions(
+  userId: string,
+  channelId: string,
+  decisions: MissedRunDecision[]
+): Promise<MissedRunDecision[]> {
+  if (decisions.length === 0) {
+    return [];
+  }
+  const collection = getMissedRunsCollection(userId, channelId);
+  return collection.firestore.runTransaction(async (transaction) => {
+    const refs = decisions.map((decision) => collection.doc(decision.id));
+    const snapshots = await transaction.getAll(...refs);
+    const created: MissedRunDecision[] = [];
+    decisions.forEach((decision, index) => {
+      if (snapshots[index].exists) {
+        return;
+      }
+      const { id, ...data } = decision;
+      // Firestore не принимает undefined — убираем такие поля
+      transaction.create(refs[index], JSON.parse(JSON.stringify(data)));
+      created.push(decision);
+    });
+    return created;
+  });
+}
+
+export async function updateMissedRunDecision(
+  userId: string,
+  channelId: string,
+  decisionId: string,
+  patch: Partial<Omit<MissedRunDecision, "id">>
+): Promise<void> {
+  await getMissedRunsCollection(userId, channelId)
+    .doc(decisionId)
+    .set(JSON.parse(JSON.stringify(patch)), { merge: true });
+}
+
+/**
+ * Последние решения по пропущенным слотам канала, новые первыми
+ */
+export async function listMissedRunDecisions(
+  userId: string,
+  channelId: string,
+  limit = 50
+): Promise<MissedRunDecision[]> {
+  const snapshot = await getMissedRunsCollection(userId, channelId)
+    .orderBy("slotAt", "desc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as MissedRunDecision);
+}
@@ -0,0 +1,113 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { PipelineRun, PipelineRunStatus } from "../types/pipelineRun";
+
+function getPipelineRunsCollection(userId: string, channelId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .collection("pipelineRuns");
+}
+
+function toPipelineRun(doc: FirebaseFirestore.DocumentSnapshot): PipelineRun {
+  return { id: doc.id, ...doc.data() } as PipelineRun;
+}
+
+/**
+ * Атомарно читает и обновляет прогон.
+ * mutator получает текущий прогон (или null, если его ещё нет) и возвращает новое состояние;
+ * если mutator вернул null — документ не меняется.
+ */
+export async function mutatePipelineRun(
+  userId: string,
+  channelId: string,
+  runId: string,
+  mutator: (current: PipelineRun | null) => PipelineRun | null
+): Promise<PipelineRun | null> {
+  const collection = getPipelineRunsCollection(userId, channelId);
+  const docRef = collection.doc(runId);
+
+  return collection.firestore.runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const next = mutator(doc.exists ? toPipelineRun(doc) : null);
+    if (!next) {
+      return null;
+    }
+    const { id: _id, ...data } = next;
+    // Firestore не принимает undefined — убираем такие поля
+    tx.set(docRef, JSON.parse(JSON.stringify(data)));
+    return next;
+  });
+}
+
+export async function getPipelineRun(
+  userId: string,
+  channelId: string,
+  runId: string
+): Promise<PipelineRun | null> {
+  const doc = await getPipelineRunsCollection(userId, channelId).doc(runId).get();
+  return doc.exists ? toPipelineRun(doc) : null;
+}
+
+/**
+ * Ищет прогон по ID файла в Google Drive (для этапов публикации и архивации).
+ * Файлы дополнительных вариантов видео ищутся по variantDriveFileIds.
+ */
+export async function findPipelineRunByDriveFileId(
+  userId: string,
+  channelId: string,
+  driveFileId: string
+): Promise<PipelineRun | null> {
+  const collection = getPipelineRunsCollection(userId, channelId);
+  const snapshot = await collection.where("driveFileId", "==", driveFileId).limit(1).get();
+  if (!snapshot.empty) {
+    return toPipelineRun(snapshot.docs[0]);
+  }
+  const variantSnapshot = await collection.where("variantDriveFileIds", "array-contains", driveFileId).limit(1).get();
+  return variantSnapshot.empty ? null : toPipelineRun(variantSnapshot.docs[0]);
+}
+
+/**
+ * Список прогонов канала, новые первыми
+ *
+ * ТРЕБУЕТСЯ ИНДЕКС В FIRESTORE (при фильтре по статусу):
+ * Collection: pipelineRuns
+ * Fields:
+ *   - status (Ascending)
+ *   - createdAt (Descending)
+ */
+export async function listPipelineRuns(
+  userId: string,
+  channelId: string,
+  options: { status?: PipelineRunStatus; limit?: number } = {}
+): Promise<PipelineRun[]> {
+  let query: FirebaseFirestore.Query = getPipelineRunsCollection(userId, channelId);
+  if (options.status) {
+    query = query.where("status", "==", options.status);
+  }
+  const snapshot = await query.orderBy("createdAt", "desc").limit(options.limit ?? 50).get();
+  return snapshot.docs.map(toPipelineRun);
+}
+
+/**
+ * Прогоны канала, созданные в полуинтервале [fromIso, toIso), по возрастанию (для календаря)
+ */
+export async function listPipelineRunsBetween(
+  userId: string,
+  channelId: string,
+  fromIso: string,
+  toIso: string,
+  limit = 500
+): Promise<PipelineRun[]> {
+  const snapshot = await getPipelineRunsCollection(userId, channelId)
+    .where("createdAt", ">=", fromIso)
+    .where("createdAt", "<", toIso)
+    .orderBy("createdAt", "asc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map(toPipelineRun);
+}
@@ -0,0 +1,35 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { PublishQueueEntry } from "../types/publishQueue";
+
+function getPublishQueueCollection(userId: string, channelId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .collection("publishQueue");
+}
+
+/**
+ * Очередь публикации канала, ближайшие слоты первыми
+ */
+export async function listPublishQueue(userId: string, channelId: string): Promise<PublishQueueEntry[]> {
+  const snapshot = await getPublishQueueCollection(userId, channelId).orderBy("scheduledAt", "asc").get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as PublishQueueEntry);
+}
+
+export async function savePublishQueueEntry(
+  userId: string,
+  channelId: string,
+  entry: PublishQueueEntry
+): Promise<void> {
+  const { id, ...data } = entry;
+  await getPublishQueueCollection(userId, channelId).doc(id).set(data);
+}
+
+export async function deletePublishQueueEntry(userId: string, channelId: string, fileId: string): Promise<void> {
+  await getPublishQueueCollection(userId, channelId).doc(fileId).delete();
+}
@@ -0,0 +1,82 @@
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import type { SecretAuditEntry, StoredSecret } from "../types/secret";
+
+function getUserDoc(userId: string) {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection("users").doc(userId);
+}
+
+export async function getStoredSecret(userId: string, secretId: string): Promise<StoredSecret | null> {
+  const doc = await getUserDoc(userId).collection("secrets").doc(secretId).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as StoredSecret) : null;
+}
+
+/**
+ * Секреты пользователя (уровня пользователя и всех каналов либо только одного канала)
+ */
+export async function listStoredSecrets(userId: string, channelId?: string): Promise<StoredSecret[]> {
+  const collection = getUserDoc(userId).collection("secrets");
+  const snapshot = channelId ? await collection.where("channelId", "==", channelId).get() : await collection.get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as StoredSecret);
+}
+
+/**
+ * Записывает секрет, сохраняя дату создания существующего
+ */
+export async function saveStoredSecret(
+  userId: string,
+  secret: Omit<StoredSecret, "createdAt" | "updatedAt">
+): Promise<StoredSecret> {
+  const ref = getUserDoc(userId).collection("secrets").doc(secret.id);
+  return ref.firestore.runTransaction(async (tx) => {
+    const existing = await tx.get(ref);
+    const now = new Date().toISOString();
+    const { id, ...data } = secret;
+    const stored: StoredSecret = {
+      id,
+      ...data,
+      createdAt: (existing.exists && (existing.data()?.createdAt as string)) || now,
+      updatedAt: now
+    };
+    tx.set(ref, { ...data, createdAt: stored.createdAt, updatedAt: stored.updatedAt });
+    return stored;
+  });
+}
+
+export async function deleteStoredSecret(userId: string, secretId: string): Promise<boolean> {
+  const ref = getUserDoc(userId).collection("secrets").doc(secretId);
+  const doc = await ref.get();
+  if (!doc.exists) {
+    return false;
+  }
+  await ref.delete();
+  return true;
+}
+
+export async function addSecretAuditEntry(userId: string, entry: Omit<SecretAuditEntry, "id">): Promise<void> {
+  // Firestore не принимает undefined — убираем такие поля
+  await getUserDoc(userId).collection("secretAudit").add(JSON.parse(JSON.stringify(entry)));
+}
+
+/**
+ * Журнал доступа к секретам, новые записи первыми
+ */
+export async function listSecretAuditEntries(
+  userId: string,
+  options: { channelId?: string; limit?: number } = {}
+): Promise<SecretAuditEntry[]> {
+  const collection = getUserDoc(userId).collection("secretAudit");
+  const limit = options.limit ?? 100;
+  if (options.channelId) {
+    // Фильтр по каналу без сортировки в запросе: не требуется составной индекс
+    const snapshot = await collection.where("channelId", "==", options.channelId).get();
+    return snapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as SecretAuditEntry)
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .slice(0, limit);
+  }
+  const snapshot = await collection.orderBy("at", "desc").limit(limit).get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SecretAuditEntry);
+}
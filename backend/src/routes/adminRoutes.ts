@@ -1,6 +1,8 @@
-import express from "express";
+import express, { type Request, type Response } from "express";
 import { authRequired } from "../middleware/auth";
 import { Logger } from "../utils/logger";
+import { describeKeyring } from "../crypto/aes";
+import { reencryptStoredSecrets } from "../services/cryptoRotation";
 
 // Проверяем, что пароль настроен при старте сервера
 if (!process.env.TELEGRAM_GLOBAL_SWITCH_PASSWORD) {
@@ -68,5 +70,58 @@ router.post("/telegram-global/verify", authRequired, async (req, res) => {
   }
 });
 
+/**
+ * Проверяет заголовок x-admin-secret. Отправляет ошибку и возвращает false, если доступ запрещён.
+ */
+function verifyAdminSecret(req: Request, res: Response, endpoint: string): boolean {
+  const expected = process.env.ADMIN_API_SECRET;
+  if (!expected) {
+    Logger.warn(`ADMIN_API_SECRET is not configured, ${endpoint} endpoint is disabled`);
+    res.status(500).json({ success: false, error: "CONFIGURATION_ERROR", message: "ADMIN_API_SECRET не настроен" });
+    return false;
+  }
+  if (req.headers["x-admin-secret"] !== expected) {
+    Logger.warn(`Unauthorized access attempt to /api/admin/${endpoint}`);
+    res.status(403).json({ success: false, error: "FORBIDDEN", message: "Доступ запрещён" });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * GET /api/admin/crypto/keys
+ * Id ключей шифрования и активный ключ (без самих ключей)
+ */
+router.get("/crypto/keys", (req, res) => {
+  if (!verifyAdminSecret(req, res, "crypto/keys")) {
+    return;
+  }
+  res.json({ success: true, ...describeKeyring() });
+});
+
+/**
+ * POST /api/admin/crypto/reencrypt
+ * Перешифровывает Telegram-сессии, секреты и настройки пользователей активным ключом.
+ * Body: { dryRun?: boolean } — при dryRun только считает, что будет перешифровано.
+ */
+router.post("/crypto/reencrypt", async (req, res) => {
+  if (!verifyAdminSecret(req, res, "crypto/reencrypt")) {
+    return;
+  }
+
+  try {
+    const report = await reencryptStoredSecrets({ dryRun: req.body?.dryRun === true });
+    const failed = Object.values(report.sources).reduce((sum, source) => sum + source.failed, 0);
+    return res.json({ success: failed === 0, report });
+  } catch (error: any) {
+    Logger.error("Failed to re-encrypt stored secrets", error);
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при перешифровке"
+    });
+  }
+});
+
 export default router;
 
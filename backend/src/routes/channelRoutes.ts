@@ -1,13 +1,63 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { randomUUID } from "crypto";
+import * as admin from "firebase-admin";
 import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
 import { Logger } from "../utils/logger";
 import { authRequired } from "../middleware/auth";
 import { runVideoGenerationForChannel } from "../services/videoGenerationService";
-import type { Channel } from "../types/channel";
+import type { Channel, ChannelScheduleConstraints } from "../types/channel";
+import type { PipelineRunStatus, PipelineVariantSelection } from "../types/pipelineRun";
+import { getLocalDateInTimezone, getScheduleTimesForDate, type ScheduleRule } from "../utils/scheduleRules";
+import { findBlackoutForDate, type BlackoutPeriod } from "../utils/blackoutPeriods";
+import {
+  DEFAULT_REFERENCE_TIMEZONE,
+  DEFAULT_SCHEDULE_CONFLICT_POLICY,
+  findNearestFreeTime,
+  findScheduleConflicts,
+  isValidTimezone,
+  type ScheduleConflictPolicy,
+  type SchedulePoint
+} from "../utils/scheduleConflicts";
+import {
+  getPipelineRun,
+  listPipelineRuns,
+  listPipelineRunsBetween,
+  mutatePipelineRun
+} from "../repositories/pipelineRunRepo";
+import { validateVariantSelection } from "../utils/videoVariants";
+import {
+  CHANNEL_COPY_PARTS,
+  getUniqueChannelName,
+  pickChannelParts,
+  validateChannelCopyParts,
+  type ChannelCopyPart
+} from "../utils/channelCopy";
+import {
+  CHANNEL_IMPORT_STRATEGIES,
+  DEFAULT_IMPORT_STRATEGY,
+  SUPPORTED_IMPORT_VERSIONS,
+  planChannelImport,
+  type ChannelImportPlanItem,
+  type ChannelImportStrategy
+} from "../utils/channelImport";
+import { listMissedRunDecisions } from "../repositories/missedRunDecisionRepo";
+import { sanitizeAutoSendSchedules } from "../utils/autoSendSchedules";
+import {
+  MAX_CALENDAR_RANGE_DAYS,
+  ScheduleSlotMoveError,
+  applyScheduleSlotMove,
+  projectScheduleSlots,
+  toCalendarRun,
+  type ScheduleSlotMove
+} from "../utils/scheduleCalendar";
+import { chatCompletion } from "../services/llm/llmClient";
+import { LlmError, type LlmChatRequest } from "../services/llm/types";
 
 const router = Router();
 
+// Максимум времён классических расписаний канала
+const MAX_SCHEDULE_SLOTS = 10;
+
 // Типы для расписания
 interface ChannelAutoSendSchedule {
   id: string;
@@ -16,6 +66,9 @@ interface ChannelAutoSendSchedule {
   time: string; // "HH:MM"
   promptsPerRun: number;
   lastRunAt?: string | null;
+  rule?: ScheduleRule | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
 }
 
 interface ChannelScheduleItem {
@@ -25,6 +78,16 @@ interface ChannelScheduleItem {
   times: string[];
   platform: string;
   isAutomationEnabled: boolean;
+  timezone: string; // часовой пояс канала, в котором заданы times
+  // Времена классических расписаний (daysOfWeek + time) — только их можно менять через PATCH /:id/schedule
+  manualTimes?: string[];
+  // Расписания с правилами (cron/интервал/даты): их времена на сегодня входят в times,
+  // но редактировать их можно только в настройках канала
+  ruleSchedules?: Array<{ id: string; rule: ScheduleRule; validFrom?: string | null; validUntil?: string | null; todayTimes: string[] }>;
+  // Блокировка (пользователя или канала), действующая сегодня в часовом поясе канала
+  blackoutToday?: { id: string; label: string; scope: "user" | "channel" } | null;
+  // Окна и закреплённые времена канала для оптимизатора расписания
+  constraints?: ChannelScheduleConstraints | null;
 }
 
 /**
@@ -97,23 +160,12 @@ router.patch("/reorder", authRequired, async (req, res) => {
  */
 /**
  * POST /api/channels/suggest-niche
- * Генерирует нишу для канала через OpenAI на основе контекста мастера
+ * Генерирует нишу для канала через LLM на основе контекста мастера
  */
 router.post("/suggest-niche", authRequired, async (req, res) => {
   try {
     const { channelName, language, targetAudience, tone, platform } = req.body;
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        success: false,
-        error: "OPENAI_NOT_CONFIGURED",
-        message: "OpenAI API ключ не настроен на сервере"
-      });
-    }
-
-    const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-
     // Формируем промпт для генерации ниши
     let contextPrompt = "Предложи одну краткую нишу/тематику канала (2–6 слов) на том же языке, что и название канала.\n\n";
     
@@ -138,8 +190,7 @@ router.post("/suggest-niche", authRequired, async (req, res) => {
 
     const systemPrompt = `Ты — помощник по запуску контент-каналов. Твоя задача — предложить подходящую нишу для канала на основе предоставленных данных.`;
 
-    const requestBody = {
-      model,
+    const request: LlmChatRequest = {
       messages: [
         {
           role: "system",
@@ -151,36 +202,15 @@ router.post("/suggest-niche", authRequired, async (req, res) => {
         }
       ],
       temperature: 0.7,
-      max_tokens: 50
+      maxTokens: 50
     };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim();
+      const result = await chatCompletion(request, { purpose: "suggest_niche", userId: req.user!.uid });
+      const content = result.content.trim();
 
       if (!content) {
-        throw new Error("Пустой ответ от OpenAI API");
+        throw new Error("Пустой ответ от LLM");
       }
 
       // Очищаем ответ от кавычек и лишних символов
@@ -188,7 +218,7 @@ router.post("/suggest-niche", authRequired, async (req, res) => {
 
       Logger.info("suggest-niche success", {
         userId: req.user!.uid,
-        tokensUsed: data.usage?.total_tokens
+        tokensUsed: result.usage.totalTokens
       });
 
       return res.json({
@@ -196,23 +226,21 @@ router.post("/suggest-niche", authRequired, async (req, res) => {
         niche
       });
     } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === "AbortError") {
+      if (error instanceof LlmError && error.code === "TIMEOUT") {
         return res.status(504).json({
           success: false,
           error: "TIMEOUT",
-          message: "Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз."
+          message: `${error.message}. Попробуйте ещё раз.`
         });
       }
 
       Logger.error("suggest-niche error", error);
 
       if (error instanceof Error) {
-        return res.status(500).json({
+        return res.status(error instanceof LlmError ? error.status : 500).json({
           success: false,
-          error: "OPENAI_ERROR",
-          message: error.message || "Ошибка при обращении к OpenAI"
+          error: error instanceof LlmError ? error.code : "LLM_ERROR",
+          message: error.message || "Ошибка при обращении к LLM"
         });
       }
 
@@ -234,23 +262,12 @@ router.post("/suggest-niche", authRequired, async (req, res) => {
 
 /**
  * POST /api/channels/suggest-target-audience
- * Генерирует описание целевой аудитории для канала через OpenAI на основе контекста мастера
+ * Генерирует описание целевой аудитории для канала через LLM на основе контекста мастера
  */
 router.post("/suggest-target-audience", authRequired, async (req, res) => {
   try {
     const { channelName, platform, language, niche, videoDuration, tone, additionalNotes } = req.body;
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        success: false,
-        error: "OPENAI_NOT_CONFIGURED",
-        message: "OpenAI API ключ не настроен на сервере"
-      });
-    }
-
-    const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-
     // Формируем промпт для генерации целевой аудитории
     let contextPrompt = "Ты — маркетолог и контент-стратег. Нужно кратко описать целевую аудиторию для нового канала.\n\n";
     contextPrompt += "Данные канала:\n";
@@ -286,8 +303,7 @@ router.post("/suggest-target-audience", authRequired, async (req, res) => {
 
     const systemPrompt = `Ты — маркетолог и контент-стратег. Твоя задача — предложить точное описание целевой аудитории для канала на основе предоставленных данных.`;
 
-    const requestBody = {
-      model,
+    const request: LlmChatRequest = {
       messages: [
         {
           role: "system",
@@ -299,36 +315,15 @@ router.post("/suggest-target-audience", authRequired, async (req, res) => {
         }
       ],
       temperature: 0.7,
-      max_tokens: 100
+      maxTokens: 100
     };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim();
+      const result = await chatCompletion(request, { purpose: "suggest_target_audience", userId: req.user!.uid });
+      const content = result.content.trim();
 
       if (!content) {
-        throw new Error("Пустой ответ от OpenAI API");
+        throw new Error("Пустой ответ от LLM");
       }
 
       // Очищаем ответ от кавычек и лишних символов
@@ -336,7 +331,7 @@ router.post("/suggest-target-audience", authRequired, async (req, res) => {
 
       Logger.info("suggest-target-audience success", {
         userId: req.user!.uid,
-        tokensUsed: data.usage?.total_tokens
+        tokensUsed: result.usage.totalTokens
       });
 
       return res.json({
@@ -344,23 +339,21 @@ router.post("/suggest-target-audience", authRequired, async (req, res) => {
         targetAudience
       });
     } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === "AbortError") {
+      if (error instanceof LlmError && error.code === "TIMEOUT") {
         return res.status(504).json({
           success: false,
           error: "TIMEOUT",
-          message: "Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз."
+          message: `${error.message}. Попробуйте ещё раз.`
         });
       }
 
       Logger.error("suggest-target-audience error", error);
 
       if (error instanceof Error) {
-        return res.status(500).json({
+        return res.status(error instanceof LlmError ? error.status : 500).json({
           success: false,
-          error: "OPENAI_ERROR",
-          message: error.message || "Ошибка при обращении к OpenAI"
+          error: error instanceof LlmError ? error.code : "LLM_ERROR",
+          message: error.message || "Ошибка при обращении к LLM"
         });
       }
 
@@ -382,23 +375,12 @@ router.post("/suggest-target-audience", authRequired, async (req, res) => {
 
 /**
  * POST /api/channels/suggest-forbidden-topics
- * Генерирует список запрещённых тем для канала через OpenAI на основе контекста мастера
+ * Генерирует список запрещённых тем для канала через LLM на основе контекста мастера
  */
 router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
   try {
     const { channelName, platform, language, niche, targetAudience, tone, additionalNotes } = req.body;
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        success: false,
-        error: "OPENAI_NOT_CONFIGURED",
-        message: "OpenAI API ключ не настроен на сервере"
-      });
-    }
-
-    const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-
     // Формируем промпт для генерации запрещённых тем
     let contextPrompt = "Ты — редактор по контент-безопасности. Мы создаём канал с такими параметрами:\n\n";
     
@@ -432,8 +414,7 @@ router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
 
     const systemPrompt = `Ты — редактор по контент-безопасности. Твоя задача — предложить список запрещённых тем для канала на основе его параметров, чтобы обеспечить безопасность контента и соответствие правилам платформ.`;
 
-    const requestBody = {
-      model,
+    const request: LlmChatRequest = {
       messages: [
         {
           role: "system",
@@ -445,36 +426,15 @@ router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
         }
       ],
       temperature: 0.5,
-      max_tokens: 150
+      maxTokens: 150
     };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim();
+      const result = await chatCompletion(request, { purpose: "suggest_forbidden_topics", userId: req.user!.uid });
+      const content = result.content.trim();
 
       if (!content) {
-        throw new Error("Пустой ответ от OpenAI API");
+        throw new Error("Пустой ответ от LLM");
       }
 
       // Очищаем ответ от кавычек и лишних символов
@@ -482,7 +442,7 @@ router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
 
       Logger.info("suggest-forbidden-topics success", {
         userId: req.user!.uid,
-        tokensUsed: data.usage?.total_tokens
+        tokensUsed: result.usage.totalTokens
       });
 
       return res.json({
@@ -490,23 +450,21 @@ router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
         forbiddenTopics
       });
     } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === "AbortError") {
+      if (error instanceof LlmError && error.code === "TIMEOUT") {
         return res.status(504).json({
           success: false,
           error: "TIMEOUT",
-          message: "Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз."
+          message: `${error.message}. Попробуйте ещё раз.`
         });
       }
 
       Logger.error("suggest-forbidden-topics error", error);
 
       if (error instanceof Error) {
-        return res.status(500).json({
+        return res.status(error instanceof LlmError ? error.status : 500).json({
           success: false,
-          error: "OPENAI_ERROR",
-          message: error.message || "Ошибка при обращении к OpenAI"
+          error: error instanceof LlmError ? error.code : "LLM_ERROR",
+          message: error.message || "Ошибка при обращении к LLM"
         });
       }
 
@@ -528,7 +486,7 @@ router.post("/suggest-forbidden-topics", authRequired, async (req, res) => {
 
 /**
  * POST /api/channels/suggest-additional-preferences
- * Генерирует дополнительные пожелания для канала через OpenAI на основе контекста мастера
+ * Генерирует дополнительные пожелания для канала через LLM на основе контекста мастера
  */
 router.post("/suggest-additional-preferences", authRequired, async (req, res) => {
   try {
@@ -545,17 +503,6 @@ router.post("/suggest-additional-preferences", authRequired, async (req, res) =>
       otherNotes 
     } = req.body;
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        success: false,
-        error: "OPENAI_NOT_CONFIGURED",
-        message: "OpenAI API ключ не настроен на сервере"
-      });
-    }
-
-    const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-
     // Формируем промпт для генерации дополнительных пожеланий
     let contextPrompt = "Ты — помощник по настройке контент-каналов. Нужно составить дополнительные пожелания для генерации сценариев/видео.\n\n";
     contextPrompt += "Данные канала:\n";
@@ -602,8 +549,7 @@ router.post("/suggest-additional-preferences", authRequired, async (req, res) =>
 
     const systemPrompt = `Ты — помощник по настройке контент-каналов. Твоя задача — предложить дополнительные пожелания для генерации сценариев и видео на основе параметров канала.`;
 
-    const requestBody = {
-      model,
+    const request: LlmChatRequest = {
       messages: [
         {
           role: "system",
@@ -615,36 +561,15 @@ router.post("/suggest-additional-preferences", authRequired, async (req, res) =>
         }
       ],
       temperature: 0.7,
-      max_tokens: 300
+      maxTokens: 300
     };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim();
+      const result = await chatCompletion(request, { purpose: "suggest_additional_preferences", userId: req.user!.uid });
+      const content = result.content.trim();
 
       if (!content) {
-        throw new Error("Пустой ответ от OpenAI API");
+        throw new Error("Пустой ответ от LLM");
       }
 
       // Очищаем ответ от кавычек и лишних символов
@@ -652,7 +577,7 @@ router.post("/suggest-additional-preferences", authRequired, async (req, res) =>
 
       Logger.info("suggest-additional-preferences success", {
         userId: req.user!.uid,
-        tokensUsed: data.usage?.total_tokens
+        tokensUsed: result.usage.totalTokens
       });
 
       return res.json({
@@ -660,23 +585,21 @@ router.post("/suggest-additional-preferences", authRequired, async (req, res) =>
         additionalPreferences
       });
     } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === "AbortError") {
+      if (error instanceof LlmError && error.code === "TIMEOUT") {
         return res.status(504).json({
           success: false,
           error: "TIMEOUT",
-          message: "Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз."
+          message: `${error.message}. Попробуйте ещё раз.`
         });
       }
 
       Logger.error("suggest-additional-preferences error", error);
 
       if (error instanceof Error) {
-        return res.status(500).json({
+        return res.status(error instanceof LlmError ? error.status : 500).json({
           success: false,
-          error: "OPENAI_ERROR",
-          message: error.message || "Ошибка при обращении к OpenAI"
+          error: error instanceof LlmError ? error.code : "LLM_ERROR",
+          message: error.message || "Ошибка при обращении к LLM"
         });
       }
 
@@ -710,6 +633,10 @@ router.get("/schedule", authRequired, async (req, res) => {
     // Получаем все каналы пользователя
     const channelsRef = db.collection("users").doc(userId).collection("channels");
     const channelsSnapshot = await channelsRef.get();
+
+    // Блокировки уровня пользователя хранятся в настройках расписания
+    const scheduleSettingsSnap = await db.collection("users").doc(userId).collection("settings").doc("schedule").get();
+    const userBlackouts = (scheduleSettingsSnap.data()?.blackoutPeriods || []) as BlackoutPeriod[];
     
     const PLATFORM_NAMES: Record<string, string> = {
       YOUTUBE_SHORTS: "YouTube Shorts",
@@ -722,20 +649,46 @@ router.get("/schedule", authRequired, async (req, res) => {
       .map((doc, index) => {
         const channelData = doc.data() as any;
         const autoSendSchedules = (channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[];
+        const today = getLocalDateInTimezone(new Date(), channelData.timezone || "UTC");
+        const userBlackout = findBlackoutForDate(userBlackouts, today);
+        const channelBlackout = userBlackout ? null : findBlackoutForDate(channelData.blackoutPeriods, today);
+        const blackout = userBlackout || channelBlackout;
         
         // Извлекаем времена из включенных расписаний
-        const times = autoSendSchedules
-          .filter((schedule) => schedule.enabled && schedule.time)
+        const manualTimes = autoSendSchedules
+          .filter((schedule) => schedule.enabled && schedule.time && !schedule.rule)
           .map((schedule) => schedule.time)
-          .sort(); // Сортируем по времени
+          .sort();
+        const times = [...manualTimes];
+
+        // Для расписаний с правилами берём времена срабатывания на сегодня в часовом поясе канала
+        const ruleSchedules = autoSendSchedules
+          .filter((schedule) => schedule.enabled && schedule.rule)
+          .map((schedule) => ({
+            id: schedule.id,
+            rule: schedule.rule!,
+            validFrom: schedule.validFrom ?? null,
+            validUntil: schedule.validUntil ?? null,
+            todayTimes: getScheduleTimesForDate(schedule, today)
+          }));
+        for (const ruleSchedule of ruleSchedules) {
+          times.push(...ruleSchedule.todayTimes);
+        }
 
         return {
           id: doc.id,
           index: index + 1,
           name: channelData.name || "Без названия",
-          times: times,
+          times: Array.from(new Set(times)).sort(), // Сортируем по времени
           platform: PLATFORM_NAMES[channelData.platform] || channelData.platform || "Не указано",
-          isAutomationEnabled: channelData.autoSendEnabled === true
+          isAutomationEnabled: channelData.autoSendEnabled === true,
+          timezone: channelData.timezone || "UTC",
+          manualTimes,
+          ruleSchedules,
+          constraints: channelData.scheduleConstraints ?? null,
+          blackoutToday: blackout
+            ? { id: blackout.id, label: blackout.label, scope: userBlackout ? ("user" as const) : ("channel" as const) }
+            : null
         };
       })
       // Сортируем по orderIndex, если есть
@@ -767,10 +720,103 @@ router.get("/schedule", authRequired, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/channels/calendar
+ * Календарь публикаций всех каналов: будущие слоты расписаний и прошедшие прогоны
+ * Query: ?from=ISO&to=ISO (не больше MAX_CALENDAR_RANGE_DAYS дней)
+ */
+router.get("/calendar", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  const from = new Date(String(req.query.from ?? ""));
+  const to = new Date(String(req.query.to ?? ""));
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: "Укажите корректный диапазон from и to (ISO-даты)"
+    });
+  }
+  if (to.getTime() - from.getTime() > MAX_CALENDAR_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: `Диапазон календаря не может превышать ${MAX_CALENDAR_RANGE_DAYS} дней`
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const now = new Date();
+
+    const channelsSnapshot = await db.collection("users").doc(userId).collection("channels").get();
+    const scheduleSettingsSnap = await db.collection("users").doc(userId).collection("settings").doc("schedule").get();
+    const scheduleSettings = scheduleSettingsSnap.data() || {};
+    const userBlackouts = (scheduleSettings.blackoutPeriods || []) as BlackoutPeriod[];
+
+    const channels = await Promise.all(
+      channelsSnapshot.docs.map(async (doc) => {
+        const channelData = doc.data() as any;
+        const timezone: string = channelData.timezone || "UTC";
+        const schedules = (channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[];
+
+        // Будущее — проекция расписаний, прошлое — фактические прогоны
+        const slots =
+          to > now
+            ? projectScheduleSlots(schedules, from > now ? from : now, to, timezone, [
+                ...userBlackouts,
+                ...((channelData.blackoutPeriods || []) as BlackoutPeriod[])
+              ])
+            : [];
+        const runs =
+          from < now
+            ? (await listPipelineRunsBetween(userId, doc.id, from.toISOString(), (to < now ? to : now).toISOString()))
+                .map((run) => toCalendarRun(run, timezone))
+            : [];
+
+        return {
+          id: doc.id,
+          name: channelData.name || "Без названия",
+          platform: channelData.platform || null,
+          timezone,
+          orderIndex: channelData.orderIndex ?? null,
+          isAutomationEnabled: channelData.autoSendEnabled === true,
+          slots,
+          runs
+        };
+      })
+    );
+
+    channels.sort((a, b) => (a.orderIndex ?? Number.MAX_SAFE_INTEGER) - (b.orderIndex ?? Number.MAX_SAFE_INTEGER));
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      isAutomationPaused: scheduleSettings.isAutomationPaused === true,
+      channels
+    });
+  } catch (error: any) {
+    Logger.error("Failed to fetch schedule calendar", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при получении календаря публикаций"
+    });
+  }
+});
+
 /**
  * PATCH /api/channels/:id/schedule
  * Обновляет расписание канала (только времена)
  * Body: { times: string[] } - массив времён в формате "HH:MM"
+ *   или { move: { scheduleId, fromDate, toDate, time } } — перенос одного слота из календаря
+ *   или { schedules: ChannelAutoSendSchedule[], shiftConflicts?: boolean } — все расписания канала
+ *   целиком (редактор канала и мастер); shiftConflicts сдвигает конфликтующие времена независимо от политики
+ * Новые времена, стоящие ближе минимального интервала к другим публикациям (в опорном часовом поясе),
+ * по политике conflictPolicy из настроек расписания отклоняются с 409 или сдвигаются на ближайшее
+ * свободное время — сдвиги возвращаются в shiftedTimes
  */
 router.patch("/:id/schedule", authRequired, async (req, res) => {
   if (!isFirestoreAvailable() || !db) {
@@ -783,7 +829,19 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
   try {
     const userId = req.user!.uid;
     const channelId = req.params.id;
-    const { times } = req.body;
+    const { times, move, schedules, shiftConflicts } = req.body as {
+      times?: unknown;
+      move?: ScheduleSlotMove;
+      schedules?: unknown;
+      shiftConflicts?: boolean;
+    };
+
+    if (move) {
+      return await moveScheduleSlot(req, res, userId, channelId, move, MAX_SCHEDULE_SLOTS);
+    }
+    if (schedules !== undefined) {
+      return await replaceSchedules(res, userId, channelId, schedules, shiftConflicts === true, MAX_SCHEDULE_SLOTS);
+    }
 
     if (!Array.isArray(times)) {
       return res.status(400).json({
@@ -793,7 +851,6 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
     }
 
     // Валидация и нормализация времён
-    const MAX_SLOTS = 10;
     const validatedTimes: string[] = [];
     const seen = new Set<string>();
 
@@ -826,10 +883,10 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
     }
 
     // Проверка лимита
-    if (validatedTimes.length > MAX_SLOTS) {
+    if (validatedTimes.length > MAX_SCHEDULE_SLOTS) {
       return res.status(400).json({
         error: "Too many time slots",
-        message: `Максимальное количество слотов: ${MAX_SLOTS}`
+        message: `Максимальное количество слотов: ${MAX_SCHEDULE_SLOTS}`
       });
     }
 
@@ -850,15 +907,24 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
     const channelData = channelDoc.data() as any;
     const existingSchedules = (channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[];
 
+    const resolved = await resolveNewScheduleTimes(userId, channelId, channelData, validatedTimes);
+    if ("error" in resolved) {
+      return res.status(409).json({
+        error: "Schedule conflict",
+        message: resolved.error
+      });
+    }
+
     // Обновляем расписания: обновляем времена в существующих включённых расписаниях
     // или создаём новые, если времён больше чем расписаний
     const updatedSchedules: ChannelAutoSendSchedule[] = [];
     
-    // Сначала обновляем существующие включённые расписания
-    const enabledSchedules = existingSchedules.filter(s => s.enabled);
-    const disabledSchedules = existingSchedules.filter(s => !s.enabled);
+    // Сначала обновляем существующие включённые расписания.
+    // Расписания с правилами (cron/интервал/даты) здесь не редактируются и сохраняются как есть
+    const enabledSchedules = existingSchedules.filter(s => s.enabled && !s.rule);
+    const disabledSchedules = existingSchedules.filter(s => !s.enabled || s.rule);
     
-    validatedTimes.forEach((time, index) => {
+    resolved.times.forEach((time, index) => {
       if (index < enabledSchedules.length) {
         // Обновляем существующее расписание
         updatedSchedules.push({
@@ -889,23 +955,14 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
     Logger.info("Channel schedule updated", {
       userId,
       channelId,
-      timesCount: validatedTimes.length
+      timesCount: resolved.times.length,
+      shiftedTimes: resolved.shifted
     });
 
     // Возвращаем обновлённое расписание в формате для таблицы
-    const PLATFORM_NAMES: Record<string, string> = {
-      YOUTUBE_SHORTS: "YouTube Shorts",
-      TIKTOK: "TikTok",
-      INSTAGRAM_REELS: "Instagram Reels",
-      VK_CLIPS: "VK Клипы"
-    };
-
     res.json({
-      id: channelId,
-      name: channelData.name || "Без названия",
-      times: validatedTimes,
-      platform: PLATFORM_NAMES[channelData.platform] || channelData.platform || "Не указано",
-      isAutomationEnabled: channelData.autoSendEnabled === true
+      ...buildScheduleItemResponse(channelId, channelData, updatedSchedules),
+      shiftedTimes: resolved.shifted
     });
   } catch (error: any) {
     Logger.error("Failed to update channel schedule", error);
@@ -916,6 +973,409 @@ router.patch("/:id/schedule", authRequired, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/channels/schedule
+ * Переносит слоты нескольких каналов одной пакетной записью (применение оптимизатора расписания).
+ * Body: { changes: [{ channelId: string, moves: [{ from: "HH:MM", to: "HH:MM" }] }] }
+ * Переносится время классических расписаний канала с временем from, их дни недели сохраняются.
+ * Новые времена проверяются по минимальному интервалу так же, как в PATCH /:id/schedule,
+ * с учётом остальных изменений пакета; при конфликте ничего не записывается.
+ */
+router.patch("/schedule", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const changes = (req.body?.changes ?? null) as Array<{ channelId: string; moves: Array<{ from: string; to: string }> }> | null;
+    const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: "changes должен быть непустым массивом"
+      });
+    }
+    const channelIds = new Set<string>();
+    for (const change of changes) {
+      if (!change || typeof change.channelId !== "string" || !Array.isArray(change.moves)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: "Каждое изменение должно содержать channelId и moves"
+        });
+      }
+      if (channelIds.has(change.channelId)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: `Канал ${change.channelId} указан в changes больше одного раза`
+        });
+      }
+      channelIds.add(change.channelId);
+      const invalid = change.moves.find((move) => !TIME_PATTERN.test(move?.from) || !TIME_PATTERN.test(move?.to));
+      if (invalid) {
+        return res.status(400).json({
+          error: "Invalid time format",
+          message: `Неверное время переноса в канале ${change.channelId}. Используйте формат HH:MM`
+        });
+      }
+    }
+
+    const channelsRef = db.collection("users").doc(userId).collection("channels");
+    const docs = await Promise.all(changes.map((change) => channelsRef.doc(change.channelId).get()));
+    const missing = docs.find((doc) => !doc.exists);
+    if (missing) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: `Канал ${missing.id} не найден`
+      });
+    }
+
+    // Сначала применяем все переносы, чтобы каждый канал проверялся против нового расписания остальных
+    const pending = new Map<string, any>();
+    changes.forEach((change, index) => {
+      const channelData = docs[index].data() as any;
+      const schedules = (channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[];
+      const updatedSchedules = schedules.map((schedule) => {
+        const move = schedule.enabled && !schedule.rule ? change.moves.find((m) => m.from === schedule.time) : undefined;
+        return move ? { ...schedule, time: move.to } : schedule;
+      });
+      pending.set(change.channelId, { ...channelData, autoSendSchedules: updatedSchedules });
+    });
+
+    const batch = db.batch();
+    const now = new Date();
+    const items = [];
+    for (const [index, change] of changes.entries()) {
+      const channelData = docs[index].data() as any;
+      const proposed = pending.get(change.channelId).autoSendSchedules as ChannelAutoSendSchedule[];
+      const newTimes = buildScheduleItemResponse(change.channelId, channelData, proposed).manualTimes;
+      const resolved = await resolveNewScheduleTimes(userId, change.channelId, channelData, newTimes, pending);
+      if ("error" in resolved) {
+        return res.status(409).json({
+          error: "Schedule conflict",
+          message: `Канал «${channelData.name || change.channelId}»: ${resolved.error}`
+        });
+      }
+
+      const updatedSchedules = applyShiftedTimes(proposed, resolved.shifted);
+      pending.set(change.channelId, { ...channelData, autoSendSchedules: updatedSchedules });
+      batch.update(docs[index].ref, { autoSendSchedules: updatedSchedules, updatedAt: now });
+      items.push({
+        ...buildScheduleItemResponse(change.channelId, channelData, updatedSchedules),
+        shiftedTimes: resolved.shifted
+      });
+    }
+    await batch.commit();
+
+    Logger.info("Channel schedules updated in batch", {
+      userId,
+      channelCount: changes.length,
+      movesCount: changes.reduce((sum, change) => sum + change.moves.length, 0)
+    });
+
+    res.json(items);
+  } catch (error: any) {
+    Logger.error("Failed to update channel schedules in batch", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при пакетном обновлении расписаний"
+    });
+  }
+});
+
+/**
+ * Перенос одного слота недельного расписания (перетаскивание в календаре)
+ */
+async function moveScheduleSlot(
+  req: Request,
+  res: Response,
+  userId: string,
+  channelId: string,
+  move: ScheduleSlotMove,
+  maxSlots: number
+) {
+  const channelRef = db!.collection("users").doc(userId).collection("channels").doc(channelId);
+  const channelDoc = await channelRef.get();
+
+  if (!channelDoc.exists) {
+    return res.status(404).json({
+      error: "Channel not found",
+      message: "Канал не найден"
+    });
+  }
+
+  const channelData = channelDoc.data() as any;
+  const existingSchedules = (channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[];
+
+  let updatedSchedules: ChannelAutoSendSchedule[];
+  try {
+    updatedSchedules = applyScheduleSlotMove(existingSchedules, move);
+  } catch (error) {
+    if (error instanceof ScheduleSlotMoveError) {
+      return res.status(400).json({
+        error: "Invalid move",
+        message: error.message
+      });
+    }
+    throw error;
+  }
+
+  if (updatedSchedules.filter((s) => s.enabled && !s.rule).length > maxSlots) {
+    return res.status(400).json({
+      error: "Too many time slots",
+      message: `Максимальное количество слотов: ${maxSlots}`
+    });
+  }
+
+  const newTimes = buildScheduleItemResponse(channelId, channelData, updatedSchedules).manualTimes;
+  const resolved = await resolveNewScheduleTimes(userId, channelId, channelData, newTimes);
+  if ("error" in resolved) {
+    return res.status(409).json({
+      error: "Schedule conflict",
+      message: resolved.error
+    });
+  }
+  updatedSchedules = applyShiftedTimes(updatedSchedules, resolved.shifted);
+
+  await channelRef.update({
+    autoSendSchedules: JSON.parse(JSON.stringify(updatedSchedules)),
+    updatedAt: new Date()
+  });
+
+  Logger.info("Channel schedule slot moved", {
+    userId: req.user!.uid,
+    channelId,
+    scheduleId: move.scheduleId,
+    fromDate: move.fromDate,
+    toDate: move.toDate,
+    time: move.time,
+    shiftedTimes: resolved.shifted
+  });
+
+  return res.json({
+    ...buildScheduleItemResponse(channelId, channelData, updatedSchedules),
+    shiftedTimes: resolved.shifted
+  });
+}
+
+/**
+ * Замена всех расписаний канала: правила и формат проверяются, новые времена классических
+ * расписаний проходят проверку минимального интервала, lastRunAt сохраняется из текущих данных
+ */
+async function replaceSchedules(
+  res: Response,
+  userId: string,
+  channelId: string,
+  schedules: unknown,
+  shiftConflicts: boolean,
+  maxSlots: number
+) {
+  const sanitized = sanitizeAutoSendSchedules(schedules);
+  if ("error" in sanitized) {
+    return res.status(400).json({
+      error: "Invalid schedules",
+      message: sanitized.error
+    });
+  }
+
+  const channelRef = db!.collection("users").doc(userId).collection("channels").doc(channelId);
+  const channelDoc = await channelRef.get();
+  if (!channelDoc.exists) {
+    return res.status(404).json({
+      error: "Channel not found",
+      message: "Канал не найден"
+    });
+  }
+
+  const channelData = channelDoc.data() as any;
+  const lastRuns = new Map(
+    ((channelData.autoSendSchedules || []) as ChannelAutoSendSchedule[]).map((s) => [s.id, s.lastRunAt ?? null])
+  );
+  let updatedSchedules: ChannelAutoSendSchedule[] = sanitized.schedules.map((schedule) => ({
+    ...schedule,
+    lastRunAt: lastRuns.get(schedule.id) ?? null
+  }));
+
+  const newTimes = buildScheduleItemResponse(channelId, channelData, updatedSchedules).manualTimes;
+  if (newTimes.length > maxSlots) {
+    return res.status(400).json({
+      error: "Too many time slots",
+      message: `Максимальное количество слотов: ${maxSlots}`
+    });
+  }
+
+  const resolved = await resolveNewScheduleTimes(
+    userId,
+    channelId,
+    channelData,
+    newTimes,
+    new Map(),
+    shiftConflicts ? "shift" : undefined
+  );
+  if ("error" in resolved) {
+    return res.status(409).json({
+      error: "Schedule conflict",
+      message: resolved.error
+    });
+  }
+  updatedSchedules = applyShiftedTimes(updatedSchedules, resolved.shifted);
+
+  await channelRef.update({
+    autoSendSchedules: JSON.parse(JSON.stringify(updatedSchedules)),
+    updatedAt: new Date()
+  });
+
+  Logger.info("Channel schedules replaced", {
+    userId,
+    channelId,
+    schedulesCount: updatedSchedules.length,
+    shiftedTimes: resolved.shifted
+  });
+
+  return res.json({
+    ...buildScheduleItemResponse(channelId, channelData, updatedSchedules),
+    schedules: updatedSchedules,
+    shiftedTimes: resolved.shifted
+  });
+}
+
+/**
+ * Переносит сдвинутые проверкой интервала времена в классические расписания.
+ * Сдвигаются только новые времена, поэтому прежние расписания с тем же временем не затрагиваются.
+ */
+function applyShiftedTimes(
+  schedules: ChannelAutoSendSchedule[],
+  shifted: Array<{ from: string; to: string }>
+): ChannelAutoSendSchedule[] {
+  return schedules.map((schedule) => {
+    const shift = schedule.enabled && !schedule.rule ? shifted.find(({ from }) => from === schedule.time) : undefined;
+    return shift ? { ...schedule, time: shift.to } : schedule;
+  });
+}
+
+/**
+ * Проверяет новые времена канала по минимальному интервалу относительно всех публикаций пользователя.
+ * Времена сравниваются в опорном часовом поясе, как в таблице расписания; уже существующие
+ * пересечения не мешают сохранению. Конфликтующее время по политике пользователя
+ * отклоняется (error) или сдвигается на ближайшее свободное (shifted).
+ * pending — ещё не записанные данные других каналов (пакетное изменение, импорт), они важнее сохранённых;
+ * каналы из pending, которых ещё нет в хранилище, тоже учитываются.
+ * policyOverride заменяет политику из настроек (новый канал из мастера не должен упираться в reject).
+ */
+async function resolveNewScheduleTimes(
+  userId: string,
+  channelId: string,
+  channelData: any,
+  times: string[],
+  pending: Map<string, any> = new Map(),
+  policyOverride?: ScheduleConflictPolicy
+): Promise<{ times: string[]; shifted: Array<{ from: string; to: string }> } | { error: string }> {
+  const userRef = db!.collection("users").doc(userId);
+  const settings = (await userRef.collection("settings").doc("schedule").get()).data() ?? {};
+  const referenceTimezone = isValidTimezone(settings.referenceTimezone)
+    ? settings.referenceTimezone
+    : DEFAULT_REFERENCE_TIMEZONE;
+  const policy: ScheduleConflictPolicy =
+    policyOverride ??
+    (settings.conflictPolicy === "shift" || settings.conflictPolicy === "reject"
+      ? settings.conflictPolicy
+      : DEFAULT_SCHEDULE_CONFLICT_POLICY);
+
+  const toPoints = (item: ReturnType<typeof buildScheduleItemResponse>, itemTimes: string[]): SchedulePoint[] =>
+    itemTimes.map((time) => ({ channelId: item.id, channelName: item.name, time, timezone: item.timezone }));
+
+  const current = buildScheduleItemResponse(channelId, channelData, channelData.autoSendSchedules || []);
+  const previousTimes = new Set(current.times);
+  const keptTimes = times.filter((time) => previousTimes.has(time));
+  const placed = toPoints(current, [...keptTimes, ...current.ruleSchedules.flatMap((schedule) => schedule.todayTimes)]);
+  const channelsSnapshot = await userRef.collection("channels").get();
+  const others = new Map<string, any>(channelsSnapshot.docs.map((doc) => [doc.id, doc.data()]));
+  pending.forEach((data, id) => others.set(id, data));
+  others.delete(channelId);
+  for (const [id, data] of others) {
+    const item = buildScheduleItemResponse(id, data, data.autoSendSchedules || []);
+    placed.push(...toPoints(item, item.times));
+  }
+
+  const now = new Date();
+  const resolvedTimes = [...keptTimes];
+  const shifted: Array<{ from: string; to: string }> = [];
+  for (const [point] of times.filter((time) => !previousTimes.has(time)).map((time) => toPoints(current, [time]))) {
+    const conflict = findScheduleConflicts([...placed, point], settings, referenceTimezone, now).find(
+      ({ first, second }) => first === point || second === point
+    );
+    if (!conflict) {
+      placed.push(point);
+      resolvedTimes.push(point.time);
+      continue;
+    }
+
+    const freeTime = policy === "shift" ? findNearestFreeTime(point, placed, settings, referenceTimezone, now) : null;
+    if (!freeTime) {
+      const other = conflict.first === point ? conflict.second : conflict.first;
+      const target = other.channelId === channelId ? "другим временем этого канала" : `каналом «${other.channelName}»`;
+      return {
+        error:
+          `Время ${point.time} пересекается с ${target} (${other.time} по времени канала): ` +
+          `между публикациями ${conflict.gapMinutes} мин, нужно не меньше ${conflict.requiredMinutes} мин` +
+          (policy === "shift" ? ". Свободного времени рядом нет" : "")
+      };
+    }
+    placed.push({ ...point, time: freeTime });
+    resolvedTimes.push(freeTime);
+    shifted.push({ from: point.time, to: freeTime });
+  }
+
+  return { times: Array.from(new Set(resolvedTimes)).sort(), shifted };
+}
+
+/**
+ * Строка таблицы расписания после изменения: ручные времена и времена правил на сегодня
+ */
+function buildScheduleItemResponse(
+  channelId: string,
+  channelData: any,
+  schedules: ChannelAutoSendSchedule[]
+) {
+  const PLATFORM_NAMES: Record<string, string> = {
+    YOUTUBE_SHORTS: "YouTube Shorts",
+    TIKTOK: "TikTok",
+    INSTAGRAM_REELS: "Instagram Reels",
+    VK_CLIPS: "VK Клипы"
+  };
+
+  const manualTimes = Array.from(
+    new Set(schedules.filter((schedule) => schedule.enabled && !schedule.rule).map((schedule) => schedule.time))
+  ).sort();
+  const today = getLocalDateInTimezone(new Date(), channelData.timezone || "UTC");
+  const ruleSchedules = schedules
+    .filter((schedule) => schedule.enabled && schedule.rule)
+    .map((schedule) => ({
+      id: schedule.id,
+      rule: schedule.rule!,
+      validFrom: schedule.validFrom ?? null,
+      validUntil: schedule.validUntil ?? null,
+      todayTimes: getScheduleTimesForDate(schedule, today)
+    }));
+  const allTimes = [...manualTimes, ...ruleSchedules.flatMap((schedule) => schedule.todayTimes)];
+
+  return {
+    id: channelId,
+    name: channelData.name || "Без названия",
+    times: Array.from(new Set(allTimes)).sort(),
+    platform: PLATFORM_NAMES[channelData.platform] || channelData.platform || "Не указано",
+    isAutomationEnabled: channelData.autoSendEnabled === true,
+    timezone: channelData.timezone || "UTC",
+    manualTimes,
+    ruleSchedules,
+    constraints: channelData.scheduleConstraints ?? null
+  };
+}
+
 /**
  * PATCH /api/channels/:id/automation
  * Обновляет статус автоматизации канала
@@ -979,11 +1439,11 @@ router.patch("/:id/automation", authRequired, async (req, res) => {
 });
 
 /**
- * POST /api/channels/:id/run-custom-prompt
- * Запускает генерацию видео с кастомным промптом от пользователя
- * Body: { prompt: string, title?: string }
+ * GET /api/channels/:id/runs
+ * Возвращает прогоны конвейера канала (промпт → Drive → публикации), новые первыми
+ * Query: ?status=in_progress|completed|partial|failed&limit=50
  */
-router.post("/:id/run-custom-prompt", authRequired, async (req, res) => {
+router.get("/:id/runs", authRequired, async (req, res) => {
   if (!isFirestoreAvailable() || !db) {
     return res.status(503).json({
       error: "Firestore is not available",
@@ -994,21 +1454,271 @@ router.post("/:id/run-custom-prompt", authRequired, async (req, res) => {
   try {
     const userId = req.user!.uid;
     const channelId = req.params.id;
-    const { prompt, title } = req.body;
-
-    // Валидация промпта
-    if (!prompt || typeof prompt !== "string" || !prompt.trim()) {
-      return res.status(400).json({
-        error: "Invalid request",
-        message: "Промпт не может быть пустым"
-      });
-    }
+    const status = req.query.status as PipelineRunStatus | undefined;
+    const limit = Math.min(parseInt(String(req.query.limit ?? "50"), 10) || 50, 200);
 
-    const MAX_PROMPT_LENGTH = 15000;
-    if (prompt.length > MAX_PROMPT_LENGTH) {
-      return res.status(400).json({
-        error: "Invalid request",
-        message: `Промпт слишком длинный. Максимальная длина: ${MAX_PROMPT_LENGTH} символов`
+    const channelSnap = await db.collection("users").doc(userId).collection("channels").doc(channelId).get();
+    if (!channelSnap.exists) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: "Канал не найден"
+      });
+    }
+
+    const runs = await listPipelineRuns(userId, channelId, { status, limit });
+    res.json({ runs });
+  } catch (error: any) {
+    Logger.error("Failed to fetch pipeline runs", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при получении истории запусков"
+    });
+  }
+});
+
+/**
+ * GET /api/channels/:id/missed-runs
+ * Возвращает решения по слотам, пропущенным из-за простоя планировщика, новые первыми
+ * Query: ?limit=50
+ */
+router.get("/:id/missed-runs", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = req.params.id;
+    const limit = Math.min(parseInt(String(req.query.limit ?? "50"), 10) || 50, 200);
+
+    const channelSnap = await db.collection("users").doc(userId).collection("channels").doc(channelId).get();
+    if (!channelSnap.exists) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: "Канал не найден"
+      });
+    }
+
+    const decisions = await listMissedRunDecisions(userId, channelId, limit);
+    res.json({ decisions });
+  } catch (error: any) {
+    Logger.error("Failed to fetch missed run decisions", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при получении пропущенных запусков"
+    });
+  }
+});
+
+/**
+ * GET /api/channels/:id/runs/:runId
+ * Возвращает один прогон конвейера
+ */
+router.get("/:id/runs/:runId", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const run = await getPipelineRun(req.user!.uid, req.params.id, req.params.runId);
+    if (!run) {
+      return res.status(404).json({
+        error: "Run not found",
+        message: "Запуск не найден"
+      });
+    }
+    res.json({ run });
+  } catch (error: any) {
+    Logger.error("Failed to fetch pipeline run", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при получении запуска"
+    });
+  }
+});
+
+/**
+ * PUT /api/channels/:id/runs/:runId/variant-selection
+ * Выбор варианта видео для публикации через Blotato, когда SyntX прислал несколько роликов.
+ * Body: { defaultVariant: number, platformVariants?: { [platform]: number } } (0 — не публиковать)
+ */
+router.put("/:id/runs/:runId/variant-selection", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const run = await getPipelineRun(userId, req.params.id, req.params.runId);
+    if (!run) {
+      return res.status(404).json({
+        error: "Run not found",
+        message: "Запуск не найден"
+      });
+    }
+
+    const variantCount = run.variants?.length ?? 0;
+    if (variantCount <= 1) {
+      return res.status(400).json({
+        error: "No variants",
+        message: "У запуска только один вариант видео"
+      });
+    }
+
+    const selection: PipelineVariantSelection = {
+      defaultVariant: Number(req.body?.defaultVariant),
+      platformVariants: req.body?.platformVariants ?? {},
+      confirmedAt: new Date().toISOString()
+    };
+    const validationError = validateVariantSelection(selection, variantCount);
+    if (validationError) {
+      return res.status(400).json({
+        error: "Invalid selection",
+        message: validationError
+      });
+    }
+
+    const updated = await mutatePipelineRun(userId, req.params.id, req.params.runId, (current) =>
+      current ? { ...current, variantSelection: selection, updatedAt: selection.confirmedAt! } : null
+    );
+    res.json({ run: updated });
+  } catch (error: any) {
+    Logger.error("Failed to save variant selection", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при сохранении выбора варианта"
+    });
+  }
+});
+
+/**
+ * POST /api/channels/:id/runs/:runId/retry-publish
+ * Повторяет публикацию на платформах, где она не удалась (в том числе снятых с автоматических повторов).
+ * Body: { platforms?: string[] } — по умолчанию все неудачные платформы прогона
+ */
+router.post("/:id/runs/:runId/retry-publish", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = req.params.id;
+    const run = await getPipelineRun(userId, channelId, req.params.runId);
+    if (!run) {
+      return res.status(404).json({
+        error: "Run not found",
+        message: "Запуск не найден"
+      });
+    }
+
+    const requested: unknown = req.body?.platforms;
+    if (requested !== undefined && (!Array.isArray(requested) || requested.some((p) => typeof p !== "string"))) {
+      return res.status(400).json({
+        error: "Invalid platforms",
+        message: "platforms должен быть массивом строк"
+      });
+    }
+    const failed = run.publications.filter(
+      (p) => !p.success && (!requested || (requested as string[]).includes(p.platform))
+    );
+    if (failed.length === 0) {
+      return res.status(400).json({
+        error: "Nothing to retry",
+        message: "Нет неудачных публикаций для повтора"
+      });
+    }
+
+    const channelDoc = await db.collection("users").doc(userId).collection("channels").doc(channelId).get();
+    if (!channelDoc.exists) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: "Канал не найден"
+      });
+    }
+    const channel = { id: channelDoc.id, ...channelDoc.data() } as Channel;
+
+    // Неудачные платформы разных вариантов видео публикуются из своих файлов
+    const platformsByFile = new Map<string, string[]>();
+    for (const publication of failed) {
+      const fileId = publication.variantIndex
+        ? run.variants?.find((v) => v.index === publication.variantIndex)?.driveFileId
+        : run.driveFileId;
+      if (fileId) {
+        platformsByFile.set(fileId, [...(platformsByFile.get(fileId) ?? []), publication.platform]);
+      }
+    }
+    if (platformsByFile.size === 0) {
+      return res.status(400).json({
+        error: "File not found",
+        message: "У запуска нет файла Google Drive для повторной публикации"
+      });
+    }
+
+    const { processBlottataFile } = await import("../services/blottataFileProcessor");
+    const publishedPlatforms: string[] = [];
+    const errors: string[] = [];
+    for (const [fileId, platforms] of platformsByFile) {
+      Logger.info("retry-publish: Retrying failed platforms", { channelId, runId: run.id, fileId, platforms });
+      const result = await processBlottataFile(channel, fileId, userId, { retryPlatforms: platforms });
+      publishedPlatforms.push(...result.publishedPlatforms);
+      errors.push(...result.errors);
+    }
+
+    const updated = await getPipelineRun(userId, channelId, run.id);
+    res.json({ run: updated, publishedPlatforms, errors });
+  } catch (error: any) {
+    Logger.error("Failed to retry publish", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при повторной публикации"
+    });
+  }
+});
+
+/**
+ * POST /api/channels/:id/run-custom-prompt
+ * Запускает генерацию видео с кастомным промптом от пользователя
+ * Body: { prompt: string, title?: string }
+ */
+router.post("/:id/run-custom-prompt", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = req.params.id;
+    const { prompt, title } = req.body;
+
+    // Валидация промпта
+    if (!prompt || typeof prompt !== "string" || !prompt.trim()) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: "Промпт не может быть пустым"
+      });
+    }
+
+    const MAX_PROMPT_LENGTH = 15000;
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: `Промпт слишком длинный. Максимальная длина: ${MAX_PROMPT_LENGTH} символов`
       });
     }
 
@@ -1134,7 +1844,8 @@ router.post("/:id/test-blottata", authRequired, async (req, res) => {
       });
     }
 
-    if (!channel.blotataApiKey && !process.env.BLOTATA_API_KEY) {
+    const { hasBlotatoApiKey } = await import("../services/secretVault");
+    if (!(await hasBlotatoApiKey(userId, channel))) {
       return res.status(400).json({
         error: "API key not configured",
         message: "Не указан Blottata API ключ"
@@ -1257,7 +1968,7 @@ router.post("/:id/test-youtube-title-description", authRequired, async (req, res
       userId
     });
 
-    const result = await generateYoutubeTitleAndDescription(fileName, channel);
+    const result = await generateYoutubeTitleAndDescription(fileName, channel, userId);
 
     // Импортируем нормализатор для проверки
     const { normalizeYoutubeTitle, MAX_YOUTUBE_TITLE_LENGTH } = await import("../utils/youtubeTitleNormalizer");
@@ -1333,12 +2044,12 @@ router.get("/export", authRequired, async (req, res) => {
     // Трансформируем каналы в формат экспорта, исключая чувствительные данные
     const exportedChannels = channelsSnapshot.docs.map((doc) => {
       const data = doc.data() as any;
-      return transformChannelForExport(data);
+      return transformChannelForExport(doc.id, data);
     });
     
     // Формируем финальный объект экспорта
     const exportData = {
-      version: 1,
+      version: 2,
       exportedAt: new Date().toISOString(),
       channels: exportedChannels
     };
@@ -1368,8 +2079,9 @@ router.get("/export", authRequired, async (req, res) => {
 /**
  * Вспомогательная функция для преобразования данных канала в формат экспорта
  */
-function transformChannelForExport(data: any): any {
+function transformChannelForExport(channelId: string, data: any): any {
   return {
+    id: channelId, // стабильный id: по нему повторный импорт обновляет тот же канал
     name: data.name,
     platform: data.platform,
     language: data.language,
@@ -1404,6 +2116,15 @@ function transformChannelForExport(data: any): any {
     blotataPinterestId: data.blotataPinterestId || null,
     blotataPinterestBoardId: data.blotataPinterestBoardId || null,
     blotataBlueskyId: data.blotataBlueskyId || null,
+    platformPublishers: data.platformPublishers || null,
+    publishWebhookUrl: data.publishWebhookUrl || null,
+    publishSchedule: data.publishSchedule || null,
+    postTemplates: data.postTemplates || null,
+    hashtagLibrary: data.hashtagLibrary || null,
+    missedRunPolicy: data.missedRunPolicy || null,
+    blackoutPeriods: data.blackoutPeriods || null,
+    scheduleConstraints: data.scheduleConstraints || null,
+    llmProvider: data.llmProvider || null,
     youtubeUrl: data.youtubeUrl || null,
     tiktokUrl: data.tiktokUrl || null,
     instagramUrl: data.instagramUrl || null,
@@ -1447,11 +2168,11 @@ router.get("/:id/export", authRequired, async (req, res) => {
     const data = channelDoc.data() as any;
     
     // Преобразуем канал в формат экспорта
-    const exportedChannel = transformChannelForExport(data);
+    const exportedChannel = transformChannelForExport(channelId, data);
     
     // Формируем финальный объект экспорта (совместимый с форматом массового экспорта)
     const exportData = {
-      version: 1,
+      version: 2,
       exportedAt: new Date().toISOString(),
       channels: [exportedChannel]
     };
@@ -1484,17 +2205,12 @@ router.get("/:id/export", authRequired, async (req, res) => {
 });
 
 /**
- * POST /api/channels/import
- * Импортирует каналы из JSON-файла
- * Body: { version: number, exportedAt: string, channels: Array }
+ * POST /api/channels/:id/duplicate
+ * Создаёт копию канала с выбранными частями настроек
+ * Body: { name?: string, parts: ChannelCopyPart[] }
+ * Автоматизация копии выключена, чтобы её расписания не запустились раньше проверки
  */
-router.post("/import", authRequired, async (req, res) => {
-  Logger.info("Channels import: request received", {
-    userId: req.user?.uid,
-    contentLength: req.headers["content-length"],
-    timestamp: new Date().toISOString()
-  });
-
+router.post("/:id/duplicate", authRequired, async (req, res) => {
   if (!isFirestoreAvailable() || !db) {
     return res.status(503).json({
       error: "Firestore is not available",
@@ -1504,180 +2220,335 @@ router.post("/import", authRequired, async (req, res) => {
 
   try {
     const userId = req.user!.uid;
-    const { version, channels } = req.body;
-    
-    // Проверяем размер тела запроса
-    const contentLength = parseInt(req.headers["content-length"] || "0", 10);
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (contentLength > maxSize) {
-      Logger.warn("Channels import: payload too large", {
-        userId,
-        contentLength,
-        maxSize
-      });
-      return res.status(413).json({
-        error: "Payload too large",
-        message: `Размер файла превышает лимит (${(contentLength / (1024 * 1024)).toFixed(2)} MB). Максимальный размер: 10 MB`
-      });
-    }
-    
-    // Валидация формата
-    if (version !== 1) {
+    const channelId = req.params.id;
+    const { name, parts } = req.body as { name?: unknown; parts?: unknown };
+
+    const partsError = validateChannelCopyParts(parts, CHANNEL_COPY_PARTS);
+    if (partsError) {
       return res.status(400).json({
-        error: "Invalid version",
-        message: `Неподдерживаемая версия формата: ${version}. Поддерживается только версия 1.`
+        error: "Invalid request",
+        message: partsError
       });
     }
-    
-    if (!Array.isArray(channels) || channels.length === 0) {
+    if (typeof name !== "undefined" && (typeof name !== "string" || !name.trim())) {
       return res.status(400).json({
-        error: "Invalid format",
-        message: "Файл не содержит каналов для импорта"
+        error: "Invalid request",
+        message: "name должен быть непустой строкой"
       });
     }
-    
-    // Получаем существующие каналы пользователя для проверки конфликтов имён
+
     const channelsRef = db.collection("users").doc(userId).collection("channels");
-    const existingChannelsSnapshot = await channelsRef.get();
-    const existingChannelNames = new Set(
-      existingChannelsSnapshot.docs.map((doc) => doc.data().name)
+    const channelsSnapshot = await channelsRef.get();
+    const sourceDoc = channelsSnapshot.docs.find((doc) => doc.id === channelId);
+    if (!sourceDoc) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: "Канал не найден"
+      });
+    }
+
+    const sourceData = sourceDoc.data() as any;
+    const existingNames = new Set(channelsSnapshot.docs.map((doc) => doc.data().name as string));
+    const finalName = getUniqueChannelName(
+      typeof name === "string" ? name.trim() : sourceData.name || "Без названия",
+      existingNames
     );
-    
-    // Получаем максимальный orderIndex для новых каналов
-    let maxOrderIndex = -1;
-    existingChannelsSnapshot.docs.forEach((doc) => {
-      const orderIndex = doc.data().orderIndex ?? 0;
-      maxOrderIndex = Math.max(maxOrderIndex, orderIndex);
+    const maxOrderIndex = channelsSnapshot.docs.reduce(
+      (max, doc) => Math.max(max, doc.data().orderIndex ?? 0),
+      -1
+    );
+
+    const copiedParts = Array.from(new Set(parts as ChannelCopyPart[]));
+    const newChannelRef = await channelsRef.add({
+      ...pickChannelParts(sourceData, copiedParts),
+      name: finalName,
+      autoSendEnabled: false,
+      orderIndex: maxOrderIndex + 1,
+      createdAt: new Date(),
+      updatedAt: new Date()
     });
-    
-    const imported: string[] = [];
-    const skipped: string[] = [];
+
+    Logger.info("Channel duplicated", {
+      userId,
+      sourceChannelId: channelId,
+      channelId: newChannelRef.id,
+      parts: copiedParts
+    });
+
+    res.status(201).json({ id: newChannelRef.id, name: finalName });
+  } catch (error: any) {
+    Logger.error("Failed to duplicate channel", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при дублировании канала"
+    });
+  }
+});
+
+/**
+ * Разбирает тело запроса импорта. Возвращает текст ошибки или параметры плана
+ */
+function parseImportRequest(body: any):
+  | { error: string; message: string }
+  | { channels: any[]; strategy: ChannelImportStrategy; overrides: Record<string, ChannelImportStrategy> } {
+  const { version, channels, strategy = DEFAULT_IMPORT_STRATEGY, overrides = {} } = body ?? {};
+
+  if (!SUPPORTED_IMPORT_VERSIONS.includes(version)) {
+    return {
+      error: "Invalid version",
+      message: `Неподдерживаемая версия формата: ${version}. Поддерживаются версии ${SUPPORTED_IMPORT_VERSIONS.join(", ")}.`
+    };
+  }
+  if (!Array.isArray(channels) || channels.length === 0) {
+    return {
+      error: "Invalid format",
+      message: "Файл не содержит каналов для импорта"
+    };
+  }
+  const strategies = [strategy, ...Object.values(overrides && typeof overrides === "object" ? overrides : {})];
+  if (typeof overrides !== "object" || strategies.some((s) => !CHANNEL_IMPORT_STRATEGIES.includes(s))) {
+    return {
+      error: "Invalid request",
+      message: `Стратегия должна быть одной из: ${CHANNEL_IMPORT_STRATEGIES.join(", ")}`
+    };
+  }
+  return { channels, strategy, overrides: overrides ?? {} };
+}
+
+/**
+ * Строит план импорта по текущим каналам пользователя
+ */
+async function buildImportPlan(
+  userId: string,
+  request: { channels: any[]; strategy: ChannelImportStrategy; overrides: Record<string, ChannelImportStrategy> }
+) {
+  const channelsRef = db!.collection("users").doc(userId).collection("channels");
+  const snapshot = await channelsRef.get();
+  const existing = snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+  const maxOrderIndex = existing.reduce((max, channel) => Math.max(max, channel.data.orderIndex ?? 0), -1);
+  const items = planChannelImport(request.channels, existing, request.strategy, request.overrides);
+  return {
+    channelsRef,
+    maxOrderIndex,
+    items: await checkImportedScheduleTimes(userId, items, existing)
+  };
+}
+
+/**
+ * Проверяет времена расписаний из плана импорта, как PATCH /:id/schedule: число слотов
+ * и минимальный интервал относительно остальных каналов (по политике пользователя).
+ * Каналы проверяются в порядке файла с учётом уже принятых из него расписаний;
+ * канал с нарушением пропускается, причина видна в пробном импорте.
+ */
+async function checkImportedScheduleTimes(
+  userId: string,
+  items: ChannelImportPlanItem[],
+  existing: Array<{ id: string; data: Record<string, any> }>
+): Promise<ChannelImportPlanItem[]> {
+  const existingById = new Map(existing.map((channel) => [channel.id, channel.data]));
+  const pending = new Map<string, any>();
+  const checked: ChannelImportPlanItem[] = [];
+
+  for (const item of items) {
+    const schedules = item.fields?.autoSendSchedules as ChannelAutoSendSchedule[] | undefined;
+    if (item.action === "skip" || !schedules || schedules.length === 0) {
+      checked.push(item);
+      continue;
+    }
+
+    const channelId = item.targetId ?? `import_${item.index}`;
+    const current = item.action === "update" ? existingById.get(channelId) ?? {} : {};
+    const newTimes = buildScheduleItemResponse(channelId, current, schedules).manualTimes;
+    const resolved =
+      newTimes.length > MAX_SCHEDULE_SLOTS
+        ? { error: `Максимальное количество слотов: ${MAX_SCHEDULE_SLOTS}` }
+        : await resolveNewScheduleTimes(userId, channelId, current, newTimes, pending);
+    if ("error" in resolved) {
+      checked.push({
+        ...item,
+        action: "skip",
+        changedFields: [],
+        reason: `Расписания автоотправки: ${resolved.error}`,
+        fields: undefined
+      });
+      continue;
+    }
+
+    const fields = { ...item.fields, autoSendSchedules: applyShiftedTimes(schedules, resolved.shifted) };
+    pending.set(channelId, { ...current, ...fields });
+    checked.push({ ...item, fields });
+  }
+  return checked;
+}
+
+function summarizeImportPlan(items: ChannelImportPlanItem[]) {
+  return {
+    items: items.map(({ fields, ...item }) => item),
+    summary: {
+      create: items.filter((item) => item.action === "create").length,
+      update: items.filter((item) => item.action === "update").length,
+      skip: items.filter((item) => item.action === "skip").length
+    }
+  };
+}
+
+/**
+ * Проверяет размер тела запроса импорта (10 MB)
+ */
+function isImportPayloadTooLarge(req: Request, res: Response): boolean {
+  const contentLength = parseInt(req.headers["content-length"] || "0", 10);
+  const maxSize = 10 * 1024 * 1024; // 10MB
+  if (contentLength <= maxSize) {
+    return false;
+  }
+  Logger.warn("Channels import: payload too large", {
+    userId: req.user?.uid,
+    contentLength,
+    maxSize
+  });
+  res.status(413).json({
+    error: "Payload too large",
+    message: `Размер файла превышает лимит (${(contentLength / (1024 * 1024)).toFixed(2)} MB). Максимальный размер: 10 MB`
+  });
+  return true;
+}
+
+/**
+ * POST /api/channels/import/dry-run
+ * Пробный импорт: ничего не записывает, возвращает для каждого канала действие
+ * (create / update / skip) и поля, которые изменятся
+ * Body: { version: 1 | 2, channels: Array, strategy?: ChannelImportStrategy, overrides?: { [index]: ChannelImportStrategy } }
+ */
+router.post("/import/dry-run", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+  if (isImportPayloadTooLarge(req, res)) {
+    return;
+  }
+
+  try {
+    const request = parseImportRequest(req.body);
+    if ("error" in request) {
+      return res.status(400).json(request);
+    }
+
+    const { items } = await buildImportPlan(req.user!.uid, request);
+    res.json({ strategy: request.strategy, ...summarizeImportPlan(items) });
+  } catch (error: any) {
+    Logger.error("Failed to plan channels import", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при проверке импорта"
+    });
+  }
+});
+
+/**
+ * POST /api/channels/import
+ * Импортирует каналы из JSON-файла по тому же плану, что показывает пробный импорт
+ * Body: { version: 1 | 2, exportedAt: string, channels: Array, strategy?: ChannelImportStrategy, overrides?: { [index]: ChannelImportStrategy } }
+ */
+router.post("/import", authRequired, async (req, res) => {
+  Logger.info("Channels import: request received", {
+    userId: req.user?.uid,
+    contentLength: req.headers["content-length"],
+    timestamp: new Date().toISOString()
+  });
+
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+  if (isImportPayloadTooLarge(req, res)) {
+    return;
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const request = parseImportRequest(req.body);
+    if ("error" in request) {
+      return res.status(400).json(request);
+    }
+
+    const { channelsRef, maxOrderIndex, items } = await buildImportPlan(userId, request);
+    let orderIndex = maxOrderIndex;
     const errors: Array<{ channelName: string; error: string }> = [];
-    
-    // Обрабатываем каждый канал
-    for (const channelData of channels) {
-      try {
-        // Валидация обязательных полей
-        if (!channelData.name || typeof channelData.name !== "string") {
-          errors.push({
-            channelName: channelData.name || "Без названия",
-            error: "Отсутствует или некорректное имя канала"
-          });
-          continue;
-        }
-        
-        if (!channelData.platform || !channelData.language || !channelData.targetDurationSec) {
-          errors.push({
-            channelName: channelData.name,
-            error: "Отсутствуют обязательные поля: platform, language или targetDurationSec"
-          });
-          continue;
+    let imported = 0;
+    let updated = 0;
+
+    for (const item of items) {
+      if (item.action === "skip" || !item.fields) {
+        if (item.reason && item.matchedBy === null) {
+          errors.push({ channelName: item.name, error: item.reason });
         }
-        
-        // Проверяем конфликт имён и добавляем суффикс при необходимости
-        let finalName = channelData.name;
-        if (existingChannelNames.has(finalName)) {
-          let counter = 1;
-          let candidateName = `${finalName} (imported)`;
-          while (existingChannelNames.has(candidateName)) {
-            counter++;
-            candidateName = `${finalName} (imported ${counter})`;
+        continue;
+      }
+
+      try {
+        if (item.action === "create") {
+          const data = { ...item.fields, orderIndex: ++orderIndex, createdAt: new Date(), updatedAt: new Date() };
+          if (item.targetId) {
+            await channelsRef.doc(item.targetId).set(data);
+          } else {
+            await channelsRef.add(data);
           }
-          finalName = candidateName;
-        }
-        
-        // Добавляем имя в множество существующих для следующей итерации
-        existingChannelNames.add(finalName);
-        
-        // Формируем данные для создания канала
-        const newChannelData: any = {
-          name: finalName,
-          platform: channelData.platform,
-          language: channelData.language,
-          targetDurationSec: channelData.targetDurationSec,
-          niche: channelData.niche || "",
-          audience: channelData.audience || "",
-          tone: channelData.tone || "",
-          blockedTopics: channelData.blockedTopics || "",
-          generationMode: channelData.generationMode || "script",
-          generationTransport: channelData.generationTransport || "telegram_global",
-          telegramSyntaxPeer: channelData.telegramSyntaxPeer || null,
-          autoSendEnabled: channelData.autoSendEnabled || false,
-          autoSendSchedules: channelData.autoSendSchedules || [],
-          autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled || false,
-          autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes || 10,
-          uploadNotificationEnabled: channelData.uploadNotificationEnabled || false,
-          uploadNotificationChatId: channelData.uploadNotificationChatId || null,
-          blotataEnabled: channelData.blotataEnabled || false,
-          driveInputFolderId: channelData.driveInputFolderId || null,
-          driveArchiveFolderId: channelData.driveArchiveFolderId || null,
-          blotataYoutubeId: channelData.blotataYoutubeId || null,
-          blotataTiktokId: channelData.blotataTiktokId || null,
-          blotataInstagramId: channelData.blotataInstagramId || null,
-          blotataFacebookId: channelData.blotataFacebookId || null,
-          blotataFacebookPageId: channelData.blotataFacebookPageId || null,
-          blotataThreadsId: channelData.blotataThreadsId || null,
-          blotataTwitterId: channelData.blotataTwitterId || null,
-          blotataLinkedinId: channelData.blotataLinkedinId || null,
-          blotataPinterestId: channelData.blotataPinterestId || null,
-          blotataPinterestBoardId: channelData.blotataPinterestBoardId || null,
-          blotataBlueskyId: channelData.blotataBlueskyId || null,
-          youtubeUrl: channelData.youtubeUrl || null,
-          tiktokUrl: channelData.tiktokUrl || null,
-          instagramUrl: channelData.instagramUrl || null,
-          googleDriveFolderId: channelData.googleDriveFolderId || null,
-          orderIndex: ++maxOrderIndex,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        
-        // Добавляем опциональные поля только если они есть
-        if (channelData.preferences) {
-          newChannelData.preferences = channelData.preferences;
-        }
-        if (channelData.extraNotes) {
-          newChannelData.extraNotes = channelData.extraNotes;
-        }
-        if (channelData.timezone) {
-          newChannelData.timezone = channelData.timezone;
+          imported++;
+        } else {
+          // null в плане перезаписи — настройки нет в файле, удаляем её у канала
+          const fields = Object.fromEntries(
+            Object.entries(item.fields).map(([field, value]) => [
+              field,
+              value === null ? admin.firestore.FieldValue.delete() : value
+            ])
+          );
+          await channelsRef.doc(item.targetId!).set({ ...fields, updatedAt: new Date() }, { merge: true });
+          updated++;
         }
-        
-        // Создаём канал в Firestore
-        await channelsRef.add(newChannelData);
-        
-        imported.push(finalName);
-        
+
         Logger.info("Channel imported", {
           userId,
-          originalName: channelData.name,
-          finalName,
-          wasRenamed: finalName !== channelData.name
+          action: item.action,
+          channelId: item.targetId,
+          originalName: item.name,
+          finalName: item.finalName,
+          changedFields: item.action === "update" ? item.changedFields : undefined
         });
       } catch (error: any) {
         Logger.error("Failed to import channel", {
           userId,
-          channelName: channelData.name,
+          channelName: item.name,
           error: error?.message || String(error)
         });
-        
+
         errors.push({
-          channelName: channelData.name || "Без названия",
+          channelName: item.name,
           error: error?.message || "Неизвестная ошибка при импорте"
         });
       }
     }
-    
+
+    const skipped = items.filter((item) => item.action === "skip" && item.matchedBy !== null).length;
+
     Logger.info("Channels import completed", {
       userId,
-      imported: imported.length,
-      skipped: skipped.length,
+      strategy: request.strategy,
+      imported,
+      updated,
+      skipped,
       errors: errors.length
     });
-    
+
     res.json({
       success: true,
-      imported: imported.length,
-      skipped: skipped.length,
+      imported,
+      updated,
+      skipped,
       errors: errors.length > 0 ? errors : undefined
     });
   } catch (error: any) {
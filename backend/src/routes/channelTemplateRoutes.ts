@@ -0,0 +1,157 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import { Logger } from "../utils/logger";
+import {
+  countChannelTemplates,
+  createChannelTemplate,
+  deleteChannelTemplate,
+  listChannelTemplates,
+  MAX_CHANNEL_TEMPLATES
+} from "../repositories/channelTemplateRepo";
+import {
+  CHANNEL_TEMPLATE_PARTS,
+  pickChannelParts,
+  validateChannelCopyParts,
+  type ChannelCopyPart
+} from "../utils/channelCopy";
+
+const router = Router();
+
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+/**
+ * GET /api/channel-templates
+ * Шаблоны каналов текущего пользователя
+ */
+router.get("/", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const templates = await listChannelTemplates(req.user!.uid);
+    res.json({ templates });
+  } catch (error: any) {
+    Logger.error("Failed to list channel templates", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при получении шаблонов"
+    });
+  }
+});
+
+/**
+ * POST /api/channel-templates
+ * Сохраняет шаблон из существующего канала
+ * Body: { channelId: string, name: string, parts: ChannelCopyPart[] }
+ */
+router.post("/", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const { channelId, name, parts } = req.body as { channelId?: unknown; name?: unknown; parts?: unknown };
+
+    if (typeof channelId !== "string" || !channelId) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: "channelId обязателен"
+      });
+    }
+    if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: `Название шаблона обязательно, не длиннее ${MAX_TEMPLATE_NAME_LENGTH} символов`
+      });
+    }
+    const partsError = validateChannelCopyParts(parts, CHANNEL_TEMPLATE_PARTS);
+    if (partsError) {
+      return res.status(400).json({
+        error: "Invalid request",
+        message: partsError
+      });
+    }
+
+    if ((await countChannelTemplates(userId)) >= MAX_CHANNEL_TEMPLATES) {
+      return res.status(409).json({
+        error: "Too many templates",
+        message: `Можно сохранить не больше ${MAX_CHANNEL_TEMPLATES} шаблонов, удалите ненужные`
+      });
+    }
+
+    const channelDoc = await db.collection("users").doc(userId).collection("channels").doc(channelId).get();
+    if (!channelDoc.exists) {
+      return res.status(404).json({
+        error: "Channel not found",
+        message: "Канал не найден"
+      });
+    }
+
+    const channelData = channelDoc.data() as any;
+    const templateParts = Array.from(new Set(parts as ChannelCopyPart[]));
+    const template = await createChannelTemplate(userId, {
+      name: name.trim(),
+      parts: templateParts,
+      sourceChannelId: channelId,
+      sourceChannelName: channelData.name || "",
+      settings: pickChannelParts(channelData, templateParts),
+      createdAt: new Date().toISOString()
+    });
+
+    Logger.info("Channel template saved", {
+      userId,
+      templateId: template.id,
+      channelId,
+      parts: templateParts
+    });
+
+    res.status(201).json(template);
+  } catch (error: any) {
+    Logger.error("Failed to save channel template", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при сохранении шаблона"
+    });
+  }
+});
+
+/**
+ * DELETE /api/channel-templates/:id
+ * Удаляет шаблон
+ */
+router.delete("/:id", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const deleted = await deleteChannelTemplate(req.user!.uid, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: "Template not found",
+        message: "Шаблон не найден"
+      });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    Logger.error("Failed to delete channel template", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error?.message || "Ошибка при удалении шаблона"
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,34 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { processAutoSendTick } from "../services/autoSendScheduler";
 import { processBlottataTick } from "../services/blottataDriveMonitor";
+import { processJobWorkerTick } from "../services/jobWorker";
+import { getJobStore, requeueDeadJob } from "../services/jobQueue";
+import type { JobStatus } from "../types/job";
 import { Logger } from "../utils/logger";
 
 const router = Router();
 const CRON_SECRET = process.env.CRON_SECRET;
 
+/**
+ * Проверяет заголовок x-cron-secret. Отправляет ошибку и возвращает false, если доступ запрещён.
+ */
+function verifyCronSecret(req: Request, res: Response, endpoint: string): boolean {
+  if (!CRON_SECRET) {
+    Logger.warn(`CRON_SECRET is not configured, ${endpoint} endpoint is disabled`);
+    res.status(500).json({ error: "CRON_SECRET is not configured" });
+    return false;
+  }
+
+  const token = req.headers["x-cron-secret"];
+  if (token !== CRON_SECRET) {
+    Logger.warn(`Unauthorized access attempt to /api/cron/${endpoint}`);
+    res.status(403).json({ error: "Forbidden" });
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Эндпоинт для ручного запуска планировщика (используется Cloud Scheduler)
  * Защищён секретным токеном
@@ -66,6 +89,77 @@ router.post("/blottata-tick", async (req, res) => {
   }
 });
 
+/**
+ * Эндпоинт воркера персистентной очереди задач (используется Cloud Scheduler).
+ * Захватывает созревшие задачи (автоскачивание видео и т.д.) и выполняет их.
+ * Защищён секретным токеном
+ */
+router.post("/job-tick", async (req, res) => {
+  if (!verifyCronSecret(req, res, "job-tick")) {
+    return;
+  }
+
+  Logger.info("Job worker tick triggered via HTTP endpoint");
+
+  try {
+    const result = await processJobWorkerTick();
+    return res.json({ success: true, message: "Job worker tick completed", ...result });
+  } catch (error) {
+    Logger.error("Error in job worker tick", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * Список задач очереди по статусу (по умолчанию — dead-letter)
+ * Query: ?status=pending|running|completed|dead|cancelled&limit=50
+ */
+router.get("/jobs", async (req, res) => {
+  if (!verifyCronSecret(req, res, "jobs")) {
+    return;
+  }
+
+  const status = (req.query.status as JobStatus | undefined) || "dead";
+  const limit = Math.min(parseInt(String(req.query.limit ?? "50"), 10) || 50, 500);
+
+  try {
+    const jobs = await getJobStore().list({ status, limit });
+    return res.json({ success: true, status, jobs });
+  } catch (error) {
+    Logger.error("Error listing jobs", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * Возвращает dead-letter задачу в очередь
+ */
+router.post("/jobs/:jobId/retry", async (req, res) => {
+  if (!verifyCronSecret(req, res, "jobs/:jobId/retry")) {
+    return;
+  }
+
+  try {
+    const job = await requeueDeadJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, error: "Dead-letter job not found" });
+    }
+    return res.json({ success: true, job });
+  } catch (error) {
+    Logger.error("Error requeueing job", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 /**
  * Старый эндпоинт для обратной совместимости
  * @deprecated Используйте /api/cron/manual-tick
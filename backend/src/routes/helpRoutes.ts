@@ -37,7 +37,7 @@ router.post("/explain-field", authRequired, async (req, res) => {
       userQuestion,
       currentValue,
       channelContext
-    });
+    }, req.user!.uid);
 
     return res.json({
       success: true,
@@ -92,7 +92,7 @@ router.post("/explain-section", authRequired, async (req, res) => {
       currentStatus,
       question,
       context
-    });
+    }, req.user!.uid);
 
     return res.json({
       success: true,
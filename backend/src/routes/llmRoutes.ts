@@ -0,0 +1,143 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { Logger } from "../utils/logger";
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import { getDefaultLlmSelection, listLlmProviders } from "../services/llm/providerRegistry";
+import { getServerLlmQuota, getUserLlmQuota } from "../services/llm/usageTracker";
+import { getCurrentLlmUsage, listLlmUsageDays, listLlmUsageRecords } from "../repositories/llmUsageRepo";
+import { getUsagePeriodKeys, mergeLlmQuotas, validateLlmQuota } from "../utils/llmUsage";
+import type { LlmQuota } from "../types/llmUsage";
+
+const router = Router();
+
+const MAX_USAGE_DAYS = 90;
+
+/**
+ * GET /api/llm/providers
+ * Список LLM-провайдеров сервера для выбора в настройках аккаунта и канала.
+ * Ключи и адреса провайдеров задаются только в окружении сервера и наружу не отдаются.
+ */
+router.get("/providers", authRequired, (_req, res) => {
+  res.json({
+    success: true,
+    providers: listLlmProviders(),
+    defaultProvider: getDefaultLlmSelection().provider
+  });
+});
+
+/**
+ * GET /api/llm/usage?days=30
+ * Расход LLM пользователя: сводки за сегодня и месяц (UTC), по дням, последние вызовы и лимиты
+ */
+router.get("/usage", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      success: false,
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const days = Math.min(Math.max(Number(req.query.days) || 30, 1), MAX_USAGE_DAYS);
+    const now = new Date();
+    const from = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const [current, dailyUsage, recent, userQuota] = await Promise.all([
+      getCurrentLlmUsage(userId, now),
+      listLlmUsageDays(userId, getUsagePeriodKeys(from).day, getUsagePeriodKeys(now).day),
+      listLlmUsageRecords(userId, 20),
+      getUserLlmQuota(userId)
+    ]);
+    const serverQuota = getServerLlmQuota();
+
+    return res.json({
+      success: true,
+      today: current.day,
+      month: current.month,
+      days: dailyUsage,
+      recent,
+      quota: {
+        server: serverQuota,
+        user: userQuota,
+        effective: mergeLlmQuotas(serverQuota, userQuota)
+      }
+    });
+  } catch (error: any) {
+    Logger.error("Error in GET /api/llm/usage", {
+      error: error?.message || String(error),
+      userId: req.user?.uid
+    });
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при получении расхода LLM"
+    });
+  }
+});
+
+/**
+ * PUT /api/llm/quota
+ * Сохраняет лимиты пользователя. null — без собственного лимита (действует только серверный).
+ */
+router.put("/quota", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return res.status(503).json({
+      success: false,
+      error: "Firestore is not available",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  const validationError = validateLlmQuota(req.body);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: "INVALID_QUOTA",
+      message: validationError
+    });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const { dailyTokens, monthlyTokens, dailyCostUsd, monthlyCostUsd } = req.body as LlmQuota;
+    const llmQuota: LlmQuota = {
+      dailyTokens: dailyTokens ?? null,
+      monthlyTokens: monthlyTokens ?? null,
+      dailyCostUsd: dailyCostUsd ?? null,
+      monthlyCostUsd: monthlyCostUsd ?? null
+    };
+
+    await db
+      .collection("users")
+      .doc(userId)
+      .collection("settings")
+      .doc("account")
+      .set({ llmQuota, updatedAt: new Date() }, { merge: true });
+
+    Logger.info("LLM quota updated", { userId, ...llmQuota });
+
+    const serverQuota = getServerLlmQuota();
+    return res.json({
+      success: true,
+      quota: {
+        server: serverQuota,
+        user: llmQuota,
+        effective: mergeLlmQuotas(serverQuota, llmQuota)
+      }
+    });
+  } catch (error: any) {
+    Logger.error("Error in PUT /api/llm/quota", {
+      error: error?.message || String(error),
+      userId: req.user?.uid
+    });
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при сохранении лимитов"
+    });
+  }
+});
+
+export default router;
@@ -1,12 +1,36 @@
 import { Router } from "express";
 import { authRequired } from "../middleware/auth";
+import { userRateLimit } from "../middleware/rateLimit";
+import { Logger } from "../utils/logger";
+import { chatCompletion } from "../services/llm/llmClient";
+import { getAllowedOpenAiModels, getLlmProvider, resolveLlmSelection } from "../services/llm/providerRegistry";
+import { LlmError } from "../services/llm/types";
+import { DEFAULT_PROMPT_PROXY_LIMITS, validatePromptProxyRequest } from "../utils/promptProxyValidation";
 
 const router = Router();
 
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+const proxyRateLimit = userRateLimit({
+  name: "prompt-openai",
+  windowMs: 60 * 1000,
+  max: () => readPositiveInt("LLM_PROXY_RATE_LIMIT_PER_MINUTE", 20)
+});
+
 /**
  * POST /api/prompt/openai
  * 
- * Проксирует запросы к OpenAI API через backend.
+ * Проксирует запросы генерации сценариев к LLM через backend.
+ * Тело запроса — в формате OpenAI Chat Completions, ответ — тоже (choices[0].message.content),
+ * даже если у пользователя или канала выбран другой провайдер.
+ * Необязательное поле channelId включает настройку провайдера канала.
+ *
+ * Запрос проверяется по контракту (utils/promptProxyValidation): разрешённые модели, потолок max_tokens,
+ * размер сообщений, без tools/functions. Частота — LLM_PROXY_RATE_LIMIT_PER_MINUTE запросов в минуту на пользователя.
+ * Ошибки возвращаются как { error: <текст>, code, field? } — frontend сопоставляет code с понятным сообщением.
  * 
  * ТРЕБУЕТ АВТОРИЗАЦИЮ:
  * - Заголовок: Authorization: Bearer <firebase-id-token>
@@ -20,81 +44,86 @@ const router = Router();
  * 2. Проверьте, что Firebase Admin SDK инициализирован на backend
  * 3. Проверьте логи backend для деталей ошибки
  */
-router.post("/openai", authRequired, async (req, res) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    return res.status(500).json({
-      error: "OpenAI API ключ не настроен на сервере"
+router.post("/openai", authRequired, proxyRateLimit, async (req, res) => {
+  const allowedModels = getAllowedOpenAiModels();
+  const validation = validatePromptProxyRequest(req.body, {
+    ...DEFAULT_PROMPT_PROXY_LIMITS,
+    maxTokensCeiling: readPositiveInt("LLM_MAX_TOKENS_CEILING", DEFAULT_PROMPT_PROXY_LIMITS.maxTokensCeiling),
+    allowedModels
+  });
+
+  if (!validation.ok) {
+    Logger.warn("Rejected prompt proxy request", {
+      userId: req.user!.uid,
+      code: validation.error.code,
+      field: validation.error.field
     });
-  }
-
-  const requestBody = req.body ?? {};
-
-  if (!requestBody.model || !requestBody.messages) {
     return res.status(400).json({
-      error: "Отсутствуют обязательные поля: model или messages"
+      error: validation.error.message,
+      code: validation.error.code,
+      field: validation.error.field
     });
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 25000);
+  const userId = req.user!.uid;
+  const { request, channelId } = validation;
 
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    const data = await response
-      .json()
-      .catch(() => ({ error: { message: "Не удалось распарсить ответ от OpenAI API" } }));
-
-    return res.status(response.status).json(data);
-  } catch (error: unknown) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === "AbortError") {
-      return res.status(504).json({
-        error:
-          "Превышено время ожидания ответа от OpenAI API. Попробуйте сократить запрос или использовать более быструю модель."
+    const selection = await resolveLlmSelection({ userId, channelId });
+    // Модель из настроек канала или пользователя важнее модели из запроса. Модель из запроса —
+    // это модель OpenAI; для других провайдеров без выбранной модели используется их собственная
+    let model = selection.model || (selection.provider === "openai" ? request.model : undefined);
+    if (selection.provider === "openai" && model && !allowedModels.includes(model)) {
+      // Модель из настроек могли убрать из разрешённых — это не ошибка запроса
+      const fallbackModel = getLlmProvider("openai").defaultModel;
+      Logger.warn("Selected LLM model is not allowed, using provider default model", {
+        userId,
+        channelId,
+        model,
+        fallbackModel
       });
+      model = fallbackModel;
     }
 
-    console.error("Ошибка при проксировании запроса к OpenAI:", error);
-
-    let errorMessage = "Неизвестная ошибка при обработке запроса";
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      if (error.name === "AbortError" || error.message.includes("timeout")) {
-        errorMessage = "Превышено время ожидания ответа от OpenAI API";
-        statusCode = 504;
-      } else if (error.message.includes("fetch")) {
-        errorMessage =
-          "Не удалось подключиться к OpenAI API. Проверьте интернет-соединение.";
-        statusCode = 503;
-      } else {
-        errorMessage = error.message;
+    const result = await chatCompletion(
+      { ...request, model },
+      { purpose: "script_generation", userId, channelId, selection, timeoutMs: 25000 }
+    );
+
+    return res.json({
+      object: "chat.completion",
+      provider: result.provider,
+      model: result.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: result.content },
+          finish_reason: result.finishReason
+        }
+      ],
+      usage: {
+        prompt_tokens: result.usage.promptTokens,
+        completion_tokens: result.usage.completionTokens,
+        total_tokens: result.usage.totalTokens
       }
+    });
+  } catch (error: unknown) {
+    if (error instanceof LlmError) {
+      return res.status(error.status).json({
+        error:
+          error.code === "TIMEOUT"
+            ? `${error.message}. Попробуйте сократить запрос или использовать более быструю модель.`
+            : error.message,
+        code: error.code
+      });
     }
 
-    return res.status(statusCode).json({ error: errorMessage });
+    Logger.error("Ошибка при проксировании запроса к LLM", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Неизвестная ошибка при обработке запроса",
+      code: "INTERNAL_ERROR"
+    });
   }
 });
 
 export default router;
-
-
-
-
-
-
-
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { listPublishers } from "../services/publishers/publisherRegistry";
+
+const router = Router();
+
+/**
+ * GET /api/publishers
+ * Публикаторы сервера для выбора в настройках канала (по платформам).
+ * Ключи и адреса по умолчанию задаются только в окружении сервера и наружу не отдаются.
+ */
+router.get("/", authRequired, (_req, res) => {
+  res.json({ success: true, publishers: listPublishers() });
+});
+
+export default router;
@@ -2,6 +2,18 @@ import { Router } from "express";
 import { authRequired } from "../middleware/auth";
 import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
 import { Logger } from "../utils/logger";
+import {
+  MAX_BLACKOUT_PERIODS,
+  parseIcsCalendar,
+  validateBlackoutPeriod,
+  type BlackoutPeriod
+} from "../utils/blackoutPeriods";
+import {
+  DEFAULT_REFERENCE_TIMEZONE,
+  DEFAULT_SCHEDULE_CONFLICT_POLICY,
+  isValidTimezone,
+  type ScheduleConflictPolicy
+} from "../utils/scheduleConflicts";
 
 const router = Router();
 
@@ -14,6 +26,9 @@ export interface ScheduleSettings {
   minInterval_17_24?: number; // 17:00–24:00
   conflictsCheckEnabled: boolean;
   isAutomationPaused: boolean; // Пауза автоматизации публикаций
+  blackoutPeriods: BlackoutPeriod[]; // Дни, в которые автоматизация не работает для всех каналов
+  referenceTimezone: string; // Опорный часовой пояс, в котором сравниваются расписания каналов
+  conflictPolicy: ScheduleConflictPolicy; // Что делать с новым временем ближе минимального интервала: отклонить или сдвинуть
 }
 
 const DEFAULT_SETTINGS: ScheduleSettings = {
@@ -22,7 +37,10 @@ const DEFAULT_SETTINGS: ScheduleSettings = {
   minInterval_13_17: 11,
   minInterval_17_24: 11,
   conflictsCheckEnabled: true,
-  isAutomationPaused: false
+  isAutomationPaused: false,
+  blackoutPeriods: [],
+  referenceTimezone: DEFAULT_REFERENCE_TIMEZONE,
+  conflictPolicy: DEFAULT_SCHEDULE_CONFLICT_POLICY
 };
 
 function getSettingsDocRef(userId: string) {
@@ -34,6 +52,10 @@ function getSettingsDocRef(userId: string) {
     .doc("schedule");
 }
 
+function isConflictPolicy(value: unknown): value is ScheduleConflictPolicy {
+  return value === "reject" || value === "shift";
+}
+
 /**
  * GET /api/schedule/settings
  * Возвращает настройки расписания для текущего пользователя
@@ -80,7 +102,14 @@ router.get("/settings", authRequired, async (req, res) => {
       isAutomationPaused:
         typeof data?.isAutomationPaused === "boolean"
           ? data.isAutomationPaused
-          : DEFAULT_SETTINGS.isAutomationPaused
+          : DEFAULT_SETTINGS.isAutomationPaused,
+      blackoutPeriods: Array.isArray(data?.blackoutPeriods) ? data.blackoutPeriods : [],
+      referenceTimezone: isValidTimezone(data?.referenceTimezone)
+        ? data.referenceTimezone
+        : DEFAULT_SETTINGS.referenceTimezone,
+      conflictPolicy: isConflictPolicy(data?.conflictPolicy)
+        ? data.conflictPolicy
+        : DEFAULT_SETTINGS.conflictPolicy
     };
 
     res.json(settings);
@@ -118,7 +147,10 @@ router.patch("/settings", authRequired, async (req, res) => {
       minInterval_13_17, 
       minInterval_17_24,
       conflictsCheckEnabled,
-      isAutomationPaused
+      isAutomationPaused,
+      blackoutPeriods,
+      referenceTimezone,
+      conflictPolicy
     } = req.body as Partial<ScheduleSettings>;
 
     const updates: Partial<ScheduleSettings> = {};
@@ -190,6 +222,46 @@ router.patch("/settings", authRequired, async (req, res) => {
       updates.isAutomationPaused = isAutomationPaused;
     }
 
+    if (typeof blackoutPeriods !== "undefined") {
+      if (!Array.isArray(blackoutPeriods) || blackoutPeriods.length > MAX_BLACKOUT_PERIODS) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: `blackoutPeriods должен быть массивом (не более ${MAX_BLACKOUT_PERIODS} периодов)`
+        });
+      }
+      for (const period of blackoutPeriods) {
+        const periodError = validateBlackoutPeriod(period);
+        if (periodError) {
+          return res.status(400).json({
+            error: "Invalid request",
+            message: periodError
+          });
+        }
+      }
+      // Firestore не принимает undefined — убираем такие поля
+      updates.blackoutPeriods = JSON.parse(JSON.stringify(blackoutPeriods));
+    }
+
+    if (typeof referenceTimezone !== "undefined") {
+      if (!isValidTimezone(referenceTimezone)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: "referenceTimezone должен быть часовым поясом IANA, например \"Asia/Almaty\""
+        });
+      }
+      updates.referenceTimezone = referenceTimezone;
+    }
+
+    if (typeof conflictPolicy !== "undefined") {
+      if (!isConflictPolicy(conflictPolicy)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: "conflictPolicy должен быть \"reject\" или \"shift\""
+        });
+      }
+      updates.conflictPolicy = conflictPolicy;
+    }
+
     if (Object.keys(updates).length === 0) {
       return res.status(400).json({
         error: "Invalid request",
@@ -226,7 +298,14 @@ router.patch("/settings", authRequired, async (req, res) => {
       isAutomationPaused:
         typeof data?.isAutomationPaused === "boolean"
           ? data.isAutomationPaused
-          : DEFAULT_SETTINGS.isAutomationPaused
+          : DEFAULT_SETTINGS.isAutomationPaused,
+      blackoutPeriods: Array.isArray(data?.blackoutPeriods) ? data.blackoutPeriods : [],
+      referenceTimezone: isValidTimezone(data?.referenceTimezone)
+        ? data.referenceTimezone
+        : DEFAULT_SETTINGS.referenceTimezone,
+      conflictPolicy: isConflictPolicy(data?.conflictPolicy)
+        ? data.conflictPolicy
+        : DEFAULT_SETTINGS.conflictPolicy
     };
 
     Logger.info("Schedule settings updated", {
@@ -249,6 +328,40 @@ router.patch("/settings", authRequired, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/schedule/blackouts/parse-ics
+ * Разбирает ICS-календарь в периоды блокировки (без сохранения).
+ * Клиент добавляет их к блокировкам пользователя или канала и сохраняет обычным способом.
+ * Body: { ics: string, source?: string }
+ */
+router.post("/blackouts/parse-ics", authRequired, async (req, res) => {
+  const { ics, source } = req.body as { ics?: unknown; source?: unknown };
+
+  if (typeof ics !== "string" || !ics.includes("BEGIN:VCALENDAR")) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: "Передайте содержимое ICS-файла в поле ics"
+    });
+  }
+  if (ics.length > 1_000_000) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: "ICS-файл слишком большой (максимум 1 МБ)"
+    });
+  }
+
+  const sourceName = typeof source === "string" && source.trim() ? source.trim().slice(0, 60) : "calendar";
+  const periods = parseIcsCalendar(ics, sourceName);
+
+  Logger.info("Blackout calendar parsed", {
+    userId: req.user!.uid,
+    source: sourceName,
+    periodsCount: periods.length
+  });
+
+  res.json({ periods });
+});
+
 export default router;
 
 
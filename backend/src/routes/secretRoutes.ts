@@ -0,0 +1,175 @@
+import { Router, type Request, type Response } from "express";
+import { authRequired } from "../middleware/auth";
+import { Logger } from "../utils/logger";
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import { deleteSecret, listMaskedSecrets, putSecret } from "../services/secretVault";
+import { listSecretAuditEntries } from "../repositories/secretVaultRepo";
+import { isSecretKind, validateSecretValue } from "../utils/secrets";
+
+const router = Router();
+
+const MAX_AUDIT_ENTRIES = 200;
+
+function firestoreUnavailable(res: Response) {
+  return res.status(503).json({
+    success: false,
+    error: "Firestore is not available",
+    message: "Firebase Admin не настроен"
+  });
+}
+
+/**
+ * Проверяет, что канал принадлежит пользователю. Пустой channelId — секрет уровня пользователя.
+ */
+async function ensureChannelOwned(userId: string, channelId: string | undefined): Promise<boolean> {
+  if (!channelId) {
+    return true;
+  }
+  const doc = await db!.collection("users").doc(userId).collection("channels").doc(channelId).get();
+  return doc.exists;
+}
+
+function readChannelId(req: Request): string | undefined {
+  const value = req.query.channelId ?? req.body?.channelId;
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * GET /api/secrets?channelId=...
+ * Маски секретов пользователя (или одного канала). Значения наружу не отдаются.
+ */
+router.get("/", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return firestoreUnavailable(res);
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = readChannelId(req);
+    if (!(await ensureChannelOwned(userId, channelId))) {
+      return res.status(404).json({ success: false, error: "CHANNEL_NOT_FOUND", message: "Канал не найден" });
+    }
+    return res.json({ success: true, secrets: await listMaskedSecrets(userId, channelId) });
+  } catch (error: any) {
+    Logger.error("Error in GET /api/secrets", {
+      error: error?.message || String(error),
+      userId: req.user?.uid
+    });
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при получении секретов"
+    });
+  }
+});
+
+/**
+ * GET /api/secrets/audit?channelId=...&limit=100
+ * Журнал доступа к секретам, новые записи первыми
+ */
+router.get("/audit", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return firestoreUnavailable(res);
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = readChannelId(req);
+    if (!(await ensureChannelOwned(userId, channelId))) {
+      return res.status(404).json({ success: false, error: "CHANNEL_NOT_FOUND", message: "Канал не найден" });
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), MAX_AUDIT_ENTRIES);
+    return res.json({ success: true, entries: await listSecretAuditEntries(userId, { channelId, limit }) });
+  } catch (error: any) {
+    Logger.error("Error in GET /api/secrets/audit", {
+      error: error?.message || String(error),
+      userId: req.user?.uid
+    });
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при получении журнала доступа"
+    });
+  }
+});
+
+/**
+ * PUT /api/secrets/:kind  { value, channelId? }
+ * Записывает секрет. Ответ содержит только маску.
+ */
+router.put("/:kind", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return firestoreUnavailable(res);
+  }
+
+  const { kind } = req.params;
+  if (!isSecretKind(kind)) {
+    return res.status(400).json({ success: false, error: "UNKNOWN_SECRET_KIND", message: "Неизвестный вид секрета" });
+  }
+  const valueError = validateSecretValue(req.body?.value);
+  if (valueError) {
+    return res.status(400).json({ success: false, error: "INVALID_SECRET", message: valueError });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = readChannelId(req);
+    if (!(await ensureChannelOwned(userId, channelId))) {
+      return res.status(404).json({ success: false, error: "CHANNEL_NOT_FOUND", message: "Канал не найден" });
+    }
+
+    const secret = await putSecret(userId, kind, req.body.value, { channelId });
+    Logger.info("Secret updated", { userId, kind, channelId: channelId ?? null });
+    return res.json({ success: true, secret });
+  } catch (error: any) {
+    Logger.error("Error in PUT /api/secrets/:kind", {
+      error: error?.message || String(error),
+      userId: req.user?.uid,
+      kind
+    });
+    return res.status(500).json({
+      success: false,
+      error: "ENCRYPTION_FAILED",
+      message: "Не удалось сохранить секрет"
+    });
+  }
+});
+
+/**
+ * DELETE /api/secrets/:kind?channelId=...
+ */
+router.delete("/:kind", authRequired, async (req, res) => {
+  if (!isFirestoreAvailable() || !db) {
+    return firestoreUnavailable(res);
+  }
+
+  const { kind } = req.params;
+  if (!isSecretKind(kind)) {
+    return res.status(400).json({ success: false, error: "UNKNOWN_SECRET_KIND", message: "Неизвестный вид секрета" });
+  }
+
+  try {
+    const userId = req.user!.uid;
+    const channelId = readChannelId(req);
+    if (!(await ensureChannelOwned(userId, channelId))) {
+      return res.status(404).json({ success: false, error: "CHANNEL_NOT_FOUND", message: "Канал не найден" });
+    }
+
+    const deleted = await deleteSecret(userId, kind, channelId);
+    Logger.info("Secret deleted", { userId, kind, channelId: channelId ?? null, deleted });
+    return res.json({ success: true, deleted });
+  } catch (error: any) {
+    Logger.error("Error in DELETE /api/secrets/:kind", {
+      error: error?.message || String(error),
+      userId: req.user?.uid,
+      kind
+    });
+    return res.status(500).json({
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error?.message || "Ошибка при удалении секрета"
+    });
+  }
+});
+
+export default router;
@@ -27,6 +27,7 @@ import { generateVideoFileName } from "../utils/fileUtils";
 import { Logger } from "../utils/logger";
 import { db, isFirestoreAvailable, getFirebaseError } from "../services/firebaseAdmin";
 import { downloadAndUploadVideoToDrive } from "../services/videoDownloadService";
+import { getVideoGenerator } from "../services/videoGenerators/generatorRegistry";
 
 const router = Router();
 
@@ -272,10 +273,23 @@ router.post("/sendPromptToSyntx", authRequired, async (req, res) => {
         transport: channel.generationTransport,
         peer: channel.telegramSyntaxPeer || "не указан"
       });
-      
-      // Используем функцию, которая учитывает настройки канала
-      const { sendPromptToSyntax } = await import("../services/sendPromptFromUserToSyntx");
-      await sendPromptToSyntax(channel as any, userId, prompt);
+
+      // Ручная отправка рассчитана на чат SyntX: видео потом забирается из Telegram.
+      // Генераторы, которые отдают видео сами (http_api, stub), запускаются через run-custom-prompt
+      const generator = getVideoGenerator(channel.generationTransport);
+      if (generator.downloadResult) {
+        Logger.warn("sendPromptToSyntx: канал использует генератор не из Telegram", {
+          userId,
+          channelId,
+          transport: channel.generationTransport
+        });
+        return res.status(400).json({
+          error: "GENERATION_TRANSPORT_NOT_TELEGRAM",
+          message: `Канал генерирует видео через «${generator.label}», а не через SyntX в Telegram. Запустите генерацию кнопкой «Свой промпт» на карточке канала.`
+        });
+      }
+
+      await generator.submit({ userId, channel, prompt });
       
       Logger.info("sendPromptToSyntx: промпт отправлен успешно", {
         userId,
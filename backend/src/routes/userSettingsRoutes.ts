@@ -2,7 +2,10 @@ import { Router } from "express";
 import { authRequired } from "../middleware/auth";
 import { Logger } from "../utils/logger";
 import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
-import { encrypt, decrypt } from "../crypto/aes";
+import * as admin from "firebase-admin";
+import { validateSecretValue } from "../utils/secrets";
+import { deleteSecret, getMaskedSecret, putSecret, readDefaultBlotatoApiKey } from "../services/secretVault";
+import { validateLlmSelection } from "../services/llm/providerRegistry";
 
 const router = Router();
 
@@ -30,34 +33,24 @@ router.get("/", authRequired, async (req, res) => {
         settings: {
           defaultBlottataApiKey: null,
           hasDefaultBlottataApiKey: false,
-          hasSeenChannelWizard: false
+          hasSeenChannelWizard: false,
+          llmProvider: null
         }
       });
     }
 
     const data = settingsDoc.data();
-    let defaultBlottataApiKey: string | null = null;
-
-    // Расшифровываем API ключ, если он есть
-    if (data?.defaultBlottataApiKeyEncrypted) {
-      try {
-        defaultBlottataApiKey = decrypt(data.defaultBlottataApiKeyEncrypted);
-      } catch (decryptError: any) {
-        Logger.error("Failed to decrypt defaultBlottataApiKey", {
-          userId,
-          error: decryptError?.message || String(decryptError)
-        });
-        // Если не удалось расшифровать, возвращаем null
-        defaultBlottataApiKey = null;
-      }
-    }
+    // Ключ хранится в хранилище секретов; клиенту отдаём только маску
+    const defaultKeySecret = await getMaskedSecret(userId, "blotato_api_key");
+    const hasDefaultKey = Boolean(defaultKeySecret || data?.defaultBlottataApiKeyEncrypted);
 
     return res.json({
       success: true,
       settings: {
-        defaultBlottataApiKey: defaultBlottataApiKey ? "****" : null, // Возвращаем маскированное значение
-        hasDefaultBlottataApiKey: !!defaultBlottataApiKey,
-        hasSeenChannelWizard: data?.hasSeenChannelWizard ?? false
+        defaultBlottataApiKey: hasDefaultKey ? defaultKeySecret?.masked ?? "****" : null,
+        hasDefaultBlottataApiKey: hasDefaultKey,
+        hasSeenChannelWizard: data?.hasSeenChannelWizard ?? false,
+        llmProvider: data?.llmProvider ?? null
       }
     });
   } catch (error: any) {
@@ -90,7 +83,18 @@ router.put("/", authRequired, async (req, res) => {
 
   try {
     const userId = req.user!.uid;
-    const { defaultBlottataApiKey, hasSeenChannelWizard } = req.body;
+    const { defaultBlottataApiKey, hasSeenChannelWizard, llmProvider } = req.body;
+
+    if (llmProvider !== undefined) {
+      const llmProviderError = validateLlmSelection(llmProvider);
+      if (llmProviderError) {
+        return res.status(400).json({
+          success: false,
+          error: "INVALID_LLM_PROVIDER",
+          message: llmProviderError
+        });
+      }
+    }
 
     Logger.info("PUT /api/user-settings: updating settings", {
       userId,
@@ -104,16 +108,21 @@ router.put("/", authRequired, async (req, res) => {
       updatedAt: new Date()
     };
 
-    // Если передан ключ, шифруем и сохраняем
+    // Ключ по умолчанию пишется в хранилище секретов; устаревшее поле настроек убираем
     if (defaultBlottataApiKey !== undefined) {
       if (defaultBlottataApiKey === null || defaultBlottataApiKey === "") {
-        // Удаляем ключ
-        updateData.defaultBlottataApiKeyEncrypted = null;
+        await deleteSecret(userId, "blotato_api_key");
       } else {
-        // Шифруем и сохраняем
+        const valueError = validateSecretValue(defaultBlottataApiKey);
+        if (valueError) {
+          return res.status(400).json({
+            success: false,
+            error: "INVALID_SECRET",
+            message: valueError
+          });
+        }
         try {
-          const encrypted = encrypt(defaultBlottataApiKey.trim());
-          updateData.defaultBlottataApiKeyEncrypted = encrypted;
+          await putSecret(userId, "blotato_api_key", defaultBlottataApiKey);
         } catch (encryptError: any) {
           Logger.error("Failed to encrypt defaultBlottataApiKey", {
             userId,
@@ -126,6 +135,7 @@ router.put("/", authRequired, async (req, res) => {
           });
         }
       }
+      updateData.defaultBlottataApiKeyEncrypted = admin.firestore.FieldValue.delete();
     }
 
     // Если передан флаг hasSeenChannelWizard, сохраняем его
@@ -133,6 +143,13 @@ router.put("/", authRequired, async (req, res) => {
       updateData.hasSeenChannelWizard = Boolean(hasSeenChannelWizard);
     }
 
+    // LLM-провайдер по умолчанию для каналов пользователя (null — провайдер сервера)
+    if (llmProvider !== undefined) {
+      updateData.llmProvider = llmProvider
+        ? { provider: llmProvider.provider, model: llmProvider.model?.trim() || null }
+        : null;
+    }
+
     await settingsRef.set(updateData, { merge: true });
 
     Logger.info("User settings updated successfully", {
@@ -160,38 +177,17 @@ router.put("/", authRequired, async (req, res) => {
 });
 
 /**
- * GET /api/user-settings/default-blottata-api-key
- * Получает расшифрованный API ключ для использования при создании канала
+ * Расшифрованный ключ Blotato пользователя по умолчанию
  * (используется только на backend, не экспортируется в frontend)
  */
-export async function getDefaultBlottataApiKey(userId: string): Promise<string | null> {
+export async function getDefaultBlottataApiKey(userId: string, purpose = "default_key"): Promise<string | null> {
   if (!isFirestoreAvailable() || !db) {
     Logger.warn("Firestore is not available, cannot get default Blottata API key", { userId });
     return null;
   }
 
   try {
-    const settingsRef = db.collection("users").doc(userId).collection("settings").doc("account");
-    const settingsDoc = await settingsRef.get();
-
-    if (!settingsDoc.exists) {
-      return null;
-    }
-
-    const data = settingsDoc.data();
-    if (!data?.defaultBlottataApiKeyEncrypted) {
-      return null;
-    }
-
-    try {
-      return decrypt(data.defaultBlottataApiKeyEncrypted);
-    } catch (decryptError: any) {
-      Logger.error("Failed to decrypt defaultBlottataApiKey", {
-        userId,
-        error: decryptError?.message || String(decryptError)
-      });
-      return null;
-    }
+    return await readDefaultBlotatoApiKey(userId, purpose);
   } catch (error: any) {
     Logger.error("Error getting default Blottata API key", {
       userId,
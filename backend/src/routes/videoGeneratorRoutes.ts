@@ -0,0 +1,94 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { enqueueJob, getJobStore } from "../services/jobQueue";
+import { processJobWorkerTick } from "../services/jobWorker";
+import { listVideoGenerators } from "../services/videoGenerators/generatorRegistry";
+import {
+  parseHttpGenerationStatus,
+  verifyHttpCallbackToken
+} from "../services/videoGenerators/httpApiGenerator";
+import type { Job } from "../types/job";
+import { Logger } from "../utils/logger";
+
+const router = Router();
+
+/**
+ * GET /api/video-generators
+ * Генераторы видео сервера для выбора в настройках канала.
+ * Адреса и ключи внешних API задаются только в окружении сервера и наружу не отдаются.
+ */
+router.get("/", authRequired, (_req, res) => {
+  res.json({ success: true, generators: listVideoGenerators() });
+});
+
+/**
+ * POST /api/video-generators/http/callback?userId=...&channelId=...&messageId=...&token=...
+ * Результат генерации от внешнего HTTP API (режим VIDEO_API_MODE=callback).
+ * Тело — как ответ статуса генерации: { status, videoUrl?, error? }.
+ * Задача скачивания перепланируется на «сейчас», отложенный опрос остаётся запасным вариантом.
+ */
+router.post("/http/callback", async (req, res) => {
+  const secret = process.env.VIDEO_API_CALLBACK_SECRET;
+  if (!secret) {
+    Logger.warn("VIDEO_API_CALLBACK_SECRET is not configured, http/callback endpoint is disabled");
+    return res.status(500).json({ success: false, error: "VIDEO_API_CALLBACK_SECRET is not configured" });
+  }
+
+  const userId = String(req.query.userId || "");
+  const channelId = String(req.query.channelId || "");
+  const messageId = Number(req.query.messageId);
+  const token = String(req.query.token || "");
+  if (!userId || !channelId || !Number.isInteger(messageId) || !token) {
+    return res.status(400).json({ success: false, error: "INVALID_CALLBACK", message: "Неполный адрес callback" });
+  }
+  if (!verifyHttpCallbackToken({ userId, channelId, messageId }, token, secret)) {
+    Logger.warn("Unauthorized access attempt to /api/video-generators/http/callback", { channelId, messageId });
+    return res.status(403).json({ success: false, error: "FORBIDDEN" });
+  }
+
+  const status = parseHttpGenerationStatus(req.body);
+  if (status.status === "pending") {
+    return res.json({ success: true, queued: false });
+  }
+
+  try {
+    const dedupeKey = `${channelId}_${messageId}`;
+    const job = (await getJobStore().findActiveByDedupeKey(dedupeKey)) as Job<"telegram_auto_download"> | null;
+    if (!job) {
+      Logger.warn("videoGeneratorRoutes: no active download job for callback", { channelId, messageId });
+      return res.status(404).json({ success: false, error: "JOB_NOT_FOUND" });
+    }
+
+    // При ошибке генерации задача сама получит статус failed при опросе API и уйдёт в dead-letter
+    await enqueueJob({
+      type: "telegram_auto_download",
+      payload: status.status === "completed" ? { ...job.payload, resultUrl: status.videoUrl } : job.payload,
+      runAt: new Date(),
+      dedupeKey,
+      userId,
+      channelId
+    });
+
+    Logger.info("videoGeneratorRoutes: generation callback received", {
+      channelId,
+      messageId,
+      jobId: job.id,
+      status: status.status
+    });
+
+    // Отвечаем сразу: скачивание и загрузка в Drive могут занять минуты
+    processJobWorkerTick().catch((error) => {
+      Logger.error("videoGeneratorRoutes: job worker tick after callback failed", error);
+    });
+
+    return res.json({ success: true, queued: true });
+  } catch (error) {
+    Logger.error("videoGeneratorRoutes: failed to handle generation callback", error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
+import { migrateUserSecrets } from "../services/secretVault";
+
+/**
+ * Переносит открытые channel.blotataApiKey и устаревшие settings/account.defaultBlottataApiKeyEncrypted
+ * в хранилище секретов. Повторный запуск безопасен: уже перенесённые значения пропускаются.
+ */
+async function main() {
+  if (!isFirestoreAvailable() || !db) {
+    // eslint-disable-next-line no-console
+    console.error("Firestore недоступен: проверьте настройки Firebase Admin в .env");
+    process.exit(1);
+  }
+
+  // listDocuments возвращает и пользователей без собственного документа (только с подколлекциями)
+  const users = await db.collection("users").listDocuments();
+  let migratedChannels = 0;
+  let migratedDefaults = 0;
+
+  for (const userRef of users) {
+    const result = await migrateUserSecrets(userRef.id);
+    migratedChannels += result.channels;
+    migratedDefaults += result.defaultKey ? 1 : 0;
+    if (result.channels > 0 || result.defaultKey) {
+      // eslint-disable-next-line no-console
+      console.log(`${userRef.id}: каналов ${result.channels}, ключ по умолчанию: ${result.defaultKey ? "да" : "нет"}`);
+    }
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `Готово. Пользователей: ${users.length}, ключей каналов: ${migratedChannels}, ключей по умолчанию: ${migratedDefaults}`
+  );
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error("Ошибка миграции секретов:", error);
+  process.exit(1);
+});
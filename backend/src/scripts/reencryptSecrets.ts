@@ -0,0 +1,42 @@
+import "dotenv/config";
+import { describeKeyring } from "../crypto/aes";
+import { isFirestoreAvailable } from "../services/firebaseAdmin";
+import { reencryptStoredSecrets } from "../services/cryptoRotation";
+
+/**
+ * Перешифровывает сохранённые значения активным ключом из CRYPTO_KEYS.
+ * Запуск: npm run crypto:reencrypt [-- --dry-run]
+ */
+async function main() {
+  if (!isFirestoreAvailable()) {
+    // eslint-disable-next-line no-console
+    console.error("Firestore недоступен: проверьте настройки Firebase Admin в .env");
+    process.exit(1);
+  }
+
+  const dryRun = process.argv.includes("--dry-run");
+  const keyring = describeKeyring();
+  // eslint-disable-next-line no-console
+  console.log(`Активный ключ: ${keyring.activeKeyId}, ключи: ${keyring.keyIds.join(", ")}${dryRun ? " (dry run)" : ""}`);
+
+  const report = await reencryptStoredSecrets({ dryRun });
+  let failed = 0;
+  for (const [name, source] of Object.entries(report.sources)) {
+    failed += source.failed;
+    // eslint-disable-next-line no-console
+    console.log(
+      `${name}: просмотрено ${source.scanned}, перешифровано ${source.reencrypted}, актуальных ${source.current}, открытых ${source.plaintext}, ошибок ${source.failed}`
+    );
+    for (const item of source.errors) {
+      // eslint-disable-next-line no-console
+      console.log(`  ${item.path}: ${item.error}`);
+    }
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error("Ошибка перешифровки:", error);
+  process.exit(1);
+});
@@ -15,11 +15,15 @@ if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET || !GOOGLE_OAUTH_REDIRECT_URL) {
   Logger.warn("Google OAuth credentials not fully configured. Some features may not work.");
 }
 
-// Версия scopes для отслеживания миграций
+// Версия scopes для отслеживания миграций.
+// youtube.upload в версию не входит: без него Drive работает, его наличие проверяет только публикатор youtube_api
 export const SCOPES_VERSION = 2;
 
+const YOUTUBE_UPLOAD_SCOPE = "https://www.googleapis.com/auth/youtube.upload";
+
 const scopes = [
   "https://www.googleapis.com/auth/drive", // Полный доступ к Google Drive
+  YOUTUBE_UPLOAD_SCOPE, // Прямая публикация на YouTube (публикатор youtube_api)
   "https://www.googleapis.com/auth/userinfo.email", // Email пользователя
   "openid" // OpenID Connect
 ];
@@ -99,6 +103,9 @@ export async function handleOAuthCallback(
     // Проверяем, есть ли уже интеграция
     const existingIntegration = await findGoogleDriveIntegrationByUserId(userId);
 
+    // Пользователь может снять галочку YouTube на экране согласия Google
+    const youtubeUploadGranted = (tokens.scope || "").split(" ").includes(YOUTUBE_UPLOAD_SCOPE);
+
     const expiryDate = tokens.expiry_date 
       ? tokens.expiry_date 
       : Date.now() + 3600 * 1000; // По умолчанию 1 час, если не указано
@@ -112,7 +119,8 @@ export async function handleOAuthCallback(
         email: email || existingIntegration.email,
         status: "active",
         lastError: null,
-        scopesVersion: SCOPES_VERSION
+        scopesVersion: SCOPES_VERSION,
+        youtubeUploadGranted
       });
       
       Logger.info("Google Drive integration updated", {
@@ -132,7 +140,8 @@ export async function handleOAuthCallback(
         tokens.refresh_token,
         expiryDate,
         email,
-        SCOPES_VERSION
+        SCOPES_VERSION,
+        youtubeUploadGranted
       );
       
       Logger.info("Google Drive integration created", {
@@ -179,6 +188,14 @@ export async function getIntegrationStatus(userId: string): Promise<{
   }
 }
 
+/**
+ * Выдал ли пользователь доступ к загрузке на YouTube (проверяет публикатор youtube_api)
+ */
+export async function hasYoutubeUploadScope(userId: string): Promise<boolean> {
+  const integration = await findGoogleDriveIntegrationByUserId(userId);
+  return integration?.status === "active" && integration.youtubeUploadGranted === true;
+}
+
 /**
  * Получает валидный access token для пользователя (обновляет при необходимости)
  */
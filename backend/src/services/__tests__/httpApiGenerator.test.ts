@@ -0,0 +1,41 @@
+/**
+ * Тесты для генератора видео через внешний HTTP API
+ *
+ * Проверяет:
+ * - Разбор ответа о статусе генерации
+ * - Подпись и проверку токена callback
+ */
+
+import {
+  parseHttpGenerationStatus,
+  signHttpCallbackToken,
+  verifyHttpCallbackToken
+} from "../videoGenerators/httpApiGenerator";
+
+describe("httpApiGenerator", () => {
+  it("should parse generation status", () => {
+    expect(parseHttpGenerationStatus({ status: "processing" })).toEqual({ status: "pending" });
+    expect(parseHttpGenerationStatus({ status: "completed", videoUrl: "https://cdn/v.mp4" })).toEqual({
+      status: "completed",
+      videoUrl: "https://cdn/v.mp4"
+    });
+    expect(parseHttpGenerationStatus({ status: "succeeded", video_url: "https://cdn/v.mp4" })).toEqual({
+      status: "completed",
+      videoUrl: "https://cdn/v.mp4"
+    });
+    // Готовый статус без ссылки на видео — ещё не результат
+    expect(parseHttpGenerationStatus({ status: "done" })).toEqual({ status: "pending" });
+    expect(parseHttpGenerationStatus({ status: "failed", error: "NSFW" })).toEqual({ status: "failed", error: "NSFW" });
+    expect(parseHttpGenerationStatus(null)).toEqual({ status: "pending" });
+  });
+
+  it("should verify callback tokens only for the signed generation", () => {
+    const target = { userId: "u1", channelId: "c1", messageId: 1760000000000 };
+    const token = signHttpCallbackToken(target, "secret");
+
+    expect(verifyHttpCallbackToken(target, token, "secret")).toBe(true);
+    expect(verifyHttpCallbackToken({ ...target, messageId: 1 }, token, "secret")).toBe(false);
+    expect(verifyHttpCallbackToken(target, token, "other")).toBe(false);
+    expect(verifyHttpCallbackToken(target, "short", "secret")).toBe(false);
+  });
+});
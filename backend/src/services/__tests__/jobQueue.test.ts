@@ -0,0 +1,172 @@
+/**
+ * Тесты для персистентной очереди задач
+ *
+ * Проверяет:
+ * - Дедупликацию по dedupeKey (захваченная задача не перепланируется)
+ * - Повторные попытки с экспоненциальной задержкой
+ * - Перевод в dead-letter и возврат в очередь
+ * - Повторный захват задачи после истечения lease
+ * - Dead-letter вместо захвата, если попытки исчерпаны истечением lease
+ * - Итог не записывается, если lease перешёл другому воркеру
+ */
+
+import { createInMemoryJobStore } from "../../repositories/jobQueueRepo";
+import {
+  enqueueJob,
+  getJobStore,
+  getRetryDelayMs,
+  PermanentJobError,
+  processJobQueueTick,
+  registerJobHandler,
+  requeueDeadJob,
+  setJobStore
+} from "../jobQueue";
+import type { AutoDownloadJobPayload } from "../../types/job";
+
+const payload: AutoDownloadJobPayload = {
+  channelId: "channel-1",
+  scheduleId: "schedule-1",
+  userId: "user-1",
+  telegramMessageId: 42,
+  chatId: "chat-1"
+};
+
+describe("jobQueue", () => {
+  beforeEach(() => {
+    setJobStore(createInMemoryJobStore());
+  });
+
+  it("should compute exponential backoff capped at 30 minutes", () => {
+    expect(getRetryDelayMs(1)).toBe(60 * 1000);
+    expect(getRetryDelayMs(2)).toBe(2 * 60 * 1000);
+    expect(getRetryDelayMs(3)).toBe(4 * 60 * 1000);
+    expect(getRetryDelayMs(10)).toBe(30 * 60 * 1000);
+  });
+
+  it("should reschedule pending job with the same dedupeKey instead of duplicating", async () => {
+    const first = await enqueueJob({ type: "telegram_auto_download", payload, dedupeKey: "channel-1_42" });
+    const second = await enqueueJob({
+      type: "telegram_auto_download",
+      payload,
+      dedupeKey: "channel-1_42",
+      runAt: new Date(Date.now() + 60 * 1000)
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(await getJobStore().list({ status: "pending" })).toHaveLength(1);
+  });
+
+  it("should keep the lease of a claimed job when the same dedupeKey is enqueued again", async () => {
+    const store = getJobStore();
+    const first = await enqueueJob({ type: "telegram_auto_download", payload, dedupeKey: "channel-1_42" });
+    const claimed = await store.tryClaim(first.id, "worker-1", new Date(), 60 * 1000);
+
+    const second = await enqueueJob({ type: "telegram_auto_download", payload, dedupeKey: "channel-1_42", runAt: new Date() });
+
+    expect(second.id).toBe(first.id);
+    const stored = await store.findById(first.id);
+    expect(stored?.status).toBe("running");
+    expect(stored?.availableAt).toBe(claimed?.availableAt);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should complete job when handler succeeds", async () => {
+    const handled: number[] = [];
+    registerJobHandler("telegram_auto_download", async (p) => {
+      handled.push(p.telegramMessageId);
+    });
+
+    const job = await enqueueJob({ type: "telegram_auto_download", payload });
+    const result = await processJobQueueTick();
+
+    expect(result).toEqual({ claimed: 1, completed: 1, retried: 0, dead: 0, lost: 0 });
+    expect(handled).toEqual([42]);
+    expect((await getJobStore().findById(job.id))?.status).toBe("completed");
+  });
+
+  it("should retry failed job with backoff and dead-letter after maxAttempts", async () => {
+    registerJobHandler("telegram_auto_download", async () => {
+      throw new Error("Video not ready");
+    });
+
+    const job = await enqueueJob({ type: "telegram_auto_download", payload, maxAttempts: 2 });
+
+    const firstTick = await processJobQueueTick();
+    expect(firstTick.retried).toBe(1);
+    const afterFirst = await getJobStore().findById(job.id);
+    expect(afterFirst?.status).toBe("pending");
+    expect(afterFirst?.attempts).toBe(1);
+    expect(afterFirst?.lastError).toBe("Video not ready");
+
+    // Задача не захватывается до окончания backoff
+    expect((await processJobQueueTick()).claimed).toBe(0);
+
+    const secondTick = await processJobQueueTick({ now: new Date(Date.now() + 2 * 60 * 1000) });
+    expect(secondTick.dead).toBe(1);
+    expect((await getJobStore().findById(job.id))?.status).toBe("dead");
+
+    const requeued = await requeueDeadJob(job.id);
+    expect(requeued?.status).toBe("pending");
+    expect(requeued?.attempts).toBe(0);
+  });
+
+  it("should dead-letter immediately on PermanentJobError", async () => {
+    registerJobHandler("telegram_auto_download", async () => {
+      throw new PermanentJobError("Канал не найден");
+    });
+
+    const job = await enqueueJob({ type: "telegram_auto_download", payload });
+    const result = await processJobQueueTick();
+
+    expect(result.dead).toBe(1);
+    expect((await getJobStore().findById(job.id))?.attempts).toBe(1);
+  });
+
+  it("should reclaim running job after lease expiry", async () => {
+    const store = getJobStore();
+    const job = await enqueueJob({ type: "telegram_auto_download", payload });
+    const now = new Date();
+
+    // Имитируем инстанс, который захватил задачу и упал
+    expect(await store.tryClaim(job.id, "crashed-worker", now, 60 * 1000)).not.toBeNull();
+    expect(await store.tryClaim(job.id, "other-worker", now, 60 * 1000)).toBeNull();
+
+    const reclaimed = await store.tryClaim(job.id, "other-worker", new Date(now.getTime() + 61 * 1000), 60 * 1000);
+    expect(reclaimed?.leaseOwner).toBe("other-worker");
+    expect(reclaimed?.attempts).toBe(2);
+  });
+
+  it("should dead-letter instead of reclaiming when attempts are exhausted by lease expiry", async () => {
+    const store = getJobStore();
+    registerJobHandler("telegram_auto_download", async () => undefined);
+    const job = await enqueueJob({ type: "telegram_auto_download", payload, maxAttempts: 2 });
+    const now = new Date();
+
+    // Воркер дважды падает, не успев записать итог
+    await store.tryClaim(job.id, "crashed-worker", now, 60 * 1000);
+    await store.tryClaim(job.id, "crashed-worker", new Date(now.getTime() + 61 * 1000), 60 * 1000);
+
+    const result = await processJobQueueTick({ now: new Date(now.getTime() + 122 * 1000) });
+    expect(result).toEqual({ claimed: 0, completed: 0, retried: 0, dead: 1, lost: 0 });
+    const stored = await store.findById(job.id);
+    expect(stored?.status).toBe("dead");
+    expect(stored?.attempts).toBe(2);
+    expect(stored?.leaseOwner).toBeNull();
+  });
+
+  it("should not overwrite job state after lease moved to another worker", async () => {
+    const store = getJobStore();
+    registerJobHandler("telegram_auto_download", async (_p, job) => {
+      // Пока обработчик работает, lease истекает и задачу забирает другой инстанс
+      await store.tryClaim(job.id, "other-worker", new Date(Date.now() + 2 * 60 * 1000), 60 * 1000);
+    });
+
+    const job = await enqueueJob({ type: "telegram_auto_download", payload });
+    const result = await processJobQueueTick({ leaseMs: 60 * 1000 });
+
+    expect(result).toEqual({ claimed: 1, completed: 0, retried: 0, dead: 0, lost: 1 });
+    const stored = await store.findById(job.id);
+    expect(stored?.status).toBe("running");
+    expect(stored?.leaseOwner).toBe("other-worker");
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Тесты для общего LLM-клиента
+ *
+ * Проверяет:
+ * - Вызов через fake-провайдер без сети и учёт токенов
+ * - Повтор временных ошибок провайдера
+ * - Отказ без повторов для постоянных ошибок
+ * - Замену сохранённой неразрешённой модели OpenAI моделью провайдера по умолчанию
+ */
+
+import { chatCompletion } from "../llm/llmClient";
+import { createFakeProvider } from "../llm/fakeProvider";
+import { resolveLlmSelection } from "../llm/providerRegistry";
+import { LlmError, type LlmProvider } from "../llm/types";
+
+function createFlakyProvider(failures: LlmError[]): LlmProvider & { calls: number } {
+  const fake = createFakeProvider({ enabled: true });
+  const provider = {
+    ...fake,
+    calls: 0,
+    async chat(request: Parameters<LlmProvider["chat"]>[0], signal: AbortSignal) {
+      provider.calls++;
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return fake.chat(request, signal);
+    }
+  };
+  return provider;
+}
+
+describe("llmClient", () => {
+  it("should answer through the fake provider", async () => {
+    const result = await chatCompletion(
+      { messages: [{ role: "system", content: "Ты помощник" }, { role: "user", content: "Привет" }] },
+      { purpose: "test", provider: createFakeProvider({ enabled: true }) }
+    );
+    expect(result.provider).toBe("fake");
+    expect(result.content).toBe("[fake-echo] Привет");
+    expect(result.usage.totalTokens).toBe(result.usage.promptTokens + result.usage.completionTokens);
+
+    const json = await chatCompletion(
+      { model: "fake-json", messages: [{ role: "user", content: "идея" }], jsonMode: true },
+      { purpose: "test", provider: createFakeProvider({ enabled: true }) }
+    );
+    expect(JSON.parse(json.content)).toEqual({ fake: true, echo: "идея" });
+    expect(json.model).toBe("fake-json");
+  });
+
+  it("should retry transient errors", async () => {
+    const provider = createFlakyProvider([
+      new LlmError("rate limited", { status: 429, code: "RATE_LIMITED", retryable: true }),
+      new LlmError("bad gateway", { status: 502, code: "UPSTREAM_ERROR", retryable: true })
+    ]);
+    const result = await chatCompletion(
+      { messages: [{ role: "user", content: "ещё раз" }] },
+      { purpose: "test", provider, retryDelayMs: 0 }
+    );
+    expect(result.content).toBe("[fake-echo] ещё раз");
+    expect(provider.calls).toBe(3);
+  });
+
+  it("should not retry permanent errors", async () => {
+    const provider = createFlakyProvider([new LlmError("invalid key", { status: 401, code: "UNAUTHORIZED" })]);
+    let caught: LlmError | null = null;
+    try {
+      await chatCompletion({ messages: [{ role: "user", content: "x" }] }, { purpose: "test", provider, retryDelayMs: 0 });
+    } catch (error) {
+      caught = error as LlmError;
+    }
+    expect(caught?.status).toBe(401);
+    expect(provider.calls).toBe(1);
+  });
+
+  it("should keep the provider but drop a stored OpenAI model that is no longer allowed", async () => {
+    const saved = { OPENAI_API_KEY: process.env.OPENAI_API_KEY, LLM_DEFAULT_PROVIDER: process.env.LLM_DEFAULT_PROVIDER };
+    process.env.OPENAI_API_KEY = "test-key";
+    // Провайдер сервера — другой, чтобы было видно, что выбор канала не отброшен целиком
+    process.env.LLM_DEFAULT_PROVIDER = "fake";
+    try {
+      const selection = await resolveLlmSelection({ channelSelection: { provider: "openai", model: "gpt-removed" } });
+      expect(selection).toEqual({ provider: "openai", model: null });
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    }
+  });
+});
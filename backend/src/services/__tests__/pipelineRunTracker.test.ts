@@ -0,0 +1,97 @@
+/**
+ * Тесты для трекинга прогонов конвейера
+ *
+ * Проверяет:
+ * - Итоговый статус: partial важнее failed, failed важнее in_progress
+ * - Объединение состояния этапа с сохранённым и пересчёт статуса
+ */
+
+import { derivePipelineRunStatus, withStage } from "../pipelineRunTracker";
+import type { PipelinePublication, PipelineRun } from "../../types/pipelineRun";
+
+const published: PipelinePublication = { platform: "youtube", success: true };
+const rejected: PipelinePublication = { platform: "tiktok", success: false, error: "Rate limited" };
+
+function createRun(overrides: Partial<PipelineRun> = {}): PipelineRun {
+  return {
+    id: "tg_1",
+    userId: "u1",
+    channelId: "ch-1",
+    mode: "auto",
+    publications: [],
+    stages: {},
+    status: "in_progress",
+    createdAt: "2026-10-19T10:00:00.000Z",
+    updatedAt: "2026-10-19T10:00:00.000Z",
+    ...overrides
+  };
+}
+
+describe("pipelineRunTracker", () => {
+  it("should derive run status with partial, failed and in_progress precedence", () => {
+    const partial = derivePipelineRunStatus({
+      stages: { drive_upload: { status: "failed" }, publish: { status: "failed" }, archive: { status: "pending" } },
+      publications: [published, rejected]
+    });
+    expect(partial).toBe("partial");
+
+    const failed = derivePipelineRunStatus({
+      stages: { publish: { status: "failed" }, archive: { status: "pending" } },
+      publications: [rejected]
+    });
+    expect(failed).toBe("failed");
+
+    // Успешная публикация не делает прогон частичным, если упал не этап публикации
+    expect(
+      derivePipelineRunStatus({
+        stages: { publish: { status: "success" }, archive: { status: "failed" } },
+        publications: [published]
+      })
+    ).toBe("failed");
+    expect(
+      derivePipelineRunStatus({
+        stages: { prompt_sent: { status: "success" }, drive_upload: { status: "pending" } },
+        publications: []
+      })
+    ).toBe("in_progress");
+    expect(
+      derivePipelineRunStatus({
+        stages: { prompt_sent: { status: "success" }, publish: { status: "skipped" } },
+        publications: []
+      })
+    ).toBe("completed");
+  });
+
+  it("should merge stage state into the stored one and recompute status", () => {
+    const scheduled = withStage(
+      createRun({ stages: { prompt_sent: { status: "success" } } }),
+      "drive_upload",
+      { status: "pending", scheduledFor: "2026-10-19T10:10:00.000Z" },
+      "2026-10-19T10:01:00.000Z"
+    );
+    expect(scheduled.status).toBe("in_progress");
+    expect(scheduled.updatedAt).toBe("2026-10-19T10:01:00.000Z");
+
+    const failed = withStage(
+      scheduled,
+      "drive_upload",
+      { status: "failed", finishedAt: "2026-10-19T10:12:00.000Z", error: "Drive quota exceeded" },
+      "2026-10-19T10:12:00.000Z"
+    );
+    expect(failed.stages.drive_upload).toEqual({
+      status: "failed",
+      scheduledFor: "2026-10-19T10:10:00.000Z",
+      finishedAt: "2026-10-19T10:12:00.000Z",
+      error: "Drive quota exceeded"
+    });
+    expect(failed.stages.prompt_sent).toEqual({ status: "success" });
+    expect(failed.status).toBe("failed");
+    expect(failed.lastError).toBe("Drive quota exceeded");
+
+    // Повтор этапа исправляет статус, последняя ошибка остаётся для истории
+    const retried = withStage(failed, "drive_upload", { status: "success", error: null }, "2026-10-19T10:20:00.000Z");
+    expect(retried.stages.drive_upload?.scheduledFor).toBe("2026-10-19T10:10:00.000Z");
+    expect(retried.status).toBe("completed");
+    expect(retried.lastError).toBe("Drive quota exceeded");
+  });
+});
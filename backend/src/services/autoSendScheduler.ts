@@ -2,6 +2,36 @@ import { db, isFirestoreAvailable, getFirestoreInfo } from "./firebaseAdmin";
 import { Logger } from "../utils/logger";
 import { generateAndSendPromptForChannel } from "./autoSendService";
 import { scheduleAutoDownload } from "./scheduledTasks";
+import { trackPromptSent } from "./pipelineRunTracker";
+import { enqueueJob, PermanentJobError } from "./jobQueue";
+import {
+  formatLocalTimeInTimezone,
+  getLocalDateInTimezone,
+  getScheduleOccurrencesBetween,
+  getScheduleTimesForDate,
+  type ScheduleRule
+} from "../utils/scheduleRules";
+import {
+  MISSED_RUN_LOOKBACK_HOURS,
+  normalizeMissedRunPolicy,
+  planMissedRuns,
+  type MissedRunPolicy
+} from "../utils/missedRunPolicy";
+import {
+  getMissedRunDecisionId,
+  createMissedRunDecisions,
+  updateMissedRunDecision
+} from "../repositories/missedRunDecisionRepo";
+import type { MissedRunDecision } from "../types/missedRunDecision";
+import { findBlackoutForDate, type BlackoutPeriod } from "../utils/blackoutPeriods";
+import type { GenerationTransport } from "../types/channel";
+import type { AutoSendSlotJobPayload } from "../types/job";
+import {
+  DEFAULT_REFERENCE_TIMEZONE,
+  getMinIntervalForMinutes,
+  isValidTimezone
+} from "../utils/scheduleConflicts";
+import { getSendThrottleKey, reserveSendSlot, type SendSlotReservation } from "../utils/sendThrottle";
 
 // Типы для канала с расписанием
 interface ChannelAutoSendSchedule {
@@ -11,6 +41,9 @@ interface ChannelAutoSendSchedule {
   time: string; // "HH:MM"
   promptsPerRun: number;
   lastRunAt?: string | null; // ISO-дата
+  rule?: ScheduleRule | null; // cron / интервал / даты вместо daysOfWeek + time
+  validFrom?: string | null; // "YYYY-MM-DD" в часовом поясе канала
+  validUntil?: string | null;
 }
 
 interface ChannelWithSchedule {
@@ -22,6 +55,9 @@ interface ChannelWithSchedule {
   autoDownloadToDriveEnabled?: boolean;
   autoDownloadDelayMinutes?: number;
   googleDriveFolderId?: string;
+  missedRunPolicy?: MissedRunPolicy | null;
+  blackoutPeriods?: BlackoutPeriod[] | null;
+  generationTransport?: GenerationTransport;
 }
 
 /**
@@ -35,6 +71,22 @@ interface ChannelWithSchedule {
  */
 const recentScheduleRuns = new Map<string, number>();
 
+function toChannelWithSchedule(channelId: string, userId: string, channelData: any): ChannelWithSchedule {
+  return {
+    id: channelId,
+    ownerId: userId,
+    autoSendEnabled: channelData.autoSendEnabled === true,
+    timezone: channelData.timezone || "UTC",
+    autoSendSchedules: Array.isArray(channelData.autoSendSchedules) ? channelData.autoSendSchedules : [],
+    autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled === true,
+    autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes ?? 10,
+    googleDriveFolderId: channelData.googleDriveFolderId,
+    missedRunPolicy: channelData.missedRunPolicy ?? null,
+    blackoutPeriods: Array.isArray(channelData.blackoutPeriods) ? channelData.blackoutPeriods : null,
+    generationTransport: channelData.generationTransport || "telegram_global"
+  };
+}
+
 /**
  * Получает все каналы с включённой автоотправкой
  */
@@ -168,16 +220,7 @@ async function getChannelsWithAutoSendEnabled(): Promise<ChannelWithSchedule[]>
       }
 
       if (isAutoSendEnabled && hasSchedules) {
-        channels.push({
-          id: channelDoc.id,
-          ownerId: userId,
-          autoSendEnabled: true,
-          timezone: channelData.timezone || "UTC",
-          autoSendSchedules: autoSendSchedules,
-          autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled === true,
-          autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes ?? 10,
-          googleDriveFolderId: channelData.googleDriveFolderId
-        });
+        channels.push(toChannelWithSchedule(channelDoc.id, userId, channelData));
       }
     }
 
@@ -319,18 +362,24 @@ function parseTime(timeStr: string): { hour: number; minute: number } | null {
  * @param channel - Канал с расписанием
  * @param schedule - Конкретное расписание
  * @param nowUtc - Текущее время в UTC
+ * @returns Время слота ("HH:MM" в часовом поясе канала), который нужно запустить, или null
  */
-function shouldRunScheduleNow(
+function getScheduleSlotToRunNow(
   channel: ChannelWithSchedule,
   schedule: ChannelAutoSendSchedule,
   nowUtc: Date
-): boolean {
+): string | null {
   // Детальное логирование для отладки
   const timezone = channel.timezone || "UTC";
   const localTime = getLocalTimeInTimezone(nowUtc, timezone);
-  const scheduleTime = parseTime(schedule.time);
+  const localDate = {
+    year: localTime.year,
+    month: localTime.month,
+    day: localTime.date,
+    dayOfWeek: localTime.dayOfWeek
+  };
 
-  Logger.info("shouldRunScheduleNow: checking", {
+  Logger.info("getScheduleSlotToRunNow: checking", {
     channelId: channel.id,
     scheduleId: schedule.id,
     nowUtc: nowUtc.toISOString(),
@@ -344,61 +393,55 @@ function shouldRunScheduleNow(
       enabled: schedule.enabled,
       daysOfWeek: schedule.daysOfWeek,
       time: schedule.time,
+      rule: schedule.rule || null,
+      validFrom: schedule.validFrom || null,
+      validUntil: schedule.validUntil || null,
       lastRunAt: schedule.lastRunAt || "never"
     }
   });
 
   // Проверка 1: включено ли расписание
   if (!schedule.enabled) {
-    Logger.info("shouldRunScheduleNow: SKIPPED (schedule disabled)", {
+    Logger.info("getScheduleSlotToRunNow: SKIPPED (schedule disabled)", {
       channelId: channel.id,
       scheduleId: schedule.id
     });
-    return false;
-  }
-
-  // Проверка 2: валидность времени в расписании
-  if (!scheduleTime) {
-    Logger.warn("shouldRunScheduleNow: SKIPPED (invalid time format)", {
-      channelId: channel.id,
-      scheduleId: schedule.id,
-      scheduleTime: schedule.time
-    });
-    return false;
+    return null;
   }
 
-  // Проверка 3: день недели
-  if (!schedule.daysOfWeek.includes(localTime.dayOfWeek)) {
-    Logger.info("shouldRunScheduleNow: SKIPPED (day of week mismatch)", {
+  // Проверка 2: времена срабатывания на сегодня (с учётом дней недели, правила и срока действия)
+  const todayTimes = getScheduleTimesForDate(schedule, localDate);
+  if (todayTimes.length === 0) {
+    Logger.info("getScheduleSlotToRunNow: SKIPPED (no slots for local date)", {
       channelId: channel.id,
       scheduleId: schedule.id,
       localDayOfWeek: localTime.dayOfWeek,
-      scheduleDaysOfWeek: schedule.daysOfWeek
+      scheduleDaysOfWeek: schedule.daysOfWeek,
+      ruleType: schedule.rule?.type || "weekly"
     });
-    return false;
+    return null;
   }
 
-  // Проверка 4: время (с "окном" в 1 минуту для надёжности)
-  // Считаем, что нужно запускать, если текущее время совпадает с расписанием
-  // или находится в пределах ±1 минуты от расписания
-  const timeDiff = Math.abs(
-    localTime.hour * 60 + localTime.minute - (scheduleTime.hour * 60 + scheduleTime.minute)
-  );
+  // Проверка 3: время (с "окном" в 1 минуту для надёжности)
+  // Считаем, что нужно запускать, если текущее время совпадает с одним из слотов
+  // или находится в пределах ±1 минуты от него (это нужно, чтобы учесть возможную задержку cron)
+  const nowMinutes = localTime.hour * 60 + localTime.minute;
+  const slotTime = todayTimes.find((time) => {
+    const scheduleTime = parseTime(time);
+    return scheduleTime !== null && Math.abs(nowMinutes - (scheduleTime.hour * 60 + scheduleTime.minute)) <= 1;
+  });
 
-  // Разрешаем запуск, если время точно совпадает или отличается на 1 минуту
-  // (это нужно, чтобы учесть возможную задержку cron)
-  if (timeDiff > 1) {
-    Logger.info("shouldRunScheduleNow: SKIPPED (time mismatch)", {
+  if (!slotTime) {
+    Logger.info("getScheduleSlotToRunNow: SKIPPED (time mismatch)", {
       channelId: channel.id,
       scheduleId: schedule.id,
       localTime: localTime.timeString,
-      scheduleTime: schedule.time,
-      timeDiffMinutes: timeDiff
+      scheduleTimes: todayTimes.slice(0, 20)
     });
-    return false;
+    return null;
   }
 
-  // Проверка 5: не был ли уже запуск сегодня в это время (с учётом "окна" ±1 минута)
+  // Проверка 4: не был ли уже запуск сегодня в это время (с учётом "окна" ±1 минута)
   if (schedule.lastRunAt) {
     const lastRun = new Date(schedule.lastRunAt);
     const lastRunLocal = getLocalTimeInTimezone(lastRun, timezone);
@@ -411,6 +454,8 @@ function shouldRunScheduleNow(
 
     // Считаем запуск уже выполненным, если lastRunLocal находится в том же "окне" ±1 минута
     // вокруг запланированного времени, что и текущий nowUtc.
+    // При переходе на зимнее время локальный слот повторяется — это окно не даёт запустить его дважды.
+    const scheduleTime = parseTime(slotTime)!;
     const lastRunMinutes = lastRunLocal.hour * 60 + lastRunLocal.minute;
     const targetMinutes = scheduleTime.hour * 60 + scheduleTime.minute;
     const lastRunDiff = Math.abs(lastRunMinutes - targetMinutes);
@@ -418,7 +463,7 @@ function shouldRunScheduleNow(
     const alreadyRanInWindow = sameDay && lastRunDiff <= 1;
 
     if (alreadyRanInWindow) {
-      Logger.info("shouldRunScheduleNow: SKIPPED (already run today in this time window)", {
+      Logger.info("getScheduleSlotToRunNow: SKIPPED (already run today in this time window)", {
         channelId: channel.id,
         scheduleId: schedule.id,
         lastRunAt: schedule.lastRunAt,
@@ -430,22 +475,22 @@ function shouldRunScheduleNow(
           date: `${localTime.year}-${String(localTime.month).padStart(2, "0")}-${String(localTime.date).padStart(2, "0")}`,
           time: localTime.timeString
         },
-        targetTime: schedule.time,
+        targetTime: slotTime,
         lastRunDiffMinutes: lastRunDiff
       });
-      return false;
+      return null;
     }
   }
 
   // Все проверки пройдены - нужно запускать
-  Logger.info("shouldRunScheduleNow: TRIGGERED", {
+  Logger.info("getScheduleSlotToRunNow: TRIGGERED", {
     channelId: channel.id,
     scheduleId: schedule.id,
     localTime: localTime.timeString,
-    scheduleTime: schedule.time
+    scheduleTime: slotTime
   });
 
-  return true;
+  return slotTime;
 }
 
 /**
@@ -521,6 +566,8 @@ interface FullScheduleSettings {
   minInterval_17_24?: number;
   minIntervalMinutes?: number; // для обратной совместимости
   isAutomationPaused: boolean;
+  blackoutPeriods: BlackoutPeriod[];
+  referenceTimezone: string;
 }
 
 const DEFAULT_INTERVALS = {
@@ -552,7 +599,9 @@ async function getFullScheduleSettingsForUser(userId: string): Promise<FullSched
       // Настройки не найдены, возвращаем дефолтные
       return {
         ...DEFAULT_INTERVALS,
-        isAutomationPaused: false
+        isAutomationPaused: false,
+        blackoutPeriods: [],
+        referenceTimezone: DEFAULT_REFERENCE_TIMEZONE
       };
     }
 
@@ -574,7 +623,9 @@ async function getFullScheduleSettingsForUser(userId: string): Promise<FullSched
       minIntervalMinutes: oldInterval,
       isAutomationPaused: typeof data?.isAutomationPaused === "boolean" 
         ? data.isAutomationPaused 
-        : false
+        : false,
+      blackoutPeriods: Array.isArray(data?.blackoutPeriods) ? data.blackoutPeriods : [],
+      referenceTimezone: isValidTimezone(data?.referenceTimezone) ? data.referenceTimezone : DEFAULT_REFERENCE_TIMEZONE
     };
   } catch (error: any) {
     Logger.error("Failed to get schedule settings for user", {
@@ -586,12 +637,17 @@ async function getFullScheduleSettingsForUser(userId: string): Promise<FullSched
 }
 
 /**
- * Получает настройки расписания для пользователя (только пауза, для обратной совместимости)
+ * Получает настройки расписания для пользователя (пауза и блокировки)
  */
-async function getScheduleSettingsForUser(userId: string): Promise<{ isAutomationPaused: boolean } | null> {
+async function getScheduleSettingsForUser(
+  userId: string
+): Promise<{ isAutomationPaused: boolean; blackoutPeriods: BlackoutPeriod[] } | null> {
   const fullSettings = await getFullScheduleSettingsForUser(userId);
   if (!fullSettings) return null;
-  return { isAutomationPaused: fullSettings.isAutomationPaused };
+  return {
+    isAutomationPaused: fullSettings.isAutomationPaused,
+    blackoutPeriods: fullSettings.blackoutPeriods
+  };
 }
 
 /**
@@ -648,6 +704,534 @@ export async function getAutoDownloadDelayMinutesForChannel(
   return delay;
 }
 
+/**
+ * Генерирует и отправляет один промпт слота и планирует для него автоскачивание.
+ * Ошибки генерации пробрасываются вызывающему.
+ */
+async function sendSchedulePrompt(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  slotTime: string,
+  promptNumber: number
+): Promise<void> {
+  Logger.info("processAutoSendTick: generating and sending prompt", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    promptNumber,
+    totalPrompts: schedule.promptsPerRun
+  });
+
+  const promptResult = await generateAndSendPromptForChannel(channel.id, channel.ownerId);
+
+  await trackPromptSent({
+    userId: channel.ownerId,
+    channelId: channel.id,
+    telegramMessageId: promptResult.messageId,
+    telegramChatId: promptResult.chatId,
+    scheduleId: schedule.id,
+    timeSlot: slotTime,
+    videoTitle: promptResult.title
+  });
+
+  Logger.info("processAutoSendTick: prompt sent successfully", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    promptNumber,
+    messageId: promptResult.messageId,
+    chatId: promptResult.chatId,
+    hasTitle: !!promptResult.title
+  });
+
+  // Если включено автоматическое скачивание, планируем задачу
+  Logger.info("processAutoSendTick: checking auto-download conditions", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
+    autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
+    googleDriveFolderId: channel.googleDriveFolderId || "not set",
+    googleDriveFolderIdType: typeof channel.googleDriveFolderId,
+    autoDownloadDelayMinutes: channel.autoDownloadDelayMinutes
+  });
+
+  // ДЕТАЛЬНАЯ ПРОВЕРКА УСЛОВИЙ ДЛЯ ДИАГНОСТИКИ
+  const hasAutoDownloadEnabled = channel.autoDownloadToDriveEnabled === true;
+  const hasGoogleDriveFolder = !!channel.googleDriveFolderId;
+
+  console.log("AUTO_DOWNLOAD_CHECK:", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
+    autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
+    hasAutoDownloadEnabled,
+    googleDriveFolderId: channel.googleDriveFolderId || "NOT_SET",
+    hasGoogleDriveFolder,
+    willSchedule: hasAutoDownloadEnabled && hasGoogleDriveFolder
+  });
+
+  if (hasAutoDownloadEnabled && hasGoogleDriveFolder) {
+    // Вычисляем задержку на основе расписания каналов
+    const promptSentAt = new Date();
+    const delayMinutes = await getAutoDownloadDelayMinutesForChannel(
+      channel.ownerId,
+      promptSentAt
+    );
+
+    // Определяем диапазон для логирования
+    const hour = promptSentAt.getHours();
+    let range: string;
+    if (hour >= 0 && hour < 13) {
+      range = "00-13";
+    } else if (hour >= 13 && hour < 17) {
+      range = "13-17";
+    } else {
+      range = "17-24";
+    }
+
+    Logger.info("processAutoSendTick: scheduling auto-download", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      messageId: promptResult.messageId,
+      chatId: promptResult.chatId,
+      delayMinutes,
+      range,
+      promptSentAt: promptSentAt.toISOString(),
+      googleDriveFolderId: channel.googleDriveFolderId,
+      videoTitle: promptResult.title || "not provided",
+      promptLength: promptResult.prompt?.length || 0,
+      note: "Delay calculated from schedule settings (interval - 1)"
+    });
+
+    try {
+      console.log("auto-download scheduled", {
+        userId: channel.ownerId,
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        messageId: promptResult.messageId,
+        promptSentAt: promptSentAt.toISOString(),
+        delayMinutes,
+        range,
+        willRunAt: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString()
+      });
+
+      const taskId = await scheduleAutoDownload({
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        userId: channel.ownerId,
+        telegramMessageInfo: {
+          messageId: promptResult.messageId,
+          chatId: promptResult.chatId,
+          externalGenerationId: promptResult.externalGenerationId
+        },
+        delayMinutes,
+        transport: channel.generationTransport,
+        videoTitle: promptResult.title,
+        prompt: promptResult.prompt
+      });
+
+      console.log("AUTO_DOWNLOAD_SCHEDULED:", {
+        taskId,
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        messageId: promptResult.messageId,
+        willRunInMinutes: delayMinutes,
+        willRunAt: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString()
+      });
+
+      Logger.info("processAutoSendTick: auto-download scheduled successfully", {
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        taskId,
+        willRunInMinutes: delayMinutes,
+        willRunAt: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString()
+      });
+    } catch (scheduleError) {
+      // Логируем ошибку планирования, но не прерываем основной процесс
+      Logger.error("processAutoSendTick: failed to schedule auto-download", {
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        error: scheduleError instanceof Error ? scheduleError.message : String(scheduleError),
+        errorStack: scheduleError instanceof Error ? scheduleError.stack : undefined
+      });
+    }
+  } else {
+    Logger.warn("processAutoSendTick: auto-download not scheduled - conditions not met", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
+      autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
+      googleDriveFolderId: channel.googleDriveFolderId || "not set",
+      googleDriveFolderIdType: typeof channel.googleDriveFolderId,
+      reason: !channel.autoDownloadToDriveEnabled 
+        ? "autoDownloadToDriveEnabled is not true" 
+        : !channel.googleDriveFolderId 
+        ? "googleDriveFolderId is not set" 
+        : "unknown"
+    });
+  }
+}
+
+/**
+ * Запускает один слот расписания: генерирует и отправляет promptsPerRun промптов,
+ * планирует автоскачивание и отмечает расписание выполненным.
+ * Ошибки генерации пробрасываются вызывающему.
+ */
+async function runScheduleSlot(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  slotTime: string,
+  nowUtc: Date
+): Promise<void> {
+  for (let i = 0; i < schedule.promptsPerRun; i++) {
+    await sendSchedulePrompt(channel, schedule, slotTime, i + 1);
+
+    // Небольшая задержка между промптами, чтобы не перегружать API
+    if (i < schedule.promptsPerRun - 1) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+
+  // Отмечаем расписание как выполненное
+  await markScheduleExecuted(
+    channel.ownerId,
+    channel.id,
+    schedule.id,
+    nowUtc
+  );
+
+  Logger.info("processAutoSendTick: Scheduled prompt generation completed", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    slotTime,
+    promptsSent: schedule.promptsPerRun,
+    lastRunAt: nowUtc.toISOString()
+  });
+}
+
+// Резервирование отправок без Firestore (локальная разработка)
+const localSendThrottle = new Map<string, Date>();
+
+/**
+ * Резервирует окно отправки в очереди сессии SyntX.
+ * Окончания занятых окон хранятся в schedulerState/sendThrottle, чтобы их видели все экземпляры.
+ */
+async function reserveTransportSendSlot(
+  key: string,
+  nowUtc: Date,
+  intervalMinutes: number
+): Promise<SendSlotReservation> {
+  if (!isFirestoreAvailable() || !db) {
+    const reservation = reserveSendSlot(localSendThrottle.get(key) ?? null, nowUtc, intervalMinutes);
+    localSendThrottle.set(key, reservation.nextFreeAt);
+    return reservation;
+  }
+
+  const ref = db.collection("schedulerState").doc("sendThrottle");
+  return db.runTransaction(async (transaction) => {
+    const value = (await transaction.get(ref)).data()?.[key];
+    const reservation = reserveSendSlot(typeof value === "string" ? new Date(value) : null, nowUtc, intervalMinutes);
+    transaction.set(ref, { [key]: reservation.nextFreeAt.toISOString() }, { merge: true });
+    return reservation;
+  });
+}
+
+/**
+ * Момент срабатывания слота, найденного в окне ±1 минута от текущего тика
+ */
+function getCurrentSlotAt(
+  schedule: ChannelAutoSendSchedule,
+  slotTime: string,
+  nowUtc: Date,
+  timezone: string
+): Date {
+  const occurrence = getScheduleOccurrencesBetween(
+    schedule,
+    new Date(nowUtc.getTime() - 120_000),
+    new Date(nowUtc.getTime() + 120_000),
+    timezone
+  ).find((o) => o.time === slotTime);
+  if (occurrence) {
+    return occurrence.at;
+  }
+  const minute = new Date(nowUtc);
+  minute.setUTCSeconds(0, 0);
+  return minute;
+}
+
+/**
+ * Разносит промпты слота по сессии SyntX: для каждого промпта резервируется своё окно
+ * минимального интервала. Промпт, чьё окно уже открыто, отправляется сразу, остальные
+ * откладываются задачами очереди до своего окна.
+ * Слот сразу отмечается выполненным, чтобы следующий тик не запустил его повторно.
+ */
+async function runOrDeferScheduleSlot(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  slotTime: string,
+  slotAt: Date,
+  nowUtc: Date
+): Promise<void> {
+  const key = getSendThrottleKey(channel.generationTransport, channel.ownerId);
+  if (!key) {
+    await runScheduleSlot(channel, schedule, slotTime, nowUtc);
+    return;
+  }
+
+  const settings = await getFullScheduleSettingsForUser(channel.ownerId);
+  const [hh, mm] = formatLocalTimeInTimezone(nowUtc, settings?.referenceTimezone || DEFAULT_REFERENCE_TIMEZONE)
+    .split(":")
+    .map(Number);
+  const intervalMinutes = getMinIntervalForMinutes(hh * 60 + mm, settings ?? DEFAULT_INTERVALS);
+
+  let deferred = 0;
+  for (let promptNumber = 1; promptNumber <= schedule.promptsPerRun; promptNumber++) {
+    const reservation = await reserveTransportSendSlot(key, new Date(), intervalMinutes);
+    if (reservation.startAt.getTime() <= Date.now()) {
+      await sendSchedulePrompt(channel, schedule, slotTime, promptNumber);
+      continue;
+    }
+
+    const payload: AutoSendSlotJobPayload = {
+      channelId: channel.id,
+      userId: channel.ownerId,
+      scheduleId: schedule.id,
+      slotTime,
+      slotAt: slotAt.toISOString(),
+      promptNumber
+    };
+    await enqueueJob({
+      type: "auto_send_slot",
+      payload,
+      runAt: reservation.startAt,
+      maxAttempts: 1,
+      // Ключ по моменту слота: одно и то же время в разные дни — разные запуски
+      dedupeKey: `auto_send_slot_${channel.id}_${schedule.id}_${slotAt.toISOString()}_${promptNumber}`,
+      userId: channel.ownerId,
+      channelId: channel.id
+    });
+    deferred++;
+
+    Logger.info("processAutoSendTick: prompt deferred to keep minimum interval on SyntX session", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      slotTime,
+      promptNumber,
+      throttleKey: key,
+      intervalMinutes,
+      runAt: reservation.startAt.toISOString()
+    });
+  }
+  await markScheduleExecuted(channel.ownerId, channel.id, schedule.id, nowUtc);
+
+  Logger.info("processAutoSendTick: Scheduled prompt generation completed", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    slotTime,
+    promptsSent: schedule.promptsPerRun - deferred,
+    promptsDeferred: deferred,
+    lastRunAt: nowUtc.toISOString()
+  });
+}
+
+/**
+ * Обработчик задачи auto_send_slot: отправляет отложенный промпт слота, если канал всё ещё его ждёт
+ */
+export async function runDeferredScheduleSlot(payload: AutoSendSlotJobPayload): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const channelSnap = await db
+    .collection("users")
+    .doc(payload.userId)
+    .collection("channels")
+    .doc(payload.channelId)
+    .get();
+  if (!channelSnap.exists) {
+    throw new PermanentJobError("Channel not found");
+  }
+
+  const channel = toChannelWithSchedule(channelSnap.id, payload.userId, channelSnap.data());
+  const schedule = channel.autoSendSchedules?.find((s) => s.id === payload.scheduleId);
+  const settings = await getScheduleSettingsForUser(payload.userId);
+  if (!channel.autoSendEnabled || !schedule?.enabled || settings?.isAutomationPaused) {
+    Logger.info("runDeferredScheduleSlot: skipped (automation or schedule disabled)", {
+      channelId: payload.channelId,
+      scheduleId: payload.scheduleId,
+      slotTime: payload.slotTime
+    });
+    return;
+  }
+
+  // Блокировку могли добавить, пока слот ждал очереди, или отложенный запуск перешёл на заблокированную дату
+  const nowUtc = new Date();
+  const blackout = findBlackoutForDate(
+    [...(settings?.blackoutPeriods || []), ...(channel.blackoutPeriods || [])],
+    getLocalDateInTimezone(nowUtc, channel.timezone || "UTC")
+  );
+  if (blackout) {
+    Logger.info("runDeferredScheduleSlot: skipped (blackout period)", {
+      channelId: payload.channelId,
+      scheduleId: payload.scheduleId,
+      slotTime: payload.slotTime,
+      blackoutId: blackout.id,
+      blackoutLabel: blackout.label
+    });
+    return;
+  }
+
+  // Задачи без номера промпта созданы до разнесения промптов слота — запускают слот целиком
+  if (payload.promptNumber === undefined) {
+    await runScheduleSlot(channel, schedule, payload.slotTime, nowUtc);
+    return;
+  }
+  await sendSchedulePrompt(channel, schedule, payload.slotTime, payload.promptNumber);
+}
+
+/**
+ * Состояние планировщика хранится в schedulerState/autoSend:
+ * lastTickAt — момент последнего полностью обработанного тика, по нему определяется простой
+ */
+async function getLastSchedulerTickAt(): Promise<Date | null> {
+  if (!isFirestoreAvailable() || !db) {
+    return null;
+  }
+  try {
+    const snap = await db.collection("schedulerState").doc("autoSend").get();
+    const value = snap.data()?.lastTickAt;
+    return typeof value === "string" ? new Date(value) : null;
+  } catch (error) {
+    Logger.warn("getLastSchedulerTickAt: failed to read scheduler state", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+async function saveSchedulerTickAt(tickAt: Date): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    return;
+  }
+  try {
+    await db
+      .collection("schedulerState")
+      .doc("autoSend")
+      .set({ lastTickAt: tickAt.toISOString() }, { merge: true });
+  } catch (error) {
+    Logger.warn("saveSchedulerTickAt: failed to save scheduler state", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Находит слоты, которые должны были сработать между предыдущим тиком и текущим,
+ * но не попали ни в одно окно ±1 минута (планировщик не вызывался — деплой, сбой).
+ * Решения по каждому слоту сохраняются; догоняющие запуски выполняются по политике канала
+ * и только для слотов, решение по которым создал этот вызов.
+ * @returns Количество выполненных догоняющих запусков
+ */
+async function processMissedSlots(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  lastTickAt: Date | null,
+  nowUtc: Date,
+  blackoutPeriods: BlackoutPeriod[] = []
+): Promise<number> {
+  if (!lastTickAt || !schedule.enabled) {
+    return 0;
+  }
+
+  const timezone = channel.timezone || "UTC";
+  const nowMs = nowUtc.getTime();
+  // Предыдущий тик покрыл слоты до своей минуты +1, текущий — начиная с nowUtc - 1 минута
+  let fromMs = Math.max(lastTickAt.getTime() + 60_000, nowMs - MISSED_RUN_LOOKBACK_HOURS * 60 * 60_000);
+  if (schedule.lastRunAt) {
+    fromMs = Math.max(fromMs, new Date(schedule.lastRunAt).getTime() + 60_000);
+  }
+  const toMs = nowMs - 120_000;
+  if (toMs <= fromMs) {
+    return 0;
+  }
+
+  // Слоты в заблокированные дни не считаются пропущенными — они и не должны были сработать
+  const missed = getScheduleOccurrencesBetween(schedule, new Date(fromMs), new Date(toMs), timezone).filter(
+    (occurrence) => {
+      const [year, month, day] = occurrence.localDate.split("-").map(Number);
+      return !findBlackoutForDate(blackoutPeriods, { year, month, day });
+    }
+  );
+  if (missed.length === 0) {
+    return 0;
+  }
+
+  const policy = normalizeMissedRunPolicy(channel.missedRunPolicy);
+  const plan = planMissedRuns(missed, policy);
+  const decidedAt = nowUtc.toISOString();
+  const decisions: MissedRunDecision[] = plan.map(({ occurrence, decision }) => ({
+    id: getMissedRunDecisionId(schedule.id, occurrence.at.toISOString()),
+    scheduleId: schedule.id,
+    slotAt: occurrence.at.toISOString(),
+    localDate: occurrence.localDate,
+    time: occurrence.time,
+    policy: policy.mode,
+    decision,
+    lateByMinutes: Math.round((nowMs - occurrence.at.getTime()) / 60_000),
+    decidedAt
+  }));
+
+  Logger.warn("processMissedSlots: missed schedule slots detected", {
+    channelId: channel.id,
+    scheduleId: schedule.id,
+    lastTickAt: lastTickAt.toISOString(),
+    policy,
+    missed: decisions.map((d) => ({ slotAt: d.slotAt, time: d.time, decision: d.decision }))
+  });
+
+  // Слот догоняет только экземпляр, создавший решение по нему: остальные его уже видят в хранилище
+  let created: MissedRunDecision[];
+  try {
+    created = await createMissedRunDecisions(channel.ownerId, channel.id, decisions);
+  } catch (error) {
+    Logger.error("processMissedSlots: failed to save decisions", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return 0;
+  }
+  if (created.length < decisions.length) {
+    Logger.info("processMissedSlots: some slots were already decided by another run", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      alreadyDecided: decisions.length - created.length
+    });
+  }
+
+  let runCount = 0;
+  for (const decision of created) {
+    if (decision.decision !== "caught_up") {
+      continue;
+    }
+    try {
+      await runOrDeferScheduleSlot(channel, schedule, decision.time, new Date(decision.slotAt), nowUtc);
+      runCount++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error("processMissedSlots: catch-up run failed", {
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        slotAt: decision.slotAt,
+        error: message
+      });
+      await updateMissedRunDecision(channel.ownerId, channel.id, decision.id, { error: message }).catch(() => {
+        // Решение уже сохранено, ошибка будет видна в логах
+      });
+    }
+  }
+
+  return runCount;
+}
+
 export async function processAutoSendTick(): Promise<void> {
   const nowUtc = new Date();
   Logger.info("processAutoSendTick: start", { 
@@ -661,6 +1245,9 @@ export async function processAutoSendTick(): Promise<void> {
   });
 
   try {
+    // Момент предыдущего тика нужен, чтобы найти слоты, пропущенные во время простоя
+    const lastTickAt = await getLastSchedulerTickAt();
+
     // Получаем все каналы с включённой автоотправкой
     const channels = await getChannelsWithAutoSendEnabled();
     Logger.info("processAutoSendTick: totalChannels", { 
@@ -688,10 +1275,12 @@ export async function processAutoSendTick(): Promise<void> {
 
     // Проверяем паузу для каждого пользователя
     const userPauseStatus = new Map<string, boolean>();
+    const userBlackouts = new Map<string, BlackoutPeriod[]>();
     for (const [userId, userChannels] of channelsByUser.entries()) {
       const settings = await getScheduleSettingsForUser(userId);
       const isPaused = settings?.isAutomationPaused === true;
       userPauseStatus.set(userId, isPaused);
+      userBlackouts.set(userId, settings?.blackoutPeriods || []);
       
       if (isPaused) {
         Logger.info("processAutoSendTick: automation is paused for user", {
@@ -723,6 +1312,23 @@ export async function processAutoSendTick(): Promise<void> {
         continue;
       }
 
+      // Блокировки пользователя и канала (отпуск, праздники) — на локальную дату канала
+      const blackoutPeriods = [...(userBlackouts.get(channel.ownerId) || []), ...(channel.blackoutPeriods || [])];
+      const blackout = findBlackoutForDate(
+        blackoutPeriods,
+        getLocalDateInTimezone(nowUtc, channel.timezone || "UTC")
+      );
+      if (blackout) {
+        Logger.info("processAutoSendTick: skipping channel (blackout period)", {
+          channelId: channel.id,
+          userId: channel.ownerId,
+          blackoutId: blackout.id,
+          blackoutLabel: blackout.label
+        });
+        skippedCount += channel.autoSendSchedules.length;
+        continue;
+      }
+
       Logger.info("processAutoSendTick: checking channel", {
         channelId: channel.id,
         timezone: channel.timezone || "UTC",
@@ -731,7 +1337,7 @@ export async function processAutoSendTick(): Promise<void> {
 
       // Проверяем каждое расписание в канале
       for (const schedule of channel.autoSendSchedules) {
-        // Логируем кандидата на срабатывание (используем ту же функцию, что и в shouldRunScheduleNow)
+        // Логируем кандидата на срабатывание (используем ту же функцию, что и в getScheduleSlotToRunNow)
         const localTimeForLog = getLocalTimeInTimezone(nowUtc, channel.timezone || "UTC");
         Logger.info("processAutoSendTick: TRIGGER candidate", {
           channelId: channel.id,
@@ -745,7 +1351,8 @@ export async function processAutoSendTick(): Promise<void> {
           timezone: channel.timezone || "UTC"
         });
 
-        if (shouldRunScheduleNow(channel, schedule, nowUtc)) {
+        const slotTime = getScheduleSlotToRunNow(channel, schedule, nowUtc);
+        if (slotTime) {
           const runKey = `${channel.id}:${schedule.id}`;
           const lastRunTs = recentScheduleRuns.get(runKey);
           const nowTs = nowUtc.getTime();
@@ -784,171 +1391,13 @@ export async function processAutoSendTick(): Promise<void> {
           });
 
           try {
-            // Запускаем генерацию и отправку N раз
-            for (let i = 0; i < schedule.promptsPerRun; i++) {
-              Logger.info("processAutoSendTick: generating and sending prompt", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                promptNumber: i + 1,
-                totalPrompts: schedule.promptsPerRun
-              });
-
-              const promptResult = await generateAndSendPromptForChannel(channel.id, channel.ownerId);
-              
-              Logger.info("processAutoSendTick: prompt sent successfully", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                promptNumber: i + 1,
-                messageId: promptResult.messageId,
-                chatId: promptResult.chatId,
-                hasTitle: !!promptResult.title
-              });
-
-              // Если включено автоматическое скачивание, планируем задачу
-              Logger.info("processAutoSendTick: checking auto-download conditions", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
-                autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
-                googleDriveFolderId: channel.googleDriveFolderId || "not set",
-                googleDriveFolderIdType: typeof channel.googleDriveFolderId,
-                autoDownloadDelayMinutes: channel.autoDownloadDelayMinutes
-              });
-
-              // ДЕТАЛЬНАЯ ПРОВЕРКА УСЛОВИЙ ДЛЯ ДИАГНОСТИКИ
-              const hasAutoDownloadEnabled = channel.autoDownloadToDriveEnabled === true;
-              const hasGoogleDriveFolder = !!channel.googleDriveFolderId;
-              
-              console.log("AUTO_DOWNLOAD_CHECK:", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
-                autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
-                hasAutoDownloadEnabled,
-                googleDriveFolderId: channel.googleDriveFolderId || "NOT_SET",
-                hasGoogleDriveFolder,
-                willSchedule: hasAutoDownloadEnabled && hasGoogleDriveFolder
-              });
-
-              if (hasAutoDownloadEnabled && hasGoogleDriveFolder) {
-                // Вычисляем задержку на основе расписания каналов
-                const promptSentAt = new Date();
-                const delayMinutes = await getAutoDownloadDelayMinutesForChannel(
-                  channel.ownerId,
-                  promptSentAt
-                );
-                
-                // Определяем диапазон для логирования
-                const hour = promptSentAt.getHours();
-                let range: string;
-                if (hour >= 0 && hour < 13) {
-                  range = "00-13";
-                } else if (hour >= 13 && hour < 17) {
-                  range = "13-17";
-                } else {
-                  range = "17-24";
-                }
-                
-                Logger.info("processAutoSendTick: scheduling auto-download", {
-                  channelId: channel.id,
-                  scheduleId: schedule.id,
-                  messageId: promptResult.messageId,
-                  chatId: promptResult.chatId,
-                  delayMinutes,
-                  range,
-                  promptSentAt: promptSentAt.toISOString(),
-                  googleDriveFolderId: channel.googleDriveFolderId,
-                  videoTitle: promptResult.title || "not provided",
-                  promptLength: promptResult.prompt?.length || 0,
-                  note: "Delay calculated from schedule settings (interval - 1)"
-                });
-
-                try {
-                  console.log("auto-download scheduled", {
-                    userId: channel.ownerId,
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    messageId: promptResult.messageId,
-                    promptSentAt: promptSentAt.toISOString(),
-                    delayMinutes,
-                    range,
-                    willRunAt: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString()
-                  });
-
-                  const taskId = scheduleAutoDownload({
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    userId: channel.ownerId,
-                    telegramMessageInfo: {
-                      messageId: promptResult.messageId,
-                      chatId: promptResult.chatId
-                    },
-                    delayMinutes,
-                    videoTitle: promptResult.title,
-                    prompt: promptResult.prompt
-                  });
-
-                  console.log("AUTO_DOWNLOAD_SCHEDULED:", {
-                    taskId,
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    messageId: promptResult.messageId,
-                    willRunInMinutes: validDelay,
-                    willRunAt: new Date(Date.now() + validDelay * 60 * 1000).toISOString()
-                  });
-
-                  Logger.info("processAutoSendTick: auto-download scheduled successfully", {
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    taskId,
-                    willRunInMinutes: validDelay,
-                    willRunAt: new Date(Date.now() + validDelay * 60 * 1000).toISOString()
-                  });
-                } catch (scheduleError) {
-                  // Логируем ошибку планирования, но не прерываем основной процесс
-                  Logger.error("processAutoSendTick: failed to schedule auto-download", {
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    error: scheduleError instanceof Error ? scheduleError.message : String(scheduleError),
-                    errorStack: scheduleError instanceof Error ? scheduleError.stack : undefined
-                  });
-                }
-              } else {
-                Logger.warn("processAutoSendTick: auto-download not scheduled - conditions not met", {
-                  channelId: channel.id,
-                  scheduleId: schedule.id,
-                  autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
-                  autoDownloadToDriveEnabledType: typeof channel.autoDownloadToDriveEnabled,
-                  googleDriveFolderId: channel.googleDriveFolderId || "not set",
-                  googleDriveFolderIdType: typeof channel.googleDriveFolderId,
-                  reason: !channel.autoDownloadToDriveEnabled 
-                    ? "autoDownloadToDriveEnabled is not true" 
-                    : !channel.googleDriveFolderId 
-                    ? "googleDriveFolderId is not set" 
-                    : "unknown"
-                });
-              }
-              
-              // Небольшая задержка между промптами, чтобы не перегружать API
-              if (i < schedule.promptsPerRun - 1) {
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-              }
-            }
-
-            // Отмечаем расписание как выполненное
-            await markScheduleExecuted(
-              channel.ownerId,
-              channel.id,
-              schedule.id,
+            await runOrDeferScheduleSlot(
+              channel,
+              schedule,
+              slotTime,
+              getCurrentSlotAt(schedule, slotTime, nowUtc, channel.timezone || "UTC"),
               nowUtc
             );
-
-            Logger.info("processAutoSendTick: Scheduled prompt generation completed", {
-              channelId: channel.id,
-              scheduleId: schedule.id,
-              promptsSent: schedule.promptsPerRun,
-              lastRunAt: nowUtc.toISOString()
-            });
           } catch (error) {
             // Логируем ошибку, но продолжаем обработку других каналов
             Logger.error("processAutoSendTick: Failed to process scheduled prompt generation", {
@@ -961,9 +1410,16 @@ export async function processAutoSendTick(): Promise<void> {
         } else {
           skippedCount++;
         }
+
+        // Слоты, пропущенные из-за простоя планировщика, — по политике канала
+        triggeredCount += await processMissedSlots(channel, schedule, lastTickAt, nowUtc, blackoutPeriods);
       }
     }
 
+    // Тик считается пройденным только после обработки всех каналов: если процесс упал посередине,
+    // следующий тик найдёт слоты этого тика как пропущенные (уже запущенные защищены lastRunAt)
+    await saveSchedulerTickAt(nowUtc);
+
     Logger.info("processAutoSendTick: completed", {
       totalChannels: channels.length,
       triggeredSchedules: triggeredCount,
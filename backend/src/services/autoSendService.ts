@@ -5,6 +5,7 @@ import { Logger } from "../utils/logger";
 export interface PromptGenerationResult {
   messageId: number;
   chatId: string;
+  externalGenerationId?: string;
   title?: string;
   prompt: string;
 }
@@ -54,6 +55,7 @@ export async function generateAndSendPromptForChannel(
     return {
       messageId: result.messageId,
       chatId: result.chatId,
+      externalGenerationId: result.externalGenerationId,
       title,
       prompt
     };
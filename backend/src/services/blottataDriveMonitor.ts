@@ -3,6 +3,12 @@ import { getDriveClient } from "./googleDrive";
 import { processBlottataFile } from "./blottataFileProcessor";
 import type { Channel } from "../types/channel";
 import { db, isFirestoreAvailable } from "./firebaseAdmin";
+import { findBlackoutForDate, type BlackoutPeriod } from "../utils/blackoutPeriods";
+import { getLocalDateInTimezone } from "../utils/scheduleRules";
+import { getPublishLeadMinutes, getPublishSlot, isPublishDue, isPublishScheduled } from "../utils/publishSchedule";
+import { deletePublishQueueEntry, listPublishQueue, savePublishQueueEntry } from "../repositories/publishQueueRepo";
+import type { PublishQueueEntry } from "../types/publishQueue";
+import { trackPublishScheduled } from "./pipelineRunTracker";
 
 /**
  * Хранилище обработанных файлов для предотвращения повторной обработки
@@ -199,10 +205,68 @@ export async function getNewFilesInFolder(
   }
 }
 
+type DriveFile = Awaited<ReturnType<typeof getNewFilesInFolder>>[number];
+
 /**
- * Обрабатывает новые файлы для канала
+ * Слот публикации файла из очереди канала. Новый файл получает ближайший свободный слот
+ * и сохраняется в очереди (queue дополняется на месте, чтобы следующие файлы не заняли тот же слот).
+ * Возвращает null, если свободного слота в горизонте поиска нет.
  */
-export async function processNewFilesForChannel(channel: Channel): Promise<{
+async function resolveQueuedFile(
+  channel: Channel,
+  userId: string,
+  file: DriveFile,
+  queue: PublishQueueEntry[]
+): Promise<PublishQueueEntry | null> {
+  const existing = queue.find((entry) => entry.id === file.id);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date();
+  const slot = getPublishSlot(
+    channel.publishSchedule,
+    new Date(file.createdTime),
+    now,
+    channel.timezone || "UTC",
+    queue.map((entry) => entry.scheduledAt)
+  );
+  if (!slot) {
+    return null;
+  }
+
+  const entry: PublishQueueEntry = {
+    id: file.id,
+    fileName: file.name,
+    readyAt: file.createdTime,
+    scheduledAt: slot.toISOString(),
+    queuedAt: now.toISOString()
+  };
+  await savePublishQueueEntry(userId, channel.id, entry);
+  queue.push(entry);
+
+  Logger.info("blottataDriveMonitor: File queued for publish slot", {
+    channelId: channel.id,
+    fileId: file.id,
+    fileName: file.name,
+    scheduledAt: entry.scheduledAt,
+    mode: channel.publishSchedule?.mode
+  });
+  await trackPublishScheduled({
+    userId,
+    channelId: channel.id,
+    driveFileId: file.id,
+    fileName: file.name,
+    scheduledFor: entry.scheduledAt
+  });
+  return entry;
+}
+
+/**
+ * Обрабатывает новые файлы для канала.
+ * Если у канала заданы слоты публикации, файлы ждут во входной папке до своего слота.
+ */
+export async function processNewFilesForChannel(channel: Channel & { ownerId?: string }): Promise<{
   processed: number;
   skipped: number;
   errors: number;
@@ -236,6 +300,20 @@ export async function processNewFilesForChannel(channel: Channel): Promise<{
       filesCount: files.length
     });
 
+    // Очередь публикации: файлы ждут своего слота, старые файлы получают слоты первыми
+    let queue: PublishQueueEntry[] | null = null;
+    if (isPublishScheduled(channel.publishSchedule) && channel.ownerId) {
+      queue = await listPublishQueue(channel.ownerId, channel.id);
+      const present = new Set(files.map((file) => file.id));
+      const now = Date.now();
+      for (const entry of queue.filter((e) => !present.has(e.id) && new Date(e.scheduledAt).getTime() < now)) {
+        // Файл удалили из папки вручную — слот больше не нужен
+        await deletePublishQueueEntry(channel.ownerId, channel.id, entry.id);
+      }
+      queue = queue.filter((entry) => present.has(entry.id) || new Date(entry.scheduledAt).getTime() >= now);
+      files.sort((a, b) => new Date(a.createdTime).getTime() - new Date(b.createdTime).getTime());
+    }
+
     // Для каналов с Google Drive Folder ID всегда переобрабатываем файлы
     // даже если они уже были обработаны ранее
     const alwaysReprocessFromDrive = Boolean(channel.driveInputFolderId);
@@ -281,12 +359,43 @@ export async function processNewFilesForChannel(channel: Channel): Promise<{
       }
 
       try {
+        let queueEntry: PublishQueueEntry | null = null;
+        if (queue && channel.ownerId) {
+          queueEntry = await resolveQueuedFile(channel, channel.ownerId, file, queue);
+          if (!queueEntry) {
+            Logger.warn("blottataDriveMonitor: No free publish slot for file, keeping it in folder", {
+              channelId: channel.id,
+              fileId: file.id,
+              fileName: file.name
+            });
+            result.skipped++;
+            continue;
+          }
+          if (!isPublishDue(queueEntry.scheduledAt, new Date(), getPublishLeadMinutes())) {
+            result.skipped++;
+            continue;
+          }
+        }
+
+        // Слот ещё впереди (отправка заранее) — публикатор отложит пост до него
+        const scheduledTime =
+          queueEntry && new Date(queueEntry.scheduledAt).getTime() > Date.now() ? queueEntry.scheduledAt : null;
+
         // Обрабатываем файл (передаём ownerId для журнала ошибок)
-        const processResult = await processBlottataFile(channel, file.id, channel.ownerId);
+        const processResult = await processBlottataFile(channel, file.id, channel.ownerId, { scheduledTime });
+
+        if (processResult.deferred) {
+          // Пользователь ещё выбирает вариант видео либо у части платформ запланирован повтор публикации
+          result.skipped++;
+          continue;
+        }
 
         if (processResult.success) {
           // Помечаем файл как обработанный
           await markFileAsProcessed(channel.id, file.id);
+          if (queueEntry && channel.ownerId) {
+            await deletePublishQueueEntry(channel.ownerId, channel.id, queueEntry.id);
+          }
           result.processed++;
 
           Logger.info("blottataDriveMonitor: File processed successfully", {
@@ -333,9 +442,11 @@ export async function processNewFilesForChannel(channel: Channel): Promise<{
 }
 
 /**
- * Получает настройки расписания для пользователя (проверка паузы автоматизации)
+ * Получает настройки расписания для пользователя (пауза автоматизации и блокировки)
  */
-async function getScheduleSettingsForUser(userId: string): Promise<{ isAutomationPaused: boolean } | null> {
+async function getScheduleSettingsForUser(
+  userId: string
+): Promise<{ isAutomationPaused: boolean; blackoutPeriods: BlackoutPeriod[] } | null> {
   if (!isFirestoreAvailable() || !db) {
     Logger.warn("blottataDriveMonitor: Firestore is not available, cannot check automation pause status", { userId });
     return null;
@@ -352,14 +463,15 @@ async function getScheduleSettingsForUser(userId: string): Promise<{ isAutomatio
     
     if (!settingsSnap.exists) {
       // Настройки не найдены, возвращаем дефолтные (пауза выключена)
-      return { isAutomationPaused: false };
+      return { isAutomationPaused: false, blackoutPeriods: [] };
     }
 
     const data = settingsSnap.data();
     return {
       isAutomationPaused: typeof data?.isAutomationPaused === "boolean" 
         ? data.isAutomationPaused 
-        : false
+        : false,
+      blackoutPeriods: Array.isArray(data?.blackoutPeriods) ? data.blackoutPeriods : []
     };
   } catch (error: any) {
     Logger.error("blottataDriveMonitor: Failed to get schedule settings for user", {
@@ -464,10 +576,12 @@ export async function processBlottataTick(): Promise<void> {
 
     // Проверяем паузу для каждого пользователя
     const userPauseStatus = new Map<string, boolean>();
+    const userBlackouts = new Map<string, BlackoutPeriod[]>();
     for (const [userId, userChannels] of channelsByUser.entries()) {
       const settings = await getScheduleSettingsForUser(userId);
       const isPaused = settings?.isAutomationPaused === true;
       userPauseStatus.set(userId, isPaused);
+      userBlackouts.set(userId, settings?.blackoutPeriods || []);
       
       if (isPaused) {
         Logger.info("blottataDriveMonitor: Automation is paused for user", {
@@ -482,6 +596,7 @@ export async function processBlottataTick(): Promise<void> {
     let totalSkipped = 0;
     let totalErrors = 0;
     let totalSkippedDueToPause = 0;
+    let totalSkippedDueToBlackout = 0;
 
     // Обрабатываем каждый канал
     for (const channel of channels) {
@@ -498,6 +613,23 @@ export async function processBlottataTick(): Promise<void> {
         continue;
       }
 
+      // Блокировки пользователя и канала: в заблокированный день файлы остаются в папке до его окончания
+      const blackout = findBlackoutForDate(
+        [...(userBlackouts.get(channel.ownerId) || []), ...(channel.blackoutPeriods || [])],
+        getLocalDateInTimezone(new Date(), channel.timezone || "UTC")
+      );
+      if (blackout) {
+        Logger.info("blottataDriveMonitor: Channel skipped because of blackout period", {
+          channelId: channel.id,
+          channelName: channel.name,
+          userId: channel.ownerId,
+          blackoutId: blackout.id,
+          blackoutLabel: blackout.label
+        });
+        totalSkippedDueToBlackout++;
+        continue;
+      }
+
       try {
         Logger.info("blottataDriveMonitor: Starting processing for channel", {
           channelId: channel.id,
@@ -546,6 +678,7 @@ export async function processBlottataTick(): Promise<void> {
       duration,
       channelsProcessed: channels.length,
       channelsSkippedDueToPause: totalSkippedDueToPause,
+      channelsSkippedDueToBlackout: totalSkippedDueToBlackout,
       totalProcessed,
       totalSkipped,
       totalErrors
@@ -1,11 +1,26 @@
 import { google, drive_v3 } from "googleapis";
 import { Logger } from "../utils/logger";
 import type { Channel } from "../types/channel";
-import { blottataPublisherService } from "./blottataPublisherService";
+import type { PipelinePublication, PipelineRun } from "../types/pipelineRun";
+import { publishVideo } from "./publishers/publisherRegistry";
 import { generateYoutubeTitleAndDescription } from "./youtubeTitleDescriptionGenerator";
 import { getDriveClient } from "./googleDrive";
 import { normalizeYoutubeTitle } from "../utils/youtubeTitleNormalizer";
 import { logError } from "./errorLogger";
+import { trackArchiveResult, trackPublishResult, trackPublishStarted } from "./pipelineRunTracker";
+import { findPipelineRunByDriveFileId } from "../repositories/pipelineRunRepo";
+import { stripVariantSuffix } from "../utils/fileUtils";
+import { buildPlatformPosts, formatPostDate, getVideoIdeaFromFileName } from "../utils/postTemplates";
+import { applyHashtagLibrary, getHashtagRotationIndex } from "../utils/hashtagLibrary";
+import { db, isFirestoreAvailable } from "./firebaseAdmin";
+import { applyPublishAttempt, getPublishRetryPlan, isPublishRetryPending } from "../utils/publishRetry";
+import {
+  getChannelPublishPlatforms,
+  getVariantHoldMinutes,
+  getVariantPlatforms,
+  isAwaitingVariantSelection,
+  restrictChannelToPlatforms
+} from "../utils/videoVariants";
 
 interface ProcessedFile {
   fileId: string;
@@ -13,6 +28,48 @@ interface ProcessedFile {
   success: boolean;
   publishedPlatforms: string[];
   errors: string[];
+  deferred?: boolean; // файл ждёт выбора варианта или повтора публикации — обработать на следующем цикле
+}
+
+type VariantDecision =
+  | { action: "publish"; channel: Channel; variantIndex?: number }
+  | { action: "defer" }
+  | { action: "skip"; variantIndex: number };
+
+/**
+ * Прогон конвейера, к которому относится файл (варианты видео и прошлые попытки публикации)
+ */
+async function loadPipelineRunForFile(channel: Channel, fileId: string, userId: string): Promise<PipelineRun | null> {
+  try {
+    return await findPipelineRunByDriveFileId(userId, channel.id, fileId);
+  } catch (error: any) {
+    Logger.warn("BlottataFileProcessor: failed to load pipeline run for file", {
+      channelId: channel.id,
+      fileId,
+      error: error?.message || String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Решает, как публиковать файл, если он — один из нескольких вариантов видео прогона:
+ * подождать выбора пользователя, опубликовать на выбранные платформы или пропустить.
+ */
+function resolveVariantDecision(channel: Channel, fileId: string, run: PipelineRun | null): VariantDecision {
+  const variant = run?.variants?.find((v) => v.driveFileId === fileId);
+  if (!run || !variant || (run.variants ?? []).length <= 1) {
+    return { action: "publish", channel };
+  }
+  if (isAwaitingVariantSelection(run, new Date(), getVariantHoldMinutes())) {
+    return { action: "defer" };
+  }
+
+  const platforms = getVariantPlatforms(run.variantSelection, variant.index, getChannelPublishPlatforms(channel));
+  if (platforms.length === 0) {
+    return { action: "skip", variantIndex: variant.index };
+  }
+  return { action: "publish", channel: restrictChannelToPlatforms(channel, platforms), variantIndex: variant.index };
 }
 
 /**
@@ -153,15 +210,22 @@ async function validateFileBeforeBlottata(params: {
 }
 
 /**
- * Обрабатывает файл из Google Drive: генерирует описание, публикует через Blottata, перемещает в архив
+ * Обрабатывает файл из Google Drive: генерирует описание, публикует через публикаторы канала (по умолчанию Blottata),
+ * перемещает в архив
  * @param channel - Канал для публикации
  * @param fileId - ID файла в Google Drive
  * @param userId - ID владельца канала (для журнала ошибок)
+ * @param options.scheduledTime - ISO-время слота публикации (очередь канала), публикатор отложит пост до него
+ * @param options.retryPlatforms - ручной повтор: одна попытка только на этих платформах, без автоматических повторов
+ *
+ * Файл перемещается в архив, только когда каждая платформа опубликована или снята с повторов.
+ * Пока у платформы запланирован повтор, файл остаётся во входной папке и возвращается с deferred.
  */
 export async function processBlottataFile(
   channel: Channel,
   fileId: string,
-  userId?: string
+  userId?: string,
+  options: { scheduledTime?: string | null; retryPlatforms?: string[] | null } = {}
 ): Promise<ProcessedFile> {
   const result: ProcessedFile = {
     fileId,
@@ -170,6 +234,13 @@ export async function processBlottataFile(
     publishedPlatforms: [],
     errors: []
   };
+  // ID прогона конвейера, к которому относится файл (только при известном владельце)
+  let runId: string | null = null;
+  let publishTracked = false;
+  // Публикуется часть платформ (повтор) — результаты остальных в прогоне сохраняются
+  let partialPublish = false;
+  // Номер варианта видео, если на промпт пришло несколько роликов
+  let variantIndex: number | undefined;
 
   try {
     Logger.info("BlottataFileProcessor: Starting file processing", {
@@ -190,6 +261,73 @@ export async function processBlottataFile(
     result.fileName = fileInfo.data.name || "unknown";
     const fileMeta = fileInfo.data;
 
+    // Несколько вариантов видео на один промпт: публикуем только выбранные пользователем
+    let publishChannel = channel;
+    let previousPublications: PipelinePublication[] = [];
+    if (userId && userId !== "unknown") {
+      const run = await loadPipelineRunForFile(channel, fileId, userId);
+      previousPublications = run?.publications ?? [];
+      const decision = resolveVariantDecision(channel, fileId, run);
+      if (decision.action === "defer") {
+        Logger.info("BlottataFileProcessor: waiting for video variant selection", {
+          channelId: channel.id,
+          fileId,
+          fileName: result.fileName
+        });
+        result.deferred = true;
+        return result;
+      }
+      if (decision.action === "skip") {
+        Logger.info("BlottataFileProcessor: video variant is not selected for publishing, archiving", {
+          channelId: channel.id,
+          fileId,
+          fileName: result.fileName,
+          variantIndex: decision.variantIndex
+        });
+        const inputFolderId = channel.driveInputFolderId ? cleanFolderId(channel.driveInputFolderId) : undefined;
+        const archiveFolderId = channel.driveArchiveFolderId ? cleanFolderId(channel.driveArchiveFolderId) : undefined;
+        if (inputFolderId && archiveFolderId) {
+          await moveFileToArchive(drive, fileId, inputFolderId, archiveFolderId);
+        }
+        result.success = true;
+        return result;
+      }
+      publishChannel = decision.channel;
+      variantIndex = decision.variantIndex;
+    }
+
+    // Платформы публикации; при запланированных повторах — только те, чей повтор наступил
+    const channelPlatforms: string[] = getChannelPublishPlatforms(publishChannel);
+    const retryPlatforms = options.retryPlatforms;
+    const retryPlan = retryPlatforms
+      ? { due: channelPlatforms.filter((platform) => retryPlatforms.includes(platform)), nextRetryAt: null }
+      : getPublishRetryPlan(previousPublications, channelPlatforms, new Date());
+    if (retryPlan && retryPlan.due.length === 0 && (retryPlan.nextRetryAt || retryPlatforms)) {
+      if (retryPlatforms) {
+        result.errors.push("Нет платформ для повторной публикации");
+      } else {
+        Logger.info("BlottataFileProcessor: waiting for publish retry", {
+          channelId: channel.id,
+          fileId,
+          fileName: result.fileName,
+          nextRetryAt: retryPlan.nextRetryAt
+        });
+        result.deferred = true;
+      }
+      return result;
+    }
+    partialPublish = Boolean(retryPlan);
+
+    if (userId && userId !== "unknown") {
+      runId = await trackPublishStarted({
+        userId,
+        channelId: channel.id,
+        driveFileId: fileId,
+        fileName: result.fileName,
+        driveWebViewLink: fileMeta.webViewLink || undefined
+      });
+    }
+
     // Предварительная проверка файла перед отправкой в Blottata
     const precheckResult = await validateFileBeforeBlottata({
       fileMeta,
@@ -209,195 +347,185 @@ export async function processBlottataFile(
         fileName: result.fileName,
         reason: precheckResult.reason
       });
+      if (runId && userId) {
+        await trackPublishResult({
+          userId,
+          channelId: channel.id,
+          runId,
+          publications: [],
+          error: errorMessage,
+          variantIndex,
+          partial: partialPublish
+        });
+      }
       return result;
     }
 
-    // 2. Получаем публичную ссылку на файл
-    const mediaUrl = fileInfo.data.webContentLink;
-    if (!mediaUrl) {
-      throw new Error("File does not have webContentLink. Make sure the file is shared publicly.");
-    }
+    const platforms: string[] = retryPlan ? retryPlan.due : channelPlatforms;
+    const hashtagLibrary = channel.hashtagLibrary ?? null;
+    let attempts: Array<Omit<PipelinePublication, "publishedAt">> = [];
+    // Повторы остальных платформ ещё впереди либо они уже опубликованы
+    const keptPublications = retryPlan
+      ? previousPublications.filter((p) => channelPlatforms.includes(p.platform) && !platforms.includes(p.platform))
+      : [];
+    let hashtagRotationIndex = 0;
+
+    if (platforms.length > 0) {
+      // 2. Получаем публичную ссылку на файл
+      const mediaUrl = fileInfo.data.webContentLink;
+      if (!mediaUrl) {
+        throw new Error("File does not have webContentLink. Make sure the file is shared publicly.");
+      }
 
-    Logger.info("BlottataFileProcessor: File info retrieved", {
-      channelId: channel.id,
-      fileId,
-      fileName: result.fileName,
-      mediaUrl
-    });
+      Logger.info("BlottataFileProcessor: File info retrieved", {
+        channelId: channel.id,
+        fileId,
+        fileName: result.fileName,
+        mediaUrl,
+        platforms,
+        retry: Boolean(retryPlan)
+      });
 
-    // 3. Генерируем title и description через OpenAI с учетом языка канала
-    const { title: generatedTitle, description } = await generateYoutubeTitleAndDescription(result.fileName, channel);
-    
-    // Нормализуем title перед публикацией (уже нормализован в generateYoutubeTitleAndDescription, но для надежности делаем еще раз)
-    const normalizedTitle = normalizeYoutubeTitle(generatedTitle);
+      // 3. Генерируем title и description через LLM с учетом языка канала
+      const { title: generatedTitle, description } = await generateYoutubeTitleAndDescription(
+        variantIndex ? stripVariantSuffix(result.fileName) : result.fileName,
+        channel,
+        userId
+      );
 
-    Logger.info("BlottataFileProcessor: Title and description generated", {
-      channelId: channel.id,
-      fileId,
-      titleLength: normalizedTitle.length,
-      descriptionLength: description.length,
-      title: normalizedTitle.substring(0, 50) + (normalizedTitle.length > 50 ? "..." : ""),
-      description: description.substring(0, 50) + "..."
-    });
+      // Нормализуем title перед публикацией (уже нормализован в generateYoutubeTitleAndDescription, но для надежности делаем еще раз)
+      const normalizedTitle = normalizeYoutubeTitle(generatedTitle);
 
-    // 4. Публикуем на все настроенные платформы
-    // Получаем список платформ для логирования ошибок
-    const platforms: string[] = [];
-    if (channel.blotataYoutubeId) platforms.push("youtube");
-    if (channel.blotataTiktokId) platforms.push("tiktok");
-    if (channel.blotataInstagramId) platforms.push("instagram");
-    if (channel.blotataFacebookId) platforms.push("facebook");
-    if (channel.blotataThreadsId) platforms.push("threads");
-    if (channel.blotataTwitterId) platforms.push("twitter");
-    if (channel.blotataLinkedinId) platforms.push("linkedin");
-    if (channel.blotataPinterestId) platforms.push("pinterest");
-    if (channel.blotataBlueskyId) platforms.push("bluesky");
-
-    let publishResults;
-    try {
-      publishResults = await blottataPublisherService.publishToAllPlatforms({
-        channel,
-        mediaUrl,
-        description,
-        title: normalizedTitle
+      Logger.info("BlottataFileProcessor: Title and description generated", {
+        channelId: channel.id,
+        fileId,
+        titleLength: normalizedTitle.length,
+        descriptionLength: description.length,
+        title: normalizedTitle.substring(0, 50) + (normalizedTitle.length > 50 ? "..." : ""),
+        description: description.substring(0, 50) + "..."
       });
-    } catch (blottataError: any) {
-      // Специальная обработка ошибки BLOTTATA_MEDIA_UPLOAD_FAILED
-      const errorMessage = blottataError?.message || String(blottataError);
-      const isMediaUploadError = 
-        errorMessage.includes("BLOTTATA_MEDIA_UPLOAD_FAILED") ||
-        errorMessage.includes("BLOTATA_MEDIA_UPLOAD_FAILED") ||
-        errorMessage.includes("Failed to read media metadata") ||
-        errorMessage.includes("Is the file accessible and a valid media file") ||
-        blottataError?.response?.status === 500;
 
-      if (isMediaUploadError && userId && userId !== "unknown") {
-        Logger.error("[BlottataPublish] BLOTTATA_MEDIA_UPLOAD_FAILED for channel", {
-          channelId: channel.id,
-          fileId,
+      // 4. Публикуем на платформы
+      // Подписи и заголовки по шаблонам канала с учётом лимитов длины каждой платформы
+      const templatedPosts = buildPlatformPosts(channel.postTemplates, platforms, {
+        title: normalizedTitle,
+        description,
+        idea: getVideoIdeaFromFileName(result.fileName),
+        channelName: channel.name,
+        date: formatPostDate(options.scheduledTime ? new Date(options.scheduledTime) : new Date(), channel.timezone || "UTC")
+      });
+      // Хештеги из библиотеки канала: один индекс ротации на публикацию для всех платформ
+      hashtagRotationIndex = hashtagLibrary ? getHashtagRotationIndex(hashtagLibrary) : 0;
+      const platformPosts = Object.fromEntries(
+        Object.entries(templatedPosts).map(([platform, post]) => [
+          platform,
+          applyHashtagLibrary(post, hashtagLibrary, platform, hashtagRotationIndex)
+        ])
+      );
+
+      // Платформы распределяются по публикаторам канала (по умолчанию Blotato)
+      const publishResults = await publishVideo({
+        userId: userId && userId !== "unknown" ? userId : undefined,
+        channel: publishChannel,
+        platforms,
+        video: {
+          driveFileId: fileId,
           fileName: result.fileName,
-          error: errorMessage,
-          status: blottataError?.response?.status,
-          data: blottataError?.response?.data,
-          platforms
-        });
-
-        await logError({
-          userId,
-          channelId: channel.id,
-          channelName: channel.name,
-          source: "blotato_publish",
-          severity: "error",
-          code: "BLOTTATA_MEDIA_UPLOAD_FAILED",
-          message: "Blottata не смогла прочитать метаданные видео. Чаще всего это означает, что файл повреждён, пустой или временно недоступен. Попробуйте пересоздать видео и заново запустить автопубликацию.",
-          details: {
-            fileId,
-            fileName: result.fileName,
-            mimeType: fileMeta?.mimeType,
-            size: fileMeta?.size,
-            driveWebViewLink: fileMeta?.webViewLink,
-            platforms,
-            blottataRequestId: blottataError?.response?.data?.requestId || blottataError?.response?.data?.id,
-            originalError: {
-              message: errorMessage.substring(0, 500), // Ограничиваем длину
-              status: blottataError?.response?.status,
-              data: blottataError?.response?.data
-            }
-          }
-        });
-      }
+          mediaUrl,
+          mimeType: fileMeta.mimeType,
+          size: fileMeta.size,
+          webViewLink: fileMeta.webViewLink
+        },
+        title: normalizedTitle,
+        description,
+        platformPosts,
+        scheduledTime: options.scheduledTime ?? null
+      });
 
-      // Пробрасываем ошибку дальше
-      throw blottataError;
+      // Попытки считаются по платформам: временные ошибки получают повтор с растущей паузой
+      const now = new Date();
+      attempts = publishResults.map((r) => {
+        const previous = retryPlan && !retryPlatforms ? previousPublications.find((p) => p.platform === r.platform) : undefined;
+        return applyPublishAttempt(
+          {
+            platform: r.platform,
+            success: r.success,
+            postId: r.postId ?? null,
+            postUrl: r.postUrl ?? null,
+            error: r.error ?? null,
+            publisher: r.publisher ?? null
+          },
+          previous?.attempts ?? 0,
+          now,
+          retryPlatforms ? 1 : undefined
+        );
+      });
     }
 
-    // Анализируем результаты
-    const successfulPlatforms: string[] = [];
-    const errors: string[] = [];
-
-    publishResults.forEach((result) => {
-      if (result.success) {
-        successfulPlatforms.push(result.platform);
-      } else {
-        errors.push(`${result.platform}: ${result.error || "Unknown error"}`);
-      }
-    });
+    // Анализируем результаты вместе с платформами, опубликованными в прошлых попытках
+    const settled = [...keptPublications, ...attempts];
+    const successfulPlatforms = attempts.filter((a) => a.success).map((a) => a.platform);
+    const errors = attempts.filter((a) => !a.success).map((a) => `${a.platform}: ${a.error || "Unknown error"}`);
+    const pendingRetries = settled.filter(isPublishRetryPending);
+    const nextRetryAt = pendingRetries.map((p) => p.nextRetryAt!).sort()[0] ?? null;
 
     result.publishedPlatforms = successfulPlatforms;
 
+    if (runId && userId) {
+      await trackPublishResult({
+        userId,
+        channelId: channel.id,
+        runId,
+        publications: attempts,
+        variantIndex,
+        partial: partialPublish,
+        retryAt: nextRetryAt
+      });
+      publishTracked = true;
+    }
+
     if (errors.length > 0) {
       result.errors = errors;
       Logger.warn("BlottataFileProcessor: Some platforms failed", {
         channelId: channel.id,
         fileId,
-        errors
+        errors,
+        nextRetryAt
       });
     }
 
-    // Если хотя бы одна платформа успешна, считаем операцию успешной
-    result.success = successfulPlatforms.length > 0;
+    // Если хотя бы одна платформа успешна (в том числе в прошлых попытках), считаем операцию успешной
+    result.success = settled.some((p) => p.success);
 
-    if (!result.success) {
-      throw new Error(`All platforms failed: ${errors.join("; ")}`);
+    // Ротация хештегов сдвигается один раз на ролик — при первой успешной платформе
+    if (
+      successfulPlatforms.length > 0 &&
+      !keptPublications.some((p) => p.success) &&
+      hashtagLibrary?.mode === "cyclic" &&
+      userId &&
+      userId !== "unknown"
+    ) {
+      await advanceHashtagRotation(userId, channel.id, hashtagRotationIndex);
     }
 
-    // 5. Перемещаем файл из входной папки в архивную папку после успешной публикации
-    const rawInputFolderId = channel.driveInputFolderId;
-    const rawArchiveFolderId = channel.driveArchiveFolderId;
-
-    // Очищаем folderId от параметров URL (например, ?hl=ru)
-    const inputFolderId = rawInputFolderId ? cleanFolderId(rawInputFolderId) : undefined;
-    const archiveFolderId = rawArchiveFolderId ? cleanFolderId(rawArchiveFolderId) : undefined;
-
-    if (inputFolderId && archiveFolderId) {
-      Logger.info("BlottataFileProcessor: Moving file to archive folder", {
+    // Архив откладывается, пока у какой-то платформы запланирован повтор
+    if (nextRetryAt) {
+      Logger.info("BlottataFileProcessor: publish retry scheduled, keeping file in input folder", {
         channelId: channel.id,
         fileId,
         fileName: result.fileName,
-        inputFolderId,
-        archiveFolderId,
-        originalInputFolderId: rawInputFolderId,
-        originalArchiveFolderId: rawArchiveFolderId
+        platforms: pendingRetries.map((p) => p.platform),
+        nextRetryAt
       });
+      result.deferred = true;
+      return result;
+    }
 
-      try {
-        await moveFileToArchive(drive, fileId, inputFolderId, archiveFolderId);
-        
-        Logger.info("BlottataFileProcessor: File successfully moved to archive folder", {
-          channelId: channel.id,
-          fileId,
-          fileName: result.fileName,
-          inputFolderId,
-          archiveFolderId
-        });
-      } catch (moveError: any) {
-        Logger.error("BlottataFileProcessor: Failed to move file to archive folder", {
-          channelId: channel.id,
-          fileId,
-          fileName: result.fileName,
-          inputFolderId,
-          archiveFolderId,
-          error: moveError?.message || String(moveError),
-          errorCode: moveError?.code,
-          errorStack: moveError?.stack
-        });
-        // Не считаем это критической ошибкой, если публикация прошла успешно
-        // Файл останется во входной папке и будет обработан снова при следующем цикле
-        if (result.errors.length === 0) {
-          result.errors.push(`Archive move failed: ${moveError?.message || "Unknown error"}`);
-        }
-      }
-    } else {
-      Logger.warn("BlottataFileProcessor: Archive folder is not configured for channel, skipping move", {
-        channelId: channel.id,
-        fileId,
-        fileName: result.fileName,
-        inputFolderId: inputFolderId || "not set",
-        archiveFolderId: archiveFolderId || "not set",
-        rawInputFolderId: rawInputFolderId || "not set",
-        rawArchiveFolderId: rawArchiveFolderId || "not set",
-        note: "File will remain in input folder and may be reprocessed"
-      });
+    // 5. Перемещаем файл из входной папки в архивную папку: все платформы опубликованы или сняты с повторов
+    await archiveFile(drive, channel, fileId, result, runId, userId);
+
+    if (!result.success) {
+      throw new Error(`All platforms failed: ${errors.join("; ")}`);
     }
 
     Logger.info("BlottataFileProcessor: File processing completed", {
@@ -410,6 +538,18 @@ export async function processBlottataFile(
     return result;
   } catch (error: any) {
     const errorMessage = error?.message || String(error);
+
+    if (runId && userId && !publishTracked) {
+      await trackPublishResult({
+        userId,
+        channelId: channel.id,
+        runId,
+        publications: [],
+        error: errorMessage,
+        variantIndex,
+        partial: partialPublish
+      });
+    }
     
     Logger.error("BlottataFileProcessor: File processing failed", {
       channelId: channel.id,
@@ -458,6 +598,114 @@ export async function processBlottataFile(
   }
 }
 
+/**
+ * Перемещает опубликованный файл из входной папки в архивную и отмечает этап archive прогона.
+ * Ошибка перемещения не критична: файл останется во входной папке.
+ */
+async function archiveFile(
+  drive: drive_v3.Drive,
+  channel: Channel,
+  fileId: string,
+  result: ProcessedFile,
+  runId: string | null,
+  userId: string | undefined
+): Promise<void> {
+  const rawInputFolderId = channel.driveInputFolderId;
+  const rawArchiveFolderId = channel.driveArchiveFolderId;
+
+  // Очищаем folderId от параметров URL (например, ?hl=ru)
+  const inputFolderId = rawInputFolderId ? cleanFolderId(rawInputFolderId) : undefined;
+  const archiveFolderId = rawArchiveFolderId ? cleanFolderId(rawArchiveFolderId) : undefined;
+
+  if (inputFolderId && archiveFolderId) {
+    Logger.info("BlottataFileProcessor: Moving file to archive folder", {
+      channelId: channel.id,
+      fileId,
+      fileName: result.fileName,
+      inputFolderId,
+      archiveFolderId,
+      originalInputFolderId: rawInputFolderId,
+      originalArchiveFolderId: rawArchiveFolderId
+    });
+
+    try {
+      await moveFileToArchive(drive, fileId, inputFolderId, archiveFolderId);
+
+      Logger.info("BlottataFileProcessor: File successfully moved to archive folder", {
+        channelId: channel.id,
+        fileId,
+        fileName: result.fileName,
+        inputFolderId,
+        archiveFolderId
+      });
+      if (runId && userId) {
+        await trackArchiveResult({ userId, channelId: channel.id, runId, status: "success" });
+      }
+    } catch (moveError: any) {
+      Logger.error("BlottataFileProcessor: Failed to move file to archive folder", {
+        channelId: channel.id,
+        fileId,
+        fileName: result.fileName,
+        inputFolderId,
+        archiveFolderId,
+        error: moveError?.message || String(moveError),
+        errorCode: moveError?.code,
+        errorStack: moveError?.stack
+      });
+      // Не считаем это критической ошибкой, если публикация прошла успешно
+      // Файл останется во входной папке и будет обработан снова при следующем цикле
+      if (result.errors.length === 0) {
+        result.errors.push(`Archive move failed: ${moveError?.message || "Unknown error"}`);
+      }
+      if (runId && userId) {
+        await trackArchiveResult({
+          userId,
+          channelId: channel.id,
+          runId,
+          status: "failed",
+          error: moveError?.message || String(moveError)
+        });
+      }
+    }
+  } else {
+    Logger.warn("BlottataFileProcessor: Archive folder is not configured for channel, skipping move", {
+      channelId: channel.id,
+      fileId,
+      fileName: result.fileName,
+      inputFolderId: inputFolderId || "not set",
+      archiveFolderId: archiveFolderId || "not set",
+      rawInputFolderId: rawInputFolderId || "not set",
+      rawArchiveFolderId: rawArchiveFolderId || "not set",
+      note: "File will remain in input folder and may be reprocessed"
+    });
+    if (runId && userId) {
+      await trackArchiveResult({ userId, channelId: channel.id, runId, status: "skipped" });
+    }
+  }
+}
+
+/**
+ * Сдвигает циклическую ротацию библиотеки хештегов канала на следующий набор
+ */
+async function advanceHashtagRotation(userId: string, channelId: string, usedIndex: number): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    return;
+  }
+  try {
+    await db
+      .collection("users")
+      .doc(userId)
+      .collection("channels")
+      .doc(channelId)
+      .update({ "hashtagLibrary.lastUsedIndex": usedIndex + 1 });
+  } catch (error: any) {
+    Logger.warn("BlottataFileProcessor: failed to advance hashtag rotation", {
+      channelId,
+      error: error?.message || String(error)
+    });
+  }
+}
+
 /**
  * Перемещает файл из входной папки в архивную папку Google Drive
  * Удаляет файл из входной папки и добавляет в архивную папку
@@ -2,6 +2,7 @@ import axios, { AxiosInstance } from "axios";
 import { Logger } from "../utils/logger";
 import type { Channel } from "../types/channel";
 import { normalizeYoutubeTitle } from "../utils/youtubeTitleNormalizer";
+import type { PlatformPost } from "../utils/postTemplates";
 
 interface BlottataPlatformIds {
   youtubeId?: string | null;
@@ -29,6 +30,9 @@ interface BlottataPublishOptions {
   mediaUrl: string;
   description: string;
   title?: string;
+  apiKey?: string | null; // ключ из хранилища секретов (resolveBlotatoApiKey); без него — ключ сервиса
+  scheduledTime?: string | null; // ISO: Blotato опубликует пост в это время, без него — сразу
+  platformPosts?: Partial<Record<string, PlatformPost>>; // подписи по шаблонам канала для каждой платформы
 }
 
 /**
@@ -147,7 +151,7 @@ export class BlottataPublisherService {
   ): Promise<BlottataPublishResult> {
     const { channel, mediaUrl, description, title } = options;
     const platformIds = this.getPlatformIds(channel);
-    const apiKey = channel.blotataApiKey || this.apiKey;
+    const apiKey = options.apiKey || this.apiKey;
 
     if (!platformIds.youtubeId) {
       return {
@@ -188,7 +192,8 @@ export class BlottataPublisherService {
             mediaUrls: [mediaUrl]
           },
           accountId: platformIds.youtubeId
-        }
+        },
+        ...(options.scheduledTime ? { scheduledTime: options.scheduledTime } : {})
       };
 
       const response = await this.httpClient.post("/posts", postData, {
@@ -231,7 +236,7 @@ export class BlottataPublisherService {
   ): Promise<BlottataPublishResult> {
     const { channel, mediaUrl, description } = options;
     const platformIds = this.getPlatformIds(channel);
-    const apiKey = channel.blotataApiKey || this.apiKey;
+    const apiKey = options.apiKey || this.apiKey;
 
     if (!platformIds.tiktokId) {
       return {
@@ -273,7 +278,8 @@ export class BlottataPublisherService {
             mediaUrls: [mediaUrl]
           },
           accountId: platformIds.tiktokId
-        }
+        },
+        ...(options.scheduledTime ? { scheduledTime: options.scheduledTime } : {})
       };
 
       const response = await this.httpClient.post("/posts", postData, {
@@ -316,7 +322,7 @@ export class BlottataPublisherService {
   ): Promise<BlottataPublishResult> {
     const { channel, mediaUrl, description } = options;
     const platformIds = this.getPlatformIds(channel);
-    const apiKey = channel.blotataApiKey || this.apiKey;
+    const apiKey = options.apiKey || this.apiKey;
 
     if (!platformIds.instagramId) {
       return {
@@ -351,7 +357,8 @@ export class BlottataPublisherService {
             mediaUrls: [mediaUrl]
           },
           accountId: platformIds.instagramId
-        }
+        },
+        ...(options.scheduledTime ? { scheduledTime: options.scheduledTime } : {})
       };
 
       const response = await this.httpClient.post("/posts", postData, {
@@ -386,6 +393,17 @@ export class BlottataPublisherService {
     }
   }
 
+  /**
+   * Подпись и заголовок платформы по шаблонам канала (если они переданы)
+   */
+  private getPlatformPostOptions(
+    options: BlottataPublishOptions,
+    platform: string
+  ): Partial<Pick<BlottataPublishOptions, "description" | "title">> {
+    const post = options.platformPosts?.[platform];
+    return post ? { description: post.caption, title: post.title } : {};
+  }
+
   /**
    * Публикует видео на все настроенные платформы
    */
@@ -399,7 +417,7 @@ export class BlottataPublisherService {
     // Сначала загружаем медиа в Blottata
     let blotataMediaUrl: string;
     try {
-      blotataMediaUrl = await this.uploadMedia(mediaUrl, channel.blotataApiKey || undefined);
+      blotataMediaUrl = await this.uploadMedia(mediaUrl, options.apiKey || undefined);
     } catch (error: any) {
       Logger.error("BlottataPublisherService: Failed to upload media, aborting all publications", {
         error: error?.message || String(error)
@@ -436,6 +454,7 @@ export class BlottataPublisherService {
       publishPromises.push(
         this.publishToYouTube({
           ...options,
+          ...this.getPlatformPostOptions(options, "youtube"),
           mediaUrl: blotataMediaUrl
         })
       );
@@ -445,6 +464,7 @@ export class BlottataPublisherService {
       publishPromises.push(
         this.publishToTikTok({
           ...options,
+          ...this.getPlatformPostOptions(options, "tiktok"),
           mediaUrl: blotataMediaUrl
         })
       );
@@ -454,6 +474,7 @@ export class BlottataPublisherService {
       publishPromises.push(
         this.publishToInstagram({
           ...options,
+          ...this.getPlatformPostOptions(options, "instagram"),
           mediaUrl: blotataMediaUrl
         })
       );
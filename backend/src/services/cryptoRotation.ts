@@ -0,0 +1,173 @@
+import type { DocumentReference, DocumentSnapshot } from "firebase-admin/firestore";
+import { db, isFirestoreAvailable } from "./firebaseAdmin";
+import { describeKeyring, getPayloadKeyId, reencrypt } from "../crypto/aes";
+import { Logger } from "../utils/logger";
+
+/**
+ * Перешифровка сохранённых значений активным ключом после ротации (CRYPTO_KEYS).
+ * Старый ключ можно убирать из окружения только после прогона без ошибок.
+ */
+
+export interface ReencryptionSourceReport {
+  scanned: number; // сколько значений просмотрено
+  reencrypted: number;
+  current: number; // уже зашифрованы активным ключом
+  plaintext: number; // хранятся в открытом виде (OAuth-токены Google Drive), не трогаем
+  failed: number;
+  errors: { path: string; error: string }[];
+}
+
+export interface ReencryptionReport {
+  activeKeyId: string | null;
+  dryRun: boolean;
+  sources: Record<"telegramSessions" | "secrets" | "userSettings" | "oauthTokens", ReencryptionSourceReport>;
+}
+
+const MAX_REPORTED_ERRORS = 50;
+
+function emptySourceReport(): ReencryptionSourceReport {
+  return { scanned: 0, reencrypted: 0, current: 0, plaintext: 0, failed: 0, errors: [] };
+}
+
+/**
+ * Считает перешифровку полей документа, ничего не записывая.
+ * encryptedOnly: поле может хранить открытое значение — тогда шифруем только версионированные конверты.
+ */
+function planFieldReencryption(
+  path: string,
+  data: Record<string, unknown>,
+  fields: string[],
+  options: { encryptedOnly?: boolean }
+): { update: Record<string, string>; report: ReencryptionSourceReport } {
+  const update: Record<string, string> = {};
+  const report = emptySourceReport();
+
+  for (const field of fields) {
+    const value = data[field];
+    if (typeof value !== "string" || !value) {
+      continue;
+    }
+    report.scanned++;
+    if (options.encryptedOnly && getPayloadKeyId(value) === null) {
+      report.plaintext++;
+      continue;
+    }
+    try {
+      const next = reencrypt(value);
+      if (next === null) {
+        report.current++;
+      } else {
+        update[field] = next;
+        report.reencrypted++;
+      }
+    } catch (error: any) {
+      report.failed++;
+      report.errors.push({ path: `${path}.${field}`, error: error?.message || String(error) });
+    }
+  }
+
+  return { update, report };
+}
+
+function mergeSourceReport(target: ReencryptionSourceReport, source: ReencryptionSourceReport): void {
+  target.scanned += source.scanned;
+  target.reencrypted += source.reencrypted;
+  target.current += source.current;
+  target.plaintext += source.plaintext;
+  target.failed += source.failed;
+  target.errors.push(...source.errors.slice(0, MAX_REPORTED_ERRORS - target.errors.length));
+}
+
+/**
+ * Перешифровывает указанные поля документа.
+ * Запись идёт в транзакции по свежему чтению: значение могли заменить после чтения коллекции
+ * (новый вход в Telegram, обновление OAuth-токена), и старый шифротекст не должен его затереть.
+ */
+async function reencryptFields(
+  snapshot: DocumentSnapshot,
+  fields: string[],
+  report: ReencryptionSourceReport,
+  options: { dryRun: boolean; encryptedOnly?: boolean }
+): Promise<void> {
+  if (options.dryRun) {
+    mergeSourceReport(report, planFieldReencryption(snapshot.ref.path, snapshot.data() ?? {}, fields, options).report);
+    return;
+  }
+
+  // Транзакция может повториться, поэтому отчёт собирается заново на каждой попытке
+  const result = await snapshot.ref.firestore.runTransaction(async (tx) => {
+    const current = await tx.get(snapshot.ref);
+    const planned = planFieldReencryption(snapshot.ref.path, current.data() ?? {}, fields, options);
+    if (Object.keys(planned.update).length > 0) {
+      tx.update(snapshot.ref, planned.update);
+    }
+    return planned.report;
+  });
+  mergeSourceReport(report, result);
+}
+
+export async function reencryptStoredSecrets(options: { dryRun?: boolean } = {}): Promise<ReencryptionReport> {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  const dryRun = options.dryRun ?? false;
+  const report: ReencryptionReport = {
+    activeKeyId: describeKeyring().activeKeyId,
+    dryRun,
+    sources: {
+      telegramSessions: emptySourceReport(),
+      secrets: emptySourceReport(),
+      userSettings: emptySourceReport(),
+      oauthTokens: emptySourceReport()
+    }
+  };
+
+  const telegramIntegrations = await db.collection("telegramUserIntegrations").get();
+  for (const doc of telegramIntegrations.docs) {
+    await reencryptFields(doc, ["sessionEncrypted"], report.sources.telegramSessions, { dryRun });
+  }
+
+  const driveIntegrations = await db.collection("googleDriveIntegrations").get();
+  for (const doc of driveIntegrations.docs) {
+    await reencryptFields(doc, ["accessToken", "refreshToken"], report.sources.oauthTokens, {
+      dryRun,
+      encryptedOnly: true
+    });
+  }
+
+  // listDocuments возвращает и пользователей без собственного документа (только с подколлекциями)
+  const users: DocumentReference[] = await db.collection("users").listDocuments();
+  for (const userRef of users) {
+    const [userDoc, settingsDoc, secrets] = await Promise.all([
+      userRef.get(),
+      userRef.collection("settings").doc("account").get(),
+      userRef.collection("secrets").get()
+    ]);
+
+    if (userDoc.exists) {
+      await reencryptFields(userDoc, ["googleDriveAccessToken", "googleDriveRefreshToken"], report.sources.oauthTokens, {
+        dryRun,
+        encryptedOnly: true
+      });
+    }
+    if (settingsDoc.exists) {
+      await reencryptFields(settingsDoc, ["defaultBlottataApiKeyEncrypted"], report.sources.userSettings, { dryRun });
+    }
+    for (const secretDoc of secrets.docs) {
+      await reencryptFields(secretDoc, ["ciphertext"], report.sources.secrets, { dryRun });
+    }
+  }
+
+  Logger.info("cryptoRotation: re-encryption finished", {
+    activeKeyId: report.activeKeyId,
+    dryRun,
+    ...Object.fromEntries(
+      Object.entries(report.sources).map(([name, source]) => [
+        name,
+        { reencrypted: source.reencrypted, current: source.current, failed: source.failed }
+      ])
+    )
+  });
+
+  return report;
+}
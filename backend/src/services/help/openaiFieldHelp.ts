@@ -1,4 +1,6 @@
 import { Logger } from "../../utils/logger";
+import { chatCompletion } from "../llm/llmClient";
+import { LlmError } from "../llm/types";
 
 interface FieldHelpRequest {
   fieldKey: string;
@@ -39,7 +41,7 @@ function getBaseFieldDescription(fieldKey: string): string | undefined {
     "channel.blotataEnabled": "Включена ли автоматическая публикация видео через Blotato API",
     "channel.driveInputFolderId": "ID папки Google Drive, откуда брать готовые видео для публикации через Blotato. Система отслеживает новые файлы в этой папке",
     "channel.driveArchiveFolderId": "ID папки Google Drive, куда перемещать обработанные видео после публикации через Blotato",
-    "channel.blotataApiKey": "API ключ для доступа к Blotato сервису. Формат: blt_... Если не указан, используется ключ из настроек сервера",
+    "channel.blotataApiKey": "API ключ для доступа к Blotato сервису. Формат: blt_... Хранится зашифрованным на сервере, в браузере виден только по маске. Если не указан, используется ключ из настроек аккаунта или сервера",
     "channel.blotataYoutubeId": "ID YouTube аккаунта в системе Blotato - числовой идентификатор площадки для публикации",
     "channel.blotataTiktokId": "ID TikTok аккаунта в системе Blotato - числовой идентификатор площадки для публикации",
     "channel.blotataInstagramId": "ID Instagram аккаунта в системе Blotato - числовой идентификатор площадки для публикации",
@@ -141,84 +143,54 @@ function buildUserPrompt(request: FieldHelpRequest): string {
 }
 
 /**
- * Вызывает OpenAI для объяснения поля
+ * Вызывает LLM (провайдер из настроек пользователя) для объяснения поля
  */
-export async function explainFieldWithOpenAI(request: FieldHelpRequest): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OpenAI API ключ не настроен на сервере");
-  }
-
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
+export async function explainFieldWithOpenAI(request: FieldHelpRequest, userId?: string): Promise<string> {
   const systemPrompt = buildSystemPrompt();
   const userPrompt = buildUserPrompt(request);
 
-  const requestBody = {
-    model,
-    messages: [
+  try {
+    const result = await chatCompletion(
       {
-        role: "system",
-        content: systemPrompt
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt
+          },
+          {
+            role: "user",
+            content: userPrompt
+          }
+        ],
+        temperature: 0.3, // Низкая температура для более точных и последовательных ответов
+        maxTokens: 1500
       },
-      {
-        role: "user",
-        content: userPrompt
-      }
-    ],
-    temperature: 0.3, // Низкая температура для более точных и последовательных ответов
-    max_tokens: 1500
-  };
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 секунд таймаут
+      { purpose: "field_help", userId }
+    );
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("Пустой ответ от OpenAI API");
+    if (!result.content) {
+      throw new Error("Пустой ответ от LLM");
     }
 
     Logger.info("explainFieldWithOpenAI success", {
       fieldKey: request.fieldKey,
-      tokensUsed: data.usage?.total_tokens
+      provider: result.provider,
+      tokensUsed: result.usage.totalTokens
     });
 
-    return content;
+    return result.content;
   } catch (error: unknown) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new Error("Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз.");
+    if (error instanceof LlmError && error.code === "TIMEOUT") {
+      throw new Error(`${error.message}. Попробуйте ещё раз.`);
     }
 
     Logger.error("explainFieldWithOpenAI error", error);
-    
+
     if (error instanceof Error) {
       throw error;
     }
-    
-    throw new Error("Неизвестная ошибка при обращении к OpenAI");
+
+    throw new Error("Неизвестная ошибка при обращении к LLM");
   }
 }
 
@@ -325,84 +297,53 @@ function buildSectionUserPrompt(request: SectionHelpRequest): string {
 }
 
 /**
- * Вызывает OpenAI для объяснения секции
+ * Вызывает LLM (провайдер из настроек пользователя) для объяснения секции
  */
-export async function explainSectionWithOpenAI(request: SectionHelpRequest): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OpenAI API ключ не настроен на сервере");
-  }
-
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
+export async function explainSectionWithOpenAI(request: SectionHelpRequest, userId?: string): Promise<string> {
   const systemPrompt = buildSectionSystemPrompt();
   const userPrompt = buildSectionUserPrompt(request);
 
-  const requestBody = {
-    model,
-    messages: [
-      {
-        role: "system",
-        content: systemPrompt
-      },
-      {
-        role: "user",
-        content: userPrompt
-      }
-    ],
-    temperature: 0.3,
-    max_tokens: 2000
-  };
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
-
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`
+    const result = await chatCompletion(
+      {
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt
+          },
+          {
+            role: "user",
+            content: userPrompt
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 2000
       },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error?.message || `OpenAI API вернул ошибку: ${response.status}`;
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+      { purpose: "section_help", userId }
+    );
 
-    if (!content) {
-      throw new Error("Пустой ответ от OpenAI API");
+    if (!result.content) {
+      throw new Error("Пустой ответ от LLM");
     }
 
     Logger.info("explainSectionWithOpenAI success", {
       sectionKey: request.sectionKey,
-      tokensUsed: data.usage?.total_tokens
+      provider: result.provider,
+      tokensUsed: result.usage.totalTokens
     });
 
-    return content;
+    return result.content;
   } catch (error: unknown) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new Error("Превышено время ожидания ответа от OpenAI. Попробуйте ещё раз.");
+    if (error instanceof LlmError && error.code === "TIMEOUT") {
+      throw new Error(`${error.message}. Попробуйте ещё раз.`);
     }
 
     Logger.error("explainSectionWithOpenAI error", error);
-    
+
     if (error instanceof Error) {
       throw error;
     }
-    
-    throw new Error("Неизвестная ошибка при обращении к OpenAI");
+
+    throw new Error("Неизвестная ошибка при обращении к LLM");
   }
 }
-
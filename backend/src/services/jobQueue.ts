@@ -0,0 +1,337 @@
+import crypto from "crypto";
+import { isFirestoreAvailable } from "./firebaseAdmin";
+import { logError } from "./errorLogger";
+import {
+  createFirestoreJobStore,
+  createInMemoryJobStore,
+  type JobStore
+} from "../repositories/jobQueueRepo";
+import type { EnqueueJobOptions, Job, JobType, JobPayloadMap } from "../types/job";
+import { Logger } from "../utils/logger";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_MS = 15 * 60 * 1000; // скачивание + загрузка в Drive могут идти несколько минут
+const DEFAULT_BATCH_SIZE = 10;
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+/**
+ * Ошибка, при которой повторять задачу бессмысленно (например, канал удалён).
+ * Задача сразу уходит в dead-letter без оставшихся попыток.
+ */
+export class PermanentJobError extends Error {}
+
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloadMap[T],
+  job: Job<T>
+) => Promise<void>;
+
+type JobHandlerMap = { [T in JobType]?: JobHandler<T> };
+
+const handlers: JobHandlerMap = {};
+
+let jobStore: JobStore | null = null;
+
+// Идентификатор воркера: ревизия Cloud Run (если есть) + pid + случайный суффикс
+const workerId = `${process.env.K_REVISION || "local"}-${process.pid}-${crypto.randomBytes(3).toString("hex")}`;
+
+/**
+ * Возвращает хранилище очереди.
+ * JOB_STORE=memory принудительно включает in-memory хранилище (локальная разработка),
+ * иначе используется Firestore, а при его недоступности — память с предупреждением.
+ */
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    if (process.env.JOB_STORE !== "memory" && isFirestoreAvailable()) {
+      jobStore = createFirestoreJobStore();
+    } else {
+      if (process.env.JOB_STORE !== "memory") {
+        Logger.warn("jobQueue: Firestore is not available, using in-memory job store (jobs will not survive restart)");
+      }
+      jobStore = createInMemoryJobStore();
+    }
+  }
+  return jobStore;
+}
+
+/**
+ * Подменяет хранилище очереди (используется в тестах)
+ */
+export function setJobStore(store: JobStore | null): void {
+  jobStore = store;
+}
+
+export function registerJobHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+  // TypeScript не сопоставляет ключ и значение отображаемого типа для обобщённого T
+  (handlers as Partial<Record<T, JobHandler<T>>>)[type] = handler;
+}
+
+/**
+ * Экспоненциальная задержка перед повторной попыткой: 1, 2, 4, 8... минут, не более 30
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BACKOFF_BASE_MS * 2 ** exponent, BACKOFF_MAX_MS);
+}
+
+/**
+ * Ставит задачу в очередь.
+ * Если указан dedupeKey и активная задача с таким ключом ещё не захвачена воркером,
+ * она перепланируется вместо создания дубликата. Проверка и перепланирование атомарны:
+ * lease задачи, которую воркер успел захватить, не сбрасывается.
+ */
+export async function enqueueJob<T extends JobType>(options: EnqueueJobOptions<T>): Promise<Job<T>> {
+  const store = getJobStore();
+  const now = new Date();
+  const runAt = (options.runAt ?? now).toISOString();
+
+  const newJob: Omit<Job, "id"> = {
+    type: options.type,
+    payload: options.payload,
+    status: "pending",
+    userId: options.userId,
+    channelId: options.channelId,
+    dedupeKey: options.dedupeKey ?? null,
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAt,
+    availableAt: runAt,
+    leaseOwner: null,
+    lastError: null,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    completedAt: null
+  };
+
+  let job: Job;
+  if (options.dedupeKey) {
+    const result = await store.insertOrReschedule(newJob);
+    if (result.outcome === "running") {
+      Logger.warn("enqueueJob: job with same dedupeKey is already running, skipping", {
+        jobId: result.job.id,
+        dedupeKey: options.dedupeKey
+      });
+      return result.job as Job<T>;
+    }
+    if (result.outcome === "rescheduled") {
+      Logger.info("enqueueJob: rescheduled existing job (duplicate prevention)", {
+        jobId: result.job.id,
+        type: options.type,
+        dedupeKey: options.dedupeKey,
+        runAt
+      });
+      return result.job as Job<T>;
+    }
+    job = result.job;
+  } else {
+    job = await store.insert(newJob);
+  }
+
+  Logger.info("enqueueJob: job enqueued", {
+    jobId: job.id,
+    type: job.type,
+    userId: job.userId,
+    channelId: job.channelId,
+    runAt
+  });
+
+  return job as Job<T>;
+}
+
+/**
+ * Отменяет активные задачи, удовлетворяющие фильтру. Уже захваченные задачи не трогаем.
+ */
+export async function cancelJobs(filter: (job: Job) => boolean, channelId?: string): Promise<number> {
+  const store = getJobStore();
+  const pendingJobs = await store.list({ status: "pending", channelId, limit: 500 });
+  const now = new Date().toISOString();
+  let cancelled = 0;
+
+  for (const job of pendingJobs.filter(filter)) {
+    await store.update(job.id, { status: "cancelled", updatedAt: now });
+    cancelled++;
+  }
+
+  return cancelled;
+}
+
+/**
+ * Возвращает dead-letter задачу обратно в очередь с обнулённым счётчиком попыток
+ */
+export async function requeueDeadJob(jobId: string): Promise<Job | null> {
+  const store = getJobStore();
+  const job = await store.findById(jobId);
+  if (!job || job.status !== "dead") {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const updates = {
+    status: "pending" as const,
+    attempts: 0,
+    availableAt: now,
+    leaseOwner: null,
+    updatedAt: now
+  };
+  await store.update(jobId, updates);
+  Logger.info("requeueDeadJob: job returned to queue", { jobId, type: job.type });
+  return { ...job, ...updates };
+}
+
+/**
+ * Переводит захваченную задачу в dead-letter. Возвращает false, если lease уже потерян.
+ */
+async function moveToDeadLetter(job: Job, errorMessage: string, owner: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const updated = await getJobStore().updateIfLeased(job.id, owner, {
+    status: "dead",
+    leaseOwner: null,
+    lastError: errorMessage,
+    updatedAt: now
+  });
+  if (!updated) {
+    return false;
+  }
+  await reportDeadLetter(job, errorMessage);
+  return true;
+}
+
+async function reportDeadLetter(job: Job, errorMessage: string): Promise<void> {
+  Logger.error("jobQueue: job moved to dead-letter", {
+    jobId: job.id,
+    type: job.type,
+    attempts: job.attempts,
+    error: errorMessage
+  });
+
+  if (job.userId) {
+    await logError({
+      userId: job.userId,
+      channelId: job.channelId,
+      source: "schedule_runner",
+      code: "JOB_DEAD_LETTERED",
+      message: `Фоновая задача не выполнена после ${job.attempts} попыток`,
+      details: { jobId: job.id, type: job.type, payload: job.payload, error: errorMessage }
+    });
+  }
+}
+
+/**
+ * Итог задачи записывается, только пока lease у этого воркера: если задача выполнялась дольше lease
+ * и её забрал другой воркер, результат первого не должен перезаписать состояние второго.
+ */
+async function runClaimedJob<T extends JobType>(
+  job: Job<T>,
+  owner: string
+): Promise<"completed" | "retried" | "dead" | "lost"> {
+  const store = getJobStore();
+  const handler: JobHandler<T> | undefined = handlers[job.type];
+  const leaseLost = () => {
+    Logger.warn("jobQueue: lease lost before job finished, result discarded", {
+      jobId: job.id,
+      type: job.type,
+      workerId: owner
+    });
+    return "lost" as const;
+  };
+
+  if (!handler) {
+    return (await moveToDeadLetter(job, `No handler registered for job type "${job.type}"`, owner))
+      ? "dead"
+      : leaseLost();
+  }
+
+  try {
+    await handler(job.payload, job);
+    const now = new Date().toISOString();
+    const updated = await store.updateIfLeased(job.id, owner, {
+      status: "completed",
+      leaseOwner: null,
+      lastError: null,
+      completedAt: now,
+      updatedAt: now
+    });
+    if (!updated) {
+      return leaseLost();
+    }
+    Logger.info("jobQueue: job completed", { jobId: job.id, type: job.type, attempts: job.attempts });
+    return "completed";
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+      return (await moveToDeadLetter(job, errorMessage, owner)) ? "dead" : leaseLost();
+    }
+
+    const retryAt = new Date(Date.now() + getRetryDelayMs(job.attempts)).toISOString();
+    const updated = await store.updateIfLeased(job.id, owner, {
+      status: "pending",
+      leaseOwner: null,
+      lastError: errorMessage,
+      availableAt: retryAt,
+      updatedAt: new Date().toISOString()
+    });
+    if (!updated) {
+      return leaseLost();
+    }
+    Logger.warn("jobQueue: job failed, retry scheduled", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      retryAt,
+      error: errorMessage
+    });
+    return "retried";
+  }
+}
+
+export interface JobQueueTickResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+  lost: number; // lease истёк во время выполнения, итог не записан
+}
+
+/**
+ * Один проход воркера: захватывает созревшие задачи (включая задачи с истёкшим lease
+ * после падения другого инстанса) и выполняет их последовательно.
+ * Задачи пачки выполняются по очереди, поэтому lease каждой отсчитывается от момента её захвата.
+ */
+export async function processJobQueueTick(options: {
+  batchSize?: number;
+  leaseMs?: number;
+  now?: Date;
+} = {}): Promise<JobQueueTickResult> {
+  const store = getJobStore();
+  const now = options.now ?? new Date();
+  const result: JobQueueTickResult = { claimed: 0, completed: 0, retried: 0, dead: 0, lost: 0 };
+
+  const candidates = await store.findClaimable(now, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  Logger.info("processJobQueueTick: start", {
+    workerId,
+    now: now.toISOString(),
+    candidates: candidates.length
+  });
+
+  for (const candidate of candidates) {
+    const claimedAt = options.now ?? new Date();
+    const job = await store.tryClaim(candidate.id, workerId, claimedAt, options.leaseMs ?? DEFAULT_LEASE_MS);
+    if (!job) {
+      continue;
+    }
+    if (job.status === "dead") {
+      // Попытки исчерпаны без итога обработчика — хранилище перевело задачу в dead-letter
+      result.dead++;
+      await reportDeadLetter(job, job.lastError || "Attempts exhausted");
+      continue;
+    }
+    result.claimed++;
+    const outcome = await runClaimedJob(job, workerId);
+    result[outcome]++;
+  }
+
+  Logger.info("processJobQueueTick: completed", { workerId, ...result });
+  return result;
+}
@@ -0,0 +1,15 @@
+import { processJobQueueTick, registerJobHandler, type JobQueueTickResult } from "./jobQueue";
+import { runAutoDownloadJob } from "./scheduledTasks";
+import { runDeferredScheduleSlot } from "./autoSendScheduler";
+
+// Регистрируем обработчики всех типов задач до первого прохода воркера
+registerJobHandler("telegram_auto_download", runAutoDownloadJob);
+registerJobHandler("auto_send_slot", runDeferredScheduleSlot);
+
+/**
+ * Один проход воркера очереди задач.
+ * Вызывается cron-ом внутри процесса и через /api/cron/job-tick (Cloud Scheduler).
+ */
+export async function processJobWorkerTick(): Promise<JobQueueTickResult> {
+  return processJobQueueTick();
+}
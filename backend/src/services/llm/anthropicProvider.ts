@@ -0,0 +1,83 @@
+import { toLlmHttpError, toLlmNetworkError } from "./httpErrors";
+import { LlmError, type LlmProvider } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface AnthropicProviderConfig {
+  baseUrl: string; // например "https://api.anthropic.com/v1"
+  apiKey?: string;
+  defaultModel: string;
+}
+
+/**
+ * Провайдер Anthropic Messages API.
+ * Системные сообщения передаются отдельным полем system, JSON-режим — инструкцией в нём.
+ */
+export function createAnthropicProvider(config: AnthropicProviderConfig): LlmProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "anthropic",
+    label: "Anthropic",
+    defaultModel: config.defaultModel,
+    isConfigured: () => Boolean(config.apiKey),
+    async chat(request, signal) {
+      const systemParts = request.messages.filter((m) => m.role === "system").map((m) => m.content);
+      if (request.jsonMode) {
+        systemParts.push("Respond with a single valid JSON object only, without markdown or any other text.");
+      }
+
+      const body: Record<string, unknown> = {
+        model: request.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: request.messages
+          .filter((m) => m.role !== "system")
+          .map((m) => ({ role: m.role, content: m.content }))
+      };
+      if (systemParts.length > 0) body.system = systemParts.join("\n\n");
+      // У Anthropic temperature в диапазоне 0–1
+      if (request.temperature !== undefined) body.temperature = Math.min(1, Math.max(0, request.temperature));
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/messages`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": config.apiKey || "",
+            "anthropic-version": ANTHROPIC_VERSION
+          },
+          body: JSON.stringify(body),
+          signal
+        });
+      } catch (error) {
+        throw toLlmNetworkError(error, "Anthropic");
+      }
+
+      if (!response.ok) {
+        throw await toLlmHttpError(response, "Anthropic");
+      }
+
+      const data = (await response.json().catch(() => null)) as any;
+      if (!data || !Array.isArray(data.content)) {
+        throw new LlmError("Некорректный ответ от Anthropic", { status: 502, code: "BAD_RESPONSE" });
+      }
+
+      const content = data.content
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("");
+      const promptTokens = data.usage?.input_tokens ?? 0;
+      const completionTokens = data.usage?.output_tokens ?? 0;
+
+      return {
+        provider: "anthropic",
+        model: data.model || request.model,
+        content,
+        finishReason: data.stop_reason ?? null,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+      };
+    }
+  };
+}
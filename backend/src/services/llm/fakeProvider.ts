@@ -0,0 +1,40 @@
+import type { LlmMessage, LlmProvider } from "./types";
+
+// Грубая оценка: ~4 символа на токен
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function lastUserMessage(messages: LlmMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content;
+  }
+  return "";
+}
+
+/**
+ * Детерминированный провайдер без сети: повторяет последнее сообщение пользователя.
+ * В JSON-режиме возвращает объект { fake: true, echo }.
+ * Доступен пользователям только при LLM_FAKE_PROVIDER_ENABLED=true.
+ */
+export function createFakeProvider(options: { enabled: boolean }): LlmProvider {
+  return {
+    name: "fake",
+    label: "Fake (тестовый)",
+    defaultModel: "fake-echo",
+    isConfigured: () => options.enabled,
+    async chat(request) {
+      const echo = lastUserMessage(request.messages);
+      const content = request.jsonMode ? JSON.stringify({ fake: true, echo }) : `[${request.model}] ${echo}`;
+      const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+      const completionTokens = estimateTokens(content);
+      return {
+        provider: "fake",
+        model: request.model,
+        content,
+        finishReason: "stop",
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+      };
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { LlmError } from "./types";
+
+/**
+ * Превращает неуспешный HTTP-ответ провайдера в LlmError.
+ * 429 и 5xx считаются временными и повторяются клиентом.
+ */
+export async function toLlmHttpError(response: Response, providerLabel: string): Promise<LlmError> {
+  const data = (await response.json().catch(() => ({}))) as any;
+  const message = data?.error?.message || data?.message || `${providerLabel} вернул ошибку: ${response.status}`;
+  const retryable = response.status === 429 || response.status >= 500;
+  return new LlmError(message, {
+    status: response.status === 429 ? 429 : response.status >= 500 ? 502 : response.status,
+    code: response.status === 429 ? "RATE_LIMITED" : "PROVIDER_ERROR",
+    retryable
+  });
+}
+
+/**
+ * Сетевая ошибка fetch (нет соединения, DNS и т.п.)
+ */
+export function toLlmNetworkError(error: unknown, providerLabel: string): unknown {
+  if (error instanceof LlmError || (error instanceof Error && error.name === "AbortError")) {
+    return error;
+  }
+  return new LlmError(`Не удалось подключиться к ${providerLabel}: ${error instanceof Error ? error.message : String(error)}`, {
+    status: 503,
+    code: "PROVIDER_UNAVAILABLE",
+    retryable: true
+  });
+}
@@ -0,0 +1,135 @@
+import { Logger } from "../../utils/logger";
+import { getLlmProvider, resolveLlmSelection } from "./providerRegistry";
+import { assertLlmQuotaAvailable, recordLlmUsage } from "./usageTracker";
+import {
+  LlmError,
+  type LlmChatRequest,
+  type LlmChatResult,
+  type LlmProvider,
+  type LlmProviderSelection
+} from "./types";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export interface LlmCallOptions {
+  purpose: string; // назначение вызова для журнала и учёта токенов: "script_generation", "suggest_niche", ...
+  userId?: string;
+  channelId?: string;
+  channelSelection?: LlmProviderSelection | null; // настройка канала, если канал уже загружен
+  selection?: LlmProviderSelection; // явный выбор провайдера вместо настроек канала/пользователя
+  provider?: LlmProvider; // готовый провайдер (тесты)
+  timeoutMs?: number; // на одну попытку
+  maxRetries?: number;
+  retryDelayMs?: number; // задержка перед первым повтором, дальше удваивается
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Единая точка вызова LLM: выбор провайдера, лимиты пользователя, таймаут, повторы временных ошибок
+ * и учёт токенов. Расход записывается только для вызовов с userId.
+ */
+export async function chatCompletion(request: LlmChatRequest, options: LlmCallOptions): Promise<LlmChatResult> {
+  const selection =
+    options.selection ??
+    (options.provider
+      ? { provider: options.provider.name, model: null }
+      : await resolveLlmSelection({
+          userId: options.userId,
+          channelId: options.channelId,
+          channelSelection: options.channelSelection
+        }));
+  const provider = options.provider ?? getLlmProvider(selection.provider);
+
+  if (!provider.isConfigured()) {
+    throw new LlmError(`${provider.label} не настроен на сервере`, {
+      status: 503,
+      code: "PROVIDER_NOT_CONFIGURED"
+    });
+  }
+
+  if (options.userId) {
+    await assertLlmQuotaAvailable(options.userId);
+  }
+
+  const model = request.model || selection.model || provider.defaultModel;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const result = await provider.chat({ ...request, model }, controller.signal);
+      clearTimeout(timeoutId);
+
+      const costUsd = options.userId
+        ? await recordLlmUsage({
+            userId: options.userId,
+            channelId: options.channelId,
+            purpose: options.purpose,
+            result
+          })
+        : null;
+
+      Logger.info("LLM call completed", {
+        purpose: options.purpose,
+        userId: options.userId,
+        channelId: options.channelId,
+        provider: result.provider,
+        model: result.model,
+        promptTokens: result.usage.promptTokens,
+        completionTokens: result.usage.completionTokens,
+        totalTokens: result.usage.totalTokens,
+        costUsd,
+        attempts: attempt + 1,
+        durationMs: Date.now() - startedAt
+      });
+
+      return result;
+    } catch (error: unknown) {
+      clearTimeout(timeoutId);
+
+      // Таймаут не повторяем: ещё одна попытка почти наверняка тоже не уложится во время запроса
+      const llmError =
+        error instanceof Error && error.name === "AbortError"
+          ? new LlmError(`Превышено время ожидания ответа от ${provider.label}`, { status: 504, code: "TIMEOUT" })
+          : error instanceof LlmError
+          ? error
+          : new LlmError(error instanceof Error ? error.message : String(error), { status: 500, code: "UNKNOWN" });
+
+      if (llmError.retryable && attempt < maxRetries) {
+        Logger.warn("LLM call failed, retrying", {
+          purpose: options.purpose,
+          provider: provider.name,
+          model,
+          attempt: attempt + 1,
+          status: llmError.status,
+          error: llmError.message
+        });
+        await sleep(retryDelayMs * 2 ** attempt);
+        continue;
+      }
+
+      Logger.error("LLM call failed", {
+        purpose: options.purpose,
+        userId: options.userId,
+        channelId: options.channelId,
+        provider: provider.name,
+        model,
+        attempts: attempt + 1,
+        status: llmError.status,
+        code: llmError.code,
+        error: llmError.message
+      });
+      throw llmError;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { toLlmHttpError, toLlmNetworkError } from "./httpErrors";
+import { LlmError, type LlmProvider, type LlmProviderName } from "./types";
+
+interface OpenAiProviderConfig {
+  name: LlmProviderName;
+  label: string;
+  baseUrl: string; // например "https://api.openai.com/v1"
+  apiKey?: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+/**
+ * Провайдер для OpenAI Chat Completions и совместимых серверов (llama.cpp, Ollama, vLLM)
+ */
+export function createOpenAiProvider(config: OpenAiProviderConfig): LlmProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: config.name,
+    label: config.label,
+    defaultModel: config.defaultModel,
+    isConfigured: () => Boolean(baseUrl) && (!config.requiresApiKey || Boolean(config.apiKey)),
+    async chat(request, signal) {
+      const body: Record<string, unknown> = {
+        model: request.model,
+        messages: request.messages
+      };
+      if (request.temperature !== undefined) body.temperature = request.temperature;
+      if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+      if (request.jsonMode) body.response_format = { type: "json_object" };
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify(body),
+          signal
+        });
+      } catch (error) {
+        throw toLlmNetworkError(error, config.label);
+      }
+
+      if (!response.ok) {
+        throw await toLlmHttpError(response, config.label);
+      }
+
+      const data = (await response.json().catch(() => null)) as any;
+      const choice = data?.choices?.[0];
+      if (!data || typeof choice?.message?.content !== "string") {
+        throw new LlmError(`Некорректный ответ от ${config.label}`, { status: 502, code: "BAD_RESPONSE" });
+      }
+
+      const promptTokens = data.usage?.prompt_tokens ?? 0;
+      const completionTokens = data.usage?.completion_tokens ?? 0;
+      return {
+        provider: config.name,
+        model: data.model || request.model,
+        content: choice.message.content,
+        finishReason: choice.finish_reason ?? null,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+        }
+      };
+    }
+  };
+}
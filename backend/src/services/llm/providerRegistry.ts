@@ -0,0 +1,218 @@
+import { db, isFirestoreAvailable } from "../firebaseAdmin";
+import { Logger } from "../../utils/logger";
+import { createAnthropicProvider } from "./anthropicProvider";
+import { createFakeProvider } from "./fakeProvider";
+import { createOpenAiProvider } from "./openaiProvider";
+import { LLM_PROVIDER_NAMES, type LlmProvider, type LlmProviderName, type LlmProviderSelection } from "./types";
+
+/**
+ * Базовый URL OpenAI. OPENAI_API_URL (полный адрес chat/completions) поддерживается для совместимости
+ */
+function getOpenAiBaseUrl(): string {
+  if (process.env.OPENAI_BASE_URL) return process.env.OPENAI_BASE_URL;
+  if (process.env.OPENAI_API_URL) return process.env.OPENAI_API_URL.replace(/\/chat\/completions\/?$/, "");
+  return "https://api.openai.com/v1";
+}
+
+/**
+ * Провайдеры собираются из переменных окружения при каждом обращении,
+ * чтобы изменения конфигурации (и тестовые переменные) подхватывались без перезапуска модуля
+ */
+function buildProviders(): Record<LlmProviderName, LlmProvider> {
+  return {
+    openai: createOpenAiProvider({
+      name: "openai",
+      label: "OpenAI",
+      baseUrl: getOpenAiBaseUrl(),
+      apiKey: process.env.OPENAI_API_KEY,
+      defaultModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
+      requiresApiKey: true
+    }),
+    openai_compatible: createOpenAiProvider({
+      name: "openai_compatible",
+      label: "OpenAI-совместимый сервер",
+      baseUrl: process.env.LLM_COMPATIBLE_BASE_URL || "",
+      apiKey: process.env.LLM_COMPATIBLE_API_KEY,
+      defaultModel: process.env.LLM_COMPATIBLE_MODEL || "llama3.1",
+      requiresApiKey: false
+    }),
+    anthropic: createAnthropicProvider({
+      baseUrl: process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1",
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      defaultModel: process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest"
+    }),
+    fake: createFakeProvider({ enabled: process.env.LLM_FAKE_PROVIDER_ENABLED === "true" })
+  };
+}
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  return buildProviders()[name];
+}
+
+const DEFAULT_ALLOWED_OPENAI_MODELS = [
+  "gpt-4o-mini",
+  "gpt-4o",
+  "gpt-4.1-nano",
+  "gpt-4.1-mini",
+  "gpt-4.1",
+  "gpt-4-turbo",
+  "gpt-3.5-turbo",
+  "o3-mini"
+];
+
+/**
+ * Модели OpenAI, которые пользователи могут запрашивать через прокси и выбирать в настройках.
+ * LLM_ALLOWED_MODELS (через запятую) заменяет список по умолчанию; модель сервера разрешена всегда.
+ */
+export function getAllowedOpenAiModels(): string[] {
+  const configured = (process.env.LLM_ALLOWED_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const models = configured.length > 0 ? configured : DEFAULT_ALLOWED_OPENAI_MODELS;
+  const serverModel = getLlmProvider("openai").defaultModel;
+  return models.includes(serverModel) ? models : [...models, serverModel];
+}
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === "string" && (LLM_PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Список провайдеров для выбора в интерфейсе
+ */
+export function listLlmProviders(): Array<{
+  name: LlmProviderName;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+  models: string[] | null; // разрешённые модели; null — любая модель провайдера
+}> {
+  return Object.values(buildProviders()).map((provider) => ({
+    name: provider.name,
+    label: provider.label,
+    defaultModel: provider.defaultModel,
+    configured: provider.isConfigured(),
+    models: provider.name === "openai" ? getAllowedOpenAiModels() : null
+  }));
+}
+
+/**
+ * Провайдер по умолчанию для сервера (LLM_DEFAULT_PROVIDER, иначе openai)
+ */
+export function getDefaultLlmSelection(): LlmProviderSelection {
+  const name = process.env.LLM_DEFAULT_PROVIDER;
+  return { provider: isLlmProviderName(name) ? name : "openai", model: null };
+}
+
+/**
+ * Проверяет выбор провайдера из запроса. Возвращает текст ошибки или null.
+ */
+export function validateLlmSelection(selection: unknown): string | null {
+  if (selection === null) return null;
+  if (!selection || typeof selection !== "object") {
+    return "llmProvider должен быть объектом { provider, model }";
+  }
+  const { provider, model } = selection as { provider?: unknown; model?: unknown };
+  if (!isLlmProviderName(provider)) {
+    return `Неизвестный LLM-провайдер: ${String(provider)}`;
+  }
+  if (model !== undefined && model !== null && (typeof model !== "string" || model.length > 100)) {
+    return "Модель должна быть строкой не длиннее 100 символов";
+  }
+  if (provider === "openai" && typeof model === "string" && model.trim()) {
+    const allowedModels = getAllowedOpenAiModels();
+    if (!allowedModels.includes(model.trim())) {
+      return `Модель ${model} недоступна. Разрешены: ${allowedModels.join(", ")}`;
+    }
+  }
+  return null;
+}
+
+function toSelection(value: unknown): LlmProviderSelection | null {
+  if (!value || validateLlmSelection(value)) return null;
+  const { provider, model } = value as LlmProviderSelection;
+  return { provider, model: model?.trim() || null };
+}
+
+/**
+ * Сохранённый выбор провайдера. Если модель OpenAI убрали из разрешённых уже после сохранения,
+ * выбор провайдера остаётся, а модель заменяется моделью провайдера по умолчанию.
+ */
+function toStoredSelection(
+  value: unknown,
+  source: string,
+  params: { userId?: string; channelId?: string }
+): LlmProviderSelection | null {
+  const selection = toSelection(value);
+  if (selection || !value || typeof value !== "object") {
+    return selection;
+  }
+  const { provider, model } = value as { provider?: unknown; model?: unknown };
+  if (provider !== "openai" || typeof model !== "string") {
+    return null;
+  }
+  Logger.warn("Stored LLM model is not allowed, using provider default model", {
+    source,
+    provider,
+    model,
+    userId: params.userId,
+    channelId: params.channelId
+  });
+  return { provider: "openai", model: null };
+}
+
+/**
+ * Определяет провайдера для вызова: настройка канала → настройка пользователя → провайдер сервера.
+ * Ненастроенный на сервере провайдер пропускается, неразрешённая модель заменяется моделью по умолчанию.
+ */
+export async function resolveLlmSelection(params: {
+  userId?: string;
+  channelId?: string;
+  channelSelection?: LlmProviderSelection | null;
+}): Promise<LlmProviderSelection> {
+  const candidates: Array<{ source: string; selection: LlmProviderSelection | null }> = [];
+
+  let channelSelection: unknown = params.channelSelection ?? null;
+  let userSelection: LlmProviderSelection | null = null;
+
+  if (params.userId && isFirestoreAvailable() && db) {
+    try {
+      const userRef = db.collection("users").doc(params.userId);
+      const [settingsSnap, channelSnap] = await Promise.all([
+        userRef.collection("settings").doc("account").get(),
+        params.channelId && params.channelSelection === undefined
+          ? userRef.collection("channels").doc(params.channelId).get()
+          : Promise.resolve(null)
+      ]);
+      userSelection = toStoredSelection(settingsSnap.data()?.llmProvider, "user", params);
+      if (channelSnap) {
+        channelSelection = channelSnap.data()?.llmProvider;
+      }
+    } catch (error: any) {
+      Logger.warn("Failed to load LLM provider settings, using server default", {
+        userId: params.userId,
+        channelId: params.channelId,
+        error: error?.message || String(error)
+      });
+    }
+  }
+
+  candidates.push({ source: "channel", selection: toStoredSelection(channelSelection, "channel", params) });
+  candidates.push({ source: "user", selection: userSelection });
+
+  for (const { source, selection } of candidates) {
+    if (!selection) continue;
+    if (getLlmProvider(selection.provider).isConfigured()) {
+      return selection;
+    }
+    Logger.warn("Selected LLM provider is not configured on server, falling back", {
+      source,
+      provider: selection.provider,
+      userId: params.userId,
+      channelId: params.channelId
+    });
+  }
+
+  return getDefaultLlmSelection();
+}
@@ -0,0 +1,72 @@
+/**
+ * Провайдеры LLM:
+ * openai            — OpenAI Chat Completions
+ * openai_compatible — любой сервер с OpenAI-совместимым API (llama.cpp, Ollama, vLLM), адрес задаётся на сервере
+ * anthropic         — Anthropic Messages API
+ * fake              — детерминированный провайдер без сети (тесты, локальная разработка)
+ */
+export type LlmProviderName = "openai" | "openai_compatible" | "anthropic" | "fake";
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ["openai", "openai_compatible", "anthropic", "fake"];
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmChatRequest {
+  model?: string; // по умолчанию — модель из выбора пользователя/канала или модель провайдера
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // ответ строго в JSON
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmChatResult {
+  provider: LlmProviderName;
+  model: string;
+  content: string;
+  finishReason: string | null;
+  usage: LlmUsage;
+}
+
+/**
+ * Выбор провайдера: хранится в настройках пользователя (settings/account.llmProvider)
+ * и канала (channel.llmProvider). Модель необязательна — тогда берётся модель провайдера по умолчанию.
+ */
+export interface LlmProviderSelection {
+  provider: LlmProviderName;
+  model?: string | null;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  label: string;
+  defaultModel: string;
+  isConfigured(): boolean;
+  chat(request: LlmChatRequest & { model: string }, signal: AbortSignal): Promise<LlmChatResult>;
+}
+
+/**
+ * Ошибка вызова LLM.
+ * retryable — можно повторить запрос (429, 5xx, сетевая ошибка)
+ */
+export class LlmError extends Error {
+  status: number;
+  code: string;
+  retryable: boolean;
+
+  constructor(message: string, options: { status: number; code: string; retryable?: boolean }) {
+    super(message);
+    this.name = "LlmError";
+    this.status = options.status;
+    this.code = options.code;
+    this.retryable = options.retryable ?? false;
+  }
+}
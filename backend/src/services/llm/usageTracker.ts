@@ -0,0 +1,99 @@
+import { db, isFirestoreAvailable } from "../firebaseAdmin";
+import { Logger } from "../../utils/logger";
+import { addLlmUsageRecord, getCurrentLlmUsage } from "../../repositories/llmUsageRepo";
+import { estimateLlmCostUsd, findLlmQuotaViolation, mergeLlmQuotas } from "../../utils/llmUsage";
+import type { LlmQuota } from "../../types/llmUsage";
+import { LlmError, type LlmChatResult } from "./types";
+
+function readLimit(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Лимиты сервера для каждого пользователя (LLM_DAILY_TOKEN_LIMIT и т.д.)
+ */
+export function getServerLlmQuota(): LlmQuota {
+  return {
+    dailyTokens: readLimit("LLM_DAILY_TOKEN_LIMIT"),
+    monthlyTokens: readLimit("LLM_MONTHLY_TOKEN_LIMIT"),
+    dailyCostUsd: readLimit("LLM_DAILY_COST_LIMIT_USD"),
+    monthlyCostUsd: readLimit("LLM_MONTHLY_COST_LIMIT_USD")
+  };
+}
+
+/**
+ * Лимиты, заданные пользователем в настройках аккаунта (settings/account.llmQuota)
+ */
+export async function getUserLlmQuota(userId: string): Promise<LlmQuota | null> {
+  if (!isFirestoreAvailable() || !db) {
+    return null;
+  }
+  const snap = await db.collection("users").doc(userId).collection("settings").doc("account").get();
+  return (snap.data()?.llmQuota as LlmQuota | undefined) ?? null;
+}
+
+/**
+ * Бросает LlmError 429 QUOTA_EXCEEDED, если пользователь исчерпал дневной или месячный лимит.
+ * Если прочитать расход не удалось, вызов разрешается: учёт не должен ломать генерацию.
+ */
+export async function assertLlmQuotaAvailable(userId: string): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    return;
+  }
+
+  let violation;
+  try {
+    const [userQuota, usage] = await Promise.all([getUserLlmQuota(userId), getCurrentLlmUsage(userId)]);
+    violation = findLlmQuotaViolation(mergeLlmQuotas(getServerLlmQuota(), userQuota), usage);
+  } catch (error: any) {
+    Logger.warn("Failed to check LLM quota, allowing call", {
+      userId,
+      error: error?.message || String(error)
+    });
+    return;
+  }
+
+  if (violation) {
+    Logger.warn("LLM quota exceeded", { userId, limit: violation.limit, used: violation.used, allowed: violation.allowed });
+    throw new LlmError(violation.message, { status: 429, code: "QUOTA_EXCEEDED" });
+  }
+}
+
+/**
+ * Записывает вызов в журнал расхода пользователя. Возвращает оценку стоимости.
+ */
+export async function recordLlmUsage(params: {
+  userId: string;
+  channelId?: string;
+  purpose: string;
+  result: LlmChatResult;
+}): Promise<number> {
+  const { userId, channelId, purpose, result } = params;
+  const costUsd = estimateLlmCostUsd(result.provider, result.model, result.usage);
+
+  if (!isFirestoreAvailable() || !db) {
+    return costUsd;
+  }
+
+  try {
+    await addLlmUsageRecord(userId, {
+      purpose,
+      provider: result.provider,
+      model: result.model,
+      channelId: channelId ?? null,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      totalTokens: result.usage.totalTokens,
+      costUsd,
+      createdAt: new Date().toISOString()
+    });
+  } catch (error: any) {
+    Logger.warn("Failed to record LLM usage", {
+      userId,
+      purpose,
+      error: error?.message || String(error)
+    });
+  }
+  return costUsd;
+}
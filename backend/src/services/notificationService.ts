@@ -3,6 +3,7 @@ import { loadSessionString } from "../telegram/sessionStore";
 import { getClientForUser } from "../integrations/telegram/TelegramUserClient";
 import { Logger } from "../utils/logger";
 import type { TelegramClient } from "telegram";
+import type { GenerationTransport } from "../types/channel";
 
 export interface VideoUploadNotificationParams {
   chatId: string;
@@ -13,14 +14,14 @@ export interface VideoUploadNotificationParams {
   sizeBytes?: number;
   uploadedAt: Date;
   userId?: string;
-  generationTransport?: "telegram_global" | "telegram_user";
+  generationTransport?: GenerationTransport;
 }
 
 /**
  * Отправляет уведомление в Telegram после успешной загрузки видео в Google Drive.
  * Выбирает правильный Telegram-клиент на основе generationTransport:
  * - telegram_user: использует личную сессию пользователя
- * - telegram_global: использует общую системную сессию
+ * - telegram_global и внешние генераторы: используют общую системную сессию
  * 
  * Ошибки логируются и не пробрасываются наверх, чтобы не ломать основную логику.
  */
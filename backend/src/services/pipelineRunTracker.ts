@@ -0,0 +1,490 @@
+import {
+  findPipelineRunByDriveFileId,
+  mutatePipelineRun
+} from "../repositories/pipelineRunRepo";
+import type {
+  PipelinePublication,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStageName,
+  PipelineStageState,
+  PipelineVideoVariant
+} from "../types/pipelineRun";
+import { Logger } from "../utils/logger";
+import { db, isFirestoreAvailable } from "./firebaseAdmin";
+
+/**
+ * Трекинг прогонов конвейера (PipelineRun).
+ * Все функции безопасны: ошибки трекинга только логируются и никогда не ломают сам конвейер.
+ */
+
+export function getRunIdForTelegramMessage(telegramMessageId: number): string {
+  return `tg_${telegramMessageId}`;
+}
+
+export function getRunIdForDriveFile(driveFileId: string): string {
+  return `drive_${driveFileId}`;
+}
+
+/**
+ * Вычисляет итоговый статус прогона по этапам
+ */
+export function derivePipelineRunStatus(run: Pick<PipelineRun, "stages" | "publications">): PipelineRunStatus {
+  const stages = Object.values(run.stages).filter(Boolean) as PipelineStageState[];
+
+  if (run.stages.publish?.status === "failed" && run.publications.some((p) => p.success)) {
+    return "partial";
+  }
+  if (stages.some((stage) => stage.status === "failed")) {
+    return "failed";
+  }
+  if (stages.some((stage) => stage.status === "pending")) {
+    return "in_progress";
+  }
+  return "completed";
+}
+
+function createEmptyRun(params: {
+  runId: string;
+  userId: string;
+  channelId: string;
+  mode: PipelineRun["mode"];
+  now: string;
+}): PipelineRun {
+  return {
+    id: params.runId,
+    userId: params.userId,
+    channelId: params.channelId,
+    mode: params.mode,
+    publications: [],
+    stages: {},
+    status: "in_progress",
+    createdAt: params.now,
+    updatedAt: params.now
+  };
+}
+
+/**
+ * Дополняет состояние этапа новыми полями (прежние сохраняются) и пересчитывает статус прогона
+ */
+export function withStage(
+  run: PipelineRun,
+  stage: PipelineStageName,
+  state: PipelineStageState,
+  now: string
+): PipelineRun {
+  const next: PipelineRun = {
+    ...run,
+    stages: {
+      ...run.stages,
+      [stage]: { ...run.stages[stage], ...state }
+    },
+    updatedAt: now
+  };
+  if (state.status === "failed" && state.error) {
+    next.lastError = state.error;
+  }
+  next.status = derivePipelineRunStatus(next);
+  return next;
+}
+
+/**
+ * Добавляет или обновляет вариант видео в прогоне
+ */
+function withVariant(run: PipelineRun, variant: PipelineVideoVariant): PipelineRun {
+  const variants = (run.variants ?? []).filter((v) => v.index !== variant.index);
+  variants.push(variant);
+  variants.sort((a, b) => a.index - b.index);
+  const variantDriveFileIds = variants
+    .map((v) => v.driveFileId)
+    .filter((id): id is string => Boolean(id));
+  return { ...run, variants, variantDriveFileIds };
+}
+
+async function safeMutate(
+  action: string,
+  userId: string,
+  channelId: string,
+  runId: string,
+  mutator: (current: PipelineRun | null) => PipelineRun | null
+): Promise<PipelineRun | null> {
+  if (!isFirestoreAvailable() || !db) {
+    return null;
+  }
+  try {
+    return await mutatePipelineRun(userId, channelId, runId, mutator);
+  } catch (error) {
+    Logger.warn(`pipelineRunTracker.${action}: failed to update pipeline run`, {
+      userId,
+      channelId,
+      runId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Этап 1: промпт отправлен в SyntX. Создаёт прогон, ключ — ID сообщения в Telegram.
+ */
+export async function trackPromptSent(params: {
+  userId: string;
+  channelId: string;
+  telegramMessageId: number;
+  telegramChatId?: string;
+  scheduleId?: string;
+  timeSlot?: string;
+  videoTitle?: string;
+}): Promise<void> {
+  const runId = getRunIdForTelegramMessage(params.telegramMessageId);
+  const now = new Date().toISOString();
+
+  await safeMutate("trackPromptSent", params.userId, params.channelId, runId, (current) => {
+    const base = current ?? createEmptyRun({
+      runId,
+      userId: params.userId,
+      channelId: params.channelId,
+      mode: params.scheduleId ? "auto" : "manual",
+      now
+    });
+    return withStage(
+      {
+        ...base,
+        scheduleId: params.scheduleId ?? null,
+        timeSlot: params.timeSlot ?? null,
+        telegramMessageId: params.telegramMessageId,
+        telegramChatId: params.telegramChatId ?? null,
+        videoTitle: params.videoTitle ?? base.videoTitle ?? null
+      },
+      "prompt_sent",
+      { status: "success", startedAt: now, finishedAt: now },
+      now
+    );
+  });
+}
+
+/**
+ * Автоскачивание поставлено в очередь: этап drive_upload ожидает выполнения
+ */
+export async function trackDriveUploadScheduled(params: {
+  userId: string;
+  channelId: string;
+  telegramMessageId: number;
+  jobId: string;
+  scheduledFor: string;
+}): Promise<void> {
+  const runId = getRunIdForTelegramMessage(params.telegramMessageId);
+  const now = new Date().toISOString();
+
+  await safeMutate("trackDriveUploadScheduled", params.userId, params.channelId, runId, (current) => {
+    const base = current ?? createEmptyRun({
+      runId,
+      userId: params.userId,
+      channelId: params.channelId,
+      mode: "auto",
+      now
+    });
+    return withStage(
+      { ...base, telegramMessageId: params.telegramMessageId, jobId: params.jobId },
+      "drive_upload",
+      { status: "pending", scheduledFor: params.scheduledFor, error: null },
+      now
+    );
+  });
+}
+
+/**
+ * Этап 2: результат скачивания из Telegram и загрузки в Google Drive.
+ * Если для канала включена автопубликация, этап publish переводится в ожидание.
+ */
+export async function trackDriveUploadResult(params: {
+  userId: string;
+  channelId: string;
+  telegramMessageId?: number;
+  scheduleId?: string;
+  startedAt: string;
+  // Вариант видео, если SyntX прислал на промпт несколько роликов
+  variant?: { index: number; total: number; telegramVideoMessageId?: number };
+  result: {
+    success: boolean;
+    driveFileId?: string;
+    driveWebViewLink?: string;
+    fileName?: string;
+    error?: string;
+    videoMessageId?: number;
+  };
+}): Promise<void> {
+  const { result } = params;
+  let runId: string;
+  if (params.telegramMessageId) {
+    runId = getRunIdForTelegramMessage(params.telegramMessageId);
+  } else if (result.driveFileId) {
+    runId = getRunIdForDriveFile(result.driveFileId);
+  } else {
+    // Ручная загрузка без ID сообщения, завершившаяся ошибкой — привязать не к чему
+    return;
+  }
+
+  let publishExpected = false;
+  if (result.success && isFirestoreAvailable() && db) {
+    try {
+      const channelDoc = await db
+        .collection("users")
+        .doc(params.userId)
+        .collection("channels")
+        .doc(params.channelId)
+        .get();
+      publishExpected = channelDoc.data()?.blotataEnabled === true;
+    } catch {
+      // Не критично: этап публикации появится, когда его начнёт монитор Blotato
+    }
+  }
+
+  const now = new Date().toISOString();
+  await safeMutate("trackDriveUploadResult", params.userId, params.channelId, runId, (current) => {
+    let run = current ?? createEmptyRun({
+      runId,
+      userId: params.userId,
+      channelId: params.channelId,
+      mode: params.scheduleId ? "auto" : "manual",
+      now
+    });
+    run = {
+      ...run,
+      telegramMessageId: params.telegramMessageId ?? run.telegramMessageId ?? null,
+      scheduleId: run.scheduleId ?? params.scheduleId ?? null
+    };
+
+    if (params.variant) {
+      run = withVariant(run, {
+        index: params.variant.index,
+        telegramVideoMessageId: result.videoMessageId ?? params.variant.telegramVideoMessageId ?? 0,
+        driveFileId: result.driveFileId ?? null,
+        driveFileName: result.fileName ?? null,
+        driveWebViewLink: result.driveWebViewLink ?? null,
+        uploadedAt: result.success ? now : null,
+        error: result.success ? null : result.error || "Unknown error"
+      });
+      if (!run.variantSelection && params.variant.total > 1) {
+        run.variantSelection = { defaultVariant: 1, platformVariants: {}, confirmedAt: null };
+      }
+      // Дополнительные варианты не меняют этап drive_upload — он отражает основной ролик
+      if (params.variant.index > 1) {
+        return { ...run, updatedAt: now };
+      }
+    }
+
+    if (!result.success) {
+      return withStage(
+        run,
+        "drive_upload",
+        { status: "failed", startedAt: params.startedAt, finishedAt: now, error: result.error || "Unknown error" },
+        now
+      );
+    }
+
+    run = withStage(
+      {
+        ...run,
+        driveFileId: result.driveFileId ?? null,
+        driveFileName: result.fileName ?? null,
+        driveWebViewLink: result.driveWebViewLink ?? null
+      },
+      "drive_upload",
+      {
+        status: "success",
+        startedAt: params.startedAt,
+        finishedAt: now,
+        error: null,
+        link: result.driveWebViewLink ?? null
+      },
+      now
+    );
+    if (publishExpected && !run.stages.publish) {
+      run = withStage(run, "publish", { status: "pending" }, now);
+    }
+    return run;
+  });
+}
+
+/**
+ * ID прогона для файла Drive: существующий прогон с этим файлом или новый, привязанный к файлу
+ */
+async function resolveRunIdForDriveFile(
+  operation: string,
+  params: { userId: string; channelId: string; driveFileId: string }
+): Promise<string> {
+  try {
+    const existing = await findPipelineRunByDriveFileId(params.userId, params.channelId, params.driveFileId);
+    if (existing) {
+      return existing.id;
+    }
+  } catch (error) {
+    Logger.warn(`pipelineRunTracker.${operation}: failed to find run by driveFileId`, {
+      userId: params.userId,
+      channelId: params.channelId,
+      driveFileId: params.driveFileId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  return getRunIdForDriveFile(params.driveFileId);
+}
+
+/**
+ * Файл поставлен в очередь публикации канала: этап publish ожидает своего слота
+ */
+export async function trackPublishScheduled(params: {
+  userId: string;
+  channelId: string;
+  driveFileId: string;
+  fileName?: string;
+  scheduledFor: string;
+}): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    return;
+  }
+
+  const runId = await resolveRunIdForDriveFile("trackPublishScheduled", params);
+  const now = new Date().toISOString();
+  await safeMutate("trackPublishScheduled", params.userId, params.channelId, runId, (current) => {
+    const base = current ?? createEmptyRun({
+      runId,
+      userId: params.userId,
+      channelId: params.channelId,
+      mode: "auto",
+      now
+    });
+    return withStage(
+      base.driveFileId ? base : { ...base, driveFileId: params.driveFileId, driveFileName: params.fileName ?? null },
+      "publish",
+      { status: "pending", scheduledFor: params.scheduledFor, error: null },
+      now
+    );
+  });
+}
+
+/**
+ * Этап 3 начат: монитор Blotato взял файл в обработку.
+ * Возвращает ID прогона (найденного по driveFileId или созданного заново).
+ */
+export async function trackPublishStarted(params: {
+  userId: string;
+  channelId: string;
+  driveFileId: string;
+  fileName?: string;
+  driveWebViewLink?: string;
+}): Promise<string | null> {
+  if (!isFirestoreAvailable() || !db) {
+    return null;
+  }
+
+  const runId = await resolveRunIdForDriveFile("trackPublishStarted", params);
+  const now = new Date().toISOString();
+  const run = await safeMutate("trackPublishStarted", params.userId, params.channelId, runId, (current) => {
+    const base = current ?? createEmptyRun({
+      runId,
+      userId: params.userId,
+      channelId: params.channelId,
+      mode: "auto",
+      now
+    });
+    // Файл дополнительного варианта не заменяет основной ролик прогона
+    const isVariantFile = Boolean(base.driveFileId) && base.driveFileId !== params.driveFileId;
+    return withStage(
+      isVariantFile
+        ? base
+        : {
+            ...base,
+            driveFileId: params.driveFileId,
+            driveFileName: params.fileName ?? base.driveFileName ?? null,
+            driveWebViewLink: params.driveWebViewLink ?? base.driveWebViewLink ?? null
+          },
+      "publish",
+      { status: "pending", startedAt: now, finishedAt: null, error: null },
+      now
+    );
+  });
+
+  return run ? run.id : null;
+}
+
+/**
+ * Этап 3 завершён: результаты публикации по платформам (с ID постов Blotato).
+ * Если у части платформ запланирован повтор (retryAt), этап остаётся в ожидании до этого времени.
+ */
+export async function trackPublishResult(params: {
+  userId: string;
+  channelId: string;
+  runId: string;
+  publications: Array<Omit<PipelinePublication, "publishedAt">>;
+  error?: string;
+  variantIndex?: number; // при публикации варианта результаты других вариантов сохраняются
+  partial?: boolean; // повтор на части платформ: результаты остальных сохраняются
+  retryAt?: string | null;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  const publications: PipelinePublication[] = params.publications.map((p) => ({
+    ...p,
+    variantIndex: params.variantIndex ?? p.variantIndex ?? null,
+    publishedAt: now
+  }));
+
+  await safeMutate("trackPublishResult", params.userId, params.channelId, params.runId, (current) => {
+    if (!current) {
+      return null;
+    }
+    const merged =
+      params.variantIndex !== undefined || params.partial
+        ? [
+            ...current.publications.filter((p) => !publications.some((next) => next.platform === p.platform)),
+            ...publications
+          ]
+        : publications;
+    const failed = merged.filter((p) => !p.success);
+    const allOk = !params.error && merged.length > 0 && failed.length === 0;
+    const error =
+      params.error ||
+      (failed.length > 0 ? failed.map((p) => `${p.platform}: ${p.error || "Unknown error"}`).join("; ") : null) ||
+      (merged.length === 0 ? "Нет платформ для публикации" : null);
+    const firstLink = merged.find((p) => p.success && p.postUrl)?.postUrl ?? null;
+
+    if (params.retryAt) {
+      return withStage(
+        { ...current, publications: merged },
+        "publish",
+        { status: "pending", scheduledFor: params.retryAt, error, link: firstLink },
+        now
+      );
+    }
+    return withStage(
+      { ...current, publications: merged },
+      "publish",
+      { status: allOk ? "success" : "failed", scheduledFor: null, finishedAt: now, error, link: firstLink },
+      now
+    );
+  });
+}
+
+/**
+ * Этап 4: перемещение файла в архивную папку Drive
+ */
+export async function trackArchiveResult(params: {
+  userId: string;
+  channelId: string;
+  runId: string;
+  status: "success" | "failed" | "skipped";
+  error?: string;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  await safeMutate("trackArchiveResult", params.userId, params.channelId, params.runId, (current) => {
+    if (!current) {
+      return null;
+    }
+    return withStage(
+      current,
+      "archive",
+      { status: params.status, startedAt: now, finishedAt: now, error: params.error ?? null },
+      now
+    );
+  });
+}
@@ -2,6 +2,8 @@ import { db, isFirestoreAvailable } from "./firebaseAdmin";
 import { Logger } from "../utils/logger";
 import { generateChannelPrompt } from "../utils/promptGenerator";
 import type { Channel, ChannelPreferences } from "../types/channel";
+import { chatCompletion } from "./llm/llmClient";
+import type { LlmChatRequest } from "./llm/types";
 
 const PLATFORM_NAMES: Record<Channel["platform"], string> = {
   YOUTUBE_SHORTS: "YouTube Shorts",
@@ -258,55 +260,22 @@ function parseAutoGenerateResponse(responseText: string): {
 }
 
 /**
- * Генерирует промпт для канала через OpenAI API
+ * Вызывает LLM, выбранную для канала (или пользователя), и возвращает текст ответа
  */
-async function callOpenAIProxy(
-  requestBody: Record<string, unknown>
-): Promise<any> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OpenAI API ключ не настроен на сервере");
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 25000);
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    const data = await response
-      .json()
-      .catch(() => ({ error: { message: "Не удалось распарсить ответ от OpenAI API" } }));
-
-    if (!response.ok) {
-      throw new Error(data.error?.message || `OpenAI API ошибка: ${response.status}`);
-    }
-
-    return data;
-  } catch (error: unknown) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new Error("Превышено время ожидания ответа от OpenAI API");
-    }
-
-    if (error instanceof Error) {
-      throw error;
-    }
-
-    throw new Error("Неизвестная ошибка при обработке запроса");
-  }
+async function callChannelLlm(
+  channel: Channel,
+  userId: string,
+  request: LlmChatRequest,
+  purpose: string
+): Promise<string> {
+  const result = await chatCompletion(request, {
+    purpose,
+    userId,
+    channelId: channel.id,
+    channelSelection: channel.llmProvider ?? null,
+    timeoutMs: 25000
+  });
+  return result.content;
 }
 
 /**
@@ -375,13 +344,12 @@ ${additionalInstructions[lang]}`;
  */
 async function generateVideoPromptFromIdea(
   channel: Channel,
+  userId: string,
   idea: string
 ): Promise<string> {
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
   const videoPromptText = buildVideoPromptGenerationPrompt(channel, idea);
 
-  const requestBody: Record<string, unknown> = {
-    model,
+  const request: LlmChatRequest = {
     messages: [
       {
         role: "system",
@@ -395,14 +363,13 @@ async function generateVideoPromptFromIdea(
       }
     ],
     temperature: 0.7,
-    max_tokens: 1500
+    maxTokens: 1500
   };
 
-  const data = await callOpenAIProxy(requestBody);
-  const content = data.choices?.[0]?.message?.content;
+  const content = await callChannelLlm(channel, userId, request, "video_prompt_generation");
 
   if (!content) {
-    throw new Error("Пустой ответ от OpenAI API при генерации VIDEO_PROMPT");
+    throw new Error("Пустой ответ от LLM при генерации VIDEO_PROMPT");
   }
 
   // Очищаем ответ от возможных JSON-обёрток или лишних комментариев
@@ -451,11 +418,7 @@ export async function generatePromptForChannel(
   const systemPromptForAuto = buildAutoGeneratePrompt(channel);
   const userPrompt = "Придумай идею и создай сценарии для этого канала.";
 
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-  const supportsJsonMode = model.includes("gpt-4") || model.includes("o3");
-
-  const requestBody: Record<string, unknown> = {
-    model,
+  const request: LlmChatRequest = {
     messages: [
       {
         role: "system",
@@ -467,20 +430,16 @@ export async function generatePromptForChannel(
       }
     ],
     temperature: 1.0, // Увеличена для большей вариативности и уникальности идей
-    max_tokens: 2500 // Увеличено для более детальных сценариев
+    maxTokens: 2500, // Увеличено для более детальных сценариев
+    jsonMode: true
   };
 
-  if (supportsJsonMode) {
-    requestBody.response_format = { type: "json_object" };
-  }
-
   try {
     // Шаг 1: Генерируем идею и сценарии
-    const data = await callOpenAIProxy(requestBody);
-    const content = data.choices?.[0]?.message?.content;
+    const content = await callChannelLlm(channel, userId, request, "auto_prompt_generation");
 
     if (!content) {
-      throw new Error("Пустой ответ от OpenAI API");
+      throw new Error("Пустой ответ от LLM");
     }
 
     const result = parseAutoGenerateResponse(content);
@@ -497,7 +456,7 @@ export async function generatePromptForChannel(
     if (mode === "video-prompt-only") {
       // Для режима "video-prompt-only" генерируем и отправляем только VIDEO_PROMPT
       Logger.info("Generating VIDEO_PROMPT for video-prompt-only mode", { channelId });
-      prompt = await generateVideoPromptFromIdea(channel, idea);
+      prompt = await generateVideoPromptFromIdea(channel, userId, idea);
       promptType = "videoPrompt";
     } else if (mode === "prompt") {
       // Для режима "prompt" генерируем VIDEO_PROMPT на основе первого сценария
@@ -524,8 +483,7 @@ export async function generatePromptForChannel(
       // Генерируем VIDEO_PROMPT на основе сценария
       const videoPromptText = buildVideoPromptGenerationPrompt(channel, `${idea}\n\nСценарий:\n${result.scripts[0]}`);
       
-      const videoRequestBody: Record<string, unknown> = {
-        model,
+      const videoRequest: LlmChatRequest = {
         messages: [
           {
             role: "system",
@@ -537,14 +495,13 @@ export async function generatePromptForChannel(
           }
         ],
         temperature: 0.7,
-        max_tokens: 1500
+        maxTokens: 1500
       };
 
-      const videoData = await callOpenAIProxy(videoRequestBody);
-      const videoContent = videoData.choices?.[0]?.message?.content;
+      const videoContent = await callChannelLlm(channel, userId, videoRequest, "video_prompt_generation");
 
       if (!videoContent) {
-        throw new Error("Пустой ответ от OpenAI API при генерации VIDEO_PROMPT");
+        throw new Error("Пустой ответ от LLM при генерации VIDEO_PROMPT");
       }
 
       // Очищаем ответ от возможных JSON-обёрток или лишних комментариев
@@ -0,0 +1,87 @@
+import { blottataPublisherService } from "../blottataPublisherService";
+import { resolveBlotatoApiKey } from "../secretVault";
+import { logError } from "../errorLogger";
+import { restrictChannelToPlatforms } from "../../utils/videoVariants";
+import { Logger } from "../../utils/logger";
+import type { Publisher } from "./types";
+
+/**
+ * Публикация через Blotato: ключ канала или пользователя из хранилища секретов, иначе ключ сервиса
+ */
+export function createBlotatoPublisher(): Publisher {
+  return {
+    name: "blotato",
+    label: "Blotato",
+    isConfigured: () => true,
+    async publish({ userId, channel, platforms, video, title, description, platformPosts, scheduledTime }) {
+      const apiKey = await resolveBlotatoApiKey(userId, channel, "blotato_publish");
+
+      let results;
+      try {
+        results = await blottataPublisherService.publishToAllPlatforms({
+          channel: restrictChannelToPlatforms(channel, platforms),
+          mediaUrl: video.mediaUrl,
+          description,
+          title,
+          apiKey,
+          platformPosts,
+          scheduledTime
+        });
+      } catch (blottataError: any) {
+        // Специальная обработка ошибки BLOTTATA_MEDIA_UPLOAD_FAILED
+        const errorMessage = blottataError?.message || String(blottataError);
+        const isMediaUploadError =
+          errorMessage.includes("BLOTTATA_MEDIA_UPLOAD_FAILED") ||
+          errorMessage.includes("BLOTATA_MEDIA_UPLOAD_FAILED") ||
+          errorMessage.includes("Failed to read media metadata") ||
+          errorMessage.includes("Is the file accessible and a valid media file") ||
+          blottataError?.response?.status === 500;
+
+        if (isMediaUploadError && userId) {
+          Logger.error("[BlottataPublish] BLOTTATA_MEDIA_UPLOAD_FAILED for channel", {
+            channelId: channel.id,
+            fileId: video.driveFileId,
+            fileName: video.fileName,
+            error: errorMessage,
+            status: blottataError?.response?.status,
+            data: blottataError?.response?.data,
+            platforms
+          });
+
+          await logError({
+            userId,
+            channelId: channel.id,
+            channelName: channel.name,
+            source: "blotato_publish",
+            severity: "error",
+            code: "BLOTTATA_MEDIA_UPLOAD_FAILED",
+            message: "Blottata не смогла прочитать метаданные видео. Чаще всего это означает, что файл повреждён, пустой или временно недоступен. Попробуйте пересоздать видео и заново запустить автопубликацию.",
+            details: {
+              fileId: video.driveFileId,
+              fileName: video.fileName,
+              mimeType: video.mimeType,
+              size: video.size,
+              driveWebViewLink: video.webViewLink,
+              platforms,
+              blottataRequestId: blottataError?.response?.data?.requestId || blottataError?.response?.data?.id,
+              originalError: {
+                message: errorMessage.substring(0, 500), // Ограничиваем длину
+                status: blottataError?.response?.status,
+                data: blottataError?.response?.data
+              }
+            }
+          });
+        }
+
+        throw blottataError;
+      }
+
+      return results.map((r) => ({
+        platform: r.platform,
+        success: r.success,
+        postId: r.response?.id ?? null,
+        error: r.error
+      }));
+    }
+  };
+}
@@ -0,0 +1,20 @@
+import type { Publisher } from "./types";
+
+/**
+ * Тестовый публикатор без сети: успешно «публикует» на все платформы.
+ * Доступен только при PUBLISHER_FAKE_ENABLED=true.
+ */
+export function createFakePublisher(options: { enabled: boolean }): Publisher {
+  return {
+    name: "fake",
+    label: "Fake (тестовый)",
+    isConfigured: () => options.enabled,
+    async publish({ platforms, video }) {
+      return platforms.map((platform) => ({
+        platform,
+        success: true,
+        postId: `fake_${platform}_${video.driveFileId}`
+      }));
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { PublisherName } from "../../types/channel";
+import { PUBLISHER_NAMES, groupPlatformsByPublisher } from "../../utils/publishTargets";
+import { Logger } from "../../utils/logger";
+import { createBlotatoPublisher } from "./blotatoPublisher";
+import { createFakePublisher } from "./fakePublisher";
+import { createWebhookPublisher } from "./webhookPublisher";
+import { createYoutubeApiPublisher } from "./youtubeApiPublisher";
+import type { PlatformPublishResult, PublishVideoRequest, Publisher } from "./types";
+
+/**
+ * Публикаторы собираются из переменных окружения при каждом обращении,
+ * чтобы изменения конфигурации (и тестовые переменные) подхватывались без перезапуска модуля
+ */
+function buildPublishers(): Record<PublisherName, Publisher> {
+  const privacy = process.env.YOUTUBE_API_PRIVACY_STATUS;
+  return {
+    blotato: createBlotatoPublisher(),
+    youtube_api: createYoutubeApiPublisher({
+      clientConfigured: Boolean(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
+      privacyStatus: privacy === "unlisted" || privacy === "private" ? privacy : "public"
+    }),
+    webhook: createWebhookPublisher({
+      defaultUrl: process.env.PUBLISH_WEBHOOK_URL || undefined,
+      secret: process.env.PUBLISH_WEBHOOK_SECRET || undefined
+    }),
+    fake: createFakePublisher({ enabled: process.env.PUBLISHER_FAKE_ENABLED === "true" })
+  };
+}
+
+export function getPublisher(name: PublisherName): Publisher {
+  return buildPublishers()[name];
+}
+
+export function listPublishers(): Array<{ name: PublisherName; label: string; configured: boolean }> {
+  const publishers = buildPublishers();
+  return PUBLISHER_NAMES.map((name) => ({
+    name,
+    label: publishers[name].label,
+    configured: publishers[name].isConfigured()
+  }));
+}
+
+/**
+ * Публикует видео: платформы распределяются по публикаторам канала, публикаторы работают параллельно.
+ * Отказ одного публикатора превращается в ошибки его платформ и не мешает остальным.
+ */
+export async function publishVideo(request: PublishVideoRequest): Promise<PlatformPublishResult[]> {
+  const groups = groupPlatformsByPublisher(request.channel, request.platforms);
+  const publishers = buildPublishers();
+
+  const groupResults = await Promise.all(
+    groups.map(async ({ publisher: name, platforms }): Promise<PlatformPublishResult[]> => {
+      const publisher = publishers[name];
+      const fail = (error: string) => platforms.map((platform) => ({ platform, success: false, error, publisher: name }));
+
+      if (!publisher.isConfigured()) {
+        return fail(`Публикатор «${publisher.label}» не настроен на сервере`);
+      }
+      try {
+        const results = await publisher.publish({ ...request, platforms });
+        return results.map((result) => ({ ...result, publisher: name }));
+      } catch (error: any) {
+        Logger.error("publishVideo: publisher failed", {
+          channelId: request.channel.id,
+          publisher: name,
+          platforms,
+          error: error?.message || String(error)
+        });
+        return fail(error?.message || String(error));
+      }
+    })
+  );
+
+  return groupResults.flat();
+}
@@ -0,0 +1,42 @@
+import type { Channel, PublisherName } from "../../types/channel";
+import type { PlatformPost } from "../../utils/postTemplates";
+
+export interface PublishVideoFile {
+  driveFileId: string;
+  fileName: string;
+  mediaUrl: string; // публичная ссылка на файл в Drive (webContentLink)
+  mimeType?: string | null;
+  size?: string | null;
+  webViewLink?: string | null;
+}
+
+export interface PublishVideoRequest {
+  userId?: string; // владелец канала; без него недоступны ключи и OAuth пользователя
+  channel: Channel;
+  platforms: string[]; // платформы, назначенные этому публикатору
+  video: PublishVideoFile;
+  title: string;
+  description: string;
+  platformPosts?: Partial<Record<string, PlatformPost>>; // подпись и заголовок по шаблонам канала; без записи — title/description
+  scheduledTime?: string | null; // ISO: время слота, если публикатор умеет откладывать пост
+}
+
+export interface PlatformPublishResult {
+  platform: string;
+  success: boolean;
+  postId?: string | null;
+  postUrl?: string | null;
+  error?: string;
+  publisher?: PublisherName;
+}
+
+export interface Publisher {
+  name: PublisherName;
+  label: string;
+  isConfigured(): boolean;
+  /**
+   * Публикует видео на указанные платформы. Ошибку отдельной платформы возвращает в результате,
+   * исключение означает отказ для всех платформ публикатора.
+   */
+  publish(request: PublishVideoRequest): Promise<PlatformPublishResult[]>;
+}
@@ -0,0 +1,104 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { readSecret } from "../secretVault";
+import { isPrivateAddress, validatePublishWebhookUrl } from "../../utils/webhookUrl";
+import type { PlatformPublishResult, Publisher } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Разбирает ответ webhook: { results: [{ platform, success, postId | id, error }] } либо { id } для всех платформ
+ */
+export function parseWebhookPublishResponse(data: unknown, platforms: string[]): PlatformPublishResult[] {
+  const body = (data && typeof data === "object" ? data : {}) as Record<string, any>;
+  if (Array.isArray(body.results)) {
+    return platforms.map((platform) => {
+      const item = body.results.find((r: any) => r?.platform === platform);
+      if (!item) {
+        return { platform, success: false, error: "Webhook не вернул результат для платформы" };
+      }
+      return {
+        platform,
+        success: item.success !== false,
+        postId: item.postId ?? item.id ?? null,
+        error: item.success === false ? String(item.error || "Webhook сообщил об ошибке") : undefined
+      };
+    });
+  }
+  const postId = body.postId ?? body.id ?? null;
+  return platforms.map((platform) => ({ platform, success: true, postId: postId === null ? null : String(postId) }));
+}
+
+/**
+ * Проверяет адрес webhook канала перед отправкой, в том числе адреса, в которые резолвится хост
+ */
+async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const validationError = validatePublishWebhookUrl(url);
+  if (validationError) {
+    throw new Error(`PUBLISH_WEBHOOK_URL_INVALID: ${validationError}`);
+  }
+  const addresses = await lookup(new URL(url).hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error("PUBLISH_WEBHOOK_URL_INVALID: адрес webhook указывает на частную или локальную сеть");
+  }
+}
+
+/**
+ * Публикация через внешний webhook: POST JSON с описанием ролика на адрес канала (или PUBLISH_WEBHOOK_URL).
+ * Тело подписывается HMAC-SHA256 в заголовке x-publish-signature: для адреса канала — секретом канала
+ * из хранилища (publish_webhook_secret), для адреса по умолчанию — PUBLISH_WEBHOOK_SECRET.
+ */
+export function createWebhookPublisher(config: { defaultUrl?: string; secret?: string }): Publisher {
+  return {
+    name: "webhook",
+    label: "Webhook",
+    isConfigured: () => true,
+    async publish({ userId, channel, platforms, video, title, description, platformPosts, scheduledTime }) {
+      const url = channel.publishWebhookUrl || config.defaultUrl;
+      if (!url) {
+        throw new Error("PUBLISH_WEBHOOK_NOT_CONFIGURED: не указан адрес webhook для публикации");
+      }
+      const isDefaultUrl = url === config.defaultUrl;
+      if (!isDefaultUrl) {
+        await assertPublicWebhookUrl(url);
+      }
+      // Серверный секрет не уходит на адреса, которые задал пользователь
+      const secret = isDefaultUrl
+        ? config.secret
+        : userId
+          ? await readSecret(userId, "publish_webhook_secret", { channelId: channel.id, purpose: "webhook_publish" })
+          : null;
+
+      const body = JSON.stringify({
+        channelId: channel.id,
+        channelName: channel.name,
+        platforms,
+        title,
+        description,
+        posts: platformPosts ?? {},
+        mediaUrl: video.mediaUrl,
+        driveFileId: video.driveFileId,
+        fileName: video.fileName,
+        scheduledTime: scheduledTime ?? null
+      });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (secret) {
+        headers["x-publish-signature"] = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        // Перенаправление могло бы увести запрос во внутреннюю сеть
+        redirect: "error",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(`PUBLISH_WEBHOOK_FAILED: ${(data as any)?.error || `HTTP ${response.status}`}`);
+      }
+      return parseWebhookPublishResponse(data, platforms);
+    }
+  };
+}
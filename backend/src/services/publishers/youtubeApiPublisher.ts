@@ -0,0 +1,82 @@
+import { google } from "googleapis";
+import { getDriveClient } from "../googleDrive";
+import { getValidAccessToken, hasYoutubeUploadScope } from "../GoogleDriveOAuthService";
+import { Logger } from "../../utils/logger";
+import type { Publisher } from "./types";
+
+type YoutubePrivacyStatus = "public" | "unlisted" | "private";
+
+/**
+ * Загрузка напрямую в YouTube Data API от имени владельца канала.
+ * Используется Google OAuth пользователя (та же интеграция, что и для Google Drive, со scope youtube.upload).
+ */
+export function createYoutubeApiPublisher(config: {
+  clientConfigured: boolean;
+  privacyStatus: YoutubePrivacyStatus;
+}): Publisher {
+  return {
+    name: "youtube_api",
+    label: "YouTube Data API",
+    isConfigured: () => config.clientConfigured,
+    async publish({ userId, channel, platforms, video, title, description, platformPosts, scheduledTime }) {
+      const results = platforms
+        .filter((platform) => platform !== "youtube")
+        .map((platform) => ({ platform, success: false, error: "YouTube Data API публикует только на YouTube" }));
+      if (!platforms.includes("youtube")) {
+        return results;
+      }
+      if (!userId) {
+        throw new Error("YOUTUBE_API_USER_REQUIRED: неизвестен владелец канала для Google OAuth");
+      }
+      if (!(await hasYoutubeUploadScope(userId))) {
+        throw new Error(
+          "YOUTUBE_REAUTH_REQUIRED: Нет доступа к загрузке на YouTube. Переподключите Google в настройках аккаунта."
+        );
+      }
+
+      const auth = new google.auth.OAuth2();
+      auth.setCredentials({ access_token: await getValidAccessToken(userId) });
+
+      const media = await getDriveClient(true).files.get(
+        { fileId: video.driveFileId, alt: "media" },
+        { responseType: "stream" }
+      );
+
+      try {
+        const response = await google.youtube({ version: "v3", auth }).videos.insert({
+          part: ["snippet", "status"],
+          requestBody: {
+            snippet: {
+              title: platformPosts?.youtube?.title ?? title,
+              description: platformPosts?.youtube?.caption ?? description
+            },
+            // Отложенная публикация в YouTube возможна только для приватного видео с publishAt
+            status: scheduledTime
+              ? { privacyStatus: "private", publishAt: scheduledTime, selfDeclaredMadeForKids: false }
+              : { privacyStatus: config.privacyStatus, selfDeclaredMadeForKids: false }
+          },
+          media: { mimeType: video.mimeType || "video/mp4", body: media.data }
+        });
+
+        Logger.info("youtubeApiPublisher: video uploaded", {
+          channelId: channel.id,
+          fileId: video.driveFileId,
+          videoId: response.data.id
+        });
+        const videoId = response.data.id ?? null;
+        return [
+          ...results,
+          { platform: "youtube", success: true, postId: videoId, postUrl: videoId ? `https://youtu.be/${videoId}` : null }
+        ];
+      } catch (error: any) {
+        const reason = error?.errors?.[0]?.reason || error?.response?.data?.error?.errors?.[0]?.reason;
+        if (reason === "insufficientPermissions") {
+          throw new Error(
+            "YOUTUBE_REAUTH_REQUIRED: Нет доступа к загрузке на YouTube. Переподключите Google в настройках аккаунта."
+          );
+        }
+        throw error;
+      }
+    }
+  };
+}
@@ -1,302 +1,291 @@
 import { Logger } from "../utils/logger";
-import { downloadAndUploadVideoToDrive, type DownloadAndUploadOptions } from "./videoDownloadService";
+import { downloadAndUploadVideoToDrive, uploadRemainingVariants } from "./videoDownloadService";
+import { cancelJobs, enqueueJob, getJobStore, PermanentJobError } from "./jobQueue";
+import { trackDriveUploadScheduled } from "./pipelineRunTracker";
+import { getSyntxReplyTimeoutMinutes, watchSyntxReply } from "./syntxReplyListener";
+import { getVideoGenerator } from "./videoGenerators/generatorRegistry";
+import type { AutoDownloadJobPayload } from "../types/job";
+import type { GenerationTransport } from "../types/channel";
 
-interface ScheduledTask {
-  id: string;
-  channelId: string;
-  scheduleId: string;
-  userId: string;
-  runAt: number; // timestamp в миллисекундах
-  telegramMessageId?: number;
-  videoTitle?: string; // сгенерированное название ролика
-  prompt?: string; // текст промпта для fallback
-  timeoutId?: NodeJS.Timeout;
-}
-
-// Хранилище активных задач
-const activeTasks = new Map<string, ScheduledTask>();
+// Запас после дедлайна ответа: последняя проверка истории чата на случай пропущенного события
+const REPLY_FALLBACK_GRACE_MS = 2 * 60 * 1000;
+// Пауза перед догрузкой поздних вариантов: несколько видео подряд уходят одной задачей
+const LATE_VARIANTS_SETTLE_MS = 60 * 1000;
 
 /**
- * Планирует автоматическое скачивание и загрузку видео в Google Drive
+ * Планирует автоматическое скачивание и загрузку видео в Google Drive.
+ * Задача сохраняется в персистентной очереди (коллекция jobs) и выполняется
+ * воркером (/api/cron/job-tick), поэтому переживает перезапуск и масштабирование Cloud Run.
+ *
+ * Если удалось подписаться на новые сообщения чата SyntX, задача запускается сразу после
+ * прихода видео-ответа на промпт, а отложенный запуск остаётся запасным вариантом после дедлайна.
+ * Видео, пришедшие на тот же промпт позже (до дедлайна ответа), догружаются отдельной задачей как варианты.
+ * Без подписки, а также для внешних генераторов (HTTP API, заглушка) задача запускается через delayMinutes
+ * и повторяется с backoff, пока видео не будет готово.
  * @param options - Параметры задачи
  * @returns ID задачи
  */
-export function scheduleAutoDownload(options: {
+export async function scheduleAutoDownload(options: {
   channelId: string;
   scheduleId: string;
   userId: string;
-  telegramMessageInfo: { messageId: number; chatId: string };
+  telegramMessageInfo: { messageId: number; chatId: string; externalGenerationId?: string };
   delayMinutes: number;
+  transport?: GenerationTransport; // генератор видео: для Telegram — через какую сессию отправлен промпт
   videoTitle?: string; // сгенерированное название ролика
   prompt?: string; // текст промпта для fallback
-}): string {
+}): Promise<string> {
   const { channelId, scheduleId, userId, telegramMessageInfo, delayMinutes, videoTitle, prompt } = options;
-  
-  // ИСПРАВЛЕНИЕ: Используем более детерминированный taskId для лучшей дедупликации
-  // Формат: channelId_telegramMessageId_timestamp
-  // Это позволяет легче находить дубликаты
-  const taskId = `${channelId}_${telegramMessageInfo.messageId}_${Date.now()}`;
-  const delayMs = delayMinutes * 60 * 1000;
-  const runAt = Date.now() + delayMs;
 
-  Logger.info("scheduleAutoDownload: scheduling task", {
-    taskId,
+  const timeoutMinutes = getSyntxReplyTimeoutMinutes();
+  const pollingRunAt = new Date(Date.now() + delayMinutes * 60 * 1000);
+  const replyDeadline = new Date(Math.max(Date.now() + timeoutMinutes * 60 * 1000, pollingRunAt.getTime()));
+
+  // ДЕДУПЛИКАЦИЯ: одна активная задача на telegramMessageId канала.
+  // Повторное планирование того же сообщения перепланирует существующую задачу.
+  const dedupeKey = `${channelId}_${telegramMessageInfo.messageId}`;
+
+  const payload: AutoDownloadJobPayload = {
+    channelId,
+    scheduleId,
+    userId,
+    telegramMessageId: telegramMessageInfo.messageId,
+    chatId: telegramMessageInfo.chatId,
+    videoTitle,
+    prompt,
+    replyDeadline: replyDeadline.toISOString(),
+    transport: options.transport,
+    externalGenerationId: telegramMessageInfo.externalGenerationId
+  };
+
+  // Ответов в Telegram ждём только от SyntX; внешние генераторы опрашиваются задачей или присылают callback
+  const telegramChat = !getVideoGenerator(options.transport).downloadResult;
+  const videoReplies: number[] = [];
+  const listening = telegramChat && (await watchSyntxReply({
+    transport: options.transport || "telegram_global",
+    userId,
+    chatId: telegramMessageInfo.chatId,
+    promptMessageId: telegramMessageInfo.messageId,
+    timeoutMinutes,
+    onReply: async (videoMessageId) => {
+      videoReplies.push(videoMessageId);
+      if (videoReplies.length > 1) {
+        // Основное видео уже в работе — варианты догружает отдельная задача
+        await enqueueJob({
+          type: "telegram_auto_download",
+          payload: { ...payload, videoMessageId: videoReplies[0], variantMessageIds: [...videoReplies] },
+          runAt: new Date(Date.now() + LATE_VARIANTS_SETTLE_MS),
+          dedupeKey: `${dedupeKey}_variants`,
+          userId,
+          channelId
+        });
+        return;
+      }
+      // Перепланируем ту же задачу (dedupeKey) на «сейчас» и сразу запускаем воркер
+      await enqueueJob({
+        type: "telegram_auto_download",
+        payload: { ...payload, videoMessageId },
+        runAt: new Date(),
+        dedupeKey,
+        userId,
+        channelId
+      });
+      const { processJobWorkerTick } = await import("./jobWorker");
+      await processJobWorkerTick();
+    }
+  }));
+
+  const runAt = listening ? new Date(replyDeadline.getTime() + REPLY_FALLBACK_GRACE_MS) : pollingRunAt;
+
+  Logger.info("scheduleAutoDownload: enqueueing job", {
     channelId,
     scheduleId,
     userId,
     messageId: telegramMessageInfo.messageId,
     delayMinutes,
-    runAt: new Date(runAt).toISOString(),
+    listening,
+    runAt: runAt.toISOString(),
     hasVideoTitle: !!videoTitle,
     hasPrompt: !!prompt
   });
 
-  // ДЕДУПЛИКАЦИЯ: Отменяем предыдущую задачу для этого telegramMessageId, если она существует
-  // Это предотвращает дублирование загрузки одного и того же видео
-  // ИСПРАВЛЕНИЕ: Используем более надёжный ключ для дедупликации
-  const deduplicationKey = `${channelId}_${telegramMessageInfo.messageId}`;
-  const existingTask = Array.from(activeTasks.values()).find(
-    (task) => 
-      task.channelId === channelId && 
-      task.telegramMessageId === telegramMessageInfo.messageId
-  );
-  
-  if (existingTask && existingTask.timeoutId) {
-    console.log("DUPLICATE_TASK_CANCELLED:", {
-      existingTaskId: existingTask.id,
-      newTaskId: taskId,
-      channelId,
-      messageId: telegramMessageInfo.messageId,
-      reason: "duplicate_prevention"
-    });
+  const job = await enqueueJob({
+    type: "telegram_auto_download",
+    payload,
+    runAt,
+    dedupeKey,
+    userId,
+    channelId
+  });
 
-    Logger.warn("scheduleAutoDownload: cancelling existing task for same telegramMessageId (duplicate prevention)", {
-      existingTaskId: existingTask.id,
-      channelId,
-      scheduleId: existingTask.scheduleId,
-      messageId: telegramMessageInfo.messageId,
-      newScheduleId: scheduleId,
-      deduplicationKey
-    });
-    clearTimeout(existingTask.timeoutId);
-    activeTasks.delete(existingTask.id);
-  }
+  await trackDriveUploadScheduled({
+    userId,
+    channelId,
+    telegramMessageId: telegramMessageInfo.messageId,
+    jobId: job.id,
+    scheduledFor: job.availableAt
+  });
 
-  // Создаём таймаут для выполнения задачи
-  // ВАЖНО: setTimeout может не сохранить контекст при перезапуске сервера
-  // Для production лучше использовать persistent queue (например, Bull/BullMQ)
-  const timeoutId = setTimeout(async () => {
-    console.log("AUTO_TASK_START:", {
-      taskId,
-      channelId,
-      scheduleId,
-      userId,
-      messageId: telegramMessageInfo.messageId,
-      chatId: telegramMessageInfo.chatId,
-      scheduledAt: new Date().toISOString(),
-      delayMinutes,
-      note: "Task execution started"
-    });
+  Logger.info("scheduleAutoDownload: job scheduled", {
+    jobId: job.id,
+    channelId,
+    scheduleId,
+    willRunAt: job.availableAt
+  });
 
-    Logger.info("scheduleAutoDownload: executing scheduled task", {
-      taskId,
-      channelId,
-      scheduleId,
-      userId,
-      messageId: telegramMessageInfo.messageId,
-      chatId: telegramMessageInfo.chatId,
-      scheduledAt: new Date().toISOString()
-    });
+  return job.id;
+}
 
-    try {
-      // Получаем сохранённые данные задачи
-      const savedTask = activeTasks.get(taskId);
-      
-      if (!savedTask) {
-        console.error("AUTO_TASK_ERROR: Task not found in activeTasks", {
-          taskId,
-          activeTasksCount: activeTasks.size,
-          activeTaskIds: Array.from(activeTasks.keys()).slice(0, 5)
-        });
-        Logger.error("scheduleAutoDownload: task not found in activeTasks", {
-          taskId,
-          activeTasksCount: activeTasks.size
-        });
-        return;
-      }
-      
-      console.log("AUTO_TASK_DATA_RETRIEVED:", {
-        taskId,
-        hasVideoTitle: !!savedTask?.videoTitle,
-        hasPrompt: !!savedTask?.prompt,
-        promptLength: savedTask?.prompt?.length || 0,
-        videoTitle: savedTask?.videoTitle || "NOT_SET"
-      });
-      
-      Logger.info("scheduleAutoDownload: task data retrieved", {
-        taskId,
-        hasVideoTitle: !!savedTask?.videoTitle,
-        hasPrompt: !!savedTask?.prompt,
-        promptLength: savedTask?.prompt?.length || 0
-      });
-      
-      // ИДЕМПОТЕНТНОСТЬ: Проверяем, не была ли уже выполнена загрузка для этого telegramMessageId
-      // Это дополнительная защита на случай, если задача была запланирована дважды
-      try {
-        const { db, isFirestoreAvailable } = await import("./firebaseAdmin");
-        if (isFirestoreAvailable() && db) {
-          const channelRef = db
-            .collection("users")
-            .doc(userId)
-            .collection("channels")
-            .doc(channelId);
+/**
+ * Обработчик задачи telegram_auto_download.
+ * Бросает ошибку при неудаче, чтобы очередь повторила попытку с backoff
+ * (видео в SyntX могло ещё не сгенерироваться).
+ */
+export async function runAutoDownloadJob(payload: AutoDownloadJobPayload): Promise<void> {
+  const { channelId, scheduleId, userId, telegramMessageId, chatId } = payload;
 
-          // Проверяем в videoGenerations
-          const existingGenQuery = await channelRef
-            .collection("videoGenerations")
-            .where("messageId", "==", telegramMessageInfo.messageId)
-            .limit(1)
-            .get();
+  if (payload.variantMessageIds) {
+    await runLateVariantsUpload(payload, payload.variantMessageIds);
+    return;
+  }
 
-          if (!existingGenQuery.empty) {
-            const existingGen = existingGenQuery.docs[0].data();
-            if (existingGen.uploadedToDrive === true && existingGen.driveFileId) {
-              console.log("UPLOAD_SKIPPED_ALREADY_UPLOADED:", {
-                taskId,
-                reason: "found_in_videoGenerations_before_download",
-                driveFileId: existingGen.driveFileId
-              });
+  Logger.info("runAutoDownloadJob: executing", {
+    channelId,
+    scheduleId,
+    userId,
+    messageId: telegramMessageId,
+    chatId,
+    hasVideoTitle: !!payload.videoTitle,
+    hasPrompt: !!payload.prompt
+  });
 
-              Logger.warn("scheduleAutoDownload: task skipped - already uploaded", {
-                taskId,
-                channelId,
-                telegramMessageId: telegramMessageInfo.messageId,
-                driveFileId: existingGen.driveFileId
-              });
+  // ИДЕМПОТЕНТНОСТЬ: Проверяем, не была ли уже выполнена загрузка для этого telegramMessageId
+  // (задача могла упасть после загрузки, но до подтверждения в очереди)
+  try {
+    const { db, isFirestoreAvailable } = await import("./firebaseAdmin");
+    if (isFirestoreAvailable() && db) {
+      const existingGenQuery = await db
+        .collection("users")
+        .doc(userId)
+        .collection("channels")
+        .doc(channelId)
+        .collection("videoGenerations")
+        .where("messageId", "==", telegramMessageId)
+        .limit(1)
+        .get();
 
-              activeTasks.delete(taskId);
-              return;
-            }
-          }
+      if (!existingGenQuery.empty) {
+        const existingGen = existingGenQuery.docs[0].data();
+        if (existingGen.uploadedToDrive === true && existingGen.driveFileId) {
+          Logger.warn("runAutoDownloadJob: skipped - already uploaded", {
+            channelId,
+            telegramMessageId,
+            driveFileId: existingGen.driveFileId
+          });
+          return;
         }
-      } catch (checkError) {
-        Logger.warn("scheduleAutoDownload: failed to check for existing upload, proceeding anyway", {
-          taskId,
-          error: checkError instanceof Error ? checkError.message : String(checkError)
-        });
-        // Продолжаем выполнение, если проверка не удалась
       }
+    }
+  } catch (checkError) {
+    Logger.warn("runAutoDownloadJob: failed to check for existing upload, proceeding anyway", {
+      channelId,
+      telegramMessageId,
+      error: checkError instanceof Error ? checkError.message : String(checkError)
+    });
+  }
 
-      // Вызываем функцию скачивания и загрузки
-      Logger.info("scheduleAutoDownload: calling downloadAndUploadVideoToDrive", {
-        taskId,
-        channelId,
-        userId,
-        telegramMessageId: telegramMessageInfo.messageId,
-        scheduleId,
-        timestamp: new Date().toISOString(),
-        willAttemptUpload: true
-      });
-
-      const result = await downloadAndUploadVideoToDrive({
-        channelId,
-        userId,
-        telegramMessageId: telegramMessageInfo.messageId,
-        scheduleId,
-        videoTitle: savedTask?.videoTitle,
-        prompt: savedTask?.prompt
-      });
+  const result = await downloadAndUploadVideoToDrive({
+    channelId,
+    userId,
+    telegramMessageId,
+    videoMessageId: payload.videoMessageId,
+    transport: payload.transport,
+    externalGenerationId: payload.externalGenerationId,
+    resultUrl: payload.resultUrl,
+    scheduleId,
+    videoTitle: payload.videoTitle,
+    prompt: payload.prompt
+  });
 
-      if (result.success) {
-        Logger.info("scheduleAutoDownload: task completed successfully", {
-          taskId,
-          channelId,
-          scheduleId,
-          driveFileId: result.driveFileId,
-          driveWebViewLink: result.driveWebViewLink,
-          fileName: result.fileName,
-          uploadedAt: new Date().toISOString()
-        });
-      } else {
-        Logger.error("scheduleAutoDownload: task failed", {
-          taskId,
-          channelId,
-          scheduleId,
-          error: result.error,
-          errorDetails: {
-            hasDriveFileId: !!result.driveFileId,
-            hasFileName: !!result.fileName
-          }
-        });
+  if (!result.success) {
+    Logger.error("runAutoDownloadJob: download failed", {
+      channelId,
+      scheduleId,
+      error: result.error
+    });
+    if (result.error === "Канал не найден" || result.error?.includes("VIDEO_GENERATION_FAILED")) {
+      throw new PermanentJobError(result.error);
+    }
+    // SyntX так и не ответил на промпт до дедлайна — повторять дальше бессмысленно
+    if (
+      result.error?.includes("NO_VIDEO_FOUND") &&
+      payload.replyDeadline &&
+      Date.now() >= new Date(payload.replyDeadline).getTime()
+    ) {
+      if (getVideoGenerator(payload.transport).downloadResult) {
+        throw new PermanentJobError(
+          `VIDEO_GENERATION_TIMEOUT: генерация ${telegramMessageId} не завершилась до ${payload.replyDeadline}`
+        );
       }
-    } catch (error) {
-      Logger.error("scheduleAutoDownload: task execution error", {
-        taskId,
-        channelId,
-        scheduleId,
-        error: error instanceof Error ? error.message : String(error),
-        errorStack: error instanceof Error ? error.stack : undefined,
-        errorName: error instanceof Error ? error.name : undefined
-      });
-    } finally {
-      // Удаляем задачу из активных
-      activeTasks.delete(taskId);
-      Logger.info("scheduleAutoDownload: task removed from active tasks", {
-        taskId,
-        remainingActiveTasks: activeTasks.size
-      });
+      throw new PermanentJobError(
+        `SYNTX_REPLY_TIMEOUT: SyntX не прислал видео в ответ на промпт ${telegramMessageId} до ${payload.replyDeadline}`
+      );
     }
-  }, delayMs);
+    throw new Error(result.error || "Не удалось скачать видео и загрузить в Google Drive");
+  }
 
-  // Сохраняем задачу
-  const task: ScheduledTask = {
-    id: taskId,
+  Logger.info("runAutoDownloadJob: completed successfully", {
     channelId,
     scheduleId,
-    userId,
-    runAt,
-    telegramMessageId: telegramMessageInfo.messageId,
-    videoTitle,
-    prompt,
-    timeoutId
-  };
+    driveFileId: result.driveFileId,
+    driveWebViewLink: result.driveWebViewLink,
+    fileName: result.fileName
+  });
+}
 
-  activeTasks.set(taskId, task);
+/**
+ * Догружает варианты, которые SyntX прислал после основного видео.
+ * Пока основная задача не завершена, ждём её (она сама могла увидеть часть вариантов).
+ */
+async function runLateVariantsUpload(payload: AutoDownloadJobPayload, variantMessageIds: number[]): Promise<void> {
+  const { channelId, userId, telegramMessageId } = payload;
+  if (await getJobStore().findActiveByDedupeKey(`${channelId}_${telegramMessageId}`)) {
+    throw new Error("LATE_VARIANTS_WAITING: основное видео промпта ещё не загружено");
+  }
 
-  Logger.info("scheduleAutoDownload: task scheduled", {
-    taskId,
+  const failed = await uploadRemainingVariants(
+    {
+      channelId,
+      userId,
+      telegramMessageId,
+      transport: payload.transport,
+      scheduleId: payload.scheduleId,
+      videoTitle: payload.videoTitle,
+      prompt: payload.prompt
+    },
+    variantMessageIds
+  );
+  Logger.info("runAutoDownloadJob: late SyntX variants processed", {
     channelId,
-    scheduleId,
-    willRunAt: new Date(runAt).toISOString(),
-    activeTasksCount: activeTasks.size
+    telegramMessageId,
+    variantCount: variantMessageIds.length,
+    failed
   });
-
-  return taskId;
+  if (failed > 0) {
+    throw new Error(`Не удалось загрузить вариантов видео: ${failed}`);
+  }
 }
 
 /**
  * Отменяет запланированную задачу
  * @param taskId - ID задачи
  */
-export function cancelScheduledTask(taskId: string): boolean {
-  const task = activeTasks.get(taskId);
-  if (!task) {
-    return false;
-  }
-
-  if (task.timeoutId) {
-    clearTimeout(task.timeoutId);
+export async function cancelScheduledTask(taskId: string): Promise<boolean> {
+  const cancelled = await cancelJobs((job) => job.id === taskId);
+  if (cancelled > 0) {
+    Logger.info("cancelScheduledTask: task cancelled", { taskId });
   }
-
-  activeTasks.delete(taskId);
-
-  Logger.info("cancelScheduledTask: task cancelled", {
-    taskId,
-    channelId: task.channelId,
-    scheduleId: task.scheduleId
-  });
-
-  return true;
+  return cancelled > 0;
 }
 
 /**
@@ -304,18 +293,13 @@ export function cancelScheduledTask(taskId: string): boolean {
  * @param channelId - ID канала
  * @param scheduleId - ID расписания
  */
-export function cancelTasksForSchedule(channelId: string, scheduleId: string): number {
-  let cancelledCount = 0;
-
-  for (const [taskId, task] of activeTasks.entries()) {
-    if (task.channelId === channelId && task.scheduleId === scheduleId) {
-      if (task.timeoutId) {
-        clearTimeout(task.timeoutId);
-      }
-      activeTasks.delete(taskId);
-      cancelledCount++;
-    }
-  }
+export async function cancelTasksForSchedule(channelId: string, scheduleId: string): Promise<number> {
+  const cancelledCount = await cancelJobs(
+    (job) =>
+      job.type === "telegram_auto_download" &&
+      (job.payload as AutoDownloadJobPayload).scheduleId === scheduleId,
+    channelId
+  );
 
   if (cancelledCount > 0) {
     Logger.info("cancelTasksForSchedule: tasks cancelled", {
@@ -329,23 +313,28 @@ export function cancelTasksForSchedule(channelId: string, scheduleId: string): n
 }
 
 /**
- * Получает информацию о всех активных задачах
+ * Получает информацию о всех ожидающих задачах автоскачивания
  */
-export function getActiveTasks(): Array<{
+export async function getActiveTasks(): Promise<Array<{
   id: string;
   channelId: string;
   scheduleId: string;
   userId: string;
   runAt: string;
   telegramMessageId?: number;
-}> {
-  return Array.from(activeTasks.values()).map((task) => ({
-    id: task.id,
-    channelId: task.channelId,
-    scheduleId: task.scheduleId,
-    userId: task.userId,
-    runAt: new Date(task.runAt).toISOString(),
-    telegramMessageId: task.telegramMessageId
-  }));
+}>> {
+  const jobs = await getJobStore().list({ status: "pending" });
+  return jobs
+    .filter((job) => job.type === "telegram_auto_download")
+    .map((job) => {
+      const payload = job.payload as AutoDownloadJobPayload;
+      return {
+        id: job.id,
+        channelId: payload.channelId,
+        scheduleId: payload.scheduleId,
+        userId: payload.userId,
+        runAt: job.availableAt,
+        telegramMessageId: payload.telegramMessageId
+      };
+    });
 }
-
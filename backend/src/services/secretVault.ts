@@ -0,0 +1,294 @@
+import * as admin from "firebase-admin";
+import { db, isFirestoreAvailable } from "./firebaseAdmin";
+import { encrypt, decrypt } from "../crypto/aes";
+import { Logger } from "../utils/logger";
+import { getSecretId, getSecretLast4, maskSecret } from "../utils/secrets";
+import {
+  addSecretAuditEntry,
+  deleteStoredSecret,
+  getStoredSecret,
+  listStoredSecrets,
+  saveStoredSecret
+} from "../repositories/secretVaultRepo";
+import type { Channel } from "../types/channel";
+import type { MaskedSecret, SecretAuditEntry, SecretKind, StoredSecret } from "../types/secret";
+
+/**
+ * Хранилище секретов сторонних сервисов.
+ * Значения шифруются на backend и никогда не возвращаются клиенту: API позволяет только
+ * записать, удалить и получить маску. Каждое обращение попадает в журнал secretAudit.
+ */
+
+type AuditParams = Omit<SecretAuditEntry, "id" | "secretId" | "kind" | "channelId" | "at">;
+
+async function audit(
+  userId: string,
+  secret: Pick<StoredSecret, "id" | "kind" | "channelId">,
+  params: AuditParams
+): Promise<void> {
+  try {
+    await addSecretAuditEntry(userId, {
+      secretId: secret.id,
+      kind: secret.kind,
+      channelId: secret.channelId,
+      at: new Date().toISOString(),
+      ...params
+    });
+  } catch (error: any) {
+    // Журнал не должен ломать публикацию, но пропуск записи фиксируем в логах
+    Logger.error("secretVault: failed to write audit entry", {
+      userId,
+      secretId: secret.id,
+      action: params.action,
+      error: error?.message || String(error)
+    });
+  }
+}
+
+function toMasked(secret: StoredSecret): MaskedSecret {
+  return {
+    id: secret.id,
+    kind: secret.kind,
+    scope: secret.scope,
+    channelId: secret.channelId,
+    masked: maskSecret(secret.last4),
+    updatedAt: secret.updatedAt
+  };
+}
+
+/**
+ * Обновляет маску на документе канала и убирает устаревшее открытое значение
+ */
+async function syncChannelMask(
+  userId: string,
+  channelId: string,
+  kind: SecretKind,
+  masked: string | null
+): Promise<void> {
+  if (!isFirestoreAvailable() || !db) {
+    return;
+  }
+  const update: Record<string, unknown> = {
+    [`secretMasks.${kind}`]: masked ?? admin.firestore.FieldValue.delete()
+  };
+  if (kind === "blotato_api_key") {
+    update.blotataApiKey = admin.firestore.FieldValue.delete();
+  }
+  try {
+    await db.collection("users").doc(userId).collection("channels").doc(channelId).update(update);
+  } catch (error: any) {
+    Logger.warn("secretVault: failed to update channel secret mask", {
+      userId,
+      channelId,
+      kind,
+      error: error?.message || String(error)
+    });
+  }
+}
+
+/**
+ * Шифрует и сохраняет секрет. Возвращает маскированное значение.
+ */
+export async function putSecret(
+  userId: string,
+  kind: SecretKind,
+  value: string,
+  options: { channelId?: string | null; actor?: "user" | "system"; action?: "write" | "migrate" } = {}
+): Promise<MaskedSecret> {
+  const channelId = options.channelId || null;
+  const plain = value.trim();
+  const stored = await saveStoredSecret(userId, {
+    id: getSecretId(kind, channelId),
+    kind,
+    scope: channelId ? "channel" : "user",
+    channelId,
+    ciphertext: encrypt(plain),
+    last4: getSecretLast4(plain)
+  });
+  const masked = toMasked(stored);
+
+  await audit(userId, stored, { action: options.action ?? "write", actor: options.actor ?? "user" });
+  if (channelId) {
+    await syncChannelMask(userId, channelId, kind, masked.masked);
+  }
+  return masked;
+}
+
+export async function deleteSecret(userId: string, kind: SecretKind, channelId?: string | null): Promise<boolean> {
+  const secret = { id: getSecretId(kind, channelId), kind, channelId: channelId || null };
+  const deleted = await deleteStoredSecret(userId, secret.id);
+  if (deleted) {
+    await audit(userId, secret, { action: "delete", actor: "user" });
+  }
+  if (channelId) {
+    await syncChannelMask(userId, channelId, kind, null);
+  }
+  return deleted;
+}
+
+/**
+ * Расшифровывает секрет для использования на backend. purpose попадает в журнал доступа.
+ */
+export async function readSecret(
+  userId: string,
+  kind: SecretKind,
+  options: { channelId?: string | null; purpose: string }
+): Promise<string | null> {
+  const stored = await getStoredSecret(userId, getSecretId(kind, options.channelId));
+  if (!stored) {
+    return null;
+  }
+  try {
+    const value = decrypt(stored.ciphertext);
+    await audit(userId, stored, { action: "read", actor: "system", purpose: options.purpose });
+    return value;
+  } catch (error: any) {
+    Logger.error("secretVault: failed to decrypt secret", {
+      userId,
+      secretId: stored.id,
+      error: error?.message || String(error)
+    });
+    return null;
+  }
+}
+
+export async function listMaskedSecrets(userId: string, channelId?: string): Promise<MaskedSecret[]> {
+  const secrets = await listStoredSecrets(userId, channelId);
+  return secrets.map(toMasked);
+}
+
+export async function getMaskedSecret(
+  userId: string,
+  kind: SecretKind,
+  channelId?: string | null
+): Promise<MaskedSecret | null> {
+  const stored = await getStoredSecret(userId, getSecretId(kind, channelId));
+  return stored ? toMasked(stored) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Миграция открытых и устаревших значений
+// ---------------------------------------------------------------------------
+
+/**
+ * Переносит открытый channel.blotataApiKey в хранилище. Возвращает ключ или null.
+ */
+async function migrateChannelBlotatoKey(userId: string, channel: Pick<Channel, "id" | "blotataApiKey">) {
+  const plain = channel.blotataApiKey?.trim();
+  if (!plain) {
+    return null;
+  }
+  await putSecret(userId, "blotato_api_key", plain, { channelId: channel.id, actor: "system", action: "migrate" });
+  Logger.info("secretVault: migrated plaintext channel Blotato key", { userId, channelId: channel.id });
+  return plain;
+}
+
+/**
+ * Переносит ключ по умолчанию из settings/account.defaultBlottataApiKeyEncrypted. Возвращает ключ или null.
+ */
+async function migrateLegacyDefaultBlotatoKey(userId: string): Promise<string | null> {
+  if (!isFirestoreAvailable() || !db) {
+    return null;
+  }
+  const settingsRef = db.collection("users").doc(userId).collection("settings").doc("account");
+  const settingsDoc = await settingsRef.get();
+  const encrypted = settingsDoc.data()?.defaultBlottataApiKeyEncrypted as string | undefined;
+  if (!encrypted) {
+    return null;
+  }
+
+  let plain: string;
+  try {
+    plain = decrypt(encrypted);
+  } catch (error: any) {
+    Logger.error("secretVault: failed to decrypt legacy default Blotato key", {
+      userId,
+      error: error?.message || String(error)
+    });
+    return null;
+  }
+  await putSecret(userId, "blotato_api_key", plain, { actor: "system", action: "migrate" });
+  await settingsRef.set({ defaultBlottataApiKeyEncrypted: admin.firestore.FieldValue.delete() }, { merge: true });
+  Logger.info("secretVault: migrated legacy default Blotato key", { userId });
+  return plain;
+}
+
+/**
+ * Ключ Blotato пользователя по умолчанию (с переносом устаревшего значения при первом обращении)
+ */
+export async function readDefaultBlotatoApiKey(userId: string, purpose: string): Promise<string | null> {
+  const stored = await readSecret(userId, "blotato_api_key", { purpose });
+  return stored ?? (await migrateLegacyDefaultBlotatoKey(userId));
+}
+
+export async function hasDefaultBlotatoApiKey(userId: string): Promise<boolean> {
+  if (await getMaskedSecret(userId, "blotato_api_key")) {
+    return true;
+  }
+  if (!isFirestoreAvailable() || !db) {
+    return false;
+  }
+  const settingsDoc = await db.collection("users").doc(userId).collection("settings").doc("account").get();
+  return Boolean(settingsDoc.data()?.defaultBlottataApiKeyEncrypted);
+}
+
+/**
+ * Ключ Blotato для канала: ключ канала → ключ пользователя по умолчанию → BLOTATA_API_KEY сервера.
+ * Открытый ключ, найденный на документе канала, переносится в хранилище.
+ */
+export async function resolveBlotatoApiKey(
+  userId: string | undefined,
+  channel: Pick<Channel, "id" | "blotataApiKey">,
+  purpose: string
+): Promise<string | null> {
+  if (userId) {
+    try {
+      const channelKey =
+        (await readSecret(userId, "blotato_api_key", { channelId: channel.id, purpose })) ??
+        (await migrateChannelBlotatoKey(userId, channel));
+      if (channelKey) {
+        return channelKey;
+      }
+      const defaultKey = await readDefaultBlotatoApiKey(userId, purpose);
+      if (defaultKey) {
+        return defaultKey;
+      }
+    } catch (error: any) {
+      Logger.error("secretVault: failed to resolve Blotato API key", {
+        userId,
+        channelId: channel.id,
+        error: error?.message || String(error)
+      });
+    }
+  }
+  return process.env.BLOTATA_API_KEY || null;
+}
+
+/**
+ * Есть ли у канала ключ Blotato (без расшифровки и записи в журнал доступа)
+ */
+export async function hasBlotatoApiKey(userId: string, channel: Pick<Channel, "id" | "blotataApiKey">): Promise<boolean> {
+  if (channel.blotataApiKey || process.env.BLOTATA_API_KEY) {
+    return true;
+  }
+  return Boolean(await getMaskedSecret(userId, "blotato_api_key", channel.id)) || (await hasDefaultBlotatoApiKey(userId));
+}
+
+/**
+ * Переносит все открытые и устаревшие ключи пользователя в хранилище (для scripts/migrateSecrets)
+ */
+export async function migrateUserSecrets(userId: string): Promise<{ channels: number; defaultKey: boolean }> {
+  if (!isFirestoreAvailable() || !db) {
+    throw new Error("Firestore is not available");
+  }
+  const snapshot = await db.collection("users").doc(userId).collection("channels").get();
+  let channels = 0;
+  for (const doc of snapshot.docs) {
+    const migrated = await migrateChannelBlotatoKey(userId, { id: doc.id, blotataApiKey: doc.data().blotataApiKey });
+    if (migrated) {
+      channels++;
+    }
+  }
+  const defaultKey = Boolean(await migrateLegacyDefaultBlotatoKey(userId));
+  return { channels, defaultKey };
+}
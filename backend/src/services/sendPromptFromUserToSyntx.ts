@@ -75,7 +75,7 @@ export async function sendPromptFromUserToSyntx(
  * Поддерживает telegram_global и telegram_user
  */
 export async function sendPromptToSyntax(
-  channel: Channel,
+  channel: Pick<Channel, "generationTransport" | "telegramSyntaxPeer">,
   userId: string,
   prompt: string
 ): Promise<TelegramMessageInfo> {
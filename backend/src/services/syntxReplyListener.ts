@@ -0,0 +1,210 @@
+import type { TelegramClient } from "telegram";
+import { NewMessage, type NewMessageEvent } from "telegram/events";
+import { createTelegramClientFromStringSession } from "../telegram/client";
+import { loadSessionString } from "../telegram/sessionStore";
+import { connectClientForUser } from "../integrations/telegram/TelegramUserClient";
+import { matchSyntxReply, toSyntxReplyCandidate } from "../utils/syntxReplyMatcher";
+import type { GenerationTransport } from "../types/channel";
+import { Logger } from "../utils/logger";
+
+const DEFAULT_REPLY_TIMEOUT_MINUTES = 30;
+
+/**
+ * Сколько ждать ответ SyntX на промпт (SYNTX_REPLY_TIMEOUT_MINUTES, по умолчанию 30 минут)
+ */
+export function getSyntxReplyTimeoutMinutes(): number {
+  const value = Number(process.env.SYNTX_REPLY_TIMEOUT_MINUTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_REPLY_TIMEOUT_MINUTES;
+}
+
+interface ReplyWatch {
+  promptMessageId: number;
+  startedAt: number;
+  replied: boolean; // первое видео пришло, дальше ловим варианты и перегенерации
+  timer: NodeJS.Timeout;
+  onReply: (videoMessageId: number) => Promise<void>;
+}
+
+interface ListenerConnection {
+  key: string;
+  client: TelegramClient;
+  event: NewMessage;
+  handler: (event: NewMessageEvent) => Promise<void>;
+  watches: Map<number, ReplyWatch>;
+}
+
+// Одно подключение на сессию: личная сессия пользователя или глобальная
+const connections = new Map<string, Promise<ListenerConnection>>();
+
+function getConnectionKey(transport: GenerationTransport, userId: string): string {
+  return transport === "telegram_user" ? `user:${userId}` : "global";
+}
+
+async function openConnection(
+  key: string,
+  transport: GenerationTransport,
+  userId: string,
+  chatId: string
+): Promise<ListenerConnection> {
+  let client: TelegramClient;
+  if (transport === "telegram_user") {
+    client = await connectClientForUser(userId);
+  } else {
+    const stringSession = loadSessionString();
+    if (!stringSession) {
+      throw new Error("TELEGRAM_SESSION_NOT_INITIALIZED");
+    }
+    client = await createTelegramClientFromStringSession(stringSession);
+  }
+
+  const connection: ListenerConnection = {
+    key,
+    client,
+    event: new NewMessage({ chats: [chatId], incoming: true }),
+    handler: async () => {},
+    watches: new Map()
+  };
+
+  connection.handler = async (event: NewMessageEvent) => {
+    const candidate = toSyntxReplyCandidate(event.message);
+    if (!candidate) {
+      return;
+    }
+    const pending = Array.from(connection.watches.values()).map((watch) => ({
+      promptMessageId: watch.promptMessageId,
+      startedAt: watch.startedAt,
+      replied: watch.replied
+    }));
+    const promptMessageId = matchSyntxReply(candidate, pending);
+    if (promptMessageId === null) {
+      return;
+    }
+
+    const watch = connection.watches.get(promptMessageId);
+    if (!watch) {
+      return;
+    }
+    // Ожидание не снимаем до таймаута: SyntX может прислать ещё варианты и перегенерации
+    const variant = watch.replied;
+    watch.replied = true;
+
+    Logger.info("syntxReplyListener: SyntX reply received", {
+      connection: key,
+      promptMessageId,
+      videoMessageId: candidate.id,
+      variant,
+      matchedBy: candidate.replyToMsgId === promptMessageId ? "reply_to" : "order",
+      waitedMs: Date.now() - watch.startedAt
+    });
+
+    try {
+      await watch.onReply(candidate.id);
+    } catch (error) {
+      Logger.error("syntxReplyListener: failed to handle SyntX reply", {
+        promptMessageId,
+        videoMessageId: candidate.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  client.addEventHandler(connection.handler, connection.event);
+  Logger.info("syntxReplyListener: listening for SyntX replies", { connection: key, chatId });
+  return connection;
+}
+
+function stopWatch(connection: ListenerConnection, promptMessageId: number): void {
+  const watch = connection.watches.get(promptMessageId);
+  if (!watch) {
+    return;
+  }
+  clearTimeout(watch.timer);
+  connection.watches.delete(promptMessageId);
+
+  if (connection.watches.size === 0) {
+    // Больше никого не ждём — отключаемся, чтобы не держать сессию открытой
+    connections.delete(connection.key);
+    connection.client.removeEventHandler(connection.handler, connection.event);
+    connection.client.disconnect().catch((error: unknown) => {
+      Logger.warn("syntxReplyListener: failed to disconnect", {
+        connection: connection.key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+    Logger.info("syntxReplyListener: connection closed", { connection: connection.key });
+  }
+}
+
+/**
+ * Начинает ждать ответ SyntX на отправленный промпт.
+ * Ответ сопоставляется по reply-to (или по очерёдности для ответов без reply-to),
+ * и onReply вызывается сразу после прихода видео. Ожидание остаётся до timeoutMinutes:
+ * следующие видео-ответы с reply-to (варианты, перегенерации) тоже передаются в onReply.
+ * Возвращает false, если подписаться на новые сообщения не удалось.
+ */
+export async function watchSyntxReply(options: {
+  transport: GenerationTransport;
+  userId: string;
+  chatId: string;
+  promptMessageId: number;
+  timeoutMinutes: number;
+  onReply: (videoMessageId: number) => Promise<void>;
+}): Promise<boolean> {
+  const { transport, userId, chatId, promptMessageId, timeoutMinutes, onReply } = options;
+  const key = getConnectionKey(transport, userId);
+
+  let pending = connections.get(key);
+  if (!pending) {
+    pending = openConnection(key, transport, userId, chatId);
+    connections.set(key, pending);
+  }
+
+  let connection: ListenerConnection;
+  try {
+    connection = await pending;
+  } catch (error) {
+    if (connections.get(key) === pending) {
+      connections.delete(key);
+    }
+    Logger.warn("syntxReplyListener: failed to start listener, falling back to polling", {
+      connection: key,
+      promptMessageId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+
+  // Пока ждали подключения, его могли закрыть (сняли последнее ожидание) — открываем заново
+  if (connections.get(key) !== pending) {
+    return watchSyntxReply(options);
+  }
+
+  // Повторное планирование того же промпта заменяет прежнее ожидание
+  const existing = connection.watches.get(promptMessageId);
+  if (existing) {
+    clearTimeout(existing.timer);
+  }
+
+  const timer = setTimeout(() => {
+    if (connection.watches.get(promptMessageId)?.replied) {
+      Logger.info("syntxReplyListener: stopped waiting for more SyntX variants", { connection: key, promptMessageId });
+    } else {
+      Logger.warn("syntxReplyListener: SyntX reply timed out", {
+        connection: key,
+        promptMessageId,
+        timeoutMinutes
+      });
+    }
+    stopWatch(connection, promptMessageId);
+  }, timeoutMinutes * 60 * 1000);
+  timer.unref?.();
+
+  connection.watches.set(promptMessageId, {
+    promptMessageId,
+    startedAt: Date.now(),
+    replied: existing?.replied ?? false,
+    timer,
+    onReply
+  });
+  return true;
+}
@@ -1,7 +1,11 @@
 import { createTelegramClientFromStringSession } from "../telegram/client";
 import { loadSessionString } from "../telegram/sessionStore";
 import { getClientForUser } from "../integrations/telegram/TelegramUserClient";
-import { downloadTelegramVideoToTemp, cleanupTempFile } from "../utils/telegramDownload";
+import {
+  downloadTelegramVideoToTemp,
+  cleanupTempFile,
+  listVideoRepliesToPrompt
+} from "../utils/telegramDownload";
 import { uploadFileToDrive } from "./googleDrive";
 import { uploadFileToDriveWithOAuth } from "./googleDriveOAuth";
 import { getUserOAuthTokens, updateUserAccessToken } from "../repositories/userOAuthTokensRepo";
@@ -10,10 +14,14 @@ import { findGoogleDriveIntegrationByUserId } from "../repositories/googleDriveI
 import { db, isFirestoreAvailable } from "./firebaseAdmin";
 import { Logger } from "../utils/logger";
 import { google } from "googleapis";
-import { generateVideoFileName } from "../utils/fileUtils";
+import { generateVideoFileName, getVariantFileName } from "../utils/fileUtils";
 import { sendVideoUploadNotification } from "./notificationService";
 import { notificationRepository } from "../repositories/notificationRepo";
 import { logError } from "./errorLogger";
+import { getRunIdForTelegramMessage, trackDriveUploadResult } from "./pipelineRunTracker";
+import { getPipelineRun } from "../repositories/pipelineRunRepo";
+import { getVideoGenerator } from "./videoGenerators/generatorRegistry";
+import type { GenerationTransport } from "../types/channel";
 import type { TelegramClient } from "telegram";
 
 const SYNX_CHAT_ID = process.env.SYNX_CHAT_ID;
@@ -22,6 +30,11 @@ export interface DownloadAndUploadOptions {
   channelId: string;
   userId: string;
   telegramMessageId?: number;
+  videoMessageId?: number; // ID сообщения с видео, если его уже нашёл слушатель ответов SyntX
+  transport?: GenerationTransport; // генератор видео из задачи (по умолчанию — настройка канала)
+  externalGenerationId?: string; // ID генерации во внешнем API
+  resultUrl?: string; // адрес готового видео от внешнего API
+  variant?: { index: number; total: number }; // дополнительный вариант видео на тот же промпт
   videoTitle?: string; // сгенерированное название ролика
   prompt?: string; // текст промпта для fallback
   scheduleId?: string; // Для отслеживания автоматических загрузок
@@ -34,16 +47,101 @@ export interface DownloadAndUploadResult {
   driveWebContentLink?: string;
   fileName?: string;
   error?: string;
+  videoMessageId?: number; // ID скачанного видео-сообщения
+  variantMessageIds?: number[]; // все видео-ответы SyntX на промпт, если их несколько
 }
 
 /**
  * Скачивает видео из Telegram и загружает его в Google Drive
- * Используется как для ручной загрузки, так и для автоматической
+ * Используется как для ручной загрузки, так и для автоматической.
+ * Результат фиксируется в прогоне конвейера (этап drive_upload).
+ * Если SyntX прислал на промпт несколько видео, остальные варианты загружаются следом
+ * отдельными файлами с суффиксом _v{index}.
  */
 export async function downloadAndUploadVideoToDrive(
   options: DownloadAndUploadOptions
+): Promise<DownloadAndUploadResult> {
+  const startedAt = new Date().toISOString();
+  const result = await downloadAndUploadVideoToDriveInternal(options);
+  const variantMessageIds = result.variantMessageIds ?? [];
+  const variant =
+    options.variant ?? (variantMessageIds.length > 1 ? { index: 1, total: variantMessageIds.length } : undefined);
+
+  await trackDriveUploadResult({
+    userId: options.userId,
+    channelId: options.channelId,
+    telegramMessageId: options.telegramMessageId,
+    scheduleId: options.scheduleId,
+    startedAt,
+    variant,
+    result
+  });
+
+  if (result.success && !options.variant && variantMessageIds.length > 1) {
+    await uploadRemainingVariants(options, variantMessageIds);
+  }
+
+  return result;
+}
+
+/**
+ * Загружает варианты 2..N. Уже загруженные (по данным прогона) пропускаются,
+ * ошибка одного варианта не мешает остальным. Возвращает число неудачных вариантов.
+ * Вызывается и отдельно — для вариантов, которые SyntX прислал после загрузки основного видео.
+ */
+export async function uploadRemainingVariants(
+  options: DownloadAndUploadOptions,
+  variantMessageIds: number[]
+): Promise<number> {
+  let uploadedIndexes = new Set<number>();
+  if (options.telegramMessageId && isFirestoreAvailable()) {
+    try {
+      const run = await getPipelineRun(
+        options.userId,
+        options.channelId,
+        getRunIdForTelegramMessage(options.telegramMessageId)
+      );
+      uploadedIndexes = new Set((run?.variants ?? []).filter((v) => v.driveFileId).map((v) => v.index));
+    } catch (error) {
+      Logger.warn("downloadAndUploadVideoToDrive: failed to read variants from pipeline run", {
+        channelId: options.channelId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  let failed = 0;
+  for (let i = 1; i < variantMessageIds.length; i++) {
+    const index = i + 1;
+    if (uploadedIndexes.has(index)) {
+      continue;
+    }
+    const variantResult = await downloadAndUploadVideoToDrive({
+      ...options,
+      videoMessageId: variantMessageIds[i],
+      variant: { index, total: variantMessageIds.length }
+    });
+    Logger.info("downloadAndUploadVideoToDrive: video variant processed", {
+      channelId: options.channelId,
+      telegramMessageId: options.telegramMessageId,
+      variantIndex: index,
+      variantCount: variantMessageIds.length,
+      success: variantResult.success,
+      error: variantResult.error
+    });
+    if (!variantResult.success) {
+      failed++;
+    }
+  }
+  return failed;
+}
+
+async function downloadAndUploadVideoToDriveInternal(
+  options: DownloadAndUploadOptions
 ): Promise<DownloadAndUploadResult> {
   const { channelId, userId, telegramMessageId, videoTitle, prompt, scheduleId } = options;
+  let { videoMessageId, variant } = options;
+  const isExtraVariant = !!variant && variant.index > 1;
 
   // ДЕТАЛЬНОЕ ЛОГИРОВАНИЕ ДЛЯ ДИАГНОСТИКИ
   console.log("AUTO_TASK_START:", {
@@ -117,7 +215,7 @@ export async function downloadAndUploadVideoToDrive(
       googleDriveFolderId?: string;
       uploadNotificationEnabled?: boolean;
       uploadNotificationChatId?: string;
-      generationTransport?: "telegram_global" | "telegram_user";
+      generationTransport?: GenerationTransport;
       telegramSyntaxPeer?: string | null;
     };
     
@@ -143,8 +241,9 @@ export async function downloadAndUploadVideoToDrive(
       generationTransport: channelData.generationTransport || "telegram_global"
     });
     
-    // Определяем тип Telegram-клиента на основе настроек канала
-    const transport = channelData.generationTransport || "telegram_global";
+    // Определяем генератор: из задачи (канал могли перенастроить после отправки промпта) или из настроек канала
+    const transport = options.transport || channelData.generationTransport || "telegram_global";
+    const generator = getVideoGenerator(transport);
     Logger.info(`downloadAndUploadVideoToDrive ${mode}: определяем тип Telegram-клиента`, {
       mode,
       channelId,
@@ -156,7 +255,8 @@ export async function downloadAndUploadVideoToDrive(
     });
 
     // ПРОВЕРКА 1: Проверяем, не был ли уже загружен файл с таким telegramMessageId
-    if (telegramMessageId) {
+    // (дополнительные варианты проверяются по прогону в uploadRemainingVariants)
+    if (telegramMessageId && !isExtraVariant) {
       Logger.info("downloadAndUploadVideoToDrive: checking for existing upload by telegramMessageId", {
         channelId,
         userId,
@@ -340,7 +440,7 @@ export async function downloadAndUploadVideoToDrive(
         
         throw clientError;
       }
-    } else {
+    } else if (!generator.downloadResult) {
       // Используем глобальную сессию
       Logger.info("downloadAndUploadVideoToDrive: используем глобальную сессию", {
         channelId,
@@ -361,6 +461,30 @@ export async function downloadAndUploadVideoToDrive(
       });
     }
 
+    // Все видео-ответы на промпт: если их несколько, основным считается первый,
+    // остальные загружаются следом как варианты
+    let variantMessageIds: number[] = [];
+    if (telegramClient && telegramMessageId && !variant) {
+      try {
+        variantMessageIds = await listVideoRepliesToPrompt(telegramClient, SYNX_CHAT_ID, telegramMessageId);
+      } catch (listError) {
+        Logger.warn("downloadAndUploadVideoToDrive: failed to list SyntX video replies", {
+          channelId,
+          telegramMessageId,
+          error: listError instanceof Error ? listError.message : String(listError)
+        });
+      }
+      if (variantMessageIds.length > 1) {
+        videoMessageId = variantMessageIds[0];
+        variant = { index: 1, total: variantMessageIds.length };
+        Logger.info("downloadAndUploadVideoToDrive: SyntX sent several videos for the prompt", {
+          channelId,
+          telegramMessageId,
+          variantMessageIds
+        });
+      }
+    }
+
     try {
       // Шаг 1: Скачиваем видео во временную папку
       // ВАЖНО: При автоматическом скачивании telegramMessageId - это ID промпта (текстового сообщения),
@@ -393,11 +517,25 @@ export async function downloadAndUploadVideoToDrive(
 
       let downloadResult;
       try {
-        downloadResult = await downloadTelegramVideoToTemp(
-          telegramClient,
-          SYNX_CHAT_ID,
-          telegramMessageId // Передаём как маркер, не как конкретное сообщение
-        );
+        if (telegramClient) {
+          downloadResult = await downloadTelegramVideoToTemp(
+            telegramClient,
+            SYNX_CHAT_ID,
+            telegramMessageId, // Передаём как маркер, не как конкретное сообщение
+            { videoMessageId }
+          );
+        } else if (generator.downloadResult && telegramMessageId) {
+          // Внешний генератор: видео скачивается по ID генерации, а не из чата
+          downloadResult = await generator.downloadResult({
+            userId,
+            channelId,
+            messageId: telegramMessageId,
+            externalId: options.externalGenerationId,
+            resultUrl: options.resultUrl
+          });
+        } else {
+          throw new Error(`NO_VIDEO_FOUND: Не указана генерация для скачивания (${generator.label}).`);
+        }
         
         console.log("DOWNLOAD_SUCCESS:", {
           filePath: downloadResult.tempPath,
@@ -561,12 +699,13 @@ export async function downloadAndUploadVideoToDrive(
       });
 
       // Формируем имя файла для Google Drive используя общую функцию
-      const driveFileName = generateVideoFileName({
+      const baseFileName = generateVideoFileName({
         title: videoTitle,
         prompt: prompt,
         channelName: channelData.name,
         createdAt: new Date()
       });
+      const driveFileName = variant ? getVariantFileName(baseFileName, variant.index, variant.total) : baseFileName;
       
       Logger.info("Generated video file name for Google Drive", {
         channelId,
@@ -936,7 +1075,8 @@ export async function downloadAndUploadVideoToDrive(
 
           // Обновляем videoGenerations, если есть запись с таким messageId
           // ВАЖНО: Обновляем uploadedToDrive и driveFileId для идемпотентности
-          if (telegramMessageId) {
+          // (запись описывает основной ролик — дополнительные варианты её не трогают)
+          if (telegramMessageId && !isExtraVariant) {
             const generationQuery = await channelRef
               .collection("videoGenerations")
               .where("messageId", "==", telegramMessageId)
@@ -1074,7 +1214,9 @@ export async function downloadAndUploadVideoToDrive(
           driveFileId: driveResult.fileId,
           driveWebViewLink: driveResult.webViewLink,
           driveWebContentLink: driveResult.webContentLink,
-          fileName: driveFileName
+          fileName: driveFileName,
+          videoMessageId: downloadResult.messageId,
+          variantMessageIds: variantMessageIds.length > 1 ? variantMessageIds : undefined
         };
       } catch (uploadError: any) {
         // Обработка ошибок загрузки в Google Drive
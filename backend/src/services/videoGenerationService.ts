@@ -1,5 +1,8 @@
-import { sendPromptToSyntax, type TelegramMessageInfo } from "./sendPromptFromUserToSyntx";
+import { getVideoGenerator } from "./videoGenerators/generatorRegistry";
+import type { VideoGenerationSubmission } from "./videoGenerators/types";
+import type { GenerationTransport } from "../types/channel";
 import { scheduleAutoDownload } from "./scheduledTasks";
+import { trackPromptSent } from "./pipelineRunTracker";
 import { Logger } from "../utils/logger";
 import { db, isFirestoreAvailable } from "./firebaseAdmin";
 import { getAutoDownloadDelayMinutesForChannel } from "./autoSendScheduler";
@@ -18,6 +21,7 @@ export interface VideoGenerationResult {
   success: boolean;
   messageId: number;
   chatId: string;
+  externalGenerationId?: string; // ID генерации во внешнем API (для генераторов не из Telegram)
   jobId?: string; // ID запланированной задачи скачивания
   error?: string;
 }
@@ -120,7 +124,7 @@ export async function runVideoGenerationForChannel(
       autoDownloadToDriveEnabled?: boolean;
       googleDriveFolderId?: string;
       autoDownloadDelayMinutes?: number;
-      generationTransport?: "telegram_global" | "telegram_user";
+      generationTransport?: GenerationTransport;
       telegramSyntaxPeer?: string | null;
     };
 
@@ -128,7 +132,8 @@ export async function runVideoGenerationForChannel(
       id: channelId,
       generationTransport: channelData.generationTransport || "telegram_global",
       telegramSyntaxPeer: channelData.telegramSyntaxPeer || null
-    } as { id: string; generationTransport?: "telegram_global" | "telegram_user"; telegramSyntaxPeer?: string | null };
+    };
+    const generator = getVideoGenerator(channel.generationTransport);
 
     Logger.info("runVideoGenerationForChannel: channel validated", {
       channelId,
@@ -138,8 +143,8 @@ export async function runVideoGenerationForChannel(
       transport: channel.generationTransport
     });
 
-    // Шаг 1: Отправляем промпт в Syntx
-    Logger.info("runVideoGenerationForChannel: sending prompt to Syntx", {
+    // Шаг 1: Отправляем промпт генератору канала (по умолчанию — SyntX в Telegram)
+    Logger.info("runVideoGenerationForChannel: sending prompt to generator", {
       channelId,
       userId,
       source,
@@ -147,13 +152,12 @@ export async function runVideoGenerationForChannel(
       transport: channel.generationTransport
     });
 
-    let messageInfo: TelegramMessageInfo;
+    let messageInfo: VideoGenerationSubmission;
     try {
-      // Используем новую функцию, которая учитывает настройки канала
-      messageInfo = await sendPromptToSyntax(channel, userId, prompt.trim());
+      messageInfo = await generator.submit({ userId, channel, prompt: prompt.trim() });
     } catch (sendError: any) {
       const errorMessage = sendError?.message || String(sendError);
-      Logger.error("runVideoGenerationForChannel: failed to send prompt to Syntx", {
+      Logger.error("runVideoGenerationForChannel: failed to send prompt to generator", {
         channelId,
         userId,
         source,
@@ -182,20 +186,39 @@ export async function runVideoGenerationForChannel(
         };
       }
 
+      if (!generator.downloadResult) {
+        return {
+          success: false,
+          messageId: 0,
+          chatId: "",
+          error: `Не удалось отправить промпт в Syntx: ${errorMessage}`
+        };
+      }
+
       return {
         success: false,
         messageId: 0,
         chatId: "",
-        error: `Не удалось отправить промпт в Syntx: ${errorMessage}`
+        error: `Не удалось запустить генерацию (${generator.label}): ${errorMessage}`
       };
     }
 
-    Logger.info("runVideoGenerationForChannel: prompt sent to Syntx successfully", {
+    Logger.info("runVideoGenerationForChannel: prompt sent to generator successfully", {
       channelId,
       userId,
       source,
+      transport: channel.generationTransport,
       messageId: messageInfo.messageId,
-      chatId: messageInfo.chatId
+      chatId: messageInfo.chatId,
+      externalId: messageInfo.externalId || undefined
+    });
+
+    await trackPromptSent({
+      userId,
+      channelId,
+      telegramMessageId: messageInfo.messageId,
+      telegramChatId: messageInfo.chatId,
+      videoTitle: title
     });
 
     // Шаг 2: Если включено автоматическое скачивание, планируем задачу
@@ -231,15 +254,17 @@ export async function runVideoGenerationForChannel(
       });
 
       try {
-        jobId = scheduleAutoDownload({
+        jobId = await scheduleAutoDownload({
           channelId,
           scheduleId: source === "schedule" ? `schedule_${Date.now()}` : `custom_${Date.now()}`,
           userId,
           telegramMessageInfo: {
             messageId: messageInfo.messageId,
-            chatId: messageInfo.chatId
+            chatId: messageInfo.chatId,
+            externalGenerationId: messageInfo.externalId || undefined
           },
           delayMinutes,
+          transport: channel.generationTransport,
           videoTitle: title,
           prompt: prompt.trim()
         });
@@ -249,7 +274,7 @@ export async function runVideoGenerationForChannel(
           userId,
           source,
           jobId,
-          willRunInMinutes: validDelay
+          willRunInMinutes: delayMinutes
         });
       } catch (scheduleError: any) {
         Logger.error("runVideoGenerationForChannel: failed to schedule auto-download", {
@@ -279,6 +304,8 @@ export async function runVideoGenerationForChannel(
         title: title || null,
         messageId: messageInfo.messageId,
         chatId: messageInfo.chatId,
+        transport: channel.generationTransport,
+        externalGenerationId: messageInfo.externalId || null,
         status: "queued",
         createdAt: new Date(),
         scheduledDownloadJobId: jobId || null
@@ -304,6 +331,7 @@ export async function runVideoGenerationForChannel(
       success: true,
       messageId: messageInfo.messageId,
       chatId: messageInfo.chatId,
+      externalGenerationId: messageInfo.externalId || undefined,
       jobId
     };
   } catch (error: any) {
@@ -0,0 +1,47 @@
+import type { GenerationTransport } from "../../types/channel";
+import { createHttpApiGenerator } from "./httpApiGenerator";
+import { createStubGenerator } from "./stubGenerator";
+import { createTelegramGenerator } from "./telegramGenerator";
+import { GENERATION_TRANSPORTS, type VideoGenerator } from "./types";
+
+/**
+ * Генераторы собираются из переменных окружения при каждом обращении,
+ * чтобы изменения конфигурации (и тестовые переменные) подхватывались без перезапуска модуля
+ */
+function buildGenerators(): Record<GenerationTransport, VideoGenerator> {
+  return {
+    telegram_global: createTelegramGenerator({ transport: "telegram_global", label: "SyntX (общий аккаунт)" }),
+    telegram_user: createTelegramGenerator({ transport: "telegram_user", label: "SyntX (личный Telegram)" }),
+    http_api: createHttpApiGenerator({
+      baseUrl: process.env.VIDEO_API_BASE_URL || "",
+      apiKey: process.env.VIDEO_API_KEY,
+      mode: process.env.VIDEO_API_MODE === "callback" ? "callback" : "polling",
+      callbackUrl: process.env.VIDEO_API_CALLBACK_URL,
+      callbackSecret: process.env.VIDEO_API_CALLBACK_SECRET
+    }),
+    stub: createStubGenerator({
+      enabled: process.env.VIDEO_STUB_GENERATOR_ENABLED === "true",
+      samplePath: process.env.VIDEO_STUB_SAMPLE_PATH || undefined
+    })
+  };
+}
+
+export function isGenerationTransport(value: unknown): value is GenerationTransport {
+  return typeof value === "string" && (GENERATION_TRANSPORTS as string[]).includes(value);
+}
+
+/**
+ * Генератор канала. Без явной настройки используется SyntX через общий аккаунт.
+ */
+export function getVideoGenerator(transport?: GenerationTransport | null): VideoGenerator {
+  return buildGenerators()[transport && isGenerationTransport(transport) ? transport : "telegram_global"];
+}
+
+export function listVideoGenerators(): Array<{ transport: GenerationTransport; label: string; configured: boolean }> {
+  const generators = buildGenerators();
+  return GENERATION_TRANSPORTS.map((transport) => ({
+    transport,
+    label: generators[transport].label,
+    configured: generators[transport].isConfigured()
+  }));
+}
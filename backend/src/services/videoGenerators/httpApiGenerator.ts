@@ -0,0 +1,152 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import { createTempVideoPath } from "../../utils/telegramDownload";
+import type { VideoGenerator } from "./types";
+
+export interface HttpApiGeneratorConfig {
+  baseUrl: string;
+  apiKey?: string;
+  mode: "polling" | "callback";
+  callbackUrl?: string; // публичный адрес POST /api/video-generators/http/callback
+  callbackSecret?: string; // ключ подписи токена в адресе callback
+}
+
+export type HttpGenerationStatus =
+  | { status: "pending" }
+  | { status: "completed"; videoUrl: string }
+  | { status: "failed"; error: string };
+
+export interface HttpCallbackTarget {
+  userId: string;
+  channelId: string;
+  messageId: number;
+}
+
+const API_TIMEOUT_MS = 30 * 1000;
+const VIDEO_DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000; // ролик может быть в десятки мегабайт
+
+const COMPLETED_STATUSES = ["completed", "succeeded", "success", "done", "ready"];
+const FAILED_STATUSES = ["failed", "error", "cancelled", "canceled", "rejected"];
+
+/**
+ * Разбирает ответ API о статусе генерации: { status, videoUrl | video_url | url, error }.
+ * Неизвестные статусы и готовый статус без ссылки на видео считаются незавершёнными.
+ */
+export function parseHttpGenerationStatus(data: unknown): HttpGenerationStatus {
+  const body = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const status = String(body.status ?? "").toLowerCase();
+  const videoUrl = [body.videoUrl, body.video_url, body.url].find(
+    (value): value is string => typeof value === "string" && value.length > 0
+  );
+
+  if (FAILED_STATUSES.includes(status)) {
+    return { status: "failed", error: typeof body.error === "string" && body.error ? body.error : status };
+  }
+  if (videoUrl && (COMPLETED_STATUSES.includes(status) || !status)) {
+    return { status: "completed", videoUrl };
+  }
+  return { status: "pending" };
+}
+
+/**
+ * Токен для адреса callback: подтверждает, что запрос относится к этой генерации
+ */
+export function signHttpCallbackToken(target: HttpCallbackTarget, secret: string): string {
+  return createHmac("sha256", secret)
+    .update(`${target.userId}:${target.channelId}:${target.messageId}`)
+    .digest("hex");
+}
+
+export function verifyHttpCallbackToken(target: HttpCallbackTarget, token: string, secret: string): boolean {
+  const expected = Buffer.from(signHttpCallbackToken(target, secret));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function buildCallbackUrl(config: HttpApiGeneratorConfig, target: HttpCallbackTarget): string | null {
+  if (config.mode !== "callback" || !config.callbackUrl || !config.callbackSecret) {
+    return null;
+  }
+  const url = new URL(config.callbackUrl);
+  url.searchParams.set("userId", target.userId);
+  url.searchParams.set("channelId", target.channelId);
+  url.searchParams.set("messageId", String(target.messageId));
+  url.searchParams.set("token", signHttpCallbackToken(target, config.callbackSecret));
+  return url.toString();
+}
+
+/**
+ * Внешний HTTP API генерации видео.
+ * POST {baseUrl}/generations { prompt, callbackUrl? } → { id }
+ * GET  {baseUrl}/generations/{id} → { status, videoUrl?, error? }
+ * В режиме callback сервис сам присылает результат на callbackUrl, статус опрашивается только как запасной вариант.
+ */
+export function createHttpApiGenerator(config: HttpApiGeneratorConfig): VideoGenerator {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const headers = (): Record<string, string> => ({
+    "Content-Type": "application/json",
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+  });
+
+  return {
+    transport: "http_api",
+    label: "HTTP API",
+    isConfigured: () => Boolean(baseUrl),
+
+    async submit({ userId, channel, prompt }) {
+      if (!baseUrl) {
+        throw new Error("VIDEO_API_NOT_CONFIGURED: VIDEO_API_BASE_URL не задан");
+      }
+      const messageId = Date.now();
+      const callbackUrl = buildCallbackUrl(config, { userId, channelId: channel.id, messageId });
+
+      const response = await fetch(`${baseUrl}/generations`, {
+        method: "POST",
+        headers: headers(),
+        body: JSON.stringify(callbackUrl ? { prompt, callbackUrl } : { prompt }),
+        signal: AbortSignal.timeout(API_TIMEOUT_MS)
+      });
+      const data = (await response.json().catch(() => ({}))) as any;
+      if (!response.ok) {
+        throw new Error(`VIDEO_API_ERROR: ${data?.error || data?.message || `HTTP ${response.status}`}`);
+      }
+      const externalId = data?.id ?? data?.generationId;
+      if (!externalId) {
+        throw new Error("VIDEO_API_ERROR: API не вернул id генерации");
+      }
+      return { messageId, chatId: "http_api", externalId: String(externalId) };
+    },
+
+    async downloadResult({ messageId, externalId, resultUrl }) {
+      let videoUrl = resultUrl || null;
+      if (!videoUrl) {
+        if (!externalId) {
+          throw new Error("VIDEO_GENERATION_FAILED: неизвестен id генерации во внешнем API");
+        }
+        const response = await fetch(`${baseUrl}/generations/${encodeURIComponent(externalId)}`, {
+          headers: headers(),
+          signal: AbortSignal.timeout(API_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+          throw new Error(`VIDEO_API_ERROR: статус генерации недоступен (HTTP ${response.status})`);
+        }
+        const status = parseHttpGenerationStatus(await response.json().catch(() => ({})));
+        if (status.status === "failed") {
+          throw new Error(`VIDEO_GENERATION_FAILED: ${status.error}`);
+        }
+        if (status.status === "pending") {
+          throw new Error(`NO_VIDEO_FOUND: Генерация ${externalId} ещё не завершена.`);
+        }
+        videoUrl = status.videoUrl;
+      }
+
+      const videoResponse = await fetch(videoUrl, { signal: AbortSignal.timeout(VIDEO_DOWNLOAD_TIMEOUT_MS) });
+      if (!videoResponse.ok) {
+        throw new Error(`VIDEO_API_ERROR: не удалось скачать видео (HTTP ${videoResponse.status})`);
+      }
+      const tempPath = await createTempVideoPath(".mp4");
+      await fs.writeFile(tempPath, Buffer.from(await videoResponse.arrayBuffer()));
+      return { tempPath, fileName: `${externalId || messageId}.mp4`, messageId };
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from "fs";
+import { createTempVideoPath } from "../../utils/telegramDownload";
+import type { VideoGenerator } from "./types";
+
+// Минимальный MP4 (только ftyp-бокс): не воспроизводится, но проходит загрузку в Drive и публикацию в тестовых окружениях
+const BUILTIN_SAMPLE_MP4 = Buffer.from("000000186674797069736f6d0000020069736f6d6d703431", "hex");
+
+/**
+ * Локальная заглушка без сети: сразу «генерирует» образец MP4.
+ * Файл берётся из samplePath (VIDEO_STUB_SAMPLE_PATH), иначе используется встроенный.
+ * Доступна пользователям только при VIDEO_STUB_GENERATOR_ENABLED=true.
+ */
+export function createStubGenerator(options: { enabled: boolean; samplePath?: string }): VideoGenerator {
+  return {
+    transport: "stub",
+    label: "Заглушка (тестовая)",
+    isConfigured: () => options.enabled,
+    async submit() {
+      return { messageId: Date.now(), chatId: "stub" };
+    },
+    async downloadResult({ messageId }) {
+      const tempPath = await createTempVideoPath(".mp4");
+      if (options.samplePath) {
+        await fs.copyFile(options.samplePath, tempPath);
+      } else {
+        await fs.writeFile(tempPath, BUILTIN_SAMPLE_MP4);
+      }
+      return { tempPath, fileName: `stub_${messageId}.mp4`, messageId };
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { sendPromptToSyntax } from "../sendPromptFromUserToSyntx";
+import type { VideoGenerator } from "./types";
+
+/**
+ * Бот SyntX в Telegram: промпт отправляется через глобальную сессию или личный аккаунт пользователя
+ */
+export function createTelegramGenerator(options: {
+  transport: "telegram_global" | "telegram_user";
+  label: string;
+}): VideoGenerator {
+  return {
+    transport: options.transport,
+    label: options.label,
+    isConfigured: () => true,
+    async submit({ userId, channel, prompt }) {
+      const messageInfo = await sendPromptToSyntax(
+        { generationTransport: options.transport, telegramSyntaxPeer: channel.telegramSyntaxPeer },
+        userId,
+        prompt
+      );
+      return { messageId: messageInfo.messageId, chatId: messageInfo.chatId };
+    }
+  };
+}
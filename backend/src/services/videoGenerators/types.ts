@@ -0,0 +1,49 @@
+import type { Channel, GenerationTransport } from "../../types/channel";
+
+export const GENERATION_TRANSPORTS: GenerationTransport[] = ["telegram_global", "telegram_user", "http_api", "stub"];
+
+export type VideoGeneratorChannel = Pick<Channel, "id" | "generationTransport" | "telegramSyntaxPeer">;
+
+export interface VideoGenerationRequest {
+  userId: string;
+  channel: VideoGeneratorChannel;
+  prompt: string;
+}
+
+/**
+ * Принятая генерация.
+ * messageId — ID генерации в конвейере: для Telegram это ID сообщения с промптом,
+ * для остальных генераторов — числовой ID, выданный при отправке (по нему работают дедупликация и прогоны).
+ */
+export interface VideoGenerationSubmission {
+  messageId: number;
+  chatId: string;
+  externalId?: string | null; // ID генерации во внешнем сервисе
+}
+
+export interface GeneratedVideoRequest {
+  userId: string;
+  channelId: string;
+  messageId: number;
+  externalId?: string | null;
+  resultUrl?: string | null; // адрес готового видео, если его уже прислал callback
+}
+
+export interface GeneratedVideoFile {
+  tempPath: string;
+  fileName: string;
+  messageId: number;
+}
+
+export interface VideoGenerator {
+  transport: GenerationTransport;
+  label: string;
+  isConfigured(): boolean;
+  submit(request: VideoGenerationRequest): Promise<VideoGenerationSubmission>;
+  /**
+   * Скачивает готовое видео во временный файл.
+   * Если видео ещё не готово, бросает ошибку с префиксом NO_VIDEO_FOUND — задача скачивания повторится.
+   * У Telegram-генераторов метода нет: видео приходит ответом бота и скачивается из чата.
+   */
+  downloadResult?(request: GeneratedVideoRequest): Promise<GeneratedVideoFile>;
+}
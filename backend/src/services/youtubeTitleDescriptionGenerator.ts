@@ -1,9 +1,7 @@
 import { Logger } from "../utils/logger";
 import type { Channel } from "../types/channel";
 import { normalizeYoutubeTitle, MAX_YOUTUBE_TITLE_LENGTH } from "../utils/youtubeTitleNormalizer";
-
-const OPENAI_API_URL = process.env.OPENAI_API_URL || "https://api.openai.com/v1/chat/completions";
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
+import { chatCompletion } from "./llm/llmClient";
 
 /**
  * Названия языков для промптов
@@ -73,11 +71,13 @@ function getChannelLanguage(channel?: Channel): Channel["language"] {
  * 
  * @param fileName - Название видеофайла
  * @param channel - Канал с настройками (обязательно должно быть поле language)
+ * @param userId - Владелец канала: нужен для выбора LLM-провайдера из настроек пользователя
  * @returns Объект с title (до 55 символов для безопасной публикации) и description (до 70 символов)
  */
 export async function generateYoutubeTitleAndDescription(
   fileName: string,
-  channel?: Channel
+  channel?: Channel,
+  userId?: string
 ): Promise<{ title: string; description: string }> {
   const lang = getChannelLanguage(channel);
   const languageName = LANGUAGE_NAMES[lang];
@@ -91,49 +91,32 @@ export async function generateYoutubeTitleAndDescription(
       channelId: channel?.id
     });
 
-    const requestBody = {
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: prompt.system
-        },
-        {
-          role: "user",
-          content: prompt.user(fileName)
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 150
-    };
-
-    // Используем прокси OpenAI API если настроен
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY not configured");
-    }
-
-    const response = await fetch(OPENAI_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
+    const result = await chatCompletion(
+      {
+        messages: [
+          {
+            role: "system",
+            content: prompt.system
+          },
+          {
+            role: "user",
+            content: prompt.user(fileName)
+          }
+        ],
+        temperature: 0.7,
+        maxTokens: 150
       },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `OpenAI API error: ${response.status} ${errorData?.error?.message || response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-    const generatedText = data.choices?.[0]?.message?.content?.trim();
+      {
+        purpose: "youtube_title",
+        userId,
+        channelId: channel?.id,
+        channelSelection: channel?.llmProvider ?? null
+      }
+    );
+    const generatedText = result.content.trim();
 
     if (!generatedText) {
-      throw new Error("OpenAI returned empty response");
+      throw new Error("LLM returned empty response");
     }
 
     // Обрезаем до 70 символов если превышает (для description)
@@ -184,9 +167,10 @@ export async function generateYoutubeTitleAndDescription(
  */
 export async function generateVideoDescription(
   fileName: string,
-  channel?: Channel
+  channel?: Channel,
+  userId?: string
 ): Promise<string> {
-  const { description } = await generateYoutubeTitleAndDescription(fileName, channel);
+  const { description } = await generateYoutubeTitleAndDescription(fileName, channel, userId);
   return description;
 }
 
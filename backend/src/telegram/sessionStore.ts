@@ -49,13 +49,8 @@ export function exportSessionForEnv(): string | null {
     return null;
   }
   
-  // Возвращаем зашифрованную версию (та же, что в файле)
-  if (fs.existsSync(SESSION_FILE)) {
-    return fs.readFileSync(SESSION_FILE, { encoding: "utf8" });
-  }
-  
-  // Если файла нет, но есть env переменная, возвращаем её
-  return process.env.TELEGRAM_SESSION_ENCRYPTED || null;
+  // Шифруем заново активным ключом: после ротации CRYPTO_KEYS значение в env тоже обновляется
+  return encrypt(session);
 }
 
 
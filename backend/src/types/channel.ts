@@ -1,3 +1,11 @@
+import type { ScheduleRule } from "../utils/scheduleRules";
+import type { MissedRunPolicy } from "../utils/missedRunPolicy";
+import type { BlackoutPeriod } from "../utils/blackoutPeriods";
+import type { PublishSchedule } from "../utils/publishSchedule";
+import type { PostTemplates } from "../utils/postTemplates";
+import type { LlmProviderSelection } from "../services/llm/types";
+import type { SecretKind } from "./secret";
+
 // Типы Channel для backend (совместимы с frontend)
 export type SupportedPlatform =
   | "YOUTUBE_SHORTS"
@@ -9,7 +17,19 @@ export type SupportedLanguage = "ru" | "en" | "kk";
 
 export type GenerationMode = "script" | "prompt" | "video-prompt-only";
 
-export type GenerationTransport = "telegram_global" | "telegram_user";
+/**
+ * Генератор видео канала:
+ * telegram_global / telegram_user — бот SyntX через общий или личный Telegram-аккаунт,
+ * http_api — внешний HTTP API генерации, stub — локальная заглушка для разработки
+ */
+export type GenerationTransport = "telegram_global" | "telegram_user" | "http_api" | "stub";
+
+/**
+ * Способ публикации на платформу:
+ * blotato — через Blotato, youtube_api — напрямую через YouTube Data API (Google OAuth владельца),
+ * webhook — POST на адрес канала, fake — тестовый публикатор без сети
+ */
+export type PublisherName = "blotato" | "youtube_api" | "webhook" | "fake";
 
 export type PreferencesMode = "cyclic" | "random" | "fixed";
 
@@ -25,6 +45,42 @@ export interface ChannelPreferences {
   lastUsedIndex?: number;
 }
 
+/**
+ * Набор хештегов библиотеки канала. platforms — на каких платформах используется (пусто — на всех).
+ */
+export interface HashtagSet {
+  id: string;
+  name: string;
+  tags: string[];
+  platforms?: string[] | null;
+}
+
+/**
+ * Библиотека хештегов канала: наборы выбираются по режиму (как варианты пожеланий)
+ * и дописываются к подписи каждой платформы при публикации
+ */
+export interface HashtagLibrary {
+  sets: HashtagSet[];
+  mode: PreferencesMode;
+  lastUsedIndex?: number;
+  bannedHashtags?: string[] | null; // удаляются и из наборов, и из сгенерированных подписей
+  maxPerPost?: number | null;
+}
+
+/**
+ * Ограничения канала для оптимизатора расписания: окна "HH:MM"–"HH:MM", в которых можно ставить слоты
+ * (окно может переходить через полночь), и закреплённые времена, которые оптимизатор не переносит
+ */
+export interface ScheduleTimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface ChannelScheduleConstraints {
+  allowedWindows?: ScheduleTimeWindow[] | null;
+  lockedTimes?: string[] | null;
+}
+
 export interface ChannelAutoSendSchedule {
   id: string;
   enabled: boolean;
@@ -32,6 +88,9 @@ export interface ChannelAutoSendSchedule {
   time: string;
   promptsPerRun: number;
   lastRunAt?: string | null;
+  rule?: ScheduleRule | null; // cron / интервал / даты вместо daysOfWeek + time
+  validFrom?: string | null; // "YYYY-MM-DD" в часовом поясе канала
+  validUntil?: string | null;
 }
 
 export interface Channel {
@@ -46,15 +105,21 @@ export interface Channel {
   blockedTopics: string;
   extraNotes?: string;
   generationMode?: GenerationMode;
-  generationTransport?: GenerationTransport; // Источник отправки промптов: telegram_global или telegram_user
+  generationTransport?: GenerationTransport; // Генератор видео: telegram_global, telegram_user, http_api или stub
   telegramSyntaxPeer?: string | null; // Username или ID чата Syntax (например @SyntaxAI)
   preferences?: ChannelPreferences;
   autoSendSchedule?: ChannelAutoSendSchedule[];
+  missedRunPolicy?: MissedRunPolicy | null; // что делать со слотами, пропущенными из-за простоя планировщика
+  timezone?: string; // IANA-таймзона канала, например "Asia/Almaty"
+  blackoutPeriods?: BlackoutPeriod[] | null; // дни без автоматизации для этого канала
+  scheduleConstraints?: ChannelScheduleConstraints | null; // окна и закреплённые слоты для оптимизатора расписания
+  llmProvider?: LlmProviderSelection | null; // LLM для генерации текстов канала; null — настройка пользователя
   googleDriveFolderId?: string;
   driveInputFolderId?: string;
   driveArchiveFolderId?: string;
   blotataEnabled?: boolean;
-  blotataApiKey?: string;
+  blotataApiKey?: string; // устаревшее: открытый ключ до переноса в хранилище секретов (services/secretVault.ts)
+  secretMasks?: Partial<Record<SecretKind, string>>; // маски секретов канала, пишет только backend
   blotataYoutubeId?: string;
   blotataTiktokId?: string;
   blotataInstagramId?: string;
@@ -66,6 +131,11 @@ export interface Channel {
   blotataPinterestId?: string;
   blotataPinterestBoardId?: string;
   blotataBlueskyId?: string;
+  platformPublishers?: Partial<Record<string, PublisherName>> | null; // платформа → публикатор, по умолчанию blotato
+  publishWebhookUrl?: string | null; // адрес для публикатора webhook
+  publishSchedule?: PublishSchedule | null; // слоты публикации отдельно от генерации; null — публиковать сразу
+  postTemplates?: PostTemplates | null; // шаблоны подписей, заголовков и хештегов по платформам
+  hashtagLibrary?: HashtagLibrary | null; // наборы хештегов с ротацией
   createdAt?: any;
   updatedAt?: any;
 }
@@ -0,0 +1,15 @@
+import type { ChannelCopyPart } from "../utils/channelCopy";
+
+/**
+ * Шаблон канала: выбранные части настроек существующего канала, с которых мастер начинает новый канал.
+ * Хранится в users/{uid}/channelTemplates/{templateId}
+ */
+export interface ChannelTemplate {
+  id: string;
+  name: string;
+  parts: ChannelCopyPart[];
+  sourceChannelId: string;
+  sourceChannelName: string;
+  settings: Record<string, any>; // поля канала из pickChannelParts
+  createdAt: string;
+}
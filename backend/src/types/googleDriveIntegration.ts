@@ -10,6 +10,7 @@ export interface GoogleDriveIntegration {
   status: GoogleDriveIntegrationStatus;
   lastError?: string | null;
   scopesVersion?: number; // Версия scopes, использованных при авторизации
+  youtubeUploadGranted?: boolean; // пользователь выдал scope youtube.upload (нужен только публикатору youtube_api)
   createdAt: Date;
   updatedAt: Date;
 }
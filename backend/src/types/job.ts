@@ -0,0 +1,93 @@
+import type { GenerationTransport } from "./channel";
+
+/**
+ * Типы фоновых задач, которые выполняет воркер очереди
+ */
+export type JobType = "telegram_auto_download" | "auto_send_slot";
+
+/**
+ * Жизненный цикл задачи:
+ * pending   → ждёт наступления availableAt
+ * running   → захвачена воркером (lease до availableAt)
+ * completed → выполнена успешно
+ * dead      → исчерпаны попытки или ошибка неисправима (dead-letter)
+ * cancelled → отменена до выполнения
+ */
+export type JobStatus = "pending" | "running" | "completed" | "dead" | "cancelled";
+
+/**
+ * Payload задачи автоскачивания видео из Telegram в Google Drive
+ */
+export interface AutoDownloadJobPayload {
+  channelId: string;
+  scheduleId: string;
+  userId: string;
+  telegramMessageId: number;
+  chatId: string;
+  videoTitle?: string;
+  prompt?: string;
+  videoMessageId?: number; // ID видео-ответа SyntX, если его уже поймал слушатель
+  // Все видео-ответы на промпт, пойманные слушателем: задача с этим полем только догружает
+  // варианты, пришедшие после основного видео
+  variantMessageIds?: number[];
+  replyDeadline?: string; // ISO: после этого момента отсутствие видео — окончательная ошибка
+  transport?: GenerationTransport; // генератор видео (без значения — SyntX в Telegram)
+  externalGenerationId?: string; // ID генерации во внешнем API (http_api)
+  resultUrl?: string; // адрес готового видео, присланный callback внешнего API
+}
+
+/**
+ * Payload отложенного запуска слота расписания: слот сработал, пока сессия SyntX
+ * ещё не выдержала минимальный интервал после предыдущей отправки
+ */
+export interface AutoSendSlotJobPayload {
+  channelId: string;
+  userId: string;
+  scheduleId: string;
+  slotTime: string; // "HH:MM" в часовом поясе канала
+  slotAt?: string; // момент слота (ISO, UTC)
+  promptNumber?: number; // номер промпта в слоте (с 1); у каждого промпта своё окно отправки
+}
+
+export interface JobPayloadMap {
+  telegram_auto_download: AutoDownloadJobPayload;
+  auto_send_slot: AutoSendSlotJobPayload;
+}
+
+/**
+ * Модель задачи в хранилище очереди.
+ * Все даты хранятся как ISO-строки в UTC, чтобы их можно было сравнивать в запросах.
+ */
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloadMap[T];
+  status: JobStatus;
+  userId?: string;
+  channelId?: string;
+  dedupeKey?: string | null; // Ключ дедупликации: одна активная задача на ключ
+  attempts: number; // Сколько раз задача уже запускалась
+  maxAttempts: number;
+  runAt: string; // Изначально запланированное время выполнения
+  // Когда задачу можно захватить: для pending — время следующей попытки,
+  // для running — момент истечения lease (после него задачу может забрать другой воркер)
+  availableAt: string;
+  leaseOwner?: string | null;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+}
+
+/**
+ * Параметры постановки задачи в очередь
+ */
+export interface EnqueueJobOptions<T extends JobType = JobType> {
+  type: T;
+  payload: JobPayloadMap[T];
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+  userId?: string;
+  channelId?: string;
+}
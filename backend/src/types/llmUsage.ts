@@ -0,0 +1,45 @@
+import type { LlmProviderName } from "../services/llm/types";
+
+/**
+ * Один успешный вызов LLM (users/{uid}/llmUsage/{id})
+ */
+export interface LlmUsageRecord {
+  id: string;
+  purpose: string; // "script_generation", "suggest_niche", "field_help", "youtube_title", ...
+  provider: LlmProviderName;
+  model: string;
+  channelId: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number; // оценка по прайсу модели, 0 — цена модели неизвестна или провайдер бесплатный
+  createdAt: string; // ISO
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Сводка за день ("2026-10-19") или месяц ("2026-10") по UTC
+ * (users/{uid}/llmUsageStats/{day_YYYY-MM-DD | month_YYYY-MM})
+ */
+export interface LlmUsagePeriod extends LlmUsageTotals {
+  period: string;
+  channels: Record<string, LlmUsageTotals>; // по channelId, вызовы без канала — под ключом "none"
+  models: Record<string, LlmUsageTotals>; // по "provider/model"
+}
+
+/**
+ * Лимиты расхода LLM. null/отсутствие — без ограничения.
+ */
+export interface LlmQuota {
+  dailyTokens?: number | null;
+  monthlyTokens?: number | null;
+  dailyCostUsd?: number | null;
+  monthlyCostUsd?: number | null;
+}
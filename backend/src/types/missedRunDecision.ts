@@ -0,0 +1,18 @@
+import type { MissedRunDecisionType, MissedRunPolicyMode } from "../utils/missedRunPolicy";
+
+/**
+ * Решение по слоту расписания, пропущенному из-за простоя планировщика.
+ * Хранится в users/{uid}/channels/{channelId}/missedRuns/{scheduleId}_{slotAt}
+ */
+export interface MissedRunDecision {
+  id: string;
+  scheduleId: string;
+  slotAt: string; // ISO-дата запланированного запуска (UTC)
+  localDate: string; // "YYYY-MM-DD" в часовом поясе канала
+  time: string; // "HH:MM" в часовом поясе канала
+  policy: MissedRunPolicyMode;
+  decision: MissedRunDecisionType;
+  lateByMinutes: number; // на сколько минут опоздал планировщик на момент решения
+  error?: string | null; // ошибка догоняющего запуска, если он не удался
+  decidedAt: string;
+}
@@ -0,0 +1,109 @@
+import type { PublisherName } from "./channel";
+
+/**
+ * Этапы конвейера публикации одного ролика:
+ * prompt_sent  → промпт отправлен в SyntX (Telegram)
+ * drive_upload → видео скачано из Telegram и загружено в Google Drive
+ * publish      → видео опубликовано (Blotato или другой публикатор канала)
+ * archive      → файл перемещён в архивную папку Drive
+ */
+export type PipelineStageName = "prompt_sent" | "drive_upload" | "publish" | "archive";
+
+export const PIPELINE_STAGE_ORDER: PipelineStageName[] = ["prompt_sent", "drive_upload", "publish", "archive"];
+
+export type PipelineStageStatus = "pending" | "success" | "failed" | "skipped";
+
+/**
+ * Состояние отдельного этапа
+ */
+export interface PipelineStageState {
+  status: PipelineStageStatus;
+  scheduledFor?: string | null; // ISO-дата, на которую запланирован этап (например, автоскачивание)
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  error?: string | null;
+  link?: string | null; // Ссылка на результат этапа (Drive, пост и т.д.)
+}
+
+/**
+ * Итоговый статус прогона:
+ * in_progress — есть незавершённые этапы
+ * completed   — все начатые этапы успешны
+ * partial     — публикация прошла не на всех платформах
+ * failed      — один из этапов завершился ошибкой
+ */
+export type PipelineRunStatus = "in_progress" | "completed" | "partial" | "failed";
+
+/**
+ * Результат публикации на одной платформе
+ */
+export interface PipelinePublication {
+  platform: string;
+  success: boolean;
+  postId?: string | null;
+  postUrl?: string | null;
+  error?: string | null;
+  variantIndex?: number | null; // Какой вариант видео опубликован (если их несколько)
+  publisher?: PublisherName | null; // Через какой публикатор (по умолчанию blotato)
+  attempts?: number; // Попыток подряд; ручной повтор начинает счёт заново
+  nextRetryAt?: string | null; // Когда монитор повторит публикацию после временной ошибки
+  gaveUp?: boolean; // Повторов больше не будет: ошибка постоянная или попытки исчерпаны
+  publishedAt: string;
+}
+
+/**
+ * Вариант видео: SyntX может прислать на один промпт несколько роликов (или перегенерации).
+ * Каждый вариант загружается в Drive отдельным файлом с суффиксом _v{index}.
+ */
+export interface PipelineVideoVariant {
+  index: number; // 1, 2, ... по порядку прихода ответов
+  telegramVideoMessageId: number;
+  driveFileId?: string | null;
+  driveFileName?: string | null;
+  driveWebViewLink?: string | null;
+  uploadedAt?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Какой вариант куда публикуется через Blotato.
+ * defaultVariant идёт на все платформы, platformVariants переопределяет вариант для отдельных
+ * платформ (0 — не публиковать на платформе). Пока выбор не подтверждён (confirmedAt),
+ * монитор Blotato ждёт его, но не дольше VIDEO_VARIANT_HOLD_MINUTES.
+ */
+export interface PipelineVariantSelection {
+  defaultVariant: number;
+  platformVariants: Record<string, number>;
+  confirmedAt?: string | null;
+}
+
+/**
+ * Прогон конвейера: путь одного ролика от сообщения в Telegram
+ * через файл в Google Drive до постов в Blotato.
+ * Хранится в users/{userId}/channels/{channelId}/pipelineRuns/{runId},
+ * где runId = tg_{telegramMessageId} или drive_{driveFileId}, если сообщение неизвестно.
+ */
+export interface PipelineRun {
+  id: string;
+  userId: string;
+  channelId: string;
+  mode: "auto" | "manual";
+  scheduleId?: string | null;
+  timeSlot?: string | null; // Время слота расписания в часовом поясе канала ("HH:MM")
+  telegramMessageId?: number | null;
+  telegramChatId?: string | null;
+  videoTitle?: string | null;
+  jobId?: string | null; // ID задачи автоскачивания в очереди
+  driveFileId?: string | null;
+  driveFileName?: string | null;
+  driveWebViewLink?: string | null;
+  variants?: PipelineVideoVariant[];
+  variantDriveFileIds?: string[]; // ID файлов всех вариантов (для поиска прогона по файлу)
+  variantSelection?: PipelineVariantSelection | null;
+  publications: PipelinePublication[];
+  stages: Partial<Record<PipelineStageName, PipelineStageState>>;
+  status: PipelineRunStatus;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Файл во входной папке Drive, ожидающий своего слота публикации.
+ * Хранится в users/{userId}/channels/{channelId}/publishQueue/{driveFileId}.
+ */
+export interface PublishQueueEntry {
+  id: string; // ID файла в Google Drive
+  fileName: string;
+  readyAt: string; // ISO: когда файл появился в Drive
+  scheduledAt: string; // ISO: назначенный слот публикации
+  queuedAt: string;
+}
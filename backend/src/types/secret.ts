@@ -0,0 +1,46 @@
+/**
+ * Учётные данные сторонних сервисов, доступные только backend.
+ * Хранятся зашифрованными (AES-256-GCM, crypto/aes.ts) в users/{uid}/secrets/{secretId}.
+ * Клиент может только записать или удалить значение и получить маску.
+ */
+export type SecretKind = "blotato_api_key" | "publish_webhook_secret";
+
+export const SECRET_KINDS: SecretKind[] = ["blotato_api_key", "publish_webhook_secret"];
+
+export type SecretScope = "user" | "channel";
+
+export interface StoredSecret {
+  id: string;
+  kind: SecretKind;
+  scope: SecretScope;
+  channelId: string | null; // null для ключей уровня пользователя
+  ciphertext: string;
+  last4: string; // последние символы для маски
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MaskedSecret {
+  id: string;
+  kind: SecretKind;
+  scope: SecretScope;
+  channelId: string | null;
+  masked: string; // например "••••abcd"
+  updatedAt: string;
+}
+
+export type SecretAuditAction = "write" | "delete" | "read" | "migrate";
+
+/**
+ * Запись журнала доступа к секретам: users/{uid}/secretAudit/{autoId}
+ */
+export interface SecretAuditEntry {
+  id: string;
+  secretId: string;
+  kind: SecretKind;
+  channelId: string | null;
+  action: SecretAuditAction;
+  actor: "user" | "system";
+  purpose?: string | null; // зачем backend расшифровал значение (публикация, проверка и т.п.)
+  at: string;
+}
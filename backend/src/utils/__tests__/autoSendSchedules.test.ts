@@ -0,0 +1,46 @@
+/**
+ * Тесты для проверки расписаний автоотправки канала
+ *
+ * Проверяет:
+ * - Классические расписания (время и дни недели) и расписания с правилами
+ * - Отклонение некорректных правил, времени и количества промптов
+ * - lastRunAt от клиента не сохраняется
+ */
+
+import { sanitizeAutoSendSchedules } from "../autoSendSchedules";
+
+const weekly = { id: "s1", enabled: true, daysOfWeek: [5, 1, 1], time: "10:00", promptsPerRun: 2 };
+
+describe("autoSendSchedules", () => {
+  it("should accept weekly and rule schedules and normalize them", () => {
+    const result = sanitizeAutoSendSchedules([
+      { ...weekly, lastRunAt: "2026-10-19T10:00:00.000Z" },
+      { id: "s2", enabled: true, daysOfWeek: [], time: "", promptsPerRun: 1, rule: { type: "cron", expression: "0 12 * * 1-5" } }
+    ]);
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+    expect(result.schedules[0]).toEqual({
+      id: "s1",
+      enabled: true,
+      daysOfWeek: [1, 5],
+      time: "10:00",
+      promptsPerRun: 2,
+      rule: null,
+      validFrom: null,
+      validUntil: null
+    });
+    expect(result.schedules[1].rule).toEqual({ type: "cron", expression: "0 12 * * 1-5" });
+  });
+
+  it("should reject invalid schedules with their position", () => {
+    expect(sanitizeAutoSendSchedules("10:00")).toEqual({ error: "Расписания должны быть массивом" });
+    expect("error" in sanitizeAutoSendSchedules([{ ...weekly, time: "25:00" }])).toBe(true);
+    expect("error" in sanitizeAutoSendSchedules([{ ...weekly, promptsPerRun: 11 }])).toBe(true);
+    expect("error" in sanitizeAutoSendSchedules([{ ...weekly, daysOfWeek: [] }])).toBe(true);
+    expect("error" in sanitizeAutoSendSchedules([{ ...weekly, validFrom: "2026-11-01", validUntil: "2026-10-01" }])).toBe(true);
+
+    const result = sanitizeAutoSendSchedules([weekly, { ...weekly, id: "s2", rule: { type: "cron", expression: "*/5 * * * *" } }]);
+    expect("error" in result && result.error.startsWith("Расписание 2:")).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Тесты для периодов блокировки автоматизации
+ *
+ * Проверяет:
+ * - Диапазоны дат и ежегодные праздники (в том числе через Новый год)
+ * - Импорт ICS-календаря
+ */
+
+import { findBlackoutForDate, parseIcsCalendar, type BlackoutPeriod } from "../blackoutPeriods";
+
+const periods: BlackoutPeriod[] = [
+  { id: "vacation", type: "range", label: "Отпуск", startDate: "2026-10-20", endDate: "2026-10-25" },
+  { id: "new-year", type: "annual", label: "Новый год", startMonthDay: "12-31", endMonthDay: "01-02" }
+];
+
+describe("blackoutPeriods", () => {
+  it("should match date ranges inclusively", () => {
+    expect(findBlackoutForDate(periods, { year: 2026, month: 10, day: 19 })).toBeNull();
+    expect(findBlackoutForDate(periods, { year: 2026, month: 10, day: 20 })?.id).toBe("vacation");
+    expect(findBlackoutForDate(periods, { year: 2026, month: 10, day: 25 })?.id).toBe("vacation");
+  });
+
+  it("should match annual periods across New Year", () => {
+    expect(findBlackoutForDate(periods, { year: 2027, month: 12, day: 31 })?.id).toBe("new-year");
+    expect(findBlackoutForDate(periods, { year: 2028, month: 1, day: 2 })?.id).toBe("new-year");
+    expect(findBlackoutForDate(periods, { year: 2028, month: 1, day: 3 })).toBeNull();
+  });
+
+  it("should parse all-day and yearly ICS events", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:vacation@example.com",
+      "DTSTART;VALUE=DATE:20261102",
+      "DTEND;VALUE=DATE:20261105",
+      "SUMMARY:Отпуск\\, море",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:victory-day",
+      "DTSTART;VALUE=DATE:20260509",
+      "DTEND;VALUE=DATE:20260510",
+      "RRULE:FREQ=YEARLY",
+      "SUMMARY:День Победы",
+      "END:VEVENT",
+      "END:VCALENDAR"
+    ].join("\r\n");
+
+    expect(parseIcsCalendar(ics, "holidays")).toEqual([
+      {
+        id: "ics_holidays_vacation_example.com",
+        type: "range",
+        label: "Отпуск, море",
+        startDate: "2026-11-02",
+        endDate: "2026-11-04",
+        source: "holidays"
+      },
+      {
+        id: "ics_holidays_victory-day",
+        type: "annual",
+        label: "День Победы",
+        startMonthDay: "05-09",
+        endMonthDay: "05-09",
+        source: "holidays"
+      }
+    ]);
+  });
+});
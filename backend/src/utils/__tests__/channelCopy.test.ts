@@ -0,0 +1,68 @@
+/**
+ * Тесты для копирования настроек канала
+ *
+ * Проверяет:
+ * - Перенос только выбранных частей
+ * - Новые id расписаний и сброс ротаций
+ * - Проверку списка частей и уникальное имя копии
+ */
+
+import {
+  CHANNEL_TEMPLATE_PARTS,
+  getUniqueChannelName,
+  pickChannelParts,
+  validateChannelCopyParts
+} from "../channelCopy";
+
+const channel = {
+  name: "Кухня",
+  platform: "YOUTUBE_SHORTS",
+  language: "ru",
+  targetDurationSec: 15,
+  niche: "Кулинария",
+  secretMasks: { blotato: "****1234" },
+  youtubeUrl: "https://youtube.com/@kitchen",
+  preferences: { variants: [{ id: "v1", text: "Быстро", order: 1 }], mode: "cyclic", lastUsedIndex: 3 },
+  autoSendSchedules: [
+    { id: "s1", enabled: true, daysOfWeek: [1], time: "10:00", promptsPerRun: 1, lastRunAt: "2026-03-09T05:00:00.000Z" }
+  ],
+  blotataYoutubeId: "yt-1",
+  driveInputFolderId: "folder-1"
+};
+
+describe("channelCopy", () => {
+  it("should copy only the selected parts", () => {
+    const picked = pickChannelParts(channel, ["content", "blotato"]);
+
+    expect(picked.platform).toBe("YOUTUBE_SHORTS");
+    expect(picked.niche).toBe("Кулинария");
+    expect(picked.blotataYoutubeId).toBe("yt-1");
+    expect(picked.preferences).toBeUndefined();
+    expect(picked.autoSendSchedules).toBeUndefined();
+    expect(picked.driveInputFolderId).toBeUndefined();
+    expect(picked.name).toBeUndefined();
+    expect(picked.secretMasks).toBeUndefined();
+    expect(picked.youtubeUrl).toBeUndefined();
+  });
+
+  it("should give schedules new ids and restart rotations", () => {
+    const picked = pickChannelParts(channel, ["preferences", "schedules"]);
+
+    expect(picked.autoSendSchedules).toHaveLength(1);
+    expect(picked.autoSendSchedules[0].id).not.toBe("s1");
+    expect(picked.autoSendSchedules[0].lastRunAt).toBeNull();
+    expect(picked.autoSendSchedules[0].time).toBe("10:00");
+    expect(picked.preferences.lastUsedIndex).toBe(0);
+    expect(channel.preferences.lastUsedIndex).toBe(3);
+  });
+
+  it("should validate parts and pick a free name", () => {
+    expect(validateChannelCopyParts(["content", "drive"], CHANNEL_TEMPLATE_PARTS)).not.toBeNull();
+    expect(validateChannelCopyParts("content", CHANNEL_TEMPLATE_PARTS)).not.toBeNull();
+    expect(validateChannelCopyParts(["content", "schedules"], CHANNEL_TEMPLATE_PARTS)).toBeNull();
+
+    const names = new Set(["Кухня", "Кухня (копия)"]);
+    expect(getUniqueChannelName("Кухня", names)).toBe("Кухня (копия 2)");
+    expect(getUniqueChannelName("Выпечка", names)).toBe("Выпечка");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Тесты для плана импорта каналов
+ *
+ * Проверяет:
+ * - Сопоставление по стабильному id и по имени
+ * - Стратегии skip, overwrite, rename и merge
+ * - Пропуск некорректных каналов и обновлений без изменений
+ * - Перенос настроек расписания и LLM, очистку отсутствующих в файле настроек при перезаписи
+ * - Проверку расписаний автоотправки и то, что импорт не включает автоотправку существующему каналу
+ */
+
+import { planChannelImport } from "../channelImport";
+
+const existing = [
+  {
+    id: "ch-1",
+    data: {
+      name: "Кухня",
+      platform: "YOUTUBE_SHORTS",
+      language: "ru",
+      targetDurationSec: 15,
+      niche: "Кулинария",
+      tone: "Юмор",
+      missedRunPolicy: { mode: "run_once", maxRuns: 3 }
+    }
+  }
+];
+
+const imported = { name: "Кухня", platform: "YOUTUBE_SHORTS", language: "ru", targetDurationSec: 15, niche: "Выпечка" };
+
+describe("channelImport", () => {
+  it("should match by stable id before name and keep new ids", () => {
+    const items = planChannelImport(
+      [
+        { ...imported, id: "ch-1", name: "Кухня 2.0" },
+        { ...imported, id: "ch-9", name: "Спорт" }
+      ],
+      existing,
+      "overwrite"
+    );
+
+    expect(items[0].matchedBy).toBe("id");
+    expect(items[0].action).toBe("update");
+    expect(items[0].targetId).toBe("ch-1");
+    expect(items[0].finalName).toBe("Кухня");
+    expect(items[1].action).toBe("create");
+    expect(items[1].targetId).toBe("ch-9");
+  });
+
+  it("should apply conflict strategies with per-channel overrides", () => {
+    const [skipped, renamed] = planChannelImport([imported, imported], existing, "skip", { "1": "rename" });
+    expect(skipped.action).toBe("skip");
+    expect(renamed.action).toBe("create");
+    expect(renamed.finalName).toBe("Кухня (imported)");
+
+    const [overwritten] = planChannelImport([imported], existing, "overwrite");
+    expect(overwritten.changedFields.includes("niche")).toBe(true);
+    expect(overwritten.changedFields.includes("tone")).toBe(true);
+    expect(overwritten.fields?.tone).toBe("");
+
+    const [merged] = planChannelImport([imported], existing, "merge");
+    expect(merged.action).toBe("update");
+    expect(merged.changedFields).toEqual(["niche"]);
+  });
+
+  it("should skip invalid channels and updates without changes", () => {
+    const [invalid, unchanged] = planChannelImport(
+      [{ name: "Без платформы" }, { ...imported, niche: "Кулинария" }],
+      existing,
+      "merge"
+    );
+    expect(invalid.action).toBe("skip");
+    expect(invalid.matchedBy).toBeNull();
+    expect(unchanged.action).toBe("skip");
+    expect(unchanged.reason).toBe("Без изменений");
+  });
+
+  it("should import schedule and LLM settings and clear missing ones on overwrite", () => {
+    const blackout = { id: "b1", type: "range", label: "Отпуск", startDate: "2026-08-01", endDate: "2026-08-10" };
+    const [created] = planChannelImport(
+      [
+        {
+          ...imported,
+          name: "Спорт",
+          blackoutPeriods: [blackout],
+          scheduleConstraints: { allowedWindows: [{ start: "25:00", end: "26:00" }] },
+          llmProvider: { provider: "anthropic", model: null }
+        }
+      ],
+      existing,
+      "overwrite"
+    );
+    expect(created.fields?.blackoutPeriods).toEqual([blackout]);
+    expect(created.fields?.llmProvider).toEqual({ provider: "anthropic", model: null });
+    // Некорректные и отсутствующие необязательные настройки новому каналу не записываются
+    expect(created.fields?.scheduleConstraints).toBeUndefined();
+    expect(created.fields?.missedRunPolicy).toBeUndefined();
+
+    const [overwritten] = planChannelImport([imported], existing, "overwrite");
+    expect(overwritten.changedFields.includes("missedRunPolicy")).toBe(true);
+    expect(overwritten.fields?.missedRunPolicy).toBeNull();
+
+    const [merged] = planChannelImport([imported], existing, "merge");
+    expect(merged.changedFields.includes("missedRunPolicy")).toBe(false);
+  });
+
+  it("should validate auto-send schedules and never enable automation of an existing channel", () => {
+    const schedule = { id: "s1", enabled: true, daysOfWeek: [1], time: "10:00", promptsPerRun: 1 };
+    const [invalid] = planChannelImport(
+      [{ ...imported, name: "Спорт", autoSendSchedules: [{ ...schedule, rule: { type: "cron", expression: "* * * * *" } }] }],
+      existing,
+      "overwrite"
+    );
+    expect(invalid.action).toBe("skip");
+    expect(invalid.reason?.startsWith("Некорректные расписания автоотправки. Расписание 1:")).toBe(true);
+
+    const [overwritten] = planChannelImport(
+      [{ ...imported, autoSendEnabled: true, autoSendSchedules: [schedule] }],
+      existing,
+      "overwrite"
+    );
+    expect(overwritten.changedFields.includes("autoSendEnabled")).toBe(false);
+    expect(overwritten.fields?.autoSendSchedules).toEqual([
+      { ...schedule, rule: null, validFrom: null, validUntil: null, lastRunAt: null }
+    ]);
+
+    // Повторный импорт тех же расписаний не сбрасывает lastRunAt и не считается изменением
+    const stored = [{ ...schedule, lastRunAt: "2026-10-19T07:00:00.000Z" }];
+    const [unchanged] = planChannelImport(
+      [{ ...imported, niche: "Кулинария", autoSendSchedules: [schedule] }],
+      [{ id: "ch-1", data: { ...existing[0].data, autoSendEnabled: true, autoSendSchedules: stored } }],
+      "merge"
+    );
+    expect(unchanged.action).toBe("skip");
+    expect(unchanged.reason).toBe("Без изменений");
+  });
+});
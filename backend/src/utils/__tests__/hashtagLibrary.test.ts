@@ -0,0 +1,49 @@
+/**
+ * Тесты для библиотеки хештегов канала
+ *
+ * Проверяет:
+ * - Выбор набора по режиму ротации и платформе
+ * - Фильтр запрещённых хештегов
+ * - Дописывание хештегов с учётом лимитов платформы
+ */
+
+import type { HashtagLibrary } from "../../types/channel";
+import { appendHashtags, applyHashtagLibrary, getHashtagRotationIndex, pickHashtagSet } from "../hashtagLibrary";
+
+const library: HashtagLibrary = {
+  mode: "cyclic",
+  lastUsedIndex: 1,
+  sets: [
+    { id: "a", name: "Общий", tags: ["кофе", "утро"] },
+    { id: "b", name: "Рецепты", tags: ["#рецепт", "кухня", "реклама"] },
+    { id: "c", name: "Только TikTok", tags: ["fyp"], platforms: ["tiktok"] }
+  ],
+  bannedHashtags: ["#реклама"]
+};
+
+describe("hashtagLibrary", () => {
+  it("should rotate sets per platform", () => {
+    expect(getHashtagRotationIndex(library)).toBe(1);
+    expect(getHashtagRotationIndex({ ...library, mode: "fixed" })).toBe(0);
+    expect(pickHashtagSet(library, "instagram", 1)?.id).toBe("b");
+    expect(pickHashtagSet(library, "instagram", 2)?.id).toBe("a");
+    expect(pickHashtagSet(library, "tiktok", 2)?.id).toBe("c");
+  });
+
+  it("should filter banned hashtags from sets and generated text", () => {
+    const post = applyHashtagLibrary(
+      { title: "Заголовок #реклама", caption: "Рецепт дня #Реклама #кухня" },
+      library,
+      "instagram",
+      1
+    );
+    expect(post.title).toBe("Заголовок");
+    expect(post.caption).toBe("Рецепт дня #кухня\n\n#рецепт");
+  });
+
+  it("should respect caption and hashtag limits", () => {
+    expect(appendHashtags("Текст", ["#a", "#b", "#c"], { maxTags: 2 })).toBe("Текст\n\n#a #b");
+    expect(appendHashtags("12345", ["#abc", "#d"], { maxLength: 11 })).toBe("12345\n\n#abc");
+    expect(appendHashtags("", ["#a"])).toBe("#a");
+  });
+});
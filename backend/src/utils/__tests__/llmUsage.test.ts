@@ -0,0 +1,47 @@
+/**
+ * Тесты для учёта расхода LLM
+ *
+ * Проверяет:
+ * - Оценку стоимости по прайсу модели (сопоставление по префиксу)
+ * - Объединение серверных и пользовательских лимитов
+ * - Поиск исчерпанного лимита
+ */
+
+import { estimateLlmCostUsd, findLlmQuotaViolation, getUsagePeriodKeys, mergeLlmQuotas } from "../llmUsage";
+
+describe("llmUsage", () => {
+  it("should estimate cost by model prefix", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 };
+    expect(estimateLlmCostUsd("openai", "gpt-4o-mini-2024-07-18", usage)).toBe(0.45);
+    expect(estimateLlmCostUsd("openai", "gpt-4o", usage)).toBe(7.5);
+    expect(estimateLlmCostUsd("openai_compatible", "llama3.1", usage)).toBe(0);
+    expect(estimateLlmCostUsd("fake", "gpt-4o", usage)).toBe(0);
+  });
+
+  it("should use the stricter of server and user limits", () => {
+    expect(
+      mergeLlmQuotas({ dailyTokens: 100_000, monthlyCostUsd: 20 }, { dailyTokens: 50_000, monthlyCostUsd: 50, dailyCostUsd: 1 })
+    ).toEqual({ dailyTokens: 50_000, monthlyTokens: null, dailyCostUsd: 1, monthlyCostUsd: 20 });
+    expect(mergeLlmQuotas({}, null)).toEqual({
+      dailyTokens: null,
+      monthlyTokens: null,
+      dailyCostUsd: null,
+      monthlyCostUsd: null
+    });
+  });
+
+  it("should report the first exhausted limit", () => {
+    const quota = { dailyTokens: 10_000, monthlyCostUsd: 5 };
+    expect(
+      findLlmQuotaViolation(quota, { day: { totalTokens: 9_999, costUsd: 1 }, month: { totalTokens: 50_000, costUsd: 4.9 } })
+    ).toBeNull();
+
+    const violation = findLlmQuotaViolation(quota, {
+      day: { totalTokens: 200, costUsd: 0.1 },
+      month: { totalTokens: 90_000, costUsd: 5 }
+    });
+    expect(violation?.limit).toBe("monthlyCostUsd");
+    expect(violation?.message).toBe("Исчерпан месячный бюджет LLM: $5.00 из $5.00. Лимит обновится 1-го числа.");
+    expect(getUsagePeriodKeys(new Date("2026-10-31T23:30:00Z"))).toEqual({ day: "2026-10-31", month: "2026-10" });
+  });
+});
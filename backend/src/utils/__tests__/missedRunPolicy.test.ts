@@ -0,0 +1,68 @@
+/**
+ * Тесты для политики догоняющих запусков
+ *
+ * Проверяет:
+ * - Поиск слотов, пропущенных за время простоя, в часовом поясе канала
+ * - Решения для политик skip, run_once и run_all
+ */
+
+import { planMissedRuns } from "../missedRunPolicy";
+import { getScheduleOccurrencesBetween, zonedTimeToUtc } from "../scheduleRules";
+
+const weekdaysAtNoonAndEvening = {
+  enabled: true,
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  time: "12:00",
+  rule: { type: "cron" as const, expression: "0 12,18 * * *" }
+};
+
+describe("missedRunPolicy", () => {
+  it("should convert local slot time to UTC", () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 10, day: 19 }, "12:00", "Asia/Almaty").toISOString()).toBe(
+      "2026-10-19T07:00:00.000Z"
+    );
+    // Европа переходит на зимнее время 25.10.2026
+    expect(zonedTimeToUtc({ year: 2026, month: 10, day: 26 }, "12:00", "Europe/London").toISOString()).toBe(
+      "2026-10-26T12:00:00.000Z"
+    );
+  });
+
+  it("should find slots missed during downtime", () => {
+    const missed = getScheduleOccurrencesBetween(
+      weekdaysAtNoonAndEvening,
+      new Date("2026-10-19T06:00:00Z"), // 11:00 в Алматы
+      new Date("2026-10-20T08:00:00Z"), // 13:00 следующего дня
+      "Asia/Almaty"
+    );
+    expect(missed.map((m) => `${m.localDate} ${m.time}`)).toEqual([
+      "2026-10-19 12:00",
+      "2026-10-19 18:00",
+      "2026-10-20 12:00"
+    ]);
+  });
+
+  it("should decide per policy", () => {
+    const missed = getScheduleOccurrencesBetween(
+      weekdaysAtNoonAndEvening,
+      new Date("2026-10-19T06:00:00Z"),
+      new Date("2026-10-20T08:00:00Z"),
+      "Asia/Almaty"
+    );
+
+    expect(planMissedRuns(missed, { mode: "skip" }).map((p) => p.decision)).toEqual([
+      "skipped",
+      "skipped",
+      "skipped"
+    ]);
+    expect(planMissedRuns(missed, { mode: "run_once" }).map((p) => p.decision)).toEqual([
+      "superseded",
+      "superseded",
+      "caught_up"
+    ]);
+    expect(planMissedRuns(missed, { mode: "run_all", maxRuns: 2 }).map((p) => p.decision)).toEqual([
+      "over_limit",
+      "caught_up",
+      "caught_up"
+    ]);
+  });
+});
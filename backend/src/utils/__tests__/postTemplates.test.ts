@@ -0,0 +1,76 @@
+/**
+ * Тесты для шаблонов подписей постов
+ *
+ * Проверяет:
+ * - Подстановку переменных и наборов хештегов
+ * - Соблюдение лимитов длины платформ (сначала отбрасываются хештеги)
+ * - Поведение без шаблона и проверку настройки из запроса
+ */
+
+import {
+  buildPlatformPost,
+  formatPostDate,
+  getVideoIdeaFromFileName,
+  renderPostTemplate,
+  validatePostTemplates
+} from "../postTemplates";
+
+const variables = {
+  title: "Кофе за 5 минут ☕",
+  description: "Быстрый рецепт",
+  idea: "кофе за 5 минут",
+  channelName: "Утро",
+  date: "19.10.2026"
+};
+
+describe("postTemplates", () => {
+  it("should render variables and hashtags", () => {
+    const post = buildPlatformPost(
+      { tiktok: { caption: "{title}\n\n{description} · {channelName} {date}\n{hashtags}", hashtags: ["кофе", "#рецепт", "кофе"] } },
+      "tiktok",
+      variables
+    );
+    expect(post.caption).toBe("Кофе за 5 минут ☕\n\nБыстрый рецепт · Утро 19.10.2026\n#кофе #рецепт");
+    expect(renderPostTemplate("{idea} {unknown}", { idea: "x" })).toBe("x {unknown}");
+  });
+
+  it("should use default template and fall back to generated text", () => {
+    const templates = { default: { caption: "{description} {hashtags}", hashtags: ["shorts"] } };
+    expect(buildPlatformPost(templates, "instagram", variables).caption).toBe("Быстрый рецепт #shorts");
+    expect(buildPlatformPost(null, "instagram", variables)).toEqual({
+      title: variables.title,
+      caption: variables.description
+    });
+  });
+
+  it("should enforce platform length limits", () => {
+    const long = "слово ".repeat(60).trim();
+    const hashtags = ["один", "два", "три"];
+    const post = buildPlatformPost(
+      { twitter: { caption: "{description} {hashtags}", hashtags } },
+      "twitter",
+      { ...variables, description: long.slice(0, 265) }
+    );
+    // Все хештеги не влезают в 280 символов — остаётся сколько помещается
+    expect(post.caption.endsWith("#один #два")).toBe(true);
+    expect(Array.from(post.caption).length <= 280).toBe(true);
+
+    const bluesky = buildPlatformPost({ bluesky: { caption: long } }, "bluesky", variables);
+    expect(Array.from(bluesky.caption).length <= 300).toBe(true);
+    expect(bluesky.caption.endsWith("…")).toBe(true);
+
+    const youtube = buildPlatformPost({ youtube: { title: "{title} {title} {title} {title}" } }, "youtube", variables);
+    expect(youtube.title.length <= 55).toBe(true);
+  });
+
+  it("should derive idea and date", () => {
+    expect(getVideoIdeaFromFileName("кофе_за_5_минут_v2.mp4")).toBe("кофе за 5 минут");
+    expect(formatPostDate(new Date("2026-10-19T20:00:00Z"), "Asia/Almaty")).toBe("20.10.2026");
+  });
+
+  it("should validate templates from request", () => {
+    expect(validatePostTemplates({ default: { caption: "{title}" } }, ["tiktok"])).toBeNull();
+    expect(validatePostTemplates({ myspace: { caption: "x" } }, ["tiktok"])).not.toBeNull();
+    expect(validatePostTemplates({ tiktok: { hashtags: "x" } }, ["tiktok"])).not.toBeNull();
+  });
+});
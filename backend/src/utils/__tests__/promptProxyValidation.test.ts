@@ -0,0 +1,69 @@
+/**
+ * Тесты для контракта прокси /api/prompt/openai
+ *
+ * Проверяет:
+ * - Нормализацию корректного запроса
+ * - Отказ для неразрешённых моделей и слишком большого max_tokens
+ * - Запрет tools/functions и неизвестных полей
+ */
+
+import { DEFAULT_PROMPT_PROXY_LIMITS, validatePromptProxyRequest } from "../promptProxyValidation";
+
+const limits = { ...DEFAULT_PROMPT_PROXY_LIMITS, allowedModels: ["gpt-4o-mini", "gpt-4o"] };
+
+const validBody = {
+  model: "gpt-4o-mini",
+  messages: [
+    { role: "system", content: "Ты сценарист" },
+    { role: "user", content: "Идея ролика" }
+  ],
+  temperature: 0.8,
+  max_tokens: 1500,
+  response_format: { type: "json_object" },
+  channelId: "channel-1"
+};
+
+describe("promptProxyValidation", () => {
+  it("should normalize a valid request", () => {
+    const result = validatePromptProxyRequest(validBody, limits);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.request).toEqual({
+        model: "gpt-4o-mini",
+        messages: validBody.messages,
+        temperature: 0.8,
+        maxTokens: 1500,
+        jsonMode: true
+      });
+      expect(result.channelId).toBe("channel-1");
+    }
+  });
+
+  it("should reject models and limits outside the contract", () => {
+    const model = validatePromptProxyRequest({ ...validBody, model: "gpt-4-32k" }, limits);
+    expect(model.ok ? null : model.error.code).toBe("MODEL_NOT_ALLOWED");
+
+    const maxTokens = validatePromptProxyRequest({ ...validBody, max_tokens: 100000 }, limits);
+    expect(maxTokens.ok ? null : maxTokens.error.code).toBe("MAX_TOKENS_TOO_LARGE");
+
+    const longMessage = validatePromptProxyRequest(
+      { ...validBody, messages: [{ role: "user", content: "x".repeat(limits.maxMessageChars + 1) }] },
+      limits
+    );
+    expect(longMessage.ok ? null : longMessage.error.field).toBe("messages[0].content");
+  });
+
+  it("should reject tool injection and unknown fields", () => {
+    const tools = validatePromptProxyRequest({ ...validBody, tools: [{ type: "function" }] }, limits);
+    expect(tools.ok ? null : tools.error.code).toBe("TOOLS_NOT_ALLOWED");
+
+    const toolMessage = validatePromptProxyRequest(
+      { ...validBody, messages: [...validBody.messages, { role: "tool", content: "{}", tool_call_id: "1" }] },
+      limits
+    );
+    expect(toolMessage.ok ? null : toolMessage.error.code).toBe("TOOLS_NOT_ALLOWED");
+
+    const unknown = validatePromptProxyRequest({ ...validBody, n: 5 }, limits);
+    expect(unknown.ok ? null : unknown.error.code).toBe("UNKNOWN_FIELD");
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Тесты для повторов публикации по платформам
+ *
+ * Проверяет:
+ * - Разделение ошибок на временные и постоянные
+ * - Растущую паузу между попытками и отказ после последней
+ * - План повтора: только платформы, чей повтор наступил
+ */
+
+import {
+  applyPublishAttempt,
+  getPublishRetryDelayMinutes,
+  getPublishRetryPlan,
+  isTransientPublishError
+} from "../publishRetry";
+import type { PipelinePublication } from "../../types/pipelineRun";
+
+const now = new Date("2026-03-10T12:00:00.000Z");
+
+function publication(platform: string, patch: Partial<PipelinePublication> = {}): PipelinePublication {
+  return { platform, success: false, publishedAt: "2026-03-10T11:00:00.000Z", ...patch };
+}
+
+describe("publishRetry", () => {
+  it("should classify publish errors", () => {
+    expect(isTransientPublishError("Request failed with status code 503")).toBe(true);
+    expect(isTransientPublishError("timeout of 30000ms exceeded")).toBe(true);
+    expect(isTransientPublishError("Request failed with status code 429")).toBe(true);
+    expect(isTransientPublishError("TikTok ID not configured")).toBe(false);
+    expect(isTransientPublishError("Request failed with status code 401")).toBe(false);
+    expect(isTransientPublishError("Публикатор «Webhook» не настроен на сервере")).toBe(false);
+  });
+
+  it("should back off and give up after the last attempt", () => {
+    expect(getPublishRetryDelayMinutes(1)).toBe(5);
+    expect(getPublishRetryDelayMinutes(2)).toBe(15);
+    expect(getPublishRetryDelayMinutes(10)).toBe(240);
+
+    const failed = { success: false, error: "socket hang up" };
+    expect(applyPublishAttempt(failed, 0, now, 3)).toEqual({
+      ...failed,
+      attempts: 1,
+      nextRetryAt: "2026-03-10T12:05:00.000Z",
+      gaveUp: false
+    });
+    expect(applyPublishAttempt(failed, 2, now, 3)).toEqual({ ...failed, attempts: 3, nextRetryAt: null, gaveUp: true });
+    expect(applyPublishAttempt({ success: false, error: "YouTube ID not configured" }, 0, now, 3).gaveUp).toBe(true);
+    expect(applyPublishAttempt({ success: true, error: null }, 1, now, 3).nextRetryAt).toBeNull();
+  });
+
+  it("should plan retries only for due platforms", () => {
+    const publications = [
+      publication("youtube", { success: true }),
+      publication("tiktok", { attempts: 1, nextRetryAt: "2026-03-10T11:55:00.000Z" }),
+      publication("instagram", { attempts: 2, nextRetryAt: "2026-03-10T12:15:00.000Z" }),
+      publication("threads", { attempts: 4, gaveUp: true })
+    ];
+    const platforms = ["youtube", "tiktok", "instagram", "threads", "bluesky"];
+
+    expect(getPublishRetryPlan(publications, platforms, now)).toEqual({
+      due: ["tiktok", "bluesky"],
+      nextRetryAt: "2026-03-10T12:15:00.000Z"
+    });
+    // Без запланированных повторов файл публикуется как обычно
+    expect(getPublishRetryPlan([publication("youtube", { gaveUp: true })], platforms, now)).toBeNull();
+  });
+});
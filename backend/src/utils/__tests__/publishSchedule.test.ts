@@ -0,0 +1,54 @@
+/**
+ * Тесты для времени публикации отдельно от генерации
+ *
+ * Проверяет:
+ * - Ближайший свободный слот в часовом поясе канала и дни недели
+ * - Публикацию через N часов после появления файла
+ * - Отправку публикатору заранее и проверку настроек
+ */
+
+import { getPublishSlot, isPublishDue, validatePublishSchedule } from "../publishSchedule";
+
+const slots = { mode: "slots" as const, slots: ["19:00", "09:00"] };
+// 01:00 20.10.2026 в Алматы (UTC+5)
+const night = new Date("2026-10-19T20:00:00Z");
+
+describe("publishSchedule", () => {
+  it("should pick the nearest free slot in channel timezone", () => {
+    expect(getPublishSlot(slots, night, night, "Asia/Almaty")?.toISOString()).toBe("2026-10-20T04:00:00.000Z");
+    expect(
+      getPublishSlot(slots, night, night, "Asia/Almaty", ["2026-10-20T04:00:00.000Z"])?.toISOString()
+    ).toBe("2026-10-20T14:00:00.000Z");
+    // Только суббота: ближайшая — 24.10.2026
+    expect(
+      getPublishSlot({ ...slots, daysOfWeek: [6] }, night, night, "Asia/Almaty")?.toISOString()
+    ).toBe("2026-10-24T04:00:00.000Z");
+  });
+
+  it("should not schedule into the past for old files", () => {
+    const readyAt = new Date("2026-10-10T00:00:00Z");
+    expect(getPublishSlot(slots, readyAt, night, "Asia/Almaty")?.toISOString()).toBe("2026-10-20T04:00:00.000Z");
+  });
+
+  it("should delay publishing after generation", () => {
+    const readyAt = new Date("2026-10-19T20:00:00Z");
+    const delay = { mode: "delay" as const, delayHours: 3 };
+    expect(getPublishSlot(delay, readyAt, readyAt, "UTC")?.toISOString()).toBe("2026-10-19T23:00:00.000Z");
+    expect(getPublishSlot({ mode: "immediate" }, readyAt, readyAt, "UTC")).toBeNull();
+    expect(getPublishSlot(null, readyAt, readyAt, "UTC")).toBeNull();
+  });
+
+  it("should submit to publisher within lead window", () => {
+    expect(isPublishDue("2026-10-20T04:00:00.000Z", new Date("2026-10-20T03:50:00Z"), 5)).toBe(false);
+    expect(isPublishDue("2026-10-20T04:00:00.000Z", new Date("2026-10-20T03:56:00Z"), 5)).toBe(true);
+    expect(isPublishDue("2026-10-20T04:00:00.000Z", new Date("2026-10-20T05:00:00Z"), 0)).toBe(true);
+  });
+
+  it("should validate schedule settings", () => {
+    expect(validatePublishSchedule(slots)).toBeNull();
+    expect(validatePublishSchedule({ mode: "slots", slots: [] })).not.toBeNull();
+    expect(validatePublishSchedule({ mode: "slots", slots: ["25:00"] })).not.toBeNull();
+    expect(validatePublishSchedule({ mode: "delay", delayHours: 0 })).not.toBeNull();
+    expect(validatePublishSchedule({ mode: "delay", delayHours: 6 })).toBeNull();
+  });
+});
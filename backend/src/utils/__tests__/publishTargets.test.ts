@@ -0,0 +1,47 @@
+/**
+ * Тесты для выбора публикатора по платформам канала
+ *
+ * Проверяет:
+ * - Группировку платформ по публикаторам (по умолчанию Blotato)
+ * - Платформы публикации без аккаунта Blotato
+ * - Проверку настройки из запроса
+ */
+
+import type { Channel } from "../../types/channel";
+import { groupPlatformsByPublisher, validatePlatformPublishers } from "../publishTargets";
+import { BLOTATO_PLATFORMS, getChannelPublishPlatforms, restrictChannelToPlatforms } from "../videoVariants";
+
+const channel = {
+  id: "c1",
+  blotataYoutubeId: "yt-1",
+  blotataTiktokId: "tt-1",
+  platformPublishers: { youtube: "youtube_api", instagram: "webhook" }
+} as Channel;
+
+describe("publishTargets", () => {
+  it("should group platforms by publisher", () => {
+    expect(groupPlatformsByPublisher(channel, ["youtube", "tiktok", "instagram"])).toEqual([
+      { publisher: "youtube_api", platforms: ["youtube"] },
+      { publisher: "blotato", platforms: ["tiktok"] },
+      { publisher: "webhook", platforms: ["instagram"] }
+    ]);
+    expect(groupPlatformsByPublisher({ platformPublishers: null }, ["tiktok"])).toEqual([
+      { publisher: "blotato", platforms: ["tiktok"] }
+    ]);
+  });
+
+  it("should publish to platforms of other publishers without Blotato accounts", () => {
+    expect(getChannelPublishPlatforms(channel)).toEqual(["youtube", "tiktok", "instagram"]);
+    expect(restrictChannelToPlatforms(channel, ["tiktok", "instagram"]).platformPublishers).toEqual({
+      instagram: "webhook"
+    });
+  });
+
+  it("should validate publisher settings", () => {
+    expect(validatePlatformPublishers(null, BLOTATO_PLATFORMS)).toBeNull();
+    expect(validatePlatformPublishers({ youtube: "youtube_api", tiktok: "fake" }, BLOTATO_PLATFORMS)).toBeNull();
+    expect(validatePlatformPublishers({ tiktok: "youtube_api" }, BLOTATO_PLATFORMS)).not.toBeNull();
+    expect(validatePlatformPublishers({ myspace: "webhook" }, BLOTATO_PLATFORMS)).not.toBeNull();
+    expect(validatePlatformPublishers({ youtube: "ftp" }, BLOTATO_PLATFORMS)).not.toBeNull();
+  });
+});
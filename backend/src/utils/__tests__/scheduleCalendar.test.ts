@@ -0,0 +1,69 @@
+/**
+ * Тесты для календаря публикаций
+ *
+ * Проверяет:
+ * - Проекцию недельных расписаний в конкретные слоты с учётом блокировок
+ * - Перенос слота: смена времени и дня недели, выделение дня из многодневного расписания
+ */
+
+import type { ChannelAutoSendSchedule } from "../../types/channel";
+import { applyScheduleSlotMove, projectScheduleSlots } from "../scheduleCalendar";
+
+const weekdays: ChannelAutoSendSchedule = {
+  id: "weekdays",
+  enabled: true,
+  daysOfWeek: [1, 2, 3, 4, 5],
+  time: "10:00",
+  promptsPerRun: 2
+};
+
+const mondayOnly: ChannelAutoSendSchedule = {
+  id: "monday",
+  enabled: true,
+  daysOfWeek: [1],
+  time: "18:00",
+  promptsPerRun: 1
+};
+
+describe("scheduleCalendar", () => {
+  it("should project weekly schedules into dated slots", () => {
+    const slots = projectScheduleSlots(
+      [weekdays, mondayOnly],
+      new Date("2026-10-19T00:00:00Z"), // понедельник, 05:00 в Алматы
+      new Date("2026-10-21T00:00:00Z"),
+      "Asia/Almaty",
+      [{ id: "off", type: "range", label: "Выходной", startDate: "2026-10-20", endDate: "2026-10-20" }]
+    );
+    expect(slots.map((s) => `${s.localDate} ${s.time} ${s.blackout ?? "-"}`)).toEqual([
+      "2026-10-19 10:00 -",
+      "2026-10-19 18:00 -",
+      "2026-10-20 10:00 Выходной"
+    ]);
+    expect(slots[0].at).toBe("2026-10-19T05:00:00.000Z");
+  });
+
+  it("should move a single-day schedule in place", () => {
+    const result = applyScheduleSlotMove([weekdays, mondayOnly], {
+      scheduleId: "monday",
+      fromDate: "2026-10-19",
+      toDate: "2026-10-21",
+      time: "19:30"
+    });
+    expect(result).toHaveLength(2);
+    expect(result[1]).toEqual({ ...mondayOnly, daysOfWeek: [3], time: "19:30" });
+  });
+
+  it("should split the moved weekday out of a multi-day schedule", () => {
+    const result = applyScheduleSlotMove([weekdays], {
+      scheduleId: "weekdays",
+      fromDate: "2026-10-20",
+      toDate: "2026-10-20",
+      time: "12:00"
+    });
+    expect(result).toHaveLength(2);
+    expect(result[0].daysOfWeek).toEqual([1, 3, 4, 5]);
+    expect(result[1].daysOfWeek).toEqual([2]);
+    expect(result[1].time).toBe("12:00");
+    expect(result[1].promptsPerRun).toBe(2);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Тесты для конфликтов расписаний между каналами
+ *
+ * Проверяет:
+ * - Перевод времени канала в опорный часовой пояс
+ * - Конфликты каналов из разных часовых поясов
+ * - Интервал по времени суток и переход через полночь
+ * - Сдвиг нового времени на ближайшее свободное
+ */
+
+import {
+  convertScheduleTime,
+  findNearestFreeTime,
+  findScheduleConflicts,
+  isValidTimezone
+} from "../scheduleConflicts";
+
+const now = new Date("2026-03-10T06:00:00.000Z");
+const intervals = { minInterval_00_13: 11, minInterval_13_17: 15, minInterval_17_24: 20 };
+
+describe("scheduleConflicts", () => {
+  it("should convert channel time to the reference timezone", () => {
+    expect(convertScheduleTime("10:00", "Europe/Moscow", "Asia/Almaty", now)).toBe("12:00");
+    expect(convertScheduleTime("01:30", "Asia/Almaty", "Europe/Moscow", now)).toBe("23:30");
+    expect(convertScheduleTime("10:00", "Asia/Almaty", "Asia/Almaty", now)).toBe("10:00");
+    expect(isValidTimezone("Europe/Moscow")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+  });
+
+  it("should detect conflicts between channels in different timezones", () => {
+    const conflicts = findScheduleConflicts(
+      [
+        { channelId: "almaty", channelName: "Алматы", time: "12:05", timezone: "Asia/Almaty" },
+        { channelId: "moscow", channelName: "Москва", time: "10:00", timezone: "Europe/Moscow" },
+        { channelId: "other", channelName: "Другой", time: "12:00", timezone: "Europe/Moscow" }
+      ],
+      intervals,
+      "Asia/Almaty",
+      now
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].first.channelId).toBe("moscow");
+    expect(conflicts[0].second.channelId).toBe("almaty");
+    expect(conflicts[0].gapMinutes).toBe(5);
+    expect(conflicts[0].requiredMinutes).toBe(11);
+  });
+
+  it("should use the interval of the next slot and wrap past midnight", () => {
+    const afternoon = findScheduleConflicts(
+      [
+        { channelId: "a", channelName: "A", time: "12:55", timezone: "Asia/Almaty" },
+        { channelId: "b", channelName: "B", time: "13:08", timezone: "Asia/Almaty" }
+      ],
+      intervals,
+      "Asia/Almaty",
+      now
+    );
+    expect(afternoon).toHaveLength(1);
+    expect(afternoon[0].requiredMinutes).toBe(15);
+
+    const midnight = findScheduleConflicts(
+      [
+        { channelId: "a", channelName: "A", time: "23:55", timezone: "Asia/Almaty" },
+        { channelId: "b", channelName: "B", time: "00:05", timezone: "Asia/Almaty" }
+      ],
+      intervals,
+      "Asia/Almaty",
+      now
+    );
+    expect(midnight).toHaveLength(1);
+    expect(midnight[0].first.channelId).toBe("a");
+    expect(midnight[0].gapMinutes).toBe(10);
+  });
+
+  it("should shift a new time to the nearest free slot in the channel timezone", () => {
+    const placed = [
+      { channelId: "a", channelName: "A", time: "10:00", timezone: "Asia/Almaty" },
+      { channelId: "b", channelName: "B", time: "10:20", timezone: "Asia/Almaty" }
+    ];
+    const point = { channelId: "c", channelName: "C", time: "08:05", timezone: "Europe/Moscow" };
+
+    expect(findNearestFreeTime(point, placed, intervals, "Asia/Almaty", now)).toBe("07:49");
+    expect(findNearestFreeTime({ ...point, time: "09:00" }, placed, intervals, "Asia/Almaty", now)).toBe("09:00");
+
+    const crowded = Array.from({ length: 144 }, (_, i) => ({
+      channelId: "x",
+      channelName: "X",
+      time: `${String(Math.floor(i / 6)).padStart(2, "0")}:${String((i % 6) * 10).padStart(2, "0")}`,
+      timezone: "Asia/Almaty"
+    }));
+    expect(findNearestFreeTime(point, crowded, intervals, "Asia/Almaty", now)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Тесты для правил расписания автоотправки
+ *
+ * Проверяет:
+ * - Cron-выражения с L и # в дне недели
+ * - Минимальный промежуток между запусками по cron и по датам
+ * - Интервальные правила с ограничением по дням недели
+ * - Срок действия расписания (validFrom / validUntil)
+ * - Дату в часовом поясе канала
+ */
+
+import {
+  getLocalDateInTimezone,
+  getRuleTimesForDate,
+  getScheduleTimesForDate,
+  validateScheduleRule,
+  type LocalDate
+} from "../scheduleRules";
+
+function localDate(year: number, month: number, day: number): LocalDate {
+  return { year, month, day, dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+describe("scheduleRules", () => {
+  it("should match last Friday of the month for 5L", () => {
+    const rule = { type: "cron" as const, expression: "0 10 * * 5L" };
+    // Октябрь 2026: пятницы 2, 9, 16, 23, 30
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 30))).toEqual(["10:00"]);
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 23))).toEqual([]);
+  });
+
+  it("should match nth weekday for 1#2", () => {
+    const rule = { type: "cron" as const, expression: "30 9,18 * * 1#2" };
+    // Второй понедельник октября 2026 — 12-е
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 12))).toEqual(["09:30", "18:30"]);
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 5))).toEqual([]);
+  });
+
+  it("should reject invalid cron expressions", () => {
+    expect(validateScheduleRule({ type: "cron", expression: "0 25 * * *" })).not.toBeNull();
+    expect(validateScheduleRule({ type: "cron", expression: "0 12 * *" })).not.toBeNull();
+    expect(validateScheduleRule({ type: "cron", expression: "*/15 9-18 * JAN-MAR MON-FRI" })).toBeNull();
+  });
+
+  it("should reject cron expressions that run more often than the minimum interval", () => {
+    expect(validateScheduleRule({ type: "cron", expression: "*/5 * * * *" })).not.toBeNull();
+    expect(validateScheduleRule({ type: "cron", expression: "0,10 9 * * *" })).not.toBeNull();
+    // 23:55 и 00:05 следующего дня
+    expect(validateScheduleRule({ type: "cron", expression: "55,5 0,23 * * *" })).not.toBeNull();
+    // Между 59-й минутой одного часа и 0-й следующего — 1 минута
+    expect(validateScheduleRule({ type: "cron", expression: "0,30,59 10-11 * * *" })).not.toBeNull();
+    // Только по понедельникам: после 23:55 следующий запуск через неделю
+    expect(validateScheduleRule({ type: "cron", expression: "5,55 0,23 * * 1" })).toBeNull();
+    expect(validateScheduleRule({ type: "cron", expression: "5,55 0,23 * * 1,2" })).not.toBeNull();
+    expect(validateScheduleRule({ type: "cron", expression: "0,15,30,45 * * * *" })).toBeNull();
+  });
+
+  it("should reject date rules with times closer than the minimum interval", () => {
+    const rule = { type: "dates" as const, dates: ["2026-10-20"], times: ["18:00", "10:00", "10:10"] };
+    expect(validateScheduleRule(rule)).not.toBeNull();
+    expect(validateScheduleRule({ ...rule, times: ["10:00", "10:00"] })).not.toBeNull();
+    expect(validateScheduleRule({ ...rule, times: ["18:00", "10:00", "10:15"] })).toBeNull();
+    // Через полночь — только если даты идут подряд
+    expect(validateScheduleRule({ ...rule, times: ["23:55", "00:05"], dates: ["2026-10-20", "2026-10-22"] })).toBeNull();
+    expect(validateScheduleRule({ ...rule, times: ["23:55", "00:05"], dates: ["2026-10-21", "2026-10-20"] })).not.toBeNull();
+  });
+
+  it("should expand interval rules within the window on selected days", () => {
+    const rule = {
+      type: "interval" as const,
+      everyMinutes: 120,
+      startTime: "10:00",
+      endTime: "18:00",
+      daysOfWeek: [1, 3]
+    };
+    // 19.10.2026 — понедельник, 20.10.2026 — вторник
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 19))).toEqual(["10:00", "12:00", "14:00", "16:00", "18:00"]);
+    expect(getRuleTimesForDate(rule, localDate(2026, 10, 20))).toEqual([]);
+    expect(validateScheduleRule({ ...rule, everyMinutes: 5 })).not.toBeNull();
+  });
+
+  it("should respect validity range and legacy weekly schedules", () => {
+    const schedule = {
+      enabled: true,
+      daysOfWeek: [1],
+      time: "12:00",
+      validFrom: "2026-10-19",
+      validUntil: "2026-10-26"
+    };
+    expect(getScheduleTimesForDate(schedule, localDate(2026, 10, 12))).toEqual([]);
+    expect(getScheduleTimesForDate(schedule, localDate(2026, 10, 19))).toEqual(["12:00"]);
+    expect(getScheduleTimesForDate(schedule, localDate(2026, 10, 26))).toEqual(["12:00"]);
+    expect(getScheduleTimesForDate(schedule, localDate(2026, 11, 2))).toEqual([]);
+  });
+
+  it("should compute the calendar date in the channel timezone", () => {
+    // 20:30 UTC 18.10.2026 (воскресенье) — уже понедельник 19.10 в Алматы (UTC+5)
+    const date = getLocalDateInTimezone(new Date("2026-10-18T20:30:00Z"), "Asia/Almaty");
+    expect(date).toEqual({ year: 2026, month: 10, day: 19, dayOfWeek: 1 });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Тесты для копий правил расписания на сервере и в клиенте
+ *
+ * Проверяет:
+ * - Общие объявления backend/src/utils/scheduleRules.ts и src/utils/scheduleRules.ts совпадают
+ * - Отличаются только объявления, которые нужны одной стороне
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+
+const BACKEND_FILE = join(__dirname, "..", "scheduleRules.ts");
+const FRONTEND_FILE = join(__dirname, "..", "..", "..", "..", "src", "utils", "scheduleRules.ts");
+
+// Объявления только одной из копий: срабатывания за период нужны планировщику, подписи — интерфейсу
+const BACKEND_ONLY = ["ScheduleOccurrence", "getScheduleOccurrencesBetween"];
+const FRONTEND_ONLY = ["DAY_SHORT_LABELS", "describeScheduleRule"];
+
+const DECLARATION = /^(?:export )?(?:function|const|let|interface|type|class) (\w+)/;
+
+/**
+ * Начало комментариев перед объявлением (JSDoc, строки // и заголовки разделов)
+ */
+function findLeadingComment(lines: string[]): number {
+  let start = lines.length;
+  while (start > 0 && /^(\/\/| \*|\/\*\*|\s*$)/.test(lines[start - 1])) start--;
+  while (start < lines.length && lines[start].trim() === "") start++;
+  return start;
+}
+
+/**
+ * Делит файл на объявления верхнего уровня вместе с их комментариями
+ */
+function readDeclarations(file: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  let name: string | null = null;
+  let lines: string[] = [];
+  for (const line of readFileSync(file, "utf8").replace(/\r\n/g, "\n").split("\n")) {
+    const match = DECLARATION.exec(line);
+    if (match) {
+      const commentStart = findLeadingComment(lines);
+      if (name) {
+        declarations.set(name, lines.slice(0, commentStart).join("\n").trim());
+      }
+      name = match[1];
+      lines = lines.slice(commentStart);
+    }
+    lines.push(line);
+  }
+  if (name) {
+    declarations.set(name, lines.join("\n").trim());
+  }
+  return declarations;
+}
+
+describe("scheduleRulesSync", () => {
+  it("should keep declarations shared by backend and frontend identical", () => {
+    const backend = readDeclarations(BACKEND_FILE);
+    const frontend = readDeclarations(FRONTEND_FILE);
+
+    const differing = Array.from(backend.keys()).filter(
+      (name) => frontend.has(name) && frontend.get(name) !== backend.get(name)
+    );
+    expect(differing).toEqual([]);
+    expect(Array.from(backend.keys()).filter((name) => !frontend.has(name))).toEqual(BACKEND_ONLY);
+    expect(Array.from(frontend.keys()).filter((name) => !backend.has(name))).toEqual(FRONTEND_ONLY);
+  });
+});
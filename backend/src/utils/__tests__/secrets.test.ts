@@ -0,0 +1,33 @@
+/**
+ * Тесты для вспомогательных функций хранилища секретов
+ *
+ * Проверяет:
+ * - Id документов секретов уровня канала и пользователя
+ * - Маскирование без раскрытия коротких значений
+ * - Проверку записываемых значений
+ */
+
+import { getSecretId, getSecretLast4, isSecretKind, maskSecret, validateSecretValue } from "../secrets";
+
+describe("secrets", () => {
+  it("should build secret ids per scope", () => {
+    expect(getSecretId("blotato_api_key", "ch1")).toBe("channel_ch1_blotato_api_key");
+    expect(getSecretId("blotato_api_key")).toBe("user_blotato_api_key");
+    expect(getSecretId("blotato_api_key", null)).toBe("user_blotato_api_key");
+    expect(isSecretKind("blotato_api_key")).toBe(true);
+    expect(isSecretKind("openai_api_key")).toBe(false);
+  });
+
+  it("should mask values without revealing short secrets", () => {
+    expect(maskSecret(getSecretLast4("blt_1234567890abcd"))).toBe("••••abcd");
+    expect(maskSecret(getSecretLast4("short"))).toBe("••••");
+  });
+
+  it("should validate written values", () => {
+    expect(validateSecretValue("blt_1234567890abcd")).toBeNull();
+    expect(validateSecretValue("  ")).not.toBeNull();
+    expect(validateSecretValue(42)).not.toBeNull();
+    expect(validateSecretValue("two words")).not.toBeNull();
+    expect(validateSecretValue("x".repeat(1001))).not.toBeNull();
+  });
+});
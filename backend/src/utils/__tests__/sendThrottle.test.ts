@@ -0,0 +1,34 @@
+/**
+ * Тесты для разнесения отправок промптов
+ *
+ * Проверяет:
+ * - Ключ очереди по сессии SyntX
+ * - Последовательные отправки в одну минуту через минимальный интервал
+ */
+
+import { getSendThrottleKey, reserveSendSlot } from "../sendThrottle";
+
+const now = new Date("2026-03-10T07:00:20.000Z");
+
+describe("sendThrottle", () => {
+  it("should share one queue per SyntX session", () => {
+    expect(getSendThrottleKey(undefined, "user-1")).toBe("telegram_global");
+    expect(getSendThrottleKey("telegram_global", "user-1")).toBe("telegram_global");
+    expect(getSendThrottleKey("telegram_user", "user-1")).toBe("telegram_user_user-1");
+    expect(getSendThrottleKey("http_api", "user-1")).toBeNull();
+    expect(getSendThrottleKey("stub", "user-1")).toBeNull();
+  });
+
+  it("should serialize sends at the configured spacing", () => {
+    const first = reserveSendSlot(null, now, 11);
+    expect(first.startAt.toISOString()).toBe("2026-03-10T07:00:20.000Z");
+    expect(first.nextFreeAt.toISOString()).toBe("2026-03-10T07:11:20.000Z");
+
+    const second = reserveSendSlot(first.nextFreeAt, now, 11);
+    expect(second.startAt.toISOString()).toBe("2026-03-10T07:11:20.000Z");
+    expect(second.nextFreeAt.toISOString()).toBe("2026-03-10T07:22:20.000Z");
+
+    const later = reserveSendSlot(first.nextFreeAt, new Date("2026-03-10T08:00:00.000Z"), 11);
+    expect(later.startAt.toISOString()).toBe("2026-03-10T08:00:00.000Z");
+  });
+});
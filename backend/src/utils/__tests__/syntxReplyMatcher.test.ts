@@ -0,0 +1,72 @@
+/**
+ * Тесты для сопоставления ответов SyntX с промптами
+ *
+ * Проверяет:
+ * - Однозначное совпадение по reply-to
+ * - Очередность для видео без reply-to
+ * - После первого видео промпт получает только варианты с reply-to
+ * - Выбор видео из истории чата при опросе
+ * - Сбор всех видео-ответов на промпт (варианты)
+ */
+
+import {
+  collectPromptVideoReplies,
+  matchSyntxReply,
+  pickVideoForPrompt,
+  toSyntxReplyCandidate
+} from "../syntxReplyMatcher";
+
+const pending = [
+  { promptMessageId: 100, startedAt: 0 },
+  { promptMessageId: 105, startedAt: 0 }
+];
+
+describe("syntxReplyMatcher", () => {
+  it("should match replies by reply-to id", () => {
+    const reply = toSyntxReplyCandidate({
+      id: 110,
+      replyTo: { replyToMsgId: 105 },
+      document: { mimeType: "video/mp4", attributes: [{ className: "DocumentAttributeVideo" }] }
+    });
+    expect(reply).toEqual({ id: 110, replyToMsgId: 105, hasVideo: true });
+    expect(matchSyntxReply(reply!, pending)).toBe(105);
+    expect(matchSyntxReply({ id: 111, replyToMsgId: 42, hasVideo: true }, pending)).toBeNull();
+    expect(matchSyntxReply({ id: 112, replyToMsgId: 100, hasVideo: false }, pending)).toBeNull();
+  });
+
+  it("should assign videos without reply-to to the earliest pending prompt", () => {
+    expect(matchSyntxReply({ id: 103, replyToMsgId: null, hasVideo: true }, pending)).toBe(100);
+    expect(matchSyntxReply({ id: 99, replyToMsgId: null, hasVideo: true }, pending)).toBeNull();
+  });
+
+  it("should match only reply-to variants for prompts that already got a video", () => {
+    const afterFirstReply = [{ ...pending[0], replied: true }, pending[1]];
+    expect(matchSyntxReply({ id: 120, replyToMsgId: 100, hasVideo: true }, afterFirstReply)).toBe(100);
+    expect(matchSyntxReply({ id: 121, replyToMsgId: null, hasVideo: true }, afterFirstReply)).toBe(105);
+  });
+
+  it("should pick a video for a prompt from chat history", () => {
+    const history = [
+      { id: 120, replyToMsgId: 100, hasVideo: true },
+      { id: 118, replyToMsgId: null, hasVideo: true },
+      { id: 115, replyToMsgId: 105, hasVideo: true },
+      { id: 101, replyToMsgId: null, hasVideo: false }
+    ];
+    expect(pickVideoForPrompt(history, 105)).toBe(115);
+    expect(pickVideoForPrompt(history, 116)).toBe(118);
+    expect(pickVideoForPrompt(history, 130)).toBeNull();
+    expect(pickVideoForPrompt(history)).toBe(120);
+  });
+
+  it("should collect all video replies to a prompt as variants", () => {
+    const history = [
+      { id: 130, replyToMsgId: 100, hasVideo: true },
+      { id: 120, replyToMsgId: 105, hasVideo: true },
+      { id: 110, replyToMsgId: 100, hasVideo: true },
+      { id: 108, replyToMsgId: 100, hasVideo: false }
+    ];
+    expect(collectPromptVideoReplies(history, 100)).toEqual([110, 130]);
+    expect(collectPromptVideoReplies([{ id: 140, replyToMsgId: null, hasVideo: true }], 100)).toEqual([140]);
+    expect(collectPromptVideoReplies([], 100)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Тесты для вариантов видео одного промпта
+ *
+ * Проверяет:
+ * - Имена файлов вариантов с суффиксом _v{index}
+ * - Распределение вариантов по платформам Blotato
+ * - Проверку выбора и ожидание выбора монитором
+ */
+
+import { getVariantFileName, stripVariantSuffix } from "../fileUtils";
+import { getVariantPlatforms, isAwaitingVariantSelection, validateVariantSelection } from "../videoVariants";
+
+const platforms = ["youtube", "tiktok", "instagram"];
+
+describe("videoVariants", () => {
+  it("should suffix file names only when there are several variants", () => {
+    expect(getVariantFileName("Кот на пляже.mp4", 1, 1)).toBe("Кот на пляже.mp4");
+    expect(getVariantFileName("Кот на пляже.mp4", 2, 3)).toBe("Кот на пляже_v2.mp4");
+    expect(getVariantFileName("video", 1, 2)).toBe("video_v1");
+    expect(stripVariantSuffix("Кот на пляже_v2.mp4")).toBe("Кот на пляже.mp4");
+  });
+
+  it("should assign platforms to variants", () => {
+    // Без выбора публикуется только первый вариант
+    expect(getVariantPlatforms(null, 1, platforms)).toEqual(platforms);
+    expect(getVariantPlatforms(null, 2, platforms)).toEqual([]);
+
+    const split = { defaultVariant: 1, platformVariants: { tiktok: 2, instagram: 0 } };
+    expect(getVariantPlatforms(split, 1, platforms)).toEqual(["youtube"]);
+    expect(getVariantPlatforms(split, 2, platforms)).toEqual(["tiktok"]);
+    expect(getVariantPlatforms({ defaultVariant: 2, platformVariants: {} }, 2, platforms)).toEqual(platforms);
+  });
+
+  it("should validate selection and hold publishing until it is confirmed", () => {
+    expect(validateVariantSelection({ defaultVariant: 2, platformVariants: { youtube: 1 } }, 2)).toBeNull();
+    expect(validateVariantSelection({ defaultVariant: 3, platformVariants: {} }, 2)).not.toBeNull();
+    expect(validateVariantSelection({ defaultVariant: 1, platformVariants: { myspace: 1 } }, 2)).not.toBeNull();
+
+    const run = {
+      variants: [
+        { index: 1, telegramVideoMessageId: 10, uploadedAt: "2026-10-19T10:00:00.000Z" },
+        { index: 2, telegramVideoMessageId: 11, uploadedAt: "2026-10-19T10:02:00.000Z" }
+      ],
+      variantSelection: { defaultVariant: 1, platformVariants: {}, confirmedAt: null }
+    };
+    expect(isAwaitingVariantSelection(run, new Date("2026-10-19T10:20:00.000Z"), 30)).toBe(true);
+    expect(isAwaitingVariantSelection(run, new Date("2026-10-19T10:31:00.000Z"), 30)).toBe(false);
+    expect(
+      isAwaitingVariantSelection(
+        { ...run, variantSelection: { ...run.variantSelection, confirmedAt: "2026-10-19T10:05:00.000Z" } },
+        new Date("2026-10-19T10:20:00.000Z"),
+        30
+      )
+    ).toBe(false);
+  });
+});
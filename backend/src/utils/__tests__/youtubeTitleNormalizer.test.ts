@@ -6,8 +6,11 @@
  * - Названия с эмодзи
  * - Названия без пробелов
  * - Граничные случаи
+ * - Совпадение с копией в клиенте, по которой строится предпросмотр поста
  */
 
+import { readFileSync } from "fs";
+import { join } from "path";
 import { normalizeYoutubeTitle, MAX_YOUTUBE_TITLE_LENGTH } from "../youtubeTitleNormalizer";
 
 describe("normalizeYoutubeTitle", () => {
@@ -82,5 +85,11 @@ describe("normalizeYoutubeTitle", () => {
     const result = normalizeYoutubeTitle(exactly56);
     expect(result.length).toBeLessThanOrEqual(MAX_YOUTUBE_TITLE_LENGTH);
   });
-});
 
+  it("should be identical to the client copy used by the post preview", () => {
+    const read = (...parts: string[]) => readFileSync(join(__dirname, ...parts), "utf8").replace(/\r\n/g, "\n");
+    expect(read("..", "..", "..", "..", "src", "utils", "youtubeTitleNormalizer.ts")).toBe(
+      read("..", "youtubeTitleNormalizer.ts")
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import type { ChannelAutoSendSchedule } from "../types/channel";
+import { validateScheduleRule, type ScheduleRule } from "./scheduleRules";
+
+/**
+ * Проверка расписаний автоотправки канала (autoSendSchedules), которые приходят от клиента
+ * (редактор канала, мастер) или из файла импорта. Минимальный интервал между публикациями
+ * разных каналов проверяется отдельно — он зависит от остальных каналов пользователя.
+ */
+
+export const MAX_AUTO_SEND_SCHEDULES = 50;
+export const MAX_PROMPTS_PER_RUN = 10;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateSchedule(item: any): string | null {
+  if (!item || typeof item !== "object") {
+    return "некорректный формат";
+  }
+  if (item.rule !== undefined && item.rule !== null) {
+    if (typeof item.rule !== "object") {
+      return "некорректное правило";
+    }
+    const ruleError = validateScheduleRule(item.rule as ScheduleRule);
+    if (ruleError) {
+      return ruleError;
+    }
+  } else if (typeof item.time !== "string" || !TIME_PATTERN.test(item.time)) {
+    return "время должно быть в формате HH:MM";
+  }
+  const days = item.daysOfWeek ?? [];
+  if (!Array.isArray(days) || days.some((day: unknown) => !Number.isInteger(day) || (day as number) < 0 || (day as number) > 6)) {
+    return "дни недели должны быть числами от 0 до 6";
+  }
+  if (!item.rule && item.enabled === true && days.length === 0) {
+    return "выберите хотя бы один день недели";
+  }
+  if (!Number.isInteger(item.promptsPerRun) || item.promptsPerRun < 1 || item.promptsPerRun > MAX_PROMPTS_PER_RUN) {
+    return `количество промптов за запуск должно быть от 1 до ${MAX_PROMPTS_PER_RUN}`;
+  }
+  for (const date of [item.validFrom, item.validUntil]) {
+    if (date !== undefined && date !== null && (typeof date !== "string" || !DATE_PATTERN.test(date))) {
+      return "даты действия должны быть в формате YYYY-MM-DD";
+    }
+  }
+  if (item.validFrom && item.validUntil && item.validFrom > item.validUntil) {
+    return "дата начала действия позже даты окончания";
+  }
+  return null;
+}
+
+/**
+ * Проверяет расписания и приводит их к сохраняемому виду.
+ * lastRunAt не принимается от клиента — его ведёт планировщик.
+ * Возвращает текст ошибки первого некорректного расписания.
+ */
+export function sanitizeAutoSendSchedules(
+  value: unknown
+): { schedules: ChannelAutoSendSchedule[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: "Расписания должны быть массивом" };
+  }
+  if (value.length > MAX_AUTO_SEND_SCHEDULES) {
+    return { error: `Расписаний не больше ${MAX_AUTO_SEND_SCHEDULES}` };
+  }
+
+  const schedules: ChannelAutoSendSchedule[] = [];
+  const ids = new Set<string>();
+  for (const [index, item] of value.entries()) {
+    const error = validateSchedule(item);
+    if (error) {
+      return { error: `Расписание ${index + 1}: ${error}` };
+    }
+    const id = typeof item.id === "string" && item.id && !ids.has(item.id) ? item.id : randomUUID();
+    ids.add(id);
+    schedules.push({
+      id,
+      enabled: item.enabled === true,
+      daysOfWeek: Array.from(new Set<number>(item.daysOfWeek ?? [])).sort((a, b) => a - b),
+      time: typeof item.time === "string" ? item.time : "",
+      promptsPerRun: item.promptsPerRun,
+      rule: item.rule ?? null,
+      validFrom: item.validFrom ?? null,
+      validUntil: item.validUntil ?? null
+    });
+  }
+  return { schedules };
+}
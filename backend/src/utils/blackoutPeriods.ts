@@ -0,0 +1,178 @@
+import { formatLocalDateKey, type LocalDate } from "./scheduleRules";
+
+/**
+ * Периоды блокировки автоматизации (отпуска, праздники, импортированные календари).
+ * Задаются на уровне пользователя (settings/schedule) и канала (channel.blackoutPeriods).
+ * В заблокированные дни не отправляются промпты и не публикуются ролики.
+ *
+ * - range  — диапазон дат "YYYY-MM-DD" включительно;
+ * - annual — ежегодный праздник "MM-DD" (диапазон может переходить через Новый год).
+ *
+ * Даты сравниваются в часовом поясе канала.
+ */
+export type BlackoutPeriod =
+  | {
+      id: string;
+      type: "range";
+      label: string;
+      startDate: string; // "YYYY-MM-DD"
+      endDate: string; // "YYYY-MM-DD" включительно
+      source?: string | null; // имя импортированного ICS-календаря
+    }
+  | {
+      id: string;
+      type: "annual";
+      label: string;
+      startMonthDay: string; // "MM-DD"
+      endMonthDay: string; // "MM-DD" включительно
+      source?: string | null;
+    };
+
+export const MAX_BLACKOUT_PERIODS = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_PATTERN = /^\d{2}-\d{2}$/;
+
+/**
+ * Проверяет период. Возвращает текст ошибки или null.
+ */
+export function validateBlackoutPeriod(period: BlackoutPeriod): string | null {
+  if (!period || typeof period.id !== "string" || !period.id) {
+    return "У периода блокировки должен быть id";
+  }
+  switch (period.type) {
+    case "range":
+      if (!DATE_PATTERN.test(period.startDate) || !DATE_PATTERN.test(period.endDate)) {
+        return "Даты блокировки должны быть в формате YYYY-MM-DD";
+      }
+      if (period.endDate < period.startDate) {
+        return "Дата окончания блокировки раньше даты начала";
+      }
+      return null;
+    case "annual":
+      if (!MONTH_DAY_PATTERN.test(period.startMonthDay) || !MONTH_DAY_PATTERN.test(period.endMonthDay)) {
+        return "Дни ежегодной блокировки должны быть в формате MM-DD";
+      }
+      return null;
+    default:
+      return "Неизвестный тип блокировки";
+  }
+}
+
+/**
+ * Возвращает первый период, блокирующий указанную локальную дату, или null
+ */
+export function findBlackoutForDate(
+  periods: BlackoutPeriod[] | null | undefined,
+  date: Pick<LocalDate, "year" | "month" | "day">
+): BlackoutPeriod | null {
+  if (!periods || periods.length === 0) {
+    return null;
+  }
+  const key = formatLocalDateKey(date);
+  const monthDay = key.slice(5);
+
+  for (const period of periods) {
+    if (period.type === "range") {
+      if (key >= period.startDate && key <= period.endDate) {
+        return period;
+      }
+    } else if (period.type === "annual") {
+      const { startMonthDay: start, endMonthDay: end } = period;
+      const inside = start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end;
+      if (inside) {
+        return period;
+      }
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// ICS
+// ---------------------------------------------------------------------------
+
+/**
+ * Разворачивает перенесённые строки ICS (RFC 5545: продолжение начинается с пробела или табуляции)
+ */
+function unfoldIcsLines(text: string): string[] {
+  return text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+}
+
+// "20261231" или "20261231T100000Z" → "2026-12-31"
+function icsValueToDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Разбирает ICS-календарь (например, экспорт праздников из Google Calendar) в периоды блокировки.
+ * События с RRULE:FREQ=YEARLY становятся ежегодными, остальные — диапазонами дат.
+ * Время событий не учитывается: блокируется весь день.
+ */
+export function parseIcsCalendar(text: string, source: string): BlackoutPeriod[] {
+  const periods: BlackoutPeriod[] = [];
+  let current: Record<string, { value: string; params: string }> | null = null;
+
+  for (const line of unfoldIcsLines(text)) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (current) {
+        const period = eventToBlackout(current, source, periods.length);
+        if (period) periods.push(period);
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(";");
+    current[name.toUpperCase()] = { value: line.slice(colon + 1), params: params.join(";") };
+  }
+
+  return periods.slice(0, MAX_BLACKOUT_PERIODS);
+}
+
+function eventToBlackout(
+  event: Record<string, { value: string; params: string }>,
+  source: string,
+  index: number
+): BlackoutPeriod | null {
+  const start = event.DTSTART ? icsValueToDate(event.DTSTART.value) : null;
+  if (!start) return null;
+
+  let end = start;
+  if (event.DTEND) {
+    const rawEnd = icsValueToDate(event.DTEND.value);
+    if (rawEnd) {
+      // Для событий на весь день DTEND не входит в событие
+      const allDay = event.DTSTART.params.includes("VALUE=DATE") || /^\d{8}$/.test(event.DTSTART.value);
+      end = allDay ? addDays(rawEnd, -1) : rawEnd;
+    }
+  }
+  if (end < start) end = start;
+
+  const label = event.SUMMARY ? unescapeIcsText(event.SUMMARY.value) : "Событие календаря";
+  const uid = event.UID?.value || `${start}-${index}`;
+  const id = `ics_${source}_${uid}`.replace(/[^\w.-]/g, "_").slice(0, 120);
+
+  if (event.RRULE && /FREQ=YEARLY/i.test(event.RRULE.value)) {
+    return { id, type: "annual", label, startMonthDay: start.slice(5), endMonthDay: end.slice(5), source };
+  }
+  return { id, type: "range", label, startDate: start, endDate: end, source };
+}
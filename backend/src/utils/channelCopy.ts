@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+import type { ChannelAutoSendSchedule } from "../types/channel";
+
+/**
+ * Копирование настроек канала: дублирование канала и шаблоны каналов.
+ *
+ * Настройки разбиты на части, пользователь выбирает, какие из них переносить.
+ * Платформа, язык и длительность копируются всегда. Ссылки на аккаунты соцсетей,
+ * ключи из хранилища секретов и счётчики ротации не копируются никогда.
+ */
+
+export type ChannelCopyPart = "content" | "preferences" | "schedules" | "blotato" | "drive";
+
+export const CHANNEL_COPY_PARTS: ChannelCopyPart[] = ["content", "preferences", "schedules", "blotato", "drive"];
+
+// Папки Drive мастер создаёт для каждого нового канала сам, поэтому в шаблон они не попадают
+export const CHANNEL_TEMPLATE_PARTS: ChannelCopyPart[] = ["content", "preferences", "schedules", "blotato"];
+
+const BASE_FIELDS = ["platform", "language", "targetDurationSec"];
+
+const PART_FIELDS: Record<ChannelCopyPart, string[]> = {
+  content: [
+    "niche",
+    "audience",
+    "tone",
+    "blockedTopics",
+    "extraNotes",
+    "generationMode",
+    "generationTransport",
+    "telegramSyntaxPeer",
+    "llmProvider",
+    "postTemplates",
+    "hashtagLibrary"
+  ],
+  preferences: ["preferences"],
+  schedules: [
+    "timezone",
+    "autoSendSchedules",
+    "missedRunPolicy",
+    "blackoutPeriods",
+    "scheduleConstraints",
+    "publishSchedule"
+  ],
+  blotato: [
+    "blotataEnabled",
+    "blotataYoutubeId",
+    "blotataTiktokId",
+    "blotataInstagramId",
+    "blotataFacebookId",
+    "blotataFacebookPageId",
+    "blotataThreadsId",
+    "blotataTwitterId",
+    "blotataLinkedinId",
+    "blotataPinterestId",
+    "blotataPinterestBoardId",
+    "blotataBlueskyId",
+    "platformPublishers",
+    "publishWebhookUrl"
+  ],
+  drive: [
+    "googleDriveFolderId",
+    "driveInputFolderId",
+    "driveArchiveFolderId",
+    "autoDownloadToDriveEnabled",
+    "autoDownloadDelayMinutes"
+  ]
+};
+
+/**
+ * Проверяет список частей. Возвращает текст ошибки или null
+ */
+export function validateChannelCopyParts(value: unknown, allowed: ChannelCopyPart[]): string | null {
+  if (!Array.isArray(value)) {
+    return "parts должен быть массивом";
+  }
+  const unknownPart = value.find((part) => !allowed.includes(part));
+  if (unknownPart !== undefined) {
+    return `Неизвестная часть настроек: ${String(unknownPart)}. Допустимые: ${allowed.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Настройки канала из выбранных частей, готовые для записи в новый канал.
+ * Расписания получают новые id и сбрасывают lastRunAt, ротации начинаются сначала.
+ */
+export function pickChannelParts(data: Record<string, any>, parts: ChannelCopyPart[]): Record<string, any> {
+  const fields = [...BASE_FIELDS, ...parts.flatMap((part) => PART_FIELDS[part])];
+  const picked: Record<string, any> = {};
+  for (const field of fields) {
+    if (data[field] !== undefined) {
+      picked[field] = data[field];
+    }
+  }
+
+  if (Array.isArray(picked.autoSendSchedules)) {
+    picked.autoSendSchedules = (picked.autoSendSchedules as ChannelAutoSendSchedule[]).map((schedule) => ({
+      ...schedule,
+      id: randomUUID(),
+      lastRunAt: null
+    }));
+  }
+  if (picked.preferences) {
+    picked.preferences = { ...picked.preferences, lastUsedIndex: 0 };
+  }
+  if (picked.hashtagLibrary) {
+    picked.hashtagLibrary = { ...picked.hashtagLibrary, lastUsedIndex: 0 };
+  }
+
+  // Firestore не принимает undefined — убираем такие поля во вложенных объектах
+  return JSON.parse(JSON.stringify(picked));
+}
+
+/**
+ * Имя, которого ещё нет среди каналов: "Имя (копия)", "Имя (копия 2)", ...
+ */
+export function getUniqueChannelName(name: string, existingNames: Set<string>): string {
+  if (!existingNames.has(name)) {
+    return name;
+  }
+  let candidate = `${name} (копия)`;
+  for (let counter = 2; existingNames.has(candidate); counter++) {
+    candidate = `${name} (копия ${counter})`;
+  }
+  return candidate;
+}
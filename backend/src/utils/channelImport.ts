@@ -0,0 +1,353 @@
+import { BLOTATO_PLATFORMS } from "./videoVariants";
+import { validatePlatformPublishers } from "./publishTargets";
+import { validatePublishSchedule } from "./publishSchedule";
+import { validatePostTemplates } from "./postTemplates";
+import { validateHashtagLibrary } from "./hashtagLibrary";
+import { validatePublishWebhookUrl } from "./webhookUrl";
+import { normalizeMissedRunPolicy } from "./missedRunPolicy";
+import { MAX_BLACKOUT_PERIODS, validateBlackoutPeriod } from "./blackoutPeriods";
+import { validateLlmSelection } from "../services/llm/providerRegistry";
+import { sanitizeAutoSendSchedules } from "./autoSendSchedules";
+import type { ChannelAutoSendSchedule } from "../types/channel";
+
+/**
+ * Импорт каналов из JSON-экспорта.
+ *
+ * Версия 1 — каналы без id, сопоставляются с существующими по имени.
+ * Версия 2 — у каждого канала стабильный id документа: по нему канал находится при повторном
+ * импорте, а новый канал создаётся с тем же id.
+ *
+ * Сначала строится план (что будет создано, обновлено или пропущено и какие поля изменятся),
+ * его показывает пробный запуск, и тот же план затем выполняет импорт.
+ * Расписания автоотправки проверяются так же, как при сохранении из редактора; минимальный
+ * интервал относительно других каналов проверяет маршрут импорта.
+ */
+
+export const SUPPORTED_IMPORT_VERSIONS = [1, 2];
+
+/**
+ * Что делать с каналом из файла, который совпал с существующим:
+ * skip — пропустить, overwrite — заменить все настройки, rename — создать новый канал
+ * с суффиксом в имени, merge — взять из файла только заполненные поля
+ */
+export type ChannelImportStrategy = "skip" | "overwrite" | "rename" | "merge";
+
+export const CHANNEL_IMPORT_STRATEGIES: ChannelImportStrategy[] = ["skip", "overwrite", "rename", "merge"];
+
+// Поведение версии 1: совпавший канал импортируется копией с суффиксом
+export const DEFAULT_IMPORT_STRATEGY: ChannelImportStrategy = "rename";
+
+export type ChannelImportAction = "create" | "update" | "skip";
+
+export interface ExistingChannel {
+  id: string;
+  data: Record<string, any>;
+}
+
+export interface ChannelImportPlanItem {
+  index: number; // позиция канала в файле
+  sourceId: string | null; // id из файла (версия 2)
+  name: string; // имя в файле
+  action: ChannelImportAction;
+  matchedBy: "id" | "name" | null; // как найден существующий канал
+  strategy: ChannelImportStrategy | null; // применённая стратегия, если канал совпал
+  targetId: string | null; // документ, который будет создан или обновлён
+  finalName: string;
+  changedFields: string[]; // для update — изменяемые поля, для create — заполненные
+  reason?: string; // почему канал пропущен
+  fields?: Record<string, any>; // что будет записано, не возвращается клиенту
+}
+
+const STABLE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Необязательные настройки: при создании канала не записываются, если их нет в файле,
+// а при перезаписи (overwrite) отсутствие в файле очищает их у существующего канала
+const OPTIONAL_FIELDS = [
+  "preferences",
+  "extraNotes",
+  "timezone",
+  "missedRunPolicy",
+  "blackoutPeriods",
+  "scheduleConstraints",
+  "llmProvider"
+];
+
+function isValidBlackoutPeriods(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_BLACKOUT_PERIODS &&
+    value.every((period) => validateBlackoutPeriod(period) === null)
+  );
+}
+
+function isValidScheduleConstraints(value: any): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const { allowedWindows, lockedTimes } = value;
+  const windowsValid =
+    allowedWindows === undefined ||
+    allowedWindows === null ||
+    (Array.isArray(allowedWindows) &&
+      allowedWindows.every((w: any) => TIME_PATTERN.test(w?.start) && TIME_PATTERN.test(w?.end)));
+  const lockedValid =
+    lockedTimes === undefined ||
+    lockedTimes === null ||
+    (Array.isArray(lockedTimes) && lockedTimes.every((time: unknown) => typeof time === "string" && TIME_PATTERN.test(time)));
+  return windowsValid && lockedValid;
+}
+
+/**
+ * Расписания в сохраняемом виде или null, если они некорректны (такой канал не импортируется).
+ * lastRunAt берётся у существующего канала по id расписания, чтобы импорт не сбрасывал отметки запусков.
+ */
+function toImportedSchedules(value: unknown, current?: unknown): ChannelAutoSendSchedule[] | null {
+  const sanitized = sanitizeAutoSendSchedules(value ?? []);
+  if ("error" in sanitized) {
+    return null;
+  }
+  const lastRuns = new Map<string, string | null>(
+    (Array.isArray(current) ? current : []).map((schedule: any) => [schedule?.id, schedule?.lastRunAt ?? null])
+  );
+  return sanitized.schedules.map((schedule) => ({ ...schedule, lastRunAt: lastRuns.get(schedule.id) ?? null }));
+}
+
+/**
+ * Проверенные настройки канала из файла (без имени, порядка и дат).
+ * Неизвестные платформы, публикаторы и некорректные шаблоны не импортируются.
+ */
+export function sanitizeImportedChannel(channelData: any): Record<string, any> {
+  const fields: Record<string, any> = {
+    platform: channelData.platform,
+    language: channelData.language,
+    targetDurationSec: channelData.targetDurationSec,
+    niche: channelData.niche || "",
+    audience: channelData.audience || "",
+    tone: channelData.tone || "",
+    blockedTopics: channelData.blockedTopics || "",
+    generationMode: channelData.generationMode || "script",
+    generationTransport: channelData.generationTransport || "telegram_global",
+    telegramSyntaxPeer: channelData.telegramSyntaxPeer || null,
+    autoSendEnabled: channelData.autoSendEnabled || false,
+    autoSendSchedules: toImportedSchedules(channelData.autoSendSchedules) ?? [],
+    autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled || false,
+    autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes || 10,
+    uploadNotificationEnabled: channelData.uploadNotificationEnabled || false,
+    uploadNotificationChatId: channelData.uploadNotificationChatId || null,
+    blotataEnabled: channelData.blotataEnabled || false,
+    driveInputFolderId: channelData.driveInputFolderId || null,
+    driveArchiveFolderId: channelData.driveArchiveFolderId || null,
+    blotataYoutubeId: channelData.blotataYoutubeId || null,
+    blotataTiktokId: channelData.blotataTiktokId || null,
+    blotataInstagramId: channelData.blotataInstagramId || null,
+    blotataFacebookId: channelData.blotataFacebookId || null,
+    blotataFacebookPageId: channelData.blotataFacebookPageId || null,
+    blotataThreadsId: channelData.blotataThreadsId || null,
+    blotataTwitterId: channelData.blotataTwitterId || null,
+    blotataLinkedinId: channelData.blotataLinkedinId || null,
+    blotataPinterestId: channelData.blotataPinterestId || null,
+    blotataPinterestBoardId: channelData.blotataPinterestBoardId || null,
+    blotataBlueskyId: channelData.blotataBlueskyId || null,
+    // Неизвестные платформы и публикаторы не импортируются — публикация пойдёт через Blotato
+    platformPublishers:
+      validatePlatformPublishers(channelData.platformPublishers, BLOTATO_PLATFORMS) === null
+        ? channelData.platformPublishers || null
+        : null,
+    // Адрес webhook только https на публичный сервер
+    publishWebhookUrl:
+      validatePublishWebhookUrl(channelData.publishWebhookUrl) === null ? channelData.publishWebhookUrl || null : null,
+    publishSchedule:
+      channelData.publishSchedule && validatePublishSchedule(channelData.publishSchedule) === null
+        ? channelData.publishSchedule
+        : null,
+    postTemplates:
+      validatePostTemplates(channelData.postTemplates, BLOTATO_PLATFORMS) === null
+        ? channelData.postTemplates || null
+        : null,
+    hashtagLibrary:
+      validateHashtagLibrary(channelData.hashtagLibrary, BLOTATO_PLATFORMS) === null
+        ? channelData.hashtagLibrary || null
+        : null,
+    youtubeUrl: channelData.youtubeUrl || null,
+    tiktokUrl: channelData.tiktokUrl || null,
+    instagramUrl: channelData.instagramUrl || null,
+    googleDriveFolderId: channelData.googleDriveFolderId || null
+  };
+
+  // Необязательные поля: null, если в файле их нет или они некорректны
+  fields.preferences = channelData.preferences || null;
+  fields.extraNotes = channelData.extraNotes || null;
+  fields.timezone = channelData.timezone || null;
+  fields.missedRunPolicy = channelData.missedRunPolicy ? normalizeMissedRunPolicy(channelData.missedRunPolicy) : null;
+  fields.blackoutPeriods = isValidBlackoutPeriods(channelData.blackoutPeriods) ? channelData.blackoutPeriods : null;
+  fields.scheduleConstraints = isValidScheduleConstraints(channelData.scheduleConstraints)
+    ? channelData.scheduleConstraints
+    : null;
+  fields.llmProvider =
+    channelData.llmProvider && validateLlmSelection(channelData.llmProvider) === null ? channelData.llmProvider : null;
+
+  // Firestore не принимает undefined — убираем такие поля во вложенных объектах
+  return JSON.parse(JSON.stringify(fields));
+}
+
+/**
+ * Поля нового канала: необязательные настройки без значения не записываются
+ */
+function toCreateFields(sanitized: Record<string, any>, name: string): Record<string, any> {
+  const fields = Object.fromEntries(
+    Object.entries(sanitized).filter(([field, value]) => !OPTIONAL_FIELDS.includes(field) || value !== null)
+  );
+  return { ...fields, name };
+}
+
+/**
+ * Поля, значения которых различаются (сравнение по JSON)
+ */
+export function diffChannelFields(current: Record<string, any>, next: Record<string, any>): string[] {
+  return Object.keys(next).filter(
+    (field) => JSON.stringify(current[field] ?? null) !== JSON.stringify(next[field] ?? null)
+  );
+}
+
+function isFilled(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") {
+    return false;
+  }
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function validateImportedChannel(channelData: any): string | null {
+  if (!channelData || typeof channelData !== "object") {
+    return "Канал должен быть объектом";
+  }
+  if (!channelData.name || typeof channelData.name !== "string") {
+    return "Отсутствует или некорректное имя канала";
+  }
+  if (!channelData.platform || !channelData.language || !channelData.targetDurationSec) {
+    return "Отсутствуют обязательные поля: platform, language или targetDurationSec";
+  }
+  if (channelData.id !== undefined && (typeof channelData.id !== "string" || !STABLE_ID_PATTERN.test(channelData.id))) {
+    return "Некорректный id канала";
+  }
+  if (channelData.autoSendSchedules !== undefined && channelData.autoSendSchedules !== null) {
+    const schedules = sanitizeAutoSendSchedules(channelData.autoSendSchedules);
+    if ("error" in schedules) {
+      return `Некорректные расписания автоотправки. ${schedules.error}`;
+    }
+  }
+  return null;
+}
+
+function getImportedName(name: string, usedNames: Set<string>): string {
+  let counter = 1;
+  let candidate = `${name} (imported)`;
+  while (usedNames.has(candidate)) {
+    counter++;
+    candidate = `${name} (imported ${counter})`;
+  }
+  return candidate;
+}
+
+/**
+ * Строит план импорта. Совпавший канал ищется по id (версия 2), затем по имени.
+ * При обновлении имя существующего канала не меняется и автоотправка у него не включается
+ * (только выключается). Обновление без изменений становится пропуском.
+ * При перезаписи поле со значением null в fields означает, что настройку нужно удалить у канала.
+ * overrides — стратегия для отдельных каналов по их позиции в файле.
+ */
+export function planChannelImport(
+  channels: any[],
+  existing: ExistingChannel[],
+  strategy: ChannelImportStrategy,
+  overrides: Record<string, ChannelImportStrategy> = {}
+): ChannelImportPlanItem[] {
+  const existingById = new Map(existing.map((channel) => [channel.id, channel]));
+  const existingByName = new Map(existing.map((channel) => [channel.data.name as string, channel]));
+  const usedNames = new Set(existingByName.keys());
+  const usedIds = new Set(existingById.keys());
+  const touchedIds = new Set<string>();
+
+  return channels.map((channelData, index): ChannelImportPlanItem => {
+    const validationError = validateImportedChannel(channelData);
+    const name = typeof channelData?.name === "string" ? channelData.name : "Без названия";
+    const sourceId = typeof channelData?.id === "string" ? channelData.id : null;
+    const base = { index, sourceId, name, matchedBy: null, strategy: null, finalName: name, changedFields: [] };
+    if (validationError) {
+      return { ...base, action: "skip", targetId: null, reason: validationError };
+    }
+
+    const byId = sourceId ? existingById.get(sourceId) : undefined;
+    const match = byId ?? existingByName.get(name);
+    const sanitized = sanitizeImportedChannel(channelData);
+
+    if (!match || touchedIds.has(match.id)) {
+      // Стабильный id сохраняется, если он ещё свободен
+      const targetId = sourceId && !usedIds.has(sourceId) ? sourceId : null;
+      const finalName = usedNames.has(name) ? getImportedName(name, usedNames) : name;
+      usedNames.add(finalName);
+      if (targetId) {
+        usedIds.add(targetId);
+      }
+      return {
+        ...base,
+        action: "create",
+        targetId,
+        finalName,
+        changedFields: Object.keys(sanitized).filter((field) => isFilled(sanitized[field])),
+        fields: toCreateFields(sanitized, finalName)
+      };
+    }
+
+    touchedIds.add(match.id);
+    const appliedStrategy = overrides[String(index)] ?? strategy;
+    const matched = {
+      ...base,
+      matchedBy: byId ? ("id" as const) : ("name" as const),
+      strategy: appliedStrategy
+    };
+
+    if (appliedStrategy === "skip") {
+      return { ...matched, action: "skip", targetId: match.id, reason: "Канал уже существует" };
+    }
+    if (appliedStrategy === "rename") {
+      const finalName = getImportedName(name, usedNames);
+      usedNames.add(finalName);
+      return {
+        ...matched,
+        action: "create",
+        targetId: null,
+        finalName,
+        changedFields: Object.keys(sanitized).filter((field) => isFilled(sanitized[field])),
+        fields: toCreateFields(sanitized, finalName)
+      };
+    }
+
+    const next =
+      appliedStrategy === "merge"
+        ? Object.fromEntries(Object.entries(sanitized).filter(([field]) => isFilled(channelData[field])))
+        : { ...sanitized };
+    if (next.autoSendEnabled === true && match.data.autoSendEnabled !== true) {
+      delete next.autoSendEnabled;
+    }
+    if (next.autoSendSchedules) {
+      next.autoSendSchedules = toImportedSchedules(channelData.autoSendSchedules, match.data.autoSendSchedules);
+    }
+    // Сохранённые расписания сравниваются в том же виде, что и импортируемые
+    const stored = match.data.autoSendSchedules;
+    const current = { ...match.data, autoSendSchedules: toImportedSchedules(stored, stored) ?? stored };
+    const changedFields = diffChannelFields(current, next);
+    const finalName = match.data.name || name;
+    if (changedFields.length === 0) {
+      return { ...matched, action: "skip", targetId: match.id, finalName, reason: "Без изменений" };
+    }
+    return {
+      ...matched,
+      action: "update",
+      targetId: match.id,
+      finalName,
+      changedFields,
+      fields: Object.fromEntries(changedFields.map((field) => [field, next[field]]))
+    };
+  });
+}
@@ -106,7 +106,22 @@ export function generateVideoFileName(params: {
   return `${withoutExt}.mp4`;
 }
 
+/**
+ * Имя файла для варианта видео: при нескольких вариантах добавляет суффикс _v{index} перед расширением
+ */
+export function getVariantFileName(fileName: string, index: number, total: number): string {
+  if (total <= 1) {
+    return fileName;
+  }
+  const match = fileName.match(/^(.*?)(\.[a-z0-9]+)?$/i);
+  const base = match?.[1] || fileName;
+  const ext = match?.[2] || "";
+  return `${base}_v${index}${ext}`;
+}
 
-
-
-
+/**
+ * Убирает суффикс варианта _v{index} из имени файла (для генерации заголовка)
+ */
+export function stripVariantSuffix(fileName: string): string {
+  return fileName.replace(/_v\d+(\.[a-z0-9]+)?$/i, "$1");
+}
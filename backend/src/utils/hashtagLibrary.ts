@@ -0,0 +1,163 @@
+import type { HashtagLibrary, HashtagSet } from "../types/channel";
+import { normalizeHashtags, PLATFORM_CAPTION_LIMITS, truncateToLimit, type PlatformPost } from "./postTemplates";
+
+/**
+ * Библиотека хештегов канала: выбор набора по режиму ротации, фильтр запрещённых хештегов
+ * и дописывание хештегов к подписи с учётом лимитов платформы.
+ *
+ * Режимы повторяют варианты пожеланий (ChannelPreferences):
+ * fixed — всегда первый подходящий набор, random — случайный, cyclic — по очереди (lastUsedIndex).
+ */
+
+// Платформы, которые ограничивают число хештегов в посте
+export const PLATFORM_HASHTAG_LIMITS: Record<string, number> = {
+  instagram: 30,
+  youtube: 15 // при большем числе YouTube игнорирует все хештеги ролика
+};
+
+export const MAX_HASHTAG_SETS = 50;
+export const MAX_TAGS_PER_SET = 60;
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+/**
+ * Индекс ротации для одной публикации: общий для всех платформ, чтобы они получили согласованные наборы
+ */
+export function getHashtagRotationIndex(library: HashtagLibrary, random: () => number = Math.random): number {
+  switch (library.mode) {
+    case "fixed":
+      return 0;
+    case "random":
+      return Math.floor(random() * MAX_HASHTAG_SETS);
+    case "cyclic":
+    default:
+      return library.lastUsedIndex ?? 0;
+  }
+}
+
+/**
+ * Набор хештегов для платформы среди наборов, которые на ней используются
+ */
+export function pickHashtagSet(library: HashtagLibrary, platform: string, rotationIndex: number): HashtagSet | null {
+  const eligible = (library.sets ?? []).filter(
+    (set) => set.tags.length > 0 && (!set.platforms || set.platforms.length === 0 || set.platforms.includes(platform))
+  );
+  if (eligible.length === 0) {
+    return null;
+  }
+  return eligible[rotationIndex % eligible.length];
+}
+
+function isBanned(tag: string, banned: Set<string>): boolean {
+  return banned.has(tag.toLowerCase());
+}
+
+/**
+ * Убирает запрещённые хештеги из текста (например, из подписи, которую вернула LLM)
+ */
+export function removeBannedHashtags(text: string, bannedHashtags: string[] | null | undefined): string {
+  const banned = new Set(normalizeHashtags(bannedHashtags).map((tag) => tag.toLowerCase()));
+  if (banned.size === 0) {
+    return text;
+  }
+  return text
+    .replace(HASHTAG_PATTERN, (tag) => (isBanned(tag, banned) ? "" : tag))
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+}
+
+/**
+ * Дописывает хештеги в конец текста: пропускает уже присутствующие
+ * и останавливается на лимите длины подписи или числа хештегов
+ */
+export function appendHashtags(
+  text: string,
+  tags: string[],
+  options: { maxLength?: number; maxTags?: number } = {}
+): string {
+  const present = new Set((text.match(HASHTAG_PATTERN) ?? []).map((tag) => tag.toLowerCase()));
+  const maxLength = options.maxLength ?? Infinity;
+  const maxTags = options.maxTags ?? Infinity;
+
+  let result = text;
+  let separator = text ? "\n\n" : "";
+  for (const tag of tags) {
+    if (present.size >= maxTags) {
+      break;
+    }
+    if (present.has(tag.toLowerCase())) {
+      continue;
+    }
+    const next = `${result}${separator}${tag}`;
+    if (Array.from(next).length > maxLength) {
+      break;
+    }
+    result = next;
+    separator = " ";
+    present.add(tag.toLowerCase());
+  }
+  return result;
+}
+
+/**
+ * Применяет библиотеку к посту платформы: фильтрует запрещённые хештеги и дописывает набор по ротации
+ */
+export function applyHashtagLibrary(
+  post: PlatformPost,
+  library: HashtagLibrary | null | undefined,
+  platform: string,
+  rotationIndex: number
+): PlatformPost {
+  if (!library) {
+    return post;
+  }
+  const banned = new Set(normalizeHashtags(library.bannedHashtags).map((tag) => tag.toLowerCase()));
+  const set = pickHashtagSet(library, platform, rotationIndex);
+  const tags = normalizeHashtags(set?.tags).filter((tag) => !isBanned(tag, banned));
+  const maxTags = Math.min(
+    library.maxPerPost && library.maxPerPost > 0 ? library.maxPerPost : Infinity,
+    PLATFORM_HASHTAG_LIMITS[platform] ?? Infinity
+  );
+  const maxLength = PLATFORM_CAPTION_LIMITS[platform] ?? Infinity;
+
+  const caption = removeBannedHashtags(post.caption, library.bannedHashtags);
+  return {
+    title: removeBannedHashtags(post.title, library.bannedHashtags),
+    caption: truncateToLimit(appendHashtags(caption, tags, { maxLength, maxTags }), maxLength)
+  };
+}
+
+/**
+ * Проверяет библиотеку из запроса. Возвращает текст ошибки или null.
+ */
+export function validateHashtagLibrary(value: unknown, knownPlatforms: readonly string[]): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const library = value as HashtagLibrary;
+  if (typeof value !== "object" || !Array.isArray(library.sets)) {
+    return "hashtagLibrary.sets должен быть списком";
+  }
+  if (!["cyclic", "random", "fixed"].includes(library.mode)) {
+    return "Неизвестный режим ротации хештегов";
+  }
+  if (library.sets.length > MAX_HASHTAG_SETS) {
+    return `Наборов хештегов не больше ${MAX_HASHTAG_SETS}`;
+  }
+  for (const set of library.sets) {
+    if (!set || typeof set.id !== "string" || !Array.isArray(set.tags)) {
+      return "У набора хештегов должны быть id и tags";
+    }
+    if (set.tags.length > MAX_TAGS_PER_SET || set.tags.some((tag) => typeof tag !== "string")) {
+      return `В наборе «${set.name}» должно быть не больше ${MAX_TAGS_PER_SET} хештегов-строк`;
+    }
+    if ((set.platforms ?? []).some((platform) => !knownPlatforms.includes(platform))) {
+      return `Неизвестная платформа в наборе «${set.name}»`;
+    }
+  }
+  if (library.bannedHashtags && !Array.isArray(library.bannedHashtags)) {
+    return "bannedHashtags должен быть списком";
+  }
+  return null;
+}
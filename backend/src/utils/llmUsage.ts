@@ -0,0 +1,144 @@
+import type { LlmUsage } from "../services/llm/types";
+import type { LlmQuota, LlmUsagePeriod, LlmUsageTotals } from "../types/llmUsage";
+
+/**
+ * Цены моделей в долларах за 1M токенов (вход / выход).
+ * Модель сопоставляется по самому длинному префиксу: "gpt-4o-mini-2024-07-18" → "gpt-4o-mini".
+ * Дополнить или переопределить можно через LLM_PRICING_JSON: {"my-model": {"input": 0.2, "output": 0.6}}
+ */
+const DEFAULT_MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 }
+};
+
+function getModelPrices(): Record<string, { input: number; output: number }> {
+  const raw = process.env.LLM_PRICING_JSON;
+  if (!raw) return DEFAULT_MODEL_PRICES;
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+/**
+ * Оценивает стоимость вызова в долларах. Неизвестная модель и тестовый провайдер стоят 0.
+ */
+export function estimateLlmCostUsd(provider: string, model: string, usage: LlmUsage): number {
+  if (provider === "fake") return 0;
+
+  const prices = getModelPrices();
+  const key = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+
+  const { input, output } = prices[key];
+  const cost = (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Ключи сводок по UTC: день "YYYY-MM-DD" и месяц "YYYY-MM"
+ */
+export function getUsagePeriodKeys(date: Date): { day: string; month: string } {
+  const day = date.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+export function emptyUsageTotals(): LlmUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+const QUOTA_KEYS: Array<keyof LlmQuota> = ["dailyTokens", "monthlyTokens", "dailyCostUsd", "monthlyCostUsd"];
+
+/**
+ * Проверяет лимиты из запроса. Возвращает текст ошибки или null.
+ */
+export function validateLlmQuota(quota: unknown): string | null {
+  if (!quota || typeof quota !== "object") {
+    return "Лимиты должны быть объектом";
+  }
+  for (const key of QUOTA_KEYS) {
+    const value = (quota as Record<string, unknown>)[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return `Лимит ${key} должен быть неотрицательным числом`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Действующие лимиты: из двух заданных значений (сервер и пользователь) берётся меньшее.
+ * Пользователь может только ужесточить серверный лимит.
+ */
+export function mergeLlmQuotas(server: LlmQuota, user: LlmQuota | null | undefined): LlmQuota {
+  const result: LlmQuota = {};
+  for (const key of QUOTA_KEYS) {
+    const values = [server[key], user?.[key]].filter((v): v is number => typeof v === "number");
+    result[key] = values.length > 0 ? Math.min(...values) : null;
+  }
+  return result;
+}
+
+export interface LlmQuotaViolation {
+  limit: keyof LlmQuota;
+  used: number;
+  allowed: number;
+  message: string;
+}
+
+/**
+ * Возвращает первый исчерпанный лимит или null, если вызов разрешён
+ */
+export function findLlmQuotaViolation(
+  quota: LlmQuota,
+  usage: { day: Pick<LlmUsagePeriod, "totalTokens" | "costUsd">; month: Pick<LlmUsagePeriod, "totalTokens" | "costUsd"> }
+): LlmQuotaViolation | null {
+  const checks: Array<{ limit: keyof LlmQuota; used: number; text: (used: number, allowed: number) => string }> = [
+    {
+      limit: "dailyTokens",
+      used: usage.day.totalTokens,
+      text: (used, allowed) => `Исчерпан дневной лимит токенов LLM: ${used} из ${allowed}. Лимит обновится в 00:00 UTC.`
+    },
+    {
+      limit: "monthlyTokens",
+      used: usage.month.totalTokens,
+      text: (used, allowed) => `Исчерпан месячный лимит токенов LLM: ${used} из ${allowed}. Лимит обновится 1-го числа.`
+    },
+    {
+      limit: "dailyCostUsd",
+      used: usage.day.costUsd,
+      text: (used, allowed) =>
+        `Исчерпан дневной бюджет LLM: $${used.toFixed(2)} из $${allowed.toFixed(2)}. Лимит обновится в 00:00 UTC.`
+    },
+    {
+      limit: "monthlyCostUsd",
+      used: usage.month.costUsd,
+      text: (used, allowed) =>
+        `Исчерпан месячный бюджет LLM: $${used.toFixed(2)} из $${allowed.toFixed(2)}. Лимит обновится 1-го числа.`
+    }
+  ];
+
+  for (const check of checks) {
+    const allowed = quota[check.limit];
+    if (typeof allowed === "number" && check.used >= allowed) {
+      return { limit: check.limit, used: check.used, allowed, message: check.text(check.used, allowed) };
+    }
+  }
+  return null;
+}
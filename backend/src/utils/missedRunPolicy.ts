@@ -0,0 +1,60 @@
+import type { ScheduleOccurrence } from "./scheduleRules";
+
+/**
+ * Политика догоняющих запусков для слотов, пропущенных из-за простоя планировщика:
+ * - skip     — пропущенные слоты не запускаются (поведение по умолчанию);
+ * - run_once — запускается один раз самый поздний пропущенный слот;
+ * - run_all  — запускаются все пропущенные слоты, но не больше maxRuns (самые поздние).
+ */
+export type MissedRunPolicyMode = "skip" | "run_once" | "run_all";
+
+export interface MissedRunPolicy {
+  mode: MissedRunPolicyMode;
+  maxRuns?: number | null; // только для run_all
+}
+
+export type MissedRunDecisionType =
+  | "skipped" // политика skip
+  | "caught_up" // запущен с опозданием
+  | "superseded" // run_once: вместо него запущен более поздний слот
+  | "over_limit"; // run_all: превышен maxRuns
+
+export const DEFAULT_MISSED_RUN_MAX_RUNS = 3;
+export const MAX_MISSED_RUN_MAX_RUNS = 10;
+
+// Слоты старше этого окна не догоняются никогда: публиковать вчерашний контент уже поздно
+export const MISSED_RUN_LOOKBACK_HOURS = 24;
+
+export function normalizeMissedRunPolicy(policy: Partial<MissedRunPolicy> | null | undefined): MissedRunPolicy {
+  const mode: MissedRunPolicyMode =
+    policy?.mode === "run_once" || policy?.mode === "run_all" ? policy.mode : "skip";
+  const rawMax = typeof policy?.maxRuns === "number" ? Math.floor(policy.maxRuns) : DEFAULT_MISSED_RUN_MAX_RUNS;
+  return {
+    mode,
+    maxRuns: Math.max(1, Math.min(MAX_MISSED_RUN_MAX_RUNS, rawMax))
+  };
+}
+
+/**
+ * Решает, какие пропущенные слоты запустить.
+ * missed должен быть отсортирован по возрастанию времени.
+ */
+export function planMissedRuns(
+  missed: ScheduleOccurrence[],
+  policy: MissedRunPolicy
+): Array<{ occurrence: ScheduleOccurrence; decision: MissedRunDecisionType }> {
+  const normalized = normalizeMissedRunPolicy(policy);
+  const runCount =
+    normalized.mode === "skip" ? 0 : normalized.mode === "run_once" ? 1 : normalized.maxRuns ?? DEFAULT_MISSED_RUN_MAX_RUNS;
+  const firstToRun = Math.max(0, missed.length - runCount);
+
+  return missed.map((occurrence, index) => {
+    if (index >= firstToRun) {
+      return { occurrence, decision: "caught_up" };
+    }
+    if (normalized.mode === "skip") {
+      return { occurrence, decision: "skipped" };
+    }
+    return { occurrence, decision: normalized.mode === "run_once" ? "superseded" : "over_limit" };
+  });
+}
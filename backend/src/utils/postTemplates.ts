@@ -0,0 +1,200 @@
+import { MAX_YOUTUBE_TITLE_LENGTH, normalizeYoutubeTitle } from "./youtubeTitleNormalizer";
+import { getLocalDateInTimezone } from "./scheduleRules";
+import { stripVariantSuffix } from "./fileUtils";
+
+/**
+ * Шаблоны подписей и заголовков постов по платформам канала.
+ * Ключ — платформа (youtube, tiktok, ...) или default для платформ без своего шаблона.
+ *
+ * Переменные: {title} — заголовок от LLM, {description} — подпись от LLM, {idea} — идея ролика
+ * (из имени файла), {channelName}, {date} — дата публикации в часовом поясе канала, {hashtags} — набор хештегов.
+ * Без шаблона публикуются title и description как раньше; лимиты длины платформ соблюдаются всегда.
+ */
+export interface PostTemplate {
+  title?: string | null; // заголовок (YouTube, Pinterest)
+  caption?: string | null;
+  hashtags?: string[] | null;
+}
+
+export type PostTemplates = Partial<Record<string, PostTemplate>>;
+
+export interface PostTemplateVariables {
+  title: string;
+  description: string;
+  idea: string;
+  channelName: string;
+  date: string;
+}
+
+export interface PlatformPost {
+  title: string;
+  caption: string;
+}
+
+export const DEFAULT_POST_TEMPLATE_KEY = "default";
+export const POST_TEMPLATE_VARIABLES = ["title", "description", "idea", "channelName", "date", "hashtags"] as const;
+
+// Лимиты длины подписи (в символах)
+export const PLATFORM_CAPTION_LIMITS: Record<string, number> = {
+  youtube: 5000,
+  tiktok: 2200,
+  instagram: 2200,
+  facebook: 63206,
+  threads: 500,
+  twitter: 280,
+  linkedin: 3000,
+  pinterest: 500,
+  bluesky: 300
+};
+
+export const PLATFORM_TITLE_LIMITS: Record<string, number> = {
+  youtube: MAX_YOUTUBE_TITLE_LENGTH,
+  pinterest: 100
+};
+
+const MAX_TEMPLATE_LENGTH = 5000;
+const MAX_HASHTAGS = 30;
+
+// Длина в символах Unicode: эмодзи считаются одним символом
+function textLength(text: string): number {
+  return Array.from(text).length;
+}
+
+/**
+ * Обрезает текст до лимита по границе слова и добавляет многоточие
+ */
+export function truncateToLimit(text: string, limit: number): string {
+  const chars = Array.from(text);
+  if (chars.length <= limit) {
+    return text;
+  }
+  const cut = chars.slice(0, limit - 1).join("");
+  const lastSpace = cut.search(/\s\S*$/);
+  const base = lastSpace > cut.length * 0.8 ? cut.slice(0, lastSpace) : cut;
+  return `${base.trimEnd()}…`;
+}
+
+/**
+ * Хештеги в виде "#tag": без пробелов, без повторов
+ */
+export function normalizeHashtags(tags: string[] | null | undefined): string[] {
+  const result: string[] = [];
+  for (const raw of tags ?? []) {
+    const tag = String(raw).trim().replace(/^#+/, "").replace(/\s+/g, "");
+    if (tag && !result.some((existing) => existing.toLowerCase() === `#${tag}`.toLowerCase())) {
+      result.push(`#${tag}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Подставляет переменные в шаблон. Неизвестные {переменные} остаются как есть.
+ */
+export function renderPostTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] : match))
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function getPostTemplate(templates: PostTemplates | null | undefined, platform: string): PostTemplate | null {
+  return templates?.[platform] ?? templates?.[DEFAULT_POST_TEMPLATE_KEY] ?? null;
+}
+
+/**
+ * Подпись и заголовок поста для платформы. Если подпись не влезает в лимит,
+ * сначала отбрасываются последние хештеги, затем текст обрезается.
+ */
+export function buildPlatformPost(
+  templates: PostTemplates | null | undefined,
+  platform: string,
+  variables: PostTemplateVariables
+): PlatformPost {
+  const template = getPostTemplate(templates, platform);
+  const captionLimit = PLATFORM_CAPTION_LIMITS[platform] ?? Infinity;
+  const hashtags = normalizeHashtags(template?.hashtags).slice(0, MAX_HASHTAGS);
+
+  let caption = variables.description;
+  if (template?.caption) {
+    for (let count = hashtags.length; count >= 0; count--) {
+      caption = renderPostTemplate(template.caption, { ...variables, hashtags: hashtags.slice(0, count).join(" ") });
+      if (textLength(caption) <= captionLimit || !template.caption.includes("{hashtags}")) {
+        break;
+      }
+    }
+  }
+
+  let title = template?.title
+    ? renderPostTemplate(template.title, { ...variables, hashtags: hashtags.join(" ") })
+    : variables.title;
+  if (platform === "youtube") {
+    title = normalizeYoutubeTitle(title);
+  } else if (PLATFORM_TITLE_LIMITS[platform]) {
+    title = truncateToLimit(title, PLATFORM_TITLE_LIMITS[platform]);
+  }
+
+  return { title, caption: truncateToLimit(caption, captionLimit) };
+}
+
+export function buildPlatformPosts(
+  templates: PostTemplates | null | undefined,
+  platforms: string[],
+  variables: PostTemplateVariables
+): Record<string, PlatformPost> {
+  return Object.fromEntries(platforms.map((platform) => [platform, buildPlatformPost(templates, platform, variables)]));
+}
+
+/**
+ * Идея ролика из имени файла: имя файла строится из названия ролика
+ */
+export function getVideoIdeaFromFileName(fileName: string): string {
+  return stripVariantSuffix(fileName)
+    .replace(/\.[^/.]+$/, "")
+    .replace(/[_]+/g, " ")
+    .trim();
+}
+
+/**
+ * Дата публикации для {date}: ДД.ММ.ГГГГ в часовом поясе канала
+ */
+export function formatPostDate(date: Date, timezone: string): string {
+  const local = getLocalDateInTimezone(date, timezone);
+  return `${String(local.day).padStart(2, "0")}.${String(local.month).padStart(2, "0")}.${local.year}`;
+}
+
+/**
+ * Проверяет шаблоны из запроса. Возвращает текст ошибки или null.
+ */
+export function validatePostTemplates(value: unknown, knownPlatforms: readonly string[]): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "postTemplates должен быть объектом";
+  }
+  for (const [key, template] of Object.entries(value as Record<string, unknown>)) {
+    if (key !== DEFAULT_POST_TEMPLATE_KEY && !knownPlatforms.includes(key)) {
+      return `Неизвестная платформа в шаблонах: ${key}`;
+    }
+    if (!template || typeof template !== "object") {
+      return `Шаблон для ${key} должен быть объектом`;
+    }
+    const { title, caption, hashtags } = template as PostTemplate;
+    for (const text of [title, caption]) {
+      if (text !== null && text !== undefined && (typeof text !== "string" || text.length > MAX_TEMPLATE_LENGTH)) {
+        return `Шаблон для ${key} должен быть строкой до ${MAX_TEMPLATE_LENGTH} символов`;
+      }
+    }
+    if (hashtags !== null && hashtags !== undefined) {
+      if (!Array.isArray(hashtags) || hashtags.some((tag) => typeof tag !== "string")) {
+        return `Хештеги для ${key} должны быть списком строк`;
+      }
+      if (hashtags.length > MAX_HASHTAGS) {
+        return `Не больше ${MAX_HASHTAGS} хештегов для ${key}`;
+      }
+    }
+  }
+  return null;
+}
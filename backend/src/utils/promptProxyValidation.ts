@@ -0,0 +1,147 @@
+import type { LlmChatRequest, LlmMessage } from "../services/llm/types";
+
+/**
+ * Контракт POST /api/prompt/openai.
+ * Принимаются только перечисленные поля в формате OpenAI Chat Completions;
+ * tools/functions и сообщения с ролями tool/function отклоняются.
+ */
+export interface PromptProxyLimits {
+  allowedModels: string[];
+  maxTokensCeiling: number;
+  maxMessages: number;
+  maxMessageChars: number;
+  maxTotalChars: number;
+}
+
+export const DEFAULT_PROMPT_PROXY_LIMITS: Omit<PromptProxyLimits, "allowedModels"> = {
+  maxTokensCeiling: 4000,
+  maxMessages: 20,
+  maxMessageChars: 20000,
+  maxTotalChars: 60000
+};
+
+export type PromptProxyErrorCode =
+  | "INVALID_REQUEST"
+  | "UNKNOWN_FIELD"
+  | "TOOLS_NOT_ALLOWED"
+  | "MODEL_NOT_ALLOWED"
+  | "MAX_TOKENS_TOO_LARGE"
+  | "MESSAGES_TOO_LARGE";
+
+export interface PromptProxyValidationError {
+  code: PromptProxyErrorCode;
+  field: string;
+  message: string;
+}
+
+export type PromptProxyValidationResult =
+  | { ok: true; request: LlmChatRequest & { model: string }; channelId?: string }
+  | { ok: false; error: PromptProxyValidationError };
+
+const ALLOWED_FIELDS = new Set(["model", "messages", "temperature", "max_tokens", "response_format", "channelId"]);
+const TOOL_FIELDS = new Set(["tools", "tool_choice", "functions", "function_call", "parallel_tool_calls"]);
+const MESSAGE_ROLES = new Set(["system", "user", "assistant"]);
+
+function fail(code: PromptProxyErrorCode, field: string, message: string): PromptProxyValidationResult {
+  return { ok: false, error: { code, field, message } };
+}
+
+/**
+ * Проверяет тело запроса к прокси и возвращает нормализованный запрос для LLM-клиента
+ */
+export function validatePromptProxyRequest(body: unknown, limits: PromptProxyLimits): PromptProxyValidationResult {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return fail("INVALID_REQUEST", "body", "Тело запроса должно быть JSON-объектом");
+  }
+  const input = body as Record<string, unknown>;
+
+  for (const key of Object.keys(input)) {
+    if (TOOL_FIELDS.has(key)) {
+      return fail("TOOLS_NOT_ALLOWED", key, "Вызов инструментов и функций через прокси запрещён");
+    }
+    if (!ALLOWED_FIELDS.has(key)) {
+      return fail("UNKNOWN_FIELD", key, `Поле ${key} не поддерживается`);
+    }
+  }
+
+  const { model, messages, temperature, max_tokens: maxTokens, response_format: responseFormat, channelId } = input;
+
+  if (typeof model !== "string" || !model) {
+    return fail("INVALID_REQUEST", "model", "Отсутствует обязательное поле model");
+  }
+  if (!limits.allowedModels.includes(model)) {
+    return fail("MODEL_NOT_ALLOWED", "model", `Модель ${model} недоступна. Разрешены: ${limits.allowedModels.join(", ")}`);
+  }
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return fail("INVALID_REQUEST", "messages", "Отсутствует обязательное поле messages");
+  }
+  if (messages.length > limits.maxMessages) {
+    return fail("MESSAGES_TOO_LARGE", "messages", `Не больше ${limits.maxMessages} сообщений в запросе`);
+  }
+
+  const normalizedMessages: LlmMessage[] = [];
+  let totalChars = 0;
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i] as Record<string, unknown> | null;
+    const field = `messages[${i}]`;
+    if (!message || typeof message !== "object") {
+      return fail("INVALID_REQUEST", field, "Сообщение должно быть объектом { role, content }");
+    }
+    if (message.role === "tool" || message.role === "function" || "tool_calls" in message || "function_call" in message) {
+      return fail("TOOLS_NOT_ALLOWED", field, "Вызов инструментов и функций через прокси запрещён");
+    }
+    if (typeof message.role !== "string" || !MESSAGE_ROLES.has(message.role)) {
+      return fail("INVALID_REQUEST", `${field}.role`, "Роль сообщения должна быть system, user или assistant");
+    }
+    if (typeof message.content !== "string") {
+      return fail("INVALID_REQUEST", `${field}.content`, "Текст сообщения должен быть строкой");
+    }
+    if (message.content.length > limits.maxMessageChars) {
+      return fail("MESSAGES_TOO_LARGE", `${field}.content`, `Сообщение длиннее ${limits.maxMessageChars} символов`);
+    }
+    totalChars += message.content.length;
+    normalizedMessages.push({ role: message.role as LlmMessage["role"], content: message.content });
+  }
+  if (totalChars > limits.maxTotalChars) {
+    return fail("MESSAGES_TOO_LARGE", "messages", `Суммарный текст сообщений длиннее ${limits.maxTotalChars} символов`);
+  }
+
+  if (temperature !== undefined && (typeof temperature !== "number" || temperature < 0 || temperature > 2)) {
+    return fail("INVALID_REQUEST", "temperature", "temperature должна быть числом от 0 до 2");
+  }
+
+  if (maxTokens !== undefined) {
+    if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < 1) {
+      return fail("INVALID_REQUEST", "max_tokens", "max_tokens должен быть положительным целым числом");
+    }
+    if (maxTokens > limits.maxTokensCeiling) {
+      return fail("MAX_TOKENS_TOO_LARGE", "max_tokens", `max_tokens не может превышать ${limits.maxTokensCeiling}`);
+    }
+  }
+
+  let jsonMode = false;
+  if (responseFormat !== undefined) {
+    const type = (responseFormat as { type?: unknown } | null)?.type;
+    if (type !== "json_object" && type !== "text") {
+      return fail("INVALID_REQUEST", "response_format", "response_format.type должен быть json_object или text");
+    }
+    jsonMode = type === "json_object";
+  }
+
+  if (channelId !== undefined && (typeof channelId !== "string" || !channelId)) {
+    return fail("INVALID_REQUEST", "channelId", "channelId должен быть строкой");
+  }
+
+  return {
+    ok: true,
+    request: {
+      model,
+      messages: normalizedMessages,
+      temperature: temperature as number | undefined,
+      maxTokens: maxTokens as number | undefined,
+      jsonMode
+    },
+    channelId: channelId as string | undefined
+  };
+}
@@ -0,0 +1,110 @@
+import type { PipelinePublication } from "../types/pipelineRun";
+
+/**
+ * Повторы публикации на отдельных платформах.
+ * Временная ошибка платформы (сеть, лимиты, 5xx) повторяется с растущей паузой,
+ * пока не кончатся попытки; постоянная (нет аккаунта или ключа, отказ в доступе) сразу снимается с повторов.
+ * Файл остаётся во входной папке Drive, пока у какой-то платформы есть запланированный повтор.
+ */
+
+const DEFAULT_PUBLISH_MAX_ATTEMPTS = 4;
+const DEFAULT_RETRY_BASE_MINUTES = 5;
+const MAX_RETRY_DELAY_MINUTES = 240;
+
+// Ошибки, которые повтор не исправит: настройки канала, ключи, доступ, неверный запрос
+const PERMANENT_ERROR_PATTERN =
+  /not configured|api key|unauthori[sz]ed|forbidden|permission|invalid|not found|status code 4(?!29)\d\d|не настроен|не найден/i;
+
+/**
+ * Сколько раз подряд публиковать на платформу (PUBLISH_MAX_ATTEMPTS, по умолчанию 4)
+ */
+export function getPublishMaxAttempts(): number {
+  const value = Number(process.env.PUBLISH_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_PUBLISH_MAX_ATTEMPTS;
+}
+
+/**
+ * Пауза перед повтором после attempt-й неудачной попытки: PUBLISH_RETRY_BASE_MINUTES × 3^(attempt−1),
+ * не больше 4 часов (по умолчанию 5, 15, 45 минут)
+ */
+export function getPublishRetryDelayMinutes(attempt: number): number {
+  const value = Number(process.env.PUBLISH_RETRY_BASE_MINUTES);
+  const base = Number.isFinite(value) && value > 0 ? value : DEFAULT_RETRY_BASE_MINUTES;
+  return Math.min(base * 3 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MINUTES);
+}
+
+/**
+ * Стоит ли повторять публикацию с такой ошибкой. Неизвестные ошибки считаются временными:
+ * число повторов всё равно ограничено.
+ */
+export function isTransientPublishError(error: string | null | undefined): boolean {
+  return !PERMANENT_ERROR_PATTERN.test(error ?? "");
+}
+
+/**
+ * Ждёт ли публикация на платформе повтора
+ */
+export function isPublishRetryPending(publication: Pick<PipelinePublication, "success" | "nextRetryAt">): boolean {
+  return !publication.success && Boolean(publication.nextRetryAt);
+}
+
+export interface PublishRetryPlan {
+  due: string[]; // платформы, которые пора публиковать
+  nextRetryAt: string | null; // ближайший повтор из ещё не наступивших
+}
+
+/**
+ * План повтора по прошлым результатам прогона. null — повторов не запланировано,
+ * файл публикуется на все платформы как обычно.
+ * Успешные и снятые с повторов платформы пропускаются; платформы без результата (например,
+ * добавленные в канал после первой попытки) публикуются сразу.
+ */
+export function getPublishRetryPlan(
+  publications: PipelinePublication[],
+  platforms: string[],
+  now: Date
+): PublishRetryPlan | null {
+  if (!publications.some(isPublishRetryPending)) {
+    return null;
+  }
+
+  const due: string[] = [];
+  let nextRetryAt: string | null = null;
+  for (const platform of platforms) {
+    const publication = publications.find((p) => p.platform === platform);
+    if (!publication) {
+      due.push(platform);
+      continue;
+    }
+    if (!isPublishRetryPending(publication)) {
+      continue;
+    }
+    if (new Date(publication.nextRetryAt!).getTime() <= now.getTime()) {
+      due.push(platform);
+    } else if (!nextRetryAt || publication.nextRetryAt! < nextRetryAt) {
+      nextRetryAt = publication.nextRetryAt!;
+    }
+  }
+  return { due, nextRetryAt };
+}
+
+/**
+ * Результат очередной попытки на платформе с учётом прошлых попыток:
+ * при временной ошибке назначается повтор, иначе платформа снимается с повторов.
+ */
+export function applyPublishAttempt<T extends Pick<PipelinePublication, "success" | "error">>(
+  result: T,
+  previousAttempts: number,
+  now: Date,
+  maxAttempts: number = getPublishMaxAttempts()
+): T & Pick<PipelinePublication, "attempts" | "nextRetryAt" | "gaveUp"> {
+  const attempts = previousAttempts + 1;
+  if (result.success) {
+    return { ...result, attempts, nextRetryAt: null, gaveUp: false };
+  }
+  if (attempts < maxAttempts && isTransientPublishError(result.error)) {
+    const retryAt = new Date(now.getTime() + getPublishRetryDelayMinutes(attempts) * 60 * 1000);
+    return { ...result, attempts, nextRetryAt: retryAt.toISOString(), gaveUp: false };
+  }
+  return { ...result, attempts, nextRetryAt: null, gaveUp: true };
+}
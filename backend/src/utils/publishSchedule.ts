@@ -0,0 +1,129 @@
+import { getLocalDateInTimezone, zonedTimeToUtc, type LocalDate } from "./scheduleRules";
+
+/**
+ * Время публикации, отдельное от времени генерации.
+ * Файл из входной папки Drive ждёт в очереди канала до своего слота:
+ * - immediate — публикуется сразу (поведение по умолчанию);
+ * - slots     — в ближайший свободный слот "HH:MM" (часовой пояс канала), один файл на слот;
+ * - delay     — через delayHours часов после появления файла в Drive.
+ */
+export type PublishScheduleMode = "immediate" | "slots" | "delay";
+
+export interface PublishSchedule {
+  mode: PublishScheduleMode;
+  slots?: string[] | null; // "HH:MM"
+  daysOfWeek?: number[] | null; // 0–6; пусто — каждый день
+  delayHours?: number | null;
+}
+
+export const MAX_PUBLISH_SLOTS = 24;
+export const MAX_PUBLISH_DELAY_HOURS = 168;
+
+// Дальше этого горизонта свободный слот не ищется: очередь переполнена
+const SLOT_LOOKAHEAD_DAYS = 31;
+const DEFAULT_PUBLISH_LEAD_MINUTES = 5;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * За сколько минут до слота файл отправляется публикатору (PUBLISH_SLOT_LEAD_MINUTES, по умолчанию 5).
+ * Публикатор получает точное время слота, поэтому минутный шаг монитора на время поста не влияет.
+ */
+export function getPublishLeadMinutes(): number {
+  const value = Number(process.env.PUBLISH_SLOT_LEAD_MINUTES);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_PUBLISH_LEAD_MINUTES;
+}
+
+export function isPublishScheduled(schedule: PublishSchedule | null | undefined): schedule is PublishSchedule {
+  return schedule?.mode === "slots" || schedule?.mode === "delay";
+}
+
+/**
+ * Проверяет настройки времени публикации. Возвращает текст ошибки или null.
+ */
+export function validatePublishSchedule(schedule: PublishSchedule): string | null {
+  switch (schedule?.mode) {
+    case "immediate":
+      return null;
+    case "slots": {
+      const slots = schedule.slots ?? [];
+      if (!Array.isArray(slots) || slots.length === 0) {
+        return "Укажите хотя бы один слот публикации";
+      }
+      if (slots.length > MAX_PUBLISH_SLOTS) {
+        return `Слотов публикации не больше ${MAX_PUBLISH_SLOTS}`;
+      }
+      if (slots.some((slot) => typeof slot !== "string" || !TIME_PATTERN.test(slot))) {
+        return "Слоты публикации должны быть в формате HH:MM";
+      }
+      const days = schedule.daysOfWeek ?? [];
+      if (!Array.isArray(days) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return "Дни недели публикации должны быть числами от 0 до 6";
+      }
+      return null;
+    }
+    case "delay": {
+      const hours = schedule.delayHours;
+      if (typeof hours !== "number" || !Number.isFinite(hours) || hours <= 0 || hours > MAX_PUBLISH_DELAY_HOURS) {
+        return `Задержка публикации должна быть больше 0 и не больше ${MAX_PUBLISH_DELAY_HOURS} часов`;
+      }
+      return null;
+    }
+    default:
+      return "Неизвестный режим времени публикации";
+  }
+}
+
+/**
+ * Время публикации файла.
+ * readyAt — когда файл появился в Drive, now — текущий момент (слот не может быть в прошлом),
+ * takenSlots — ISO-времена слотов, уже занятых другими файлами очереди.
+ * Возвращает null, если публиковать нужно сразу или свободного слота в горизонте нет.
+ */
+export function getPublishSlot(
+  schedule: PublishSchedule | null | undefined,
+  readyAt: Date,
+  now: Date,
+  timezone: string,
+  takenSlots: string[] = []
+): Date | null {
+  if (!isPublishScheduled(schedule)) {
+    return null;
+  }
+  if (schedule.mode === "delay") {
+    return new Date(readyAt.getTime() + (schedule.delayHours ?? 0) * 60 * 60 * 1000);
+  }
+
+  const from = readyAt > now ? readyAt : now;
+  const times = [...new Set(schedule.slots ?? [])].sort();
+  const days = schedule.daysOfWeek ?? [];
+  const taken = new Set(takenSlots.map((slot) => new Date(slot).getTime()));
+
+  const first = getLocalDateInTimezone(from, timezone);
+  const cursor = new Date(Date.UTC(first.year, first.month - 1, first.day));
+  for (let offset = 0; offset <= SLOT_LOOKAHEAD_DAYS; offset++) {
+    const date: LocalDate = {
+      year: cursor.getUTCFullYear(),
+      month: cursor.getUTCMonth() + 1,
+      day: cursor.getUTCDate(),
+      dayOfWeek: cursor.getUTCDay()
+    };
+    if (days.length === 0 || days.includes(date.dayOfWeek)) {
+      for (const time of times) {
+        const at = zonedTimeToUtc(date, time, timezone);
+        if (at >= from && !taken.has(at.getTime())) {
+          return at;
+        }
+      }
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return null;
+}
+
+/**
+ * Пора ли отправлять файл публикатору: до слота осталось не больше leadMinutes
+ */
+export function isPublishDue(scheduledAt: string, now: Date, leadMinutes: number): boolean {
+  return new Date(scheduledAt).getTime() - leadMinutes * 60 * 1000 <= now.getTime();
+}
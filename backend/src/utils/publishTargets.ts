@@ -0,0 +1,73 @@
+import type { Channel, PublisherName } from "../types/channel";
+
+/**
+ * Выбор публикатора для каждой платформы канала (channel.platformPublishers).
+ * Платформы без явной настройки публикуются через Blotato.
+ */
+
+export const PUBLISHER_NAMES: PublisherName[] = ["blotato", "youtube_api", "webhook", "fake"];
+
+export const DEFAULT_PUBLISHER: PublisherName = "blotato";
+
+// Публикаторы, которые умеют публиковать только на часть платформ
+const PUBLISHER_PLATFORMS: Partial<Record<PublisherName, string[]>> = {
+  youtube_api: ["youtube"]
+};
+
+export function getPlatformPublisher(channel: Pick<Channel, "platformPublishers">, platform: string): PublisherName {
+  return channel.platformPublishers?.[platform] ?? DEFAULT_PUBLISHER;
+}
+
+/**
+ * Платформы, назначенные публикаторам помимо Blotato (для них не нужен аккаунт Blotato)
+ */
+export function getDirectPublishPlatforms(channel: Pick<Channel, "platformPublishers">): string[] {
+  return Object.entries(channel.platformPublishers ?? {})
+    .filter(([, publisher]) => publisher && publisher !== DEFAULT_PUBLISHER)
+    .map(([platform]) => platform);
+}
+
+/**
+ * Группирует платформы по публикаторам с сохранением порядка платформ
+ */
+export function groupPlatformsByPublisher(
+  channel: Pick<Channel, "platformPublishers">,
+  platforms: string[]
+): Array<{ publisher: PublisherName; platforms: string[] }> {
+  const groups: Array<{ publisher: PublisherName; platforms: string[] }> = [];
+  for (const platform of platforms) {
+    const publisher = getPlatformPublisher(channel, platform);
+    const group = groups.find((g) => g.publisher === publisher);
+    if (group) {
+      group.platforms.push(platform);
+    } else {
+      groups.push({ publisher, platforms: [platform] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Проверяет настройку публикаторов из запроса. Возвращает текст ошибки или null.
+ */
+export function validatePlatformPublishers(value: unknown, knownPlatforms: string[]): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "platformPublishers должен быть объектом";
+  }
+  for (const [platform, publisher] of Object.entries(value as Record<string, unknown>)) {
+    if (!knownPlatforms.includes(platform)) {
+      return `Неизвестная платформа: ${platform}`;
+    }
+    if (!PUBLISHER_NAMES.includes(publisher as PublisherName)) {
+      return `Неизвестный публикатор для ${platform}: ${String(publisher)}`;
+    }
+    const supported = PUBLISHER_PLATFORMS[publisher as PublisherName];
+    if (supported && !supported.includes(platform)) {
+      return `Публикатор ${publisher} не поддерживает платформу ${platform}`;
+    }
+  }
+  return null;
+}
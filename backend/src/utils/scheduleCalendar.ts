@@ -0,0 +1,165 @@
+import { randomUUID } from "crypto";
+import type { ChannelAutoSendSchedule } from "../types/channel";
+import type { PipelineRun } from "../types/pipelineRun";
+import { findBlackoutForDate, type BlackoutPeriod } from "./blackoutPeriods";
+import {
+  getLocalDateInTimezone,
+  formatLocalTimeInTimezone,
+  getScheduleOccurrencesBetween,
+  formatLocalDateKey
+} from "./scheduleRules";
+
+/**
+ * Календарь публикаций: будущие слоты расписаний в конкретных датах
+ * и прошедшие прогоны конвейера. Даты и время — в часовом поясе канала.
+ */
+
+// Месячная сетка — до 6 недель, плюс запас на разницу часовых поясов каналов
+export const MAX_CALENDAR_RANGE_DAYS = 46;
+
+export interface CalendarSlot {
+  scheduleId: string;
+  at: string; // ISO, UTC
+  localDate: string; // "YYYY-MM-DD"
+  time: string; // "HH:MM"
+  promptsPerRun: number;
+  draggable: boolean; // слоты расписаний с правилами переносятся только в настройках канала
+  blackout: string | null; // название периода блокировки, если слот в него попадает
+}
+
+/**
+ * Итог прогона для календаря — по самому дальнему успешному этапу
+ */
+export type CalendarRunOutcome = "sent" | "downloaded" | "published" | "failed";
+
+export interface CalendarRun {
+  id: string;
+  at: string;
+  localDate: string;
+  time: string;
+  outcome: CalendarRunOutcome;
+  status: PipelineRun["status"];
+  scheduleId: string | null;
+  videoTitle: string | null;
+  error: string | null;
+}
+
+/**
+ * Разворачивает включённые расписания в конкретные слоты в полуинтервале (fromUtc, toUtc]
+ */
+export function projectScheduleSlots(
+  schedules: ChannelAutoSendSchedule[],
+  fromUtc: Date,
+  toUtc: Date,
+  timezone: string,
+  blackoutPeriods: BlackoutPeriod[] = []
+): CalendarSlot[] {
+  const slots: CalendarSlot[] = [];
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+
+    for (const occurrence of getScheduleOccurrencesBetween(schedule, fromUtc, toUtc, timezone)) {
+      const [year, month, day] = occurrence.localDate.split("-").map(Number);
+      const blackout = findBlackoutForDate(blackoutPeriods, { year, month, day });
+      slots.push({
+        scheduleId: schedule.id,
+        at: occurrence.at.toISOString(),
+        localDate: occurrence.localDate,
+        time: occurrence.time,
+        promptsPerRun: schedule.promptsPerRun || 1,
+        draggable: !schedule.rule,
+        blackout: blackout ? blackout.label : null
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export function getRunCalendarOutcome(run: PipelineRun): CalendarRunOutcome {
+  if (run.status === "failed") return "failed";
+  if (run.stages.publish?.status === "success") return "published";
+  if (run.stages.drive_upload?.status === "success") return "downloaded";
+  return "sent";
+}
+
+export function toCalendarRun(run: PipelineRun, timezone: string): CalendarRun {
+  const at = new Date(run.stages.prompt_sent?.startedAt || run.createdAt);
+  return {
+    id: run.id,
+    at: at.toISOString(),
+    localDate: formatLocalDateKey(getLocalDateInTimezone(at, timezone)),
+    time: formatLocalTimeInTimezone(at, timezone),
+    outcome: getRunCalendarOutcome(run),
+    status: run.status,
+    scheduleId: run.scheduleId ?? null,
+    videoTitle: run.videoTitle ?? null,
+    error: run.lastError ?? null
+  };
+}
+
+/**
+ * Перенос одного слота недельного расписания (перетаскивание в календаре)
+ */
+export interface ScheduleSlotMove {
+  scheduleId: string;
+  fromDate: string; // "YYYY-MM-DD" — дата перетаскиваемого слота
+  toDate: string; // "YYYY-MM-DD" — дата, на которую его перенесли
+  time: string; // новое время "HH:MM"
+}
+
+export class ScheduleSlotMoveError extends Error {}
+
+function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Применяет перенос слота к списку расписаний.
+ * Слот недельного расписания повторяется каждую неделю, поэтому переносится день недели:
+ * если расписание действует в несколько дней, перенесённый день выделяется в отдельное расписание,
+ * остальные дни остаются без изменений.
+ */
+export function applyScheduleSlotMove(
+  schedules: ChannelAutoSendSchedule[],
+  move: ScheduleSlotMove
+): ChannelAutoSendSchedule[] {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(move.fromDate) || !/^\d{4}-\d{2}-\d{2}$/.test(move.toDate)) {
+    throw new ScheduleSlotMoveError("Даты переноса должны быть в формате YYYY-MM-DD");
+  }
+  const [hours, minutes] = (move.time || "").split(":").map(Number);
+  if (!/^\d{2}:\d{2}$/.test(move.time) || hours > 23 || minutes > 59) {
+    throw new ScheduleSlotMoveError(`Неверное время: "${move.time}". Используйте формат HH:MM`);
+  }
+
+  const schedule = schedules.find((s) => s.id === move.scheduleId);
+  if (!schedule) {
+    throw new ScheduleSlotMoveError("Расписание не найдено");
+  }
+  if (schedule.rule) {
+    throw new ScheduleSlotMoveError("Расписание с правилом (cron, интервал, даты) изменяется в настройках канала");
+  }
+
+  const fromDay = getDayOfWeek(move.fromDate);
+  const toDay = getDayOfWeek(move.toDate);
+  if (!schedule.daysOfWeek.includes(fromDay)) {
+    throw new ScheduleSlotMoveError("Расписание не действует в день переносимого слота");
+  }
+
+  // Переносится единственный день расписания — меняем его целиком
+  if (schedule.daysOfWeek.length === 1) {
+    return schedules.map((s) => (s.id === schedule.id ? { ...s, daysOfWeek: [toDay], time: move.time } : s));
+  }
+
+  const { lastRunAt: _lastRunAt, ...scheduleWithoutRun } = schedule;
+  const remainingDays = schedule.daysOfWeek.filter((day) => day !== fromDay);
+  const moved: ChannelAutoSendSchedule = {
+    ...scheduleWithoutRun,
+    id: randomUUID(),
+    daysOfWeek: [toDay],
+    time: move.time
+  };
+
+  return schedules.flatMap((s) => (s.id === schedule.id ? [{ ...s, daysOfWeek: remainingDays }, moved] : [s]));
+}
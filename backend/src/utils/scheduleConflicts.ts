@@ -0,0 +1,191 @@
+import { formatLocalTimeInTimezone, getLocalDateInTimezone, zonedTimeToUtc } from "./scheduleRules";
+
+/**
+ * Конфликты расписаний между каналами.
+ *
+ * У каждого канала свой часовой пояс, поэтому времена "HH:MM" сначала переводятся
+ * в опорный часовой пояс пользователя (настройка расписания referenceTimezone),
+ * а уже потом сравниваются. Логика совпадает с src/utils/scheduleConflicts.ts на фронтенде.
+ */
+
+export const DEFAULT_REFERENCE_TIMEZONE = "Asia/Almaty";
+
+/**
+ * Что делать с новым временем, которое ближе минимального интервала к другим публикациям:
+ * reject — отклонить сохранение, shift — сдвинуть на ближайшее свободное время
+ */
+export type ScheduleConflictPolicy = "reject" | "shift";
+
+export const DEFAULT_SCHEDULE_CONFLICT_POLICY: ScheduleConflictPolicy = "reject";
+
+// Дальше чем на полсуток сдвигать бессмысленно — это уже другое время
+const MAX_SHIFT_MINUTES = 720;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ScheduleIntervalSettings {
+  minIntervalMinutes?: number;
+  minInterval_00_13?: number;
+  minInterval_13_17?: number;
+  minInterval_17_24?: number;
+}
+
+export interface SchedulePoint {
+  channelId: string;
+  channelName: string;
+  time: string; // "HH:MM" в часовом поясе канала
+  timezone: string;
+}
+
+export interface ScheduleConflict {
+  first: SchedulePoint;
+  second: SchedulePoint; // публикация, идущая следом за first в опорном времени
+  gapMinutes: number;
+  requiredMinutes: number;
+}
+
+/**
+ * Проверяет, что строка — известный Intl часовой пояс IANA
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || !timezone.trim()) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Переводит время "HH:MM" из часового пояса fromTimezone в toTimezone на календарный день now
+ */
+export function convertScheduleTime(time: string, fromTimezone: string, toTimezone: string, now: Date): string {
+  if (fromTimezone === toTimezone || !TIME_PATTERN.test(time)) {
+    return time;
+  }
+  const date = getLocalDateInTimezone(now, fromTimezone);
+  return formatLocalTimeInTimezone(zonedTimeToUtc(date, time, fromTimezone), toTimezone);
+}
+
+function timeToMinutes(time: string): number {
+  const [hh, mm] = time.split(":").map(Number);
+  return hh * 60 + mm;
+}
+
+function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Минимальный интервал для времени суток (минуты 0–1439 опорного времени)
+ */
+export function getMinIntervalForMinutes(minutes: number, settings: ScheduleIntervalSettings): number {
+  const h = Math.floor(minutes / 60);
+  const fallback = settings.minIntervalMinutes ?? 11;
+  if (h < 13) {
+    return settings.minInterval_00_13 ?? fallback;
+  }
+  if (h < 17) {
+    return settings.minInterval_13_17 ?? fallback;
+  }
+  return settings.minInterval_17_24 ?? fallback;
+}
+
+/**
+ * Находит пары соседних публикаций, между которыми меньше минимального интервала.
+ * Интервал берётся по времени суток следующей публикации, учитывается переход через полночь.
+ */
+export function findScheduleConflicts(
+  points: SchedulePoint[],
+  settings: ScheduleIntervalSettings,
+  referenceTimezone: string,
+  now: Date
+): ScheduleConflict[] {
+  const normalized = points
+    .filter((point) => TIME_PATTERN.test(point.time))
+    .map((point) => {
+      const minutes = timeToMinutes(convertScheduleTime(point.time, point.timezone, referenceTimezone, now));
+      return { point, minutes };
+    })
+    .sort((a, b) => a.minutes - b.minutes);
+
+  if (normalized.length < 2) {
+    return [];
+  }
+
+  const conflicts: ScheduleConflict[] = [];
+  for (let i = 0; i < normalized.length; i++) {
+    const current = normalized[i];
+    const isLast = i === normalized.length - 1;
+    const next = isLast ? normalized[0] : normalized[i + 1];
+    const gapMinutes = isLast ? next.minutes + 1440 - current.minutes : next.minutes - current.minutes;
+    const requiredMinutes = getMinIntervalForMinutes(next.minutes, settings);
+    if (gapMinutes < requiredMinutes) {
+      conflicts.push({ first: current.point, second: next.point, gapMinutes, requiredMinutes });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Можно ли поставить публикацию между уже размещёнными (минуты опорного времени):
+ * до предыдущей — не меньше интервала для новой, до следующей — не меньше интервала следующей.
+ * Правило то же, что в findScheduleConflicts.
+ */
+function fitsBetweenNeighbors(minutes: number, placed: number[], settings: ScheduleIntervalSettings): boolean {
+  let sincePrevious = Infinity;
+  let untilNext = Infinity;
+  let next = minutes;
+  for (const other of placed) {
+    const after = (minutes - other + 1440) % 1440;
+    const before = (other - minutes + 1440) % 1440;
+    if (after === 0) {
+      return false;
+    }
+    if (after < sincePrevious) {
+      sincePrevious = after;
+    }
+    if (before < untilNext) {
+      untilNext = before;
+      next = other;
+    }
+  }
+  return (
+    sincePrevious >= getMinIntervalForMinutes(minutes, settings) &&
+    untilNext >= getMinIntervalForMinutes(next, settings)
+  );
+}
+
+/**
+ * Ближайшее к point.time время, которое не ближе минимального интервала ни к одной из placed
+ * (при равном сдвиге — более позднее). Возвращает время в часовом поясе point или null.
+ */
+export function findNearestFreeTime(
+  point: SchedulePoint,
+  placed: SchedulePoint[],
+  settings: ScheduleIntervalSettings,
+  referenceTimezone: string,
+  now: Date
+): string | null {
+  if (!TIME_PATTERN.test(point.time)) {
+    return null;
+  }
+  const placedMinutes = placed
+    .filter((other) => TIME_PATTERN.test(other.time))
+    .map((other) => timeToMinutes(convertScheduleTime(other.time, other.timezone, referenceTimezone, now)));
+  const origin = timeToMinutes(convertScheduleTime(point.time, point.timezone, referenceTimezone, now));
+
+  for (let shift = 0; shift <= MAX_SHIFT_MINUTES; shift++) {
+    const candidates = shift === 0 ? [origin] : [origin + shift, origin - shift];
+    for (const candidate of candidates) {
+      const minutes = (candidate + 1440) % 1440;
+      if (fitsBetweenNeighbors(minutes, placedMinutes, settings)) {
+        return convertScheduleTime(minutesToTime(minutes), referenceTimezone, point.timezone, now);
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,529 @@
+/**
+ * Правила расписания автоотправки.
+ *
+ * Помимо классического формата (daysOfWeek + time) расписание может содержать rule:
+ * - cron     — 5-полевое cron-выражение в часовом поясе канала
+ *              (поддерживаются *, списки, диапазоны, шаги, имена MON/JAN,
+ *               L в дне месяца, 5L — последняя пятница, 5#2 — вторая пятница);
+ * - interval — каждые N минут между startTime и endTime (включительно);
+ * - dates    — конкретные даты в указанное время.
+ *
+ * Все вычисления ведутся в локальном (настенном) времени канала.
+ * Файл существует в двух копиях — backend/src/utils и src/utils: общие объявления должны совпадать
+ * (проверяет backend/src/utils/__tests__/scheduleRulesSync.test.ts).
+ */
+
+export type ScheduleRule =
+  | { type: "cron"; expression: string }
+  | {
+      type: "interval";
+      everyMinutes: number;
+      startTime: string; // "HH:MM"
+      endTime: string; // "HH:MM"
+      daysOfWeek?: number[] | null; // 0–6; пусто — каждый день
+    }
+  | { type: "dates"; dates: string[]; times: string[] }; // "YYYY-MM-DD", "HH:MM"
+
+/**
+ * Минимальная форма расписания, которую понимают функции этого модуля
+ */
+export interface ScheduleWithRule {
+  enabled: boolean;
+  daysOfWeek: number[];
+  time: string;
+  rule?: ScheduleRule | null;
+  validFrom?: string | null; // "YYYY-MM-DD" включительно
+  validUntil?: string | null; // "YYYY-MM-DD" включительно
+}
+
+/**
+ * Календарная дата в часовом поясе канала
+ */
+export interface LocalDate {
+  year: number;
+  month: number; // 1–12
+  day: number;
+  dayOfWeek: number; // 0 = воскресенье
+}
+
+export const MIN_INTERVAL_EVERY_MINUTES = 15;
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function timeToMinutes(time: string): number | null {
+  if (!TIME_PATTERN.test(time)) return null;
+  const [hours, minutes] = time.split(":").map(Number);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function formatLocalDateKey(date: Pick<LocalDate, "year" | "month" | "day">): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+/**
+ * Календарная дата момента date в часовом поясе timezone
+ */
+export function getLocalDateInTimezone(date: Date, timezone: string): LocalDate {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short"
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return {
+    year: parseInt(get("year"), 10),
+    month: parseInt(get("month"), 10),
+    day: parseInt(get("day"), 10),
+    dayOfWeek: DAY_NAMES.indexOf(get("weekday").toUpperCase())
+  };
+}
+
+/**
+ * Время "HH:MM" момента date в часовом поясе timezone
+ */
+export function formatLocalTimeInTimezone(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  return minutesToTime((get("hour") % 24) * 60 + get("minute"));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// ---------------------------------------------------------------------------
+// Cron
+// ---------------------------------------------------------------------------
+
+interface CronField {
+  any: boolean;
+  values: Set<number>;
+}
+
+interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField & { last: boolean };
+  months: CronField;
+  daysOfWeek: CronField & { last: Set<number>; nth: Array<{ dayOfWeek: number; n: number }> };
+}
+
+function parseCronValue(raw: string, names?: string[], nameOffset = 0): number {
+  const upper = raw.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + nameOffset;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Некорректное значение "${raw}"`);
+  }
+  return parseInt(raw, 10);
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): CronField {
+  const result: CronField = { any: false, values: new Set() };
+
+  for (const part of field.split(",")) {
+    if (!part) throw new Error("Пустой элемент списка");
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+    if (!Number.isFinite(step) || step < 1) {
+      throw new Error(`Некорректный шаг "${stepPart}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangePart === "*" || rangePart === "?") {
+      from = min;
+      to = max;
+      if (stepPart === undefined) {
+        result.any = true;
+      }
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      from = parseCronValue(a, names, nameOffset);
+      to = parseCronValue(b, names, nameOffset);
+    } else {
+      from = parseCronValue(rangePart, names, nameOffset);
+      to = stepPart !== undefined ? max : from;
+    }
+
+    if (from < min || to > max || from > to) {
+      throw new Error(`Значение вне диапазона ${min}–${max}: "${part}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      result.values.add(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Разбирает 5-полевое cron-выражение: минута час день_месяца месяц день_недели.
+ * Бросает Error с понятным сообщением, если выражение некорректно.
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron-выражение должно содержать 5 полей: минута час день месяц день_недели");
+  }
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  const daysOfMonth = { ...parseCronField(domField === "L" ? "*" : domField, 1, 31), last: domField === "L" };
+  if (daysOfMonth.last) {
+    daysOfMonth.any = false;
+    daysOfMonth.values = new Set();
+  }
+
+  // День недели: поддерживаем 5L (последняя пятница месяца) и 5#2 (вторая пятница)
+  const daysOfWeek: ParsedCron["daysOfWeek"] = { any: false, values: new Set(), last: new Set(), nth: [] };
+  const plainDowParts: string[] = [];
+  for (const part of dowField.split(",")) {
+    const lastMatch = part.match(/^(\w+)L$/i);
+    const nthMatch = part.match(/^(\w+)#([1-5])$/);
+    if (lastMatch && part.toUpperCase() !== "L") {
+      daysOfWeek.last.add(parseCronValue(lastMatch[1], DAY_NAMES) % 7);
+    } else if (nthMatch) {
+      daysOfWeek.nth.push({ dayOfWeek: parseCronValue(nthMatch[1], DAY_NAMES) % 7, n: parseInt(nthMatch[2], 10) });
+    } else {
+      plainDowParts.push(part);
+    }
+  }
+  if (plainDowParts.length > 0) {
+    const plain = parseCronField(plainDowParts.join(","), 0, 7, DAY_NAMES);
+    daysOfWeek.any = plain.any && daysOfWeek.last.size === 0 && daysOfWeek.nth.length === 0;
+    plain.values.forEach((value) => daysOfWeek.values.add(value % 7));
+  }
+
+  return {
+    minutes: parseCronField(minuteField, 0, 59),
+    hours: parseCronField(hourField, 0, 23),
+    daysOfMonth,
+    months: parseCronField(monthField, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek
+  };
+}
+
+function cronMatchesDate(cron: ParsedCron, date: LocalDate): boolean {
+  if (!cron.months.any && !cron.months.values.has(date.month)) {
+    return false;
+  }
+
+  const lastDay = daysInMonth(date.year, date.month);
+  const domRestricted = !cron.daysOfMonth.any;
+  const dowRestricted = !cron.daysOfWeek.any;
+
+  const domMatches =
+    cron.daysOfMonth.any ||
+    cron.daysOfMonth.values.has(date.day) ||
+    (cron.daysOfMonth.last && date.day === lastDay);
+
+  const dowMatches =
+    cron.daysOfWeek.any ||
+    cron.daysOfWeek.values.has(date.dayOfWeek) ||
+    (cron.daysOfWeek.last.has(date.dayOfWeek) && date.day + 7 > lastDay) ||
+    cron.daysOfWeek.nth.some((nth) => nth.dayOfWeek === date.dayOfWeek && Math.ceil(date.day / 7) === nth.n);
+
+  // Как в классическом cron: если ограничены оба поля, достаточно совпадения любого
+  if (domRestricted && dowRestricted) {
+    return domMatches || dowMatches;
+  }
+  return domMatches && dowMatches;
+}
+
+// Сколько дней просматривать в поиске двух срабатываний подряд: 8 лет покрывают
+// все сочетания дня месяца, дня недели и високосного года
+const CRON_SCAN_DAYS = 8 * 366;
+
+function cronMatchesConsecutiveDays(cron: ParsedCron): boolean {
+  let previousMatches = false;
+  for (let offset = 0; offset < CRON_SCAN_DAYS; offset++) {
+    const day = new Date(Date.UTC(2024, 0, 1 + offset));
+    const matches = cronMatchesDate(cron, {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      dayOfWeek: day.getUTCDay()
+    });
+    if (matches && previousMatches) {
+      return true;
+    }
+    previousMatches = matches;
+  }
+  return false;
+}
+
+function hasConsecutiveDates(dates: string[]): boolean {
+  const days = Array.from(new Set(dates))
+    .map((date) => Date.parse(`${date}T00:00:00Z`) / (24 * 60 * 60 * 1000))
+    .sort((a, b) => a - b);
+  return days.some((day, i) => i > 0 && day - days[i - 1] === 1);
+}
+
+/**
+ * Есть ли среди времён суток (минуты от полуночи, по возрастанию) соседние ближе minGapMinutes.
+ * Переход через полночь учитывается, только если правило срабатывает два дня подряд.
+ */
+function hasRunsCloserThan(times: number[], minGapMinutes: number, runsOnConsecutiveDays: () => boolean): boolean {
+  if (times.length === 0) {
+    return false;
+  }
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] < minGapMinutes) {
+      return true;
+    }
+  }
+  const overnightGap = times[0] + 24 * 60 - times[times.length - 1];
+  return overnightGap < minGapMinutes && runsOnConsecutiveDays();
+}
+
+function hasCronRunsCloserThan(cron: ParsedCron, minGapMinutes: number): boolean {
+  const hours = Array.from(cron.hours.values).sort((a, b) => a - b);
+  const minutes = Array.from(cron.minutes.values).sort((a, b) => a - b);
+  const times = hours.flatMap((hour) => minutes.map((minute) => hour * 60 + minute));
+  return hasRunsCloserThan(times, minGapMinutes, () => cronMatchesConsecutiveDays(cron));
+}
+
+// ---------------------------------------------------------------------------
+// Правила
+// ---------------------------------------------------------------------------
+
+/**
+ * Проверяет правило. Возвращает текст ошибки или null, если правило корректно.
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | null {
+  switch (rule.type) {
+    case "cron": {
+      let cron: ParsedCron;
+      try {
+        cron = parseCronExpression(rule.expression || "");
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      if (hasCronRunsCloserThan(cron, MIN_INTERVAL_EVERY_MINUTES)) {
+        return `Между запусками по cron должно быть не меньше ${MIN_INTERVAL_EVERY_MINUTES} минут`;
+      }
+      return null;
+    }
+    case "interval": {
+      const start = timeToMinutes(rule.startTime);
+      const end = timeToMinutes(rule.endTime);
+      if (start === null || end === null) {
+        return "Начало и конец интервала должны быть в формате HH:MM";
+      }
+      if (end < start) {
+        return "Конец интервала должен быть не раньше начала";
+      }
+      if (!Number.isInteger(rule.everyMinutes) || rule.everyMinutes < MIN_INTERVAL_EVERY_MINUTES) {
+        return `Интервал должен быть не меньше ${MIN_INTERVAL_EVERY_MINUTES} минут`;
+      }
+      return null;
+    }
+    case "dates":
+      if (!Array.isArray(rule.dates) || rule.dates.length === 0) {
+        return "Укажите хотя бы одну дату";
+      }
+      if (rule.dates.some((date) => !DATE_PATTERN.test(date))) {
+        return "Даты должны быть в формате YYYY-MM-DD";
+      }
+      if (!Array.isArray(rule.times) || rule.times.length === 0 || rule.times.some((t) => timeToMinutes(t) === null)) {
+        return "Укажите время в формате HH:MM";
+      }
+      if (
+        hasRunsCloserThan(
+          rule.times.map((time) => timeToMinutes(time)!).sort((a, b) => a - b),
+          MIN_INTERVAL_EVERY_MINUTES,
+          () => hasConsecutiveDates(rule.dates)
+        )
+      ) {
+        return `Между запусками в один день должно быть не меньше ${MIN_INTERVAL_EVERY_MINUTES} минут`;
+      }
+      return null;
+    default:
+      return "Неизвестный тип правила";
+  }
+}
+
+/**
+ * Возвращает времена срабатывания правила в указанную локальную дату (отсортированные "HH:MM")
+ */
+export function getRuleTimesForDate(rule: ScheduleRule, date: LocalDate): string[] {
+  switch (rule.type) {
+    case "cron": {
+      let cron: ParsedCron;
+      try {
+        cron = parseCronExpression(rule.expression);
+      } catch {
+        return [];
+      }
+      if (!cronMatchesDate(cron, date)) {
+        return [];
+      }
+      const times: string[] = [];
+      const hours = Array.from(cron.hours.values).sort((a, b) => a - b);
+      const minutes = Array.from(cron.minutes.values).sort((a, b) => a - b);
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          times.push(minutesToTime(hour * 60 + minute));
+        }
+      }
+      return times;
+    }
+    case "interval": {
+      const start = timeToMinutes(rule.startTime);
+      const end = timeToMinutes(rule.endTime);
+      if (start === null || end === null || rule.everyMinutes < MIN_INTERVAL_EVERY_MINUTES) {
+        return [];
+      }
+      if (rule.daysOfWeek && rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(date.dayOfWeek)) {
+        return [];
+      }
+      const times: string[] = [];
+      for (let minutes = start; minutes <= end; minutes += rule.everyMinutes) {
+        times.push(minutesToTime(minutes));
+      }
+      return times;
+    }
+    case "dates": {
+      if (!rule.dates.includes(formatLocalDateKey(date))) {
+        return [];
+      }
+      return rule.times.filter((time) => timeToMinutes(time) !== null).sort();
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Действует ли расписание в указанную дату (диапазон validFrom–validUntil)
+ */
+export function isScheduleValidOnDate(schedule: ScheduleWithRule, date: LocalDate): boolean {
+  const key = formatLocalDateKey(date);
+  if (schedule.validFrom && key < schedule.validFrom) return false;
+  if (schedule.validUntil && key > schedule.validUntil) return false;
+  return true;
+}
+
+/**
+ * Возвращает все времена срабатывания включённого расписания в локальную дату.
+ * Без rule используется классический формат daysOfWeek + time.
+ */
+export function getScheduleTimesForDate(schedule: ScheduleWithRule, date: LocalDate): string[] {
+  if (!schedule.enabled || !isScheduleValidOnDate(schedule, date)) {
+    return [];
+  }
+  if (schedule.rule) {
+    return getRuleTimesForDate(schedule.rule, date);
+  }
+  if (!schedule.time || timeToMinutes(schedule.time) === null) {
+    return [];
+  }
+  return (schedule.daysOfWeek || []).includes(date.dayOfWeek) ? [schedule.time] : [];
+}
+
+// ---------------------------------------------------------------------------
+// Перевод в UTC
+// ---------------------------------------------------------------------------
+
+/**
+ * Смещение часового пояса (мс) относительно UTC в момент utcMs
+ */
+function getTimezoneOffsetMs(utcMs: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  const hour = get("hour") === 24 ? 0 : get("hour");
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), hour, get("minute"), get("second"));
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Переводит локальное (настенное) время канала в момент UTC.
+ * Для несуществующего времени (переход на летнее) возвращает момент сразу после перехода.
+ */
+export function zonedTimeToUtc(date: Pick<LocalDate, "year" | "month" | "day">, time: string, timezone: string): Date {
+  const minutes = timeToMinutes(time) ?? 0;
+  const wallMs = Date.UTC(date.year, date.month - 1, date.day, Math.floor(minutes / 60), minutes % 60);
+  let utcMs = wallMs - getTimezoneOffsetMs(wallMs, timezone);
+  // Второй проход уточняет смещение, если между догадкой и ответом был переход времени
+  utcMs = wallMs - getTimezoneOffsetMs(utcMs, timezone);
+  return new Date(utcMs);
+}
+
+export interface ScheduleOccurrence {
+  at: Date; // момент срабатывания в UTC
+  localDate: string; // "YYYY-MM-DD" в часовом поясе канала
+  time: string; // "HH:MM" в часовом поясе канала
+}
+
+/**
+ * Все срабатывания расписания в полуинтервале (fromUtc, toUtc], по возрастанию
+ */
+export function getScheduleOccurrencesBetween(
+  schedule: ScheduleWithRule,
+  fromUtc: Date,
+  toUtc: Date,
+  timezone: string
+): ScheduleOccurrence[] {
+  if (toUtc <= fromUtc) {
+    return [];
+  }
+
+  const occurrences: ScheduleOccurrence[] = [];
+  const first = getLocalDateInTimezone(fromUtc, timezone);
+  const lastKey = formatLocalDateKey(getLocalDateInTimezone(toUtc, timezone));
+  const cursor = new Date(Date.UTC(first.year, first.month - 1, first.day));
+
+  for (let guard = 0; guard < 400; guard++) {
+    const date: LocalDate = {
+      year: cursor.getUTCFullYear(),
+      month: cursor.getUTCMonth() + 1,
+      day: cursor.getUTCDate(),
+      dayOfWeek: cursor.getUTCDay()
+    };
+    const key = formatLocalDateKey(date);
+    if (key > lastKey) break;
+
+    for (const time of getScheduleTimesForDate(schedule, date)) {
+      const at = zonedTimeToUtc(date, time, timezone);
+      if (at > fromUtc && at <= toUtc) {
+        occurrences.push({ at, localDate: key, time });
+      }
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return occurrences.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
@@ -0,0 +1,41 @@
+import { SECRET_KINDS, type SecretKind } from "../types/secret";
+
+const MAX_SECRET_LENGTH = 1000;
+
+export function isSecretKind(value: unknown): value is SecretKind {
+  return typeof value === "string" && (SECRET_KINDS as string[]).includes(value);
+}
+
+/**
+ * Id документа секрета: один секрет каждого вида на канал и один ключ по умолчанию на пользователя
+ */
+export function getSecretId(kind: SecretKind, channelId?: string | null): string {
+  return channelId ? `channel_${channelId}_${kind}` : `user_${kind}`;
+}
+
+/**
+ * Последние символы значения для маски. У коротких значений не раскрываем ничего.
+ */
+export function getSecretLast4(value: string): string {
+  return value.length >= 12 ? value.slice(-4) : "";
+}
+
+export function maskSecret(last4: string): string {
+  return `••••${last4}`;
+}
+
+/**
+ * Нормализует и проверяет значение перед шифрованием. Возвращает текст ошибки или null.
+ */
+export function validateSecretValue(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return "Значение секрета не может быть пустым";
+  }
+  if (value.trim().length > MAX_SECRET_LENGTH) {
+    return `Значение секрета длиннее ${MAX_SECRET_LENGTH} символов`;
+  }
+  if (/\s/.test(value.trim())) {
+    return "Значение секрета не должно содержать пробелов";
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import type { GenerationTransport } from "../types/channel";
+
+/**
+ * Разнесение отправок промптов во времени.
+ *
+ * Промпты через одну сессию SyntX (глобальную или личную сессию пользователя) уходят
+ * не чаще минимального интервала расписания, даже если слоты нескольких каналов совпали:
+ * каждая отправка резервирует окно, следующая ждёт его окончания.
+ */
+
+export interface SendSlotReservation {
+  startAt: Date; // когда можно отправлять
+  nextFreeAt: Date; // с какого момента сессия свободна для следующей отправки
+}
+
+/**
+ * Ключ очереди отправок: одна на сессию SyntX. Для внешних генераторов (HTTP API, заглушка) — null,
+ * их отправки не разносятся.
+ */
+export function getSendThrottleKey(transport: GenerationTransport | undefined, userId: string): string | null {
+  if (transport === "telegram_user") {
+    return `telegram_user_${userId}`;
+  }
+  if (!transport || transport === "telegram_global") {
+    return "telegram_global";
+  }
+  return null;
+}
+
+/**
+ * Резервирует окно отправки: сразу, если сессия свободна, иначе — в момент её освобождения
+ */
+export function reserveSendSlot(
+  nextFreeAt: Date | null,
+  now: Date,
+  intervalMinutes: number
+): SendSlotReservation {
+  const startMs = Math.max(now.getTime(), nextFreeAt?.getTime() ?? 0);
+  return {
+    startAt: new Date(startMs),
+    nextFreeAt: new Date(startMs + Math.max(0, intervalMinutes) * 60 * 1000)
+  };
+}
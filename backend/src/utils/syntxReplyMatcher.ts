@@ -0,0 +1,105 @@
+/**
+ * Сопоставление ответов SyntX с промптами, на которые они пришли.
+ * SyntX отвечает на промпт видео-сообщением с reply-to на исходное сообщение;
+ * это однозначная связь. Для ответов без reply-to остаётся эвристика «первое видео после промпта».
+ */
+
+export interface SyntxReplyCandidate {
+  id: number;
+  replyToMsgId: number | null;
+  hasVideo: boolean;
+}
+
+export interface PendingSyntxPrompt {
+  promptMessageId: number;
+  startedAt: number; // когда начали ждать ответ (ms)
+  replied?: boolean; // первое видео уже пришло: ждём только варианты с reply-to
+}
+
+/**
+ * Есть ли в сообщении Telegram видео (как video или как документ с видео-атрибутом)
+ */
+export function messageHasVideo(msg: any): boolean {
+  if (!msg) {
+    return false;
+  }
+  const hasVideo = msg.video != null && !msg.video.deleted;
+  const doc = msg.document;
+  const hasDocVideo =
+    doc != null &&
+    Array.isArray(doc.attributes) &&
+    doc.attributes.some(
+      (attr: any) => attr?.className === "DocumentAttributeVideo" || attr?.className === "MessageMediaDocument"
+    ) &&
+    (doc.mimeType?.startsWith("video/") ||
+      doc.mimeType === "application/octet-stream" ||
+      /\.(mp4|avi|mov|mkv|webm)$/i.test(doc.fileName ?? ""));
+  return Boolean(hasVideo || hasDocVideo);
+}
+
+/**
+ * Приводит сообщение GramJS к виду, удобному для сопоставления
+ */
+export function toSyntxReplyCandidate(msg: any): SyntxReplyCandidate | null {
+  if (!msg || typeof msg.id !== "number") {
+    return null;
+  }
+  const replyTo = msg.replyTo?.replyToMsgId;
+  return {
+    id: msg.id,
+    replyToMsgId: typeof replyTo === "number" ? replyTo : null,
+    hasVideo: messageHasVideo(msg)
+  };
+}
+
+/**
+ * К какому из ожидающих промптов относится новое видео-сообщение.
+ * Возвращает promptMessageId или null, если сообщение не ответ на ожидаемый промпт.
+ */
+export function matchSyntxReply(message: SyntxReplyCandidate, pending: PendingSyntxPrompt[]): number | null {
+  if (!message.hasVideo || pending.length === 0) {
+    return null;
+  }
+  if (message.replyToMsgId !== null) {
+    return pending.some((p) => p.promptMessageId === message.replyToMsgId) ? message.replyToMsgId : null;
+  }
+  // Без reply-to: SyntX обрабатывает промпты по очереди — отдаём самому раннему из отправленных до сообщения,
+  // который ещё не получил видео
+  const earlier = pending
+    .filter((p) => !p.replied && p.promptMessageId < message.id)
+    .sort((a, b) => a.promptMessageId - b.promptMessageId);
+  return earlier.length > 0 ? earlier[0].promptMessageId : null;
+}
+
+/**
+ * Выбирает видео для промпта из истории чата: сначала ответ с reply-to на промпт,
+ * иначе самое свежее видео после промпта (без reply-to на другие сообщения).
+ */
+export function pickVideoForPrompt(messages: SyntxReplyCandidate[], promptMessageId?: number): number | null {
+  const videos = messages.filter((m) => m.hasVideo).sort((a, b) => b.id - a.id);
+  if (!promptMessageId) {
+    return videos.length > 0 ? videos[0].id : null;
+  }
+  const reply = videos.find((m) => m.replyToMsgId === promptMessageId);
+  if (reply) {
+    return reply.id;
+  }
+  const after = videos.find((m) => m.id > promptMessageId && m.replyToMsgId === null);
+  return after ? after.id : null;
+}
+
+/**
+ * Все видео-ответы (reply-to) на промпт по возрастанию ID — варианты и перегенерации одного ролика.
+ * Если ответов с reply-to нет, вариантом считается видео, выбранное эвристикой pickVideoForPrompt.
+ */
+export function collectPromptVideoReplies(messages: SyntxReplyCandidate[], promptMessageId: number): number[] {
+  const replies = messages
+    .filter((m) => m.hasVideo && m.replyToMsgId === promptMessageId)
+    .map((m) => m.id)
+    .sort((a, b) => a - b);
+  if (replies.length > 0) {
+    return replies;
+  }
+  const fallback = pickVideoForPrompt(messages, promptMessageId);
+  return fallback !== null ? [fallback] : [];
+}
@@ -4,6 +4,13 @@ import { randomUUID } from "crypto";
 import type { TelegramClient } from "telegram";
 import type { Api } from "telegram";
 import { Logger } from "./logger";
+import {
+  collectPromptVideoReplies,
+  messageHasVideo,
+  pickVideoForPrompt,
+  toSyntxReplyCandidate,
+  type SyntxReplyCandidate
+} from "./syntxReplyMatcher";
 
 // Используем process.cwd() для определения корня проекта (backend/)
 // Это работает и в dev режиме (ts-node-dev), и после компиляции (dist/)
@@ -28,33 +35,44 @@ async function ensureTmpDir(): Promise<void> {
  * @param client - Telegram клиент
  * @param messageId - ID сообщения с видео (опционально, если не указан - ищет последнее)
  * @param chatId - ID чата (например, SYNX_CHAT_ID)
+ * @param options.videoMessageId - ID сообщения с видео, если он уже известен (ответ SyntX с reply-to)
  * @returns Путь к временному файлу и имя файла
  */
 export async function downloadTelegramVideoToTemp(
   client: TelegramClient,
   chatId: string | number,
-  messageId?: number
+  messageId?: number,
+  options: { videoMessageId?: number } = {}
 ): Promise<{ tempPath: string; fileName: string; messageId: number }> {
   await ensureTmpDir();
 
   let videoMessage: Api.Message;
 
   try {
-    // ИСПРАВЛЕНИЕ: Если указан messageId, это обычно ID промпта (текстового сообщения),
-    // а не видео. Видео приходит позже. Поэтому мы НЕ пытаемся получить сообщение с этим ID,
-    // а ищем последнее видео ПОСЛЕ этого messageId.
-    // Всегда ищем последнее видео в чате, но если messageId указан, фильтруем только видео после него
-    
-    // Ищем последнее видео в чате
-    // Если messageId передан, ищем видео ПОСЛЕ этого сообщения (для автоматического скачивания)
-    Logger.info("Searching for latest video in Telegram chat", {
-      chatId,
-      limit: messageId ? 100 : 50,
-      afterMessageId: messageId || "not specified",
-      note: messageId 
-        ? "Will search for video after this prompt message ID" 
-        : "Will search for latest video in chat"
-    });
+    // messageId — это ID промпта (текстового сообщения), а не видео: видео приходит позже.
+    // Если слушатель ответов SyntX уже нашёл видео, скачиваем его по ID;
+    // иначе ищем в истории чата ответ на промпт (reply-to) или последнее видео после него.
+    if (options.videoMessageId) {
+      // ID видео уже известен (его нашёл слушатель ответов SyntX) — берём сообщение напрямую
+      const found = (await client.getMessages(chatId, { ids: [options.videoMessageId] })) as Api.Message[];
+      const message = found.find((msg) => msg && msg.id === options.videoMessageId);
+      if (!message || !messageHasVideo(message)) {
+        throw new Error(`NO_VIDEO_FOUND: Сообщение ${options.videoMessageId} с видео не найдено в чате.`);
+      }
+      videoMessage = message;
+      Logger.info("Using video message reported by SyntX reply listener", {
+        videoMessageId: options.videoMessageId,
+        promptMessageId: messageId || "not specified"
+      });
+    } else {
+      Logger.info("Searching for latest video in Telegram chat", {
+        chatId,
+        limit: messageId ? 100 : 50,
+        afterMessageId: messageId || "not specified",
+        note: messageId 
+          ? "Will search for video after this prompt message ID" 
+          : "Will search for latest video in chat"
+      });
 
       let messages: Api.Message[];
       try {
@@ -139,89 +157,13 @@ export async function downloadTelegramVideoToTemp(
 
       Logger.info(`Received ${messages.length} messages from Telegram chat`);
 
-      // Фильтруем сообщения с видео
-      // Если messageId указан, фильтруем только сообщения ПОСЛЕ него (с большим ID)
-      const videoMessages = messages
-        .filter((msg) => {
-          // Если указан messageId, берём только сообщения после него
-          if (messageId) {
-            const msgId = (msg as any).id;
-            if (typeof msgId === "number" && msgId <= messageId) {
-              return false; // Пропускаем сообщения до или равные messageId промпта
-            }
-          }
-          
-          try {
-            // Проверяем наличие video attachment
-            const hasVideo =
-              "video" in msg &&
-              (msg as any).video != null &&
-              !(msg as any).video.deleted;
-
-            // Проверяем наличие document с видео-атрибутом
-            const doc = (msg as any).document;
-            const hasDocVideo =
-              doc != null &&
-              Array.isArray(doc.attributes) &&
-              doc.attributes.some(
-                (attr: any) =>
-                  attr?.className === "DocumentAttributeVideo" ||
-                  attr?.className === "MessageMediaDocument"
-              ) &&
-              // Дополнительная проверка MIME типа для документов
-              (doc.mimeType?.startsWith("video/") ||
-                doc.mimeType === "application/octet-stream" ||
-                doc.fileName?.match(/\.(mp4|avi|mov|mkv|webm)$/i));
-
-            return hasVideo || hasDocVideo;
-          } catch (filterError) {
-            Logger.warn("Error filtering video message", {
-              messageId: (msg as any).id,
-              error: String(filterError)
-            });
-            return false;
-          }
-        })
-        .sort((a, b) => {
-          // Сортируем по дате (самое свежее первым)
-          let dateA = 0;
-          let dateB = 0;
-
-          try {
-            const msgA = a as any;
-            const msgB = b as any;
-
-            if (msgA.date) {
-              dateA =
-                msgA.date instanceof Date
-                  ? msgA.date.getTime()
-                  : typeof msgA.date === "number"
-                    ? msgA.date * 1000
-                    : new Date(msgA.date).getTime();
-            } else if (msgA.id) {
-              dateA = msgA.id;
-            }
-
-            if (msgB.date) {
-              dateB =
-                msgB.date instanceof Date
-                  ? msgB.date.getTime()
-                  : typeof msgB.date === "number"
-                    ? msgB.date * 1000
-                    : new Date(msgB.date).getTime();
-            } else if (msgB.id) {
-              dateB = msgB.id;
-            }
-          } catch (sortError) {
-            Logger.warn("Error sorting messages by date", {
-              error: String(sortError)
-            });
-          }
-
-          return dateB - dateA; // Сортируем по убыванию (новые первыми)
-        });
+      // Сначала ищем ответ SyntX с reply-to на промпт, затем — самое свежее видео после промпта
+      const candidates = messages
+        .map((msg) => toSyntxReplyCandidate(msg))
+        .filter((candidate): candidate is SyntxReplyCandidate => candidate !== null);
+      const videoMessageId = pickVideoForPrompt(candidates, messageId);
 
-      if (videoMessages.length === 0) {
+      if (videoMessageId === null) {
         if (messageId) {
           throw new Error(
             `NO_VIDEO_FOUND: Видео ещё не готово в чате после сообщения ${messageId}. ` +
@@ -234,13 +176,15 @@ export async function downloadTelegramVideoToTemp(
         }
       }
 
-      videoMessage = videoMessages[0];
-      
+      videoMessage = messages.find((msg) => msg.id === videoMessageId) as Api.Message;
+
       Logger.info("Found video message after filtering", {
-        videoMessageId: (videoMessage as any).id,
+        videoMessageId,
         promptMessageId: messageId || "not specified",
-        totalVideoMessages: videoMessages.length
+        isReply: candidates.some((c) => c.id === videoMessageId && c.replyToMsgId === messageId),
+        totalVideoMessages: candidates.filter((c) => c.hasVideo).length
       });
+    }
 
     Logger.info("Video message found, preparing to download", {
       messageId: videoMessage.id,
@@ -492,6 +436,37 @@ export async function downloadTelegramVideoToTemp(
   }
 }
 
+/**
+ * Возвращает ID всех видео-ответов SyntX на промпт (варианты и перегенерации) по возрастанию
+ * @param client - Telegram клиент
+ * @param chatId - ID чата SyntX
+ * @param promptMessageId - ID сообщения с промптом
+ */
+export async function listVideoRepliesToPrompt(
+  client: TelegramClient,
+  chatId: string,
+  promptMessageId: number
+): Promise<number[]> {
+  const messages = await Promise.race([
+    client.getMessages(chatId, { limit: 100, minId: promptMessageId }) as Promise<Api.Message[]>,
+    new Promise<Api.Message[]>((_, reject) =>
+      setTimeout(() => reject(new Error("Get messages timeout after 30 seconds")), 30000)
+    )
+  ]);
+  const candidates = messages
+    .map((msg) => toSyntxReplyCandidate(msg))
+    .filter((c): c is SyntxReplyCandidate => c !== null);
+  return collectPromptVideoReplies(candidates, promptMessageId);
+}
+
+/**
+ * Путь для нового временного видеофайла (используется генераторами, которые отдают видео не через Telegram)
+ */
+export async function createTempVideoPath(extension = ".mp4"): Promise<string> {
+  await ensureTmpDir();
+  return path.join(TMP_DIR, `${Date.now()}_${randomUUID().slice(0, 8)}${extension}`);
+}
+
 /**
  * Удаляет временный файл
  * @param tempPath - Путь к временному файлу
@@ -0,0 +1,129 @@
+import type { Channel } from "../types/channel";
+import type { PipelineRun, PipelineVariantSelection } from "../types/pipelineRun";
+import { getDirectPublishPlatforms, getPlatformPublisher } from "./publishTargets";
+
+/**
+ * Варианты видео одного промпта и распределение их по платформам Blotato.
+ */
+
+const DEFAULT_VARIANT_HOLD_MINUTES = 30;
+
+// Платформа → поле канала с ID аккаунта Blotato
+const BLOTATO_PLATFORM_FIELDS = {
+  youtube: "blotataYoutubeId",
+  tiktok: "blotataTiktokId",
+  instagram: "blotataInstagramId",
+  facebook: "blotataFacebookId",
+  threads: "blotataThreadsId",
+  twitter: "blotataTwitterId",
+  linkedin: "blotataLinkedinId",
+  pinterest: "blotataPinterestId",
+  bluesky: "blotataBlueskyId"
+} as const satisfies Record<string, keyof Channel>;
+
+export type BlotatoPlatform = keyof typeof BLOTATO_PLATFORM_FIELDS;
+
+export const BLOTATO_PLATFORMS = Object.keys(BLOTATO_PLATFORM_FIELDS) as BlotatoPlatform[];
+
+/**
+ * Сколько монитор Blotato ждёт выбора варианта (VIDEO_VARIANT_HOLD_MINUTES, по умолчанию 30 минут)
+ */
+export function getVariantHoldMinutes(): number {
+  const value = Number(process.env.VIDEO_VARIANT_HOLD_MINUTES);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_VARIANT_HOLD_MINUTES;
+}
+
+/**
+ * Платформы публикации канала: с аккаунтом Blotato либо назначенные другому публикатору
+ */
+export function getChannelPublishPlatforms(channel: Channel): BlotatoPlatform[] {
+  const direct = getDirectPublishPlatforms(channel);
+  return BLOTATO_PLATFORMS.filter((platform) =>
+    getPlatformPublisher(channel, platform) === "blotato"
+      ? Boolean(channel[BLOTATO_PLATFORM_FIELDS[platform]])
+      : direct.includes(platform)
+  );
+}
+
+/**
+ * Копия канала, в которой оставлены аккаунты только указанных платформ
+ */
+export function restrictChannelToPlatforms(channel: Channel, platforms: string[]): Channel {
+  const restricted: Channel = { ...channel };
+  for (const platform of BLOTATO_PLATFORMS) {
+    if (!platforms.includes(platform)) {
+      restricted[BLOTATO_PLATFORM_FIELDS[platform]] = undefined;
+    }
+  }
+  if (channel.platformPublishers) {
+    restricted.platformPublishers = Object.fromEntries(
+      Object.entries(channel.platformPublishers).filter(([platform]) => platforms.includes(platform))
+    );
+  }
+  return restricted;
+}
+
+/**
+ * На какие платформы публикуется вариант. Без выбора публикуется только первый вариант.
+ */
+export function getVariantPlatforms(
+  selection: PipelineVariantSelection | null | undefined,
+  variantIndex: number,
+  platforms: string[]
+): string[] {
+  if (!selection) {
+    return variantIndex === 1 ? platforms : [];
+  }
+  return platforms.filter(
+    (platform) => (selection.platformVariants[platform] ?? selection.defaultVariant) === variantIndex
+  );
+}
+
+/**
+ * Проверяет выбор вариантов из запроса. Возвращает текст ошибки или null.
+ */
+export function validateVariantSelection(
+  selection: PipelineVariantSelection,
+  variantCount: number
+): string | null {
+  const isVariant = (value: unknown, allowNone: boolean) =>
+    Number.isInteger(value) && (value as number) >= (allowNone ? 0 : 1) && (value as number) <= variantCount;
+
+  if (!isVariant(selection?.defaultVariant, true)) {
+    return `Вариант должен быть числом от 1 до ${variantCount} (0 — не публиковать)`;
+  }
+  if (!selection.platformVariants || typeof selection.platformVariants !== "object") {
+    return "platformVariants должен быть объектом";
+  }
+  for (const [platform, variant] of Object.entries(selection.platformVariants)) {
+    if (!BLOTATO_PLATFORMS.includes(platform as BlotatoPlatform)) {
+      return `Неизвестная платформа: ${platform}`;
+    }
+    if (!isVariant(variant, true)) {
+      return `Неверный вариант для ${platform}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Ждёт ли прогон выбора варианта: вариантов несколько, выбор не подтверждён и время ожидания не вышло
+ */
+export function isAwaitingVariantSelection(
+  run: Pick<PipelineRun, "variants" | "variantSelection">,
+  now: Date,
+  holdMinutes: number
+): boolean {
+  const variants = run.variants ?? [];
+  if (variants.length <= 1 || run.variantSelection?.confirmedAt) {
+    return false;
+  }
+  const firstUploadedAt = variants
+    .map((variant) => (variant.uploadedAt ? new Date(variant.uploadedAt).getTime() : NaN))
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => a - b)[0];
+  if (firstUploadedAt === undefined) {
+    return false;
+  }
+  return now.getTime() < firstUploadedAt + holdMinutes * 60 * 1000;
+}
@@ -0,0 +1,97 @@
+import { isIP } from "net";
+
+/**
+ * Проверка адреса webhook публикации, который задаёт пользователь (channel.publishWebhookUrl).
+ * Запрос уходит с backend, поэтому разрешён только https на публичный адрес:
+ * localhost, частные, loopback и link-local сети недоступны.
+ * Адрес по умолчанию (PUBLISH_WEBHOOK_URL) задаёт администратор и не проверяется.
+ */
+
+const MAX_WEBHOOK_URL_LENGTH = 2000;
+
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split(".").map(Number);
+  return parts.length === 4 && parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255) ? parts : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "эта" сеть
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // CGNAT
+    (a === 169 && b === 254) || // link-local, в том числе метаданные облака
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // сети для тестов производительности
+    a >= 224 // multicast и зарезервированные
+  );
+}
+
+/**
+ * Адрес из частной, loopback, link-local или зарезервированной сети (IPv4 и IPv6)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(ip) === 4) {
+    return isPrivateIpv4(parseIpv4(ip)!);
+  }
+  if (isIP(ip) !== 6) {
+    return false;
+  }
+  // IPv4, записанный как IPv6 (::ffff:10.0.0.1 или ::ffff:a00:1)
+  const mapped = ip.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    const ipv4 = parseIpv4(mapped[1]);
+    if (ipv4) {
+      return isPrivateIpv4(ipv4);
+    }
+    const [high, low] = mapped[1].split(":").map((part) => parseInt(part, 16));
+    return isPrivateIpv4([high >> 8, high & 0xff, (low ?? 0) >> 8, (low ?? 0) & 0xff]);
+  }
+  const firstGroup = ip.startsWith("::") ? 0 : parseInt(ip.split(":")[0], 16);
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    (firstGroup & 0xfe00) === 0xfc00 || // fc00::/7, уникальные локальные
+    (firstGroup & 0xffc0) === 0xfe80 || // fe80::/10, link-local
+    (firstGroup & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/**
+ * Проверяет адрес webhook канала. Возвращает текст ошибки или null.
+ * Имя хоста, которое резолвится в частный адрес, проверяется отдельно при отправке.
+ */
+export function validatePublishWebhookUrl(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  if (typeof value !== "string" || value.length > MAX_WEBHOOK_URL_LENGTH) {
+    return "Адрес webhook должен быть строкой не длиннее 2000 символов";
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Некорректный адрес webhook";
+  }
+  if (url.protocol !== "https:") {
+    return "Адрес webhook должен начинаться с https://";
+  }
+  if (url.username || url.password) {
+    return "Адрес webhook не должен содержать логин и пароль";
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (host === "localhost" || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return "Адрес webhook должен указывать на публичный сервер";
+  }
+  if (isPrivateAddress(host)) {
+    return "Адрес webhook не может указывать на частную или локальную сеть";
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import { getAuthToken } from "../utils/auth";
+
+const backendBaseUrl =
+  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
+  "http://localhost:8080";
+
+/**
+ * Что делать с каналом из файла, который совпал с существующим (по id или имени)
+ */
+export type ChannelImportStrategy = "skip" | "overwrite" | "rename" | "merge";
+
+export const CHANNEL_IMPORT_STRATEGY_OPTIONS: Array<{ value: ChannelImportStrategy; label: string }> = [
+  { value: "rename", label: "Создать копию с новым именем" },
+  { value: "merge", label: "Дополнить заполненными полями" },
+  { value: "overwrite", label: "Перезаписать настройки" },
+  { value: "skip", label: "Пропустить" }
+];
+
+export type ChannelImportAction = "create" | "update" | "skip";
+
+export interface ChannelImportPlanItem {
+  index: number;
+  sourceId: string | null;
+  name: string;
+  action: ChannelImportAction;
+  matchedBy: "id" | "name" | null;
+  strategy: ChannelImportStrategy | null;
+  targetId: string | null;
+  finalName: string;
+  changedFields: string[];
+  reason?: string;
+}
+
+export interface ChannelImportPreview {
+  strategy: ChannelImportStrategy;
+  items: ChannelImportPlanItem[];
+  summary: Record<ChannelImportAction, number>;
+}
+
+export interface ChannelImportResult {
+  success: boolean;
+  imported: number;
+  updated?: number;
+  skipped: number;
+  errors?: Array<{ channelName: string; error: string }>;
+}
+
+async function postImport<T>(
+  path: string,
+  importData: unknown,
+  strategy: ChannelImportStrategy,
+  overrides: Record<string, ChannelImportStrategy>
+): Promise<T> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ ...(importData as object), strategy, overrides })
+  });
+
+  // Проверяем тип ответа перед парсингом JSON
+  const contentType = response.headers.get("content-type");
+  if (!contentType || !contentType.includes("application/json")) {
+    // Сервер вернул не JSON (вероятно HTML страницу с ошибкой)
+    if (response.status === 413) {
+      throw new Error("Файл слишком большой. Максимальный размер: 10 MB");
+    }
+    throw new Error(`Сервер вернул ошибку (${response.status}). Проверьте размер файла и формат данных.`);
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Ошибка при импорте каналов (${response.status})`);
+  }
+  return data;
+}
+
+/**
+ * Пробный импорт: что будет создано, обновлено или пропущено. Ничего не записывает
+ */
+export function previewChannelImport(
+  importData: unknown,
+  strategy: ChannelImportStrategy,
+  overrides: Record<string, ChannelImportStrategy> = {}
+): Promise<ChannelImportPreview> {
+  return postImport<ChannelImportPreview>("/api/channels/import/dry-run", importData, strategy, overrides);
+}
+
+export function runChannelImport(
+  importData: unknown,
+  strategy: ChannelImportStrategy,
+  overrides: Record<string, ChannelImportStrategy> = {}
+): Promise<ChannelImportResult> {
+  return postImport<ChannelImportResult>("/api/channels/import", importData, strategy, overrides);
+}
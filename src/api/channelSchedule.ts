@@ -1,7 +1,18 @@
+import type { ScheduleRule } from "../utils/scheduleRules";
+import type { ChannelAutoSendSchedule, ChannelScheduleConstraints } from "../domain/channel";
+
 const backendBaseUrl =
   (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
   "http://localhost:8080";
 
+export interface ChannelRuleScheduleItem {
+  id: string;
+  rule: ScheduleRule;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  todayTimes: string[];
+}
+
 export interface ChannelScheduleItem {
   id: string;
   index: number;
@@ -9,6 +20,13 @@ export interface ChannelScheduleItem {
   times: string[];
   platform: string;
   isAutomationEnabled: boolean;
+  timezone: string; // часовой пояс канала, в котором заданы times
+  manualTimes?: string[]; // времена классических расписаний, только их меняет updateChannelSchedule
+  ruleSchedules?: ChannelRuleScheduleItem[]; // расписания с правилами, их времена на сегодня уже входят в times
+  blackoutToday?: { id: string; label: string; scope: "user" | "channel" } | null; // сегодня автоматизация заблокирована
+  constraints?: ChannelScheduleConstraints | null; // окна и закреплённые времена для оптимизатора
+  shiftedTimes?: Array<{ from: string; to: string }>; // только в ответах на изменение расписания: времена, сдвинутые сервером из-за интервала
+  schedules?: ChannelAutoSendSchedule[]; // только в ответе saveChannelSchedules: сохранённые расписания
 }
 
 /**
@@ -61,6 +79,161 @@ export async function updateChannelSchedule(
   return response.json();
 }
 
+/**
+ * Сохраняет все расписания канала (редактор канала, мастер).
+ * Сервер проверяет правила и минимальный интервал между публикациями;
+ * shiftConflicts сдвигает конфликтующие времена вместо ошибки.
+ */
+export async function saveChannelSchedules(
+  channelId: string,
+  schedules: ChannelAutoSendSchedule[],
+  options: { shiftConflicts?: boolean } = {}
+): Promise<ChannelScheduleItem> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}/api/channels/${channelId}/schedule`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ schedules, shiftConflicts: options.shiftConflicts === true })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при сохранении расписания: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export interface ChannelScheduleMoves {
+  channelId: string;
+  moves: Array<{ from: string; to: string }>; // "HH:MM" → "HH:MM"
+}
+
+/**
+ * Переносит слоты нескольких каналов одной пакетной записью (результат оптимизатора расписания)
+ */
+export async function updateChannelSchedulesBatch(changes: ChannelScheduleMoves[]): Promise<ChannelScheduleItem[]> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}/api/channels/schedule`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ changes })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при применении расписания: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export interface ScheduleSlotMove {
+  scheduleId: string;
+  fromDate: string; // "YYYY-MM-DD" — дата перетаскиваемого слота
+  toDate: string; // "YYYY-MM-DD" — новая дата
+  time: string; // новое время "HH:MM"
+}
+
+/**
+ * Переносит один слот недельного расписания (перетаскивание в календаре).
+ * Если расписание действует в несколько дней, переносится только день слота.
+ */
+export async function moveChannelScheduleSlot(
+  channelId: string,
+  move: ScheduleSlotMove
+): Promise<ChannelScheduleItem> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}/api/channels/${channelId}/schedule`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ move })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при переносе слота: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export interface CalendarSlot {
+  scheduleId: string;
+  at: string;
+  localDate: string; // "YYYY-MM-DD" в часовом поясе канала
+  time: string; // "HH:MM" в часовом поясе канала
+  promptsPerRun: number;
+  draggable: boolean;
+  blackout: string | null;
+}
+
+export type CalendarRunOutcome = "sent" | "downloaded" | "published" | "failed";
+
+export interface CalendarRun {
+  id: string;
+  at: string;
+  localDate: string;
+  time: string;
+  outcome: CalendarRunOutcome;
+  status: "in_progress" | "completed" | "partial" | "failed";
+  scheduleId: string | null;
+  videoTitle: string | null;
+  error: string | null;
+}
+
+export interface CalendarChannel {
+  id: string;
+  name: string;
+  platform: string | null;
+  timezone: string;
+  isAutomationEnabled: boolean;
+  slots: CalendarSlot[];
+  runs: CalendarRun[];
+}
+
+export interface ScheduleCalendar {
+  from: string;
+  to: string;
+  isAutomationPaused: boolean;
+  channels: CalendarChannel[];
+}
+
+/**
+ * Календарь публикаций: будущие слоты расписаний и прошедшие прогоны всех каналов
+ */
+export async function fetchScheduleCalendar(from: Date, to: Date): Promise<ScheduleCalendar> {
+  const token = await getAuthToken();
+  const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+
+  const response = await fetch(`${backendBaseUrl}/api/channels/calendar?${params.toString()}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при получении календаря: ${response.status}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Обновляет статус автоматизации канала
  * @param channelId - ID канала
@@ -0,0 +1,99 @@
+import { getAuthToken } from "../utils/auth";
+import type { ChannelCreatePayload } from "../domain/channel";
+
+const backendBaseUrl =
+  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
+  "http://localhost:8080";
+
+/**
+ * Части настроек канала для дублирования и шаблонов (см. backend/src/utils/channelCopy.ts).
+ * Платформа, язык и длительность копируются всегда.
+ */
+export type ChannelCopyPart = "content" | "preferences" | "schedules" | "blotato" | "drive";
+
+export const CHANNEL_COPY_PART_OPTIONS: Array<{ value: ChannelCopyPart; label: string; hint: string }> = [
+  { value: "content", label: "Контент", hint: "ниша, аудитория, тон, режим генерации, шаблоны подписей, хештеги" },
+  { value: "preferences", label: "Пожелания", hint: "варианты доп. пожеланий и режим их ротации" },
+  { value: "schedules", label: "Расписания", hint: "часовой пояс, расписания, окна, дни без автоматизации" },
+  { value: "blotato", label: "Blotato", hint: "ID аккаунтов и публикаторы по платформам" },
+  { value: "drive", label: "Папки Drive", hint: "папки входящих и архива, автозагрузка" }
+];
+
+export interface ChannelTemplate {
+  id: string;
+  name: string;
+  parts: ChannelCopyPart[];
+  sourceChannelId: string;
+  sourceChannelName: string;
+  settings: Partial<ChannelCreatePayload>;
+  createdAt: string;
+}
+
+async function request<T>(path: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `${fallbackMessage}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Шаблоны каналов пользователя, новые первыми
+ */
+export async function fetchChannelTemplates(): Promise<ChannelTemplate[]> {
+  const data = await request<{ templates: ChannelTemplate[] }>(
+    "/api/channel-templates",
+    { method: "GET" },
+    "Ошибка при получении шаблонов"
+  );
+  return data.templates;
+}
+
+/**
+ * Сохраняет шаблон из выбранных частей настроек канала
+ */
+export async function saveChannelTemplate(
+  channelId: string,
+  name: string,
+  parts: ChannelCopyPart[]
+): Promise<ChannelTemplate> {
+  return request<ChannelTemplate>(
+    "/api/channel-templates",
+    { method: "POST", body: JSON.stringify({ channelId, name, parts }) },
+    "Ошибка при сохранении шаблона"
+  );
+}
+
+export async function deleteChannelTemplate(templateId: string): Promise<void> {
+  await request<{ success: boolean }>(
+    `/api/channel-templates/${templateId}`,
+    { method: "DELETE" },
+    "Ошибка при удалении шаблона"
+  );
+}
+
+/**
+ * Создаёт копию канала с выбранными частями настроек. Автоматизация копии выключена
+ */
+export async function duplicateChannel(
+  channelId: string,
+  parts: ChannelCopyPart[],
+  name?: string
+): Promise<{ id: string; name: string }> {
+  return request<{ id: string; name: string }>(
+    `/api/channels/${channelId}/duplicate`,
+    { method: "POST", body: JSON.stringify({ name, parts }) },
+    "Ошибка при дублировании канала"
+  );
+}
@@ -0,0 +1,48 @@
+import { getAuthToken } from "../utils/auth";
+
+const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
+
+export type LlmProviderName = "openai" | "openai_compatible" | "anthropic" | "fake";
+
+/**
+ * Выбранный LLM-провайдер; model = null — модель провайдера по умолчанию
+ */
+export interface LlmProviderSelection {
+  provider: LlmProviderName;
+  model?: string | null;
+}
+
+export interface LlmProviderInfo {
+  name: LlmProviderName;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+  models: string[] | null; // разрешённые модели; null — любая модель провайдера
+}
+
+export interface LlmProvidersResponse {
+  providers: LlmProviderInfo[];
+  defaultProvider: LlmProviderName;
+}
+
+/**
+ * Получает список LLM-провайдеров, доступных на сервере
+ */
+export async function fetchLlmProviders(): Promise<LlmProvidersResponse> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/llm/providers`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Не удалось загрузить список LLM-провайдеров");
+  }
+
+  return { providers: data.providers ?? [], defaultProvider: data.defaultProvider ?? "openai" };
+}
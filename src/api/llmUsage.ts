@@ -0,0 +1,102 @@
+import { getAuthToken } from "../utils/auth";
+
+const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Сводка за день ("YYYY-MM-DD") или месяц ("YYYY-MM") по UTC
+ */
+export interface LlmUsagePeriod extends LlmUsageTotals {
+  period: string;
+  channels: Record<string, LlmUsageTotals>; // по channelId, "none" — вызовы без канала
+  models: Record<string, LlmUsageTotals>; // по "provider/model"
+}
+
+export interface LlmUsageRecord {
+  id: string;
+  purpose: string;
+  provider: string;
+  model: string;
+  channelId: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: string;
+}
+
+/**
+ * Лимиты расхода; null — без ограничения
+ */
+export interface LlmQuota {
+  dailyTokens?: number | null;
+  monthlyTokens?: number | null;
+  dailyCostUsd?: number | null;
+  monthlyCostUsd?: number | null;
+}
+
+export interface LlmQuotaState {
+  server: LlmQuota;
+  user: LlmQuota | null;
+  effective: LlmQuota;
+}
+
+export interface LlmUsageResponse {
+  today: LlmUsagePeriod;
+  month: LlmUsagePeriod;
+  days: LlmUsagePeriod[];
+  recent: LlmUsageRecord[];
+  quota: LlmQuotaState;
+}
+
+/**
+ * Получает расход LLM за последние дни
+ */
+export async function fetchLlmUsage(days = 30): Promise<LlmUsageResponse> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/llm/usage?days=${days}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Не удалось загрузить расход LLM");
+  }
+
+  return data as LlmUsageResponse;
+}
+
+/**
+ * Сохраняет собственные лимиты пользователя
+ */
+export async function updateLlmQuota(quota: LlmQuota): Promise<LlmQuotaState> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/llm/quota`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(quota)
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Не удалось сохранить лимиты");
+  }
+
+  return data.quota as LlmQuotaState;
+}
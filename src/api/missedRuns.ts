@@ -0,0 +1,44 @@
+import { getAuthToken } from "../utils/auth";
+import type { MissedRunPolicyMode } from "../domain/channel";
+
+const backendBaseUrl =
+  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
+  "http://localhost:8080";
+
+export type MissedRunDecisionType = "skipped" | "caught_up" | "superseded" | "over_limit";
+
+export interface MissedRunDecision {
+  id: string;
+  scheduleId: string;
+  slotAt: string;
+  localDate: string;
+  time: string;
+  policy: MissedRunPolicyMode;
+  decision: MissedRunDecisionType;
+  lateByMinutes: number;
+  error?: string | null;
+  decidedAt: string;
+}
+
+/**
+ * Получает решения по слотам, пропущенным из-за простоя планировщика (новые первыми)
+ */
+export async function fetchMissedRunDecisions(channelId: string, limit = 50): Promise<MissedRunDecision[]> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}/api/channels/${channelId}/missed-runs?limit=${limit}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при получении пропущенных запусков: ${response.status}`);
+  }
+
+  const data: { decisions: MissedRunDecision[] } = await response.json();
+  return data.decisions;
+}
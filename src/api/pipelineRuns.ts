@@ -0,0 +1,170 @@
+import { getAuthToken } from "../utils/auth";
+import type { PublisherName } from "../domain/channel";
+
+const backendBaseUrl =
+  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
+  "http://localhost:8080";
+
+export type PipelineStageName = "prompt_sent" | "drive_upload" | "publish" | "archive";
+
+export const PIPELINE_STAGE_ORDER: PipelineStageName[] = ["prompt_sent", "drive_upload", "publish", "archive"];
+
+export type PipelineStageStatus = "pending" | "success" | "failed" | "skipped";
+
+export interface PipelineStageState {
+  status: PipelineStageStatus;
+  scheduledFor?: string | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  error?: string | null;
+  link?: string | null;
+}
+
+export type PipelineRunStatus = "in_progress" | "completed" | "partial" | "failed";
+
+export interface PipelinePublication {
+  platform: string;
+  success: boolean;
+  postId?: string | null;
+  postUrl?: string | null;
+  error?: string | null;
+  variantIndex?: number | null;
+  publisher?: PublisherName | null;
+  attempts?: number;
+  nextRetryAt?: string | null; // автоматический повтор после временной ошибки
+  gaveUp?: boolean; // повторы исчерпаны или ошибка постоянная
+  publishedAt: string;
+}
+
+/**
+ * Вариант видео: SyntX может прислать несколько роликов на один промпт
+ */
+export interface PipelineVideoVariant {
+  index: number;
+  telegramVideoMessageId: number;
+  driveFileId?: string | null;
+  driveFileName?: string | null;
+  driveWebViewLink?: string | null;
+  uploadedAt?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Какой вариант куда публикуется: defaultVariant — на все платформы,
+ * platformVariants — переопределения по платформам (0 — не публиковать)
+ */
+export interface PipelineVariantSelection {
+  defaultVariant: number;
+  platformVariants: Record<string, number>;
+  confirmedAt?: string | null;
+}
+
+export interface PipelineRun {
+  id: string;
+  userId: string;
+  channelId: string;
+  mode: "auto" | "manual";
+  scheduleId?: string | null;
+  timeSlot?: string | null;
+  telegramMessageId?: number | null;
+  telegramChatId?: string | null;
+  videoTitle?: string | null;
+  jobId?: string | null;
+  driveFileId?: string | null;
+  driveFileName?: string | null;
+  driveWebViewLink?: string | null;
+  variants?: PipelineVideoVariant[];
+  variantSelection?: PipelineVariantSelection | null;
+  publications: PipelinePublication[];
+  stages: Partial<Record<PipelineStageName, PipelineStageState>>;
+  status: PipelineRunStatus;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Получает прогоны конвейера канала (новые первыми)
+ */
+export async function fetchPipelineRuns(
+  channelId: string,
+  options: { status?: PipelineRunStatus; limit?: number } = {}
+): Promise<PipelineRun[]> {
+  const token = await getAuthToken();
+  const params = new URLSearchParams();
+  if (options.status) params.append("status", options.status);
+  if (options.limit) params.append("limit", String(options.limit));
+
+  const response = await fetch(
+    `${backendBaseUrl}/api/channels/${channelId}/runs${params.toString() ? `?${params.toString()}` : ""}`,
+    {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`
+      }
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при получении истории запусков: ${response.status}`);
+  }
+
+  const data: { runs: PipelineRun[] } = await response.json();
+  return data.runs;
+}
+
+/**
+ * Сохраняет выбор варианта видео для публикации через Blotato
+ */
+export async function saveVariantSelection(
+  channelId: string,
+  runId: string,
+  selection: Pick<PipelineVariantSelection, "defaultVariant" | "platformVariants">
+): Promise<PipelineRun> {
+  const token = await getAuthToken();
+  const response = await fetch(`${backendBaseUrl}/api/channels/${channelId}/runs/${runId}/variant-selection`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(selection)
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при сохранении выбора варианта: ${response.status}`);
+  }
+
+  const data: { run: PipelineRun } = await response.json();
+  return data.run;
+}
+
+/**
+ * Повторяет публикацию на неудачных платформах прогона (по умолчанию — на всех)
+ */
+export async function retryFailedPublications(
+  channelId: string,
+  runId: string,
+  platforms?: string[]
+): Promise<{ run: PipelineRun | null; errors: string[] }> {
+  const token = await getAuthToken();
+  const response = await fetch(`${backendBaseUrl}/api/channels/${channelId}/runs/${runId}/retry-publish`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(platforms ? { platforms } : {})
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при повторной публикации: ${response.status}`);
+  }
+
+  const data: { run: PipelineRun | null; errors: string[] } = await response.json();
+  return data;
+}
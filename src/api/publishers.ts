@@ -0,0 +1,32 @@
+import { getAuthToken } from "../utils/auth";
+import type { PublisherName } from "../domain/channel";
+
+const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
+
+export interface PublisherInfo {
+  name: PublisherName;
+  label: string;
+  configured: boolean;
+}
+
+/**
+ * Получает список публикаторов, доступных на сервере
+ */
+export async function fetchPublishers(): Promise<PublisherInfo[]> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/publishers`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Не удалось загрузить список публикаторов");
+  }
+
+  return data.publishers ?? [];
+}
@@ -1,3 +1,6 @@
+import type { BlackoutPeriod } from "../utils/blackoutPeriods";
+import { DEFAULT_REFERENCE_TIMEZONE } from "../utils/scheduleTimezone";
+
 const backendBaseUrl =
   (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
   "http://localhost:8080";
@@ -11,15 +14,23 @@ export interface ScheduleSettings {
   minInterval_17_24?: number; // 17:00–24:00
   conflictsCheckEnabled: boolean;
   isAutomationPaused: boolean; // Пауза автоматизации публикаций
+  blackoutPeriods?: BlackoutPeriod[]; // Дни без автоматизации для всех каналов
+  referenceTimezone?: string; // Опорный часовой пояс, в котором сравниваются расписания каналов
+  conflictPolicy?: ScheduleConflictPolicy; // Что сервер делает с новым временем ближе минимального интервала
 }
 
+export type ScheduleConflictPolicy = "reject" | "shift";
+
 const DEFAULT_SETTINGS: ScheduleSettings = {
   minIntervalMinutes: 11,
   minInterval_00_13: 11,
   minInterval_13_17: 11,
   minInterval_17_24: 11,
   conflictsCheckEnabled: true,
-  isAutomationPaused: false
+  isAutomationPaused: false,
+  blackoutPeriods: [],
+  referenceTimezone: DEFAULT_REFERENCE_TIMEZONE,
+  conflictPolicy: "reject"
 };
 
 /**
@@ -101,7 +112,10 @@ export async function fetchScheduleSettings(): Promise<ScheduleSettings> {
       isAutomationPaused:
         typeof data.isAutomationPaused === "boolean"
           ? data.isAutomationPaused
-          : DEFAULT_SETTINGS.isAutomationPaused
+          : DEFAULT_SETTINGS.isAutomationPaused,
+      blackoutPeriods: Array.isArray(data.blackoutPeriods) ? data.blackoutPeriods : [],
+      referenceTimezone: data.referenceTimezone || DEFAULT_SETTINGS.referenceTimezone,
+      conflictPolicy: data.conflictPolicy === "shift" ? "shift" : DEFAULT_SETTINGS.conflictPolicy
     };
   } catch {
     // При ошибке возвращаем значения по умолчанию
@@ -129,7 +143,10 @@ export async function updateScheduleSettings(
       minInterval_13_17: settings.minInterval_13_17,
       minInterval_17_24: settings.minInterval_17_24,
       conflictsCheckEnabled: settings.conflictsCheckEnabled,
-      isAutomationPaused: settings.isAutomationPaused
+      isAutomationPaused: settings.isAutomationPaused,
+      blackoutPeriods: settings.blackoutPeriods,
+      referenceTimezone: settings.referenceTimezone,
+      conflictPolicy: settings.conflictPolicy
     })
   });
 
@@ -157,10 +174,39 @@ export async function updateScheduleSettings(
       isAutomationPaused:
         typeof data.isAutomationPaused === "boolean"
           ? data.isAutomationPaused
-          : DEFAULT_SETTINGS.isAutomationPaused
+          : DEFAULT_SETTINGS.isAutomationPaused,
+      blackoutPeriods: Array.isArray(data.blackoutPeriods) ? data.blackoutPeriods : [],
+      referenceTimezone: data.referenceTimezone || DEFAULT_SETTINGS.referenceTimezone,
+      conflictPolicy: data.conflictPolicy === "shift" ? "shift" : DEFAULT_SETTINGS.conflictPolicy
     };
 }
 
+/**
+ * Разбирает ICS-календарь в периоды блокировки (без сохранения)
+ * @param ics - Содержимое .ics файла
+ * @param source - Имя календаря: при повторном импорте заменяются периоды с тем же именем
+ */
+export async function parseBlackoutCalendar(ics: string, source: string): Promise<BlackoutPeriod[]> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${backendBaseUrl}/api/schedule/blackouts/parse-ics`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify({ ics, source })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Ошибка при импорте календаря: ${response.status}`);
+  }
+
+  const data: { periods: BlackoutPeriod[] } = await response.json();
+  return data.periods;
+}
+
 async function getAuthToken(): Promise<string> {
   const { getAuth } = await import("firebase/auth");
   const auth = getAuth();
@@ -0,0 +1,92 @@
+import { getAuthToken } from "../utils/auth";
+
+const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
+
+export type SecretKind = "blotato_api_key" | "publish_webhook_secret";
+
+/**
+ * Секрет в хранилище backend. Значение никогда не возвращается — только маска.
+ */
+export interface MaskedSecret {
+  id: string;
+  kind: SecretKind;
+  scope: "user" | "channel";
+  channelId: string | null;
+  masked: string;
+  updatedAt: string;
+}
+
+export interface SecretAuditEntry {
+  id: string;
+  secretId: string;
+  kind: SecretKind;
+  channelId: string | null;
+  action: "write" | "delete" | "read" | "migrate";
+  actor: "user" | "system";
+  purpose?: string | null;
+  at: string;
+}
+
+async function request<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/secrets${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || fallbackError);
+  }
+
+  return data as T;
+}
+
+function channelQuery(channelId?: string): string {
+  return channelId ? `?channelId=${encodeURIComponent(channelId)}` : "";
+}
+
+/**
+ * Маски секретов пользователя или одного канала
+ */
+export async function fetchSecrets(channelId?: string): Promise<MaskedSecret[]> {
+  const data = await request<{ secrets?: MaskedSecret[] }>(
+    channelQuery(channelId),
+    { method: "GET" },
+    "Не удалось загрузить секреты"
+  );
+  return data.secrets ?? [];
+}
+
+/**
+ * Записывает секрет (без channelId — значение пользователя по умолчанию)
+ */
+export async function saveSecret(kind: SecretKind, value: string, channelId?: string): Promise<MaskedSecret> {
+  const data = await request<{ secret: MaskedSecret }>(
+    `/${kind}`,
+    { method: "PUT", body: JSON.stringify({ value, channelId }) },
+    "Не удалось сохранить секрет"
+  );
+  return data.secret;
+}
+
+export async function deleteSecret(kind: SecretKind, channelId?: string): Promise<void> {
+  await request(`/${kind}${channelQuery(channelId)}`, { method: "DELETE" }, "Не удалось удалить секрет");
+}
+
+export async function fetchSecretAudit(channelId?: string, limit = 50): Promise<SecretAuditEntry[]> {
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (channelId) {
+    query.set("channelId", channelId);
+  }
+  const data = await request<{ entries?: SecretAuditEntry[] }>(
+    `/audit?${query.toString()}`,
+    { method: "GET" },
+    "Не удалось загрузить журнал доступа"
+  );
+  return data.entries ?? [];
+}
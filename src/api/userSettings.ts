@@ -1,4 +1,5 @@
 import { getAuthToken } from "../utils/auth";
+import type { LlmProviderSelection } from "./llmProviders";
 
 const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
 
@@ -6,6 +7,7 @@ export interface UserSettings {
   defaultBlottataApiKey: string | null;
   hasDefaultBlottataApiKey: boolean;
   hasSeenChannelWizard?: boolean;
+  llmProvider?: LlmProviderSelection | null;
 }
 
 export interface UserSettingsResponse {
@@ -49,6 +51,7 @@ export async function getUserSettings(): Promise<UserSettings> {
 export async function updateUserSettings(settings: {
   defaultBlottataApiKey?: string | null;
   hasSeenChannelWizard?: boolean;
+  llmProvider?: LlmProviderSelection | null;
 }): Promise<void> {
   const token = await getAuthToken();
   const response = await fetch(`${API_BASE}/api/user-settings`, {
@@ -0,0 +1,32 @@
+import { getAuthToken } from "../utils/auth";
+import type { GenerationTransport } from "../domain/channel";
+
+const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8080";
+
+export interface VideoGeneratorInfo {
+  transport: GenerationTransport;
+  label: string;
+  configured: boolean;
+}
+
+/**
+ * Получает список генераторов видео, доступных на сервере
+ */
+export async function fetchVideoGenerators(): Promise<VideoGeneratorInfo[]> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}/api/video-generators`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Не удалось загрузить список генераторов видео");
+  }
+
+  return data.generators ?? [];
+}
@@ -16,6 +16,11 @@ import {
 import { useChannelStore } from "../stores/channelStore";
 import { useAuthStore } from "../stores/authStore";
 import { updatePreferenceIndex, getCurrentPreferenceVariant } from "../utils/preferencesUtils";
+import { generationHistoryRepository } from "../repositories/generationHistoryRepository";
+import {
+  buildHistoryPayloadFromAutoIdea,
+  buildHistoryPayloadFromDetailed
+} from "../utils/generationHistory";
 
 interface AIAutoGenerateModalProps {
   isOpen: boolean;
@@ -136,11 +141,21 @@ const AIAutoGenerateModal = ({
         // Запрос к /api/prompt/openai с автоматической авторизацией
         const generated = await generateDetailedScripts(currentChannel);
         setDetailedResult(generated);
+        void generationHistoryRepository
+          .addEntry(user.uid, buildHistoryPayloadFromDetailed(currentChannel, generated))
+          .catch((historyError) => {
+            console.error("Не удалось сохранить генерацию в историю:", historyError);
+          });
       } else {
         // Старый формат для обратной совместимости
         // Запрос к /api/prompt/openai с автоматической авторизацией
         const generated = await generateAutoIdeaAndScripts(currentChannel);
         setResult(generated);
+        void generationHistoryRepository
+          .addEntry(user.uid, buildHistoryPayloadFromAutoIdea(currentChannel, generated))
+          .catch((historyError) => {
+            console.error("Не удалось сохранить генерацию в историю:", historyError);
+          });
       }
 
       // Обновляем индекс preferences после успешной генерации
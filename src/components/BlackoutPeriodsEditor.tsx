@@ -0,0 +1,199 @@
+import { useRef, useState } from "react";
+import { CalendarOff, Trash2, Upload } from "lucide-react";
+import { parseBlackoutCalendar } from "../api/scheduleSettings";
+import { describeBlackoutPeriod, type BlackoutPeriod } from "../utils/blackoutPeriods";
+
+interface BlackoutPeriodsEditorProps {
+  periods: BlackoutPeriod[];
+  onChange: (periods: BlackoutPeriod[]) => void;
+  disabled?: boolean;
+}
+
+type PeriodKind = BlackoutPeriod["type"];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+function createPeriodId(): string {
+  return `blackout_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Редактор периодов блокировки: диапазоны дат, ежегодные праздники и импорт ICS-календарей.
+ * Повторный импорт файла с тем же именем заменяет ранее импортированные из него периоды.
+ */
+const BlackoutPeriodsEditor = ({ periods, onChange, disabled = false }: BlackoutPeriodsEditorProps) => {
+  const [kind, setKind] = useState<PeriodKind>("range");
+  const [label, setLabel] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = () => {
+    setError(null);
+    if (!startDate) {
+      setError("Укажите дату начала");
+      return;
+    }
+    const end = endDate || startDate;
+    if (end < startDate) {
+      setError("Дата окончания раньше даты начала");
+      return;
+    }
+
+    const period: BlackoutPeriod =
+      kind === "annual"
+        ? {
+            id: createPeriodId(),
+            type: "annual",
+            label: label.trim() || "Праздник",
+            startMonthDay: startDate.slice(5),
+            endMonthDay: end.slice(5)
+          }
+        : {
+            id: createPeriodId(),
+            type: "range",
+            label: label.trim() || "Перерыв",
+            startDate,
+            endDate: end
+          };
+
+    onChange([...periods, period]);
+    setLabel("");
+    setStartDate("");
+    setEndDate("");
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    setImporting(true);
+    try {
+      const source = file.name.replace(/\.ics$/i, "");
+      const text = await file.text();
+      const imported = await parseBlackoutCalendar(text, source);
+      if (imported.length === 0) {
+        setError("В календаре не найдено событий");
+        return;
+      }
+      onChange([...periods.filter((period) => period.source !== source), ...imported]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось импортировать календарь");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {periods.length === 0 ? (
+        <p className="text-xs text-slate-500">Периоды блокировки не заданы</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {periods.map((period) => (
+            <li
+              key={period.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-white/10 bg-slate-950/40 px-3 py-2 text-sm"
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <CalendarOff size={14} className="shrink-0 text-slate-400" />
+                <span className="truncate text-white">{period.label}</span>
+                <span className="shrink-0 text-xs text-slate-400">{describeBlackoutPeriod(period)}</span>
+                {period.source && (
+                  <span className="shrink-0 rounded bg-slate-800 px-1.5 py-0.5 text-[10px] text-slate-400">
+                    {period.source}.ics
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(periods.filter((p) => p.id !== period.id))}
+                disabled={disabled}
+                className="shrink-0 text-slate-400 transition hover:text-red-400 disabled:opacity-50"
+                title="Удалить"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-[auto_1fr_auto_auto_auto]">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as PeriodKind)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="range">Даты</option>
+          <option value="annual">Ежегодно</option>
+        </select>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={kind === "annual" ? "Новый год" : "Отпуск"}
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={disabled}
+          className="rounded-lg bg-brand px-4 py-2 text-sm font-medium text-white transition hover:bg-brand-dark disabled:opacity-50"
+        >
+          Добавить
+        </button>
+      </div>
+      {kind === "annual" && (
+        <p className="text-xs text-slate-500">Год не учитывается: период повторяется каждый год.</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || importing}
+          className="flex items-center gap-2 rounded-lg border border-white/10 px-3 py-1.5 text-xs text-slate-300 transition hover:border-white/20 hover:text-white disabled:opacity-50"
+        >
+          <Upload size={14} />
+          {importing ? "Импорт..." : "Импорт календаря (.ics)"}
+        </button>
+        <span className="text-xs text-slate-500">Например, праздники из Google Calendar</span>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default BlackoutPeriodsEditor;
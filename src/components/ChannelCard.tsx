@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Calendar, Clock, Languages, Users, Sparkles, GripVertical, FileText, ChevronDown, MoreVertical, Zap } from "lucide-react";
+import { Calendar, Clock, Languages, Users, Sparkles, GripVertical, FileText, ChevronDown, MoreVertical, Zap, History, Copy } from "lucide-react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { Channel } from "../domain/channel";
@@ -22,6 +22,8 @@ interface ChannelCardProps {
   onGenerate: () => void;
   onAutoGenerate?: () => void;
   onCustomPrompt?: () => void;
+  onShowRuns?: () => void;
+  onCopy?: () => void; // дублировать канал или сохранить шаблон
 }
 
 const platformLabels: Record<Channel["platform"], string> = {
@@ -48,7 +50,9 @@ const ChannelCard = ({
   onDelete,
   onGenerate,
   onAutoGenerate,
-  onCustomPrompt
+  onCustomPrompt,
+  onShowRuns,
+  onCopy
 }: ChannelCardProps) => {
   const [isMobile, setIsMobile] = useState(false);
 
@@ -595,6 +599,32 @@ const ChannelCard = ({
                     >
                       Редактировать
                     </button>
+                    {onShowRuns && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onShowRuns();
+                          setShowMobileActionsMenu(false);
+                        }}
+                        className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800/50"
+                      >
+                        <History size={14} />
+                        История запусков
+                      </button>
+                    )}
+                    {onCopy && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onCopy();
+                          setShowMobileActionsMenu(false);
+                        }}
+                        className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-xs text-slate-200 transition hover:bg-slate-800/50"
+                      >
+                        <Copy size={14} />
+                        Копия / шаблон
+                      </button>
+                    )}
                     <div className="my-1 border-t border-white/10" />
                     <button
                       type="button"
@@ -682,6 +712,26 @@ const ChannelCard = ({
               >
                 Редактировать
               </button>
+              {onShowRuns && (
+                <button
+                  type="button"
+                  onClick={onShowRuns}
+                  className="flex items-center gap-1.5 rounded-lg border border-white/15 px-3 py-2.5 min-h-[44px] text-xs text-slate-200 transition hover:border-brand/50 hover:text-white"
+                >
+                  <History size={12} />
+                  История запусков
+                </button>
+              )}
+              {onCopy && (
+                <button
+                  type="button"
+                  onClick={onCopy}
+                  className="flex items-center gap-1.5 rounded-lg border border-white/15 px-3 py-2.5 min-h-[44px] text-xs text-slate-200 transition hover:border-brand/50 hover:text-white"
+                >
+                  <Copy size={12} />
+                  Копия / шаблон
+                </button>
+              )}
               <button
                 type="button"
                 onClick={onDelete}
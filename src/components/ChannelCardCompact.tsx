@@ -32,6 +32,8 @@ interface ChannelCardCompactProps {
   onGenerate: () => void;
   onAutoGenerate?: () => void;
   onCustomPrompt?: () => void;
+  onShowRuns?: () => void;
+  onCopy?: () => void; // дублировать канал или сохранить шаблон
 }
 
 const ChannelCardCompact = ({
@@ -43,7 +45,9 @@ const ChannelCardCompact = ({
   onDelete,
   onGenerate,
   onAutoGenerate,
-  onCustomPrompt
+  onCustomPrompt,
+  onShowRuns,
+  onCopy
 }: ChannelCardCompactProps) => {
   const [showMenu, setShowMenu] = useState(false);
   const [menuPosition, setMenuPosition] = useState<{ top: number; left: number } | null>(null);
@@ -424,7 +428,35 @@ const ChannelCardCompact = ({
                 Кастомный промпт
               </button>
             )}
-            {(onAutoGenerate || onCustomPrompt) && (
+            {onShowRuns && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowRuns();
+                  setShowMenu(false);
+                  setMenuPosition(null);
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/50 transition-colors"
+              >
+                История запусков
+              </button>
+            )}
+            {onCopy && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCopy();
+                  setShowMenu(false);
+                  setMenuPosition(null);
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/50 transition-colors"
+              >
+                Копия / шаблон
+              </button>
+            )}
+            {(onAutoGenerate || onCustomPrompt || onShowRuns || onCopy) && (
               <div className="border-t border-white/10 my-1" />
             )}
             <button
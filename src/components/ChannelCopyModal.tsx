@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { X, Copy, BookmarkPlus, Loader2, AlertCircle } from "lucide-react";
+import type { Channel } from "../domain/channel";
+import {
+  CHANNEL_COPY_PART_OPTIONS,
+  duplicateChannel,
+  saveChannelTemplate,
+  type ChannelCopyPart
+} from "../api/channelTemplates";
+
+interface ChannelCopyModalProps {
+  channel: Channel | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onDuplicated: (channelId: string, name: string) => void;
+  onTemplateSaved: (name: string) => void;
+}
+
+type CopyMode = "duplicate" | "template";
+
+const DEFAULT_PARTS: ChannelCopyPart[] = ["content", "preferences", "schedules"];
+
+const ChannelCopyModal = ({ channel, isOpen, onClose, onDuplicated, onTemplateSaved }: ChannelCopyModalProps) => {
+  const [mode, setMode] = useState<CopyMode>("duplicate");
+  const [name, setName] = useState("");
+  const [parts, setParts] = useState<ChannelCopyPart[]>(DEFAULT_PARTS);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && channel) {
+      setMode("duplicate");
+      setName(`${channel.name} (копия)`);
+      setParts(DEFAULT_PARTS);
+      setError(null);
+    }
+  }, [isOpen, channel]);
+
+  if (!isOpen || !channel) {
+    return null;
+  }
+
+  // Папки Drive у каждого канала свои, мастер создаёт их заново — в шаблон они не попадают
+  const partOptions = CHANNEL_COPY_PART_OPTIONS.filter((option) => mode === "duplicate" || option.value !== "drive");
+  const selectedParts = parts.filter((part) => partOptions.some((option) => option.value === part));
+
+  const handleModeChange = (nextMode: CopyMode) => {
+    setMode(nextMode);
+    setName(nextMode === "duplicate" ? `${channel.name} (копия)` : channel.name);
+    setError(null);
+  };
+
+  const togglePart = (part: ChannelCopyPart) => {
+    setParts((prev) => (prev.includes(part) ? prev.filter((p) => p !== part) : [...prev, part]));
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setError(mode === "duplicate" ? "Введите название канала" : "Введите название шаблона");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (mode === "duplicate") {
+        const created = await duplicateChannel(channel.id, selectedParts, name.trim());
+        onDuplicated(created.id, created.name);
+      } else {
+        const template = await saveChannelTemplate(channel.id, name.trim(), selectedParts);
+        onTemplateSaved(template.name);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось выполнить действие");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="relative w-full max-w-md rounded-2xl border border-white/10 bg-slate-900/95 p-6 shadow-2xl">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-lg p-1.5 text-slate-400 transition-colors hover:bg-slate-800 hover:text-white"
+          aria-label="Закрыть"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="mb-2 text-xl font-bold text-white">Копия канала «{channel.name}»</h2>
+        <p className="mb-4 text-sm text-slate-400">
+          Платформа, язык и длительность переносятся всегда. Ссылки на соцсети и ключи API не копируются.
+        </p>
+
+        <div className="mb-4 flex gap-2">
+          {([
+            ["duplicate", "Дублировать канал"],
+            ["template", "Сохранить как шаблон"]
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleModeChange(value)}
+              disabled={saving}
+              className={`flex-1 rounded-lg px-3 py-2 text-sm transition ${
+                mode === value
+                  ? "bg-brand/20 text-white ring-1 ring-brand/50"
+                  : "border border-white/10 text-slate-300 hover:bg-slate-800/60"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="mb-4 block">
+          <span className="mb-2 block text-sm font-medium text-slate-300">
+            {mode === "duplicate" ? "Название нового канала" : "Название шаблона"}
+          </span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={saving}
+            className="w-full rounded-lg border border-white/10 bg-slate-800/50 px-4 py-2 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+          />
+        </label>
+
+        <div className="mb-4 space-y-2">
+          <span className="block text-sm font-medium text-slate-300">Что копировать</span>
+          {partOptions.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                checked={parts.includes(option.value)}
+                onChange={() => togglePart(option.value)}
+                disabled={saving}
+                className="mt-0.5 h-4 w-4 rounded border-white/20 bg-slate-950/60 text-brand focus:ring-2 focus:ring-brand/40"
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-slate-400">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+          {mode === "duplicate" && (
+            <p className="text-xs text-slate-400">Автоматизация копии будет выключена — включите её после проверки.</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-400">
+            <AlertCircle size={18} className="mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 rounded-xl border border-white/10 bg-slate-800/60 px-4 py-2.5 text-sm font-medium text-slate-300 transition-all hover:border-white/20 hover:bg-slate-800/80 hover:text-white"
+          >
+            Отмена
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex-1 rounded-xl bg-gradient-to-r from-brand to-brand/80 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-brand/30 transition-all hover:from-brand/90 hover:to-brand/70 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? (
+              <Loader2 size={16} className="mr-2 inline animate-spin" />
+            ) : mode === "duplicate" ? (
+              <Copy size={16} className="mr-2 inline" />
+            ) : (
+              <BookmarkPlus size={16} className="mr-2 inline" />
+            )}
+            {mode === "duplicate" ? "Создать копию" : "Сохранить шаблон"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelCopyModal;
@@ -1,24 +1,27 @@
 import { useState, useRef } from "react";
-import { X, Upload, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { X, Upload, Loader2, CheckCircle2, AlertCircle, Search } from "lucide-react";
 import { useAuthStore } from "../stores/authStore";
 import { useChannelStore } from "../stores/channelStore";
-import { getAuthToken } from "../utils/auth";
-
-const backendBaseUrl =
-  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
-  "http://localhost:8080";
+import {
+  CHANNEL_IMPORT_STRATEGY_OPTIONS,
+  previewChannelImport,
+  runChannelImport,
+  type ChannelImportAction,
+  type ChannelImportPreview,
+  type ChannelImportResult,
+  type ChannelImportStrategy
+} from "../api/channelImport";
 
 interface ChannelImportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface ImportResult {
-  success: boolean;
-  imported: number;
-  skipped: number;
-  errors?: Array<{ channelName: string; error: string }>;
-}
+const ACTION_LABELS: Record<ChannelImportAction, { label: string; className: string }> = {
+  create: { label: "Создать", className: "bg-green-500/15 text-green-400" },
+  update: { label: "Обновить", className: "bg-brand/20 text-brand" },
+  skip: { label: "Пропустить", className: "bg-slate-700/60 text-slate-300" }
+};
 
 const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
   const { user } = useAuthStore((state) => ({ user: state.user }));
@@ -27,8 +30,13 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
   }));
 
   const [file, setFile] = useState<File | null>(null);
+  const [importData, setImportData] = useState<unknown>(null);
+  const [strategy, setStrategy] = useState<ChannelImportStrategy>("rename");
+  const [overrides, setOverrides] = useState<Record<string, ChannelImportStrategy>>({});
+  const [preview, setPreview] = useState<ChannelImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
   const [importing, setImporting] = useState(false);
-  const [result, setResult] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ChannelImportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -43,80 +51,95 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
       setFile(selectedFile);
       setError(null);
       setResult(null);
+      setImportData(null);
+      setPreview(null);
+      setOverrides({});
     }
   };
 
-  const handleImport = async () => {
-    if (!file || !user?.uid) {
-      return;
+  const getErrorMessage = (err: any, fallback: string): string => {
+    console.error("Import error:", err);
+
+    // Улучшенная обработка различных типов ошибок
+    if (err instanceof SyntaxError) {
+      return "Файл не является корректным JSON. Проверьте формат файла.";
     }
+    if (err instanceof TypeError && err.message.includes("Failed to fetch")) {
+      return "Не удалось подключиться к серверу. Проверьте, запущен ли backend.";
+    }
+    return err?.message || fallback;
+  };
 
-    setImporting(true);
+  // Пробный импорт: показывает, что произойдёт с каждым каналом, ничего не записывая
+  const loadPreview = async (
+    data: unknown,
+    nextStrategy: ChannelImportStrategy,
+    nextOverrides: Record<string, ChannelImportStrategy>
+  ) => {
+    setPreviewing(true);
     setError(null);
-    setResult(null);
-
     try {
-      // Читаем содержимое файла
-      const fileContent = await file.text();
-      const importData = JSON.parse(fileContent);
+      setPreview(await previewChannelImport(data, nextStrategy, nextOverrides));
+    } catch (err: any) {
+      setError(getErrorMessage(err, "Не удалось проверить файл. Проверьте формат файла."));
+    } finally {
+      setPreviewing(false);
+    }
+  };
 
-      // Получаем токен авторизации
-      const token = await getAuthToken();
+  const handlePreview = async () => {
+    if (!file || !user?.uid) {
+      return;
+    }
 
-      // Проверяем размер файла перед отправкой (10MB лимит)
-      const fileSizeMB = file.size / (1024 * 1024);
-      if (fileSizeMB > 10) {
-        throw new Error(`Файл слишком большой (${fileSizeMB.toFixed(2)} MB). Максимальный размер: 10 MB`);
-      }
+    // Проверяем размер файла перед отправкой (10MB лимит)
+    const fileSizeMB = file.size / (1024 * 1024);
+    if (fileSizeMB > 10) {
+      setError(`Файл слишком большой (${fileSizeMB.toFixed(2)} MB). Максимальный размер: 10 MB`);
+      return;
+    }
 
-      // Отправляем на сервер
-      const response = await fetch(`${backendBaseUrl}/api/channels/import`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify(importData)
-      });
+    try {
+      const data = JSON.parse(await file.text());
+      setImportData(data);
+      await loadPreview(data, strategy, overrides);
+    } catch (err: any) {
+      setError(getErrorMessage(err, "Не удалось прочитать файл."));
+    }
+  };
 
-      // Проверяем тип ответа перед парсингом JSON
-      const contentType = response.headers.get("content-type");
-      if (!contentType || !contentType.includes("application/json")) {
-        // Сервер вернул не JSON (вероятно HTML страницу с ошибкой)
-        if (response.status === 413) {
-          throw new Error("Файл слишком большой. Максимальный размер: 10 MB");
-        }
-        const text = await response.text();
-        throw new Error(`Сервер вернул ошибку (${response.status}). Проверьте размер файла и формат данных.`);
-      }
+  const handleStrategyChange = (nextStrategy: ChannelImportStrategy) => {
+    setStrategy(nextStrategy);
+    setOverrides({});
+    if (importData) {
+      void loadPreview(importData, nextStrategy, {});
+    }
+  };
 
-      const data = await response.json();
+  const handleOverrideChange = (index: number, itemStrategy: ChannelImportStrategy) => {
+    const nextOverrides = { ...overrides, [String(index)]: itemStrategy };
+    setOverrides(nextOverrides);
+    void loadPreview(importData, strategy, nextOverrides);
+  };
 
-      if (!response.ok) {
-        throw new Error(data.message || `Ошибка при импорте каналов (${response.status})`);
-      }
+  const handleImport = async () => {
+    if (!importData || !user?.uid) {
+      return;
+    }
 
+    setImporting(true);
+    setError(null);
+
+    try {
+      const data = await runChannelImport(importData, strategy, overrides);
       setResult(data);
 
       // Обновляем список каналов
-      if (data.success && data.imported > 0) {
+      if (data.success && data.imported + (data.updated ?? 0) > 0) {
         await fetchChannels(user.uid);
       }
     } catch (err: any) {
-      console.error("Import error:", err);
-      
-      // Улучшенная обработка различных типов ошибок
-      let errorMessage = "Не удалось импортировать каналы. Проверьте формат файла.";
-      
-      if (err instanceof SyntaxError && err.message.includes("Unexpected token")) {
-        errorMessage = "Сервер вернул некорректный ответ. Возможно, файл слишком большой или сервер недоступен.";
-      } else if (err.message) {
-        errorMessage = err.message;
-      } else if (err instanceof TypeError && err.message.includes("Failed to fetch")) {
-        errorMessage = "Не удалось подключиться к серверу. Проверьте, запущен ли backend.";
-      }
-      
-      setError(errorMessage);
+      setError(getErrorMessage(err, "Не удалось импортировать каналы. Проверьте формат файла."));
     } finally {
       setImporting(false);
     }
@@ -124,6 +147,9 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
 
   const handleClose = () => {
     setFile(null);
+    setImportData(null);
+    setPreview(null);
+    setOverrides({});
     setResult(null);
     setError(null);
     if (fileInputRef.current) {
@@ -152,7 +178,7 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
         {/* Заголовок */}
         <h2 className="mb-2 text-xl font-bold text-white">Импорт каналов</h2>
         <p className="mb-6 text-sm text-slate-400">
-          Выберите JSON-файл, экспортированный из Shorts AI Studio. Каналы будут добавлены в ваш аккаунт. Существующие каналы не будут изменены.
+          Выберите JSON-файл, экспортированный из Shorts AI Studio. Перед импортом вы увидите, какие каналы будут созданы, обновлены или пропущены.
         </p>
 
         {/* Выбор файла */}
@@ -168,7 +194,7 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
                 accept="application/json,.json"
                 onChange={handleFileSelect}
                 className="w-full rounded-lg border border-white/10 bg-slate-800/50 px-4 py-2 text-sm text-white file:mr-4 file:rounded-lg file:border-0 file:bg-brand/20 file:px-4 file:py-2 file:text-sm file:font-medium file:text-brand file:hover:bg-brand/30 file:cursor-pointer cursor-pointer transition-colors"
-                disabled={importing}
+                disabled={importing || previewing}
               />
               {file && (
                 <div className="mt-2 space-y-1">
@@ -185,6 +211,74 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
               )}
             </div>
 
+            {/* Стратегия для каналов, которые уже есть в аккаунте */}
+            <label className="mb-4 block">
+              <span className="mb-2 block text-sm font-medium text-slate-300">
+                Если канал уже существует
+              </span>
+              <select
+                value={strategy}
+                onChange={(e) => handleStrategyChange(e.target.value as ChannelImportStrategy)}
+                disabled={importing || previewing}
+                className="w-full rounded-lg border border-white/10 bg-slate-800/50 px-4 py-2 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+              >
+                {CHANNEL_IMPORT_STRATEGY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <span className="mt-1 block text-xs text-slate-500">
+                Каналы из файлов версии 2 находятся по id, из старых файлов — по имени
+              </span>
+            </label>
+
+            {/* Проверка: что произойдёт с каждым каналом */}
+            {preview && (
+              <div className="mb-4 space-y-2">
+                <p className="text-sm text-slate-300">
+                  Создать: <span className="font-semibold text-green-400">{preview.summary.create}</span>
+                  {" · "}Обновить: <span className="font-semibold text-brand">{preview.summary.update}</span>
+                  {" · "}Пропустить: <span className="font-semibold text-slate-200">{preview.summary.skip}</span>
+                </p>
+                <ul className="max-h-64 space-y-2 overflow-y-auto pr-1">
+                  {preview.items.map((item) => (
+                    <li key={item.index} className="rounded-lg border border-white/10 bg-slate-800/40 p-3 text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate font-medium text-slate-200">
+                          {item.finalName !== item.name ? `${item.name} → ${item.finalName}` : item.name}
+                        </span>
+                        <span className={`flex-shrink-0 rounded px-2 py-0.5 ${ACTION_LABELS[item.action].className}`}>
+                          {ACTION_LABELS[item.action].label}
+                        </span>
+                      </div>
+                      {item.reason && <p className="mt-1 text-slate-400">{item.reason}</p>}
+                      {item.action === "update" && (
+                        <p className="mt-1 text-slate-400">Изменится: {item.changedFields.join(", ")}</p>
+                      )}
+                      {item.matchedBy && item.strategy && (
+                        <label className="mt-2 flex items-center gap-2 text-slate-400">
+                          <span>Совпал по {item.matchedBy === "id" ? "id" : "имени"}:</span>
+                          <select
+                            value={item.strategy}
+                            onChange={(e) => handleOverrideChange(item.index, e.target.value as ChannelImportStrategy)}
+                            disabled={importing || previewing}
+                            className="flex-1 rounded border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white outline-none focus:border-brand"
+                          >
+                            {CHANNEL_IMPORT_STRATEGY_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {error && (
               <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-400">
                 <AlertCircle size={18} className="mt-0.5 flex-shrink-0" />
@@ -202,24 +296,40 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
               >
                 Отмена
               </button>
-              <button
-                type="button"
-                onClick={handleImport}
-                disabled={!file || importing}
-                className="flex-1 rounded-xl bg-gradient-to-r from-brand to-brand/80 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-brand/30 transition-all hover:from-brand/90 hover:to-brand/70 hover:shadow-xl hover:shadow-brand/40 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {importing ? (
-                  <>
+              {!preview ? (
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={!file || previewing}
+                  className="flex-1 rounded-xl bg-gradient-to-r from-brand to-brand/80 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-brand/30 transition-all hover:from-brand/90 hover:to-brand/70 hover:shadow-xl hover:shadow-brand/40 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {previewing ? (
                     <Loader2 size={16} className="inline mr-2 animate-spin" />
-                    Импорт...
-                  </>
-                ) : (
-                  <>
-                    <Upload size={16} className="inline mr-2" />
-                    Импортировать
-                  </>
-                )}
-              </button>
+                  ) : (
+                    <Search size={16} className="inline mr-2" />
+                  )}
+                  Проверить
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={importing || previewing || preview.summary.create + preview.summary.update === 0}
+                  className="flex-1 rounded-xl bg-gradient-to-r from-brand to-brand/80 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-brand/30 transition-all hover:from-brand/90 hover:to-brand/70 hover:shadow-xl hover:shadow-brand/40 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing ? (
+                    <>
+                      <Loader2 size={16} className="inline mr-2 animate-spin" />
+                      Импорт...
+                    </>
+                  ) : (
+                    <>
+                      <Upload size={16} className="inline mr-2" />
+                      Импортировать
+                    </>
+                  )}
+                </button>
+              )}
             </div>
           </>
         )}
@@ -236,6 +346,9 @@ const ChannelImportModal = ({ isOpen, onClose }: ChannelImportModalProps) => {
                   </p>
                   <p className="text-sm text-slate-300">
                     Импортировано каналов: <span className="font-semibold text-green-400">{result.imported}</span>
+                    {(result.updated ?? 0) > 0 && (
+                      <> · Обновлено: {result.updated}</>
+                    )}
                     {result.skipped > 0 && (
                       <> · Пропущено: {result.skipped}</>
                     )}
@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Edit2, Save, X, Plus, Trash2, Loader2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { updateChannelSchedule, type ChannelScheduleItem } from "../api/channelSchedule";
 import type { ConflictKey } from "../utils/scheduleConflicts";
+import { describeScheduleRule } from "../utils/scheduleRules";
+import { convertScheduleTime } from "../utils/scheduleTimezone";
 import AutomationToggle from "./AutomationToggle";
 
 interface ChannelScheduleRowProps {
@@ -16,6 +18,8 @@ interface ChannelScheduleRowProps {
   nextTime: string | null;
   previousTime: string | null;
   previousElapsedSeconds: number;
+  referenceTimezone: string; // пояс, в котором заданы conflicts, activeTime, nextTime и previousTime
+  showReferenceTime: boolean; // показывать времена в опорном поясе вместо пояса канала
   onUpdate: (updatedItem: ChannelScheduleItem) => void;
   onError: (message: string) => void;
   onSuccess: (message: string) => void;
@@ -105,6 +109,8 @@ const ChannelScheduleRow = ({
   nextTime,
   previousTime,
   previousElapsedSeconds,
+  referenceTimezone,
+  showReferenceTime,
   onUpdate,
   onError,
   onSuccess,
@@ -118,7 +124,8 @@ const ChannelScheduleRow = ({
   const [timeErrors, setTimeErrors] = useState<Record<number, string>>({});
 
   const handleEdit = () => {
-    setEditedTimes([...item.times]);
+    // Времена из правил (cron/интервал/даты) здесь не редактируются
+    setEditedTimes([...(item.manualTimes ?? item.times)]);
     setTimeErrors({});
     setIsEditing(true);
   };
@@ -210,7 +217,12 @@ const ChannelScheduleRow = ({
       const updated = await updateChannelSchedule(item.id, validTimes);
       onUpdate(updated);
       setIsEditing(false);
-      onSuccess("Расписание сохранено");
+      const shifted = updated.shiftedTimes ?? [];
+      onSuccess(
+        shifted.length > 0
+          ? `Расписание сохранено, сдвинуто из-за интервала: ${shifted.map(({ from, to }) => `${from} → ${to}`).join(", ")}`
+          : "Расписание сохранено"
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : "Ошибка при сохранении расписания";
       onError(message);
@@ -225,43 +237,91 @@ const ChannelScheduleRow = ({
     }
   };
 
+  // Времена строки в опорном поясе: по ним ищутся конфликты и активный, следующий, предыдущий слоты
+  const referenceTimeByTime = useMemo(
+    () => new Map(item.times.map((time) => [time, convertScheduleTime(time, item.timezone, referenceTimezone)])),
+    [item.times, item.timezone, referenceTimezone]
+  );
+  const referenceTimes = Array.from(new Set(referenceTimeByTime.values())).sort();
+  const rowTimes = showReferenceTime ? referenceTimes : item.times;
+  // Редактируемые времена всегда в поясе канала
+  const toReference = (time: string) =>
+    showReferenceTime && !isEditing
+      ? time
+      : referenceTimeByTime.get(time) ?? convertScheduleTime(time, item.timezone, referenceTimezone);
+
   // Заполняем времена до нужного количества колонок для отображения
   const displayTimes = isEditing
     ? editedTimes
-    : [...item.times];
+    : [...rowTimes];
   
   while (displayTimes.length < timeColumnsCount) {
     displayTimes.push("");
   }
 
   const visibleTimes = displayTimes.slice(0, timeColumnsCount);
-  const hiddenTimesCount = Math.max(0, (isEditing ? editedTimes : item.times).length - timeColumnsCount);
+  const hiddenTimesCount = Math.max(0, (isEditing ? editedTimes : rowTimes).length - timeColumnsCount);
 
   // Проверяем, есть ли активное время в этой строке
-  const isActiveRow = activeTime != null && item.times.includes(activeTime);
+  const isActiveRow = activeTime != null && referenceTimes.includes(activeTime);
   // Проверяем, есть ли следующее время в этой строке (только если нет активного)
-  const isNextRow = !isActiveRow && nextTime != null && item.times.includes(nextTime);
+  const isNextRow = !isActiveRow && nextTime != null && referenceTimes.includes(nextTime);
   // Проверяем, есть ли предыдущее время в этой строке (только если нет активного и следующего)
-  const isPreviousRow = !isActiveRow && !isNextRow && previousTime != null && item.times.includes(previousTime);
+  const isPreviousRow = !isActiveRow && !isNextRow && previousTime != null && referenceTimes.includes(previousTime);
 
   // Формируем краткое резюме расписания для мобильной карточки
-  const scheduleSummary = item.times.length > 0
-    ? item.times.length === 1
-      ? `1 публикация: ${item.times[0]}`
-      : item.times.length <= 3
-      ? `${item.times.length} публикации: ${item.times.join(", ")}`
-      : `${item.times.length} публикаций: ${item.times[0]}...${item.times[item.times.length - 1]}`
+  const scheduleSummary = rowTimes.length > 0
+    ? rowTimes.length === 1
+      ? `1 публикация: ${rowTimes[0]}`
+      : rowTimes.length <= 3
+      ? `${rowTimes.length} публикации: ${rowTimes.join(", ")}`
+      : `${rowTimes.length} публикаций: ${rowTimes[0]}...${rowTimes[rowTimes.length - 1]}`
     : "Нет публикаций";
 
+  // Правила расписания показываем бейджами под названием канала
+  const ruleBadges = item.ruleSchedules && item.ruleSchedules.length > 0 ? (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {item.ruleSchedules.map((ruleSchedule) => (
+        <span
+          key={ruleSchedule.id}
+          className="rounded border border-brand/30 bg-brand/10 px-1.5 py-0.5 text-[10px] text-brand-light"
+          title={
+            ruleSchedule.todayTimes.length > 0
+              ? `Сегодня: ${ruleSchedule.todayTimes.join(", ")}. Изменяется в настройках канала`
+              : "Сегодня запусков нет. Изменяется в настройках канала"
+          }
+        >
+          {describeScheduleRule(ruleSchedule.rule)}
+        </span>
+      ))}
+    </div>
+  ) : null;
+
+  // Сегодня попадает в период блокировки — запуски по расписанию не выполняются
+  const blackoutBadge = item.blackoutToday ? (
+    <div className="mt-1">
+      <span
+        className="rounded border border-slate-500/40 bg-slate-700/40 px-1.5 py-0.5 text-[10px] text-slate-300"
+        title={
+          item.blackoutToday.scope === "user"
+            ? "Период блокировки для всех каналов"
+            : "Период блокировки канала. Изменяется в настройках канала"
+        }
+      >
+        Сегодня без автоматизации: {item.blackoutToday.label}
+      </span>
+    </div>
+  ) : null;
+
   // Мобильная версия - карточка (всегда развернута)
   if (isMobile) {
-    const validTimes = isEditing ? editedTimes.filter(t => t.trim()) : item.times;
+    const validTimes = isEditing ? editedTimes.filter(t => t.trim()) : rowTimes;
     
     return (
       <div
         className={`w-full rounded-lg border border-white/10 bg-slate-900/50 transition ${
           isEditing ? "bg-slate-800/50" : ""
-        } ${!item.isAutomationEnabled ? "opacity-60" : ""} ${
+        } ${!item.isAutomationEnabled || item.blackoutToday ? "opacity-60" : ""} ${
           isActiveRow && !isEditing ? "border-emerald-500/30 bg-emerald-500/5" : ""
         }`}
       >
@@ -279,6 +339,8 @@ const ChannelScheduleRow = ({
                 <div className="text-xs text-slate-400">{item.platform}</div>
               </button>
             </div>
+            {ruleBadges}
+            {blackoutBadge}
             <div className="mt-2 flex items-center gap-2">
               <AutomationToggle
                 enabled={item.isAutomationEnabled}
@@ -293,8 +355,9 @@ const ChannelScheduleRow = ({
               <button
                 type="button"
                 onClick={handleEdit}
-                className="min-h-[40px] min-w-[40px] flex items-center justify-center rounded border border-white/10 bg-slate-800/50 p-2 text-slate-300 transition hover:bg-slate-700/50"
-                title="Изменить расписание"
+                disabled={showReferenceTime}
+                className="min-h-[40px] min-w-[40px] flex items-center justify-center rounded border border-white/10 bg-slate-800/50 p-2 text-slate-300 transition hover:bg-slate-700/50 disabled:opacity-50"
+                title={showReferenceTime ? "Переключите таблицу на пояс канала, чтобы изменить расписание" : "Изменить расписание"}
               >
                 <Edit2 size={16} />
               </button>
@@ -392,18 +455,19 @@ const ChannelScheduleRow = ({
                 <div className="overflow-x-auto -mx-3 px-3">
                   <div className="flex gap-2 pb-2">
                     {validTimes.map((time, idx) => {
+                      const referenceTime = time ? toReference(time.trim()) : time;
                       const conflictKey: ConflictKey | null = time
-                        ? `${item.id}-${time}`
+                        ? `${item.id}-${referenceTime}`
                         : null;
                       const hasConflict = conflictKey ? conflicts.has(conflictKey) : false;
-                      const isActiveCell = activeTime != null && time === activeTime;
-                      const isNextCell = !isActiveCell && nextTime != null && time === nextTime;
+                      const isActiveCell = activeTime != null && referenceTime === activeTime;
+                      const isNextCell = !isActiveCell && nextTime != null && referenceTime === nextTime;
                       const isPreviousCell =
                         !isActiveCell &&
                         !isNextCell &&
                         previousTime != null &&
-                        time != null &&
-                        time.trim() === previousTime.trim();
+                        referenceTime != null &&
+                        referenceTime === previousTime.trim();
 
                       return (
                         <div
@@ -443,7 +507,7 @@ const ChannelScheduleRow = ({
     <tr
       className={`border-b border-white/5 transition ${
         isEditing ? "bg-slate-800/50" : "hover:bg-slate-800/30"
-      } ${!item.isAutomationEnabled ? "opacity-60" : ""} ${
+      } ${!item.isAutomationEnabled || item.blackoutToday ? "opacity-60" : ""} ${
         isActiveRow && !isEditing ? "bg-emerald-500/5" : ""
       } ${isNextRow && !isEditing ? "next-slot-row" : ""} ${
         isPreviousRow && !isEditing ? "previous-slot-row" : ""
@@ -461,6 +525,8 @@ const ChannelScheduleRow = ({
           <div className="font-medium text-white">{item.name}</div>
           <div className="text-xs text-slate-400">{item.platform}</div>
         </button>
+        {ruleBadges}
+        {blackoutBadge}
       </td>
       <td className="px-4 py-3 text-center align-middle">
         <div className="flex items-center justify-center">
@@ -474,21 +540,23 @@ const ChannelScheduleRow = ({
       </td>
       {visibleTimes.map((time, timeIndex) => {
         const hasTime = !!time;
+        // Подсветка сравнивается во времени опорного пояса
+        const referenceTime = hasTime ? toReference(time.trim()) : time;
         const conflictKey: ConflictKey | null = hasTime
-          ? `${item.id}-${time}`
+          ? `${item.id}-${referenceTime}`
           : null;
         const hasConflict = conflictKey ? conflicts.has(conflictKey) : false;
-        const isActiveCell = activeTime != null && time === activeTime;
+        const isActiveCell = activeTime != null && referenceTime === activeTime;
         // Следующий слот подсвечивается только если он не активный (приоритет зелёного)
-        const isNextCell = !isActiveCell && nextTime != null && time === nextTime;
+        const isNextCell = !isActiveCell && nextTime != null && referenceTime === nextTime;
         // Предыдущий слот подсвечивается только если он не активный и не следующий
         // Предыдущий слот: проверяем точное совпадение времени (с учётом возможных пробелов)
         const isPreviousCell = 
           !isActiveCell && 
           !isNextCell && 
           previousTime != null && 
-          time != null &&
-          time.trim() === previousTime.trim();
+          referenceTime != null &&
+          referenceTime === previousTime.trim();
 
         // Диагностический лог для проблемных ячеек
         if (time && previousTime) {
@@ -534,7 +602,7 @@ const ChannelScheduleRow = ({
               isActiveCell && !isEditing ? "bg-emerald-500/15" : ""
             } ${!isActiveCell && isNextCell && !isEditing ? "next-slot-cell" : ""} ${
               !isActiveCell && !isNextCell && isPreviousCell && !isEditing ? "previous-slot-cell" : ""
-            } ${animateActiveTime && time === animateActiveTime && !isEditing ? "active-slot-pulse rounded" : ""}`}
+            } ${animateActiveTime && referenceTime === animateActiveTime && !isEditing ? "active-slot-pulse rounded" : ""}`}
             title={activeTooltip || nextTooltip || previousTooltip || conflictTooltip}
           >
             {isEditing ? (
@@ -577,7 +645,7 @@ const ChannelScheduleRow = ({
                       : hasConflict
                       ? "bg-red-500/10 text-red-300 underline decoration-red-500/60 decoration-dotted"
                       : "text-white"
-                  } ${animateActiveTime && time === animateActiveTime ? "active-slot-pulse" : ""}`}
+                  } ${animateActiveTime && referenceTime === animateActiveTime ? "active-slot-pulse" : ""}`}
                 >
                   {time || "—"}
                 </span>
@@ -622,7 +690,7 @@ const ChannelScheduleRow = ({
       {hiddenTimesCount > 0 && !isEditing && (
         <td
           className="px-4 py-3 text-center text-sm text-slate-400"
-          title={`Ещё времена: ${(isEditing ? editedTimes : item.times).slice(timeColumnsCount).join(", ")}`}
+          title={`Ещё времена: ${(isEditing ? editedTimes : rowTimes).slice(timeColumnsCount).join(", ")}`}
         >
           <span className="rounded bg-slate-800/50 px-2 py-1">+{hiddenTimesCount}</span>
         </td>
@@ -668,8 +736,9 @@ const ChannelScheduleRow = ({
           <button
             type="button"
             onClick={handleEdit}
-            className="rounded border border-white/10 bg-slate-800/50 px-3 py-1.5 text-xs font-medium text-slate-300 transition hover:bg-slate-700/50"
-            title="Изменить расписание"
+            disabled={showReferenceTime}
+            className="rounded border border-white/10 bg-slate-800/50 px-3 py-1.5 text-xs font-medium text-slate-300 transition hover:bg-slate-700/50 disabled:opacity-50"
+            title={showReferenceTime ? "Переключите таблицу на пояс канала, чтобы изменить расписание" : "Изменить расписание"}
           >
             <Edit2 size={14} />
           </button>
@@ -16,6 +16,8 @@ interface ChannelScheduleTableProps {
   nextTime: string | null;
   previousTime: string | null;
   previousElapsedSeconds: number;
+  referenceTimezone: string;
+  showReferenceTime: boolean;
 }
 
 const ChannelScheduleTable = ({
@@ -28,7 +30,9 @@ const ChannelScheduleTable = ({
   minIntervalMinutes,
   nextTime,
   previousTime,
-  previousElapsedSeconds
+  previousElapsedSeconds,
+  referenceTimezone,
+  showReferenceTime
 }: ChannelScheduleTableProps) => {
   const { toasts, showError, showSuccess, removeToast } = useToast();
 
@@ -147,6 +151,8 @@ const ChannelScheduleTable = ({
                 nextTime={nextTime}
                 previousTime={previousTime}
                 previousElapsedSeconds={previousElapsedSeconds}
+                referenceTimezone={referenceTimezone}
+                showReferenceTime={showReferenceTime}
                 onUpdate={handleUpdate}
                 onError={handleError}
                 onSuccess={handleSuccess}
@@ -172,6 +178,8 @@ const ChannelScheduleTable = ({
             nextTime={nextTime}
             previousTime={previousTime}
             previousElapsedSeconds={previousElapsedSeconds}
+            referenceTimezone={referenceTimezone}
+            showReferenceTime={showReferenceTime}
             onUpdate={handleUpdate}
             onError={handleError}
             onSuccess={handleSuccess}
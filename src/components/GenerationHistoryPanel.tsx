@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Check,
+  Eye,
+  History,
+  Loader2,
+  Search,
+  Sparkles,
+  Star,
+  Trash2
+} from "lucide-react";
+import type { Channel } from "../domain/channel";
+import type { GenerationHistoryEntry } from "../domain/generationHistory";
+import { generationHistoryRepository } from "../repositories/generationHistoryRepository";
+import { sendPromptToSyntx } from "../api/telegram";
+import {
+  EMPTY_HISTORY_FILTERS,
+  filterGenerationHistory,
+  type GenerationHistoryFilters
+} from "../utils/generationHistory";
+
+interface GenerationHistoryPanelProps {
+  channel: Channel;
+  userId: string;
+  refreshKey?: number; // Увеличивается родителем после новой генерации
+  onOpen: (entry: GenerationHistoryEntry) => void;
+}
+
+const MODE_LABELS: Record<GenerationHistoryEntry["mode"], string> = {
+  script: "Сценарий",
+  prompt: "Сценарий + промпт",
+  "video-prompt-only": "Только промпт"
+};
+
+const formatCreatedAt = (entry: GenerationHistoryEntry) =>
+  entry.createdAt.toDate().toLocaleString("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+const getEntryTitle = (entry: GenerationHistoryEntry) =>
+  entry.fileTitle || entry.idea || entry.scenarios[0]?.title || "Без названия";
+
+const GenerationHistoryPanel = ({
+  channel,
+  userId,
+  refreshKey = 0,
+  onOpen
+}: GenerationHistoryPanelProps) => {
+  const [entries, setEntries] = useState<GenerationHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<GenerationHistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [sentIds, setSentIds] = useState<Set<string>>(new Set());
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await generationHistoryRepository.getEntries(userId, channel.id);
+      setEntries(result);
+    } catch (err) {
+      console.error("Failed to load generation history:", err);
+      setError(err instanceof Error ? err.message : "Не удалось загрузить историю генераций");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, channel.id]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries, refreshKey]);
+
+  const filteredEntries = useMemo(
+    () => filterGenerationHistory(entries, filters),
+    [entries, filters]
+  );
+
+  const updateFilter = <K extends keyof GenerationHistoryFilters>(
+    key: K,
+    value: GenerationHistoryFilters[K]
+  ) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleToggleStar = async (entry: GenerationHistoryEntry) => {
+    const starred = !entry.starred;
+    // Оптимистичное обновление, откатываем при ошибке
+    setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, starred } : e)));
+    try {
+      await generationHistoryRepository.setStarred(userId, channel.id, entry.id, starred);
+    } catch (err) {
+      console.error("Failed to update starred flag:", err);
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, starred: !starred } : e)));
+      setError("Не удалось обновить избранное");
+    }
+  };
+
+  const handleDelete = async (entry: GenerationHistoryEntry) => {
+    if (!window.confirm("Удалить эту генерацию из истории?")) {
+      return;
+    }
+    try {
+      await generationHistoryRepository.deleteEntry(userId, channel.id, entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      console.error("Failed to delete history entry:", err);
+      setError("Не удалось удалить запись из истории");
+    }
+  };
+
+  const handleResend = async (entry: GenerationHistoryEntry) => {
+    if (!entry.videoPrompt) return;
+
+    setSendingId(entry.id);
+    setError(null);
+    try {
+      // Отправляем сохранённый промпт как есть, без повторной генерации
+      await sendPromptToSyntx(entry.videoPrompt, channel.id);
+      await generationHistoryRepository.markSentToSyntx(userId, channel.id, entry.id);
+      setSentIds((prev) => new Set(prev).add(entry.id));
+    } catch (err: any) {
+      console.error("Failed to resend prompt to SyntX:", err);
+      setError(
+        err?.response?.data?.message ||
+          err?.message ||
+          "Ошибка при отправке промпта в SyntX. Попробуйте позже."
+      );
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-6">
+      <div className="mb-4 flex items-center gap-2">
+        <History size={18} className="text-brand-light" />
+        <h2 className="text-lg font-semibold">История генераций</h2>
+        <span className="text-xs text-slate-400">
+          {filteredEntries.length} из {entries.length}
+        </span>
+      </div>
+
+      <div className="mb-4 grid gap-3 md:grid-cols-2">
+        <div className="relative md:col-span-2">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => updateFilter("search", e.target.value)}
+            placeholder="Поиск по идее, названию, промпту..."
+            className="w-full rounded-xl border border-white/10 bg-slate-950/60 py-2 pl-9 pr-3 text-sm text-white outline-none placeholder:text-slate-500 focus:border-brand"
+          />
+        </div>
+        <select
+          value={filters.mode}
+          onChange={(e) => updateFilter("mode", e.target.value as GenerationHistoryFilters["mode"])}
+          className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand"
+        >
+          <option value="all">Все режимы</option>
+          <option value="script">{MODE_LABELS.script}</option>
+          <option value="prompt">{MODE_LABELS.prompt}</option>
+          <option value="video-prompt-only">{MODE_LABELS["video-prompt-only"]}</option>
+        </select>
+        <label className="flex items-center gap-2 rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={filters.starredOnly}
+            onChange={(e) => updateFilter("starredOnly", e.target.checked)}
+            className="accent-brand"
+          />
+          Только избранное
+        </label>
+        <input
+          type="date"
+          value={filters.dateFrom}
+          onChange={(e) => updateFilter("dateFrom", e.target.value)}
+          className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand"
+          aria-label="С даты"
+        />
+        <input
+          type="date"
+          value={filters.dateTo}
+          onChange={(e) => updateFilter("dateTo", e.target.value)}
+          className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand"
+          aria-label="По дату"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-500/30 bg-red-950/40 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-slate-400">
+          <Loader2 size={16} className="animate-spin" />
+          Загрузка истории...
+        </div>
+      ) : filteredEntries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-400">
+          {entries.length === 0
+            ? "Здесь появятся все сгенерированные сценарии и промпты этого канала."
+            : "Ничего не найдено по выбранным фильтрам."}
+        </p>
+      ) : (
+        <ul className="max-h-[28rem] space-y-2 overflow-y-auto pr-1">
+          {filteredEntries.map((entry) => (
+            <li
+              key={entry.id}
+              className="rounded-xl border border-white/5 bg-slate-800/40 p-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium text-slate-100">
+                    {getEntryTitle(entry)}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-2 text-xs text-slate-400">
+                    <span>{formatCreatedAt(entry)}</span>
+                    <span>•</span>
+                    <span>{MODE_LABELS[entry.mode]}</span>
+                    {entry.model && (
+                      <>
+                        <span>•</span>
+                        <span>{entry.model}</span>
+                      </>
+                    )}
+                  </div>
+                  {entry.preferenceVariant && (
+                    <div className="mt-1 truncate text-xs text-slate-500" title={entry.preferenceVariant}>
+                      Пожелания: {entry.preferenceVariant}
+                    </div>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleToggleStar(entry)}
+                    className={`rounded-lg p-1.5 transition hover:bg-white/5 ${
+                      entry.starred ? "text-amber-300" : "text-slate-500 hover:text-slate-300"
+                    }`}
+                    title={entry.starred ? "Убрать из избранного" : "В избранное"}
+                  >
+                    <Star size={16} fill={entry.starred ? "currentColor" : "none"} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onOpen(entry)}
+                    className="rounded-lg p-1.5 text-slate-400 transition hover:bg-white/5 hover:text-white"
+                    title="Открыть"
+                  >
+                    <Eye size={16} />
+                  </button>
+                  {entry.videoPrompt && (
+                    <button
+                      type="button"
+                      onClick={() => handleResend(entry)}
+                      disabled={sendingId === entry.id}
+                      className="rounded-lg p-1.5 text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+                      title="Отправить промпт в SyntX повторно"
+                    >
+                      {sendingId === entry.id ? (
+                        <Loader2 size={16} className="animate-spin" />
+                      ) : sentIds.has(entry.id) ? (
+                        <Check size={16} />
+                      ) : (
+                        <Sparkles size={16} />
+                      )}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(entry)}
+                    className="rounded-lg p-1.5 text-slate-500 transition hover:bg-red-500/10 hover:text-red-300"
+                    title="Удалить"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GenerationHistoryPanel;
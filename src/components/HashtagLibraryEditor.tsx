@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Hash, Plus, Trash2 } from "lucide-react";
+import type { HashtagLibrary, HashtagSet, PreferencesMode } from "../domain/channel";
+import { normalizeHashtags } from "../utils/postTemplates";
+
+interface HashtagLibraryEditorProps {
+  value: HashtagLibrary | null | undefined;
+  onChange: (value: HashtagLibrary | null) => void;
+}
+
+const PLATFORMS: Array<[string, string]> = [
+  ["youtube", "YouTube"],
+  ["tiktok", "TikTok"],
+  ["instagram", "Instagram"],
+  ["facebook", "Facebook"],
+  ["threads", "Threads"],
+  ["twitter", "X"],
+  ["linkedin", "LinkedIn"],
+  ["pinterest", "Pinterest"],
+  ["bluesky", "Bluesky"]
+];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Поле ввода хештегов через пробел или запятую. Черновик хранится локально,
+ * чтобы разбор на хештеги не мешал набирать текст.
+ */
+const TagsInput = ({
+  tags,
+  placeholder,
+  onChange
+}: {
+  tags: string[];
+  placeholder: string;
+  onChange: (tags: string[]) => void;
+}) => {
+  const [draft, setDraft] = useState(tags.join(" "));
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onChange(normalizeHashtags(e.target.value.split(/[\s,]+/)));
+      }}
+      placeholder={placeholder}
+      className={inputClassName}
+    />
+  );
+};
+
+/**
+ * Библиотека хештегов канала: наборы с ротацией (как варианты пожеланий), привязка наборов к платформам
+ * и запрещённые хештеги. Хештеги набора дописываются к подписи каждой платформы при публикации.
+ */
+const HashtagLibraryEditor = ({ value, onChange }: HashtagLibraryEditorProps) => {
+  const library: HashtagLibrary = value ?? { sets: [], mode: "cyclic", lastUsedIndex: 0 };
+
+  const update = (patch: Partial<HashtagLibrary>) => {
+    const next = { ...library, ...patch };
+    const isEmpty = next.sets.length === 0 && (next.bannedHashtags ?? []).length === 0;
+    onChange(isEmpty ? null : next);
+  };
+
+  const updateSet = (id: string, patch: Partial<HashtagSet>) =>
+    update({ sets: library.sets.map((set) => (set.id === id ? { ...set, ...patch } : set)) });
+
+  const addSet = () =>
+    update({
+      sets: [...library.sets, { id: crypto.randomUUID(), name: `Набор ${library.sets.length + 1}`, tags: [], platforms: [] }]
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="space-y-1 text-xs font-medium text-slate-300">
+          <span>Ротация наборов</span>
+          <select
+            value={library.mode}
+            onChange={(e) => update({ mode: e.target.value as PreferencesMode })}
+            className={inputClassName}
+          >
+            <option value="cyclic">По порядку (циклически)</option>
+            <option value="random">Случайно</option>
+            <option value="fixed">Только первый набор</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-xs font-medium text-slate-300">
+          <span>Не больше хештегов в посте</span>
+          <input
+            type="number"
+            min="0"
+            max="60"
+            value={library.maxPerPost ?? ""}
+            onChange={(e) => update({ maxPerPost: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null })}
+            placeholder="Без ограничения"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {library.sets.length === 0 ? (
+        <p className="text-xs text-slate-500">Наборы хештегов не заданы</p>
+      ) : (
+        <ul className="space-y-3">
+          {library.sets.map((set) => (
+            <li key={set.id} className="space-y-2 rounded-lg border border-white/10 bg-slate-950/40 p-3">
+              <div className="flex items-center gap-2">
+                <Hash size={14} className="shrink-0 text-slate-400" />
+                <input
+                  type="text"
+                  value={set.name}
+                  onChange={(e) => updateSet(set.id, { name: e.target.value })}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ sets: library.sets.filter((s) => s.id !== set.id) })}
+                  className="shrink-0 text-slate-400 transition hover:text-red-400"
+                  title="Удалить набор"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <TagsInput
+                tags={set.tags}
+                placeholder="#shorts #рецепты #кофе"
+                onChange={(tags) => updateSet(set.id, { tags })}
+              />
+              <div className="flex flex-wrap gap-2">
+                {PLATFORMS.map(([platform, label]) => {
+                  const platforms = set.platforms ?? [];
+                  const active = platforms.includes(platform);
+                  return (
+                    <button
+                      key={platform}
+                      type="button"
+                      onClick={() =>
+                        updateSet(set.id, {
+                          platforms: active ? platforms.filter((p) => p !== platform) : [...platforms, platform]
+                        })
+                      }
+                      className={`rounded-lg px-2 py-0.5 text-[11px] font-medium transition ${
+                        active ? "bg-brand text-white" : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={addSet}
+        className="flex items-center gap-2 rounded-lg border border-white/10 px-3 py-1.5 text-xs text-slate-300 transition hover:border-white/20 hover:text-white"
+      >
+        <Plus size={14} />
+        Добавить набор
+      </button>
+
+      <label className="block space-y-1 text-xs font-medium text-slate-300">
+        <span>Запрещённые хештеги</span>
+        <TagsInput
+          tags={library.bannedHashtags ?? []}
+          placeholder="#реклама #ad"
+          onChange={(bannedHashtags) => update({ bannedHashtags })}
+        />
+      </label>
+
+      <p className="text-xs text-slate-500">
+        Если платформы набора не выбраны, он используется везде. Запрещённые хештеги удаляются и из подписей,
+        сгенерированных LLM. Instagram допускает до 30 хештегов, YouTube — до 15.
+      </p>
+    </div>
+  );
+};
+
+export default HashtagLibraryEditor;
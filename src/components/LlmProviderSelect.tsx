@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { fetchLlmProviders, type LlmProviderInfo, type LlmProviderName, type LlmProviderSelection } from "../api/llmProviders";
+
+interface LlmProviderSelectProps {
+  value: LlmProviderSelection | null | undefined;
+  onChange: (value: LlmProviderSelection | null) => void;
+  inheritLabel: string; // подпись варианта "не задано" — наследование от аккаунта или сервера
+  disabled?: boolean;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20 disabled:opacity-50";
+
+/**
+ * Выбор LLM-провайдера и модели. Ненастроенные на сервере провайдеры показываются, но недоступны.
+ */
+const LlmProviderSelect = ({ value, onChange, inheritLabel, disabled = false }: LlmProviderSelectProps) => {
+  const [providers, setProviders] = useState<LlmProviderInfo[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLlmProviders()
+      .then((response) => setProviders(response.providers))
+      .catch((error: unknown) => {
+        setLoadError(error instanceof Error ? error.message : "Не удалось загрузить провайдеров");
+      });
+  }, []);
+
+  const selected = providers.find((provider) => provider.name === value?.provider);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <select
+          value={value?.provider ?? ""}
+          onChange={(e) => {
+            const name = e.target.value as LlmProviderName | "";
+            onChange(name ? { provider: name, model: null } : null);
+          }}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="">{inheritLabel}</option>
+          {providers.map((provider) => (
+            <option key={provider.name} value={provider.name} disabled={!provider.configured}>
+              {provider.label}
+              {provider.configured ? "" : " (не настроен на сервере)"}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          list={selected?.models ? `llm-models-${selected.name}` : undefined}
+          value={value?.model ?? ""}
+          onChange={(e) => value && onChange({ ...value, model: e.target.value || null })}
+          placeholder={selected ? `Модель по умолчанию: ${selected.defaultModel}` : "Модель по умолчанию"}
+          maxLength={100}
+          disabled={disabled || !value}
+          className={inputClassName}
+        />
+      </div>
+      {selected?.models && (
+        <datalist id={`llm-models-${selected.name}`}>
+          {selected.models.map((model) => (
+            <option key={model} value={model} />
+          ))}
+        </datalist>
+      )}
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
+
+export default LlmProviderSelect;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { getUserSettings, updateUserSettings } from "../api/userSettings";
+import type { LlmProviderSelection } from "../api/llmProviders";
+import { useToast } from "../hooks/useToast";
+import LlmProviderSelect from "./LlmProviderSelect";
+
+export function LlmProviderSettings() {
+  const [selection, setSelection] = useState<LlmProviderSelection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setLoading(true);
+        const settings = await getUserSettings();
+        setSelection(settings.llmProvider ?? null);
+      } catch (error: any) {
+        console.error("Failed to load LLM provider settings", error);
+        showError("Не удалось загрузить настройки", 5000);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void loadSettings();
+  }, [showError]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await updateUserSettings({ llmProvider: selection });
+      showSuccess("Настройки сохранены", 3000);
+    } catch (error: any) {
+      console.error("Failed to save LLM provider settings", error);
+      showError(error.message || "Не удалось сохранить настройки", 5000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="border-t border-white/10 pt-6">
+        <div className="flex items-center gap-2 text-slate-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Загрузка настроек...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-white/10 pt-6">
+      <h2 className="text-lg font-semibold">Модель для генерации текстов</h2>
+      <p className="mt-2 text-xs text-slate-400">
+        Провайдер и модель для сценариев, промптов, названий роликов и подсказок мастера. Для отдельного канала выбор можно переопределить в его настройках.
+      </p>
+
+      <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-start">
+        <div className="flex-1">
+          <LlmProviderSelect value={selection} onChange={setSelection} inheritLabel="Как на сервере" disabled={saving} />
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center justify-center gap-2 rounded-lg bg-brand px-4 py-2.5 text-sm font-medium text-white transition hover:bg-brand/90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <>
+              <Loader2 size={16} className="animate-spin" />
+              <span className="hidden sm:inline">Сохранение...</span>
+            </>
+          ) : (
+            <>
+              <Save size={16} />
+              <span className="hidden sm:inline">Сохранить</span>
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { BarChart3, Loader2, Save } from "lucide-react";
+import {
+  fetchLlmUsage,
+  updateLlmQuota,
+  type LlmQuota,
+  type LlmUsageResponse,
+  type LlmUsageTotals
+} from "../api/llmUsage";
+import { useChannelStore } from "../stores/channelStore";
+import { useToast } from "../hooks/useToast";
+
+const USAGE_DAYS = 30;
+
+const PURPOSE_LABELS: Record<string, string> = {
+  script_generation: "Сценарии",
+  auto_prompt_generation: "Автогенерация промпта",
+  video_prompt_generation: "VIDEO_PROMPT",
+  youtube_title: "Название ролика",
+  field_help: "Помощь по полю",
+  section_help: "Помощь по разделу",
+  suggest_niche: "Подбор ниши",
+  suggest_target_audience: "Подбор аудитории",
+  suggest_forbidden_topics: "Запрещённые темы",
+  suggest_additional_preferences: "Доп. пожелания"
+};
+
+const QUOTA_FIELDS: Array<{ key: keyof LlmQuota; label: string; step: string }> = [
+  { key: "dailyTokens", label: "Токенов в сутки", step: "1000" },
+  { key: "monthlyTokens", label: "Токенов в месяц", step: "10000" },
+  { key: "dailyCostUsd", label: "$ в сутки", step: "0.1" },
+  { key: "monthlyCostUsd", label: "$ в месяц", step: "1" }
+];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-brand/50 focus:outline-none focus:ring-2 focus:ring-brand/20";
+
+function formatTokens(value: number): string {
+  return value.toLocaleString("ru-RU");
+}
+
+function formatCost(value: number): string {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function sortByTokens(entries: Record<string, LlmUsageTotals>): Array<[string, LlmUsageTotals]> {
+  return Object.entries(entries).sort((a, b) => b[1].totalTokens - a[1].totalTokens);
+}
+
+function toQuotaForm(quota: LlmQuota | null): Record<keyof LlmQuota, string> {
+  return {
+    dailyTokens: quota?.dailyTokens?.toString() ?? "",
+    monthlyTokens: quota?.monthlyTokens?.toString() ?? "",
+    dailyCostUsd: quota?.dailyCostUsd?.toString() ?? "",
+    monthlyCostUsd: quota?.monthlyCostUsd?.toString() ?? ""
+  };
+}
+
+const UsageBar = ({ used, limit, format }: { used: number; limit: number | null | undefined; format: (v: number) => string }) => {
+  if (typeof limit !== "number") {
+    return <p className="text-xs text-slate-500">Без лимита</p>;
+  }
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  const color = percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-400" : "bg-brand";
+  return (
+    <div className="space-y-1">
+      <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+        <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-slate-500">
+        {format(used)} из {format(limit)}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Расход LLM пользователя: сегодня и за месяц, график по дням, разбивка по каналам и моделям, лимиты
+ */
+export function LlmUsageDashboard() {
+  const [usage, setUsage] = useState<LlmUsageResponse | null>(null);
+  const [quotaForm, setQuotaForm] = useState<Record<keyof LlmQuota, string>>(toQuotaForm(null));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const channels = useChannelStore((state) => state.channels);
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchLlmUsage(USAGE_DAYS);
+        setUsage(data);
+        setQuotaForm(toQuotaForm(data.quota.user));
+      } catch (error: any) {
+        console.error("Failed to load LLM usage", error);
+        showError(error.message || "Не удалось загрузить расход LLM", 5000);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void loadUsage();
+  }, [showError]);
+
+  const handleSaveQuota = async () => {
+    const quota: LlmQuota = {};
+    for (const { key, label } of QUOTA_FIELDS) {
+      const raw = quotaForm[key].trim();
+      const value = raw === "" ? null : Number(raw);
+      if (value !== null && (!Number.isFinite(value) || value < 0)) {
+        showError(`${label}: укажите неотрицательное число`, 5000);
+        return;
+      }
+      quota[key] = value;
+    }
+
+    try {
+      setSaving(true);
+      const state = await updateLlmQuota(quota);
+      setUsage((current) => (current ? { ...current, quota: state } : current));
+      showSuccess("Лимиты сохранены", 3000);
+    } catch (error: any) {
+      console.error("Failed to save LLM quota", error);
+      showError(error.message || "Не удалось сохранить лимиты", 5000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const channelName = (channelId: string) =>
+    channelId === "none" ? "Без канала" : channels.find((c) => c.id === channelId)?.name || channelId;
+
+  if (loading) {
+    return (
+      <div className="border-t border-white/10 pt-6">
+        <div className="flex items-center gap-2 text-slate-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Загрузка расхода LLM...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!usage) {
+    return null;
+  }
+
+  const { today, month, quota } = usage;
+  const maxDayTokens = Math.max(1, ...usage.days.map((day) => day.totalTokens));
+
+  return (
+    <div className="space-y-5 border-t border-white/10 pt-6">
+      <div className="flex items-center gap-2">
+        <BarChart3 size={18} className="text-brand-light" />
+        <h2 className="text-lg font-semibold">Расход LLM</h2>
+      </div>
+      <p className="text-xs text-slate-400">
+        Учитываются все вызовы: сценарии, промпты, названия роликов и подсказки. Сутки и месяц считаются по UTC, стоимость — оценка по прайсу модели.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {[
+          { title: "Сегодня", period: today, tokenLimit: quota.effective.dailyTokens, costLimit: quota.effective.dailyCostUsd },
+          { title: "Этот месяц", period: month, tokenLimit: quota.effective.monthlyTokens, costLimit: quota.effective.monthlyCostUsd }
+        ].map(({ title, period, tokenLimit, costLimit }) => (
+          <div key={title} className="space-y-3 rounded-xl border border-white/10 bg-slate-900/60 p-4">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-slate-400">{title}</span>
+              <span className="text-xs text-slate-500">{period.calls} вызовов</span>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{formatTokens(period.totalTokens)} токенов</div>
+              <UsageBar used={period.totalTokens} limit={tokenLimit} format={formatTokens} />
+            </div>
+            <div>
+              <div className="text-sm text-slate-200">{formatCost(period.costUsd)}</div>
+              <UsageBar used={period.costUsd} limit={costLimit} format={formatCost} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-slate-300">Токены по дням</h3>
+        {usage.days.length === 0 ? (
+          <p className="text-xs text-slate-500">За последние {USAGE_DAYS} дней вызовов не было</p>
+        ) : (
+          <div className="flex h-24 items-end gap-1 rounded-lg border border-white/10 bg-slate-950/40 p-2">
+            {usage.days.map((day) => (
+              <div
+                key={day.period}
+                className="flex-1 rounded-t bg-brand/70 transition hover:bg-brand"
+                style={{ height: `${Math.max(4, (day.totalTokens / maxDayTokens) * 100)}%` }}
+                title={`${day.period}: ${formatTokens(day.totalTokens)} токенов, ${formatCost(day.costUsd)}, ${day.calls} вызовов`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-slate-300">По каналам за месяц</h3>
+          <ul className="space-y-1 text-sm">
+            {sortByTokens(month.channels).map(([channelId, totals]) => (
+              <li key={channelId} className="flex justify-between gap-3 text-slate-300">
+                <span className="truncate">{channelName(channelId)}</span>
+                <span className="shrink-0 text-slate-400">
+                  {formatTokens(totals.totalTokens)} · {formatCost(totals.costUsd)}
+                </span>
+              </li>
+            ))}
+            {Object.keys(month.channels).length === 0 && <li className="text-xs text-slate-500">Нет данных</li>}
+          </ul>
+        </div>
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-slate-300">По моделям за месяц</h3>
+          <ul className="space-y-1 text-sm">
+            {sortByTokens(month.models).map(([model, totals]) => (
+              <li key={model} className="flex justify-between gap-3 text-slate-300">
+                <span className="truncate">{model}</span>
+                <span className="shrink-0 text-slate-400">
+                  {formatTokens(totals.totalTokens)} · {formatCost(totals.costUsd)}
+                </span>
+              </li>
+            ))}
+            {Object.keys(month.models).length === 0 && <li className="text-xs text-slate-500">Нет данных</li>}
+          </ul>
+        </div>
+      </div>
+
+      {usage.recent.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-slate-300">Последние вызовы</h3>
+          <ul className="divide-y divide-white/5 rounded-lg border border-white/10 text-xs">
+            {usage.recent.slice(0, 10).map((record) => (
+              <li key={record.id} className="flex items-center justify-between gap-3 px-3 py-2 text-slate-300">
+                <span className="truncate">
+                  {PURPOSE_LABELS[record.purpose] || record.purpose}
+                  {record.channelId && <span className="text-slate-500"> · {channelName(record.channelId)}</span>}
+                </span>
+                <span className="shrink-0 text-slate-400">
+                  {record.model} · {formatTokens(record.totalTokens)} · {formatCost(record.costUsd)} ·{" "}
+                  {new Date(record.createdAt).toLocaleString("ru-RU", { dateStyle: "short", timeStyle: "short" })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-slate-300">Лимиты</h3>
+        <p className="text-xs text-slate-500">
+          Когда лимит исчерпан, генерация останавливается с понятной ошибкой до начала следующих суток или месяца. Пустое поле — без собственного лимита.
+        </p>
+        <div className="grid gap-3 sm:grid-cols-4">
+          {QUOTA_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="space-y-1">
+              <span className="text-xs text-slate-400">{label}</span>
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={quotaForm[key]}
+                onChange={(e) => setQuotaForm({ ...quotaForm, [key]: e.target.value })}
+                placeholder="Без лимита"
+                disabled={saving}
+                className={inputClassName}
+              />
+              {typeof quota.server[key] === "number" && (
+                <span className="block text-[11px] text-slate-500">Сервер: не больше {quota.server[key]}</span>
+              )}
+            </label>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleSaveQuota}
+          disabled={saving}
+          className="flex items-center gap-2 rounded-lg bg-brand px-4 py-2.5 text-sm font-medium text-white transition hover:bg-brand/90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+          {saving ? "Сохранение..." : "Сохранить лимиты"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { fetchPublishers, type PublisherInfo } from "../api/publishers";
+import type { PublisherName } from "../domain/channel";
+import SecretKeyField from "./SecretKeyField";
+
+interface PlatformPublishersEditorProps {
+  value: Partial<Record<string, PublisherName>> | null | undefined;
+  webhookUrl: string | null | undefined;
+  onChange: (value: Partial<Record<string, PublisherName>> | null) => void;
+  onWebhookUrlChange: (url: string | null) => void;
+  channelId?: string; // без канала (мастер создания) секрет webhook задаётся после сохранения
+  webhookSecretMasked?: string | null;
+  onWebhookSecretChange?: (masked: string | null) => void;
+}
+
+const PLATFORMS: Array<[string, string]> = [
+  ["youtube", "YouTube"],
+  ["tiktok", "TikTok"],
+  ["instagram", "Instagram"],
+  ["facebook", "Facebook"],
+  ["threads", "Threads"],
+  ["twitter", "Twitter / X"],
+  ["linkedin", "LinkedIn"],
+  ["pinterest", "Pinterest"],
+  ["bluesky", "Bluesky"]
+];
+
+// Публикаторы, которые умеют публиковать только на часть платформ
+const PUBLISHER_PLATFORMS: Partial<Record<PublisherName, string[]>> = {
+  youtube_api: ["youtube"]
+};
+
+// Пока список не загружен, доступен только Blotato
+const FALLBACK_PUBLISHERS: PublisherInfo[] = [{ name: "blotato", label: "Blotato", configured: true }];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Выбор публикатора для каждой платформы. Платформа с публикатором не Blotato публикуется
+ * без аккаунта Blotato; ненастроенные на сервере публикаторы показываются, но недоступны.
+ */
+const PlatformPublishersEditor = ({
+  value,
+  webhookUrl,
+  onChange,
+  onWebhookUrlChange,
+  channelId,
+  webhookSecretMasked,
+  onWebhookSecretChange
+}: PlatformPublishersEditorProps) => {
+  const [publishers, setPublishers] = useState<PublisherInfo[]>([]);
+
+  useEffect(() => {
+    fetchPublishers()
+      .then(setPublishers)
+      .catch(() => setPublishers([]));
+  }, []);
+
+  const handleChange = (platform: string, publisher: PublisherName) => {
+    const next = { ...(value ?? {}) };
+    if (publisher === "blotato") {
+      delete next[platform];
+    } else {
+      next[platform] = publisher;
+    }
+    onChange(Object.keys(next).length > 0 ? next : null);
+  };
+
+  const usesWebhook = Object.values(value ?? {}).includes("webhook");
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        {PLATFORMS.map(([platform, label]) => (
+          <label key={platform} className="space-y-1 text-xs font-medium text-slate-300">
+            <span>{label}</span>
+            <select
+              value={value?.[platform] ?? "blotato"}
+              onChange={(e) => handleChange(platform, e.target.value as PublisherName)}
+              className={inputClassName}
+            >
+              {(publishers.length > 0 ? publishers : FALLBACK_PUBLISHERS)
+                .filter((publisher) => PUBLISHER_PLATFORMS[publisher.name]?.includes(platform) ?? true)
+                .map((publisher) => (
+                  <option
+                    key={publisher.name}
+                    value={publisher.name}
+                    disabled={!publisher.configured && value?.[platform] !== publisher.name}
+                  >
+                    {publisher.label}
+                    {publisher.configured ? "" : " (не настроен на сервере)"}
+                  </option>
+                ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {usesWebhook && (
+        <label className="block space-y-1 text-xs font-medium text-slate-300">
+          <span>Адрес webhook</span>
+          <input
+            type="url"
+            value={webhookUrl ?? ""}
+            onChange={(e) => onWebhookUrlChange(e.target.value.trim() || null)}
+            placeholder="https://example.com/publish (пусто — адрес по умолчанию на сервере)"
+            className={inputClassName}
+          />
+          <span className="block font-normal text-slate-400">
+            Только https на публичный сервер. Адреса локальной и частной сети не принимаются.
+          </span>
+        </label>
+      )}
+
+      {usesWebhook && webhookUrl && channelId && onWebhookSecretChange && (
+        <div className="space-y-1 text-xs font-medium text-slate-300">
+          <span>Секрет подписи webhook</span>
+          <SecretKeyField
+            kind="publish_webhook_secret"
+            channelId={channelId}
+            masked={webhookSecretMasked}
+            onChange={onWebhookSecretChange}
+            placeholder="Секрет для заголовка x-publish-signature"
+          />
+          <span className="block font-normal text-slate-400">
+            Тело запроса подписывается HMAC-SHA256 этим секретом. Без секрета запрос на ваш адрес уходит без подписи.
+          </span>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-400">
+        По умолчанию видео публикуется через Blotato по ID аккаунтов выше. Для YouTube Data API нужен подключённый
+        Google Drive с правом загрузки на YouTube.
+      </p>
+    </div>
+  );
+};
+
+export default PlatformPublishersEditor;
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_POST_TEMPLATE_KEY,
+  PLATFORM_CAPTION_LIMITS,
+  POST_TEMPLATE_VARIABLES,
+  buildPlatformPost,
+  getPostTemplate,
+  normalizeHashtags,
+  renderPostTemplate,
+  textLength,
+  type PostTemplate,
+  type PostTemplates
+} from "../utils/postTemplates";
+
+interface PostTemplatesEditorProps {
+  value: PostTemplates | null | undefined;
+  channelName: string;
+  onChange: (value: PostTemplates | null) => void;
+}
+
+const TABS: Array<[string, string]> = [
+  [DEFAULT_POST_TEMPLATE_KEY, "Все платформы"],
+  ["youtube", "YouTube"],
+  ["tiktok", "TikTok"],
+  ["instagram", "Instagram"],
+  ["facebook", "Facebook"],
+  ["threads", "Threads"],
+  ["twitter", "Twitter / X"],
+  ["linkedin", "LinkedIn"],
+  ["pinterest", "Pinterest"],
+  ["bluesky", "Bluesky"]
+];
+
+// Платформы, у постов которых есть заголовок
+const TITLE_PLATFORMS = [DEFAULT_POST_TEMPLATE_KEY, "youtube", "pinterest"];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Шаблоны подписей, заголовков и хештегов по платформам с предпросмотром на примере ролика.
+ * Платформа без своего шаблона использует шаблон «Все платформы», без него — подпись от LLM.
+ */
+const PostTemplatesEditor = ({ value, channelName, onChange }: PostTemplatesEditorProps) => {
+  const [platform, setPlatform] = useState(DEFAULT_POST_TEMPLATE_KEY);
+  const template = value?.[platform] ?? {};
+  const [hashtagsDraft, setHashtagsDraft] = useState("");
+
+  useEffect(() => {
+    setHashtagsDraft((value?.[platform]?.hashtags ?? []).join(" "));
+    // Черновик хештегов переинициализируется только при смене вкладки
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [platform]);
+
+  const updateTemplate = (patch: Partial<PostTemplate>) => {
+    const next: PostTemplate = { ...template, ...patch };
+    const isEmpty = !next.title && !next.caption && (next.hashtags ?? []).length === 0;
+    const templates = { ...(value ?? {}) };
+    if (isEmpty) {
+      delete templates[platform];
+    } else {
+      templates[platform] = next;
+    }
+    onChange(Object.keys(templates).length > 0 ? templates : null);
+  };
+
+  const previewPlatform = platform === DEFAULT_POST_TEMPLATE_KEY ? "tiktok" : platform;
+  const variables = {
+    title: "Кофе за 5 минут: секрет бариста ☕",
+    description: "Быстрый рецепт идеального кофе дома",
+    idea: "кофе за 5 минут",
+    channelName: channelName || "Мой канал",
+    date: new Date().toLocaleDateString("ru-RU")
+  };
+  const preview = buildPlatformPost(value, previewPlatform, variables);
+  const effective = getPostTemplate(value, previewPlatform);
+  const limit = PLATFORM_CAPTION_LIMITS[previewPlatform];
+  const fullLength = effective?.caption
+    ? textLength(
+        renderPostTemplate(effective.caption, {
+          ...variables,
+          hashtags: normalizeHashtags(effective.hashtags).join(" ")
+        })
+      )
+    : textLength(variables.description);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {TABS.map(([key, label]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setPlatform(key)}
+            className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+              platform === key
+                ? "bg-brand text-white"
+                : value?.[key]
+                  ? "bg-slate-700 text-white hover:bg-slate-600"
+                  : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {TITLE_PLATFORMS.includes(platform) && (
+        <label className="block space-y-1 text-xs font-medium text-slate-300">
+          <span>Заголовок (YouTube, Pinterest)</span>
+          <input
+            type="text"
+            value={template.title ?? ""}
+            onChange={(e) => updateTemplate({ title: e.target.value || null })}
+            placeholder="{title}"
+            className={inputClassName}
+          />
+        </label>
+      )}
+
+      <label className="block space-y-1 text-xs font-medium text-slate-300">
+        <span>Подпись</span>
+        <textarea
+          value={template.caption ?? ""}
+          onChange={(e) => updateTemplate({ caption: e.target.value || null })}
+          placeholder={"{description}\n\n{hashtags}"}
+          rows={4}
+          className={inputClassName}
+        />
+      </label>
+
+      <label className="block space-y-1 text-xs font-medium text-slate-300">
+        <span>Хештеги для {"{hashtags}"}</span>
+        <input
+          type="text"
+          value={hashtagsDraft}
+          onChange={(e) => {
+            setHashtagsDraft(e.target.value);
+            updateTemplate({ hashtags: normalizeHashtags(e.target.value.split(/[\s,]+/)) });
+          }}
+          placeholder="#shorts #рецепты"
+          className={inputClassName}
+        />
+      </label>
+
+      <p className="text-xs text-slate-500">
+        Переменные:{" "}
+        {POST_TEMPLATE_VARIABLES.map((variable) => (
+          <span key={variable.name} className="mr-2 whitespace-nowrap">
+            <code className="text-slate-300">{`{${variable.name}}`}</code> — {variable.description}
+          </span>
+        ))}
+      </p>
+
+      <div className="space-y-2 rounded-lg border border-white/10 bg-slate-950/40 p-3">
+        <div className="flex items-center justify-between text-xs text-slate-400">
+          <span>Предпросмотр: {TABS.find(([key]) => key === previewPlatform)?.[1]}</span>
+          <span className={fullLength > limit ? "text-amber-400" : ""}>
+            {fullLength} / {limit}
+            {fullLength > limit ? " — будет сокращено" : ""}
+          </span>
+        </div>
+        {TITLE_PLATFORMS.includes(previewPlatform) && (
+          <p className="text-sm font-semibold text-white">{preview.title}</p>
+        )}
+        <p className="whitespace-pre-wrap text-sm text-slate-200">{preview.caption}</p>
+      </div>
+    </div>
+  );
+};
+
+export default PostTemplatesEditor;
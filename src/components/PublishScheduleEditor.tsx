@@ -0,0 +1,144 @@
+import { Plus, Trash2 } from "lucide-react";
+import type { PublishSchedule, PublishScheduleMode } from "../domain/channel";
+
+interface PublishScheduleEditorProps {
+  value: PublishSchedule | null | undefined;
+  timezone?: string;
+  onChange: (value: PublishSchedule | null) => void;
+}
+
+const MODES: { value: PublishScheduleMode; label: string }[] = [
+  { value: "immediate", label: "Сразу после генерации" },
+  { value: "slots", label: "В слоты публикации" },
+  { value: "delay", label: "Через N часов после генерации" }
+];
+
+const DAYS = [
+  { value: 1, label: "Пн" },
+  { value: 2, label: "Вт" },
+  { value: 3, label: "Ср" },
+  { value: 4, label: "Чт" },
+  { value: 5, label: "Пт" },
+  { value: 6, label: "Сб" },
+  { value: 0, label: "Вс" }
+];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Время публикации отдельно от генерации: ролики ждут во входной папке Drive до своего слота,
+ * так что генерация может идти ночью, а посты выходить в часы активности аудитории.
+ */
+const PublishScheduleEditor = ({ value, timezone, onChange }: PublishScheduleEditorProps) => {
+  const mode = value?.mode ?? "immediate";
+  const slots = value?.slots ?? [];
+  const days = value?.daysOfWeek ?? [];
+
+  const handleModeChange = (next: PublishScheduleMode) => {
+    if (next === "immediate") {
+      onChange(null);
+    } else if (next === "slots") {
+      onChange({ mode: "slots", slots: slots.length > 0 ? slots : ["18:00"], daysOfWeek: days });
+    } else {
+      onChange({ mode: "delay", delayHours: value?.delayHours ?? 6 });
+    }
+  };
+
+  const updateSlots = (nextSlots: string[]) => onChange({ mode: "slots", slots: nextSlots, daysOfWeek: days });
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value as PublishScheduleMode)}
+        className={inputClassName}
+      >
+        {MODES.map((item) => (
+          <option key={item.value} value={item.value}>
+            {item.label}
+          </option>
+        ))}
+      </select>
+
+      {mode === "slots" && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <input
+                  type="time"
+                  value={slot}
+                  onChange={(e) => updateSlots(slots.map((s, i) => (i === index ? e.target.value : s)))}
+                  className={`${inputClassName} w-28`}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateSlots(slots.filter((_, i) => i !== index))}
+                  disabled={slots.length <= 1}
+                  className="text-slate-400 transition hover:text-red-400 disabled:opacity-30"
+                  title="Удалить слот"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateSlots([...slots, "12:00"])}
+              className="flex items-center gap-1 rounded-lg border border-white/10 px-3 py-2 text-xs text-slate-300 transition hover:border-white/20 hover:text-white"
+            >
+              <Plus size={14} />
+              Слот
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {DAYS.map((day) => {
+              const active = days.includes(day.value);
+              return (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      mode: "slots",
+                      slots,
+                      daysOfWeek: active ? days.filter((d) => d !== day.value) : [...days, day.value]
+                    })
+                  }
+                  className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+                    active ? "bg-brand text-white" : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                  }`}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-slate-500">
+            Один ролик на слот, время — в часовом поясе канала{timezone ? ` (${timezone})` : ""}. Если дни не выбраны,
+            слоты действуют каждый день.
+          </p>
+        </div>
+      )}
+
+      {mode === "delay" && (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            max="168"
+            value={value?.delayHours ?? 6}
+            onChange={(e) =>
+              onChange({ mode: "delay", delayHours: Math.max(1, Math.min(168, parseInt(e.target.value) || 1)) })
+            }
+            className={`${inputClassName} w-28`}
+          />
+          <span className="text-xs text-slate-400">часов после появления ролика в Google Drive</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublishScheduleEditor;
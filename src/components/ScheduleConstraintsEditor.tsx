@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Lock, Trash2, Unlock } from "lucide-react";
+import type { ChannelScheduleConstraints, ScheduleTimeWindow } from "../domain/channel";
+
+interface ScheduleConstraintsEditorProps {
+  value: ChannelScheduleConstraints | null | undefined;
+  times: string[]; // времена классических расписаний канала, которые можно закрепить
+  onChange: (value: ChannelScheduleConstraints | null) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Ограничения канала для оптимизатора расписания: окна, в которых можно ставить слоты,
+ * и закреплённые времена, которые оптимизатор не переносит.
+ */
+const ScheduleConstraintsEditor = ({ value, times, onChange }: ScheduleConstraintsEditorProps) => {
+  const windows = value?.allowedWindows ?? [];
+  const lockedTimes = value?.lockedTimes ?? [];
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+
+  const update = (next: { allowedWindows: ScheduleTimeWindow[]; lockedTimes: string[] }) =>
+    onChange(next.allowedWindows.length === 0 && next.lockedTimes.length === 0 ? null : next);
+
+  const handleAddWindow = () => {
+    if (!start || !end) return;
+    update({ allowedWindows: [...windows, { start, end }], lockedTimes });
+    setStart("");
+    setEnd("");
+  };
+
+  const toggleLocked = (time: string) =>
+    update({
+      allowedWindows: windows,
+      lockedTimes: lockedTimes.includes(time) ? lockedTimes.filter((t) => t !== time) : [...lockedTimes, time].sort()
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <span className="text-xs font-medium text-slate-300">Разрешённые окна</span>
+        {windows.length === 0 ? (
+          <p className="text-xs text-slate-500">Без окон оптимизатор может ставить слоты в любое время суток</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {windows.map((window, index) => (
+              <span
+                key={`${window.start}-${window.end}-${index}`}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-slate-950/40 px-2 py-1 font-mono text-xs text-slate-200"
+              >
+                {window.start}–{window.end}
+                <button
+                  type="button"
+                  onClick={() => update({ allowedWindows: windows.filter((_, i) => i !== index), lockedTimes })}
+                  className="text-slate-400 transition hover:text-red-400"
+                  title="Удалить окно"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+          <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={inputClassName} />
+          <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClassName} />
+          <button
+            type="button"
+            onClick={handleAddWindow}
+            disabled={!start || !end}
+            className="rounded-lg bg-brand px-4 py-2 text-sm font-medium text-white transition hover:bg-brand-dark disabled:opacity-50"
+          >
+            Добавить окно
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs font-medium text-slate-300">Закреплённые времена</span>
+        {times.length === 0 ? (
+          <p className="text-xs text-slate-500">У канала нет времён классического расписания</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {times.map((time) => {
+              const locked = lockedTimes.includes(time);
+              return (
+                <button
+                  key={time}
+                  type="button"
+                  onClick={() => toggleLocked(time)}
+                  className={`inline-flex items-center gap-1 rounded-lg px-2 py-1 font-mono text-xs transition ${
+                    locked ? "bg-brand text-white" : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                  }`}
+                >
+                  {locked ? <Lock size={12} /> : <Unlock size={12} />}
+                  {time}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleConstraintsEditor;
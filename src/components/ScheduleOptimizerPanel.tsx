@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { ArrowRight, Loader2, Wand2, X } from "lucide-react";
+import { updateChannelSchedulesBatch, type ChannelScheduleItem } from "../api/channelSchedule";
+import type { ScheduleSettings } from "../api/scheduleSettings";
+import { optimizeSchedule, type ScheduleOptimization } from "../utils/scheduleOptimizer";
+import { convertScheduleTime, toReferenceSchedule } from "../utils/scheduleTimezone";
+
+interface ScheduleOptimizerPanelProps {
+  items: ChannelScheduleItem[];
+  settings: ScheduleSettings;
+  referenceTimezone: string;
+  onApplied: (items: ChannelScheduleItem[]) => void;
+}
+
+/**
+ * Оптимизатор работает в опорном часовом поясе, а переносы показываются и сохраняются
+ * во времени каждого канала.
+ */
+function optimizeInChannelTime(
+  items: ChannelScheduleItem[],
+  settings: ScheduleSettings,
+  referenceTimezone: string
+): ScheduleOptimization {
+  const now = new Date();
+  const result = optimizeSchedule(toReferenceSchedule(items, referenceTimezone, now), settings);
+  const toChannelTime = (channelId: string, time: string) => {
+    const item = items.find((i) => i.id === channelId);
+    return item ? convertScheduleTime(time, referenceTimezone, item.timezone, now) : time;
+  };
+  return {
+    ...result,
+    changes: result.changes.map((change) => ({
+      ...change,
+      shifts: change.shifts.map((shift) => ({
+        from: toChannelTime(change.channelId, shift.from),
+        to: toChannelTime(change.channelId, shift.to)
+      }))
+    })),
+    unresolved: result.unresolved.map((slot) => ({ ...slot, time: toChannelTime(slot.channelId, slot.time) }))
+  };
+}
+
+/**
+ * «Разрешить все конфликты»: оптимизатор предлагает переносы слотов всех каналов,
+ * пользователь смотрит разницу и применяет её одной пакетной записью.
+ */
+const ScheduleOptimizerPanel = ({ items, settings, referenceTimezone, onApplied }: ScheduleOptimizerPanelProps) => {
+  const [preview, setPreview] = useState<ScheduleOptimization | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const updated = await updateChannelSchedulesBatch(
+        preview.changes.map((change) => ({ channelId: change.channelId, moves: change.shifts }))
+      );
+      onApplied(
+        items.map((item) => {
+          const next = updated.find((u) => u.id === item.id);
+          return next ? { ...item, ...next, index: item.index } : item;
+        })
+      );
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось применить расписание");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!preview) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setError(null);
+          setPreview(optimizeInChannelTime(items, settings, referenceTimezone));
+        }}
+        className="mt-3 inline-flex items-center gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-1.5 text-xs font-medium text-amber-100 transition hover:bg-amber-500/20"
+      >
+        <Wand2 className="h-4 w-4" />
+        Разрешить все конфликты
+      </button>
+    );
+  }
+
+  const shiftCount = preview.changes.reduce((sum, change) => sum + change.shifts.length, 0);
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border border-white/10 bg-slate-950/60 p-3 text-sm text-slate-200">
+      <div className="flex items-start justify-between gap-3">
+        <p className="font-medium text-white">
+          {shiftCount > 0
+            ? `Перенести ${shiftCount} слот(ов) в ${preview.changes.length} канал(ах), суммарный сдвиг ${preview.totalShiftMinutes} мин`
+            : "Переносить нечего"}
+        </p>
+        <button
+          type="button"
+          onClick={() => setPreview(null)}
+          className="text-slate-400 transition hover:text-white"
+          title="Закрыть"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {preview.changes.length > 0 && (
+        <ul className="space-y-1.5">
+          {preview.changes.map((change) => (
+            <li key={change.channelId} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-medium text-slate-100">{change.channelName}</span>
+              {change.shifts.map((shift) => (
+                <span
+                  key={shift.from}
+                  className="inline-flex items-center gap-1 rounded bg-slate-800 px-1.5 py-0.5 font-mono"
+                >
+                  <span className="text-slate-400 line-through">{shift.from}</span>
+                  <ArrowRight className="h-3 w-3 text-slate-500" />
+                  <span className="text-emerald-300">{shift.to}</span>
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {preview.unresolved.length > 0 && (
+        <div className="space-y-1 text-xs text-amber-200">
+          <p className="font-medium">Не удалось разрешить:</p>
+          {preview.unresolved.map((slot) => (
+            <p key={`${slot.channelId}-${slot.time}`}>
+              {slot.channelName} {slot.time} — {slot.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => void handleApply()}
+          disabled={applying || shiftCount === 0}
+          className="inline-flex items-center gap-2 rounded-lg bg-brand px-3 py-1.5 text-xs font-medium text-white transition hover:bg-brand-dark disabled:opacity-50"
+        >
+          {applying && <Loader2 className="h-3 w-3 animate-spin" />}
+          Применить
+        </button>
+        <button
+          type="button"
+          onClick={() => setPreview(null)}
+          disabled={applying}
+          className="rounded-lg border border-white/10 px-3 py-1.5 text-xs text-slate-300 transition hover:border-white/20 hover:text-white disabled:opacity-50"
+        >
+          Отмена
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Закреплённые времена и расписания с правилами не переносятся. Окна и закрепления задаются в настройках канала.
+      </p>
+    </div>
+  );
+};
+
+export default ScheduleOptimizerPanel;
@@ -0,0 +1,229 @@
+import type { ChannelAutoSendSchedule } from "../domain/channel";
+import {
+  MIN_INTERVAL_EVERY_MINUTES,
+  validateScheduleRule,
+  type ScheduleRule
+} from "../utils/scheduleRules";
+
+type RuleKind = "weekly" | ScheduleRule["type"];
+
+interface ScheduleRuleEditorProps {
+  schedule: ChannelAutoSendSchedule;
+  onChange: (schedule: ChannelAutoSendSchedule) => void;
+}
+
+const RULE_KINDS: { value: RuleKind; label: string }[] = [
+  { value: "weekly", label: "По дням недели" },
+  { value: "interval", label: "Интервал" },
+  { value: "cron", label: "Cron-выражение" },
+  { value: "dates", label: "Конкретные даты" }
+];
+
+const DAYS = [
+  { value: 1, label: "Пн" },
+  { value: 2, label: "Вт" },
+  { value: 3, label: "Ср" },
+  { value: 4, label: "Чт" },
+  { value: 5, label: "Пт" },
+  { value: 6, label: "Сб" },
+  { value: 0, label: "Вс" }
+];
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20";
+
+/**
+ * Правило по умолчанию при переключении типа расписания
+ */
+function createDefaultRule(kind: RuleKind, schedule: ChannelAutoSendSchedule): ScheduleRule | null {
+  switch (kind) {
+    case "cron":
+      return { type: "cron", expression: "0 12 * * 1-5" };
+    case "interval":
+      return {
+        type: "interval",
+        everyMinutes: 120,
+        startTime: "10:00",
+        endTime: "18:00",
+        daysOfWeek: schedule.daysOfWeek || []
+      };
+    case "dates":
+      return { type: "dates", dates: [], times: [schedule.time || "12:00"] };
+    default:
+      return null;
+  }
+}
+
+// Разбирает список через запятую или пробел: "2026-01-01, 2026-01-15"
+function parseList(value: string): string[] {
+  return value
+    .split(/[,\s]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Редактор типа расписания (дни недели / интервал / cron / даты) и срока его действия.
+ * Для типа "По дням недели" поля дней и времени остаются в основной форме.
+ */
+const ScheduleRuleEditor = ({ schedule, onChange }: ScheduleRuleEditorProps) => {
+  const rule = schedule.rule ?? null;
+  const kind: RuleKind = rule ? rule.type : "weekly";
+  const ruleError = rule ? validateScheduleRule(rule) : null;
+  const rangeError =
+    schedule.validFrom && schedule.validUntil && schedule.validFrom > schedule.validUntil
+      ? "Дата начала действия позже даты окончания"
+      : null;
+
+  const updateRule = (next: ScheduleRule | null) => {
+    onChange({ ...schedule, rule: next });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="mb-2 block text-xs font-medium text-slate-300">Тип расписания</label>
+          <select
+            value={kind}
+            onChange={(e) => updateRule(createDefaultRule(e.target.value as RuleKind, schedule))}
+            className={inputClassName}
+          >
+            {RULE_KINDS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-2 block text-xs font-medium text-slate-300">Действует с</label>
+          <input
+            type="date"
+            value={schedule.validFrom || ""}
+            onChange={(e) => onChange({ ...schedule, validFrom: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="mb-2 block text-xs font-medium text-slate-300">Действует по</label>
+          <input
+            type="date"
+            value={schedule.validUntil || ""}
+            onChange={(e) => onChange({ ...schedule, validUntil: e.target.value || null })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {rule?.type === "cron" && (
+        <div>
+          <label className="mb-2 block text-xs font-medium text-slate-300">
+            Cron-выражение (минута час день месяц день_недели)
+          </label>
+          <input
+            type="text"
+            value={rule.expression}
+            onChange={(e) => updateRule({ ...rule, expression: e.target.value })}
+            placeholder="0 10 * * 5L"
+            className={`${inputClassName} font-mono`}
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            Например, «0 10 * * 5L» — в 10:00 в последнюю пятницу месяца, «30 9 * * 1#1» — в первый понедельник.
+          </p>
+        </div>
+      )}
+
+      {rule?.type === "interval" && (
+        <div className="space-y-3">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label className="mb-2 block text-xs font-medium text-slate-300">Каждые (минут)</label>
+              <input
+                type="number"
+                min={MIN_INTERVAL_EVERY_MINUTES}
+                step={15}
+                value={rule.everyMinutes}
+                onChange={(e) => updateRule({ ...rule, everyMinutes: parseInt(e.target.value, 10) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-xs font-medium text-slate-300">С</label>
+              <input
+                type="time"
+                value={rule.startTime}
+                onChange={(e) => updateRule({ ...rule, startTime: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-xs font-medium text-slate-300">До</label>
+              <input
+                type="time"
+                value={rule.endTime}
+                onChange={(e) => updateRule({ ...rule, endTime: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {DAYS.map((day) => {
+              const days = rule.daysOfWeek || [];
+              const active = days.includes(day.value);
+              return (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() =>
+                    updateRule({
+                      ...rule,
+                      daysOfWeek: active ? days.filter((d) => d !== day.value) : [...days, day.value]
+                    })
+                  }
+                  className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+                    active ? "bg-brand text-white" : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                  }`}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-slate-500">Если дни не выбраны, интервал действует каждый день.</p>
+        </div>
+      )}
+
+      {rule?.type === "dates" && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="mb-2 block text-xs font-medium text-slate-300">Даты (YYYY-MM-DD через запятую)</label>
+            <input
+              type="text"
+              defaultValue={rule.dates.join(", ")}
+              onBlur={(e) => updateRule({ ...rule, dates: parseList(e.target.value) })}
+              placeholder="2026-12-31, 2027-01-01"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="mb-2 block text-xs font-medium text-slate-300">Время (HH:MM через запятую)</label>
+            <input
+              type="text"
+              defaultValue={rule.times.join(", ")}
+              onBlur={(e) => updateRule({ ...rule, times: parseList(e.target.value) })}
+              placeholder="10:00, 18:30"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      {(ruleError || rangeError) && (
+        <p className="text-xs text-red-400">{ruleError || rangeError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleRuleEditor;
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { fetchSecretAudit, type SecretAuditEntry } from "../api/secrets";
+import { useChannelStore } from "../stores/channelStore";
+
+const ACTION_LABELS: Record<SecretAuditEntry["action"], string> = {
+  write: "Записан",
+  delete: "Удалён",
+  read: "Использован",
+  migrate: "Перенесён в хранилище"
+};
+
+const PURPOSE_LABELS: Record<string, string> = {
+  blotato_publish: "публикация через Blotato",
+  default_key: "ключ по умолчанию"
+};
+
+/**
+ * Журнал доступа к ключам сторонних сервисов: кто и зачем записывал или расшифровывал ключ
+ */
+export function SecretAccessLog() {
+  const [entries, setEntries] = useState<SecretAuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const channels = useChannelStore((state) => state.channels);
+
+  useEffect(() => {
+    fetchSecretAudit(undefined, 20)
+      .then(setEntries)
+      .catch((err) => setError(err instanceof Error ? err.message : "Не удалось загрузить журнал доступа"));
+  }, []);
+
+  const scopeLabel = (channelId: string | null) =>
+    channelId ? channels.find((c) => c.id === channelId)?.name || channelId : "Ключ по умолчанию";
+
+  return (
+    <div className="space-y-3 border-t border-white/10 pt-6">
+      <div className="flex items-center gap-2">
+        <ShieldCheck size={18} className="text-brand-light" />
+        <h2 className="text-lg font-semibold">Журнал доступа к ключам</h2>
+      </div>
+      <p className="text-xs text-slate-400">
+        Ключи хранятся зашифрованными на сервере и не передаются в браузер. Здесь видно, когда ключ записывали и для чего сервер его использовал.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!entries && !error && (
+        <div className="flex items-center gap-2 text-slate-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Загрузка журнала...</span>
+        </div>
+      )}
+      {entries && entries.length === 0 && <p className="text-xs text-slate-500">Обращений к ключам ещё не было</p>}
+      {entries && entries.length > 0 && (
+        <ul className="divide-y divide-white/5 rounded-lg border border-white/10 text-xs">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2 text-slate-300">
+              <span className="truncate">
+                {ACTION_LABELS[entry.action]}
+                {entry.purpose && (
+                  <span className="text-slate-500"> · {PURPOSE_LABELS[entry.purpose] || entry.purpose}</span>
+                )}
+                <span className="text-slate-500"> · {scopeLabel(entry.channelId)}</span>
+              </span>
+              <span className="shrink-0 text-slate-400">
+                {new Date(entry.at).toLocaleString("ru-RU", { dateStyle: "short", timeStyle: "short" })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
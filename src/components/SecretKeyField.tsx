@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { KeyRound, Trash2 } from "lucide-react";
+import { deleteSecret, saveSecret, type SecretKind } from "../api/secrets";
+
+interface SecretKeyFieldProps {
+  kind: SecretKind;
+  channelId?: string; // без channelId — ключ пользователя по умолчанию
+  masked: string | null | undefined;
+  onChange: (masked: string | null) => void;
+  placeholder?: string;
+  invalid?: boolean;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  "w-full rounded-xl border bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:ring-2";
+
+/**
+ * Поле секрета только для записи: значение сразу уходит в хранилище backend,
+ * обратно показывается лишь маска. Сохранённый ключ можно заменить или удалить.
+ */
+const SecretKeyField = ({
+  kind,
+  channelId,
+  masked,
+  onChange,
+  placeholder,
+  invalid = false,
+  disabled = false
+}: SecretKeyFieldProps) => {
+  const [value, setValue] = useState("");
+  const [editing, setEditing] = useState(!masked);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!value.trim()) {
+      setError("Введите ключ");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const secret = await saveSecret(kind, value.trim(), channelId);
+      setValue("");
+      setEditing(false);
+      onChange(secret.masked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось сохранить ключ");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await deleteSecret(kind, channelId);
+      setEditing(true);
+      onChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось удалить ключ");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {masked && !editing ? (
+        <div className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3">
+          <div className="flex items-center gap-2 text-sm text-slate-200">
+            <KeyRound size={16} className="text-emerald-400" />
+            <span className="font-mono">{masked}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              disabled={disabled || busy}
+              className="text-xs text-slate-300 transition hover:text-white disabled:opacity-50"
+            >
+              Заменить
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleDelete()}
+              disabled={disabled || busy}
+              className="text-slate-400 transition hover:text-red-400 disabled:opacity-50"
+              title="Удалить"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            autoComplete="off"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={placeholder}
+            disabled={disabled || busy}
+            className={`${inputClassName} ${
+              invalid
+                ? "border-red-500/50 focus:border-red-500 focus:ring-red-500/40"
+                : "border-white/10 focus:border-brand focus:ring-brand/40"
+            }`}
+          />
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={disabled || busy || !value.trim()}
+            className="shrink-0 rounded-xl bg-brand px-4 py-2 text-sm font-medium text-white transition hover:bg-brand-dark disabled:opacity-50"
+          >
+            {busy ? "Сохранение..." : "Сохранить"}
+          </button>
+          {masked && (
+            <button
+              type="button"
+              onClick={() => {
+                setValue("");
+                setEditing(false);
+              }}
+              disabled={busy}
+              className="shrink-0 rounded-xl border border-white/10 px-3 py-2 text-sm text-slate-300 transition hover:text-white"
+            >
+              Отмена
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default SecretKeyField;
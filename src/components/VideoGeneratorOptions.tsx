@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { fetchVideoGenerators, type VideoGeneratorInfo } from "../api/videoGenerators";
+import type { GenerationTransport } from "../domain/channel";
+
+interface VideoGeneratorOptionsProps {
+  value: GenerationTransport | undefined;
+  onSelect: (transport: GenerationTransport) => void;
+}
+
+const DESCRIPTIONS: Partial<Record<GenerationTransport, string>> = {
+  http_api: "Внешний сервис генерации видео по API, адрес задаётся на сервере",
+  stub: "Сразу возвращает образец видео — для проверки конвейера без генерации"
+};
+
+/**
+ * Варианты генераторов видео помимо SyntX в Telegram (кнопки в сетке выбора источника).
+ * Ненастроенные на сервере генераторы показываются, но недоступны.
+ */
+const VideoGeneratorOptions = ({ value, onSelect }: VideoGeneratorOptionsProps) => {
+  const [generators, setGenerators] = useState<VideoGeneratorInfo[]>([]);
+
+  useEffect(() => {
+    fetchVideoGenerators()
+      .then((list) => setGenerators(list.filter((generator) => !generator.transport.startsWith("telegram_"))))
+      .catch(() => setGenerators([]));
+  }, []);
+
+  return (
+    <>
+      {generators.map((generator) => {
+        // Уже выбранный генератор остаётся доступным, даже если его отключили на сервере
+        const available = generator.configured || value === generator.transport;
+        return (
+          <button
+            key={generator.transport}
+            type="button"
+            onClick={() => onSelect(generator.transport)}
+            disabled={!available}
+            className={`rounded-xl border px-4 py-3 text-left transition-all duration-200 ${
+              value === generator.transport
+                ? "border-brand bg-brand/10 text-white shadow-md shadow-brand/20"
+                : !available
+                ? "border-white/5 bg-slate-950/30 text-slate-500 cursor-not-allowed"
+                : "border-white/10 bg-slate-950/60 text-slate-300 hover:border-brand/40 hover:bg-slate-900/80"
+            }`}
+          >
+            <div className="font-semibold">{generator.label}</div>
+            <div className="mt-1 text-xs text-slate-400">
+              {generator.configured ? DESCRIPTIONS[generator.transport] ?? "" : "Не настроен на сервере"}
+            </div>
+          </button>
+        );
+      })}
+    </>
+  );
+};
+
+export default VideoGeneratorOptions;
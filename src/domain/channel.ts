@@ -3,6 +3,11 @@ import {
   serverTimestamp,
   type FirestoreDataConverter
 } from "firebase/firestore";
+import type { ScheduleRule } from "../utils/scheduleRules";
+import type { BlackoutPeriod } from "../utils/blackoutPeriods";
+import type { PostTemplates } from "../utils/postTemplates";
+import type { LlmProviderSelection } from "../api/llmProviders";
+import type { SecretKind } from "../api/secrets";
 
 export type SupportedPlatform =
   | "YOUTUBE_SHORTS"
@@ -14,7 +19,15 @@ export type SupportedLanguage = "ru" | "en" | "kk";
 
 export type GenerationMode = "script" | "prompt" | "video-prompt-only";
 
-export type GenerationTransport = "telegram_global" | "telegram_user";
+/**
+ * Генератор видео: бот SyntX через общий или личный Telegram, внешний HTTP API или тестовая заглушка
+ */
+export type GenerationTransport = "telegram_global" | "telegram_user" | "http_api" | "stub";
+
+/**
+ * Публикатор платформы: Blotato, прямая загрузка в YouTube Data API, webhook или тестовый fake
+ */
+export type PublisherName = "blotato" | "youtube_api" | "webhook" | "fake";
 
 export type PreferencesMode = "cyclic" | "random" | "fixed";
 
@@ -30,6 +43,39 @@ export interface ChannelPreferences {
   lastUsedIndex?: number; // для циклического режима
 }
 
+/**
+ * Библиотека хештегов канала: наборы выбираются по режиму (как варианты пожеланий)
+ * и дописываются к подписи каждой платформы при публикации
+ */
+export interface HashtagSet {
+  id: string;
+  name: string;
+  tags: string[];
+  platforms?: string[] | null; // пусто — на всех платформах
+}
+
+export interface HashtagLibrary {
+  sets: HashtagSet[];
+  mode: PreferencesMode;
+  lastUsedIndex?: number;
+  bannedHashtags?: string[] | null;
+  maxPerPost?: number | null;
+}
+
+/**
+ * Ограничения канала для оптимизатора расписания: окна "HH:MM"–"HH:MM", в которых можно ставить слоты
+ * (окно может переходить через полночь), и закреплённые времена, которые оптимизатор не переносит
+ */
+export interface ScheduleTimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface ChannelScheduleConstraints {
+  allowedWindows?: ScheduleTimeWindow[] | null;
+  lockedTimes?: string[] | null;
+}
+
 export interface ChannelAutoSendSchedule {
   id: string; // uuid
   enabled: boolean; // включен ли этот конкретный слот
@@ -37,6 +83,34 @@ export interface ChannelAutoSendSchedule {
   time: string; // "HH:MM" в локальном времени пользователя (24h формат)
   promptsPerRun: number; // сколько промптов генерировать за один запуск
   lastRunAt?: string | null; // ISO-дата последнего запуска
+  rule?: ScheduleRule | null; // cron / интервал / даты вместо daysOfWeek + time
+  validFrom?: string | null; // "YYYY-MM-DD" — расписание действует начиная с этой даты
+  validUntil?: string | null; // "YYYY-MM-DD" — расписание действует до этой даты включительно
+}
+
+/**
+ * Что делать со слотами, пропущенными из-за простоя планировщика:
+ * skip — пропустить, run_once — запустить один раз с опозданием,
+ * run_all — запустить все пропущенные, но не больше maxRuns
+ */
+export type MissedRunPolicyMode = "skip" | "run_once" | "run_all";
+
+export interface MissedRunPolicy {
+  mode: MissedRunPolicyMode;
+  maxRuns?: number | null;
+}
+
+/**
+ * Время публикации отдельно от генерации (файлы ждут в очереди канала):
+ * immediate — сразу, slots — в ближайший свободный слот "HH:MM", delay — через delayHours после генерации
+ */
+export type PublishScheduleMode = "immediate" | "slots" | "delay";
+
+export interface PublishSchedule {
+  mode: PublishScheduleMode;
+  slots?: string[] | null;
+  daysOfWeek?: number[] | null; // 0–6; пусто — каждый день
+  delayHours?: number | null;
 }
 
 export interface Channel {
@@ -53,7 +127,7 @@ export interface Channel {
   extraNotes?: string; // Устаревшее поле, оставлено для обратной совместимости
   preferences?: ChannelPreferences; // Новая система мульти-пожеланий
   generationMode?: GenerationMode; // По умолчанию "script" для обратной совместимости
-  generationTransport?: GenerationTransport; // Источник отправки промптов: telegram_global или telegram_user
+  generationTransport?: GenerationTransport; // Генератор видео: telegram_global, telegram_user, http_api или stub
   telegramSyntaxPeer?: string | null; // Username или ID чата Syntax (например @SyntaxAI)
   youtubeUrl?: string | null; // Ссылка на YouTube канал
   tiktokUrl?: string | null; // Ссылка на TikTok канал
@@ -67,6 +141,10 @@ export interface Channel {
   autoSendEnabled?: boolean; // общий флаг: включена ли автоматика для канала
   timezone?: string; // IANA-таймзона пользователя, например "Asia/Almaty"
   autoSendSchedules?: ChannelAutoSendSchedule[]; // массив расписаний
+  missedRunPolicy?: MissedRunPolicy | null; // догоняющие запуски после простоя, по умолчанию skip
+  blackoutPeriods?: BlackoutPeriod[]; // дни без автоматизации для этого канала (в дополнение к общим)
+  scheduleConstraints?: ChannelScheduleConstraints | null; // окна и закреплённые слоты для оптимизатора расписания
+  llmProvider?: LlmProviderSelection | null; // LLM для текстов канала; null — как в настройках аккаунта
   // Автоматическое скачивание видео в Google Drive
   autoDownloadToDriveEnabled?: boolean; // по умолчанию false
   autoDownloadDelayMinutes?: number; // по умолчанию 10, min 1, max 60
@@ -77,7 +155,7 @@ export interface Channel {
   blotataEnabled?: boolean; // включена ли автопубликация через Blotato
   driveInputFolderId?: string; // ID папки Google Drive, где появляются готовые видео для этого канала
   driveArchiveFolderId?: string; // ID папки Google Drive, куда переносить отработанные файлы
-  blotataApiKey?: string; // API ключ для Blotato (может быть переопределен на уровне канала)
+  secretMasks?: Partial<Record<SecretKind, string>>; // маски ключей из хранилища секретов (только чтение, пишет backend)
   blotataYoutubeId?: string | null; // ID YouTube аккаунта в Blotato
   blotataTiktokId?: string | null; // ID TikTok аккаунта в Blotato
   blotataInstagramId?: string | null; // ID Instagram аккаунта в Blotato
@@ -89,6 +167,11 @@ export interface Channel {
   blotataPinterestId?: string | null;
   blotataPinterestBoardId?: string | null;
   blotataBlueskyId?: string | null;
+  platformPublishers?: Partial<Record<string, PublisherName>> | null; // платформа → публикатор, по умолчанию Blotato
+  publishWebhookUrl?: string | null; // адрес для публикатора webhook
+  publishSchedule?: PublishSchedule | null; // слоты публикации; null — публиковать сразу
+  postTemplates?: PostTemplates | null; // шаблоны подписей по платформам (ключ default — для остальных)
+  hashtagLibrary?: HashtagLibrary | null; // наборы хештегов с ротацией и запрещённые хештеги
   // Порядок отображения каналов (для drag & drop)
   orderIndex?: number; // чем меньше число, тем выше в списке
   createdAt: Timestamp;
@@ -135,6 +218,18 @@ export const channelConverter: FirestoreDataConverter<Channel> = {
     if (rest.timezone !== undefined) {
       data.timezone = rest.timezone;
     }
+    if (rest.blackoutPeriods !== undefined) {
+      data.blackoutPeriods = rest.blackoutPeriods;
+    }
+    if (rest.scheduleConstraints !== undefined) {
+      data.scheduleConstraints = rest.scheduleConstraints;
+    }
+    if (rest.missedRunPolicy !== undefined) {
+      data.missedRunPolicy = rest.missedRunPolicy;
+    }
+    if (rest.llmProvider !== undefined) {
+      data.llmProvider = rest.llmProvider;
+    }
     if (rest.extraNotes !== undefined) {
       data.extraNotes = rest.extraNotes;
     }
@@ -199,9 +294,6 @@ export const channelConverter: FirestoreDataConverter<Channel> = {
     if (rest.driveArchiveFolderId !== undefined) {
       data.driveArchiveFolderId = rest.driveArchiveFolderId;
     }
-    if (rest.blotataApiKey !== undefined) {
-      data.blotataApiKey = rest.blotataApiKey;
-    }
     if (rest.blotataYoutubeId !== undefined) {
       data.blotataYoutubeId = rest.blotataYoutubeId;
     }
@@ -235,6 +327,21 @@ export const channelConverter: FirestoreDataConverter<Channel> = {
     if (rest.blotataBlueskyId !== undefined) {
       data.blotataBlueskyId = rest.blotataBlueskyId;
     }
+    if (rest.platformPublishers !== undefined) {
+      data.platformPublishers = rest.platformPublishers;
+    }
+    if (rest.publishWebhookUrl !== undefined) {
+      data.publishWebhookUrl = rest.publishWebhookUrl;
+    }
+    if (rest.publishSchedule !== undefined) {
+      data.publishSchedule = rest.publishSchedule;
+    }
+    if (rest.postTemplates !== undefined) {
+      data.postTemplates = rest.postTemplates;
+    }
+    if (rest.hashtagLibrary !== undefined) {
+      data.hashtagLibrary = rest.hashtagLibrary;
+    }
     
     return data;
   },
@@ -330,7 +437,6 @@ export const createEmptyChannel = (): Channel => {
     blotataEnabled: true, // По умолчанию включено для новых каналов
     driveInputFolderId: undefined,
     driveArchiveFolderId: undefined,
-    blotataApiKey: undefined,
     blotataYoutubeId: null,
     blotataTiktokId: null,
     blotataInstagramId: null,
@@ -0,0 +1,87 @@
+import {
+  Timestamp,
+  serverTimestamp,
+  type FirestoreDataConverter
+} from "firebase/firestore";
+import type { GenerationMode } from "./channel";
+import type {
+  DetailedScenario,
+  ScriptSection
+} from "../services/openaiScriptGenerator";
+
+/**
+ * Источник генерации:
+ * - short-script: generateShortScript (старый формат по секциям)
+ * - detailed: generateDetailedScripts (сценарии по секундам / VIDEO_PROMPT)
+ * - auto-idea: generateAutoIdeaAndScripts (ИИ-идея + сценарии)
+ */
+export type GenerationHistoryKind = "short-script" | "detailed" | "auto-idea";
+
+export interface GenerationHistoryEntry {
+  id: string;
+  channelId: string;
+  kind: GenerationHistoryKind;
+  mode: GenerationMode;
+  idea: string | null; // Идея, введённая пользователем или придуманная ИИ
+  scenarios: DetailedScenario[];
+  scripts: string[]; // Текстовые сценарии (auto-idea)
+  sections: ScriptSection | null; // Секции сценария (short-script)
+  videoPrompt: string | null;
+  fileTitle: string | null;
+  model: string | null;
+  preferenceVariant: string | null; // Вариант пожеланий, использованный при генерации
+  starred: boolean;
+  lastSentToSyntxAt: Timestamp | null; // Когда videoPrompt последний раз отправлялся в SyntX
+  createdAt: Timestamp;
+}
+
+export type GenerationHistoryCreatePayload = Omit<
+  GenerationHistoryEntry,
+  "id" | "starred" | "lastSentToSyntxAt" | "createdAt"
+>;
+
+type GenerationHistoryFirestoreData = Omit<GenerationHistoryEntry, "id">;
+
+export const generationHistoryConverter: FirestoreDataConverter<GenerationHistoryEntry> = {
+  toFirestore(entry: GenerationHistoryEntry): GenerationHistoryFirestoreData {
+    const { id, ...rest } = entry;
+    // Firestore не поддерживает undefined, поэтому явно приводим опциональные поля к null
+    return {
+      channelId: rest.channelId,
+      kind: rest.kind,
+      mode: rest.mode,
+      idea: rest.idea ?? null,
+      scenarios: rest.scenarios ?? [],
+      scripts: rest.scripts ?? [],
+      sections: rest.sections ?? null,
+      videoPrompt: rest.videoPrompt ?? null,
+      fileTitle: rest.fileTitle ?? null,
+      model: rest.model ?? null,
+      preferenceVariant: rest.preferenceVariant ?? null,
+      starred: rest.starred ?? false,
+      lastSentToSyntxAt: rest.lastSentToSyntxAt ?? null,
+      createdAt: rest.createdAt ?? (serverTimestamp() as unknown as Timestamp)
+    };
+  },
+  fromFirestore(snapshot, options): GenerationHistoryEntry {
+    const data = snapshot.data(options) as Partial<GenerationHistoryFirestoreData>;
+    return {
+      id: snapshot.id,
+      channelId: data.channelId ?? "",
+      kind: data.kind ?? "detailed",
+      mode: data.mode ?? "script",
+      idea: data.idea ?? null,
+      scenarios: data.scenarios ?? [],
+      scripts: data.scripts ?? [],
+      sections: data.sections ?? null,
+      videoPrompt: data.videoPrompt ?? null,
+      fileTitle: data.fileTitle ?? null,
+      model: data.model ?? null,
+      preferenceVariant: data.preferenceVariant ?? null,
+      starred: data.starred === true,
+      lastSentToSyntxAt: data.lastSentToSyntxAt ?? null,
+      // serverTimestamp ещё не записан при локальном snapshot
+      createdAt: data.createdAt ?? Timestamp.now()
+    };
+  }
+};
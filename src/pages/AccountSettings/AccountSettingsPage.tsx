@@ -6,6 +6,9 @@ import TelegramIntegration from "../../components/TelegramIntegration";
 import GoogleDriveIntegration from "../../components/GoogleDriveIntegration";
 import { SectionHelpButton } from "../../components/aiAssistant/SectionHelpButton";
 import { BlottataApiKeySettings } from "../../components/BlottataApiKeySettings";
+import { SecretAccessLog } from "../../components/SecretAccessLog";
+import { LlmProviderSettings } from "../../components/LlmProviderSettings";
+import { LlmUsageDashboard } from "../../components/LlmUsageDashboard";
 
 const AccountSettingsPage = () => {
   const { user } = useAuthStore((state) => ({ user: state.user }));
@@ -80,6 +83,12 @@ const AccountSettingsPage = () => {
           </div>
 
           <BlottataApiKeySettings />
+
+          <SecretAccessLog />
+
+          <LlmProviderSettings />
+
+          <LlmUsageDashboard />
         </div>
       </div>
     </div>
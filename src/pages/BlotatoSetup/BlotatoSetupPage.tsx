@@ -2,9 +2,12 @@ import { useState, useEffect } from "react";
 import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Key, CheckCircle2, ExternalLink, Loader2, Youtube, Instagram, Music } from "lucide-react";
 import { getUserSettings, updateUserSettings } from "../../api/userSettings";
+import { saveSecret } from "../../api/secrets";
 import { useChannelStore } from "../../stores/channelStore";
 import { useAuthStore } from "../../stores/authStore";
 import { useToast } from "../../hooks/useToast";
+import PostTemplatesEditor from "../../components/PostTemplatesEditor";
+import type { PostTemplates } from "../../utils/postTemplates";
 
 export default function BlotatoSetupPage() {
   const navigate = useNavigate();
@@ -33,6 +36,10 @@ export default function BlotatoSetupPage() {
   const [blueskyId, setBlueskyId] = useState("");
   const [savingPlatforms, setSavingPlatforms] = useState(false);
 
+  // Шаблоны подписей постов по платформам
+  const [postTemplates, setPostTemplates] = useState<PostTemplates | null>(null);
+  const [channelName, setChannelName] = useState("");
+
   // Состояния для аккордеона
   const [expandedPlatform, setExpandedPlatform] = useState<string | null>(null);
 
@@ -62,18 +69,19 @@ export default function BlotatoSetupPage() {
           if (channel.blotataPinterestId) setPinterestId(channel.blotataPinterestId);
           if (channel.blotataPinterestBoardId) setPinterestBoardId(channel.blotataPinterestBoardId);
           if (channel.blotataBlueskyId) setBlueskyId(channel.blotataBlueskyId);
+          setPostTemplates(channel.postTemplates ?? null);
+          setChannelName(channel.name);
           
           // Если в канале уже есть API-ключ, считаем его сохранённым
-          if (channel.blotataApiKey) {
+          if (channel.secretMasks?.blotato_api_key) {
             setApiKeySaved(true);
           }
         }
 
-        // Проверяем настройки пользователя для подстановки API-ключа по умолчанию
+        // Ключ по умолчанию из профиля тоже подходит: сервер использует его для каналов без своего ключа
         const settings = await getUserSettings();
-        if (settings.hasDefaultBlottataApiKey && !channel?.blotataApiKey) {
-          // Если в канале нет ключа, но есть в настройках, можно показать подсказку
-          // Но не заполняем автоматически, чтобы пользователь явно ввёл его
+        if (settings.hasDefaultBlottataApiKey) {
+          setApiKeySaved(true);
         }
       } catch (error) {
         console.error("Failed to load channel data or user settings", error);
@@ -102,17 +110,8 @@ export default function BlotatoSetupPage() {
         defaultBlottataApiKey: trimmedKey
       });
       
-      // Сохраняем ключ в канал
-      await fetchChannels(user.uid);
-      const { channels } = useChannelStore.getState();
-      const channel = channels.find((c) => c.id === channelId);
-      
-      if (channel) {
-        await updateChannel(user.uid, {
-          ...channel,
-          blotataApiKey: trimmedKey
-        });
-      }
+      // Сохраняем ключ в хранилище секретов канала
+      await saveSecret("blotato_api_key", trimmedKey, channelId);
       
       setApiKeySaved(true);
       setApiKey("");
@@ -154,7 +153,8 @@ export default function BlotatoSetupPage() {
         blotataLinkedinId: linkedinId.trim() || null,
         blotataPinterestId: pinterestId.trim() || null,
         blotataPinterestBoardId: pinterestBoardId.trim() || null,
-        blotataBlueskyId: blueskyId.trim() || null
+        blotataBlueskyId: blueskyId.trim() || null,
+        postTemplates
       });
       showSuccess("ID платформ успешно сохранены в настройках канала", 3000);
     } catch (error: any) {
@@ -184,26 +184,18 @@ export default function BlotatoSetupPage() {
         throw new Error("Канал не найден");
       }
 
-      // Определяем финальный API-ключ: используем введённый, если он есть, иначе оставляем существующий
-      let finalApiKey = channel.blotataApiKey;
-      
-      // Если пользователь ввёл новый API-ключ, сохраняем его
+      // Если пользователь ввёл новый API-ключ, сохраняем его в профиль и в хранилище секретов канала
       if (apiKey.trim()) {
         const trimmedKey = apiKey.trim();
-        // Сохраняем в профиль (как ключ по умолчанию)
         await updateUserSettings({
           defaultBlottataApiKey: trimmedKey
         });
-        finalApiKey = trimmedKey;
-      } else if (apiKeySaved && channel.blotataApiKey) {
-        // Если ключ уже был сохранён ранее, используем его из канала
-        finalApiKey = channel.blotataApiKey;
+        await saveSecret("blotato_api_key", trimmedKey, channelId);
       }
 
-      // Сохраняем все данные в канал одним запросом
+      // Сохраняем ID площадок в канал одним запросом
       await updateChannel(user.uid, {
         ...channel,
-        blotataApiKey: finalApiKey,
         blotataTiktokId: tiktokId.trim() || null,
         blotataInstagramId: instagramId.trim() || null,
         blotataYoutubeId: youtubeId.trim() || null,
@@ -214,7 +206,8 @@ export default function BlotatoSetupPage() {
         blotataLinkedinId: linkedinId.trim() || null,
         blotataPinterestId: pinterestId.trim() || null,
         blotataPinterestBoardId: pinterestBoardId.trim() || null,
-        blotataBlueskyId: blueskyId.trim() || null
+        blotataBlueskyId: blueskyId.trim() || null,
+        postTemplates
       });
 
       showSuccess("Все данные успешно сохранены в настройках канала", 3000);
@@ -655,6 +648,16 @@ export default function BlotatoSetupPage() {
           </div>
         </div>
 
+        {/* Блок 4: шаблоны подписей */}
+        <div className="mb-6 rounded-2xl border border-white/10 bg-slate-900/50 p-6 shadow-lg">
+          <h2 className="mb-2 text-lg font-semibold text-white">Шаблоны подписей и хештеги</h2>
+          <p className="mb-6 text-sm leading-relaxed text-slate-300 md:text-base">
+            Настройте подпись, заголовок и хештеги для каждой платформы. Лимиты длины (TikTok, Instagram, X, Bluesky)
+            соблюдаются автоматически. Без шаблона публикуется подпись, сгенерированная для ролика.
+          </p>
+          <PostTemplatesEditor value={postTemplates} channelName={channelName} onChange={setPostTemplates} />
+        </div>
+
         {/* Кнопки действий */}
         <div className="sticky bottom-0 rounded-2xl border border-white/10 bg-slate-900/95 backdrop-blur-sm p-6 shadow-xl">
           <div className="mb-4 text-center">
@@ -0,0 +1,436 @@
+import { useEffect, useMemo, useState, type DragEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, Loader2, RefreshCw } from "lucide-react";
+import {
+  fetchScheduleCalendar,
+  moveChannelScheduleSlot,
+  type CalendarChannel,
+  type CalendarRun,
+  type CalendarRunOutcome,
+  type CalendarSlot,
+  type ScheduleCalendar
+} from "../../api/channelSchedule";
+import {
+  getCalendarDays,
+  getCalendarFetchRange,
+  shiftCalendarAnchor,
+  toDateKey,
+  type CalendarDay,
+  type CalendarView
+} from "../../utils/calendarGrid";
+
+type CalendarEvent =
+  | { kind: "slot"; channel: CalendarChannel; colorIndex: number; slot: CalendarSlot }
+  | { kind: "run"; channel: CalendarChannel; colorIndex: number; run: CalendarRun };
+
+interface DragPayload {
+  channelId: string;
+  scheduleId: string;
+  fromDate: string;
+  time: string;
+}
+
+const CHANNEL_COLORS = [
+  "border-sky-400/70 text-sky-200",
+  "border-violet-400/70 text-violet-200",
+  "border-amber-400/70 text-amber-200",
+  "border-pink-400/70 text-pink-200",
+  "border-teal-400/70 text-teal-200",
+  "border-lime-400/70 text-lime-200",
+  "border-orange-400/70 text-orange-200",
+  "border-indigo-400/70 text-indigo-200"
+];
+
+const RUN_OUTCOME_LABELS: Record<CalendarRunOutcome, string> = {
+  sent: "Промпт отправлен",
+  downloaded: "Видео скачано",
+  published: "Опубликовано",
+  failed: "Ошибка"
+};
+
+const RUN_OUTCOME_COLORS: Record<CalendarRunOutcome, string> = {
+  sent: "border-blue-500/30 bg-blue-500/20 text-blue-200",
+  downloaded: "border-yellow-500/30 bg-yellow-500/20 text-yellow-200",
+  published: "border-emerald-500/30 bg-emerald-500/20 text-emerald-200",
+  failed: "border-red-500/30 bg-red-500/20 text-red-200"
+};
+
+const WEEKDAY_LABELS = ["Пн", "Вт", "Ср", "Чт", "Пт", "Сб", "Вс"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MONTH_CELL_LIMIT = 4;
+
+const getEventTime = (event: CalendarEvent) => (event.kind === "slot" ? event.slot.time : event.run.time);
+
+const getEventKey = (event: CalendarEvent) =>
+  event.kind === "slot"
+    ? `${event.channel.id}-${event.slot.scheduleId}-${event.slot.at}`
+    : `${event.channel.id}-${event.run.id}`;
+
+const EventChip = ({
+  event,
+  onDragStart,
+  onDragEnd
+}: {
+  event: CalendarEvent;
+  onDragStart: (payload: DragPayload) => void;
+  onDragEnd: () => void;
+}) => {
+  if (event.kind === "run") {
+    const { run, channel } = event;
+    return (
+      <div
+        className={`truncate rounded border px-1.5 py-0.5 text-[11px] ${RUN_OUTCOME_COLORS[run.outcome]}`}
+        title={[
+          `${channel.name} · ${run.time} (${channel.timezone})`,
+          RUN_OUTCOME_LABELS[run.outcome],
+          run.videoTitle,
+          run.error
+        ]
+          .filter(Boolean)
+          .join("\n")}
+      >
+        {run.time} {channel.name}
+      </div>
+    );
+  }
+
+  const { slot, channel, colorIndex } = event;
+  const draggable = slot.draggable && !slot.blackout;
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart({ channelId: channel.id, scheduleId: slot.scheduleId, fromDate: slot.localDate, time: slot.time });
+      }}
+      onDragEnd={onDragEnd}
+      className={`truncate rounded border border-dashed bg-slate-900/80 px-1.5 py-0.5 text-[11px] ${
+        CHANNEL_COLORS[colorIndex % CHANNEL_COLORS.length]
+      } ${draggable ? "cursor-grab active:cursor-grabbing" : ""} ${
+        slot.blackout || !channel.isAutomationEnabled ? "opacity-50 line-through" : ""
+      }`}
+      title={[
+        `${channel.name} · ${slot.time} (${channel.timezone})`,
+        `Промптов за запуск: ${slot.promptsPerRun}`,
+        slot.blackout ? `Блокировка: ${slot.blackout}` : null,
+        !channel.isAutomationEnabled ? "Автоматизация канала выключена" : null,
+        slot.draggable ? "Перетащите, чтобы перенести слот" : "Правило расписания меняется в настройках канала"
+      ]
+        .filter(Boolean)
+        .join("\n")}
+    >
+      {slot.time} {channel.name}
+    </div>
+  );
+};
+
+const ChannelCalendarPage = () => {
+  const navigate = useNavigate();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [channelFilter, setChannelFilter] = useState("");
+  const [calendar, setCalendar] = useState<ScheduleCalendar | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [dragPayload, setDragPayload] = useState<DragPayload | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(anchor, view), [anchor, view]);
+  const todayKey = toDateKey(new Date());
+
+  const loadCalendar = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { from, to } = getCalendarFetchRange(days);
+      setCalendar(await fetchScheduleCalendar(from, to));
+    } catch (err) {
+      console.error("Failed to load schedule calendar", err);
+      setError(err instanceof Error ? err.message : "Не удалось загрузить календарь");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadCalendar();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days]);
+
+  // События по дням в часовом поясе канала
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, CalendarEvent[]>();
+    const push = (key: string, event: CalendarEvent) => {
+      const list = map.get(key) ?? [];
+      list.push(event);
+      map.set(key, list);
+    };
+    calendar?.channels.forEach((channel, colorIndex) => {
+      if (channelFilter && channel.id !== channelFilter) return;
+      channel.runs.forEach((run) => push(run.localDate, { kind: "run", channel, colorIndex, run }));
+      channel.slots.forEach((slot) => push(slot.localDate, { kind: "slot", channel, colorIndex, slot }));
+    });
+    map.forEach((list) => list.sort((a, b) => getEventTime(a).localeCompare(getEventTime(b))));
+    return map;
+  }, [calendar, channelFilter]);
+
+  const handleDrop = async (dayKey: string, hour?: number) => {
+    const payload = dragPayload;
+    setDragPayload(null);
+    setDropTarget(null);
+    if (!payload) return;
+
+    // В недельном виде меняется час (минуты сохраняются), в месячном — только дата
+    const minutes = payload.time.slice(3);
+    const time = hour === undefined ? payload.time : `${String(hour).padStart(2, "0")}:${minutes}`;
+    if (dayKey === payload.fromDate && time === payload.time) return;
+
+    setIsMoving(true);
+    setMoveError(null);
+    try {
+      await moveChannelScheduleSlot(payload.channelId, {
+        scheduleId: payload.scheduleId,
+        fromDate: payload.fromDate,
+        toDate: dayKey,
+        time
+      });
+      await loadCalendar();
+    } catch (err) {
+      setMoveError(err instanceof Error ? err.message : "Не удалось перенести слот");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  // Перетаскивание отменено (Esc или отпущено вне сетки)
+  const handleDragEnd = () => {
+    setDragPayload(null);
+    setDropTarget(null);
+  };
+
+  const dropHandlers = (targetKey: string, dayKey: string, hour?: number) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!dragPayload) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      if (dropTarget !== targetKey) setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === targetKey ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      void handleDrop(dayKey, hour);
+    }
+  });
+
+  const dayHeaderClass = (day: CalendarDay) =>
+    `text-xs font-medium ${day.key === todayKey ? "text-brand-light" : day.key < todayKey ? "text-slate-500" : "text-slate-300"}`;
+
+  const title =
+    view === "week"
+      ? `${days[0].date.toLocaleDateString("ru-RU", { day: "numeric", month: "short" })} – ${days[6].date.toLocaleDateString("ru-RU", { day: "numeric", month: "short", year: "numeric" })}`
+      : anchor.toLocaleDateString("ru-RU", { month: "long", year: "numeric" });
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="mx-auto max-w-7xl px-3 py-4 sm:px-4 sm:py-8 md:px-6 lg:px-8">
+        <div className="mb-6 flex items-center gap-4">
+          <button
+            onClick={() => navigate("/channels/schedule")}
+            className="rounded-xl border border-white/10 bg-slate-800/60 px-4 py-2 text-sm text-slate-300 transition hover:border-white/20 hover:bg-slate-800/80 hover:text-white"
+          >
+            <ArrowLeft size={16} className="mr-2 inline" />
+            Назад
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-white sm:text-3xl">Календарь публикаций</h1>
+            <p className="mt-2 text-sm text-slate-400">
+              Запланированные слоты и прошедшие запуски. Время указано в часовом поясе каждого канала.
+            </p>
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-col gap-3 rounded-xl border border-white/10 bg-slate-900/80 p-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setAnchor((current) => shiftCalendarAnchor(current, view, -1))}
+              className="rounded-lg border border-white/10 bg-slate-800/60 p-2 text-slate-300 transition hover:border-white/20 hover:text-white"
+              title="Назад"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-slate-300 transition hover:border-white/20 hover:text-white"
+            >
+              Сегодня
+            </button>
+            <button
+              onClick={() => setAnchor((current) => shiftCalendarAnchor(current, view, 1))}
+              className="rounded-lg border border-white/10 bg-slate-800/60 p-2 text-slate-300 transition hover:border-white/20 hover:text-white"
+              title="Вперёд"
+            >
+              <ChevronRight size={16} />
+            </button>
+            <span className="ml-2 text-sm font-medium capitalize text-white">{title}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={channelFilter}
+              onChange={(e) => setChannelFilter(e.target.value)}
+              className="rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-white focus:border-brand/40 focus:outline-none"
+            >
+              <option value="">Все каналы</option>
+              {calendar?.channels.map((channel) => (
+                <option key={channel.id} value={channel.id}>
+                  {channel.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex rounded-lg border border-white/10 bg-slate-800/60 p-0.5">
+              {(["week", "month"] as CalendarView[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`rounded-md px-3 py-1.5 text-sm transition ${
+                    view === option ? "bg-brand text-white" : "text-slate-300 hover:text-white"
+                  }`}
+                >
+                  {option === "week" ? "Неделя" : "Месяц"}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => void loadCalendar()}
+              disabled={loading}
+              className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-slate-300 transition hover:border-white/20 hover:bg-slate-800/80 hover:text-white disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={loading || isMoving ? "animate-spin" : ""} />
+              Обновить
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <span className="rounded border border-dashed border-slate-400/70 px-1.5 py-0.5">запланировано</span>
+          {(Object.keys(RUN_OUTCOME_LABELS) as CalendarRunOutcome[]).map((outcome) => (
+            <span key={outcome} className={`rounded border px-1.5 py-0.5 ${RUN_OUTCOME_COLORS[outcome]}`}>
+              {RUN_OUTCOME_LABELS[outcome]}
+            </span>
+          ))}
+          <span className="ml-1">Перетащите запланированный слот, чтобы изменить расписание канала.</span>
+        </div>
+
+        {calendar?.isAutomationPaused && (
+          <div className="mb-4 flex items-start gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-sm text-amber-100">
+            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-amber-400" />
+            Автоматизация на паузе: запланированные слоты не будут выполняться, пока пауза не снята.
+          </div>
+        )}
+
+        {moveError && (
+          <div className="mb-4 rounded-lg border border-red-500/30 bg-red-900/20 p-3 text-sm text-red-300">{moveError}</div>
+        )}
+
+        {loading && !calendar ? (
+          <div className="flex items-center justify-center py-12 text-slate-300">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin text-brand-light" />
+            Загружаем календарь...
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-red-500/30 bg-red-900/20 p-4 text-sm text-red-300">{error}</div>
+        ) : view === "week" ? (
+          <div className="max-h-[70vh] overflow-auto rounded-xl border border-white/10 bg-slate-900/60">
+            <div className="grid min-w-[760px] grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+              <div className="sticky top-0 z-10 bg-slate-900" />
+              {days.map((day, index) => (
+                <div key={day.key} className="sticky top-0 z-10 border-l border-white/5 bg-slate-900 px-2 py-2 text-center">
+                  <div className={dayHeaderClass(day)}>
+                    {WEEKDAY_LABELS[index]}, {day.date.getDate()}
+                  </div>
+                </div>
+              ))}
+              {HOURS.map((hour) => (
+                <div key={hour} className="contents">
+                  <div className="border-t border-white/5 px-1 py-1 text-right text-[10px] text-slate-500">
+                    {String(hour).padStart(2, "0")}:00
+                  </div>
+                  {days.map((day) => {
+                    const targetKey = `${day.key}-${hour}`;
+                    const events = (eventsByDay.get(day.key) ?? []).filter(
+                      (event) => parseInt(getEventTime(event).slice(0, 2), 10) === hour
+                    );
+                    return (
+                      <div
+                        key={targetKey}
+                        {...dropHandlers(targetKey, day.key, hour)}
+                        className={`min-h-[2.25rem] space-y-0.5 border-l border-t border-white/5 p-0.5 ${
+                          day.key < todayKey ? "bg-slate-950/40" : ""
+                        } ${dropTarget === targetKey ? "bg-brand/20" : ""}`}
+                      >
+                        {events.map((event) => (
+                          <EventChip
+                            key={getEventKey(event)}
+                            event={event}
+                            onDragStart={setDragPayload}
+                            onDragEnd={handleDragEnd}
+                          />
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-white/10 bg-slate-900/60">
+            <div className="grid min-w-[760px] grid-cols-7">
+              {WEEKDAY_LABELS.map((label) => (
+                <div key={label} className="border-b border-white/5 px-2 py-2 text-center text-xs font-medium text-slate-400">
+                  {label}
+                </div>
+              ))}
+              {days.map((day) => {
+                const events = eventsByDay.get(day.key) ?? [];
+                return (
+                  <div
+                    key={day.key}
+                    {...dropHandlers(day.key, day.key)}
+                    className={`min-h-[7rem] space-y-0.5 border-l border-t border-white/5 p-1 ${
+                      day.inCurrentMonth ? "" : "opacity-50"
+                    } ${day.key < todayKey ? "bg-slate-950/40" : ""} ${dropTarget === day.key ? "bg-brand/20" : ""}`}
+                  >
+                    <div className={`mb-1 ${dayHeaderClass(day)}`}>{day.date.getDate()}</div>
+                    {events.slice(0, MONTH_CELL_LIMIT).map((event) => (
+                      <EventChip
+                        key={getEventKey(event)}
+                        event={event}
+                        onDragStart={setDragPayload}
+                        onDragEnd={handleDragEnd}
+                      />
+                    ))}
+                    {events.length > MONTH_CELL_LIMIT && (
+                      <button
+                        onClick={() => {
+                          setAnchor(day.date);
+                          setView("week");
+                        }}
+                        className="text-[11px] text-slate-400 hover:text-white"
+                      >
+                        ещё {events.length - MONTH_CELL_LIMIT}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChannelCalendarPage;
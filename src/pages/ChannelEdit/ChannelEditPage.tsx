@@ -9,10 +9,21 @@ import type {
   SupportedPlatform,
   SupportedLanguage,
   ChannelAutoSendSchedule,
-  ChannelPreferences
+  ChannelPreferences,
+  MissedRunPolicyMode
 } from "../../domain/channel";
 import PreferencesVariantsEditor from "../../components/PreferencesVariantsEditor";
+import ScheduleRuleEditor from "../../components/ScheduleRuleEditor";
+import BlackoutPeriodsEditor from "../../components/BlackoutPeriodsEditor";
+import ScheduleConstraintsEditor from "../../components/ScheduleConstraintsEditor";
+import LlmProviderSelect from "../../components/LlmProviderSelect";
+import VideoGeneratorOptions from "../../components/VideoGeneratorOptions";
+import PlatformPublishersEditor from "../../components/PlatformPublishersEditor";
+import PublishScheduleEditor from "../../components/PublishScheduleEditor";
+import PostTemplatesEditor from "../../components/PostTemplatesEditor";
+import HashtagLibraryEditor from "../../components/HashtagLibraryEditor";
 import { validatePreferences } from "../../utils/preferencesUtils";
+import { validateScheduleRule } from "../../utils/scheduleRules";
 import { testBlottata } from "../../api/blottata";
 import { getTelegramStatus } from "../../api/telegramIntegration";
 import Accordion from "../../components/Accordion";
@@ -24,10 +35,12 @@ import { FieldHelpIcon } from "../../components/aiAssistant/FieldHelpIcon";
 import { IntegrationsStatusBlock } from "../../components/IntegrationsStatusBlock";
 import { useIntegrationsStatus } from "../../hooks/useIntegrationsStatus";
 import { GenerateDriveFoldersButton } from "../../components/GenerateDriveFoldersButton";
+import SecretKeyField from "../../components/SecretKeyField";
 import { getUserSettings } from "../../api/userSettings";
 import { getBlotatoPublishStatus, type BlotatoPublishSettings } from "../../utils/blotatoStatus";
 import { AlertCircle, CheckCircle2 } from "lucide-react";
 import { getAuthToken } from "../../utils/auth";
+import { saveChannelSchedules } from "../../api/channelSchedule";
 
 const PLATFORMS: { value: SupportedPlatform; label: string }[] = [
   { value: "YOUTUBE_SHORTS", label: "YouTube Shorts" },
@@ -93,6 +106,7 @@ const ChannelEditPage = () => {
   }>({});
   const [preferencesValid, setPreferencesValid] = useState(true);
   const [testingBlottata, setTestingBlottata] = useState(false);
+  const [hasDefaultBlotatoKey, setHasDefaultBlotatoKey] = useState(false);
   const [blottataTestResult, setBlottataTestResult] = useState<string | null>(null);
   const [telegramStatus, setTelegramStatus] = useState<{ status: string } | null>(null);
   const [telegramStatusLoading, setTelegramStatusLoading] = useState(true);
@@ -188,18 +202,11 @@ const ChannelEditPage = () => {
     if (channels.length > 0 && channelId) {
       const found = channels.find((c) => c.id === channelId);
       if (found) {
-        // Загружаем настройки пользователя для подстановки defaultBlottataApiKey
+        // Загружаем настройки пользователя: есть ли ключ Blotato по умолчанию
         const loadDefaultBlottataApiKey = async () => {
           try {
             const userSettings = await getUserSettings();
-            let defaultBlottataApiKey: string | undefined = undefined;
-            
-            // Если у канала нет blotataApiKey, но есть значение по умолчанию, подставляем его
-            if (!found.blotataApiKey && userSettings.hasDefaultBlottataApiKey && userSettings.defaultBlottataApiKey) {
-              defaultBlottataApiKey = userSettings.defaultBlottataApiKey === "****" 
-                ? undefined 
-                : userSettings.defaultBlottataApiKey;
-            }
+            setHasDefaultBlotatoKey(userSettings.hasDefaultBlottataApiKey);
 
             // Убеждаемся, что generationMode и новые поля установлены (для старых каналов)
             setChannel({
@@ -223,7 +230,6 @@ const ChannelEditPage = () => {
               blotataEnabled: found.blotataEnabled || false,
               driveInputFolderId: found.driveInputFolderId,
               driveArchiveFolderId: found.driveArchiveFolderId,
-              blotataApiKey: found.blotataApiKey || defaultBlottataApiKey,
               blotataYoutubeId: found.blotataYoutubeId || null,
               blotataTiktokId: found.blotataTiktokId || null,
               blotataInstagramId: found.blotataInstagramId || null,
@@ -261,7 +267,6 @@ const ChannelEditPage = () => {
               blotataEnabled: found.blotataEnabled || false,
               driveInputFolderId: found.driveInputFolderId,
               driveArchiveFolderId: found.driveArchiveFolderId,
-              blotataApiKey: found.blotataApiKey,
               blotataYoutubeId: found.blotataYoutubeId || null,
               blotataTiktokId: found.blotataTiktokId || null,
               blotataInstagramId: found.blotataInstagramId || null,
@@ -419,14 +424,28 @@ const ChannelEditPage = () => {
 
       const schedules = channel.autoSendSchedules || [];
       for (const schedule of schedules) {
-        if (!schedule.time || !schedule.time.match(/^\d{2}:\d{2}$/)) {
+        if (schedule.validFrom && schedule.validUntil && schedule.validFrom > schedule.validUntil) {
+          const errorMsg = "Дата начала действия расписания позже даты окончания";
+          setError(errorMsg);
+          showError(errorMsg, 6000);
+          return;
+        }
+
+        if (schedule.rule) {
+          const ruleError = validateScheduleRule(schedule.rule);
+          if (ruleError) {
+            setError(ruleError);
+            showError(ruleError, 6000);
+            return;
+          }
+        } else if (!schedule.time || !schedule.time.match(/^\d{2}:\d{2}$/)) {
           const errorMsg = "Укажите корректное время в формате HH:MM для всех расписаний";
           setError(errorMsg);
           showError(errorMsg, 6000);
           return;
         }
 
-        if (!schedule.daysOfWeek || schedule.daysOfWeek.length === 0) {
+        if (!schedule.rule && (!schedule.daysOfWeek || schedule.daysOfWeek.length === 0)) {
           const errorMsg = "Выберите хотя бы один день недели для всех расписаний";
           setError(errorMsg);
           showError(errorMsg, 6000);
@@ -476,13 +495,6 @@ const ChannelEditPage = () => {
         showError(errorMsg, 6000);
         return;
       }
-      if (!channel.blotataApiKey || channel.blotataApiKey.trim() === "") {
-        const errorMsg = "Для автопубликации через Blotato необходимо указать API ключ";
-        setError(errorMsg);
-        showError(errorMsg, 6000);
-        return;
-      }
-      
       // Проверяем, что хотя бы один ID площадки заполнен
       const hasPlatformId = 
         channel.blotataYoutubeId ||
@@ -494,8 +506,17 @@ const ChannelEditPage = () => {
         channel.blotataLinkedinId ||
         channel.blotataPinterestId ||
         channel.blotataBlueskyId;
+      // Платформы, которые публикуются не через Blotato (YouTube Data API, webhook)
+      const hasDirectPublisher = Object.values(channel.platformPublishers ?? {}).some((p) => p && p !== "blotato");
+
+      if (hasPlatformId && !channel.secretMasks?.blotato_api_key && !hasDefaultBlotatoKey) {
+        const errorMsg = "Для автопубликации через Blotato необходимо указать API ключ";
+        setError(errorMsg);
+        showError(errorMsg, 6000);
+        return;
+      }
       
-      if (!hasPlatformId) {
+      if (!hasPlatformId && !hasDirectPublisher) {
         const errorMsg = "Для автопубликации через Blotato необходимо указать хотя бы один ID площадки (YouTube, TikTok, Instagram и т.д.)";
         setError(errorMsg);
         showError(errorMsg, 6000);
@@ -503,6 +524,20 @@ const ChannelEditPage = () => {
       }
     }
 
+    if (channel.publishWebhookUrl && !channel.publishWebhookUrl.startsWith("https://")) {
+      const errorMsg = "Адрес webhook должен начинаться с https://";
+      setError(errorMsg);
+      showError(errorMsg, 6000);
+      return;
+    }
+
+    if (channel.publishSchedule?.mode === "slots" && channel.publishSchedule.slots?.some((slot) => !slot)) {
+      const errorMsg = "Укажите время для каждого слота публикации";
+      setError(errorMsg);
+      showError(errorMsg, 6000);
+      return;
+    }
+
     setSaving(true);
     setError(null);
 
@@ -516,6 +551,7 @@ const ChannelEditPage = () => {
       };
       
       await updateChannel(user.uid, channelToSave);
+      await saveChannelSchedules(channel.id, channel.autoSendSchedules || []);
       navigate("/channels", { replace: true });
     } catch (err) {
       const errorMsg = err instanceof Error 
@@ -1111,6 +1147,21 @@ const ChannelEditPage = () => {
               </div>
             </div>
 
+            {/* Блок выбора LLM для текстов канала */}
+            <div className="border-t border-white/10 pt-6">
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-200">Модель для генерации текстов</label>
+                <LlmProviderSelect
+                  value={channel.llmProvider}
+                  onChange={(llmProvider) => setChannel({ ...channel, llmProvider })}
+                  inheritLabel="Как в настройках аккаунта"
+                />
+                <p className="text-xs text-slate-400">
+                  Используется для сценариев, промптов и названий роликов этого канала
+                </p>
+              </div>
+            </div>
+
             {/* Блок статуса интеграций */}
             <div className="border-t border-white/10 pt-6">
               <IntegrationsStatusBlock />
@@ -1136,7 +1187,7 @@ const ChannelEditPage = () => {
                 />
               </div>
               <p className="mb-4 text-xs text-slate-500">
-                Выберите, от какого аккаунта отправлять промпты в Syntax
+                Выберите, от какого аккаунта отправлять промпты в Syntax или другой генератор видео
               </p>
               <div className="grid gap-3 sm:grid-cols-2">
                 <button
@@ -1212,6 +1263,10 @@ const ChannelEditPage = () => {
                       : "Отправлять от вашего личного Telegram"}
                   </div>
                 </button>
+                <VideoGeneratorOptions
+                  value={channel.generationTransport}
+                  onSelect={(transport) => setChannel({ ...channel, generationTransport: transport })}
+                />
               </div>
               {channel.generationTransport === "telegram_user" && (
                 <div className="mt-4 space-y-3">
@@ -1610,6 +1665,89 @@ const ChannelEditPage = () => {
                         </p>
                       </div>
 
+                      {/* Политика пропущенных запусков */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-200">
+                          Пропущенные запуски
+                        </label>
+                        <div className="flex flex-col gap-3 sm:flex-row">
+                          <select
+                            value={channel.missedRunPolicy?.mode || "skip"}
+                            onChange={(e) =>
+                              setChannel({
+                                ...channel,
+                                missedRunPolicy: {
+                                  mode: e.target.value as MissedRunPolicyMode,
+                                  maxRuns: channel.missedRunPolicy?.maxRuns ?? 3
+                                }
+                              })
+                            }
+                            className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                          >
+                            <option value="skip">Пропускать</option>
+                            <option value="run_once">Запустить один раз с опозданием</option>
+                            <option value="run_all">Запустить все пропущенные (с ограничением)</option>
+                          </select>
+                          {channel.missedRunPolicy?.mode === "run_all" && (
+                            <input
+                              type="number"
+                              min="1"
+                              max="10"
+                              value={channel.missedRunPolicy.maxRuns ?? 3}
+                              onChange={(e) =>
+                                setChannel({
+                                  ...channel,
+                                  missedRunPolicy: {
+                                    mode: "run_all",
+                                    maxRuns: Math.max(1, Math.min(10, parseInt(e.target.value) || 1))
+                                  }
+                                })
+                              }
+                              className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40 sm:w-32"
+                              title="Максимум догоняющих запусков"
+                            />
+                          )}
+                        </div>
+                        <p className="text-xs text-slate-400">
+                          Если планировщик не работал (деплой, сбой), слоты за последние 24 часа обрабатываются по этой политике. Решения видны в истории запусков канала.
+                        </p>
+                      </div>
+
+                      {/* Дни без автоматизации для этого канала */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-200">
+                          Дни без автоматизации
+                        </label>
+                        <BlackoutPeriodsEditor
+                          periods={channel.blackoutPeriods ?? []}
+                          onChange={(blackoutPeriods) => setChannel({ ...channel, blackoutPeriods })}
+                        />
+                        <p className="text-xs text-slate-400">
+                          Дополняют общие периоды со страницы расписания. Даты считаются во временной зоне канала.
+                        </p>
+                      </div>
+
+                      {/* Ограничения для оптимизатора расписания */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-200">
+                          Ограничения при разрешении конфликтов
+                        </label>
+                        <ScheduleConstraintsEditor
+                          value={channel.scheduleConstraints}
+                          times={Array.from(
+                            new Set(
+                              (channel.autoSendSchedules || [])
+                                .filter((schedule) => schedule.enabled && !schedule.rule && schedule.time)
+                                .map((schedule) => schedule.time)
+                            )
+                          ).sort()}
+                          onChange={(scheduleConstraints) => setChannel({ ...channel, scheduleConstraints })}
+                        />
+                        <p className="text-xs text-slate-400">
+                          Используются кнопкой «Разрешить все конфликты» на странице расписания.
+                        </p>
+                      </div>
+
                   {/* Список расписаний */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
@@ -1703,7 +1841,20 @@ const ChannelEditPage = () => {
                             </button>
                           </div>
 
+                          <ScheduleRuleEditor
+                            schedule={schedule}
+                            onChange={(next) => {
+                              const updated = [...(channel.autoSendSchedules || [])];
+                              updated[index] = next;
+                              setChannel({
+                                ...channel,
+                                autoSendSchedules: updated
+                              });
+                            }}
+                          />
+
                           {/* Дни недели */}
+                          {!schedule.rule && (
                           <div className="mb-4">
                             <label className="mb-2 flex items-center gap-2 text-xs font-medium text-slate-300">
                               <span>Дни недели</span>
@@ -1767,9 +1918,11 @@ const ChannelEditPage = () => {
                               ))}
                             </div>
                           </div>
+                          )}
 
                           {/* Время и количество промптов */}
                           <div className="grid gap-4 sm:grid-cols-2">
+                            {!schedule.rule && (
                             <div>
                               <label className="mb-2 flex items-center gap-2 text-xs font-medium text-slate-300">
                                 <span>Время (HH:MM)</span>
@@ -1805,6 +1958,7 @@ const ChannelEditPage = () => {
                                 className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition-all duration-200 focus:border-brand focus:ring-2 focus:ring-brand/40 hover:border-white/20"
                               />
                             </div>
+                            )}
                             <div>
                               <label className="mb-2 flex items-center gap-2 text-xs font-medium text-slate-300">
                                 <span>Количество промптов за запуск</span>
@@ -2068,14 +2222,15 @@ const ChannelEditPage = () => {
                 enabled: channel.blotataEnabled || false,
                 inputFolderId: channel.driveInputFolderId,
                 archiveFolderId: channel.driveArchiveFolderId,
-                blotatoApiKey: channel.blotataApiKey,
+                hasBlotatoApiKey: Boolean(channel.secretMasks?.blotato_api_key) || hasDefaultBlotatoKey,
                 youtubeId: channel.blotataYoutubeId,
                 tiktokId: channel.blotataTiktokId,
                 instagramId: channel.blotataInstagramId,
                 facebookId: channel.blotataFacebookId,
                 threadsId: channel.blotataThreadsId,
                 pinterestId: channel.blotataPinterestId,
-                blueskyId: channel.blotataBlueskyId
+                blueskyId: channel.blotataBlueskyId,
+                directPlatforms: Object.values(channel.platformPublishers ?? {}).filter((p) => p && p !== "blotato").length
               };
               
               const status = getBlotatoPublishStatus(blotatoSettings);
@@ -2259,28 +2414,25 @@ const ChannelEditPage = () => {
                           language: channel.language,
                           blotataEnabled: channel.blotataEnabled
                         }}
-                        currentValue={channel.blotataApiKey ? "***" : ""}
+                        currentValue={channel.secretMasks?.blotato_api_key ? "***" : ""}
                         label="Blotato API Key"
                       />
                     </label>
-                    <input
-                      type="password"
-                      value={channel.blotataApiKey || ""}
-                      onChange={(e) =>
+                    <SecretKeyField
+                      kind="blotato_api_key"
+                      channelId={channel.id}
+                      masked={channel.secretMasks?.blotato_api_key}
+                      onChange={(masked) =>
                         setChannel({
                           ...channel,
-                          blotataApiKey: e.target.value.trim() || undefined
+                          secretMasks: { ...channel.secretMasks, blotato_api_key: masked ?? undefined }
                         })
                       }
                       placeholder="blt_..."
-                      className={`w-full rounded-xl border bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:ring-2 ${
-                        status.status === 'needs_setup' && status.missing.includes('Blotato API key')
-                          ? 'border-red-500/50 focus:border-red-500 focus:ring-red-500/40'
-                          : 'border-white/10 focus:border-brand focus:ring-brand/40'
-                      }`}
+                      invalid={status.status === 'needs_setup' && status.missing.includes('Blotato API key')}
                     />
                     <p className="text-xs text-slate-400">
-                      API ключ для доступа к Blotato. Если не указан, будет использован ключ из настроек сервера.
+                      Ключ хранится зашифрованным на сервере и сохраняется сразу. Если не указан, используется ключ из настроек аккаунта{hasDefaultBlotatoKey ? " (задан)" : ""} или сервера.
                     </p>
                   </div>
 
@@ -2632,12 +2784,56 @@ const ChannelEditPage = () => {
                     </p>
                   </div>
 
+                  <div className="mt-6 space-y-3">
+                    <h4 className="text-sm font-semibold text-slate-300">Публикаторы по платформам</h4>
+                    <PlatformPublishersEditor
+                      value={channel.platformPublishers}
+                      webhookUrl={channel.publishWebhookUrl}
+                      onChange={(platformPublishers) => setChannel({ ...channel, platformPublishers })}
+                      onWebhookUrlChange={(publishWebhookUrl) => setChannel({ ...channel, publishWebhookUrl })}
+                      channelId={channel.id}
+                      webhookSecretMasked={channel.secretMasks?.publish_webhook_secret}
+                      onWebhookSecretChange={(masked) =>
+                        setChannel({
+                          ...channel,
+                          secretMasks: { ...channel.secretMasks, publish_webhook_secret: masked ?? undefined }
+                        })
+                      }
+                    />
+                  </div>
+
+                  <div className="mt-6 space-y-3">
+                    <h4 className="text-sm font-semibold text-slate-300">Время публикации</h4>
+                    <PublishScheduleEditor
+                      value={channel.publishSchedule}
+                      timezone={channel.timezone}
+                      onChange={(publishSchedule) => setChannel({ ...channel, publishSchedule })}
+                    />
+                  </div>
+
+                  <div className="mt-6 space-y-3">
+                    <h4 className="text-sm font-semibold text-slate-300">Шаблоны подписей и хештеги</h4>
+                    <PostTemplatesEditor
+                      value={channel.postTemplates}
+                      channelName={channel.name}
+                      onChange={(postTemplates) => setChannel({ ...channel, postTemplates })}
+                    />
+                  </div>
+
+                  <div className="mt-6 space-y-3">
+                    <h4 className="text-sm font-semibold text-slate-300">Библиотека хештегов</h4>
+                    <HashtagLibraryEditor
+                      value={channel.hashtagLibrary}
+                      onChange={(hashtagLibrary) => setChannel({ ...channel, hashtagLibrary })}
+                    />
+                  </div>
+
                   {/* Кнопка тестирования */}
                   <div className="mt-6 space-y-2">
                     <button
                       type="button"
                       onClick={handleTestBlottata}
-                      disabled={testingBlottata || !channel.driveInputFolderId || !channel.blotataApiKey}
+                      disabled={testingBlottata || !channel.driveInputFolderId}
                       className="flex items-center gap-2 rounded-xl border border-brand/50 bg-brand/10 px-4 py-2.5 text-sm font-medium text-brand transition hover:bg-brand/20 disabled:cursor-not-allowed disabled:opacity-50"
                     >
                       {testingBlottata ? (
@@ -22,6 +22,7 @@ import ChannelCardCompact from "../../components/ChannelCardCompact";
 import AIAutoGenerateModal from "../../components/AIAutoGenerateModal";
 import CustomPromptModal from "../../components/CustomPromptModal";
 import ChannelImportModal from "../../components/ChannelImportModal";
+import ChannelCopyModal from "../../components/ChannelCopyModal";
 import UserMenu from "../../components/UserMenu";
 import NotificationBell from "../../components/NotificationBell";
 import { useAuthStore } from "../../stores/authStore";
@@ -62,6 +63,7 @@ const ChannelListPage = () => {
   const [selectedChannelForCustomPrompt, setSelectedChannelForCustomPrompt] =
     useState<Channel | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [channelToCopy, setChannelToCopy] = useState<Channel | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
   const [localChannels, setLocalChannels] = useState<Channel[]>([]);
@@ -312,6 +314,10 @@ const ChannelListPage = () => {
     navigate(`/channels/${channelId}/generate`);
   };
 
+  const goToRuns = (channelId: string) => {
+    navigate(`/channels/${channelId}/runs`);
+  };
+
   const handleAutoGenerate = (channel: Channel) => {
     setSelectedChannelForAI(channel);
     setIsAIModalOpen(true);
@@ -337,6 +343,21 @@ const ChannelListPage = () => {
     console.log("Custom prompt sent successfully");
   };
 
+  const handleChannelDuplicated = (_channelId: string, name: string) => {
+    setChannelToCopy(null);
+    if (user?.uid) {
+      void fetchChannels(user.uid);
+    }
+    setToast({ message: `Канал «${name}» создан`, type: "success" });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleTemplateSaved = (name: string) => {
+    setChannelToCopy(null);
+    setToast({ message: `Шаблон «${name}» сохранён, его можно выбрать в мастере`, type: "success" });
+    setTimeout(() => setToast(null), 3000);
+  };
+
   const handleMobileLogout = async () => {
     setIsLoggingOut(true);
     try {
@@ -1073,6 +1094,8 @@ const ChannelListPage = () => {
                         onGenerate={() => goToGeneration(channel.id)}
                         onAutoGenerate={() => handleAutoGenerate(channel)}
                         onCustomPrompt={() => handleCustomPrompt(channel)}
+                        onShowRuns={() => goToRuns(channel.id)}
+                        onCopy={() => setChannelToCopy(channel)}
                       />
                     );
                   })}
@@ -1104,6 +1127,8 @@ const ChannelListPage = () => {
                           onGenerate={() => goToGeneration(channel.id)}
                           onAutoGenerate={() => handleAutoGenerate(channel)}
                           onCustomPrompt={() => handleCustomPrompt(channel)}
+                          onShowRuns={() => goToRuns(channel.id)}
+                          onCopy={() => setChannelToCopy(channel)}
                         />
                       </div>
                     );
@@ -1134,6 +1159,15 @@ const ChannelListPage = () => {
         />
       )}
 
+      {/* Дублирование канала и сохранение шаблона */}
+      <ChannelCopyModal
+        channel={channelToCopy}
+        isOpen={channelToCopy !== null}
+        onClose={() => setChannelToCopy(null)}
+        onDuplicated={handleChannelDuplicated}
+        onTemplateSaved={handleTemplateSaved}
+      />
+
       {/* Channel Import Modal */}
       <ChannelImportModal
         isOpen={isImportModalOpen}
@@ -0,0 +1,553 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  Clock,
+  ExternalLink,
+  Loader2,
+  MinusCircle,
+  RefreshCw,
+  XCircle
+} from "lucide-react";
+import {
+  fetchPipelineRuns,
+  PIPELINE_STAGE_ORDER,
+  retryFailedPublications,
+  saveVariantSelection,
+  type PipelinePublication,
+  type PipelineRun,
+  type PipelineRunStatus,
+  type PipelineStageName,
+  type PipelineStageState
+} from "../../api/pipelineRuns";
+import { fetchMissedRunDecisions, type MissedRunDecision, type MissedRunDecisionType } from "../../api/missedRuns";
+import { useAuthStore } from "../../stores/authStore";
+import { useChannelStore } from "../../stores/channelStore";
+import type { Channel } from "../../domain/channel";
+
+const STAGE_LABELS: Record<PipelineStageName, string> = {
+  prompt_sent: "Промпт отправлен в SyntX",
+  drive_upload: "Видео загружено в Google Drive",
+  publish: "Публикация через Blotato",
+  archive: "Перенос в архив"
+};
+
+const RUN_STATUS_LABELS: Record<PipelineRunStatus, string> = {
+  in_progress: "В процессе",
+  completed: "Завершён",
+  partial: "Частично",
+  failed: "Ошибка"
+};
+
+const RUN_STATUS_COLORS: Record<PipelineRunStatus, string> = {
+  in_progress: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  completed: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
+  partial: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+  failed: "bg-red-500/20 text-red-300 border-red-500/30"
+};
+
+const MISSED_DECISION_LABELS: Record<MissedRunDecisionType, string> = {
+  skipped: "пропущен",
+  caught_up: "запущен с опозданием",
+  superseded: "заменён более поздним",
+  over_limit: "сверх лимита"
+};
+
+// Платформа → поле канала с аккаунтом Blotato
+const BLOTATO_PLATFORM_FIELDS: Array<[string, keyof Channel]> = [
+  ["youtube", "blotataYoutubeId"],
+  ["tiktok", "blotataTiktokId"],
+  ["instagram", "blotataInstagramId"],
+  ["facebook", "blotataFacebookId"],
+  ["threads", "blotataThreadsId"],
+  ["twitter", "blotataTwitterId"],
+  ["linkedin", "blotataLinkedinId"],
+  ["pinterest", "blotataPinterestId"],
+  ["bluesky", "blotataBlueskyId"]
+];
+
+// Платформы с аккаунтом Blotato либо назначенные другому публикатору
+const getChannelPlatforms = (channel?: Channel): string[] =>
+  channel
+    ? BLOTATO_PLATFORM_FIELDS.filter(([platform, field]) => {
+        const publisher = channel.platformPublishers?.[platform] ?? "blotato";
+        return publisher === "blotato" ? Boolean(channel[field]) : true;
+      }).map(([platform]) => platform)
+    : [];
+
+const formatDateTime = (iso?: string | null) => {
+  if (!iso) return "";
+  return new Date(iso).toLocaleString("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+};
+
+const StageIcon = ({ stage }: { stage?: PipelineStageState }) => {
+  if (!stage) {
+    return <Circle size={16} className="text-slate-600" />;
+  }
+  switch (stage.status) {
+    case "success":
+      return <CheckCircle2 size={16} className="text-emerald-400" />;
+    case "failed":
+      return <XCircle size={16} className="text-red-400" />;
+    case "skipped":
+      return <MinusCircle size={16} className="text-slate-500" />;
+    default:
+      return <Clock size={16} className="text-blue-300" />;
+  }
+};
+
+const StageRow = ({ name, stage }: { name: PipelineStageName; stage?: PipelineStageState }) => {
+  let timing = "";
+  if (stage?.status === "pending" && stage.scheduledFor) {
+    timing = `запланировано на ${formatDateTime(stage.scheduledFor)}`;
+  } else if (stage?.finishedAt) {
+    timing = formatDateTime(stage.finishedAt);
+  } else if (stage?.status === "pending") {
+    timing = "ожидает";
+  }
+
+  return (
+    <div className="flex items-start gap-2">
+      <div className="mt-0.5 flex-shrink-0">
+        <StageIcon stage={stage} />
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-x-2 text-sm">
+          <span className={stage ? "text-slate-200" : "text-slate-500"}>{STAGE_LABELS[name]}</span>
+          {timing && <span className="text-xs text-slate-400">{timing}</span>}
+          {stage?.link && (
+            <a
+              href={stage.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-brand-light hover:underline"
+            >
+              Открыть
+              <ExternalLink size={12} />
+            </a>
+          )}
+        </div>
+        {stage?.error && <p className="mt-0.5 break-words text-xs text-red-300">{stage.error}</p>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Выбор варианта видео для публикации: один вариант на все платформы
+ * или разные варианты на разные платформы
+ */
+const VariantPicker = ({
+  run,
+  platforms,
+  onSaved
+}: {
+  run: PipelineRun;
+  platforms: string[];
+  onSaved: (run: PipelineRun) => void;
+}) => {
+  const variants = run.variants ?? [];
+  const [defaultVariant, setDefaultVariant] = useState(run.variantSelection?.defaultVariant ?? 1);
+  const [platformVariants, setPlatformVariants] = useState<Record<string, number>>(
+    run.variantSelection?.platformVariants ?? {}
+  );
+  const [split, setSplit] = useState(Object.keys(run.variantSelection?.platformVariants ?? {}).length > 0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const published = run.stages.publish?.status === "success" || run.publications.length > 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await saveVariantSelection(run.channelId, run.id, {
+        defaultVariant,
+        platformVariants: split ? platformVariants : {}
+      });
+      onSaved(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось сохранить выбор");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium text-slate-200">Варианты видео ({variants.length})</span>
+        <span className="text-xs text-slate-400">
+          {run.variantSelection?.confirmedAt
+            ? `Выбор сохранён ${formatDateTime(run.variantSelection.confirmedAt)}`
+            : "Ожидает выбора — без него публикуется вариант 1"}
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        {variants.map((variant) => (
+          <label
+            key={variant.index}
+            className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-950/40 px-3 py-2 text-sm"
+          >
+            <input
+              type="radio"
+              name={`variant-${run.id}`}
+              checked={defaultVariant === variant.index}
+              onChange={() => setDefaultVariant(variant.index)}
+              disabled={saving || !variant.driveFileId}
+            />
+            <span className="text-white">Вариант {variant.index}</span>
+            <span className="truncate text-xs text-slate-400">{variant.driveFileName}</span>
+            {variant.driveWebViewLink && (
+              <a
+                href={variant.driveWebViewLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-brand-light hover:underline"
+              >
+                Открыть
+                <ExternalLink size={12} />
+              </a>
+            )}
+            {variant.error && <span className="truncate text-xs text-red-300">{variant.error}</span>}
+          </label>
+        ))}
+      </div>
+
+      {platforms.length > 1 && (
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={split} onChange={(e) => setSplit(e.target.checked)} disabled={saving} />
+          Разные варианты на разные платформы
+        </label>
+      )}
+
+      {split && (
+        <div className="grid gap-2 sm:grid-cols-3">
+          {platforms.map((platform) => (
+            <label key={platform} className="flex items-center justify-between gap-2 text-xs text-slate-300">
+              {platform}
+              <select
+                value={platformVariants[platform] ?? defaultVariant}
+                onChange={(e) => setPlatformVariants({ ...platformVariants, [platform]: Number(e.target.value) })}
+                disabled={saving}
+                className="rounded-lg border border-white/10 bg-slate-800/60 px-2 py-1 text-xs text-white focus:border-brand/40 focus:outline-none"
+              >
+                {variants.map((variant) => (
+                  <option key={variant.index} value={variant.index}>
+                    Вариант {variant.index}
+                  </option>
+                ))}
+                <option value={0}>Не публиковать</option>
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="rounded-lg bg-brand px-3 py-1.5 text-xs font-medium text-white transition hover:bg-brand-dark disabled:opacity-50"
+        >
+          {saving ? "Сохранение..." : "Сохранить выбор"}
+        </button>
+        {published && (
+          <span className="text-xs text-slate-500">Уже опубликованные файлы повторно не публикуются</span>
+        )}
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+function describeRetry(publication: PipelinePublication): string | null {
+  if (publication.success) return null;
+  if (publication.nextRetryAt) {
+    return `попытка ${publication.attempts ?? 1}, повтор ${formatDateTime(publication.nextRetryAt)}`;
+  }
+  return publication.gaveUp ? "без повторов" : null;
+}
+
+const PublicationsPanel = ({ run, onRetried }: { run: PipelineRun; onRetried: (run: PipelineRun) => void }) => {
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasFailed = run.publications.some((publication) => !publication.success);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    setError(null);
+    try {
+      const result = await retryFailedPublications(run.channelId, run.id);
+      if (result.run) onRetried(result.run);
+      if (result.errors.length > 0) setError(result.errors.join("; "));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось повторить публикацию");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {run.publications.map((publication) => {
+          const retry = describeRetry(publication);
+          return (
+            <span
+              key={publication.platform}
+              title={publication.error || undefined}
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                publication.success
+                  ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-300"
+                  : publication.nextRetryAt
+                    ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-300"
+                    : "border-red-500/30 bg-red-500/10 text-red-300"
+              }`}
+            >
+              {publication.platform}
+              {publication.variantIndex && <span className="text-slate-400">· v{publication.variantIndex}</span>}
+              {publication.publisher && publication.publisher !== "blotato" && (
+                <span className="text-slate-400">· {publication.publisher}</span>
+              )}
+              {publication.postId && <span className="text-slate-400">· {publication.postId}</span>}
+              {retry && <span className="text-slate-400">· {retry}</span>}
+              {publication.postUrl && (
+                <a href={publication.postUrl} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink size={12} />
+                </a>
+              )}
+            </span>
+          );
+        })}
+        {hasFailed && (
+          <button
+            type="button"
+            onClick={() => void handleRetry()}
+            disabled={retrying}
+            className="inline-flex items-center gap-1 rounded-lg border border-white/10 px-2 py-0.5 text-xs text-slate-300 transition hover:border-white/20 hover:text-white disabled:opacity-50"
+          >
+            {retrying ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            Повторить неудачные
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+const RunCard = ({
+  run,
+  platforms,
+  onRunUpdated
+}: {
+  run: PipelineRun;
+  platforms: string[];
+  onRunUpdated: (run: PipelineRun) => void;
+}) => (
+  <div className="rounded-xl border border-white/10 bg-slate-900/80 p-4">
+    <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-lg font-semibold text-white">
+          {run.timeSlot ? `Слот ${run.timeSlot}` : run.mode === "manual" ? "Ручной запуск" : "Запуск"}
+        </span>
+        <span className="text-sm text-slate-400">{formatDateTime(run.createdAt)}</span>
+        <span
+          className={`rounded-full border px-2 py-0.5 text-xs font-medium ${RUN_STATUS_COLORS[run.status]}`}
+        >
+          {RUN_STATUS_LABELS[run.status]}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+        {run.telegramMessageId && <span>Telegram #{run.telegramMessageId}</span>}
+        {run.driveFileId && <span>Drive {run.driveFileId.slice(0, 10)}…</span>}
+      </div>
+    </div>
+
+    {(run.videoTitle || run.driveFileName) && (
+      <p className="mb-3 truncate text-sm text-slate-300">{run.videoTitle || run.driveFileName}</p>
+    )}
+
+    <div className="space-y-2">
+      {PIPELINE_STAGE_ORDER.map((name) => (
+        <StageRow key={name} name={name} stage={run.stages[name]} />
+      ))}
+    </div>
+
+    {run.publications.length > 0 && <PublicationsPanel run={run} onRetried={onRunUpdated} />}
+
+    {run.variants && run.variants.length > 1 && (
+      <VariantPicker run={run} platforms={platforms} onSaved={onRunUpdated} />
+    )}
+  </div>
+);
+
+const MissedRunsPanel = ({ decisions }: { decisions: MissedRunDecision[] }) => (
+  <div className="mb-6 rounded-xl border border-yellow-500/20 bg-yellow-900/10 p-4">
+    <h2 className="mb-2 text-sm font-semibold text-yellow-200">Слоты, пропущенные из-за простоя планировщика</h2>
+    <div className="space-y-1">
+      {decisions.map((decision) => (
+        <div key={decision.id} className="flex flex-wrap items-center gap-x-2 text-xs text-slate-300">
+          <span className="font-mono">
+            {decision.localDate} {decision.time}
+          </span>
+          <span className={decision.decision === "caught_up" ? "text-emerald-300" : "text-slate-400"}>
+            {MISSED_DECISION_LABELS[decision.decision]}
+          </span>
+          <span className="text-slate-500">опоздание {decision.lateByMinutes} мин</span>
+          {decision.error && <span className="text-red-300">{decision.error}</span>}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default function ChannelRunsPage() {
+  const navigate = useNavigate();
+  const { channelId } = useParams<{ channelId: string }>();
+  const { user } = useAuthStore();
+  const { channels, fetchChannels } = useChannelStore();
+  const [runs, setRuns] = useState<PipelineRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<PipelineRunStatus | "">("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [missedRuns, setMissedRuns] = useState<MissedRunDecision[]>([]);
+
+  const channel = channels.find((c) => c.id === channelId);
+  const channelPlatforms = useMemo(() => getChannelPlatforms(channel), [channel]);
+
+  useEffect(() => {
+    if (user?.uid && !channel) {
+      void fetchChannels(user.uid);
+    }
+  }, [user?.uid, channel, fetchChannels]);
+
+  const loadRuns = async () => {
+    if (!channelId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchPipelineRuns(channelId, {
+        status: statusFilter || undefined,
+        limit: 100
+      });
+      setRuns(result);
+      // Пропущенные слоты — дополнительная информация, их ошибка не мешает показу прогонов
+      setMissedRuns(await fetchMissedRunDecisions(channelId, 20).catch(() => []));
+    } catch (err) {
+      console.error("Failed to load pipeline runs", err);
+      setError(err instanceof Error ? err.message : "Не удалось загрузить историю запусков");
+      setRuns([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadRuns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelId, statusFilter]);
+
+  const filteredRuns = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return runs;
+    return runs.filter(
+      (run) =>
+        run.timeSlot?.includes(query) ||
+        run.videoTitle?.toLowerCase().includes(query) ||
+        run.driveFileName?.toLowerCase().includes(query) ||
+        String(run.telegramMessageId ?? "").includes(query)
+    );
+  }, [runs, searchQuery]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="mx-auto max-w-5xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="mb-6 flex items-center gap-4">
+          <button
+            onClick={() => navigate("/channels")}
+            className="rounded-xl border border-white/10 bg-slate-800/60 px-4 py-2 text-sm text-slate-300 transition hover:border-white/20 hover:bg-slate-800/80 hover:text-white"
+          >
+            <ArrowLeft size={16} className="mr-2 inline" />
+            Назад
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">История запусков</h1>
+            <p className="mt-2 text-sm text-slate-400">
+              {channel ? `${channel.name}: ` : ""}путь каждого ролика от промпта до опубликованного поста.
+            </p>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-col gap-3 rounded-xl border border-white/10 bg-slate-900/80 p-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex flex-1 flex-wrap gap-3">
+            <input
+              type="text"
+              placeholder="Поиск по времени слота, названию или ID сообщения..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="min-w-[200px] flex-1 rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-white placeholder-slate-400 focus:border-brand/40 focus:outline-none"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as PipelineRunStatus | "")}
+              className="rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-white focus:border-brand/40 focus:outline-none"
+            >
+              <option value="">Все статусы</option>
+              {Object.entries(RUN_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => void loadRuns()}
+            disabled={loading}
+            className="flex items-center gap-2 rounded-lg border border-white/10 bg-slate-800/60 px-3 py-2 text-sm text-slate-300 transition hover:border-white/20 hover:bg-slate-800/80 hover:text-white disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={loading ? "animate-spin" : ""} />
+            Обновить
+          </button>
+        </div>
+
+        {!loading && missedRuns.length > 0 && <MissedRunsPanel decisions={missedRuns} />}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-slate-300">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin text-brand-light" />
+            Загружаем историю запусков...
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-red-500/30 bg-red-900/20 p-4 text-sm text-red-300">{error}</div>
+        ) : filteredRuns.length === 0 ? (
+          <div className="rounded-xl border border-white/10 bg-slate-900/80 p-8 text-center text-sm text-slate-400">
+            Запусков пока нет. Они появятся после первой отправки промпта по расписанию или вручную.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredRuns.map((run) => (
+              <RunCard
+                key={run.id}
+                run={run}
+                platforms={channelPlatforms}
+                onRunUpdated={(updated) => setRuns((prev) => prev.map((r) => (r.id === updated.id ? updated : r)))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,19 @@
-import { useEffect, useState } from "react";
-import { Loader2, ArrowLeft, RefreshCw, AlertTriangle, Pause, Play } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, ArrowLeft, RefreshCw, AlertTriangle, Pause, Play, CalendarOff, CalendarDays } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { fetchChannelSchedule, type ChannelScheduleItem } from "../../api/channelSchedule";
 import ChannelScheduleTable from "../../components/ChannelScheduleTable";
 import UserMenu from "../../components/UserMenu";
 import NotificationBell from "../../components/NotificationBell";
 import Accordion from "../../components/Accordion";
+import BlackoutPeriodsEditor from "../../components/BlackoutPeriodsEditor";
+import ScheduleOptimizerPanel from "../../components/ScheduleOptimizerPanel";
 import { calculateScheduleConflicts, type ConflictKey } from "../../utils/scheduleConflicts";
 import {
   fetchScheduleSettings,
   updateScheduleSettings,
   type ScheduleSettings,
+  type ScheduleConflictPolicy,
   getMinIntervalForMinutes
 } from "../../api/scheduleSettings";
 import {
@@ -27,6 +30,34 @@ import {
   findPreviousTimeMinutes
 } from "../../utils/activeTimeSlot";
 import { minutesToHHMM } from "../../utils/scheduleFreeSlots";
+import { findBlackoutForDate, type BlackoutPeriod } from "../../utils/blackoutPeriods";
+import {
+  DEFAULT_REFERENCE_TIMEZONE,
+  REFERENCE_TIMEZONE_OPTIONS,
+  getMinutesInTimezone,
+  toReferenceSchedule
+} from "../../utils/scheduleTimezone";
+
+const BLACKOUT_STRIP_DAYS = 14;
+const WEEKDAY_SHORT = ["Вс", "Пн", "Вт", "Ср", "Чт", "Пт", "Сб"];
+
+/**
+ * Ближайшие дни (по локальному времени браузера) с отметкой блокировки
+ */
+function getUpcomingBlackoutDays(periods: BlackoutPeriod[] | undefined) {
+  const today = new Date();
+  return Array.from({ length: BLACKOUT_STRIP_DAYS }, (_, offset) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    return {
+      date,
+      blackout: findBlackoutForDate(periods, {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate()
+      })
+    };
+  });
+}
 
 const ChannelSchedulePage = () => {
   const navigate = useNavigate();
@@ -67,6 +98,15 @@ const ChannelSchedulePage = () => {
   const [previousTime, setPreviousTime] = useState<string | null>(null);
   const [previousTimeMinutes, setPreviousTimeMinutes] = useState<number | null>(null);
   const [previousElapsedSeconds, setPreviousElapsedSeconds] = useState<number>(0);
+  // Таблица показывает времена в поясе каждого канала или в опорном поясе
+  const [timeDisplay, setTimeDisplay] = useState<"channel" | "reference">("channel");
+
+  // Все расчёты (конфликты, свободные окна, активный слот) ведутся в опорном часовом поясе
+  const referenceTimezone = settings.referenceTimezone || DEFAULT_REFERENCE_TIMEZONE;
+  const referenceItems = useMemo(
+    () => toReferenceSchedule(scheduleItems, referenceTimezone),
+    [scheduleItems, referenceTimezone]
+  );
 
   // Диагностический лог для отслеживания изменений previousTime
   useEffect(() => {
@@ -126,11 +166,11 @@ const ChannelSchedulePage = () => {
         return;
       }
 
-      const conflictSet = calculateScheduleConflicts(scheduleItems, settings);
+      const conflictSet = calculateScheduleConflicts(referenceItems, settings);
       setConflicts(conflictSet);
 
       const ranges = calculateFreeRanges(
-        mapItemsToChannelSchedule(scheduleItems),
+        mapItemsToChannelSchedule(referenceItems),
         settings
       );
       setFreeRanges(ranges);
@@ -138,7 +178,7 @@ const ChannelSchedulePage = () => {
       const slots = generateSuggestedSlots(ranges, settings);
       setSuggestedSlots(slots);
     }
-  }, [scheduleItems, loading, error, settings.conflictsCheckEnabled, settings.minInterval_00_13, settings.minInterval_13_17, settings.minInterval_17_24]);
+  }, [referenceItems, loading, error, settings.conflictsCheckEnabled, settings.minInterval_00_13, settings.minInterval_13_17, settings.minInterval_17_24]);
 
   // Вычисляем активный временной слот и следующий ближайший слот
   useEffect(() => {
@@ -165,10 +205,10 @@ const ChannelSchedulePage = () => {
       
       // Получаем текущее время
       const now = new Date();
-      const nowMinutes = now.getHours() * 60 + now.getMinutes();
+      const nowMinutes = getMinutesInTimezone(now, referenceTimezone);
       
       // Собираем все времена
-      const allTimesMinutes = collectAllTimesMinutes(scheduleItems);
+      const allTimesMinutes = collectAllTimesMinutes(referenceItems);
       
       // Диагностический лог
       console.log("🔍 RECALCULATE TIMES:", {
@@ -178,7 +218,7 @@ const ChannelSchedulePage = () => {
       });
       
       // 1) Вычисляем активный слот
-      const activeResult = calculateActiveTime(scheduleItems, minInterval);
+      const activeResult = calculateActiveTime(referenceItems, minInterval, nowMinutes);
       const newActiveTime = activeResult.activeTime;
       const newActiveMinutes = activeResult.activeMinutes;
       
@@ -247,7 +287,7 @@ const ChannelSchedulePage = () => {
     }, 30_000); // 30 секунд
 
     return () => clearInterval(intervalId);
-  }, [scheduleItems, loading, error, settings.minInterval_00_13, settings.minInterval_13_17, settings.minInterval_17_24]);
+  }, [referenceItems, referenceTimezone, loading, error, settings.minInterval_00_13, settings.minInterval_13_17, settings.minInterval_17_24]);
 
   // Обратный отсчёт в секундах
   useEffect(() => {
@@ -258,7 +298,7 @@ const ChannelSchedulePage = () => {
 
     const updateCountdown = () => {
       const now = new Date();
-      const nowMinutes = now.getHours() * 60 + now.getMinutes();
+      const nowMinutes = getMinutesInTimezone(now, referenceTimezone);
       const nowSeconds = nowMinutes * 60 + now.getSeconds();
 
       const startSeconds = activeSlotStartMinutes * 60;
@@ -285,7 +325,7 @@ const ChannelSchedulePage = () => {
     }, 1000);
 
     return () => clearInterval(intervalId);
-  }, [activeSlotStartMinutes, settings]);
+  }, [activeSlotStartMinutes, settings, referenceTimezone]);
 
   // Расчёт прошедшего времени после предыдущей публикации
   useEffect(() => {
@@ -296,7 +336,7 @@ const ChannelSchedulePage = () => {
 
     const update = () => {
       const now = new Date();
-      const nowSeconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds();
+      const nowSeconds = getMinutesInTimezone(now, referenceTimezone) * 60 + now.getSeconds();
       let prevSeconds = previousTimeMinutes * 60;
 
       // Учёт перехода через полночь
@@ -362,6 +402,33 @@ const ChannelSchedulePage = () => {
     }
   };
 
+  const handleBlackoutsChange = async (blackoutPeriods: BlackoutPeriod[]) => {
+    const previous = settingsDraft.blackoutPeriods;
+    setSettingsDraft((prev) => ({ ...prev, blackoutPeriods }));
+    setIsSavingSettings(true);
+    setSettingsError(null);
+    setSettingsSuccessMessage(null);
+
+    try {
+      const updated = await updateScheduleSettings({ ...settings, blackoutPeriods });
+      setSettings(updated);
+      setSettingsDraft((prev) => ({ ...prev, blackoutPeriods: updated.blackoutPeriods }));
+      setSettingsSuccessMessage("Периоды блокировки сохранены");
+      // Отметки "сегодня заблокирован" в строках каналов считаются на backend
+      void loadSchedule();
+    } catch (err) {
+      setSettingsError(
+        err instanceof Error ? err.message : "Ошибка при сохранении периодов блокировки"
+      );
+      setSettingsDraft((prev) => ({ ...prev, blackoutPeriods: previous }));
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const upcomingBlackoutDays = getUpcomingBlackoutDays(settings.blackoutPeriods);
+  const blackedOutTodayCount = scheduleItems.filter((item) => item.blackoutToday).length;
+
   const handleSaveSettings = async () => {
     // Валидация всех трех интервалов
     const validateInterval = (value: number | undefined, name: string): boolean => {
@@ -398,7 +465,9 @@ const ChannelSchedulePage = () => {
         minInterval_13_17: settingsDraft.minInterval_13_17!,
         minInterval_17_24: settingsDraft.minInterval_17_24!,
         conflictsCheckEnabled: settingsDraft.conflictsCheckEnabled,
-        isAutomationPaused: settingsDraft.isAutomationPaused
+        isAutomationPaused: settingsDraft.isAutomationPaused,
+        referenceTimezone: settingsDraft.referenceTimezone,
+        conflictPolicy: settingsDraft.conflictPolicy
       });
       setSettings(updated);
       setSettingsDraft(updated);
@@ -453,6 +522,13 @@ const ChannelSchedulePage = () => {
                 </>
               )}
             </button>
+            <button
+              onClick={() => navigate("/channels/calendar")}
+              className="flex min-h-[40px] items-center gap-2 rounded-lg border border-white/10 bg-slate-900/50 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-brand/40 hover:bg-slate-800/50 sm:px-4"
+            >
+              <CalendarDays className="h-4 w-4" />
+              <span className="hidden sm:inline">Календарь</span>
+            </button>
             <button
               onClick={loadSchedule}
               disabled={loading}
@@ -481,6 +557,21 @@ const ChannelSchedulePage = () => {
           </div>
         )}
 
+        {/* Баннер о каналах, заблокированных сегодня */}
+        {!loading && !error && blackedOutTodayCount > 0 && (
+          <div className="mb-4 flex items-start gap-3 rounded-lg border border-slate-500/40 bg-slate-800/40 p-4 text-slate-200">
+            <CalendarOff className="mt-0.5 h-5 w-5 flex-shrink-0 text-slate-400" />
+            <div className="flex-1 text-sm">
+              <p className="font-medium">
+                Сегодня автоматизация заблокирована для {blackedOutTodayCount} из {scheduleItems.length} каналов
+              </p>
+              <p className="mt-1 text-slate-400">
+                Такие каналы отмечены серым: промпты не отправляются, ролики не публикуются.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Content */}
         {loading ? (
           <div className="flex items-center justify-center py-12">
@@ -535,6 +626,35 @@ const ChannelSchedulePage = () => {
                         />
                         <span>Проверять конфликты в расписании</span>
                       </label>
+                      <label className="inline-flex items-center gap-2 text-sm text-slate-200">
+                        <span>Опорный пояс</span>
+                        <select
+                          value={settingsDraft.referenceTimezone || DEFAULT_REFERENCE_TIMEZONE}
+                          onChange={(e) => handleSettingsChange({ referenceTimezone: e.target.value })}
+                          disabled={settingsLoading || isSavingSettings}
+                          className="rounded-lg border border-white/10 bg-slate-950/60 px-2 py-1 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+                        >
+                          {REFERENCE_TIMEZONE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="inline-flex items-center gap-2 text-sm text-slate-200">
+                        <span>При конфликте</span>
+                        <select
+                          value={settingsDraft.conflictPolicy || "reject"}
+                          onChange={(e) =>
+                            handleSettingsChange({ conflictPolicy: e.target.value as ScheduleConflictPolicy })
+                          }
+                          disabled={settingsLoading || isSavingSettings}
+                          className="rounded-lg border border-white/10 bg-slate-950/60 px-2 py-1 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+                        >
+                          <option value="reject">отклонять</option>
+                          <option value="shift">сдвигать</option>
+                        </select>
+                      </label>
                       <button
                         type="button"
                         onClick={handleSaveSettings}
@@ -668,6 +788,12 @@ const ChannelSchedulePage = () => {
                       <p className="mt-1 text-amber-100/90">
                         Некоторые публикации стоят ближе, чем требуется по минимальным интервалам для соответствующих диапазонов времени суток. Отредактируйте подсвеченные времена, если хотите избежать пересечений.
                       </p>
+                      <ScheduleOptimizerPanel
+                        items={scheduleItems}
+                        settings={settings}
+                        referenceTimezone={referenceTimezone}
+                        onApplied={setScheduleItems}
+                      />
                     </div>
                   </div>
                 )}
@@ -708,6 +834,43 @@ const ChannelSchedulePage = () => {
                       <span>Проверять конфликты в расписании</span>
                     </label>
 
+                    <label className="flex flex-col gap-1 text-sm text-slate-200">
+                      <span>Опорный часовой пояс</span>
+                      <select
+                        value={settingsDraft.referenceTimezone || DEFAULT_REFERENCE_TIMEZONE}
+                        onChange={(e) => handleSettingsChange({ referenceTimezone: e.target.value })}
+                        disabled={settingsLoading || isSavingSettings}
+                        className="min-h-[40px] rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+                      >
+                        {REFERENCE_TIMEZONE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-xs text-slate-400">
+                        Расписания каналов из разных часовых поясов сравниваются по этому времени
+                      </span>
+                    </label>
+
+                    <label className="flex flex-col gap-1 text-sm text-slate-200">
+                      <span>При конфликте по интервалу</span>
+                      <select
+                        value={settingsDraft.conflictPolicy || "reject"}
+                        onChange={(e) =>
+                          handleSettingsChange({ conflictPolicy: e.target.value as ScheduleConflictPolicy })
+                        }
+                        disabled={settingsLoading || isSavingSettings}
+                        className="min-h-[40px] rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40"
+                      >
+                        <option value="reject">Отклонять время</option>
+                        <option value="shift">Сдвигать на ближайшее свободное</option>
+                      </select>
+                      <span className="text-xs text-slate-400">
+                        Сервер проверяет интервал при каждом сохранении времени, даже если проверка конфликтов выключена
+                      </span>
+                    </label>
+
                     <div className="flex flex-col gap-2 text-sm">
                       <span className="text-slate-200">
                         Минимальный интервал между публикациями (мин):
@@ -837,6 +1000,12 @@ const ChannelSchedulePage = () => {
                           <p className="mt-1 text-amber-100/90">
                             Некоторые публикации стоят ближе, чем требуется по минимальным интервалам для соответствующих диапазонов времени суток. Отредактируйте подсвеченные времена, если хотите избежать пересечений.
                           </p>
+                          <ScheduleOptimizerPanel
+                            items={scheduleItems}
+                            settings={settings}
+                            referenceTimezone={referenceTimezone}
+                            onApplied={setScheduleItems}
+                          />
                         </div>
                       </div>
                     )}
@@ -845,6 +1014,42 @@ const ChannelSchedulePage = () => {
               </div>
             </div>
 
+            {/* Периоды блокировки (праздники, отпуска) для всех каналов */}
+            <Accordion
+              className="mb-4"
+              summary={
+                <div>
+                  <div className="text-sm font-semibold text-white">Дни без автоматизации</div>
+                  <div className="mt-2 flex gap-1 overflow-x-auto">
+                  {upcomingBlackoutDays.map(({ date, blackout }) => (
+                    <div
+                      key={date.toISOString()}
+                      title={blackout ? blackout.label : undefined}
+                      className={`flex min-w-[2.5rem] flex-col items-center rounded-md px-1.5 py-1 text-[11px] ${
+                        blackout
+                          ? "bg-slate-800/80 text-slate-500 line-through"
+                          : "bg-slate-950/60 text-slate-200"
+                      }`}
+                    >
+                      <span className={blackout ? "" : "text-slate-400"}>{WEEKDAY_SHORT[date.getDay()]}</span>
+                      <span className="font-semibold">{date.getDate()}</span>
+                    </div>
+                  ))}
+                  </div>
+                </div>
+              }
+            >
+              <p className="mb-3 text-xs text-slate-400">
+                В эти дни не отправляются промпты и не публикуются ролики ни в одном канале. Дни отдельного канала
+                задаются в его настройках. Даты сравниваются в часовом поясе канала.
+              </p>
+              <BlackoutPeriodsEditor
+                periods={settingsDraft.blackoutPeriods ?? []}
+                onChange={(periods) => void handleBlackoutsChange(periods)}
+                disabled={settingsLoading || isSavingSettings}
+              />
+            </Accordion>
+
             {/* Панель свободных временных окон - аккордион на мобильных */}
             {settings.conflictsCheckEnabled && (
               <>
@@ -857,7 +1062,7 @@ const ChannelSchedulePage = () => {
                           Свободные окна для новых публикаций
                         </p>
                         <p className="mt-1 text-xs text-slate-400">
-                          Показываются интервалы и возможные слоты с интервалом не менее минимального интервала для соответствующего диапазона времени суток от всех публикаций.
+                          Показываются интервалы и возможные слоты с интервалом не менее минимального интервала для соответствующего диапазона времени суток от всех публикаций. Время указано в опорном поясе {referenceTimezone}.
                         </p>
                       </div>
                     </div>
@@ -985,7 +1190,7 @@ const ChannelSchedulePage = () => {
                     >
                       <div className="space-y-3">
                         <p className="text-xs text-slate-400">
-                          Показываются интервалы и возможные слоты с интервалом не менее минимального интервала для соответствующего диапазона времени суток от всех публикаций.
+                          Показываются интервалы и возможные слоты с интервалом не менее минимального интервала для соответствующего диапазона времени суток от всех публикаций. Время указано в опорном поясе {referenceTimezone}.
                         </p>
                         <div>
                           <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
@@ -1101,6 +1306,27 @@ const ChannelSchedulePage = () => {
               </>
             )}
 
+            <div className="mb-2 flex flex-wrap items-center justify-end gap-2 text-xs text-slate-400">
+              <span>Время в таблице:</span>
+              <div className="inline-flex rounded-lg border border-white/10 bg-slate-900/60 p-0.5">
+                {([
+                  ["channel", "Пояс канала"],
+                  ["reference", `Опорное (${referenceTimezone})`]
+                ] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setTimeDisplay(mode)}
+                    className={`rounded-md px-2.5 py-1 transition ${
+                      timeDisplay === mode ? "bg-brand text-white" : "text-slate-300 hover:text-white"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <ChannelScheduleTable
               items={scheduleItems}
               onItemsUpdate={setScheduleItems}
@@ -1116,6 +1342,8 @@ const ChannelSchedulePage = () => {
               nextTime={nextTime}
               previousTime={previousTime}
               previousElapsedSeconds={previousElapsedSeconds}
+              referenceTimezone={referenceTimezone}
+              showReferenceTime={timeDisplay === "reference"}
             />
           </>
         )}
@@ -23,6 +23,7 @@ import { suggestTargetAudience } from "../../api/targetAudienceSuggestion";
 import { suggestForbiddenTopics } from "../../api/forbiddenTopicsSuggestion";
 import { suggestAdditionalPreferences } from "../../api/additionalPreferencesSuggestion";
 import { useToast } from "../../hooks/useToast";
+import { deleteChannelTemplate, fetchChannelTemplates, type ChannelTemplate } from "../../api/channelTemplates";
 
 const STEPS = [
   { id: 1, title: "Название канала" },
@@ -96,6 +97,26 @@ const TONES = [
   "Профессиональное"
 ];
 
+const createInitialFormData = (): ChannelCreatePayload => {
+  const empty = createEmptyChannel();
+  return {
+    name: empty.name,
+    platform: empty.platform,
+    language: empty.language,
+    targetDurationSec: empty.targetDurationSec,
+    niche: empty.niche,
+    audience: empty.audience,
+    tone: empty.tone,
+    blockedTopics: empty.blockedTopics,
+    extraNotes: empty.extraNotes,
+    generationMode: "video-prompt-only" as GenerationMode, // По умолчанию "video-prompt-only" для автоматизации
+    generationTransport: undefined, // Будет установлено после проверки Telegram статуса
+    youtubeUrl: empty.youtubeUrl || null,
+    tiktokUrl: empty.tiktokUrl || null,
+    instagramUrl: empty.instagramUrl || null
+  };
+};
+
 const ChannelWizardPage = () => {
   const navigate = useNavigate();
   const { user } = useAuthStore((state) => ({ user: state.user }));
@@ -149,25 +170,46 @@ const ChannelWizardPage = () => {
   const effectiveSteps = getEffectiveSteps();
   const totalSteps = effectiveSteps.length;
 
-  const [formData, setFormData] = useState<ChannelCreatePayload>(() => {
-    const empty = createEmptyChannel();
-    return {
-      name: empty.name,
-      platform: empty.platform,
-      language: empty.language,
-      targetDurationSec: empty.targetDurationSec,
-      niche: empty.niche,
-      audience: empty.audience,
-      tone: empty.tone,
-      blockedTopics: empty.blockedTopics,
-      extraNotes: empty.extraNotes,
-      generationMode: "video-prompt-only" as GenerationMode, // По умолчанию "video-prompt-only" для автоматизации
-      generationTransport: undefined, // Будет установлено после проверки Telegram статуса
-      youtubeUrl: empty.youtubeUrl || null,
-      tiktokUrl: empty.tiktokUrl || null,
-      instagramUrl: empty.instagramUrl || null
-    };
-  });
+  const [formData, setFormData] = useState<ChannelCreatePayload>(createInitialFormData);
+  const [templates, setTemplates] = useState<ChannelTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+
+  // Шаблоны каналов — необязательная стартовая точка, без них мастер работает как обычно
+  useEffect(() => {
+    if (!user?.uid) {
+      return;
+    }
+    fetchChannelTemplates()
+      .then(setTemplates)
+      .catch((err) => console.warn("Failed to load channel templates", err));
+  }, [user?.uid]);
+
+  // Заполняет поля мастера из шаблона; смена шаблона не оставляет поля предыдущего
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    setSelectedTemplateId(template ? template.id : "");
+    setFormData((prev) => ({
+      ...createInitialFormData(),
+      generationTransport: telegramStatus?.status === "active" ? "telegram_user" : "telegram_global",
+      ...template?.settings,
+      name: prev.name
+    }));
+  };
+
+  const handleTemplateDelete = async () => {
+    const template = templates.find((t) => t.id === selectedTemplateId);
+    if (!template || !window.confirm(`Удалить шаблон «${template.name}»?`)) {
+      return;
+    }
+    try {
+      await deleteChannelTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      // Поля, уже заполненные из шаблона, остаются в мастере
+      setSelectedTemplateId("");
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Не удалось удалить шаблон", 5000);
+    }
+  };
 
   // Загружаем статус Telegram и устанавливаем дефолт для generationTransport
   useEffect(() => {
@@ -338,17 +380,11 @@ const ChannelWizardPage = () => {
       setError(null);
 
       try {
-        // Получаем настройки пользователя для подстановки defaultBlottataApiKey
-        let defaultBlottataApiKey: string | undefined = undefined;
+        // Ключ Blotato по умолчанию хранится на сервере и применяется к каналам без своего ключа
         let hasDefaultBlotatoApiKey = false;
         try {
           const userSettings = await getUserSettings();
           hasDefaultBlotatoApiKey = userSettings.hasDefaultBlottataApiKey || false;
-          if (userSettings.hasDefaultBlottataApiKey && userSettings.defaultBlottataApiKey) {
-            defaultBlottataApiKey = userSettings.defaultBlottataApiKey === "****" 
-              ? undefined 
-              : userSettings.defaultBlottataApiKey;
-          }
         } catch (settingsError) {
           console.warn("Failed to load user settings for default Blotato API key", settingsError);
         }
@@ -357,20 +393,18 @@ const ChannelWizardPage = () => {
         const channelData: ChannelCreatePayload = {
           ...formData,
           generationTransport: formData.generationTransport || (telegramStatus?.status === "active" ? "telegram_user" : "telegram_global"),
-          // Включаем Blotato-публикацию для нового канала
-          blotataEnabled: true,
+          // Включаем Blotato-публикацию для нового канала, если шаблон не задал иное
+          blotataEnabled: formData.blotataEnabled ?? true,
           // Заполняем ID папок из созданных папок
           driveInputFolderId: rootFolderId,
           driveArchiveFolderId: archiveFolderId,
-          // Подставляем API-ключ из настроек пользователя, если он есть
-          blotataApiKey: defaultBlottataApiKey,
           googleDriveFolderId: rootFolderId
         };
         
         const newChannel = await createChannel(user.uid, channelData);
         
         // Если у пользователя нет сохранённого Blotato API-ключа, перенаправляем на страницу настройки
-        if (!hasDefaultBlotatoApiKey || !defaultBlottataApiKey) {
+        if (!hasDefaultBlotatoApiKey) {
           navigate(`/channels/${newChannel.id}/blotato-setup`, { replace: true });
         } else {
           // Если ключ есть, переходим к редактированию канала
@@ -605,29 +639,11 @@ const ChannelWizardPage = () => {
     setError(null);
 
     try {
-      // Получаем настройки пользователя для подстановки defaultBlottataApiKey
-      let defaultBlottataApiKey: string | undefined = undefined;
-      try {
-        const userSettings = await getUserSettings();
-        if (userSettings.hasDefaultBlottataApiKey && userSettings.defaultBlottataApiKey) {
-          // Если пользователь не указал явно blotataApiKey, используем значение по умолчанию
-          // Но если пользователь явно указал пустое значение, не подставляем
-          defaultBlottataApiKey = userSettings.defaultBlottataApiKey === "****" 
-            ? undefined 
-            : userSettings.defaultBlottataApiKey;
-        }
-      } catch (settingsError) {
-        // Игнорируем ошибки получения настроек - не критично
-        console.warn("Failed to load user settings for default Blottata API key", settingsError);
-      }
-
       // Убеждаемся, что generationTransport установлен (если не был установлен ранее)
       // Используем folderId из мастера, если они были созданы
       const channelData: ChannelCreatePayload = {
         ...formData,
         generationTransport: formData.generationTransport || (telegramStatus?.status === "active" ? "telegram_user" : "telegram_global"),
-        // Подставляем defaultBlottataApiKey только если он не был явно указан
-        blotataApiKey: formData.blotataApiKey || defaultBlottataApiKey,
         // Используем folderId из мастера, если они были созданы
         googleDriveFolderId: wizardDriveFolders?.rootFolderId || formData.googleDriveFolderId,
         driveInputFolderId: wizardDriveFolders?.rootFolderId || formData.driveInputFolderId,
@@ -639,7 +655,7 @@ const ChannelWizardPage = () => {
       // Проверяем, есть ли у пользователя Blotato API-ключ
       try {
         const userSettings = await getUserSettings();
-        if (!userSettings.hasDefaultBlottataApiKey || !userSettings.defaultBlottataApiKey) {
+        if (!userSettings.hasDefaultBlottataApiKey) {
           // Если API-ключа нет, перенаправляем на страницу настройки Blotato
           navigate(`/channels/${newChannel.id}/blotato-setup`, { replace: true });
           return;
@@ -723,6 +739,36 @@ const ChannelWizardPage = () => {
               className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm text-white outline-none transition-all placeholder:text-slate-500 focus:border-brand focus:ring-2 focus:ring-brand/40 focus:shadow-lg focus:shadow-brand/20 md:rounded-2xl md:px-5 md:py-3.5"
               autoFocus
             />
+            {templates.length > 0 && (
+              <label className="block space-y-1">
+                <span className="block text-xs font-medium text-slate-200 md:text-sm">Начать с шаблона</span>
+                <select
+                  value={selectedTemplateId}
+                  onChange={(e) => handleTemplateSelect(e.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm text-white outline-none focus:border-brand focus:ring-2 focus:ring-brand/40 md:rounded-2xl"
+                >
+                  <option value="">Без шаблона</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                      {template.sourceChannelName ? ` (из «${template.sourceChannelName}»)` : ""}
+                    </option>
+                  ))}
+                </select>
+                <span className="block text-xs text-slate-400">
+                  Следующие шаги будут заполнены из шаблона — их можно изменить
+                </span>
+                {selectedTemplateId && (
+                  <button
+                    type="button"
+                    onClick={handleTemplateDelete}
+                    className="text-xs text-red-400 transition hover:text-red-300"
+                  >
+                    Удалить шаблон
+                  </button>
+                )}
+              </label>
+            )}
             <p className="text-xs text-slate-400 md:text-sm">
               Это название будет отображаться в списке ваших каналов
             </p>
@@ -19,7 +19,14 @@ import {
 } from "../../services/openaiScriptGenerator";
 import { sendPromptToSyntx } from "../../api/telegram";
 import type { Channel } from "../../domain/channel";
+import type { GenerationHistoryEntry } from "../../domain/generationHistory";
 import { updatePreferenceIndex } from "../../utils/preferencesUtils";
+import { generationHistoryRepository } from "../../repositories/generationHistoryRepository";
+import {
+  buildHistoryPayloadFromDetailed,
+  buildHistoryPayloadFromShortScript
+} from "../../utils/generationHistory";
+import GenerationHistoryPanel from "../../components/GenerationHistoryPanel";
 
 const ScriptGenerationPage = () => {
   const { channelId } = useParams<{ channelId: string }>();
@@ -45,6 +52,7 @@ const ScriptGenerationPage = () => {
     null | "sending" | "sent" | "error"
   >(null);
   const [syntxError, setSyntxError] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   useEffect(() => {
     if (!user?.uid || !channelId) {
@@ -102,9 +110,21 @@ const ScriptGenerationPage = () => {
       if (mode === "prompt" || mode === "video-prompt-only") {
         const result = await generateDetailedScripts(currentChannel, idea.trim());
         setDetailedResult(result);
+        await saveToHistory(() =>
+          generationHistoryRepository.addEntry(
+            user.uid,
+            buildHistoryPayloadFromDetailed(currentChannel, result, idea)
+          )
+        );
       } else {
         const result = await generateShortScript(currentChannel, idea.trim());
         setScript(result);
+        await saveToHistory(() =>
+          generationHistoryRepository.addEntry(
+            user.uid,
+            buildHistoryPayloadFromShortScript(currentChannel, result, idea)
+          )
+        );
       }
 
       // Обновляем индекс preferences после успешной генерации
@@ -137,6 +157,52 @@ const ScriptGenerationPage = () => {
     }
   };
 
+  /**
+   * Сохраняет результат в историю генераций.
+   * Ошибка сохранения не должна скрывать уже полученный результат.
+   */
+  const saveToHistory = async (save: () => Promise<unknown>) => {
+    try {
+      await save();
+      setHistoryRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error("Не удалось сохранить генерацию в историю:", err);
+    }
+  };
+
+  const handleOpenHistoryEntry = (entry: GenerationHistoryEntry) => {
+    setError(null);
+    setSyntxSendStatus(null);
+    setSyntxError(null);
+
+    if (entry.kind === "short-script" && entry.sections) {
+      setDetailedResult(null);
+      setScript({
+        sections: entry.sections,
+        rawText: JSON.stringify(entry.sections, null, 2),
+        model: entry.model ?? undefined,
+        preferenceVariant: entry.preferenceVariant
+      });
+    } else if (entry.kind === "detailed") {
+      setScript(null);
+      setDetailedResult({
+        mode: entry.mode,
+        scenarios: entry.scenarios,
+        videoPrompt: entry.videoPrompt,
+        fileTitle: entry.fileTitle ?? undefined,
+        rawText: "",
+        model: entry.model ?? undefined,
+        preferenceVariant: entry.preferenceVariant
+      });
+    } else {
+      // Для ИИ-идей подставляем идею в форму, чтобы сгенерировать по ней сценарий
+      setScript(null);
+      setDetailedResult(null);
+      setIdea(entry.idea ?? "");
+    }
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const handleCopy = async () => {
     if (detailedResult) {
       // Копирование детальных сценариев
@@ -668,6 +734,17 @@ ${script.sections.sounds || "—"}`;
             )}
           </div>
         )}
+
+        {user?.uid && (
+          <div className="mt-8">
+            <GenerationHistoryPanel
+              channel={channel}
+              userId={user.uid}
+              refreshKey={historyRefreshKey}
+              onOpen={handleOpenHistoryEntry}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -14,6 +14,7 @@ import {
 import { db } from "../services/firebase";
 import type { Channel, ChannelCreatePayload, ChannelAutoSendSchedule } from "../domain/channel";
 import { channelConverter } from "../domain/channel";
+import { saveChannelSchedules } from "../api/channelSchedule";
 
 /**
  * Создаёт 4 расписания по умолчанию для нового канала
@@ -110,10 +111,8 @@ export const channelRepository: ChannelRepository = {
       telegramAutoScheduleEnabled: data.telegramAutoScheduleEnabled ?? false,
       // Для новых каналов: autoSendEnabled по умолчанию true, если не указано явно
       autoSendEnabled: data.autoSendEnabled !== undefined ? data.autoSendEnabled : true,
-      // Создаём 4 расписания по умолчанию, если расписаний нет
-      autoSendSchedules: data.autoSendSchedules && data.autoSendSchedules.length > 0 
-        ? data.autoSendSchedules 
-        : createDefaultSchedules(),
+      // Расписания сохраняются ниже через backend, где проверяются правила и минимальный интервал
+      autoSendSchedules: [],
       // Для новых каналов: autoDownloadToDriveEnabled по умолчанию true, если не указано явно
       autoDownloadToDriveEnabled: data.autoDownloadToDriveEnabled !== undefined ? data.autoDownloadToDriveEnabled : true,
       autoDownloadDelayMinutes: data.autoDownloadDelayMinutes ?? 10,
@@ -123,7 +122,6 @@ export const channelRepository: ChannelRepository = {
       blotataEnabled: data.blotataEnabled !== undefined ? data.blotataEnabled : true,
       driveInputFolderId: data.driveInputFolderId,
       driveArchiveFolderId: data.driveArchiveFolderId,
-      blotataApiKey: data.blotataApiKey,
       orderIndex,
       createdAt: serverTimestamp() as any,
       updatedAt: serverTimestamp() as any,
@@ -133,12 +131,48 @@ export const channelRepository: ChannelRepository = {
       tiktokUrl: data.tiktokUrl,
       instagramUrl: data.instagramUrl,
       googleDriveFolderId: data.googleDriveFolderId,
+      // Поля, которые приходят из шаблона канала, если мастер начат с шаблона
+      preferences: data.preferences,
+      telegramSyntaxPeer: data.telegramSyntaxPeer,
+      llmProvider: data.llmProvider,
+      missedRunPolicy: data.missedRunPolicy,
+      blackoutPeriods: data.blackoutPeriods,
+      scheduleConstraints: data.scheduleConstraints,
+      blotataYoutubeId: data.blotataYoutubeId,
+      blotataTiktokId: data.blotataTiktokId,
+      blotataInstagramId: data.blotataInstagramId,
+      blotataFacebookId: data.blotataFacebookId,
+      blotataFacebookPageId: data.blotataFacebookPageId,
+      blotataThreadsId: data.blotataThreadsId,
+      blotataTwitterId: data.blotataTwitterId,
+      blotataLinkedinId: data.blotataLinkedinId,
+      blotataPinterestId: data.blotataPinterestId,
+      blotataPinterestBoardId: data.blotataPinterestBoardId,
+      blotataBlueskyId: data.blotataBlueskyId,
+      platformPublishers: data.platformPublishers,
+      publishWebhookUrl: data.publishWebhookUrl,
+      publishSchedule: data.publishSchedule,
+      postTemplates: data.postTemplates,
+      hashtagLibrary: data.hashtagLibrary,
       // Для новых каналов: timezone по умолчанию "Asia/Almaty", если не указано явно
       timezone: data.timezone || "Asia/Almaty"
     };
     
     // addDoc с конвертером автоматически вызовет toFirestore(), который отфильтрует undefined
     const docRef = await addDoc(col, tempChannel);
+
+    // Создаём 4 расписания по умолчанию, если расписаний нет.
+    // Времена, пересекающиеся с другими каналами, сервер сдвигает, чтобы создание канала не упиралось в конфликт
+    const schedules = data.autoSendSchedules && data.autoSendSchedules.length > 0
+      ? data.autoSendSchedules
+      : createDefaultSchedules();
+    try {
+      await saveChannelSchedules(docRef.id, schedules, { shiftConflicts: true });
+    } catch (error) {
+      // Не оставляем канал без расписаний: повторное создание не должно давать дубликат
+      await deleteDoc(docRef);
+      throw error;
+    }
     const createdSnap = await getDoc(docRef.withConverter(channelConverter));
     if (!createdSnap.exists()) {
       throw new Error("Не удалось создать канал");
@@ -170,8 +204,9 @@ export const channelRepository: ChannelRepository = {
     
     if (docSnap.exists()) {
       // Документ существует - обновляем его
-      // Удаляем createdAt из обновления, так как это поле не должно изменяться
-      const { createdAt, ...updateData } = firestoreData;
+      // Удаляем createdAt из обновления, так как это поле не должно изменяться.
+      // Расписания меняются только через saveChannelSchedules: сервер проверяет их правила и интервалы
+      const { createdAt, autoSendSchedules, ...updateData } = firestoreData;
       await updateDoc(docRef, updateData);
     } else {
       // Документ не существует - создаём новый с помощью setDoc
@@ -0,0 +1,76 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit as limitQuery,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc
+} from "firebase/firestore";
+import { db } from "../services/firebase";
+import type {
+  GenerationHistoryCreatePayload,
+  GenerationHistoryEntry
+} from "../domain/generationHistory";
+import { generationHistoryConverter } from "../domain/generationHistory";
+
+// Сколько последних генераций подгружаем в панель истории
+const DEFAULT_HISTORY_LIMIT = 200;
+
+const historyCollection = (uid: string, channelId: string) =>
+  collection(db, "users", uid, "channels", channelId, "generationHistory").withConverter(
+    generationHistoryConverter
+  );
+
+export interface GenerationHistoryRepository {
+  getEntries: (uid: string, channelId: string, max?: number) => Promise<GenerationHistoryEntry[]>;
+  addEntry: (uid: string, payload: GenerationHistoryCreatePayload) => Promise<GenerationHistoryEntry>;
+  setStarred: (uid: string, channelId: string, entryId: string, starred: boolean) => Promise<void>;
+  markSentToSyntx: (uid: string, channelId: string, entryId: string) => Promise<void>;
+  deleteEntry: (uid: string, channelId: string, entryId: string) => Promise<void>;
+}
+
+export const generationHistoryRepository: GenerationHistoryRepository = {
+  async getEntries(uid, channelId, max = DEFAULT_HISTORY_LIMIT) {
+    const snapshot = await getDocs(
+      query(historyCollection(uid, channelId), orderBy("createdAt", "desc"), limitQuery(max))
+    );
+    return snapshot.docs.map((docSnap) => docSnap.data());
+  },
+
+  async addEntry(uid, payload) {
+    const entry: GenerationHistoryEntry = {
+      id: "", // Временный id, будет заменён Firestore
+      ...payload,
+      starred: false,
+      lastSentToSyntxAt: null,
+      createdAt: serverTimestamp() as unknown as Timestamp
+    };
+    const docRef = await addDoc(historyCollection(uid, payload.channelId), entry);
+    const createdSnap = await getDoc(docRef);
+    if (!createdSnap.exists()) {
+      throw new Error("Не удалось сохранить генерацию в историю");
+    }
+    return createdSnap.data();
+  },
+
+  async setStarred(uid, channelId, entryId, starred) {
+    const docRef = doc(db, "users", uid, "channels", channelId, "generationHistory", entryId);
+    await updateDoc(docRef, { starred });
+  },
+
+  async markSentToSyntx(uid, channelId, entryId) {
+    const docRef = doc(db, "users", uid, "channels", channelId, "generationHistory", entryId);
+    await updateDoc(docRef, { lastSentToSyntxAt: serverTimestamp() });
+  },
+
+  async deleteEntry(uid, channelId, entryId) {
+    const docRef = doc(db, "users", uid, "channels", channelId, "generationHistory", entryId);
+    await deleteDoc(docRef);
+  }
+};
@@ -19,6 +19,8 @@ import NotificationsPage from "./pages/Notifications/NotificationsPage";
 import GoogleDriveCallbackPage from "./pages/GoogleDriveCallback/GoogleDriveCallbackPage";
 import BlotatoSetupPage from "./pages/BlotatoSetup/BlotatoSetupPage";
 import ErrorLogsPage from "./pages/ErrorLogs/ErrorLogsPage";
+import ChannelRunsPage from "./pages/ChannelRuns/ChannelRunsPage";
+import ChannelCalendarPage from "./pages/ChannelCalendar/ChannelCalendarPage";
 import { useAuthStore } from "./stores/authStore";
 
 const FullscreenLoader = () => (
@@ -124,6 +126,14 @@ const AppRouter = () => {
         </PrivateRoute>
       }
     />
+    <Route
+      path="/channels/calendar"
+      element={
+        <PrivateRoute>
+          <ChannelCalendarPage />
+        </PrivateRoute>
+      }
+    />
     <Route
       path="/channels/:channelId/edit"
       element={
@@ -148,6 +158,14 @@ const AppRouter = () => {
         </PrivateRoute>
       }
     />
+    <Route
+      path="/channels/:channelId/runs"
+      element={
+        <PrivateRoute>
+          <ChannelRunsPage />
+        </PrivateRoute>
+      }
+    />
     <Route
       path="/notifications"
       element={
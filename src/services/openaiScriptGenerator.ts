@@ -61,6 +61,22 @@ async function getAuthToken(forceRefresh = false): Promise<string> {
   }
 }
 
+/**
+ * Понятные сообщения для кодов ошибок прокси (поле code в ответе backend).
+ * serverMessage — текст ошибки от backend, если он уже понятен пользователю.
+ */
+const PROXY_ERROR_MESSAGES: Record<string, (serverMessage: string, data: any) => string> = {
+  RATE_LIMITED: (_message, data) =>
+    `Слишком много запросов к генерации. Подождите ${data.retryAfterSec ?? 60} с и попробуйте снова.`,
+  QUOTA_EXCEEDED: (message) => `${message} Расход и лимиты — в настройках аккаунта.`,
+  MAX_TOKENS_TOO_LARGE: () => "Запрошен слишком длинный ответ. Уменьшите объём генерации.",
+  MESSAGES_TOO_LARGE: () => "Запрос слишком большой: сократите пожелания канала или описание идеи.",
+  TOOLS_NOT_ALLOWED: () => "Запрос отклонён сервером: вызов инструментов не поддерживается.",
+  UNKNOWN_FIELD: (message) => `Некорректный запрос к генерации: ${message}`,
+  INVALID_REQUEST: (message) => `Некорректный запрос к генерации: ${message}`,
+  PROVIDER_NOT_CONFIGURED: () => "Генерация текста не настроена на сервере. Обратитесь к администратору."
+};
+
 /**
  * Выполняет запрос к OpenAI через backend с автоматической авторизацией.
  * 
@@ -183,6 +199,12 @@ async function callOpenAIProxy(
         );
       }
 
+      // Ошибки с кодом: валидация запроса, частота, лимиты расхода
+      const mapProxyError = typeof data.code === "string" ? PROXY_ERROR_MESSAGES[data.code] : undefined;
+      if (mapProxyError) {
+        throw new Error(mapProxyError(getErrorMessage(data.error), data));
+      }
+
       // Обработка других ошибок
       const errorMsg = getErrorMessage(data.error) || getErrorMessage(data.message);
       throw new Error(
@@ -209,12 +231,16 @@ export interface ScriptSection {
 export interface GeneratedScript {
   sections: ScriptSection;
   rawText: string;
+  model?: string; // Модель OpenAI, которой сгенерирован результат
+  preferenceVariant?: string | null; // Вариант пожеланий, подставленный в промпт
 }
 
 export interface AutoGeneratedResult {
   idea: string;
   scripts: string[];
   rawText: string;
+  model?: string;
+  preferenceVariant?: string | null;
 }
 
 // Новый формат для детальных сценариев
@@ -242,6 +268,8 @@ export interface GenerationResponse {
   videoPrompt: string | null;
   fileTitle?: string; // Короткое название ролика для использования как имя файла
   rawText: string;
+  model?: string;
+  preferenceVariant?: string | null;
 }
 
 const PLATFORM_NAMES: Record<Channel["platform"], string> = {
@@ -290,7 +318,18 @@ const LANGUAGE_NAMES: Record<Channel["language"], string> = {
   kk: "қазақ"
 };
 
-function buildSystemPrompt(channel: Channel): string {
+/**
+ * Выбирает вариант пожеланий один раз на генерацию,
+ * чтобы в промпт и в историю генераций попал один и тот же текст
+ * (в режиме random повторный вызов вернул бы другой вариант)
+ */
+function resolvePreferenceText(channel: Channel): string {
+  return channel.preferences
+    ? getCurrentPreferenceVariant(channel.preferences)
+    : channel.extraNotes || "";
+}
+
+function buildSystemPrompt(channel: Channel, preferenceText: string): string {
   const platformName = PLATFORM_NAMES[channel.platform];
   const languageName = LANGUAGE_NAMES[channel.language];
 
@@ -305,12 +344,7 @@ function buildSystemPrompt(channel: Channel): string {
 **Целевая аудитория:** ${channel.audience}
 **Тон/Стиль:** ${channel.tone}
 ${channel.blockedTopics ? `**Запрещённые темы:** ${channel.blockedTopics}` : ""}
-${(() => {
-  const preferenceText = channel.preferences 
-    ? getCurrentPreferenceVariant(channel.preferences)
-    : channel.extraNotes;
-  return preferenceText ? `**Дополнительные пожелания:** ${preferenceText}` : "";
-})()}
+${preferenceText ? `**Дополнительные пожелания:** ${preferenceText}` : ""}
 
 **Требования к формату ответа:**
 
@@ -369,7 +403,8 @@ export async function generateShortScript(
   channel: Channel,
   idea: string
 ): Promise<GeneratedScript> {
-  const systemPrompt = buildSystemPrompt(channel);
+  const preferenceText = resolvePreferenceText(channel);
+  const systemPrompt = buildSystemPrompt(channel, preferenceText);
   const userPrompt = `Создай сценарий для короткого видео на тему: "${idea}"`;
 
   const model = import.meta.env.VITE_OPENAI_MODEL || "gpt-4o-mini";
@@ -379,6 +414,7 @@ export async function generateShortScript(
   
   const requestBody: Record<string, unknown> = {
     model,
+    channelId: channel.id, // провайдер LLM выбирается по настройкам канала
     messages: [
       {
         role: "system",
@@ -409,7 +445,9 @@ export async function generateShortScript(
 
     return {
       sections,
-      rawText: content
+      rawText: content,
+      model,
+      preferenceVariant: preferenceText || null
     };
   } catch (error) {
     if (error instanceof Error) {
@@ -419,15 +457,10 @@ export async function generateShortScript(
   }
 }
 
-function buildAutoGeneratePrompt(channel: Channel): string {
+function buildAutoGeneratePrompt(channel: Channel, preferenceText: string): string {
   const platformName = PLATFORM_NAMES[channel.platform];
   const languageName = LANGUAGE_NAMES[channel.language];
 
-  // Получаем вариант пожеланий
-  const preferenceText = channel.preferences 
-    ? getCurrentPreferenceVariant(channel.preferences)
-    : channel.extraNotes;
-
   // Логируем для отладки
   if (import.meta.env.DEV) {
     console.log("🔍 buildAutoGeneratePrompt - Channel context:", {
@@ -640,7 +673,8 @@ function parseAutoGenerateResponse(responseText: string): AutoGeneratedResult {
 export async function generateAutoIdeaAndScripts(
   channel: Channel
 ): Promise<AutoGeneratedResult> {
-  const systemPrompt = buildAutoGeneratePrompt(channel);
+  const preferenceText = resolvePreferenceText(channel);
+  const systemPrompt = buildAutoGeneratePrompt(channel, preferenceText);
   
   // Персонализированный user prompt с акцентом на уникальность
   const userPrompt = channel.name 
@@ -653,6 +687,7 @@ export async function generateAutoIdeaAndScripts(
   
   const requestBody: Record<string, unknown> = {
     model,
+    channelId: channel.id,
     messages: [
       {
         role: "system",
@@ -682,7 +717,11 @@ export async function generateAutoIdeaAndScripts(
 
     const result = parseAutoGenerateResponse(content);
 
-    return result;
+    return {
+      ...result,
+      model,
+      preferenceVariant: preferenceText || null
+    };
   } catch (error) {
     // Логируем ошибку для отладки
     console.error("generateAutoIdeaAndScripts error:", error);
@@ -695,7 +734,11 @@ export async function generateAutoIdeaAndScripts(
   }
 }
 
-function buildDetailedScriptPrompt(channel: Channel, idea?: string): string {
+function buildDetailedScriptPrompt(
+  channel: Channel,
+  preferenceText: string,
+  idea?: string
+): string {
   const platformName = PLATFORM_NAMES[channel.platform];
   const languageName = LANGUAGE_NAMES[channel.language];
   const mode = channel.generationMode || "script";
@@ -714,12 +757,7 @@ function buildDetailedScriptPrompt(channel: Channel, idea?: string): string {
 - Целевая аудитория: ${channel.audience}
 - Тон/Стиль: ${channel.tone}
 ${channel.blockedTopics ? `- Запрещённые темы: ${channel.blockedTopics}` : ""}
-${(() => {
-  const preferenceText = channel.preferences 
-    ? getCurrentPreferenceVariant(channel.preferences)
-    : channel.extraNotes;
-  return preferenceText ? `- Дополнительные пожелания: ${preferenceText}` : "";
-})()}
+${preferenceText ? `- Дополнительные пожелания: ${preferenceText}` : ""}
 
 ${ideaPart}
 
@@ -764,12 +802,7 @@ ${ideaPart}
 - Используй тон "${channel.tone}"
 - Адаптируй под специфику ${platformName}
 ${channel.blockedTopics ? `- Избегай тем: ${channel.blockedTopics}` : ""}
-${(() => {
-  const preferenceText = channel.preferences 
-    ? getCurrentPreferenceVariant(channel.preferences)
-    : channel.extraNotes;
-  return preferenceText ? `- Учитывай дополнительные пожелания: ${preferenceText}` : "";
-})()}
+${preferenceText ? `- Учитывай дополнительные пожелания: ${preferenceText}` : ""}
 
 Верни ТОЛЬКО валидный JSON, без дополнительных комментариев.`;
 }
@@ -1123,6 +1156,7 @@ export async function generateDetailedScripts(
 
     const videoRequestBody: Record<string, unknown> = {
       model,
+      channelId: channel.id,
       messages: [
         {
           role: "system",
@@ -1180,7 +1214,10 @@ export async function generateDetailedScripts(
         scenarios: [], // Пустой массив сценариев
         videoPrompt,
         fileTitle,
-        rawText: responseContent
+        rawText: responseContent,
+        model,
+        // В этом режиме пожелания канала в промпт не подставляются
+        preferenceVariant: null
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -1191,10 +1228,12 @@ export async function generateDetailedScripts(
   }
 
   // Генерация сценариев (для режимов "script" и "prompt")
-  const scriptPrompt = buildDetailedScriptPrompt(channel, idea);
+  const preferenceText = resolvePreferenceText(channel);
+  const scriptPrompt = buildDetailedScriptPrompt(channel, preferenceText, idea);
 
   const scriptRequestBody: Record<string, unknown> = {
     model,
+    channelId: channel.id,
     messages: [
       {
         role: "system",
@@ -1234,6 +1273,7 @@ export async function generateDetailedScripts(
 
       const videoRequestBody: Record<string, unknown> = {
         model,
+        channelId: channel.id,
         messages: [
           {
             role: "system",
@@ -1261,7 +1301,9 @@ export async function generateDetailedScripts(
       mode,
       scenarios,
       videoPrompt,
-      rawText: scriptContent
+      rawText: scriptContent,
+      model,
+      preferenceVariant: preferenceText || null
     };
   } catch (error) {
     // Логируем ошибку для отладки
@@ -103,11 +103,14 @@ export type ActiveSlotResult = {
  * Слот активен ТОЛЬКО в течение minIntervalMinutes после своего времени
  * @param items - список каналов с расписанием
  * @param minIntervalMinutes - минимальный интервал между публикациями (в минутах)
+ * @param currentMinutes - текущее время в минутах того же часового пояса, что и времена items
+ *   (по умолчанию — время браузера)
  * @returns результат с активным временем и минутами
  */
 export function calculateActiveTime(
   items: ChannelScheduleItem[],
-  minIntervalMinutes: number
+  minIntervalMinutes: number,
+  currentMinutes?: number
 ): ActiveSlotResult {
   if (items.length === 0) {
     return { activeTime: null, activeMinutes: null };
@@ -122,7 +125,7 @@ export function calculateActiveTime(
   
   // Получаем текущее время в минутах от начала суток
   const now = new Date();
-  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const nowMinutes = currentMinutes ?? now.getHours() * 60 + now.getMinutes();
   
   // Валидируем minIntervalMinutes
   const validInterval = Math.max(1, Math.min(60, minIntervalMinutes || 11));
@@ -0,0 +1,70 @@
+import { formatLocalDateKey, type LocalDate } from "./scheduleRules";
+
+/**
+ * Периоды блокировки автоматизации (отпуска, праздники, импортированные календари).
+ * Повторяет backend/src/utils/blackoutPeriods.ts: в заблокированные дни
+ * не отправляются промпты и не публикуются ролики.
+ */
+export type BlackoutPeriod =
+  | {
+      id: string;
+      type: "range";
+      label: string;
+      startDate: string; // "YYYY-MM-DD"
+      endDate: string; // "YYYY-MM-DD" включительно
+      source?: string | null; // имя импортированного ICS-календаря
+    }
+  | {
+      id: string;
+      type: "annual";
+      label: string;
+      startMonthDay: string; // "MM-DD"
+      endMonthDay: string; // "MM-DD" включительно
+      source?: string | null;
+    };
+
+/**
+ * Возвращает первый период, блокирующий указанную локальную дату, или null
+ */
+export function findBlackoutForDate(
+  periods: BlackoutPeriod[] | null | undefined,
+  date: Pick<LocalDate, "year" | "month" | "day">
+): BlackoutPeriod | null {
+  if (!periods || periods.length === 0) {
+    return null;
+  }
+  const key = formatLocalDateKey(date);
+  const monthDay = key.slice(5);
+
+  for (const period of periods) {
+    if (period.type === "range") {
+      if (key >= period.startDate && key <= period.endDate) {
+        return period;
+      }
+    } else if (period.type === "annual") {
+      const { startMonthDay: start, endMonthDay: end } = period;
+      const inside = start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end;
+      if (inside) {
+        return period;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Краткое описание периода для списков
+ */
+export function describeBlackoutPeriod(period: BlackoutPeriod): string {
+  if (period.type === "annual") {
+    const [startMonth, startDay] = period.startMonthDay.split("-");
+    const [endMonth, endDay] = period.endMonthDay.split("-");
+    const start = `${startDay}.${startMonth}`;
+    const end = `${endDay}.${endMonth}`;
+    return start === end ? `Ежегодно ${start}` : `Ежегодно ${start}–${end}`;
+  }
+  const format = (date: string) => date.split("-").reverse().join(".");
+  return period.startDate === period.endDate
+    ? format(period.startDate)
+    : `${format(period.startDate)}–${format(period.endDate)}`;
+}
@@ -2,7 +2,7 @@ export interface BlotatoPublishSettings {
   enabled: boolean;
   inputFolderId?: string | null;
   archiveFolderId?: string | null;
-  blotatoApiKey?: string | null;
+  hasBlotatoApiKey?: boolean; // ключ канала или пользователя по умолчанию в хранилище секретов
   youtubeId?: string | null;
   tiktokId?: string | null;
   instagramId?: string | null;
@@ -10,6 +10,7 @@ export interface BlotatoPublishSettings {
   threadsId?: string | null;
   pinterestId?: string | null;
   blueskyId?: string | null;
+  directPlatforms?: number; // платформы, назначенные публикаторам помимо Blotato
 }
 
 export type BlotatoStatus =
@@ -20,7 +21,7 @@ export type BlotatoStatus =
  * Проверяет статус настройки автопубликации через Blotato
  */
 export function getBlotatoPublishStatus(settings: BlotatoPublishSettings): BlotatoStatus {
-  const { enabled, inputFolderId, archiveFolderId, blotatoApiKey, youtubeId, tiktokId, instagramId, facebookId, threadsId, pinterestId, blueskyId } = settings;
+  const { enabled, inputFolderId, archiveFolderId, hasBlotatoApiKey, youtubeId, tiktokId, instagramId, facebookId, threadsId, pinterestId, blueskyId, directPlatforms = 0 } = settings;
 
   // Если автопубликация выключена
   if (!enabled) {
@@ -42,10 +43,6 @@ export function getBlotatoPublishStatus(settings: BlotatoPublishSettings): Blota
     missing.push('ID папки архива Google Drive');
   }
 
-  if (!blotatoApiKey || blotatoApiKey.trim() === '') {
-    missing.push('Blotato API key');
-  }
-
   // Проверяем, есть ли хотя бы один ID соцсети
   const hasSocialMediaId = !!(
     youtubeId?.trim() ||
@@ -57,7 +54,12 @@ export function getBlotatoPublishStatus(settings: BlotatoPublishSettings): Blota
     blueskyId?.trim()
   );
 
-  if (!hasSocialMediaId) {
+  // Ключ Blotato не нужен, если все платформы публикуются другими публикаторами
+  if (!hasBlotatoApiKey && (hasSocialMediaId || directPlatforms === 0)) {
+    missing.push('Blotato API key');
+  }
+
+  if (!hasSocialMediaId && directPlatforms === 0) {
     missing.push('ID хотя бы одной соцсети (YouTube/TikTok/Instagram и т.д.)');
   }
 
@@ -0,0 +1,67 @@
+/**
+ * Сетка календаря публикаций. Дни задаются ключами "YYYY-MM-DD",
+ * неделя начинается с понедельника.
+ */
+export type CalendarView = "week" | "month";
+
+export interface CalendarDay {
+  key: string; // "YYYY-MM-DD"
+  date: Date; // полночь по локальному времени браузера
+  inCurrentMonth: boolean;
+}
+
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7; // 0 = понедельник
+  return addDays(date, -offset);
+}
+
+/**
+ * Дни сетки для недели или месяца, в который попадает anchor
+ */
+export function getCalendarDays(anchor: Date, view: CalendarView): CalendarDay[] {
+  if (view === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(start, i);
+      return { key: toDateKey(date), date, inCurrentMonth: true };
+    });
+  }
+
+  const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = startOfWeek(firstOfMonth);
+  const end = addDays(startOfWeek(lastOfMonth), 6);
+  const days: CalendarDay[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    days.push({ key: toDateKey(date), date, inCurrentMonth: date.getMonth() === anchor.getMonth() });
+  }
+  return days;
+}
+
+/**
+ * Соседняя неделя или месяц
+ */
+export function shiftCalendarAnchor(anchor: Date, view: CalendarView, direction: -1 | 1): Date {
+  return view === "week"
+    ? addDays(anchor, 7 * direction)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+}
+
+/**
+ * Диапазон запроса к API: сетка плюс день с каждой стороны,
+ * потому что даты событий считаются в часовом поясе канала, а не браузера
+ */
+export function getCalendarFetchRange(days: CalendarDay[]): { from: Date; to: Date } {
+  return {
+    from: addDays(days[0].date, -1),
+    to: addDays(days[days.length - 1].date, 2)
+  };
+}
@@ -0,0 +1,142 @@
+import type { Channel, GenerationMode } from "../domain/channel";
+import type {
+  GenerationHistoryCreatePayload,
+  GenerationHistoryEntry
+} from "../domain/generationHistory";
+import type {
+  AutoGeneratedResult,
+  GeneratedScript,
+  GenerationResponse
+} from "../services/openaiScriptGenerator";
+
+/**
+ * Преобразует результат генерации в запись истории канала
+ */
+export function buildHistoryPayloadFromDetailed(
+  channel: Channel,
+  result: GenerationResponse,
+  idea?: string
+): GenerationHistoryCreatePayload {
+  return {
+    channelId: channel.id,
+    kind: "detailed",
+    mode: result.mode,
+    idea: idea?.trim() || null,
+    scenarios: result.scenarios,
+    scripts: [],
+    sections: null,
+    videoPrompt: result.videoPrompt,
+    fileTitle: result.fileTitle ?? null,
+    model: result.model ?? null,
+    preferenceVariant: result.preferenceVariant ?? null
+  };
+}
+
+export function buildHistoryPayloadFromShortScript(
+  channel: Channel,
+  result: GeneratedScript,
+  idea: string
+): GenerationHistoryCreatePayload {
+  return {
+    channelId: channel.id,
+    kind: "short-script",
+    mode: channel.generationMode || "script",
+    idea: idea.trim() || null,
+    scenarios: [],
+    scripts: [],
+    sections: result.sections,
+    videoPrompt: null,
+    fileTitle: null,
+    model: result.model ?? null,
+    preferenceVariant: result.preferenceVariant ?? null
+  };
+}
+
+export function buildHistoryPayloadFromAutoIdea(
+  channel: Channel,
+  result: AutoGeneratedResult
+): GenerationHistoryCreatePayload {
+  return {
+    channelId: channel.id,
+    kind: "auto-idea",
+    mode: channel.generationMode || "script",
+    idea: result.idea || null,
+    scenarios: [],
+    scripts: result.scripts,
+    sections: null,
+    videoPrompt: null,
+    fileTitle: null,
+    model: result.model ?? null,
+    preferenceVariant: result.preferenceVariant ?? null
+  };
+}
+
+export interface GenerationHistoryFilters {
+  search: string;
+  mode: GenerationMode | "all";
+  dateFrom: string; // "YYYY-MM-DD" или пустая строка
+  dateTo: string; // "YYYY-MM-DD" или пустая строка
+  starredOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTERS: GenerationHistoryFilters = {
+  search: "",
+  mode: "all",
+  dateFrom: "",
+  dateTo: "",
+  starredOnly: false
+};
+
+/**
+ * Собирает весь текст записи в одну строку для полнотекстового поиска
+ */
+function getSearchableText(entry: GenerationHistoryEntry): string {
+  const parts: Array<string | null> = [
+    entry.idea,
+    entry.fileTitle,
+    entry.videoPrompt,
+    entry.preferenceVariant,
+    ...entry.scripts,
+    ...entry.scenarios.map((scenario) => scenario.title),
+    ...entry.scenarios.flatMap((scenario) =>
+      scenario.steps.map((step) => step.description)
+    )
+  ];
+  if (entry.sections) {
+    parts.push(...Object.values(entry.sections));
+  }
+  return parts.filter(Boolean).join("\n").toLowerCase();
+}
+
+/**
+ * Фильтрует историю генераций по тексту, режиму, датам и избранному.
+ * Даты сравниваются в локальном времени браузера, границы включительно.
+ */
+export function filterGenerationHistory(
+  entries: GenerationHistoryEntry[],
+  filters: GenerationHistoryFilters
+): GenerationHistoryEntry[] {
+  const search = filters.search.trim().toLowerCase();
+  const fromMs = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : null;
+  const toMs = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : null;
+
+  return entries.filter((entry) => {
+    if (filters.starredOnly && !entry.starred) {
+      return false;
+    }
+    if (filters.mode !== "all" && entry.mode !== filters.mode) {
+      return false;
+    }
+    const createdMs = entry.createdAt.toMillis();
+    if (fromMs !== null && createdMs < fromMs) {
+      return false;
+    }
+    if (toMs !== null && createdMs > toMs) {
+      return false;
+    }
+    if (search && !getSearchableText(entry).includes(search)) {
+      return false;
+    }
+    return true;
+  });
+}
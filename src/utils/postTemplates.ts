@@ -0,0 +1,129 @@
+import { MAX_YOUTUBE_TITLE_LENGTH, normalizeYoutubeTitle } from "./youtubeTitleNormalizer";
+
+/**
+ * Шаблоны подписей и заголовков постов по платформам.
+ * Повторяет backend/src/utils/postTemplates.ts: по нему строится предпросмотр поста.
+ * Заголовок YouTube обрезается тем же normalizeYoutubeTitle, что и при публикации.
+ */
+export interface PostTemplate {
+  title?: string | null; // заголовок (YouTube, Pinterest)
+  caption?: string | null;
+  hashtags?: string[] | null;
+}
+
+export type PostTemplates = Partial<Record<string, PostTemplate>>;
+
+export interface PostTemplateVariables {
+  title: string;
+  description: string;
+  idea: string;
+  channelName: string;
+  date: string;
+}
+
+export interface PlatformPost {
+  title: string;
+  caption: string;
+}
+
+export const DEFAULT_POST_TEMPLATE_KEY = "default";
+
+export const POST_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: "title", description: "заголовок от LLM" },
+  { name: "description", description: "подпись от LLM" },
+  { name: "idea", description: "идея ролика" },
+  { name: "channelName", description: "название канала" },
+  { name: "date", description: "дата публикации" },
+  { name: "hashtags", description: "набор хештегов" }
+];
+
+export const PLATFORM_CAPTION_LIMITS: Record<string, number> = {
+  youtube: 5000,
+  tiktok: 2200,
+  instagram: 2200,
+  facebook: 63206,
+  threads: 500,
+  twitter: 280,
+  linkedin: 3000,
+  pinterest: 500,
+  bluesky: 300
+};
+
+export const PLATFORM_TITLE_LIMITS: Record<string, number> = {
+  youtube: MAX_YOUTUBE_TITLE_LENGTH,
+  pinterest: 100
+};
+
+const MAX_HASHTAGS = 30;
+
+export function textLength(text: string): number {
+  return Array.from(text).length;
+}
+
+export function truncateToLimit(text: string, limit: number): string {
+  const chars = Array.from(text);
+  if (chars.length <= limit) {
+    return text;
+  }
+  const cut = chars.slice(0, limit - 1).join("");
+  const lastSpace = cut.search(/\s\S*$/);
+  const base = lastSpace > cut.length * 0.8 ? cut.slice(0, lastSpace) : cut;
+  return `${base.trimEnd()}…`;
+}
+
+export function normalizeHashtags(tags: string[] | null | undefined): string[] {
+  const result: string[] = [];
+  for (const raw of tags ?? []) {
+    const tag = String(raw).trim().replace(/^#+/, "").replace(/\s+/g, "");
+    if (tag && !result.some((existing) => existing.toLowerCase() === `#${tag}`.toLowerCase())) {
+      result.push(`#${tag}`);
+    }
+  }
+  return result;
+}
+
+export function renderPostTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] : match))
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function getPostTemplate(templates: PostTemplates | null | undefined, platform: string): PostTemplate | null {
+  return templates?.[platform] ?? templates?.[DEFAULT_POST_TEMPLATE_KEY] ?? null;
+}
+
+/**
+ * Подпись и заголовок поста для платформы: при превышении лимита сначала отбрасываются хештеги
+ */
+export function buildPlatformPost(
+  templates: PostTemplates | null | undefined,
+  platform: string,
+  variables: PostTemplateVariables
+): PlatformPost {
+  const template = getPostTemplate(templates, platform);
+  const captionLimit = PLATFORM_CAPTION_LIMITS[platform] ?? Infinity;
+  const hashtags = normalizeHashtags(template?.hashtags).slice(0, MAX_HASHTAGS);
+
+  let caption = variables.description;
+  if (template?.caption) {
+    for (let count = hashtags.length; count >= 0; count--) {
+      caption = renderPostTemplate(template.caption, { ...variables, hashtags: hashtags.slice(0, count).join(" ") });
+      if (textLength(caption) <= captionLimit || !template.caption.includes("{hashtags}")) {
+        break;
+      }
+    }
+  }
+
+  let title = template?.title
+    ? renderPostTemplate(template.title, { ...variables, hashtags: hashtags.join(" ") })
+    : variables.title;
+  if (platform === "youtube") {
+    title = normalizeYoutubeTitle(title);
+  } else if (PLATFORM_TITLE_LIMITS[platform]) {
+    title = truncateToLimit(title, PLATFORM_TITLE_LIMITS[platform]);
+  }
+
+  return { title, caption: truncateToLimit(caption, captionLimit) };
+}
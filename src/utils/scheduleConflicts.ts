@@ -15,6 +15,7 @@ interface TimePoint {
  * Рассчитывает набор конфликтующих времён между всеми каналами.
  * Конфликт — когда расстояние между двумя публикациями меньше минимального интервала
  * для соответствующего времени суток, учитывая переход через полночь.
+ * Времена всех каналов должны быть в одном часовом поясе (см. toReferenceSchedule).
  * 
  * @param channels - Список каналов с расписаниями
  * @param settings - Настройки расписания (содержат интервалы по времени суток)
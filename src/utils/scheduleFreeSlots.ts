@@ -176,15 +176,20 @@ export function generateSuggestedSlots(
   return slots.sort((a, b) => a.minutes - b.minutes);
 }
 
-// Утилита для адаптации из ChannelScheduleItem в ChannelSchedule
+// Утилита для адаптации из ChannelScheduleItem в ChannelSchedule.
+// Времена расписаний с правилами (cron/интервал/даты) разворачиваются на сегодня
+// и тоже занимают слоты, чтобы предложения не попадали между их запусками.
 export function mapItemsToChannelSchedule(
   items: ChannelScheduleItem[]
 ): ChannelSchedule[] {
-  return items.map((item) => ({
-    id: item.id,
-    name: item.name,
-    times: item.times
-  }));
+  return items.map((item) => {
+    const ruleTimes = (item.ruleSchedules || []).flatMap((schedule) => schedule.todayTimes);
+    return {
+      id: item.id,
+      name: item.name,
+      times: Array.from(new Set([...(item.manualTimes ?? item.times), ...ruleTimes])).sort()
+    };
+  });
 }
 
 
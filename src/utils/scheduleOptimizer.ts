@@ -0,0 +1,197 @@
+import type { ChannelScheduleItem } from "../api/channelSchedule";
+import type { ScheduleSettings } from "../api/scheduleSettings";
+import { getMinIntervalForMinutes } from "../api/scheduleSettings";
+import type { ScheduleTimeWindow } from "../domain/channel";
+import { calculateScheduleConflicts } from "./scheduleConflicts";
+import { hhmmToMinutes, minutesToHHMM } from "./scheduleFreeSlots";
+
+export interface ScheduleSlotShift {
+  from: string; // "HH:MM"
+  to: string; // "HH:MM"
+}
+
+export interface ChannelScheduleChange {
+  channelId: string;
+  channelName: string;
+  shifts: ScheduleSlotShift[];
+}
+
+export interface UnresolvedScheduleSlot {
+  channelId: string;
+  channelName: string;
+  time: string;
+  reason: string;
+}
+
+export interface ScheduleOptimization {
+  changes: ChannelScheduleChange[];
+  unresolved: UnresolvedScheduleSlot[];
+  totalShiftMinutes: number;
+}
+
+interface Slot {
+  channelId: string;
+  channelName: string;
+  time: string;
+  minutes: number;
+  movable: boolean; // классическое расписание без закрепления
+  windows: ScheduleTimeWindow[];
+}
+
+function circularDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 1440;
+  return Math.min(diff, 1440 - diff);
+}
+
+/**
+ * Попадает ли время в разрешённые окна канала (без окон разрешены сутки целиком).
+ * Окно с началом позже конца переходит через полночь.
+ */
+export function isInsideScheduleWindows(minutes: number, windows: ScheduleTimeWindow[]): boolean {
+  if (windows.length === 0) {
+    return true;
+  }
+  return windows.some((window) => {
+    const start = hhmmToMinutes(window.start);
+    const end = hhmmToMinutes(window.end);
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      return false;
+    }
+    return start <= end ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+  });
+}
+
+/**
+ * Можно ли поставить публикацию между уже размещёнными. Правило то же, что в calculateScheduleConflicts:
+ * до предыдущей публикации — не меньше интервала для новой, до следующей — не меньше интервала следующей.
+ */
+function fitsBetweenNeighbors(minutes: number, placed: number[], settings: ScheduleSettings): boolean {
+  if (placed.length === 0) {
+    return true;
+  }
+  let sincePrevious = Infinity;
+  let untilNext = Infinity;
+  let next = minutes;
+  for (const other of placed) {
+    const after = (minutes - other + 1440) % 1440;
+    const before = (other - minutes + 1440) % 1440;
+    if (after === 0) {
+      return false;
+    }
+    if (after < sincePrevious) {
+      sincePrevious = after;
+    }
+    if (before < untilNext) {
+      untilNext = before;
+      next = other;
+    }
+  }
+  return (
+    sincePrevious >= getMinIntervalForMinutes(minutes, settings) &&
+    untilNext >= getMinIntervalForMinutes(next, settings)
+  );
+}
+
+/**
+ * Ближайшее к исходному свободное время в окнах канала (при равном сдвиге — более позднее) или null
+ */
+function findNearestFreeMinute(slot: Slot, placed: number[], settings: ScheduleSettings): number | null {
+  for (let shift = 0; shift <= 720; shift++) {
+    const candidates = shift === 0 ? [slot.minutes] : [slot.minutes + shift, slot.minutes - shift];
+    for (const candidate of candidates) {
+      const minutes = (candidate + 1440) % 1440;
+      if (isInsideScheduleWindows(minutes, slot.windows) && fitsBetweenNeighbors(minutes, placed, settings)) {
+        return minutes;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Разрешает все конфликты расписания сразу, сдвигая как можно меньше слотов и как можно меньше.
+ *
+ * Слоты без конфликтов внутри своих окон, закреплённые времена и времена расписаний с правилами
+ * остаются на месте. Остальные по порядку времени ставятся в ближайшее свободное время
+ * в разрешённых окнах своего канала. Слоты, для которых места нет, возвращаются в unresolved.
+ *
+ * @param items - Расписание всех каналов (constraints — окна и закреплённые времена канала)
+ * @param settings - Настройки расписания (интервалы по времени суток)
+ */
+export function optimizeSchedule(items: ChannelScheduleItem[], settings: ScheduleSettings): ScheduleOptimization {
+  const slots: Slot[] = [];
+  for (const item of items) {
+    const manual = new Set(item.manualTimes ?? item.times);
+    const locked = new Set(item.constraints?.lockedTimes ?? []);
+    const windows = item.constraints?.allowedWindows ?? [];
+    for (const time of item.times) {
+      const minutes = hhmmToMinutes(time);
+      if (Number.isNaN(minutes)) continue;
+      slots.push({
+        channelId: item.id,
+        channelName: item.name,
+        time,
+        minutes,
+        movable: manual.has(time) && !locked.has(time),
+        windows
+      });
+    }
+  }
+
+  const conflicts = calculateScheduleConflicts(items, settings);
+  const stays = (slot: Slot) =>
+    !slot.movable ||
+    (!conflicts.has(`${slot.channelId}-${slot.time}`) && isInsideScheduleWindows(slot.minutes, slot.windows));
+
+  const placed = slots.filter(stays).map((slot) => slot.minutes);
+  const pending = slots.filter((slot) => !stays(slot)).sort((a, b) => a.minutes - b.minutes);
+
+  const shiftsByChannel = new Map<string, ChannelScheduleChange>();
+  const unresolved: UnresolvedScheduleSlot[] = [];
+  let totalShiftMinutes = 0;
+
+  for (const slot of pending) {
+    const target = findNearestFreeMinute(slot, placed, settings);
+    if (target === null) {
+      unresolved.push({
+        channelId: slot.channelId,
+        channelName: slot.channelName,
+        time: slot.time,
+        reason: slot.windows.length > 0
+          ? "В разрешённых окнах канала нет свободного времени"
+          : "Нет свободного времени с текущими интервалами"
+      });
+      placed.push(slot.minutes);
+      continue;
+    }
+
+    placed.push(target);
+    if (target === slot.minutes) continue;
+
+    const change = shiftsByChannel.get(slot.channelId) ?? {
+      channelId: slot.channelId,
+      channelName: slot.channelName,
+      shifts: []
+    };
+    change.shifts.push({ from: slot.time, to: minutesToHHMM(target) });
+    shiftsByChannel.set(slot.channelId, change);
+    totalShiftMinutes += circularDistance(slot.minutes, target);
+  }
+
+  // Конфликты между неподвижными слотами оптимизатор не исправит
+  for (const slot of slots) {
+    if (!slot.movable && conflicts.has(`${slot.channelId}-${slot.time}`)) {
+      const others = slots.filter((other) => other !== slot && !other.movable).map((other) => other.minutes);
+      if (!fitsBetweenNeighbors(slot.minutes, others, settings)) {
+        unresolved.push({
+          channelId: slot.channelId,
+          channelName: slot.channelName,
+          time: slot.time,
+          reason: "Конфликтует с другим закреплённым временем или расписанием с правилами"
+        });
+      }
+    }
+  }
+
+  return { changes: Array.from(shiftsByChannel.values()), unresolved, totalShiftMinutes };
+}
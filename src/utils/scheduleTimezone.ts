@@ -0,0 +1,86 @@
+import type { ChannelScheduleItem } from "../api/channelSchedule";
+import type { ScheduleTimeWindow } from "../domain/channel";
+import { formatLocalTimeInTimezone, getLocalDateInTimezone, zonedTimeToUtc } from "./scheduleRules";
+
+/**
+ * Опорный часовой пояс расписания.
+ *
+ * Каналы живут в своих часовых поясах, а конфликты, свободные окна, активный слот
+ * и оптимизатор считаются по времени одного опорного пояса (настройка referenceTimezone).
+ * Перевод тот же, что в backend/src/utils/scheduleConflicts.ts.
+ */
+
+export const DEFAULT_REFERENCE_TIMEZONE = "Asia/Almaty";
+
+export const REFERENCE_TIMEZONE_OPTIONS = [
+  { value: "Asia/Almaty", label: "Asia/Almaty (Алматы)" },
+  { value: "Europe/Moscow", label: "Europe/Moscow (Москва)" },
+  { value: "UTC", label: "UTC" },
+  { value: "America/New_York", label: "America/New_York (Нью-Йорк)" },
+  { value: "Europe/London", label: "Europe/London (Лондон)" }
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Переводит время "HH:MM" из часового пояса fromTimezone в toTimezone на календарный день now.
+ * Неполное или неверное время возвращается как есть.
+ */
+export function convertScheduleTime(
+  time: string,
+  fromTimezone: string,
+  toTimezone: string,
+  now: Date = new Date()
+): string {
+  if (fromTimezone === toTimezone || !TIME_PATTERN.test(time)) {
+    return time;
+  }
+  const date = getLocalDateInTimezone(now, fromTimezone);
+  return formatLocalTimeInTimezone(zonedTimeToUtc(date, time, fromTimezone), toTimezone);
+}
+
+/**
+ * Текущее время в минутах от начала суток в часовом поясе timezone
+ */
+export function getMinutesInTimezone(date: Date, timezone: string): number {
+  const [hh, mm] = formatLocalTimeInTimezone(date, timezone).split(":").map(Number);
+  return hh * 60 + mm;
+}
+
+/**
+ * Расписание всех каналов во времени опорного пояса: времена, окна и закрепления
+ * переведены из пояса канала, а timezone строки равен referenceTimezone.
+ */
+export function toReferenceSchedule(
+  items: ChannelScheduleItem[],
+  referenceTimezone: string,
+  now: Date = new Date()
+): ChannelScheduleItem[] {
+  return items.map((item) => {
+    if (item.timezone === referenceTimezone) {
+      return item;
+    }
+    const convert = (time: string) => convertScheduleTime(time, item.timezone, referenceTimezone, now);
+    const convertAll = (times: string[]) => Array.from(new Set(times.map(convert))).sort();
+    const constraints = item.constraints
+      ? {
+          allowedWindows: item.constraints.allowedWindows?.map(
+            (window): ScheduleTimeWindow => ({ start: convert(window.start), end: convert(window.end) })
+          ),
+          lockedTimes: item.constraints.lockedTimes?.map(convert)
+        }
+      : item.constraints;
+
+    return {
+      ...item,
+      timezone: referenceTimezone,
+      times: convertAll(item.times),
+      manualTimes: item.manualTimes ? convertAll(item.manualTimes) : item.manualTimes,
+      ruleSchedules: item.ruleSchedules?.map((schedule) => ({
+        ...schedule,
+        todayTimes: convertAll(schedule.todayTimes)
+      })),
+      constraints
+    };
+  });
+}